@@ -0,0 +1,29 @@
+CREATE TYPE "public"."norm_source" AS ENUM('manual', 'computed');--> statement-breakpoint
+CREATE TABLE "norm_tables" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"test_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"description" text,
+	"scale" varchar(100) DEFAULT 'scaled_score' NOT NULL,
+	"education" "education",
+	"gender" "gender",
+	"age_min" integer,
+	"age_max" integer,
+	"mean" numeric(8, 2) NOT NULL,
+	"std_dev" numeric(8, 2) NOT NULL,
+	"sample_size" integer DEFAULT 0,
+	"percentile_points" json,
+	"source" "norm_source" DEFAULT 'manual' NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" uuid,
+	"updated_by" uuid
+);
+--> statement-breakpoint
+ALTER TABLE "auth_sessions" ALTER COLUMN "updated_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "norm_tables" ADD CONSTRAINT "norm_tables_test_id_tests_id_fk" FOREIGN KEY ("test_id") REFERENCES "public"."tests"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "norm_tables" ADD CONSTRAINT "norm_tables_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "norm_tables" ADD CONSTRAINT "norm_tables_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "norm_tables_test_idx" ON "norm_tables" USING btree ("test_id");--> statement-breakpoint
+CREATE INDEX "norm_tables_test_scale_idx" ON "norm_tables" USING btree ("test_id","scale");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "tests" ADD COLUMN "kraepelin_config" json;
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "certificates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"result_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"certificate_number" varchar(50) NOT NULL,
+	"verification_code" varchar(20) NOT NULL,
+	"recipient_name" varchar(255) NOT NULL,
+	"test_name" varchar(255) NOT NULL,
+	"grade" varchar(10),
+	"completion_date" timestamp NOT NULL,
+	"issued_at" timestamp DEFAULT now() NOT NULL,
+	"issued_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "certificates" ADD CONSTRAINT "certificates_result_id_test_results_id_fk" FOREIGN KEY ("result_id") REFERENCES "public"."test_results"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "certificates" ADD CONSTRAINT "certificates_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "certificates" ADD CONSTRAINT "certificates_issued_by_users_id_fk" FOREIGN KEY ("issued_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "certificates_result_unique" ON "certificates" USING btree ("result_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "certificates_number_unique" ON "certificates" USING btree ("certificate_number");--> statement-breakpoint
+CREATE UNIQUE INDEX "certificates_verification_code_unique" ON "certificates" USING btree ("verification_code");--> statement-breakpoint
+CREATE INDEX "certificates_user_idx" ON "certificates" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TYPE "public"."scheduler_run_status" AS ENUM('success', 'partial', 'failed');--> statement-breakpoint
+CREATE TYPE "public"."scheduler_trigger" AS ENUM('cron', 'manual', 'dev');--> statement-breakpoint
+CREATE TABLE "scheduler_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"trigger" "scheduler_trigger" NOT NULL,
+	"status" "scheduler_run_status" NOT NULL,
+	"started_at" timestamp NOT NULL,
+	"finished_at" timestamp NOT NULL,
+	"duration_ms" integer NOT NULL,
+	"sessions_activated" integer DEFAULT 0,
+	"sessions_expired" integer DEFAULT 0,
+	"attempts_expired" integer DEFAULT 0,
+	"answers_finalized" integer DEFAULT 0,
+	"auth_sessions_cleaned" integer DEFAULT 0,
+	"errors" json,
+	"triggered_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scheduler_runs" ADD CONSTRAINT "scheduler_runs_triggered_by_users_id_fk" FOREIGN KEY ("triggered_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scheduler_runs_started_at_idx" ON "scheduler_runs" USING btree ("started_at");
\ No newline at end of file
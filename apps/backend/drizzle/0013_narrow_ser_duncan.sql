@@ -0,0 +1,17 @@
+CREATE TYPE "public"."otp_channel" AS ENUM('phone', 'email');--> statement-breakpoint
+CREATE TABLE "login_otps" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"channel" "otp_channel" NOT NULL,
+	"destination" varchar(255) NOT NULL,
+	"code_hash" varchar(64) NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"attempts" integer DEFAULT 0,
+	"consumed_at" timestamp,
+	"ip_address" varchar(45),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "login_otps" ADD CONSTRAINT "login_otps_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "login_otps_user_id_idx" ON "login_otps" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "login_otps_expires_at_idx" ON "login_otps" USING btree ("expires_at");
\ No newline at end of file
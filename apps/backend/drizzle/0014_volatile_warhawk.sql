@@ -0,0 +1,13 @@
+CREATE TABLE "attempt_question_deliveries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"attempt_id" uuid NOT NULL,
+	"question_id" uuid NOT NULL,
+	"delivered_at" timestamp NOT NULL,
+	"deadline" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "attempt_question_deliveries" ADD CONSTRAINT "attempt_question_deliveries_attempt_id_test_attempts_id_fk" FOREIGN KEY ("attempt_id") REFERENCES "public"."test_attempts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attempt_question_deliveries" ADD CONSTRAINT "attempt_question_deliveries_question_id_questions_id_fk" FOREIGN KEY ("question_id") REFERENCES "public"."questions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "deliveries_attempt_idx" ON "attempt_question_deliveries" USING btree ("attempt_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "deliveries_attempt_question_unique" ON "attempt_question_deliveries" USING btree ("attempt_id","question_id");
\ No newline at end of file
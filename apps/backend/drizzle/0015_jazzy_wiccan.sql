@@ -0,0 +1,7 @@
+ALTER TABLE "test_attempts" ADD COLUMN "shuffle_seed" varchar(64);--> statement-breakpoint
+ALTER TABLE "test_attempts" ADD COLUMN "shuffle_questions" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "test_attempts" ADD COLUMN "shuffle_options" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "test_sessions" ADD COLUMN "shuffle_questions" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "test_sessions" ADD COLUMN "shuffle_options" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "tests" ADD COLUMN "shuffle_questions" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "tests" ADD COLUMN "shuffle_options" boolean DEFAULT false;
\ No newline at end of file
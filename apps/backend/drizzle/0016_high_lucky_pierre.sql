@@ -0,0 +1,19 @@
+CREATE TYPE "public"."question_difficulty" AS ENUM('easy', 'medium', 'hard');--> statement-breakpoint
+CREATE TABLE "attempt_form_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"attempt_id" uuid NOT NULL,
+	"question_id" uuid NOT NULL,
+	"position" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "dimension" varchar(100);--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "difficulty" "question_difficulty";--> statement-breakpoint
+ALTER TABLE "test_attempts" ADD COLUMN "form_label" varchar(10);--> statement-breakpoint
+ALTER TABLE "tests" ADD COLUMN "blueprint" json;--> statement-breakpoint
+ALTER TABLE "attempt_form_items" ADD CONSTRAINT "attempt_form_items_attempt_id_test_attempts_id_fk" FOREIGN KEY ("attempt_id") REFERENCES "public"."test_attempts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attempt_form_items" ADD CONSTRAINT "attempt_form_items_question_id_questions_id_fk" FOREIGN KEY ("question_id") REFERENCES "public"."questions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "form_items_attempt_idx" ON "attempt_form_items" USING btree ("attempt_id");--> statement-breakpoint
+CREATE INDEX "form_items_question_idx" ON "attempt_form_items" USING btree ("question_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "form_items_attempt_question_unique" ON "attempt_form_items" USING btree ("attempt_id","question_id");--> statement-breakpoint
+CREATE INDEX "questions_bank_tag_idx" ON "questions" USING btree ("test_id","dimension","difficulty");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "questions" ADD COLUMN "irt_params" json;--> statement-breakpoint
+ALTER TABLE "scheduler_runs" ADD COLUMN "items_calibrated" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "test_attempts" ADD COLUMN "is_adaptive" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "tests" ADD COLUMN "adaptive_config" json;--> statement-breakpoint
+ALTER TABLE "tests" ADD COLUMN "calibrated_at" timestamp;
\ No newline at end of file
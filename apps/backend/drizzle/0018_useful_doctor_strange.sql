@@ -0,0 +1,18 @@
+CREATE TABLE "answer_ratings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"answer_id" uuid NOT NULL,
+	"rater_id" uuid NOT NULL,
+	"dimension_scores" json NOT NULL,
+	"score" numeric(5, 2) NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tests" ADD COLUMN "manual_scoring_config" json;--> statement-breakpoint
+ALTER TABLE "user_answers" ADD COLUMN "manual_scores" json;--> statement-breakpoint
+ALTER TABLE "user_answers" ADD COLUMN "manually_scored_at" timestamp;--> statement-breakpoint
+ALTER TABLE "answer_ratings" ADD CONSTRAINT "answer_ratings_answer_id_user_answers_id_fk" FOREIGN KEY ("answer_id") REFERENCES "public"."user_answers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "answer_ratings" ADD CONSTRAINT "answer_ratings_rater_id_users_id_fk" FOREIGN KEY ("rater_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "answer_ratings_answer_idx" ON "answer_ratings" USING btree ("answer_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "answer_ratings_answer_rater_unique" ON "answer_ratings" USING btree ("answer_id","rater_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "questions" ADD COLUMN "scoring_rule" json;
\ No newline at end of file
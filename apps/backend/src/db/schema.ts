@@ -73,6 +73,7 @@ export const participantStatusEnum = pgEnum("participant_status", [
   "started",
   "completed",
   "no_show",
+  "cancelled",
 ]);
 
 export const moduleTypeEnum = pgEnum("module_type", [
@@ -102,6 +103,27 @@ export const categoryEnum = pgEnum("category", [
   "iq",
   "eq",
 ]);
+export const normSourceEnum = pgEnum("norm_source", ["manual", "computed"]);
+
+export const schedulerTriggerEnum = pgEnum("scheduler_trigger", [
+  "cron",
+  "manual",
+  "dev",
+]);
+
+export const schedulerRunStatusEnum = pgEnum("scheduler_run_status", [
+  "success",
+  "partial",
+  "failed",
+]);
+
+export const otpChannelEnum = pgEnum("otp_channel", ["phone", "email"]);
+
+export const questionDifficultyEnum = pgEnum("question_difficulty", [
+  "easy",
+  "medium",
+  "hard",
+]);
 
 // ==================== MAIN TABLES ====================
 
@@ -191,6 +213,29 @@ export const authSessions = pgTable(
   })
 );
 
+// Login OTPs (one-time codes for participant login)
+export const loginOtps = pgTable(
+  "login_otps",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    user_id: uuid("user_id")
+      .notNull()
+      .references(() => users.id),
+    channel: otpChannelEnum("channel").notNull(),
+    destination: varchar("destination", { length: 255 }).notNull(),
+    code_hash: varchar("code_hash", { length: 64 }).notNull(), // SHA-256 hex
+    expires_at: timestamp("expires_at").notNull(),
+    attempts: integer("attempts").default(0),
+    consumed_at: timestamp("consumed_at"),
+    ip_address: varchar("ip_address", { length: 45 }),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdIdx: index("login_otps_user_id_idx").on(table.user_id),
+    expiresAtIdx: index("login_otps_expires_at_idx").on(table.expires_at),
+  })
+);
+
 // Tests Table
 export const tests = pgTable(
   "tests",
@@ -210,6 +255,34 @@ export const tests = pgTable(
     passing_score: numeric("passing_score", { precision: 5, scale: 2 }),
     status: testStatusEnum("status").default("active"),
     instructions: text("instructions"),
+    shuffle_questions: boolean("shuffle_questions").default(false),
+    shuffle_options: boolean("shuffle_options").default(false),
+    kraepelin_config: json("kraepelin_config").$type<{
+      variant: "kraepelin" | "pauli";
+      column_count: number;
+      digits_per_column: number;
+      seconds_per_column: number;
+      seed: string;
+    }>(), // column sheet for kraepelin/pauli tests
+    blueprint: json("blueprint").$type<{
+      form_count: number;
+      sections: {
+        dimension: string | null;
+        difficulty: "easy" | "medium" | "hard" | null;
+        count: number;
+      }[];
+    }>(), // assembles parallel forms from the question bank
+    adaptive_config: json("adaptive_config").$type<{
+      min_items: number;
+      max_items: number;
+      se_threshold: number;
+      start_theta: number;
+    }>(), // computerized adaptive testing for intelligence tests
+    calibrated_at: timestamp("calibrated_at"), // last item calibration run
+    manual_scoring_config: json("manual_scoring_config").$type<{
+      required_raters: number;
+      agreement_tolerance: number;
+    }>(), // double rating of manually graded answers
     created_at: timestamp("created_at").defaultNow().notNull(),
     updated_at: timestamp("updated_at").defaultNow().notNull(),
     created_by: uuid("created_by"),
@@ -246,6 +319,17 @@ export const questions = pgTable(
     image_url: varchar("image_url", { length: 500 }),
     audio_url: varchar("audio_url", { length: 500 }),
     scoring_key: json("scoring_key").$type<Record<string, number>>(), // for complex scoring
+    scoring_rule: json("scoring_rule").$type<{
+      method: "exact" | "position" | "pairwise" | "per_cell";
+    }>(), // partial credit for sequence and matrix items
+    dimension: varchar("dimension", { length: 100 }), // item bank tag
+    difficulty: questionDifficultyEnum("difficulty"), // item bank tag
+    irt_params: json("irt_params").$type<{
+      discrimination: number;
+      difficulty: number;
+      sample_size: number;
+      calibrated_at: string;
+    }>(), // 2PL parameters from the calibration job
     is_required: boolean("is_required").default(true),
     created_at: timestamp("created_at").defaultNow().notNull(),
     updated_at: timestamp("updated_at").defaultNow().notNull(),
@@ -260,6 +344,11 @@ export const questions = pgTable(
       table.test_id,
       table.sequence
     ),
+    bankTagIdx: index("questions_bank_tag_idx").on(
+      table.test_id,
+      table.dimension,
+      table.difficulty
+    ),
   })
 );
 
@@ -281,6 +370,8 @@ export const testSessions = pgTable(
     proctor_id: uuid("proctor_id").references(() => users.id),
     auto_expire: boolean("auto_expire").default(true),
     allow_late_entry: boolean("allow_late_entry").default(false),
+    shuffle_questions: boolean("shuffle_questions").default(false), // on top of test settings
+    shuffle_options: boolean("shuffle_options").default(false),
     created_at: timestamp("created_at").defaultNow().notNull(),
     updated_at: timestamp("updated_at").defaultNow().notNull(),
     created_by: uuid("created_by").references(() => users.id),
@@ -351,6 +442,12 @@ export const testAttempts = pgTable(
     time_spent: integer("time_spent"), // in seconds
     questions_answered: integer("questions_answered").default(0),
     total_questions: integer("total_questions"),
+    // Settings in effect when the attempt started; the seed fixes the order
+    shuffle_seed: varchar("shuffle_seed", { length: 64 }),
+    shuffle_questions: boolean("shuffle_questions").default(false),
+    shuffle_options: boolean("shuffle_options").default(false),
+    form_label: varchar("form_label", { length: 10 }), // parallel form from the test blueprint
+    is_adaptive: boolean("is_adaptive").default(false), // items chosen one at a time by ability
     created_at: timestamp("created_at").defaultNow().notNull(),
     updated_at: timestamp("updated_at").defaultNow().notNull(),
   },
@@ -383,6 +480,8 @@ export const userAnswers = pgTable(
     time_taken: integer("time_taken"), // in seconds
     is_correct: boolean("is_correct"),
     confidence_level: integer("confidence_level"), // 1-5 scale
+    manual_scores: json("manual_scores").$type<Record<string, number>>(), // agreed assessor scores per dimension
+    manually_scored_at: timestamp("manually_scored_at"), // every required rating is in
     answered_at: timestamp("answered_at").defaultNow().notNull(),
     created_at: timestamp("created_at").defaultNow().notNull(),
   },
@@ -400,6 +499,83 @@ export const userAnswers = pgTable(
   })
 );
 
+// Answer Ratings (assessor grades of text, drawing and projective answers)
+export const answerRatings = pgTable(
+  "answer_ratings",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    answer_id: uuid("answer_id")
+      .notNull()
+      .references(() => userAnswers.id, { onDelete: "cascade" }),
+    rater_id: uuid("rater_id")
+      .notNull()
+      .references(() => users.id),
+    dimension_scores: json("dimension_scores")
+      .$type<Record<string, number>>()
+      .notNull(),
+    score: numeric("score", { precision: 5, scale: 2 }).notNull(), // sum over dimensions
+    notes: text("notes"),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+    updated_at: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    answerIdx: index("answer_ratings_answer_idx").on(table.answer_id),
+    answerRaterUnique: uniqueIndex("answer_ratings_answer_rater_unique").on(
+      table.answer_id,
+      table.rater_id
+    ),
+  })
+);
+
+// Attempt Question Deliveries (when a participant first received a question)
+export const attemptQuestionDeliveries = pgTable(
+  "attempt_question_deliveries",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    attempt_id: uuid("attempt_id")
+      .notNull()
+      .references(() => testAttempts.id),
+    question_id: uuid("question_id")
+      .notNull()
+      .references(() => questions.id),
+    delivered_at: timestamp("delivered_at").notNull(),
+    deadline: timestamp("deadline"), // delivered_at + questions.time_limit
+    created_at: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    attemptIdx: index("deliveries_attempt_idx").on(table.attempt_id),
+    attemptQuestionUnique: uniqueIndex("deliveries_attempt_question_unique").on(
+      table.attempt_id,
+      table.question_id
+    ),
+  })
+);
+
+// Attempt Form Items (questions assembled for an attempt from the blueprint,
+// or given one at a time to an adaptive attempt)
+export const attemptFormItems = pgTable(
+  "attempt_form_items",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    attempt_id: uuid("attempt_id")
+      .notNull()
+      .references(() => testAttempts.id),
+    question_id: uuid("question_id")
+      .notNull()
+      .references(() => questions.id),
+    position: integer("position").notNull(),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    attemptIdx: index("form_items_attempt_idx").on(table.attempt_id),
+    questionIdx: index("form_items_question_idx").on(table.question_id),
+    attemptQuestionUnique: uniqueIndex("form_items_attempt_question_unique").on(
+      table.attempt_id,
+      table.question_id
+    ),
+  })
+);
+
 // Test Results Table
 export const testResults = pgTable(
   "test_results",
@@ -562,6 +738,130 @@ export const auditLogs = pgTable(
   })
 );
 
+// Norm Tables (reference groups for norm-referenced scoring)
+export const normTables = pgTable(
+  "norm_tables",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    test_id: uuid("test_id")
+      .notNull()
+      .references(() => tests.id),
+    name: varchar("name", { length: 255 }).notNull(),
+    description: text("description"),
+    scale: varchar("scale", { length: 100 }).notNull().default("scaled_score"), // scaled_score or a trait name
+    // Norm group; null means the norm applies to everyone
+    education: educationEnum("education"),
+    gender: genderEnum("gender"),
+    age_min: integer("age_min"),
+    age_max: integer("age_max"),
+    mean: numeric("mean", { precision: 8, scale: 2 }).notNull(),
+    std_dev: numeric("std_dev", { precision: 8, scale: 2 }).notNull(),
+    sample_size: integer("sample_size").default(0),
+    percentile_points: json("percentile_points").$type<
+      {
+        score: number;
+        percentile: number;
+      }[]
+    >(), // empirical score -> percentile lookup
+    source: normSourceEnum("source").notNull().default("manual"),
+    is_active: boolean("is_active").default(true),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+    updated_at: timestamp("updated_at").defaultNow().notNull(),
+    created_by: uuid("created_by").references(() => users.id),
+    updated_by: uuid("updated_by").references(() => users.id),
+  },
+  (table) => ({
+    testIdIdx: index("norm_tables_test_idx").on(table.test_id),
+    testScaleIdx: index("norm_tables_test_scale_idx").on(
+      table.test_id,
+      table.scale
+    ),
+  })
+);
+
+// Certificates (issued per test result, verifiable by code)
+export const certificates = pgTable(
+  "certificates",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    result_id: uuid("result_id")
+      .notNull()
+      .references(() => testResults.id),
+    user_id: uuid("user_id")
+      .notNull()
+      .references(() => users.id),
+    certificate_number: varchar("certificate_number", { length: 50 }).notNull(),
+    verification_code: varchar("verification_code", { length: 20 }).notNull(),
+    // Snapshot of what was printed, so verification matches the document
+    recipient_name: varchar("recipient_name", { length: 255 }).notNull(),
+    test_name: varchar("test_name", { length: 255 }).notNull(),
+    grade: varchar("grade", { length: 10 }),
+    completion_date: timestamp("completion_date").notNull(),
+    issued_at: timestamp("issued_at").defaultNow().notNull(),
+    issued_by: uuid("issued_by").references(() => users.id),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+    updated_at: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    resultIdx: uniqueIndex("certificates_result_unique").on(table.result_id),
+    numberIdx: uniqueIndex("certificates_number_unique").on(
+      table.certificate_number
+    ),
+    verificationCodeIdx: uniqueIndex(
+      "certificates_verification_code_unique"
+    ).on(table.verification_code),
+    userIdx: index("certificates_user_idx").on(table.user_id),
+  })
+);
+
+// Scheduler Runs (outcome of every scheduled job run)
+export const schedulerRuns = pgTable(
+  "scheduler_runs",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    trigger: schedulerTriggerEnum("trigger").notNull(),
+    status: schedulerRunStatusEnum("status").notNull(),
+    started_at: timestamp("started_at").notNull(),
+    finished_at: timestamp("finished_at").notNull(),
+    duration_ms: integer("duration_ms").notNull(),
+    sessions_activated: integer("sessions_activated").default(0),
+    sessions_expired: integer("sessions_expired").default(0),
+    attempts_expired: integer("attempts_expired").default(0),
+    answers_finalized: integer("answers_finalized").default(0),
+    auth_sessions_cleaned: integer("auth_sessions_cleaned").default(0),
+    items_calibrated: integer("items_calibrated").default(0),
+    errors: json("errors").$type<{ job: string; message: string }[]>(),
+    triggered_by: uuid("triggered_by").references(() => users.id),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    startedAtIdx: index("scheduler_runs_started_at_idx").on(table.started_at),
+  })
+);
+
+// User Import Profiles (saved column mappings for bulk user import)
+export const userImportProfiles = pgTable(
+  "user_import_profiles",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    name: varchar("name", { length: 100 }).notNull(),
+    description: text("description"),
+    // Import field -> spreadsheet header
+    column_mapping: json("column_mapping")
+      .$type<Record<string, string>>()
+      .notNull(),
+    sheet_name: varchar("sheet_name", { length: 100 }), // xlsx only, null = first sheet
+    header_row: integer("header_row"), // null = detect from the headers
+    created_at: timestamp("created_at").defaultNow().notNull(),
+    updated_at: timestamp("updated_at").defaultNow().notNull(),
+    created_by: uuid("created_by").references(() => users.id),
+    updated_by: uuid("updated_by").references(() => users.id),
+  },
+  (table) => ({
+    nameIdx: uniqueIndex("user_import_profiles_name_unique").on(table.name),
+  })
+);
+
 // ==================== RELATIONS ====================
 
 export const usersRelations = relations(users, ({ many, one }) => ({
@@ -571,6 +871,7 @@ export const usersRelations = relations(users, ({ many, one }) => ({
   sessionResults: many(sessionResults),
   sessionParticipants: many(sessionParticipants),
   authSessions: many(authSessions),
+  loginOtps: many(loginOtps),
   createdSessions: many(testSessions, { relationName: "createdBy" }),
   proctorSessions: many(testSessions, { relationName: "proctor" }),
   auditLogs: many(auditLogs),
@@ -583,11 +884,19 @@ export const authSessionsRelations = relations(authSessions, ({ one }) => ({
   }),
 }));
 
+export const loginOtpsRelations = relations(loginOtps, ({ one }) => ({
+  user: one(users, {
+    fields: [loginOtps.user_id],
+    references: [users.id],
+  }),
+}));
+
 export const testsRelations = relations(tests, ({ many }) => ({
   questions: many(questions),
   testAttempts: many(testAttempts),
   testResults: many(testResults),
   sessionModules: many(sessionModules),
+  normTables: many(normTables),
 }));
 
 export const questionsRelations = relations(questions, ({ one, many }) => ({
@@ -645,11 +954,13 @@ export const testAttemptsRelations = relations(
       references: [testSessions.id],
     }),
     userAnswers: many(userAnswers),
+    questionDeliveries: many(attemptQuestionDeliveries),
+    formItems: many(attemptFormItems),
     testResults: many(testResults),
   })
 );
 
-export const userAnswersRelations = relations(userAnswers, ({ one }) => ({
+export const userAnswersRelations = relations(userAnswers, ({ one, many }) => ({
   user: one(users, {
     fields: [userAnswers.user_id],
     references: [users.id],
@@ -662,8 +973,48 @@ export const userAnswersRelations = relations(userAnswers, ({ one }) => ({
     fields: [userAnswers.attempt_id],
     references: [testAttempts.id],
   }),
+  ratings: many(answerRatings),
+}));
+
+export const answerRatingsRelations = relations(answerRatings, ({ one }) => ({
+  answer: one(userAnswers, {
+    fields: [answerRatings.answer_id],
+    references: [userAnswers.id],
+  }),
+  rater: one(users, {
+    fields: [answerRatings.rater_id],
+    references: [users.id],
+  }),
 }));
 
+export const attemptQuestionDeliveriesRelations = relations(
+  attemptQuestionDeliveries,
+  ({ one }) => ({
+    attempt: one(testAttempts, {
+      fields: [attemptQuestionDeliveries.attempt_id],
+      references: [testAttempts.id],
+    }),
+    question: one(questions, {
+      fields: [attemptQuestionDeliveries.question_id],
+      references: [questions.id],
+    }),
+  })
+);
+
+export const attemptFormItemsRelations = relations(
+  attemptFormItems,
+  ({ one }) => ({
+    attempt: one(testAttempts, {
+      fields: [attemptFormItems.attempt_id],
+      references: [testAttempts.id],
+    }),
+    question: one(questions, {
+      fields: [attemptFormItems.question_id],
+      references: [questions.id],
+    }),
+  })
+);
+
 export const testResultsRelations = relations(testResults, ({ one }) => ({
   attempt: one(testAttempts, {
     fields: [testResults.attempt_id],
@@ -717,12 +1068,32 @@ export const sessionParticipantsRelations = relations(
   })
 );
 
+export const normTablesRelations = relations(normTables, ({ one }) => ({
+  test: one(tests, {
+    fields: [normTables.test_id],
+    references: [tests.id],
+  }),
+}));
+
+export const certificatesRelations = relations(certificates, ({ one }) => ({
+  result: one(testResults, {
+    fields: [certificates.result_id],
+    references: [testResults.id],
+  }),
+  user: one(users, {
+    fields: [certificates.user_id],
+    references: [users.id],
+  }),
+}));
+
 // ==================== TYPES ====================
 
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type AuthSession = typeof authSessions.$inferSelect;
 export type NewAuthSession = typeof authSessions.$inferInsert;
+export type LoginOtp = typeof loginOtps.$inferSelect;
+export type NewLoginOtp = typeof loginOtps.$inferInsert;
 export type Test = typeof tests.$inferSelect;
 export type NewTest = typeof tests.$inferInsert;
 export type Question = typeof questions.$inferSelect;
@@ -735,6 +1106,14 @@ export type TestAttempt = typeof testAttempts.$inferSelect;
 export type NewTestAttempt = typeof testAttempts.$inferInsert;
 export type UserAnswer = typeof userAnswers.$inferSelect;
 export type NewUserAnswer = typeof userAnswers.$inferInsert;
+export type AnswerRating = typeof answerRatings.$inferSelect;
+export type NewAnswerRating = typeof answerRatings.$inferInsert;
+export type AttemptQuestionDelivery =
+  typeof attemptQuestionDeliveries.$inferSelect;
+export type NewAttemptQuestionDelivery =
+  typeof attemptQuestionDeliveries.$inferInsert;
+export type AttemptFormItem = typeof attemptFormItems.$inferSelect;
+export type NewAttemptFormItem = typeof attemptFormItems.$inferInsert;
 export type TestResult = typeof testResults.$inferSelect;
 export type NewTestResult = typeof testResults.$inferInsert;
 export type SessionResult = typeof sessionResults.$inferSelect;
@@ -743,3 +1122,11 @@ export type SessionParticipant = typeof sessionParticipants.$inferSelect;
 export type NewSessionParticipant = typeof sessionParticipants.$inferInsert;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type NewAuditLog = typeof auditLogs.$inferInsert;
+export type NormTable = typeof normTables.$inferSelect;
+export type NewNormTable = typeof normTables.$inferInsert;
+export type Certificate = typeof certificates.$inferSelect;
+export type NewCertificate = typeof certificates.$inferInsert;
+export type SchedulerRun = typeof schedulerRuns.$inferSelect;
+export type NewSchedulerRun = typeof schedulerRuns.$inferInsert;
+export type UserImportProfile = typeof userImportProfiles.$inferSelect;
+export type NewUserImportProfile = typeof userImportProfiles.$inferInsert;
@@ -34,12 +34,20 @@ app.get("/", (c) => {
     scheduler: {
       enabled: true,
       interval: "3 minutes",
-      jobs: ["session_status_updater"],
+      jobs: [
+        "auth_session_cleanup",
+        "session_status_updater",
+        "attempt_expiry",
+        "item_calibration",
+        "run_history_cleanup",
+      ],
     },
     endpoints: {
       health: "/api/v1/health",
       auth: {
         login: "POST /api/v1/auth/login",
+        participantOtpRequest: "POST /api/v1/auth/participant/otp/request",
+        participantOtpVerify: "POST /api/v1/auth/participant/otp/verify",
         logout: "POST /api/v1/auth/logout",
         refresh: "POST /api/v1/auth/refresh",
         me: "GET /api/v1/auth/me",
@@ -57,7 +65,15 @@ app.get("/", (c) => {
           validateCsv: "POST /api/v1/users/bulk/validate-csv",
           createFromCsv: "POST /api/v1/users/bulk/csv",
           createFromJson: "POST /api/v1/users/bulk/json",
+          import: "POST /api/v1/users/bulk/import",
+          profiles: {
+            list: "GET /api/v1/users/bulk/profiles",
+            create: "POST /api/v1/users/bulk/profiles",
+            update: "PUT /api/v1/users/bulk/profiles/:profileId",
+            delete: "DELETE /api/v1/users/bulk/profiles/:profileId",
+          },
         },
+        normalizeRegions: "POST /api/v1/users/regions/normalize",
         stats: "GET /api/v1/users/stats/summary",
       },
       sessions: {
@@ -68,9 +84,17 @@ app.get("/", (c) => {
         update: "PUT /api/v1/sessions/:id",
         delete: "DELETE /api/v1/sessions/:id",
         stats: "GET /api/v1/sessions/stats",
+        activate: "POST /api/v1/sessions/:id/activate",
+        cancel: "POST /api/v1/sessions/:id/cancel",
+        complete: "POST /api/v1/sessions/:id/complete",
+        recomputeResults: "POST /api/v1/sessions/:id/results/recompute",
+        statusUpdate: "GET /api/v1/sessions/trigger-status-update",
+        triggerStatusUpdate: "POST /api/v1/sessions/trigger-status-update",
         participants: {
           create: "POST /api/v1/sessions/:sessionId/participants",
           bulk: "POST /api/v1/sessions/:sessionId/participants/bulk",
+          import: "POST /api/v1/sessions/:sessionId/participants/import",
+          roster: "GET /api/v1/sessions/:sessionId/participants/roster",
           list: "GET /api/v1/sessions/:sessionId/participants",
           update: "PUT /api/v1/sessions/:sessionId/participants/:participantId",
           delete:
@@ -85,6 +109,15 @@ app.get("/", (c) => {
         updateDisplayOrder: "PUT /api/v1/tests/:id/display-order",
         delete: "DELETE /api/v1/tests/:id",
         prerequisites: "GET /api/v1/tests/:id/prerequisites",
+        kraepelinConfig: "GET /api/v1/tests/:id/kraepelin",
+        updateKraepelinConfig: "PUT /api/v1/tests/:id/kraepelin",
+        blueprint: "GET /api/v1/tests/:id/blueprint",
+        updateBlueprint: "PUT /api/v1/tests/:id/blueprint",
+        adaptive: "GET /api/v1/tests/:id/adaptive",
+        updateAdaptive: "PUT /api/v1/tests/:id/adaptive",
+        calibrateItems: "POST /api/v1/tests/:id/adaptive/calibrate",
+        manualScoring: "GET /api/v1/tests/:id/manual-scoring",
+        updateManualScoring: "PUT /api/v1/tests/:id/manual-scoring",
         schema: "GET /api/v1/tests/schema",
         analytics: "GET /api/v1/tests/:id/analytics",
         stats: "GET /api/v1/tests/stats/summary",
@@ -102,6 +135,13 @@ app.get("/", (c) => {
           delete: "DELETE /api/v1/tests/:testId/questions/:questionId",
           stats: "GET /api/v1/tests/:testId/questions/stats",
         },
+        norms: {
+          list: "GET /api/v1/tests/:testId/norms",
+          create: "POST /api/v1/tests/:testId/norms",
+          compute: "POST /api/v1/tests/:testId/norms/compute",
+          update: "PUT /api/v1/tests/:testId/norms/:normId",
+          delete: "DELETE /api/v1/tests/:testId/norms/:normId",
+        },
       },
       attempts: {
         start: "POST /api/v1/attempts/start",
@@ -109,6 +149,7 @@ app.get("/", (c) => {
         update: "PUT /api/v1/attempts/:attemptId",
         finish: "POST /api/v1/attempts/:attemptId/finish",
         progress: "GET /api/v1/attempts/:attemptId/progress",
+        presentation: "GET /api/v1/attempts/:attemptId/presentation",
         getUserAttempts: "GET /api/v1/attempts/user/:userId",
         getSessionAttempts: "GET /api/v1/attempts/session/:sessionId",
         statusOptions: "GET /api/v1/attempts/utils/status-options",
@@ -123,6 +164,16 @@ app.get("/", (c) => {
           answerTypes:
             "GET /api/v1/attempts/:attemptId/answers/utils/answer-types",
         },
+        kraepelin: {
+          sheet: "GET /api/v1/attempts/:attemptId/kraepelin",
+          submitColumn:
+            "POST /api/v1/attempts/:attemptId/kraepelin/columns/:columnIndex",
+        },
+        questions: {
+          list: "GET /api/v1/attempts/:attemptId/questions",
+          next: "GET /api/v1/attempts/:attemptId/questions/next",
+          getSpecific: "GET /api/v1/attempts/:attemptId/questions/:questionId",
+        },
       },
       results: {
         getByAttempt: "GET /api/v1/results/attempt/:attemptId",
@@ -131,6 +182,24 @@ app.get("/", (c) => {
         calculate: "POST /api/v1/results/calculate",
         generateReport: "GET /api/v1/results/:resultId/report",
         generateCertificate: "GET /api/v1/results/:resultId/certificate",
+        verifyCertificate:
+          "GET /api/v1/results/certificates/verify/:verificationCode",
+        sessionReview: {
+          queue: "GET /api/v1/results/sessions/review-queue",
+          get: "GET /api/v1/results/sessions/:sessionResultId",
+          review: "PUT /api/v1/results/sessions/:sessionResultId/review",
+          finalize: "POST /api/v1/results/sessions/:sessionResultId/finalize",
+        },
+        manualScoring: {
+          queue: "GET /api/v1/results/manual-scoring/queue",
+          agreement: "GET /api/v1/results/manual-scoring/agreement",
+          getAnswer: "GET /api/v1/results/manual-scoring/answers/:answerId",
+          rate: "PUT /api/v1/results/manual-scoring/answers/:answerId/rating",
+          drawingReplay:
+            "GET /api/v1/results/manual-scoring/answers/:answerId/drawing",
+          drawingImage:
+            "GET /api/v1/results/manual-scoring/answers/:answerId/drawing/image",
+        },
         filterOptions: "GET /api/v1/results/filters/options",
         stats: "GET /api/v1/results/stats/summary",
       },
@@ -161,6 +230,10 @@ app.get("/", (c) => {
         config: "GET /api/v1/analytics/config",
         health: "GET /api/v1/analytics/health",
       },
+      regions: {
+        provinces: "GET /api/v1/regions/provinces",
+        regencies: "GET /api/v1/regions/provinces/:provinceCode/regencies",
+      },
     },
   });
 });
@@ -177,6 +250,6 @@ export default {
     const { runScheduledJobs } = await import("./lib/scheduler");
 
     // Use waitUntil to ensure the job completes before the worker terminates
-    ctx.waitUntil(runScheduledJobs(env));
+    ctx.waitUntil(runScheduledJobs(env, { trigger: "cron" }));
   },
 };
@@ -0,0 +1,301 @@
+import { and, asc, desc, eq } from "drizzle-orm";
+import {
+  attemptFormItems,
+  questions,
+  testAttempts,
+  userAnswers,
+  type Database,
+  type Question,
+  type Test,
+  type TestAttempt,
+} from "../db";
+import {
+  DEFAULT_ADAPTIVE_CONFIG,
+  estimateAbility,
+  getAdaptiveStopReason,
+  getDefaultIrtParameters,
+  selectNextAdaptiveItem,
+  type AbilityEstimate,
+  type AdaptiveAnalysis,
+  type AdaptiveConfig,
+  type AdaptiveItem,
+  type AdaptiveStopReason,
+  type TestAdaptiveData,
+} from "shared-types";
+
+type AdaptiveTest = Pick<Test, "id" | "adaptive_config">;
+type AdaptiveAttempt = Pick<TestAttempt, "id" | "user_id" | "test_id">;
+
+interface AdministeredItem extends AdaptiveItem {
+  position: number;
+  is_answered: boolean; // has a scored (non-draft) answer
+  is_correct: boolean | null;
+}
+
+export interface AdaptiveProgress {
+  config: AdaptiveConfig;
+  estimate: AbilityEstimate;
+  administered: AdministeredItem[];
+  answered: number;
+  // Item waiting for its answer; only this one may be answered
+  current_question_id: string | null;
+  remaining: AdaptiveItem[];
+  stop_reason: AdaptiveStopReason | null;
+}
+
+export interface AdaptiveStep {
+  next_question_id: string | null;
+  items_administered: number;
+  stop_reason: AdaptiveStopReason | null; // set once no more items follow
+}
+
+export function getAdaptiveConfig(test: AdaptiveTest): AdaptiveConfig {
+  return test.adaptive_config || DEFAULT_ADAPTIVE_CONFIG;
+}
+
+export function toAdaptiveItem(
+  question: Pick<Question, "id" | "sequence" | "difficulty" | "irt_params">
+): AdaptiveItem {
+  const params = question.irt_params;
+  const fallback = getDefaultIrtParameters(question.difficulty);
+
+  return {
+    question_id: question.id,
+    sequence: question.sequence,
+    difficulty_tag: question.difficulty,
+    discrimination: params ? params.discrimination : fallback.discrimination,
+    difficulty: params ? params.difficulty : fallback.difficulty,
+    is_calibrated: Boolean(params),
+    sample_size: params ? params.sample_size : null,
+    calibrated_at: params ? params.calibrated_at : null,
+  };
+}
+
+export async function loadAdaptiveItems(
+  db: Database,
+  testId: string
+): Promise<AdaptiveItem[]> {
+  const rows = await db
+    .select({
+      id: questions.id,
+      sequence: questions.sequence,
+      difficulty: questions.difficulty,
+      irt_params: questions.irt_params,
+    })
+    .from(questions)
+    .where(eq(questions.test_id, testId))
+    .orderBy(asc(questions.sequence));
+
+  return rows.map(toAdaptiveItem);
+}
+
+export function buildTestAdaptiveData(
+  test: Pick<Test, "id" | "adaptive_config" | "calibrated_at">,
+  items: AdaptiveItem[]
+): TestAdaptiveData {
+  return {
+    test_id: test.id,
+    adaptive_config: test.adaptive_config,
+    total_items: items.length,
+    calibrated_items: items.filter((item) => item.is_calibrated).length,
+    calibrated_at: test.calibrated_at ? test.calibrated_at.toISOString() : null,
+    items,
+  };
+}
+
+/**
+ * Where an adaptive attempt stands: the items given so far with their
+ * answers, the ability estimate from the scored ones and whether a stop rule
+ * has been reached
+ */
+export async function getAdaptiveProgress(
+  db: Database,
+  attempt: AdaptiveAttempt,
+  test: AdaptiveTest
+): Promise<AdaptiveProgress> {
+  const config = getAdaptiveConfig(test);
+
+  const [bank, givenRows, answerRows] = await Promise.all([
+    loadAdaptiveItems(db, test.id),
+    db
+      .select({
+        question_id: attemptFormItems.question_id,
+        position: attemptFormItems.position,
+      })
+      .from(attemptFormItems)
+      .where(eq(attemptFormItems.attempt_id, attempt.id))
+      .orderBy(asc(attemptFormItems.position)),
+    db
+      .select({
+        question_id: userAnswers.question_id,
+        score: userAnswers.score,
+        is_correct: userAnswers.is_correct,
+      })
+      .from(userAnswers)
+      .where(
+        and(
+          eq(userAnswers.attempt_id, attempt.id),
+          eq(userAnswers.user_id, attempt.user_id)
+        )
+      ),
+  ]);
+
+  const itemById = new Map(bank.map((item) => [item.question_id, item]));
+  const answerByQuestion = new Map(
+    answerRows.map((answer) => [answer.question_id, answer])
+  );
+
+  const administered: AdministeredItem[] = givenRows
+    .filter((row) => itemById.has(row.question_id))
+    .map((row) => {
+      const answer = answerByQuestion.get(row.question_id);
+      const isAnswered = Boolean(answer && answer.score !== null);
+      return {
+        ...itemById.get(row.question_id)!,
+        position: row.position,
+        is_answered: isAnswered,
+        is_correct: isAnswered ? Boolean(answer!.is_correct) : null,
+      };
+    });
+
+  const answeredItems = administered.filter((item) => item.is_answered);
+  const estimate = estimateAbility(
+    answeredItems.map((item) => ({
+      discrimination: item.discrimination,
+      difficulty: item.difficulty,
+      is_correct: item.is_correct!,
+    })),
+    config.start_theta
+  );
+
+  const givenIds = new Set(administered.map((item) => item.question_id));
+  const remaining = bank.filter((item) => !givenIds.has(item.question_id));
+  const current = administered.find((item) => !item.is_answered) || null;
+
+  return {
+    config,
+    estimate,
+    administered,
+    answered: answeredItems.length,
+    current_question_id: current ? current.question_id : null,
+    remaining,
+    stop_reason: current
+      ? null
+      : getAdaptiveStopReason(
+          config,
+          estimate,
+          administered.length,
+          remaining.length
+        ),
+  };
+}
+
+/**
+ * Give the next item once the current one is answered. When a stop rule is
+ * reached the attempt's question total is closed at the items given, so its
+ * progress reads complete
+ */
+export async function advanceAdaptiveAttempt(
+  db: Database,
+  attempt: AdaptiveAttempt,
+  test: AdaptiveTest
+): Promise<AdaptiveStep> {
+  const progress = await getAdaptiveProgress(db, attempt, test);
+  const given = progress.administered.length;
+
+  if (progress.current_question_id) {
+    return {
+      next_question_id: progress.current_question_id,
+      items_administered: given,
+      stop_reason: null,
+    };
+  }
+
+  const next = progress.stop_reason
+    ? null
+    : selectNextAdaptiveItem(progress.remaining, progress.estimate.theta);
+
+  if (!next) {
+    await db
+      .update(testAttempts)
+      .set({ total_questions: given, updated_at: new Date() })
+      .where(eq(testAttempts.id, attempt.id));
+
+    return {
+      next_question_id: null,
+      items_administered: given,
+      stop_reason: progress.stop_reason || "item_bank_exhausted",
+    };
+  }
+
+  await db
+    .insert(attemptFormItems)
+    .values({
+      attempt_id: attempt.id,
+      question_id: next.question_id,
+      position: given + 1,
+    })
+    .onConflictDoNothing();
+
+  return {
+    next_question_id: next.question_id,
+    items_administered: given + 1,
+    stop_reason: null,
+  };
+}
+
+/**
+ * Only the latest item of an adaptive attempt can be answered, and only until
+ * its answer is submitted; earlier answers already steered the selection
+ */
+export async function isAdaptiveItemOpen(
+  db: Database,
+  attempt: AdaptiveAttempt,
+  questionId: string
+): Promise<boolean> {
+  const [latest] = await db
+    .select({ question_id: attemptFormItems.question_id })
+    .from(attemptFormItems)
+    .where(eq(attemptFormItems.attempt_id, attempt.id))
+    .orderBy(desc(attemptFormItems.position))
+    .limit(1);
+
+  if (!latest || latest.question_id !== questionId) return false;
+
+  const [answer] = await db
+    .select({ score: userAnswers.score })
+    .from(userAnswers)
+    .where(
+      and(
+        eq(userAnswers.attempt_id, attempt.id),
+        eq(userAnswers.user_id, attempt.user_id),
+        eq(userAnswers.question_id, questionId)
+      )
+    )
+    .limit(1);
+
+  return !answer || answer.score === null;
+}
+
+// Ability estimate stored with the result once the attempt is finished
+export async function buildAdaptiveAnalysis(
+  db: Database,
+  attempt: AdaptiveAttempt,
+  test: AdaptiveTest
+): Promise<AdaptiveAnalysis> {
+  const progress = await getAdaptiveProgress(db, attempt, test);
+
+  return {
+    theta: progress.estimate.theta,
+    standard_error: progress.estimate.standard_error,
+    items_administered: progress.administered.length,
+    items_answered: progress.answered,
+    stop_reason:
+      getAdaptiveStopReason(
+        progress.config,
+        progress.estimate,
+        progress.administered.length,
+        progress.remaining.length
+      ) || "not_reached",
+  };
+}
@@ -0,0 +1,247 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { sessionModules, testAttempts, tests, type Database } from "../db";
+import { SCORED_ATTEMPT_STATUSES } from "./sessionLifecycle";
+import type {
+  MissingAttemptRequirement,
+  ModuleAccessStatus,
+  SessionModuleAccess,
+} from "shared-types";
+
+interface RequirementTest {
+  id: string;
+  test_prerequisites: string[] | null;
+}
+
+interface SessionModuleEntry {
+  test_id: string;
+  test_name: string;
+  category: string;
+  sequence: number;
+  is_required: boolean;
+  time_limit: number;
+  test_prerequisites: string[] | null;
+}
+
+interface UserAttemptEntry {
+  id: string;
+  test_id: string;
+  session_test_id: string | null;
+  status: string | null;
+}
+
+/**
+ * What the user still has to complete before starting a test. Prerequisites
+ * count a finished (completed or expired) attempt anywhere; earlier required
+ * modules of the session only count when finished within that session
+ */
+export async function getMissingAttemptRequirements(
+  db: Database,
+  userId: string,
+  test: RequirementTest,
+  sessionId: string | null
+): Promise<MissingAttemptRequirement[]> {
+  const modules = sessionId ? await getSessionModuleEntries(db, sessionId) : [];
+  const relevantTestIds = [
+    ...(test.test_prerequisites || []),
+    ...modules.map((module) => module.test_id),
+  ];
+  const attempts = await getUserAttempts(db, userId, relevantTestIds);
+  const testNames = await getTestNames(db, test.test_prerequisites || []);
+
+  return resolveMissingRequirements(
+    test,
+    sessionId,
+    modules,
+    attempts,
+    testNames
+  );
+}
+
+/**
+ * Every module of a session with the user's access state, using the same
+ * rule as attempt start
+ */
+export async function getSessionModuleAccess(
+  db: Database,
+  userId: string,
+  sessionId: string
+): Promise<SessionModuleAccess[]> {
+  const modules = await getSessionModuleEntries(db, sessionId);
+  const prerequisiteIds = modules.flatMap(
+    (module) => module.test_prerequisites || []
+  );
+  const attempts = await getUserAttempts(db, userId, [
+    ...prerequisiteIds,
+    ...modules.map((module) => module.test_id),
+  ]);
+  const testNames = await getTestNames(db, prerequisiteIds);
+
+  return modules.map((module) => {
+    const sessionAttempts = attempts.filter(
+      (attempt) =>
+        attempt.test_id === module.test_id &&
+        attempt.session_test_id === sessionId
+    );
+    const completedAttempt = sessionAttempts.find(isFinishedAttempt);
+    const runningAttempt = sessionAttempts.find(
+      (attempt) =>
+        attempt.status === "started" || attempt.status === "in_progress"
+    );
+    const missingRequirements = resolveMissingRequirements(
+      { id: module.test_id, test_prerequisites: module.test_prerequisites },
+      sessionId,
+      modules,
+      attempts,
+      testNames
+    );
+
+    let status: ModuleAccessStatus = "available";
+    if (completedAttempt) status = "completed";
+    else if (runningAttempt) status = "in_progress";
+    else if (missingRequirements.length > 0) status = "locked";
+
+    return {
+      test_id: module.test_id,
+      test_name: module.test_name,
+      category: module.category,
+      sequence: module.sequence,
+      is_required: module.is_required,
+      time_limit: module.time_limit,
+      status,
+      attempt_id: (completedAttempt || runningAttempt)?.id || null,
+      missing_requirements: missingRequirements,
+    };
+  });
+}
+
+export function formatMissingRequirement(
+  requirement: MissingAttemptRequirement
+): string {
+  return requirement.type === "session_module"
+    ? `Complete module ${requirement.sequence} "${requirement.test_name}" of this session first`
+    : `Complete prerequisite test "${requirement.test_name}" first`;
+}
+
+// Attempts that ran out of time are scored too, so they count as finished
+function isFinishedAttempt(attempt: UserAttemptEntry): boolean {
+  return (SCORED_ATTEMPT_STATUSES as readonly (string | null)[]).includes(
+    attempt.status
+  );
+}
+
+function resolveMissingRequirements(
+  test: RequirementTest,
+  sessionId: string | null,
+  modules: SessionModuleEntry[],
+  attempts: UserAttemptEntry[],
+  testNames: Map<string, string>
+): MissingAttemptRequirement[] {
+  const isCompleted = (testId: string, inSession: boolean) =>
+    attempts.some(
+      (attempt) =>
+        attempt.test_id === testId &&
+        isFinishedAttempt(attempt) &&
+        (!inSession || attempt.session_test_id === sessionId)
+    );
+
+  const missing: MissingAttemptRequirement[] = [];
+  const currentModule = modules.find((module) => module.test_id === test.id);
+
+  // Earlier required modules; these also cover a prerequisite on the same test
+  if (currentModule) {
+    modules
+      .filter(
+        (module) =>
+          module.sequence < currentModule.sequence &&
+          module.is_required &&
+          !isCompleted(module.test_id, true)
+      )
+      .forEach((module) =>
+        missing.push({
+          type: "session_module",
+          test_id: module.test_id,
+          test_name: module.test_name,
+          sequence: module.sequence,
+        })
+      );
+  }
+
+  for (const prerequisiteId of test.test_prerequisites || []) {
+    if (missing.some((item) => item.test_id === prerequisiteId)) continue;
+    if (isCompleted(prerequisiteId, false)) continue;
+
+    const module = modules.find((item) => item.test_id === prerequisiteId);
+    missing.push({
+      type: "prerequisite",
+      test_id: prerequisiteId,
+      test_name:
+        module?.test_name || testNames.get(prerequisiteId) || "Unknown test",
+      sequence: null,
+    });
+  }
+
+  return missing;
+}
+
+async function getSessionModuleEntries(
+  db: Database,
+  sessionId: string
+): Promise<SessionModuleEntry[]> {
+  const rows = await db
+    .select({
+      test_id: sessionModules.test_id,
+      test_name: tests.name,
+      category: tests.category,
+      sequence: sessionModules.sequence,
+      is_required: sessionModules.is_required,
+      time_limit: tests.time_limit,
+      test_prerequisites: tests.test_prerequisites,
+    })
+    .from(sessionModules)
+    .innerJoin(tests, eq(sessionModules.test_id, tests.id))
+    .where(eq(sessionModules.session_id, sessionId))
+    .orderBy(asc(sessionModules.sequence));
+
+  return rows.map((row) => ({
+    ...row,
+    is_required: row.is_required ?? true,
+    time_limit: row.time_limit || 0,
+  }));
+}
+
+async function getUserAttempts(
+  db: Database,
+  userId: string,
+  testIds: string[]
+): Promise<UserAttemptEntry[]> {
+  if (testIds.length === 0) return [];
+
+  return db
+    .select({
+      id: testAttempts.id,
+      test_id: testAttempts.test_id,
+      session_test_id: testAttempts.session_test_id,
+      status: testAttempts.status,
+    })
+    .from(testAttempts)
+    .where(
+      and(
+        eq(testAttempts.user_id, userId),
+        inArray(testAttempts.test_id, [...new Set(testIds)])
+      )
+    );
+}
+
+async function getTestNames(
+  db: Database,
+  testIds: string[]
+): Promise<Map<string, string>> {
+  if (testIds.length === 0) return new Map();
+
+  const rows = await db
+    .select({ id: tests.id, name: tests.name })
+    .from(tests)
+    .where(inArray(tests.id, [...new Set(testIds)]));
+
+  return new Map(rows.map((row) => [row.id, row.name]));
+}
@@ -0,0 +1,43 @@
+import type { Context } from "hono";
+import { auditLogs, type Database, type NewAuditLog } from "../db";
+
+type AuditEntry = Omit<
+  NewAuditLog,
+  "id" | "ip_address" | "user_agent" | "created_at"
+>;
+
+/**
+ * Write an audit_logs entry, tagged with the caller's IP and user agent
+ */
+export async function recordAuditLog(
+  db: Database,
+  c: Context,
+  entry: AuditEntry
+): Promise<void> {
+  await recordAuditLogs(db, c, [entry]);
+}
+
+/**
+ * Write several audit_logs entries of one request in a single insert
+ */
+export async function recordAuditLogs(
+  db: Database,
+  c: Context,
+  entries: AuditEntry[]
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const clientIP =
+    c.req.header("CF-Connecting-IP") ||
+    c.req.header("X-Forwarded-For") ||
+    "unknown";
+  const userAgent = c.req.header("User-Agent") || "unknown";
+
+  await db.insert(auditLogs).values(
+    entries.map((entry) => ({
+      ...entry,
+      ip_address: clientIP.slice(0, 45),
+      user_agent: userAgent,
+    }))
+  );
+}
@@ -0,0 +1,275 @@
+import { render } from "@cf-wasm/og";
+import { PhotonImage } from "@cf-wasm/photon";
+import { renderSVG } from "uqr";
+import type {
+  CertificateContent,
+  CertificateRenderOptions,
+} from "./certificate.types";
+import {
+  CERTIFICATE_TEXTS,
+  CERTIFICATE_THEMES,
+  formatCertificateDate,
+} from "./certificate.utils";
+
+// A4 landscape ratio
+const IMAGE_WIDTH = 1600;
+const IMAGE_HEIGHT = 1131;
+const JPEG_QUALITY = 90;
+
+type Style = Record<string, string | number>;
+
+interface ImageNode {
+  type: string;
+  props: {
+    style?: Style;
+    src?: string;
+    width?: number;
+    height?: number;
+    children?: string | ImageNode | ImageNode[];
+  };
+}
+
+// Satori takes plain element objects, no JSX runtime needed
+function box(style: Style, children?: string | ImageNode[]): ImageNode {
+  return {
+    type: "div",
+    props: { style: { display: "flex", ...style }, children },
+  };
+}
+
+function certificateElement(
+  content: CertificateContent,
+  options: CertificateRenderOptions
+): ImageNode {
+  const theme = CERTIFICATE_THEMES[options.template];
+  const texts = CERTIFICATE_TEXTS[content.language];
+
+  const body: ImageNode[] = [];
+
+  if (options.include_logo) {
+    body.push(
+      box(
+        {
+          width: 84,
+          height: 84,
+          borderRadius: 42,
+          backgroundColor: theme.primary,
+          color: theme.background,
+          fontSize: 50,
+          alignItems: "center",
+          justifyContent: "center",
+        },
+        "S"
+      ),
+      box(
+        {
+          marginTop: 12,
+          fontSize: 20,
+          letterSpacing: 4,
+          color: theme.muted,
+        },
+        content.issuer.toUpperCase()
+      )
+    );
+  }
+
+  body.push(
+    box(
+      {
+        marginTop: 36,
+        fontSize: 76,
+        letterSpacing: 8,
+        color: theme.primary,
+      },
+      texts.title
+    ),
+    box({ fontSize: 28, color: theme.accent }, texts.subtitle),
+    box(
+      { marginTop: 40, fontSize: 26, color: theme.muted },
+      texts.presented_to
+    ),
+    box(
+      {
+        marginTop: 12,
+        paddingBottom: 14,
+        paddingLeft: 40,
+        paddingRight: 40,
+        maxWidth: 1100,
+        fontSize: content.recipient_name.length > 32 ? 46 : 62,
+        color: theme.text,
+        borderBottom: `2px solid ${theme.accent}`,
+        textAlign: "center",
+      },
+      content.recipient_name
+    ),
+    box({ marginTop: 28, fontSize: 26, color: theme.muted }, texts.completed),
+    box(
+      {
+        marginTop: 8,
+        maxWidth: 1100,
+        fontSize: content.test_name.length > 48 ? 32 : 42,
+        color: theme.primary,
+        textAlign: "center",
+      },
+      content.test_name
+    )
+  );
+
+  if (content.grade) {
+    body.push(
+      box(
+        { marginTop: 24, fontSize: 30, color: theme.text },
+        content.grade_label
+          ? `${texts.grade}: ${content.grade} (${content.grade_label})`
+          : `${texts.grade}: ${content.grade}`
+      )
+    );
+  }
+  if (content.score_summary) {
+    body.push(
+      box(
+        { marginTop: 6, fontSize: 22, color: theme.muted },
+        content.score_summary
+      )
+    );
+  }
+
+  const footerItem = (label: string, value: string) =>
+    box({ flexDirection: "column", marginTop: 12 }, [
+      box({ fontSize: 17, color: theme.muted }, label),
+      box({ fontSize: 22, color: theme.text }, value),
+    ]);
+
+  const verification: ImageNode[] = [
+    box({ flexDirection: "column", alignItems: "flex-end" }, [
+      box({ fontSize: 17, color: theme.muted }, texts.verification_code),
+      box(
+        { fontSize: 30, letterSpacing: 2, color: theme.primary },
+        content.verification_code
+      ),
+      box(
+        { marginTop: 6, fontSize: 14, color: theme.muted, maxWidth: 620 },
+        `${texts.verify_hint} ${content.verification_url}`
+      ),
+    ]),
+  ];
+  if (options.include_qr_code) {
+    const svg = renderSVG(content.verification_url, {
+      ecc: "M",
+      border: 1,
+      pixelSize: 6,
+    });
+    verification.push({
+      type: "img",
+      props: {
+        src: `data:image/svg+xml;base64,${btoa(svg)}`,
+        width: 150,
+        height: 150,
+        style: { marginLeft: 24 },
+      },
+    });
+  }
+
+  const footer = box(
+    {
+      width: "100%",
+      justifyContent: "space-between",
+      alignItems: "flex-end",
+      marginTop: "auto",
+    },
+    [
+      box({ flexDirection: "column" }, [
+        footerItem(
+          texts.date,
+          formatCertificateDate(content.completion_date, content.language)
+        ),
+        footerItem(texts.certificate_number, content.certificate_number),
+      ]),
+      box({ alignItems: "flex-end" }, verification),
+    ]
+  );
+
+  const page: ImageNode[] = [];
+  if (theme.frame === "band") {
+    page.push(
+      box({ width: 170, height: "100%", backgroundColor: theme.primary }),
+      box({ width: 12, height: "100%", backgroundColor: theme.accent })
+    );
+  }
+  if (options.watermark) {
+    page.push(
+      box(
+        {
+          position: "absolute",
+          top: 430,
+          left: 0,
+          width: "100%",
+          justifyContent: "center",
+          fontSize: 210,
+          color: theme.primary,
+          opacity: 0.06,
+          transform: "rotate(-20deg)",
+        },
+        texts.watermark
+      )
+    );
+  }
+  const sheet = box(
+    {
+      flex: 1,
+      flexDirection: "column",
+      alignItems: "center",
+      padding: "56px 96px",
+      ...(theme.frame === "double" && { border: `3px solid ${theme.accent}` }),
+      ...(theme.frame === "single" && {
+        margin: 52,
+        border: `2px solid ${theme.muted}`,
+      }),
+    },
+    [...body, footer]
+  );
+  page.push(
+    theme.frame === "double"
+      ? box(
+          {
+            flex: 1,
+            margin: 38,
+            padding: 14,
+            border: `8px solid ${theme.primary}`,
+          },
+          [sheet]
+        )
+      : sheet
+  );
+
+  return box(
+    {
+      width: "100%",
+      height: "100%",
+      backgroundColor: theme.background,
+    },
+    page
+  );
+}
+
+// Renders the certificate as PNG, or JPEG re-encoded from the PNG
+export async function renderCertificateImage(
+  content: CertificateContent,
+  options: CertificateRenderOptions
+): Promise<Uint8Array> {
+  const { image } = await render(certificateElement(content, options), {
+    width: IMAGE_WIDTH,
+    height: IMAGE_HEIGHT,
+  }).asPng();
+
+  if (options.format !== "jpg") {
+    return image;
+  }
+
+  const photon = PhotonImage.new_from_byteslice(image);
+  try {
+    return photon.get_bytes_jpeg(JPEG_QUALITY);
+  } finally {
+    photon.free();
+  }
+}
@@ -0,0 +1,331 @@
+import {
+  PDFDocument,
+  StandardFonts,
+  degrees,
+  rgb,
+  type PDFFont,
+  type PDFPage,
+  type RGB,
+} from "pdf-lib";
+import { hexToRgb, toWinAnsi } from "@/lib/pdf";
+import type {
+  CertificateContent,
+  CertificateRenderOptions,
+} from "./certificate.types";
+import {
+  CERTIFICATE_TEXTS,
+  CERTIFICATE_THEMES,
+  formatCertificateDate,
+  getQrMatrix,
+} from "./certificate.utils";
+
+// A4 landscape in PDF points
+const PAGE_WIDTH = 841.89;
+const PAGE_HEIGHT = 595.28;
+
+function drawCentered(
+  page: PDFPage,
+  text: string,
+  options: {
+    y: number;
+    font: PDFFont;
+    size: number;
+    color: RGB;
+    maxWidth?: number;
+    centerX?: number;
+  }
+) {
+  const value = toWinAnsi(text);
+  const maxWidth = options.maxWidth ?? PAGE_WIDTH - 160;
+  let size = options.size;
+  // Shrink long names and test titles to fit on one line
+  while (size > 8 && options.font.widthOfTextAtSize(value, size) > maxWidth) {
+    size -= 1;
+  }
+  const width = options.font.widthOfTextAtSize(value, size);
+  page.drawText(value, {
+    x: (options.centerX ?? PAGE_WIDTH / 2) - width / 2,
+    y: options.y,
+    size,
+    font: options.font,
+    color: options.color,
+  });
+}
+
+export async function renderCertificatePdf(
+  content: CertificateContent,
+  options: CertificateRenderOptions
+): Promise<Uint8Array> {
+  const theme = CERTIFICATE_THEMES[options.template];
+  const texts = CERTIFICATE_TEXTS[content.language];
+
+  const doc = await PDFDocument.create();
+  doc.setTitle(`${texts.title} - ${toWinAnsi(content.recipient_name)}`);
+  doc.setSubject(toWinAnsi(content.test_name));
+  doc.setAuthor(content.issuer);
+  doc.setCreator(content.issuer);
+  doc.setKeywords([content.certificate_number, content.verification_code]);
+
+  const page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const headingFont = await doc.embedFont(
+    theme.serif ? StandardFonts.TimesRomanBold : StandardFonts.HelveticaBold
+  );
+  const bodyFont = await doc.embedFont(
+    theme.serif ? StandardFonts.TimesRoman : StandardFonts.Helvetica
+  );
+  const labelFont = await doc.embedFont(StandardFonts.Helvetica);
+
+  const primary = hexToRgb(theme.primary);
+  const accent = hexToRgb(theme.accent);
+  const textColor = hexToRgb(theme.text);
+  const muted = hexToRgb(theme.muted);
+
+  page.drawRectangle({
+    x: 0,
+    y: 0,
+    width: PAGE_WIDTH,
+    height: PAGE_HEIGHT,
+    color: hexToRgb(theme.background),
+  });
+
+  // Content is centered between the frame edges; the band shifts it right
+  let centerX = PAGE_WIDTH / 2;
+  if (theme.frame === "double") {
+    page.drawRectangle({
+      x: 20,
+      y: 20,
+      width: PAGE_WIDTH - 40,
+      height: PAGE_HEIGHT - 40,
+      borderColor: primary,
+      borderWidth: 4,
+    });
+    page.drawRectangle({
+      x: 32,
+      y: 32,
+      width: PAGE_WIDTH - 64,
+      height: PAGE_HEIGHT - 64,
+      borderColor: accent,
+      borderWidth: 1.5,
+    });
+  } else if (theme.frame === "band") {
+    page.drawRectangle({
+      x: 0,
+      y: 0,
+      width: 90,
+      height: PAGE_HEIGHT,
+      color: primary,
+    });
+    page.drawRectangle({
+      x: 90,
+      y: 0,
+      width: 6,
+      height: PAGE_HEIGHT,
+      color: accent,
+    });
+    centerX = 96 + (PAGE_WIDTH - 96) / 2;
+  } else {
+    page.drawRectangle({
+      x: 28,
+      y: 28,
+      width: PAGE_WIDTH - 56,
+      height: PAGE_HEIGHT - 56,
+      borderColor: muted,
+      borderWidth: 0.75,
+    });
+  }
+
+  if (options.watermark) {
+    const size = 110;
+    const width = headingFont.widthOfTextAtSize(texts.watermark, size);
+    page.drawText(texts.watermark, {
+      x: centerX - (width / 2) * Math.cos(Math.PI / 9),
+      y: PAGE_HEIGHT / 2 - (width / 2) * Math.sin(Math.PI / 9) - 30,
+      size,
+      font: headingFont,
+      color: primary,
+      opacity: 0.06,
+      rotate: degrees(20),
+    });
+  }
+
+  if (options.include_logo) {
+    page.drawCircle({
+      x: centerX,
+      y: PAGE_HEIGHT - 88,
+      size: 22,
+      color: primary,
+    });
+    drawCentered(page, "S", {
+      y: PAGE_HEIGHT - 97,
+      font: headingFont,
+      size: 26,
+      color: hexToRgb(theme.background),
+      centerX,
+    });
+    drawCentered(page, content.issuer.toUpperCase(), {
+      y: PAGE_HEIGHT - 130,
+      font: labelFont,
+      size: 10,
+      color: muted,
+      centerX,
+    });
+  }
+
+  drawCentered(page, texts.title, {
+    y: PAGE_HEIGHT - 185,
+    font: headingFont,
+    size: 40,
+    color: primary,
+    centerX,
+  });
+  drawCentered(page, texts.subtitle, {
+    y: PAGE_HEIGHT - 210,
+    font: bodyFont,
+    size: 14,
+    color: accent,
+    centerX,
+  });
+  drawCentered(page, texts.presented_to, {
+    y: PAGE_HEIGHT - 250,
+    font: bodyFont,
+    size: 13,
+    color: muted,
+    centerX,
+  });
+  drawCentered(page, content.recipient_name, {
+    y: PAGE_HEIGHT - 292,
+    font: headingFont,
+    size: 32,
+    color: textColor,
+    centerX,
+    maxWidth: 560,
+  });
+  page.drawLine({
+    start: { x: centerX - 190, y: PAGE_HEIGHT - 304 },
+    end: { x: centerX + 190, y: PAGE_HEIGHT - 304 },
+    thickness: 1,
+    color: accent,
+  });
+  drawCentered(page, texts.completed, {
+    y: PAGE_HEIGHT - 332,
+    font: bodyFont,
+    size: 13,
+    color: muted,
+    centerX,
+  });
+  drawCentered(page, content.test_name, {
+    y: PAGE_HEIGHT - 362,
+    font: headingFont,
+    size: 22,
+    color: primary,
+    centerX,
+    maxWidth: 560,
+  });
+
+  if (content.grade) {
+    const gradeText = content.grade_label
+      ? `${texts.grade}: ${content.grade} (${content.grade_label})`
+      : `${texts.grade}: ${content.grade}`;
+    drawCentered(page, gradeText, {
+      y: PAGE_HEIGHT - 395,
+      font: bodyFont,
+      size: 15,
+      color: textColor,
+      centerX,
+    });
+  }
+  if (content.score_summary) {
+    drawCentered(page, content.score_summary, {
+      y: PAGE_HEIGHT - 415,
+      font: bodyFont,
+      size: 11,
+      color: muted,
+      centerX,
+    });
+  }
+
+  // Footer: date and certificate number on the left, verification on the right
+  const footerLeft = theme.frame === "band" ? 130 : 70;
+  const footerRight = PAGE_WIDTH - (options.include_qr_code ? 170 : 70);
+  const footerLines: [string, string, number][] = [
+    [
+      texts.date,
+      formatCertificateDate(content.completion_date, content.language),
+      110,
+    ],
+    [texts.certificate_number, content.certificate_number, 80],
+  ];
+  for (const [label, value, y] of footerLines) {
+    page.drawText(label, {
+      x: footerLeft,
+      y: y + 14,
+      size: 9,
+      font: labelFont,
+      color: muted,
+    });
+    page.drawText(toWinAnsi(value), {
+      x: footerLeft,
+      y,
+      size: 11,
+      font: bodyFont,
+      color: textColor,
+    });
+  }
+
+  const codeWidth = headingFont.widthOfTextAtSize(
+    content.verification_code,
+    14
+  );
+  const codeLabelWidth = labelFont.widthOfTextAtSize(
+    texts.verification_code,
+    9
+  );
+  page.drawText(texts.verification_code, {
+    x: footerRight - codeLabelWidth,
+    y: 124,
+    size: 9,
+    font: labelFont,
+    color: muted,
+  });
+  page.drawText(content.verification_code, {
+    x: footerRight - codeWidth,
+    y: 108,
+    size: 14,
+    font: headingFont,
+    color: primary,
+  });
+  const hint = toWinAnsi(`${texts.verify_hint} ${content.verification_url}`);
+  let hintSize = 7;
+  while (hintSize > 5 && labelFont.widthOfTextAtSize(hint, hintSize) > 420) {
+    hintSize -= 0.5;
+  }
+  page.drawText(hint, {
+    x: footerRight - labelFont.widthOfTextAtSize(hint, hintSize),
+    y: 80,
+    size: hintSize,
+    font: labelFont,
+    color: muted,
+  });
+
+  if (options.include_qr_code) {
+    const matrix = getQrMatrix(content.verification_url);
+    const qrSize = 84;
+    const moduleSize = qrSize / matrix.length;
+    const qrX = PAGE_WIDTH - 70 - qrSize;
+    const qrY = 62;
+    matrix.forEach((row, rowIndex) => {
+      row.forEach((dark, columnIndex) => {
+        if (!dark) return;
+        page.drawRectangle({
+          x: qrX + columnIndex * moduleSize,
+          y: qrY + qrSize - (rowIndex + 1) * moduleSize,
+          width: moduleSize,
+          height: moduleSize,
+          color: rgb(0, 0, 0),
+        });
+      });
+    });
+  }
+
+  return doc.save();
+}
@@ -0,0 +1,58 @@
+import type { CertificateFormat, CertificateTemplate } from "shared-types";
+
+export type CertificateLanguage = "id" | "en";
+
+// Everything printed on a certificate, resolved before rendering
+export interface CertificateContent {
+  language: CertificateLanguage;
+  recipient_name: string;
+  test_name: string;
+  grade: string | null;
+  grade_label: string | null;
+  score_summary: string | null;
+  completion_date: Date;
+  certificate_number: string;
+  verification_code: string;
+  verification_url: string;
+  issuer: string;
+}
+
+export interface CertificateRenderOptions {
+  format: CertificateFormat;
+  template: CertificateTemplate;
+  include_qr_code: boolean;
+  include_logo: boolean;
+  watermark: boolean;
+}
+
+export interface RenderedCertificate {
+  body: Uint8Array;
+  content_type: string;
+  extension: string;
+}
+
+export interface CertificateTheme {
+  background: string;
+  primary: string;
+  accent: string;
+  text: string;
+  muted: string;
+  // double: two framed borders, band: solid side band, single: thin frame
+  frame: "double" | "band" | "single";
+  serif: boolean;
+}
+
+export interface CertificateTexts {
+  title: string;
+  subtitle: string;
+  presented_to: string;
+  completed: string;
+  grade: string;
+  score: string;
+  percentile: string;
+  date: string;
+  certificate_number: string;
+  verification_code: string;
+  verify_hint: string;
+  watermark: string;
+}
@@ -0,0 +1,115 @@
+import { encode } from "uqr";
+import {
+  CERTIFICATE_VERIFICATION_ALPHABET,
+  type CertificateTemplate,
+} from "shared-types";
+import type {
+  CertificateLanguage,
+  CertificateTexts,
+  CertificateTheme,
+} from "./certificate.types";
+
+export const CERTIFICATE_THEMES: Record<CertificateTemplate, CertificateTheme> =
+  {
+    standard: {
+      background: "#ffffff",
+      primary: "#1e3a8a",
+      accent: "#b45309",
+      text: "#111827",
+      muted: "#6b7280",
+      frame: "double",
+      serif: true,
+    },
+    premium: {
+      background: "#fffbeb",
+      primary: "#78350f",
+      accent: "#ca8a04",
+      text: "#1c1917",
+      muted: "#78716c",
+      frame: "double",
+      serif: true,
+    },
+    corporate: {
+      background: "#ffffff",
+      primary: "#0f766e",
+      accent: "#334155",
+      text: "#0f172a",
+      muted: "#64748b",
+      frame: "band",
+      serif: false,
+    },
+    simple: {
+      background: "#ffffff",
+      primary: "#111827",
+      accent: "#4b5563",
+      text: "#111827",
+      muted: "#6b7280",
+      frame: "single",
+      serif: false,
+    },
+  };
+
+export const CERTIFICATE_TEXTS: Record<CertificateLanguage, CertificateTexts> =
+  {
+    id: {
+      title: "SERTIFIKAT",
+      subtitle: "Hasil Psikotes",
+      presented_to: "Diberikan kepada",
+      completed: "telah menyelesaikan tes",
+      grade: "Predikat",
+      score: "Skor",
+      percentile: "Persentil",
+      date: "Tanggal",
+      certificate_number: "No. Sertifikat",
+      verification_code: "Kode Verifikasi",
+      verify_hint: "Periksa keaslian sertifikat di",
+      watermark: "SYNTEGRA",
+    },
+    en: {
+      title: "CERTIFICATE",
+      subtitle: "Psychological Assessment Result",
+      presented_to: "Presented to",
+      completed: "has completed the test",
+      grade: "Grade",
+      score: "Score",
+      percentile: "Percentile",
+      date: "Date",
+      certificate_number: "Certificate No.",
+      verification_code: "Verification Code",
+      verify_hint: "Verify this certificate at",
+      watermark: "SYNTEGRA",
+    },
+  };
+
+export function formatCertificateDate(
+  date: Date,
+  language: CertificateLanguage
+): string {
+  return date.toLocaleDateString(language === "id" ? "id-ID" : "en-US", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+// Random string from the unambiguous alphabet, using the Workers crypto API
+export function randomCertificateString(length: number): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(
+    bytes,
+    (byte) =>
+      CERTIFICATE_VERIFICATION_ALPHABET[
+        byte % CERTIFICATE_VERIFICATION_ALPHABET.length
+      ]
+  ).join("");
+}
+
+// Verification code in XXXX-XXXX-XXXX form
+export function generateVerificationCode(): string {
+  return randomCertificateString(12).match(/.{4}/g)!.join("-");
+}
+
+// QR modules (true = dark) for the verification URL
+export function getQrMatrix(text: string): boolean[][] {
+  return encode(text, { ecc: "M", border: 0 }).data;
+}
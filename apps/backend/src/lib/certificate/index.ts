@@ -0,0 +1,46 @@
+import type {
+  CertificateContent,
+  CertificateRenderOptions,
+  RenderedCertificate,
+} from "./certificate.types";
+import { renderCertificatePdf } from "./certificate.pdf";
+import { renderCertificateImage } from "./certificate.image";
+
+export type {
+  CertificateContent,
+  CertificateLanguage,
+  CertificateRenderOptions,
+  RenderedCertificate,
+} from "./certificate.types";
+export {
+  CERTIFICATE_TEXTS,
+  formatCertificateDate,
+  generateVerificationCode,
+  randomCertificateString,
+} from "./certificate.utils";
+
+const CONTENT_TYPES = {
+  pdf: "application/pdf",
+  png: "image/png",
+  jpg: "image/jpeg",
+} as const;
+
+/**
+ * Render a certificate in the requested format. Everything runs inside the
+ * Worker: PDF through pdf-lib, PNG/JPG through satori + resvg (WASM)
+ */
+export async function renderCertificate(
+  content: CertificateContent,
+  options: CertificateRenderOptions
+): Promise<RenderedCertificate> {
+  const body =
+    options.format === "pdf"
+      ? await renderCertificatePdf(content, options)
+      : await renderCertificateImage(content, options);
+
+  return {
+    body,
+    content_type: CONTENT_TYPES[options.format],
+    extension: options.format,
+  };
+}
@@ -4,6 +4,7 @@ import {
   BULK_CONSTANTS,
   BULK_ERROR_CODES,
   BulkUserDataSchema,
+  suggestColumnMapping,
 } from "shared-types";
 
 // ==================== CSV PARSING ====================
@@ -17,7 +18,7 @@ interface CSVParseResult {
   dataStartRow?: number;
 }
 
-function parseSyntegraCSVSingleLine(longLine: string): string[] {
+export function parseSyntegraCSVSingleLine(longLine: string): string[] {
   const lines: string[] = [];
 
   // Step 1: Deteksi dan pisahkan bagian title
@@ -159,7 +160,13 @@ export function parseCSVContentSmart(csvContent: string): CSVParseResult {
   }
 }
 
-function parseCSVLine(line: string): string[] {
+// singleQuotes also treats '...' as a quoted field, which breaks on Excel's
+// ' text prefix, so only the Syntegra export relies on it
+export function parseCSVLine(
+  line: string,
+  delimiter = ",",
+  singleQuotes = true
+): string[] {
   const result: string[] = [];
   let current = "";
   let inDoubleQuotes = false;
@@ -177,7 +184,7 @@ function parseCSVLine(line: string): string[] {
         // Toggle double quote state
         inDoubleQuotes = !inDoubleQuotes;
       }
-    } else if (char === "'" && !inDoubleQuotes) {
+    } else if (char === "'" && singleQuotes && !inDoubleQuotes) {
       // Handle single quotes
       if (inSingleQuotes && line[i + 1] === "'") {
         // Escaped single quote
@@ -191,7 +198,7 @@ function parseCSVLine(line: string): string[] {
           current += char;
         }
       }
-    } else if (char === "," && !inDoubleQuotes && !inSingleQuotes) {
+    } else if (char === delimiter && !inDoubleQuotes && !inSingleQuotes) {
       // End of field
       result.push(current.trim());
       current = "";
@@ -251,6 +258,19 @@ export function detectSyntegraCSVColumns(
     }
   }
 
+  // Fall back to the closest header for columns spelled differently
+  if (missingColumns.length > 0) {
+    const { mapping } = suggestColumnMapping(headers, detectedMapping);
+    for (const field of [...missingColumns]) {
+      const header = mapping[field as keyof typeof mapping];
+      if (header) {
+        detectedMapping[field] = header;
+        missingColumns.splice(missingColumns.indexOf(field), 1);
+        matchCount++;
+      }
+    }
+  }
+
   // Calculate confidence
   const confidence = matchCount / requiredFields.length;
 
@@ -332,7 +352,7 @@ export function transformSyntegraCSVRowToBulkUser(
 
 // ==================== SYNTEGRA-SPECIFIC NORMALIZATION ====================
 
-function normalizeSyntegraGender(value: any): string | undefined {
+export function normalizeSyntegraGender(value: any): string | undefined {
   if (!value) return undefined;
 
   const strValue = String(value).toLowerCase().trim();
@@ -348,7 +368,7 @@ function normalizeSyntegraGender(value: any): string | undefined {
   return "other";
 }
 
-function normalizeSyntegraPhoneNumber(value: any): string {
+export function normalizeSyntegraPhoneNumber(value: any): string {
   if (!value) return "";
 
   let phone = String(value).trim();
@@ -371,15 +391,16 @@ function normalizeSyntegraPhoneNumber(value: any): string {
   return phone;
 }
 
-function normalizeSyntegraDate(value: any): string | undefined {
+export function normalizeSyntegraDate(value: any): string | undefined {
   if (!value) return undefined;
 
   try {
     const strValue = String(value).trim();
 
-    // Common Indonesian date formats: DD/MM/YYYY
-    if (strValue.includes("/")) {
-      const parts = strValue.split("/");
+    // Common Indonesian date formats: DD/MM/YYYY, DD-MM-YYYY, DD.MM.YYYY
+    const dayFirst = /^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{4})$/.exec(strValue);
+    if (dayFirst) {
+      const parts = dayFirst.slice(1);
       if (parts.length === 3) {
         const day = parts[0].padStart(2, "0");
         const month = parts[1].padStart(2, "0");
@@ -404,27 +425,20 @@ function normalizeSyntegraDate(value: any): string | undefined {
   }
 }
 
-function normalizeSyntegraReligion(value: any): string | undefined {
+export function normalizeSyntegraReligion(value: any): string | undefined {
   if (!value) return undefined;
 
   const strValue = String(value).toLowerCase().trim();
 
   if (["islam", "muslim", "ISLAM", "MUSLIM"].includes(strValue)) return "islam";
   if (
-    [
-      "kristen",
-      "christian",
-      "katolik",
-      "catholic",
-      "katholik",
-      "KRISTEN",
-      "CHRISTIAN",
-      "KATOLIK",
-      "CATHOLIC",
-      "KATHOLIK",
-    ].includes(strValue)
+    ["kristen", "christian", "protestan", "kristen protestan"].includes(
+      strValue
+    )
   )
-    return "christian";
+    return "kristen";
+  if (["katolik", "catholic", "katholik", "kristen katolik"].includes(strValue))
+    return "katolik";
   if (
     ["budha", "buddha", "buddhist", "BUDHA", "BUDDHA", "BUDDHIST"].includes(
       strValue
@@ -432,13 +446,13 @@ function normalizeSyntegraReligion(value: any): string | undefined {
   )
     return "buddha";
   if (["hindu", "HINDU"].includes(strValue)) return "hindu";
-  if (["konghucu", "confucian", "KONGHUCU", "CONFUCIAN"].includes(strValue))
-    return "confucian";
+  if (["konghucu", "kong hu cu", "confucian"].includes(strValue))
+    return "konghucu";
 
   return "other";
 }
 
-function normalizeSyntegraEducation(value: any): string | undefined {
+export function normalizeSyntegraEducation(value: any): string | undefined {
   if (!value) return undefined;
 
   const strValue = String(value).toLowerCase().trim();
@@ -455,7 +469,7 @@ function normalizeSyntegraEducation(value: any): string | undefined {
     ].includes(strValue)
   )
     return "sma";
-  if (["d4", "diploma 4"].includes(strValue)) return "diploma";
+  if (/^(d[1-4]|diploma( [1-4])?)$/.test(strValue)) return "diploma";
   if (["s1", "sarjana", "bachelor"].includes(strValue)) return "s1";
   if (["s2", "magister", "master"].includes(strValue)) return "s2";
   if (["s3", "doktor", "doctor", "phd"].includes(strValue)) return "s3";
@@ -0,0 +1,163 @@
+import { and, eq } from "drizzle-orm";
+import { questions, userAnswers, type Database } from "../db";
+import type { CloudflareBindings, Env } from "./env";
+import { getObjectStorage, type ObjectStorage } from "./storage";
+import {
+  DrawingStrokesSchema,
+  MAX_DRAWING_FILE_SIZE,
+  getDataUrlSize,
+  getDrawingTimeline,
+  summarizeDrawingTimeline,
+  type DrawingAnswerData,
+  type DrawingReplayData,
+} from "shared-types";
+
+const PNG_DATA_URL_PREFIX = "data:image/png;base64,";
+
+// Rendered drawings are kept per attempt and question, a resubmission
+// replaces the previous image
+export function getDrawingImageKey(attemptId: string, questionId: string) {
+  return `drawings/${attemptId}/${questionId}.png`;
+}
+
+/**
+ * Storage for drawing images, or null when it is misconfigured so answers
+ * can still be saved with their strokes
+ */
+export function getDrawingStorage(
+  bindings: CloudflareBindings,
+  env: Env
+): ObjectStorage | null {
+  try {
+    return getObjectStorage(bindings, env);
+  } catch (error) {
+    console.error("Drawing images cannot be stored:", error);
+    return null;
+  }
+}
+
+/**
+ * Turn the drawing sent by the runner into the stored answer_data: the
+ * strokes stay on the answer for replay, the rendered PNG data URL moves to
+ * object storage. A failed upload keeps the answer, the strokes can always
+ * be rendered again. The image key and size always come from storage, never
+ * from the client, so an answer cannot point at another attempt's image
+ */
+export async function storeDrawingAnswer(
+  storage: ObjectStorage | null,
+  target: { attempt_id: string; question_id: string },
+  answerData: Record<string, any>
+): Promise<DrawingAnswerData> {
+  const parsedStrokes = DrawingStrokesSchema.safeParse(answerData.strokes);
+  const strokes = parsedStrokes.success ? parsedStrokes.data : null;
+
+  const key = getDrawingImageKey(target.attempt_id, target.question_id);
+  let imageKey: string | null = null;
+  let imageSize: number | null = null;
+
+  const dataUrl = answerData.drawing_data;
+  if (
+    storage &&
+    typeof dataUrl === "string" &&
+    dataUrl.startsWith(PNG_DATA_URL_PREFIX) &&
+    getDataUrlSize(dataUrl) <= MAX_DRAWING_FILE_SIZE
+  ) {
+    const image = decodeBase64(dataUrl.substring(PNG_DATA_URL_PREFIX.length));
+    try {
+      await storage.put(key, image, "image/png");
+      imageKey = key;
+      imageSize = image.byteLength;
+    } catch (error) {
+      console.error(`Failed to store drawing image ${key}:`, error);
+    }
+  }
+
+  // Without a new image, keep the one stored earlier for this question
+  if (storage && !imageKey) {
+    try {
+      const stored = await storage.get(key);
+      if (stored) {
+        imageKey = key;
+        imageSize = stored.size;
+      }
+    } catch (error) {
+      console.error(`Failed to read drawing image ${key}:`, error);
+    }
+  }
+
+  return {
+    strokes,
+    image_key: imageKey,
+    image_size: imageSize,
+    stroke_count: strokes?.strokes.length ?? 0,
+  };
+}
+
+/**
+ * Strokes of a drawing answer in drawing order with their timing, for the
+ * assessor replay. Answers saved before strokes were captured only have the
+ * image
+ */
+export async function loadDrawingReplay(
+  db: Database,
+  answerId: string,
+  imageUrl: string
+): Promise<DrawingReplayData | null> {
+  const [row] = await db
+    .select({
+      id: userAnswers.id,
+      question_id: userAnswers.question_id,
+      answer_data: userAnswers.answer_data,
+      answered_at: userAnswers.answered_at,
+    })
+    .from(userAnswers)
+    .innerJoin(questions, eq(userAnswers.question_id, questions.id))
+    .where(
+      and(eq(userAnswers.id, answerId), eq(questions.question_type, "drawing"))
+    )
+    .limit(1);
+
+  if (!row) return null;
+
+  const answerData = (row.answer_data as Record<string, any>) || {};
+  const parsedStrokes = DrawingStrokesSchema.safeParse(answerData.strokes);
+  const drawing = parsedStrokes.success
+    ? parsedStrokes.data
+    : { version: 1 as const, width: 0, height: 0, strokes: [] };
+  const timeline = getDrawingTimeline(drawing);
+
+  return {
+    answer_id: row.id,
+    question_id: row.question_id,
+    canvas: { width: drawing.width, height: drawing.height },
+    strokes: drawing.strokes,
+    timeline,
+    summary: summarizeDrawingTimeline(timeline),
+    image_url: answerData.image_key ? imageUrl : null,
+    answered_at: row.answered_at.toISOString(),
+  };
+}
+
+// Image key of a drawing answer, if its rendered PNG was stored
+export async function getDrawingImageKeyForAnswer(
+  db: Database,
+  answerId: string
+): Promise<string | null> {
+  const [row] = await db
+    .select({ answer_data: userAnswers.answer_data })
+    .from(userAnswers)
+    .where(eq(userAnswers.id, answerId))
+    .limit(1);
+
+  const answerData = (row?.answer_data as Record<string, any>) || {};
+  return typeof answerData.image_key === "string" ? answerData.image_key : null;
+}
+
+function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -9,6 +9,11 @@ const envSchema = z.object({
     .enum(["development", "production", "test"])
     .default("development"),
   CORS_ORIGIN: z.string().optional(),
+  OTP_PROVIDER: z.string().optional(), // delivery provider name, e.g. "console"
+  OTP_WEBHOOK_URL: z.string().url("Invalid OTP webhook URL").optional(),
+  OTP_WEBHOOK_SECRET: z.string().optional(),
+  OBJECT_STORAGE: z.string().optional(), // storage backend name, e.g. "r2" or "local"
+  LOCAL_STORAGE_DIR: z.string().optional(), // directory of the local storage stand-in
 });
 
 export type Env = z.infer<typeof envSchema>;
@@ -20,6 +25,12 @@ export interface CloudflareBindings {
   FRONTEND_URL?: string;
   NODE_ENV?: string;
   CORS_ORIGIN?: string;
+  OTP_PROVIDER?: string;
+  OTP_WEBHOOK_URL?: string;
+  OTP_WEBHOOK_SECRET?: string;
+  OBJECT_STORAGE?: string;
+  LOCAL_STORAGE_DIR?: string;
+  STORAGE_BUCKET?: R2Bucket;
 }
 
 // Function untuk validate environment variables
@@ -44,6 +55,11 @@ export function getEnv(c: any): Env {
       FRONTEND_URL: env.FRONTEND_URL || "http://localhost:3000",
       NODE_ENV: env.NODE_ENV || "development",
       CORS_ORIGIN: env.CORS_ORIGIN,
+      OTP_PROVIDER: env.OTP_PROVIDER || "console",
+      OTP_WEBHOOK_URL: env.OTP_WEBHOOK_URL,
+      OTP_WEBHOOK_SECRET: env.OTP_WEBHOOK_SECRET,
+      OBJECT_STORAGE: env.OBJECT_STORAGE,
+      LOCAL_STORAGE_DIR: env.LOCAL_STORAGE_DIR || ".storage",
     };
   }
 
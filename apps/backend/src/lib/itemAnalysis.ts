@@ -0,0 +1,438 @@
+import { and, asc, eq, gte, isNotNull, isNull, lte, or } from "drizzle-orm";
+import {
+  attemptFormItems,
+  questions,
+  testAttempts,
+  testResults,
+  userAnswers,
+  type Database,
+  type Question,
+} from "../db";
+import {
+  ITEM_ANALYSIS_THRESHOLDS,
+  type DistractorAnalysis,
+  type GetTestItemAnalysisQuery,
+  type ItemAnalysis,
+  type ItemAnalysisFlag,
+  type TestItemAnalysisData,
+} from "shared-types";
+
+type AnalysisQuestion = Pick<
+  Question,
+  | "id"
+  | "sequence"
+  | "question"
+  | "question_type"
+  | "correct_answer"
+  | "options"
+>;
+
+interface AnalysisRespondent {
+  attempt_id: string;
+  question_ids: Set<string> | null; // parallel form items, null for all
+}
+
+interface AnalysisResponse {
+  attempt_id: string;
+  question_id: string;
+  answer: string | null;
+  score: number;
+  time_taken: number | null;
+}
+
+const CHOICE_TYPES = ["multiple_choice", "true_false"];
+
+/**
+ * Classical item analysis of a test's scored attempts: item difficulty,
+ * discrimination against the rest score, distractor use and Cronbach's alpha.
+ * Adaptive attempts are left out because their participants got different
+ * items on purpose
+ */
+export async function loadTestItemAnalysis(
+  db: Database,
+  testId: string,
+  query: GetTestItemAnalysisQuery = {}
+): Promise<TestItemAnalysisData> {
+  const attemptFilters = [
+    eq(testResults.test_id, testId),
+    or(isNull(testAttempts.is_adaptive), eq(testAttempts.is_adaptive, false)),
+  ];
+  if (query.session_id) {
+    attemptFilters.push(eq(testAttempts.session_test_id, query.session_id));
+  }
+  if (query.date_from) {
+    attemptFilters.push(
+      gte(testAttempts.start_time, new Date(query.date_from))
+    );
+  }
+  if (query.date_to) {
+    attemptFilters.push(lte(testAttempts.start_time, new Date(query.date_to)));
+  }
+
+  const [testQuestions, attempts, answers, formItems] = await Promise.all([
+    db
+      .select({
+        id: questions.id,
+        sequence: questions.sequence,
+        question: questions.question,
+        question_type: questions.question_type,
+        correct_answer: questions.correct_answer,
+        options: questions.options,
+      })
+      .from(questions)
+      .where(eq(questions.test_id, testId))
+      .orderBy(asc(questions.sequence)),
+    db
+      .select({
+        attempt_id: testAttempts.id,
+        form_label: testAttempts.form_label,
+      })
+      .from(testResults)
+      .innerJoin(testAttempts, eq(testResults.attempt_id, testAttempts.id))
+      .where(and(...attemptFilters)),
+    db
+      .select({
+        attempt_id: userAnswers.attempt_id,
+        question_id: userAnswers.question_id,
+        answer: userAnswers.answer,
+        score: userAnswers.score,
+        time_taken: userAnswers.time_taken,
+      })
+      .from(userAnswers)
+      .innerJoin(
+        testResults,
+        eq(userAnswers.attempt_id, testResults.attempt_id)
+      )
+      .where(
+        and(eq(testResults.test_id, testId), isNotNull(userAnswers.score))
+      ),
+    db
+      .select({
+        attempt_id: attemptFormItems.attempt_id,
+        question_id: attemptFormItems.question_id,
+      })
+      .from(attemptFormItems)
+      .innerJoin(testAttempts, eq(attemptFormItems.attempt_id, testAttempts.id))
+      .where(
+        and(
+          eq(testAttempts.test_id, testId),
+          isNotNull(testAttempts.form_label)
+        )
+      ),
+  ]);
+
+  const formItemsByAttempt = new Map<string, Set<string>>();
+  for (const item of formItems) {
+    const own = formItemsByAttempt.get(item.attempt_id) || new Set<string>();
+    own.add(item.question_id);
+    formItemsByAttempt.set(item.attempt_id, own);
+  }
+
+  const respondents: AnalysisRespondent[] = attempts.map((attempt) => ({
+    attempt_id: attempt.attempt_id,
+    question_ids: attempt.form_label
+      ? formItemsByAttempt.get(attempt.attempt_id) || new Set()
+      : null,
+  }));
+  const respondentIds = new Set(respondents.map((r) => r.attempt_id));
+
+  return {
+    test_id: testId,
+    ...analyzeTestItems(
+      testQuestions,
+      respondents,
+      answers
+        .filter((answer) => respondentIds.has(answer.attempt_id))
+        .map((answer) => ({
+          attempt_id: answer.attempt_id,
+          question_id: answer.question_id,
+          answer: answer.answer,
+          score: parseFloat(answer.score!) || 0,
+          time_taken: answer.time_taken,
+        }))
+    ),
+  };
+}
+
+export function analyzeTestItems(
+  testQuestions: AnalysisQuestion[],
+  respondents: AnalysisRespondent[],
+  responses: AnalysisResponse[]
+): Omit<TestItemAnalysisData, "test_id"> {
+  const maxScores = new Map(
+    testQuestions.map((question) => [question.id, getMaxItemScore(question)])
+  );
+  const scoredIds = testQuestions
+    .filter((question) => maxScores.get(question.id)! > 0)
+    .map((question) => question.id);
+
+  const responseByKey = new Map(
+    responses.map((response) => [
+      `${response.attempt_id}:${response.question_id}`,
+      response,
+    ])
+  );
+
+  const isAdministered = (respondent: AnalysisRespondent, id: string) =>
+    !respondent.question_ids || respondent.question_ids.has(id);
+
+  // Omitted items of an administered form count as wrong
+  const itemScore = (respondent: AnalysisRespondent, id: string): number =>
+    Math.min(
+      responseByKey.get(`${respondent.attempt_id}:${id}`)?.score || 0,
+      maxScores.get(id)!
+    );
+
+  const totals = new Map(
+    respondents.map((respondent) => [
+      respondent.attempt_id,
+      scoredIds
+        .filter((id) => isAdministered(respondent, id))
+        .reduce((sum, id) => sum + itemScore(respondent, id), 0),
+    ])
+  );
+
+  // Alpha needs every participant on the same items
+  const fullRespondents = respondents.filter((respondent) =>
+    scoredIds.every((id) => isAdministered(respondent, id))
+  );
+  const alpha = cronbachAlpha(
+    scoredIds.map((id) => fullRespondents.map((r) => itemScore(r, id)))
+  );
+
+  const items: ItemAnalysis[] = testQuestions.map((question) => {
+    const maxScore = maxScores.get(question.id)!;
+    const given = respondents.filter((r) => isAdministered(r, question.id));
+    const answered = given
+      .map((r) => responseByKey.get(`${r.attempt_id}:${question.id}`))
+      .filter((response): response is AnalysisResponse => Boolean(response));
+
+    const scores = given.map((r) => itemScore(r, question.id));
+    const restScores = given.map(
+      (r, i) => totals.get(r.attempt_id)! - scores[i]
+    );
+
+    const isScored = maxScore > 0;
+    const pValue =
+      isScored && given.length > 0 ? mean(scores)! / maxScore : null;
+    const pointBiserial = isScored ? correlation(scores, restScores) : null;
+
+    const scoredIndex = scoredIds.indexOf(question.id);
+    const alphaIfDeleted =
+      scoredIndex >= 0
+        ? cronbachAlpha(
+            scoredIds
+              .filter((_, i) => i !== scoredIndex)
+              .map((id) => fullRespondents.map((r) => itemScore(r, id)))
+          )
+        : null;
+
+    const times = answered
+      .map((response) => response.time_taken)
+      .filter((time): time is number => time !== null);
+
+    const distractors = analyzeDistractors(question, answered, totals);
+
+    return {
+      question_id: question.id,
+      sequence: question.sequence,
+      question: question.question,
+      question_type: question.question_type,
+      is_scored: isScored,
+      administered: given.length,
+      responses: answered.length,
+      omitted: given.length - answered.length,
+      p_value: round(pValue),
+      point_biserial: round(pointBiserial),
+      alpha_if_deleted: round(alphaIfDeleted),
+      average_time_taken:
+        times.length > 0 ? Math.round(mean(times)! * 10) / 10 : null,
+      distractors,
+      flags: flagItem({
+        isScored,
+        isKeyed: Boolean(question.correct_answer),
+        responses: answered.length,
+        pValue,
+        pointBiserial,
+        alpha,
+        alphaIfDeleted,
+        distractors,
+      }),
+    };
+  });
+
+  const totalScores = respondents.map((r) => totals.get(r.attempt_id)!);
+
+  return {
+    summary: {
+      respondents: respondents.length,
+      scored_items: scoredIds.length,
+      mean_total_score: round(mean(totalScores)),
+      sd_total_score: round(
+        totalScores.length > 0 ? Math.sqrt(variance(totalScores)) : null
+      ),
+      cronbach_alpha: round(alpha),
+      alpha_respondents: fullRespondents.length,
+      flagged_items: items.filter((item) =>
+        item.flags.some((flag) => flag !== "few_responses")
+      ).length,
+    },
+    items,
+  };
+}
+
+// Keyed items score 0-1 (sequences are keyed by their option order),
+// rating scales up to their highest option score. Anything else has no
+// score to analyse
+function getMaxItemScore(question: AnalysisQuestion): number {
+  if (question.correct_answer || question.question_type === "sequence") {
+    return 1;
+  }
+  if (question.question_type === "rating_scale" && question.options) {
+    return Math.max(0, ...question.options.map((option) => option.score || 0));
+  }
+  return 0;
+}
+
+function analyzeDistractors(
+  question: AnalysisQuestion,
+  answered: AnalysisResponse[],
+  totals: Map<string, number>
+): DistractorAnalysis[] {
+  if (!CHOICE_TYPES.includes(question.question_type) || !question.options) {
+    return [];
+  }
+
+  return question.options.map((option) => {
+    const choosers = answered.filter(
+      (response) => response.answer === option.value
+    );
+    return {
+      value: option.value,
+      label: option.label,
+      is_key: option.value === question.correct_answer,
+      count: choosers.length,
+      proportion:
+        round(answered.length > 0 ? choosers.length / answered.length : 0) ?? 0,
+      mean_total_score: round(
+        mean(choosers.map((response) => totals.get(response.attempt_id)!))
+      ),
+    };
+  });
+}
+
+function flagItem(item: {
+  isScored: boolean;
+  isKeyed: boolean;
+  responses: number;
+  pValue: number | null;
+  pointBiserial: number | null;
+  alpha: number | null;
+  alphaIfDeleted: number | null;
+  distractors: DistractorAnalysis[];
+}): ItemAnalysisFlag[] {
+  const limits = ITEM_ANALYSIS_THRESHOLDS;
+  if (!item.isScored) return [];
+  if (item.responses < limits.min_responses) return ["few_responses"];
+
+  const flags: ItemAnalysisFlag[] = [];
+
+  // Difficulty only means something for right/wrong items
+  if (item.isKeyed && item.pValue !== null) {
+    if (item.pValue > limits.too_easy_p) flags.push("too_easy");
+    if (item.pValue < limits.too_hard_p) flags.push("too_hard");
+  }
+
+  if (item.pointBiserial !== null) {
+    if (item.pointBiserial < 0) flags.push("negative_discrimination");
+    else if (item.pointBiserial < limits.low_discrimination) {
+      flags.push("low_discrimination");
+    }
+  }
+
+  const key = item.distractors.find((option) => option.is_key);
+  const distractors = item.distractors.filter((option) => !option.is_key);
+
+  if (
+    distractors.some(
+      (option) => option.proportion < limits.weak_distractor_proportion
+    )
+  ) {
+    flags.push("weak_distractor");
+  }
+  if (
+    key?.mean_total_score != null &&
+    distractors.some(
+      (option) =>
+        option.mean_total_score !== null &&
+        option.mean_total_score > key.mean_total_score!
+    )
+  ) {
+    flags.push("misleading_distractor");
+  }
+
+  if (
+    item.alpha !== null &&
+    item.alphaIfDeleted !== null &&
+    item.alphaIfDeleted > item.alpha + limits.alpha_gain
+  ) {
+    flags.push("lowers_alpha");
+  }
+
+  return flags;
+}
+
+// Item scores as one row per item, one column per participant
+function cronbachAlpha(itemScores: number[][]): number | null {
+  const k = itemScores.length;
+  const n = k > 0 ? itemScores[0].length : 0;
+  if (k < 2 || n < 2) return null;
+
+  const totals = Array.from({ length: n }, (_, j) =>
+    itemScores.reduce((sum, scores) => sum + scores[j], 0)
+  );
+  const totalVariance = variance(totals);
+  if (totalVariance === 0) return null;
+
+  const itemVariance = itemScores.reduce(
+    (sum, scores) => sum + variance(scores),
+    0
+  );
+  return (k / (k - 1)) * (1 - itemVariance / totalVariance);
+}
+
+function correlation(x: number[], y: number[]): number | null {
+  if (x.length < 3) return null;
+
+  const meanX = mean(x)!;
+  const meanY = mean(y)!;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < x.length; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    varianceX += (x[i] - meanX) ** 2;
+    varianceY += (y[i] - meanY) ** 2;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function variance(values: number[]): number {
+  const average = mean(values);
+  if (average === null) return 0;
+  return (
+    values.reduce((sum, value) => sum + (value - average) ** 2, 0) /
+    values.length
+  );
+}
+
+function round(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 1000) / 1000;
+}
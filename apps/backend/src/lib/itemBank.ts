@@ -0,0 +1,108 @@
+import { and, asc, eq, isNotNull } from "drizzle-orm";
+import {
+  attemptFormItems,
+  questions,
+  testAttempts,
+  type Database,
+  type Test,
+} from "../db";
+import {
+  assembleParallelForms,
+  getBlueprintCoverage,
+  selectParallelForm,
+  summarizeItemBank,
+  type ItemBankEntry,
+  type ParallelForm,
+  type TestBlueprint,
+  type TestBlueprintData,
+} from "shared-types";
+
+type BlueprintTest = Pick<Test, "id" | "blueprint">;
+
+export async function loadItemBank(
+  db: Database,
+  testId: string
+): Promise<ItemBankEntry[]> {
+  return db
+    .select({
+      id: questions.id,
+      dimension: questions.dimension,
+      difficulty: questions.difficulty,
+    })
+    .from(questions)
+    .where(eq(questions.test_id, testId))
+    .orderBy(asc(questions.sequence));
+}
+
+/**
+ * Forms are seeded by the test id, so the admin preview shows exactly the
+ * forms a new attempt would be given from the current bank
+ */
+export function buildTestBlueprintData(
+  testId: string,
+  blueprint: TestBlueprint | null,
+  items: ItemBankEntry[]
+): TestBlueprintData {
+  return {
+    test_id: testId,
+    blueprint,
+    total_items: items.length,
+    bank: summarizeItemBank(items),
+    coverage: blueprint ? getBlueprintCoverage(items, blueprint) : [],
+    forms: blueprint ? assembleParallelForms(items, blueprint, testId) : [],
+  };
+}
+
+/**
+ * Parallel form for the user's next attempt at a blueprint test, or null when
+ * the test has no blueprint and uses all of its questions
+ */
+export async function pickAttemptForm(
+  db: Database,
+  userId: string,
+  test: BlueprintTest
+): Promise<ParallelForm | null> {
+  if (!test.blueprint) return null;
+
+  const [items, previousAttempts] = await Promise.all([
+    loadItemBank(db, test.id),
+    db
+      .select({ form_label: testAttempts.form_label })
+      .from(testAttempts)
+      .where(
+        and(
+          eq(testAttempts.user_id, userId),
+          eq(testAttempts.test_id, test.id),
+          isNotNull(testAttempts.form_label)
+        )
+      ),
+  ]);
+
+  const forms = assembleParallelForms(items, test.blueprint, test.id);
+  const label = selectParallelForm(
+    forms.length,
+    previousAttempts.map((attempt) => attempt.form_label!)
+  );
+
+  return forms.find((form) => form.label === label) || null;
+}
+
+// The bank keeps changing, so the items an attempt received are stored
+export async function recordAttemptFormItems(
+  db: Database,
+  attemptId: string,
+  form: ParallelForm
+): Promise<void> {
+  if (form.question_ids.length === 0) return;
+
+  await db
+    .insert(attemptFormItems)
+    .values(
+      form.question_ids.map((questionId, index) => ({
+        attempt_id: attemptId,
+        question_id: questionId,
+        position: index + 1,
+      }))
+    )
+    .onConflictDoNothing();
+}
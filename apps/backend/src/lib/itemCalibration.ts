@@ -0,0 +1,321 @@
+import { and, count, eq, isNotNull, isNull, lt, or, sql } from "drizzle-orm";
+import {
+  questions,
+  testAttempts,
+  tests,
+  userAnswers,
+  type Database,
+} from "../db";
+import type { ItemCalibrationSummary } from "shared-types";
+
+// Items need this many scored responses before their parameters are trusted
+export const MIN_CALIBRATION_SAMPLE = 30;
+
+// The scheduler recalibrates an adaptive test at most this often
+const CALIBRATION_INTERVAL_HOURS = 24;
+
+const MAX_ITERATIONS = 50;
+const CONVERGENCE = 0.001;
+
+interface ScoredResponse {
+  respondent: string;
+  item: string;
+  is_correct: boolean;
+}
+
+export interface EstimatedItemParameters {
+  discrimination: number;
+  difficulty: number;
+  sample_size: number;
+}
+
+/**
+ * Joint maximum likelihood estimates of 2PL item parameters. Respondents who
+ * got everything right or wrong carry no information and are left out, as
+ * are items below the minimum sample or answered the same way by everyone.
+ * Abilities are rescaled to mean 0 and SD 1 each round to fix the scale
+ */
+export function estimateItemParameters(
+  responses: ScoredResponse[],
+  minSampleSize: number = MIN_CALIBRATION_SAMPLE
+): Map<string, EstimatedItemParameters> {
+  let kept = responses;
+
+  // Dropping respondents can push items under the minimum and the other way
+  // round, so filter until nothing changes
+  for (let pass = 0; pass < 10; pass++) {
+    const respondentTotals = tally(kept, (response) => response.respondent);
+    const itemTotals = tally(kept, (response) => response.item);
+
+    const filtered = kept.filter((response) => {
+      const person = respondentTotals.get(response.respondent)!;
+      const item = itemTotals.get(response.item)!;
+      return isMixed(person) && isMixed(item) && item.count >= minSampleSize;
+    });
+
+    if (filtered.length === kept.length) break;
+    kept = filtered;
+  }
+
+  if (kept.length === 0) return new Map();
+
+  const respondentTotals = tally(kept, (response) => response.respondent);
+  const itemTotals = tally(kept, (response) => response.item);
+
+  const theta = new Map(
+    [...respondentTotals].map(([id, total]) => [
+      id,
+      logit((total.correct + 0.5) / (total.count + 1)),
+    ])
+  );
+  const params = new Map(
+    [...itemTotals].map(([id, total]) => [
+      id,
+      {
+        discrimination: 1,
+        difficulty: clamp(-logit(total.correct / total.count), -4, 4),
+      },
+    ])
+  );
+  standardize(theta);
+
+  const byRespondent = group(kept, (response) => response.respondent);
+  const byItem = group(kept, (response) => response.item);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    // Ability step with the item parameters held fixed
+    for (const [id, own] of byRespondent) {
+      let gradient = 0;
+      let information = 0;
+      for (const response of own) {
+        const item = params.get(response.item)!;
+        const p = probability(item, theta.get(id)!);
+        gradient += item.discrimination * (Number(response.is_correct) - p);
+        information += item.discrimination ** 2 * p * (1 - p);
+      }
+      const step = clamp(gradient / Math.max(information, 1e-6), -1, 1);
+      theta.set(id, clamp(theta.get(id)! + step, -4, 4));
+    }
+    standardize(theta);
+
+    // Fisher scoring step for (a, b) with the abilities held fixed
+    let largestChange = 0;
+    for (const [id, own] of byItem) {
+      const item = params.get(id)!;
+      let gradientA = 0;
+      let gradientB = 0;
+      let infoAA = 0;
+      let infoBB = 0;
+      let infoAB = 0;
+
+      for (const response of own) {
+        const distance = theta.get(response.respondent)! - item.difficulty;
+        const p = probability(item, theta.get(response.respondent)!);
+        const residual = Number(response.is_correct) - p;
+        const weight = p * (1 - p);
+
+        gradientA += residual * distance;
+        gradientB -= residual * item.discrimination;
+        infoAA += weight * distance * distance;
+        infoBB += weight * item.discrimination ** 2;
+        infoAB -= weight * distance * item.discrimination;
+      }
+
+      const determinant = infoAA * infoBB - infoAB * infoAB;
+      if (determinant <= 1e-9) continue;
+
+      const stepA = (infoBB * gradientA - infoAB * gradientB) / determinant;
+      const stepB = (infoAA * gradientB - infoAB * gradientA) / determinant;
+      const next = {
+        discrimination: clamp(
+          item.discrimination + clamp(stepA, -0.5, 0.5),
+          0.2,
+          3
+        ),
+        difficulty: clamp(item.difficulty + clamp(stepB, -1, 1), -4, 4),
+      };
+
+      largestChange = Math.max(
+        largestChange,
+        Math.abs(next.discrimination - item.discrimination),
+        Math.abs(next.difficulty - item.difficulty)
+      );
+      params.set(id, next);
+    }
+
+    if (largestChange < CONVERGENCE) break;
+  }
+
+  return new Map(
+    [...params].map(([id, item]) => [
+      id,
+      {
+        discrimination: round(item.discrimination),
+        difficulty: round(item.difficulty),
+        sample_size: itemTotals.get(id)!.count,
+      },
+    ])
+  );
+}
+
+/**
+ * Recalibrate every question of a test from the scored answers of its
+ * completed attempts. Items that cannot be estimated keep their parameters
+ */
+export async function calibrateTestItems(
+  db: Database,
+  testId: string,
+  now: Date = new Date()
+): Promise<ItemCalibrationSummary> {
+  const rows = await db
+    .select({
+      attempt_id: userAnswers.attempt_id,
+      question_id: userAnswers.question_id,
+      is_correct: userAnswers.is_correct,
+    })
+    .from(userAnswers)
+    .innerJoin(testAttempts, eq(userAnswers.attempt_id, testAttempts.id))
+    .where(
+      and(
+        eq(testAttempts.test_id, testId),
+        eq(testAttempts.status, "completed"),
+        isNotNull(userAnswers.score),
+        isNotNull(userAnswers.is_correct)
+      )
+    );
+
+  const estimates = estimateItemParameters(
+    rows.map((row) => ({
+      respondent: row.attempt_id,
+      item: row.question_id,
+      is_correct: row.is_correct!,
+    }))
+  );
+
+  const calibratedAt = now.toISOString();
+  for (const [questionId, estimate] of estimates) {
+    await db
+      .update(questions)
+      .set({
+        irt_params: { ...estimate, calibrated_at: calibratedAt },
+        updated_at: now,
+      })
+      .where(and(eq(questions.id, questionId), eq(questions.test_id, testId)));
+  }
+
+  await db
+    .update(tests)
+    .set({ calibrated_at: now })
+    .where(eq(tests.id, testId));
+
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(questions)
+    .where(eq(questions.test_id, testId));
+
+  return {
+    test_id: testId,
+    attempts_used: new Set(rows.map((row) => row.attempt_id)).size,
+    items_calibrated: estimates.size,
+    items_skipped: Math.max(0, total - estimates.size),
+    calibrated_at: calibratedAt,
+  };
+}
+
+/**
+ * Scheduler job: recalibrate the adaptive test whose last calibration run is
+ * oldest, one test per run so the cron stays short. Returns the items
+ * calibrated
+ */
+export async function calibrateStaleAdaptiveTests(
+  db: Database,
+  now: Date
+): Promise<number> {
+  const cutoff = new Date(
+    now.getTime() - CALIBRATION_INTERVAL_HOURS * 60 * 60 * 1000
+  );
+
+  const [stalest] = await db
+    .select({ id: tests.id })
+    .from(tests)
+    .where(
+      and(
+        isNotNull(tests.adaptive_config),
+        or(isNull(tests.calibrated_at), lt(tests.calibrated_at, cutoff))
+      )
+    )
+    .orderBy(sql`${tests.calibrated_at} asc nulls first`)
+    .limit(1);
+
+  if (!stalest) return 0;
+
+  const summary = await calibrateTestItems(db, stalest.id, now);
+  console.log(
+    `📐 Calibrated ${summary.items_calibrated} item(s) of test ${stalest.id} from ${summary.attempts_used} attempt(s)`
+  );
+
+  return summary.items_calibrated;
+}
+
+function probability(
+  item: { discrimination: number; difficulty: number },
+  theta: number
+): number {
+  return 1 / (1 + Math.exp(-item.discrimination * (theta - item.difficulty)));
+}
+
+function tally(
+  responses: ScoredResponse[],
+  key: (response: ScoredResponse) => string
+): Map<string, { count: number; correct: number }> {
+  const totals = new Map<string, { count: number; correct: number }>();
+  for (const response of responses) {
+    const total = totals.get(key(response)) || { count: 0, correct: 0 };
+    total.count++;
+    if (response.is_correct) total.correct++;
+    totals.set(key(response), total);
+  }
+  return totals;
+}
+
+function group(
+  responses: ScoredResponse[],
+  key: (response: ScoredResponse) => string
+): Map<string, ScoredResponse[]> {
+  const groups = new Map<string, ScoredResponse[]>();
+  for (const response of responses) {
+    const own = groups.get(key(response)) || [];
+    own.push(response);
+    groups.set(key(response), own);
+  }
+  return groups;
+}
+
+function isMixed(total: { count: number; correct: number }): boolean {
+  return total.correct > 0 && total.correct < total.count;
+}
+
+function standardize(values: Map<string, number>): void {
+  const list = [...values.values()];
+  const mean = list.reduce((sum, value) => sum + value, 0) / list.length;
+  const sd = Math.sqrt(
+    list.reduce((sum, value) => sum + (value - mean) ** 2, 0) / list.length
+  );
+
+  for (const [id, value] of values) {
+    values.set(id, sd > 0 ? (value - mean) / sd : value - mean);
+  }
+}
+
+function logit(p: number): number {
+  const bounded = clamp(p, 0.01, 0.99);
+  return Math.log(bounded / (1 - bounded));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,540 @@
+import {
+  and,
+  asc,
+  count,
+  eq,
+  inArray,
+  isNotNull,
+  isNull,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import {
+  answerRatings,
+  questions,
+  testAttempts,
+  testResults,
+  tests,
+  userAnswers,
+  users,
+  type Database,
+  type Question,
+  type Test,
+  type TestAttempt,
+  type User,
+  type UserAnswer,
+} from "../db";
+import { parseScoringKey } from "./scoring/scoring.utils";
+import { calculateAttemptResult } from "./testResults";
+import {
+  DEFAULT_MANUAL_SCORING_CONFIG,
+  DEFAULT_MANUAL_SCORING_DIMENSION,
+  MANUAL_SCORING_QUESTION_TYPES,
+  calculateAnswerAgreement,
+  calculateRaterAgreement,
+  type AnswerRating,
+  type GetRaterAgreementQuery,
+  type ManualScoringAnswerData,
+  type ManualScoringConfig,
+  type ManualScoringDimension,
+  type ManualScoringQueueItem,
+  type ManualScoringStatus,
+  type RaterAgreementReport,
+} from "shared-types";
+
+type ManualScoringTest = Pick<Test, "id" | "manual_scoring_config">;
+
+export interface ManualScoringRow {
+  answer: UserAnswer;
+  question: Question;
+  attempt: TestAttempt;
+  test: Test;
+  user: User;
+}
+
+interface DimensionScoreError {
+  field: string;
+  message: string;
+  code: string;
+}
+
+// Answers that go to assessors: gradable question type, with content,
+// from an attempt the participant completed
+export const MANUAL_SCORING_ANSWER_CONDITION = and(
+  inArray(questions.question_type, [...MANUAL_SCORING_QUESTION_TYPES]),
+  eq(testAttempts.status, "completed"),
+  or(isNotNull(userAnswers.answer), isNotNull(userAnswers.answer_data))
+) as SQL;
+
+export function getManualScoringConfig(
+  test: ManualScoringTest
+): ManualScoringConfig {
+  return test.manual_scoring_config || DEFAULT_MANUAL_SCORING_CONFIG;
+}
+
+/**
+ * Dimensions an assessor scores for a question: every dimension-wide
+ * scoring_key entry, its weight being the maximum. Questions without a
+ * key get a single 0-1 score
+ */
+export function getManualScoringDimensions(
+  question: Pick<Question, "scoring_key">
+): ManualScoringDimension[] {
+  const dimensions = new Map<string, number>();
+  for (const entry of parseScoringKey(question.scoring_key)) {
+    if (entry.option !== null || !entry.dimension) continue;
+    dimensions.set(
+      entry.dimension,
+      (dimensions.get(entry.dimension) || 0) + Math.abs(entry.weight)
+    );
+  }
+
+  if (dimensions.size === 0) return [DEFAULT_MANUAL_SCORING_DIMENSION];
+
+  return Array.from(dimensions.entries()).map(([dimension, max_score]) => ({
+    dimension,
+    max_score,
+  }));
+}
+
+// Every dimension scored once, within its maximum, and nothing else
+export function validateDimensionScores(
+  dimensions: ManualScoringDimension[],
+  scores: Record<string, number>
+): DimensionScoreError[] {
+  const errors: DimensionScoreError[] = [];
+
+  for (const { dimension, max_score } of dimensions) {
+    const score = scores[dimension];
+    if (score === undefined) {
+      errors.push({
+        field: `dimension_scores.${dimension}`,
+        message: `Score for "${dimension}" is required`,
+        code: "DIMENSION_SCORE_MISSING",
+      });
+    } else if (score > max_score) {
+      errors.push({
+        field: `dimension_scores.${dimension}`,
+        message: `Score for "${dimension}" cannot exceed ${max_score}`,
+        code: "DIMENSION_SCORE_OUT_OF_RANGE",
+      });
+    }
+  }
+
+  const known = new Set(dimensions.map(({ dimension }) => dimension));
+  for (const dimension of Object.keys(scores)) {
+    if (!known.has(dimension)) {
+      errors.push({
+        field: `dimension_scores.${dimension}`,
+        message: `"${dimension}" is not scored on this question`,
+        code: "UNKNOWN_DIMENSION",
+      });
+    }
+  }
+
+  return errors;
+}
+
+// Whether the assessor already graded the answer
+export function ratedBySql(raterId: string): SQL {
+  return sql`exists (select 1 from ${answerRatings} where ${answerRatings.answer_id} = ${userAnswers.id} and ${answerRatings.rater_id} = ${raterId})`;
+}
+
+export function getManualScoringStatusConditions(
+  raterId: string
+): Record<ManualScoringStatus, SQL> {
+  const ratedByMe = ratedBySql(raterId);
+  return {
+    needs_rating: and(
+      isNull(userAnswers.manually_scored_at),
+      sql`not ${ratedByMe}`
+    ) as SQL,
+    awaiting_rater: and(
+      isNull(userAnswers.manually_scored_at),
+      ratedByMe
+    ) as SQL,
+    scored: isNotNull(userAnswers.manually_scored_at),
+  };
+}
+
+export function getManualScoringQueueColumns(raterId: string) {
+  return {
+    answer_id: userAnswers.id,
+    attempt_id: userAnswers.attempt_id,
+    answered_at: userAnswers.answered_at,
+    manually_scored_at: userAnswers.manually_scored_at,
+    user_id: users.id,
+    user_name: users.name,
+    user_email: users.email,
+    test_id: tests.id,
+    test_name: tests.name,
+    test_category: tests.category,
+    manual_scoring_config: tests.manual_scoring_config,
+    question_id: questions.id,
+    question: questions.question,
+    question_type: questions.question_type,
+    question_sequence: questions.sequence,
+    ratings_count: sql<number>`(select count(*)::int from ${answerRatings} where ${answerRatings.answer_id} = ${userAnswers.id})`,
+    rated_by_me: sql<boolean>`${ratedBySql(raterId)}`,
+  };
+}
+
+type ManualScoringQueueRow = {
+  answer_id: string;
+  attempt_id: string;
+  answered_at: Date;
+  manually_scored_at: Date | null;
+  user_id: string;
+  user_name: string;
+  user_email: string;
+  test_id: string;
+  test_name: string;
+  test_category: string;
+  manual_scoring_config: Test["manual_scoring_config"];
+  question_id: string;
+  question: string;
+  question_type: Question["question_type"];
+  question_sequence: number;
+  ratings_count: number;
+  rated_by_me: boolean;
+};
+
+export function toManualScoringQueueItem(
+  row: ManualScoringQueueRow
+): ManualScoringQueueItem {
+  const ratedByMe = Boolean(row.rated_by_me);
+  return {
+    answer_id: row.answer_id,
+    attempt_id: row.attempt_id,
+    status: getManualScoringStatus(row.manually_scored_at, ratedByMe),
+    participant: {
+      id: row.user_id,
+      name: row.user_name,
+      email: row.user_email,
+    },
+    test: {
+      id: row.test_id,
+      name: row.test_name,
+      category: row.test_category,
+    },
+    question: {
+      id: row.question_id,
+      question: row.question,
+      question_type: row.question_type,
+      sequence: row.question_sequence,
+    },
+    answered_at: row.answered_at,
+    ratings_count: Number(row.ratings_count) || 0,
+    required_raters: getManualScoringConfig({
+      id: row.test_id,
+      manual_scoring_config: row.manual_scoring_config,
+    }).required_raters,
+    rated_by_me: ratedByMe,
+  };
+}
+
+export async function loadManualScoringAnswer(
+  db: Database,
+  answerId: string
+): Promise<ManualScoringRow | null> {
+  const [row] = await db
+    .select({
+      answer: userAnswers,
+      question: questions,
+      attempt: testAttempts,
+      test: tests,
+      user: users,
+    })
+    .from(userAnswers)
+    .innerJoin(questions, eq(userAnswers.question_id, questions.id))
+    .innerJoin(testAttempts, eq(userAnswers.attempt_id, testAttempts.id))
+    .innerJoin(tests, eq(testAttempts.test_id, tests.id))
+    .innerJoin(users, eq(userAnswers.user_id, users.id))
+    .where(and(eq(userAnswers.id, answerId), MANUAL_SCORING_ANSWER_CONDITION))
+    .limit(1);
+
+  return row || null;
+}
+
+async function loadAnswerRatings(
+  db: Database,
+  answerId: string
+): Promise<AnswerRating[]> {
+  const rows = await db
+    .select({
+      rating: answerRatings,
+      rater_name: users.name,
+    })
+    .from(answerRatings)
+    .innerJoin(users, eq(answerRatings.rater_id, users.id))
+    .where(eq(answerRatings.answer_id, answerId))
+    .orderBy(asc(answerRatings.created_at));
+
+  return rows.map(({ rating, rater_name }) => ({
+    id: rating.id,
+    rater: { id: rating.rater_id, name: rater_name },
+    dimension_scores: rating.dimension_scores,
+    score: parseFloat(rating.score),
+    notes: rating.notes,
+    created_at: rating.created_at,
+    updated_at: rating.updated_at,
+  }));
+}
+
+export async function buildManualScoringAnswerData(
+  db: Database,
+  row: ManualScoringRow,
+  raterId: string
+): Promise<ManualScoringAnswerData> {
+  const config = getManualScoringConfig(row.test);
+  const ratings = await loadAnswerRatings(db, row.answer.id);
+  const myRating =
+    ratings.find((rating) => rating.rater.id === raterId) || null;
+  const isScored = Boolean(row.answer.manually_scored_at);
+  // Grading stays independent: the others' scores show once the assessor
+  // has given their own, or the answer is settled
+  const canSeeRatings = isScored || myRating !== null;
+
+  return {
+    answer_id: row.answer.id,
+    attempt_id: row.attempt.id,
+    status: getManualScoringStatus(
+      row.answer.manually_scored_at,
+      myRating !== null
+    ),
+    participant: {
+      id: row.user.id,
+      name: row.user.name,
+      email: row.user.email,
+    },
+    test: {
+      id: row.test.id,
+      name: row.test.name,
+      category: row.test.category,
+    },
+    question: {
+      id: row.question.id,
+      question: row.question.question,
+      question_type: row.question.question_type,
+      sequence: row.question.sequence,
+      image_url: row.question.image_url,
+    },
+    answered_at: row.answer.answered_at,
+    ratings_count: ratings.length,
+    required_raters: config.required_raters,
+    rated_by_me: myRating !== null,
+    answer: row.answer.answer,
+    answer_data: (row.answer.answer_data as Record<string, any>) || null,
+    dimensions: getManualScoringDimensions(row.question),
+    my_rating: myRating,
+    ratings: canSeeRatings ? ratings : [],
+    final_scores: isScored ? row.answer.manual_scores : null,
+    final_score:
+      isScored && row.answer.score ? parseFloat(row.answer.score) : null,
+    agreement: canSeeRatings
+      ? calculateAnswerAgreement(
+          ratings.map((rating) => rating.dimension_scores),
+          config.agreement_tolerance
+        )
+      : null,
+  };
+}
+
+/**
+ * Store the assessor's grade, then settle the answer score once the
+ * required number of raters graded it: the mean per dimension becomes
+ * the answer's manual_scores and their sum its score.
+ * Returns whether the answer score is final
+ */
+export async function saveAnswerRating(
+  db: Database,
+  row: ManualScoringRow,
+  raterId: string,
+  dimensionScores: Record<string, number>,
+  notes: string | null
+): Promise<boolean> {
+  const now = new Date();
+  const total = Object.values(dimensionScores).reduce(
+    (sum, score) => sum + score,
+    0
+  );
+
+  await db
+    .insert(answerRatings)
+    .values({
+      answer_id: row.answer.id,
+      rater_id: raterId,
+      dimension_scores: dimensionScores,
+      score: total.toString(),
+      notes,
+      created_at: now,
+      updated_at: now,
+    })
+    .onConflictDoUpdate({
+      target: [answerRatings.answer_id, answerRatings.rater_id],
+      set: {
+        dimension_scores: dimensionScores,
+        score: total.toString(),
+        notes,
+        updated_at: now,
+      },
+    });
+
+  const config = getManualScoringConfig(row.test);
+  const ratings = await db
+    .select({ dimension_scores: answerRatings.dimension_scores })
+    .from(answerRatings)
+    .where(eq(answerRatings.answer_id, row.answer.id));
+
+  if (ratings.length < config.required_raters) return false;
+
+  const dimensions = getManualScoringDimensions(row.question);
+  const manualScores: Record<string, number> = {};
+  for (const { dimension } of dimensions) {
+    const mean =
+      ratings.reduce(
+        (sum, rating) => sum + (rating.dimension_scores[dimension] ?? 0),
+        0
+      ) / ratings.length;
+    manualScores[dimension] = Math.round(mean * 100) / 100;
+  }
+  const score = Object.values(manualScores).reduce(
+    (sum, value) => sum + value,
+    0
+  );
+  const maxScore = dimensions.reduce(
+    (sum, { max_score }) => sum + max_score,
+    0
+  );
+
+  await db
+    .update(userAnswers)
+    .set({
+      manual_scores: manualScores,
+      score: score.toString(),
+      is_correct: maxScore > 0 && score >= maxScore,
+      manually_scored_at: row.answer.manually_scored_at || now,
+    })
+    .where(eq(userAnswers.id, row.answer.id));
+
+  return true;
+}
+
+/**
+ * Recalculate the attempt's test result once none of its manually graded
+ * answers is waiting anymore. Returns whether the result was recalculated
+ */
+export async function recalculateAfterManualScoring(
+  db: Database,
+  row: ManualScoringRow
+): Promise<boolean> {
+  const [pending] = await db
+    .select({ count: count() })
+    .from(userAnswers)
+    .innerJoin(questions, eq(userAnswers.question_id, questions.id))
+    .innerJoin(testAttempts, eq(userAnswers.attempt_id, testAttempts.id))
+    .where(
+      and(
+        eq(userAnswers.attempt_id, row.attempt.id),
+        MANUAL_SCORING_ANSWER_CONDITION,
+        isNull(userAnswers.manually_scored_at)
+      )
+    );
+
+  if ((pending?.count || 0) > 0) return false;
+
+  const [existingResult] = await db
+    .select()
+    .from(testResults)
+    .where(eq(testResults.attempt_id, row.attempt.id))
+    .limit(1);
+
+  await calculateAttemptResult(
+    db,
+    { attempt: row.attempt, test: row.test, user: row.user },
+    existingResult || null,
+    { include_recommendations: Boolean(existingResult?.recommendations) }
+  );
+
+  return true;
+}
+
+/**
+ * Agreement between the first two raters of every double-rated answer
+ * in scope, overall and per dimension
+ */
+export async function loadRaterAgreementReport(
+  db: Database,
+  query: GetRaterAgreementQuery,
+  tolerance: number
+): Promise<RaterAgreementReport> {
+  const conditions: SQL[] = [MANUAL_SCORING_ANSWER_CONDITION];
+  if (query.test_id) {
+    conditions.push(eq(testAttempts.test_id, query.test_id));
+  }
+  if (query.session_id) {
+    conditions.push(eq(testAttempts.session_test_id, query.session_id));
+  }
+
+  const rows = await db
+    .select({
+      answer_id: answerRatings.answer_id,
+      dimension_scores: answerRatings.dimension_scores,
+    })
+    .from(answerRatings)
+    .innerJoin(userAnswers, eq(answerRatings.answer_id, userAnswers.id))
+    .innerJoin(questions, eq(userAnswers.question_id, questions.id))
+    .innerJoin(testAttempts, eq(userAnswers.attempt_id, testAttempts.id))
+    .where(and(...conditions))
+    .orderBy(asc(answerRatings.answer_id), asc(answerRatings.created_at));
+
+  const ratingsByAnswer = new Map<string, Array<Record<string, number>>>();
+  for (const row of rows) {
+    const ratings = ratingsByAnswer.get(row.answer_id) || [];
+    ratings.push(row.dimension_scores);
+    ratingsByAnswer.set(row.answer_id, ratings);
+  }
+
+  const overallPairs: Array<[number, number]> = [];
+  const dimensionPairs = new Map<string, Array<[number, number]>>();
+  let doubleRated = 0;
+
+  for (const ratings of ratingsByAnswer.values()) {
+    if (ratings.length < 2) continue;
+    doubleRated++;
+
+    const [first, second] = ratings;
+    const dimensions = new Set([...Object.keys(first), ...Object.keys(second)]);
+    for (const dimension of dimensions) {
+      const pair: [number, number] = [
+        first[dimension] ?? 0,
+        second[dimension] ?? 0,
+      ];
+      overallPairs.push(pair);
+      const pairs = dimensionPairs.get(dimension) || [];
+      pairs.push(pair);
+      dimensionPairs.set(dimension, pairs);
+    }
+  }
+
+  return {
+    double_rated_answers: doubleRated,
+    agreement_tolerance: tolerance,
+    overall: calculateRaterAgreement(overallPairs, tolerance),
+    dimensions: Array.from(dimensionPairs.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([dimension, pairs]) => ({
+        dimension,
+        ...calculateRaterAgreement(pairs, tolerance),
+      })),
+  };
+}
+
+function getManualScoringStatus(
+  manuallyScoredAt: Date | null,
+  ratedByMe: boolean
+): ManualScoringStatus {
+  if (manuallyScoredAt) return "scored";
+  return ratedByMe ? "awaiting_rater" : "needs_rating";
+}
@@ -1,7 +1,7 @@
 import { Context, Next } from "hono";
 import { z } from "zod";
 import { type CloudflareBindings } from "../env";
-import { type ErrorResponse } from "shared-types";
+import { type ErrorResponse, parseNik } from "shared-types";
 
 export async function validateCreateUser(
   c: Context<{ Bindings: CloudflareBindings }>,
@@ -95,6 +95,15 @@ export async function validateCreateUser(
           message: "NIK is required for participant users",
           code: "required",
         });
+      } else {
+        const nikResult = parseNik(data.nik);
+        if (!nikResult.valid) {
+          validationErrors.push({
+            field: "nik",
+            message: nikResult.message,
+            code: nikResult.code,
+          });
+        }
       }
 
       if (data.password) {
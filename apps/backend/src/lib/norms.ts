@@ -0,0 +1,124 @@
+import { and, eq, inArray } from "drizzle-orm";
+import { normTables, type Database, type NormTable } from "../db";
+import {
+  applyNormTable,
+  calculateAgeAt,
+  selectNormForProfile,
+  DEFAULT_NORM_SCALE,
+  type NormDefinition,
+  type NormReferencedScore,
+  type NormTableData,
+} from "shared-types";
+
+export type NormResolverProfile = {
+  education?: string | null;
+  gender?: string | null;
+  birth_date?: Date | string | null;
+};
+
+export type NormResolver = {
+  /**
+   * Norm-referenced score for a test scale, or null when no norm group
+   * matches the participant profile
+   */
+  resolve(
+    testId: string,
+    scale: string,
+    profile: NormResolverProfile,
+    score: number,
+    referenceDate?: Date | string | null
+  ): NormReferencedScore | null;
+  hasNorms(testId: string): boolean;
+};
+
+/**
+ * Convert a stored norm table row to the numeric definition used for scoring
+ */
+export function toNormDefinition(norm: NormTable): NormDefinition {
+  return {
+    id: norm.id,
+    name: norm.name,
+    scale: norm.scale,
+    education: norm.education,
+    gender: norm.gender,
+    age_min: norm.age_min,
+    age_max: norm.age_max,
+    mean: parseFloat(norm.mean),
+    std_dev: parseFloat(norm.std_dev),
+    percentile_points: norm.percentile_points ?? null,
+  };
+}
+
+/**
+ * Load active norm tables for the given tests and build a resolver that
+ * picks the most specific norm group per participant
+ */
+export async function createNormResolver(
+  db: Database,
+  testIds: string[]
+): Promise<NormResolver> {
+  const uniqueTestIds = Array.from(new Set(testIds));
+  const normsByTest = new Map<string, NormDefinition[]>();
+
+  if (uniqueTestIds.length > 0) {
+    const rows = await db
+      .select()
+      .from(normTables)
+      .where(
+        and(
+          inArray(normTables.test_id, uniqueTestIds),
+          eq(normTables.is_active, true)
+        )
+      );
+
+    for (const row of rows) {
+      const definitions = normsByTest.get(row.test_id) || [];
+      definitions.push(toNormDefinition(row));
+      normsByTest.set(row.test_id, definitions);
+    }
+  }
+
+  return {
+    resolve(testId, scale, profile, score, referenceDate) {
+      const norms = normsByTest.get(testId);
+      if (!norms || norms.length === 0) return null;
+
+      const reference = referenceDate ? new Date(referenceDate) : new Date();
+      const norm = selectNormForProfile(norms, scale || DEFAULT_NORM_SCALE, {
+        education: profile.education,
+        gender: profile.gender,
+        age: calculateAgeAt(profile.birth_date, reference),
+      });
+
+      return norm ? applyNormTable(norm, score) : null;
+    },
+    hasNorms(testId) {
+      return (normsByTest.get(testId)?.length || 0) > 0;
+    },
+  };
+}
+
+/**
+ * Shape a norm table row for API responses
+ */
+export function formatNormTable(norm: NormTable): NormTableData {
+  return {
+    id: norm.id,
+    test_id: norm.test_id,
+    name: norm.name,
+    description: norm.description,
+    scale: norm.scale,
+    education: norm.education,
+    gender: norm.gender,
+    age_min: norm.age_min,
+    age_max: norm.age_max,
+    mean: parseFloat(norm.mean),
+    std_dev: parseFloat(norm.std_dev),
+    sample_size: norm.sample_size ?? 0,
+    percentile_points: norm.percentile_points ?? null,
+    source: norm.source,
+    is_active: norm.is_active ?? true,
+    created_at: norm.created_at,
+    updated_at: norm.updated_at,
+  };
+}
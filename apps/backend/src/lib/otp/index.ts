@@ -0,0 +1,153 @@
+import { and, desc, eq, isNull, sql } from "drizzle-orm";
+import { AUTH_CONSTANTS, type ParticipantOtpChannel } from "shared-types";
+import { loginOtps, type Database } from "../../db";
+import type { OtpProvider } from "./otp.types";
+import { generateOtpCode, hashOtpCode, otpHashesMatch } from "./otp.utils";
+
+export type { OtpMessage, OtpProvider, OtpProviderFactory } from "./otp.types";
+export {
+  createConsoleOtpProvider,
+  createWebhookOtpProvider,
+  getOtpProvider,
+  registerOtpProvider,
+} from "./otp.providers";
+export { maskOtpDestination } from "./otp.utils";
+
+export type IssueLoginOtpResult =
+  | { status: "sent"; expires_at: Date; resend_available_at: Date }
+  | { status: "cooldown"; resend_available_at: Date };
+
+export type VerifyLoginOtpResult = "verified" | "invalid" | "expired";
+
+/**
+ * Create a fresh login code for the user and deliver it. Earlier codes are
+ * dropped, so only the latest one can be used. A new code is refused while
+ * the previous one is still inside the resend cooldown
+ */
+export async function issueLoginOtp(
+  db: Database,
+  provider: OtpProvider,
+  input: {
+    user_id: string;
+    recipient_name: string;
+    channel: ParticipantOtpChannel;
+    destination: string;
+    ip_address?: string;
+  },
+  now: Date = new Date()
+): Promise<IssueLoginOtpResult> {
+  const [latest] = await db
+    .select({
+      created_at: loginOtps.created_at,
+      consumed_at: loginOtps.consumed_at,
+    })
+    .from(loginOtps)
+    .where(eq(loginOtps.user_id, input.user_id))
+    .orderBy(desc(loginOtps.created_at))
+    .limit(1);
+
+  if (latest && !latest.consumed_at) {
+    const resendAvailableAt = new Date(
+      latest.created_at.getTime() + AUTH_CONSTANTS.OTP_RESEND_COOLDOWN * 1000
+    );
+    if (resendAvailableAt > now) {
+      return { status: "cooldown", resend_available_at: resendAvailableAt };
+    }
+  }
+
+  await db.delete(loginOtps).where(eq(loginOtps.user_id, input.user_id));
+
+  const code = generateOtpCode();
+  const expiresAt = new Date(
+    now.getTime() + AUTH_CONSTANTS.OTP_EXPIRES_IN * 1000
+  );
+
+  const [otp] = await db
+    .insert(loginOtps)
+    .values({
+      user_id: input.user_id,
+      channel: input.channel,
+      destination: input.destination,
+      code_hash: await hashOtpCode(input.user_id, code),
+      expires_at: expiresAt,
+      ip_address: input.ip_address?.slice(0, 45),
+      created_at: now,
+    })
+    .returning({ id: loginOtps.id });
+
+  try {
+    await provider.send({
+      channel: input.channel,
+      destination: input.destination,
+      code,
+      expires_at: expiresAt,
+      recipient_name: input.recipient_name,
+    });
+  } catch (error) {
+    // An undelivered code must not block the next request with the cooldown
+    await db.delete(loginOtps).where(eq(loginOtps.id, otp.id));
+    throw error;
+  }
+
+  return {
+    status: "sent",
+    expires_at: expiresAt,
+    resend_available_at: new Date(
+      now.getTime() + AUTH_CONSTANTS.OTP_RESEND_COOLDOWN * 1000
+    ),
+  };
+}
+
+/**
+ * Check a code against the user's latest unused code for the channel and
+ * consume it on success. Wrong guesses are counted on the code itself; the
+ * caller is responsible for the account-level attempt limit
+ */
+export async function verifyLoginOtp(
+  db: Database,
+  input: { user_id: string; channel: ParticipantOtpChannel; code: string },
+  now: Date = new Date()
+): Promise<VerifyLoginOtpResult> {
+  const [otp] = await db
+    .select()
+    .from(loginOtps)
+    .where(
+      and(
+        eq(loginOtps.user_id, input.user_id),
+        eq(loginOtps.channel, input.channel),
+        isNull(loginOtps.consumed_at)
+      )
+    )
+    .orderBy(desc(loginOtps.created_at))
+    .limit(1);
+
+  if (!otp || otp.expires_at <= now) return "expired";
+
+  const codeHash = await hashOtpCode(input.user_id, input.code);
+  if (!otpHashesMatch(codeHash, otp.code_hash)) {
+    await db
+      .update(loginOtps)
+      .set({ attempts: sql`${loginOtps.attempts} + 1` })
+      .where(eq(loginOtps.id, otp.id));
+    return "invalid";
+  }
+
+  // Consuming only an unused row keeps a code from being redeemed twice
+  const consumed = await db
+    .update(loginOtps)
+    .set({ consumed_at: now })
+    .where(and(eq(loginOtps.id, otp.id), isNull(loginOtps.consumed_at)))
+    .returning({ id: loginOtps.id });
+
+  return consumed.length > 0 ? "verified" : "expired";
+}
+
+/**
+ * Invalidate every outstanding code of the user, e.g. once the account locks
+ */
+export async function revokeLoginOtps(
+  db: Database,
+  userId: string
+): Promise<void> {
+  await db.delete(loginOtps).where(eq(loginOtps.user_id, userId));
+}
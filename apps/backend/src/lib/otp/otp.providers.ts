@@ -0,0 +1,90 @@
+import type { Env } from "../env";
+import type { OtpProvider, OtpProviderFactory } from "./otp.types";
+
+/**
+ * Logs codes instead of sending them. Only meant for local development
+ */
+export const createConsoleOtpProvider: OtpProviderFactory = () => ({
+  name: "console",
+  channels: ["phone", "email"],
+  async send(message) {
+    console.log(
+      `📨 [OTP] ${message.channel} ${message.destination} (${message.recipient_name}): ${message.code}, valid until ${message.expires_at.toISOString()}`
+    );
+  },
+});
+
+/**
+ * Posts each code as JSON to OTP_WEBHOOK_URL, for an SMS gateway or mail
+ * relay to deliver. OTP_WEBHOOK_SECRET, when set, is sent as a bearer token
+ */
+export const createWebhookOtpProvider: OtpProviderFactory = (env) => {
+  const url = env.OTP_WEBHOOK_URL;
+  if (!url) {
+    throw new Error("OTP_WEBHOOK_URL is required for the webhook OTP provider");
+  }
+
+  return {
+    name: "webhook",
+    channels: ["phone", "email"],
+    async send(message) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(env.OTP_WEBHOOK_SECRET && {
+            Authorization: `Bearer ${env.OTP_WEBHOOK_SECRET}`,
+          }),
+        },
+        body: JSON.stringify({
+          channel: message.channel,
+          destination: message.destination,
+          recipient_name: message.recipient_name,
+          code: message.code,
+          expires_at: message.expires_at.toISOString(),
+          text: `Kode masuk Syntegra Anda: ${message.code}. Jangan berikan kode ini kepada siapa pun.`,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `OTP webhook responded with ${response.status} ${response.statusText}`
+        );
+      }
+    },
+  };
+};
+
+// Registered delivery providers, selected with the OTP_PROVIDER variable
+const OTP_PROVIDERS: Record<string, OtpProviderFactory> = {
+  console: createConsoleOtpProvider,
+  webhook: createWebhookOtpProvider,
+};
+
+/**
+ * Make a provider available under a name, e.g. an SMS gateway or mailer
+ */
+export function registerOtpProvider(
+  name: string,
+  factory: OtpProviderFactory
+): void {
+  OTP_PROVIDERS[name] = factory;
+}
+
+/**
+ * Provider configured for this environment. The console provider would leak
+ * codes into the logs, so it is refused outside development
+ */
+export function getOtpProvider(env: Env): OtpProvider {
+  const name = env.OTP_PROVIDER || "console";
+  const factory = OTP_PROVIDERS[name];
+
+  if (!factory) {
+    throw new Error(`Unknown OTP provider "${name}"`);
+  }
+  if (name === "console" && env.NODE_ENV === "production") {
+    throw new Error("The console OTP provider cannot be used in production");
+  }
+
+  return factory(env);
+}
@@ -0,0 +1,22 @@
+import type { ParticipantOtpChannel } from "shared-types";
+import type { Env } from "../env";
+
+export interface OtpMessage {
+  channel: ParticipantOtpChannel;
+  destination: string; // phone number or email address, unmasked
+  code: string;
+  expires_at: Date;
+  recipient_name: string;
+}
+
+/**
+ * Delivers one-time codes to participants. Implementations should throw when
+ * the message could not be handed over, so the code is not left dangling
+ */
+export interface OtpProvider {
+  name: string;
+  channels: ParticipantOtpChannel[];
+  send(message: OtpMessage): Promise<void>;
+}
+
+export type OtpProviderFactory = (env: Env) => OtpProvider;
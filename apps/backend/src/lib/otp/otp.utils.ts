@@ -0,0 +1,58 @@
+import { AUTH_CONSTANTS, type ParticipantOtpChannel } from "shared-types";
+
+/**
+ * Random numeric code from the Web Crypto RNG
+ */
+export function generateOtpCode(
+  length: number = AUTH_CONSTANTS.OTP_LENGTH
+): string {
+  const digits = crypto.getRandomValues(new Uint32Array(length));
+  return Array.from(digits, (value) => (value % 10).toString()).join("");
+}
+
+/**
+ * SHA-256 of the code salted with the OTP row's owner, so equal codes of
+ * different users never share a hash
+ */
+export async function hashOtpCode(
+  userId: string,
+  code: string
+): Promise<string> {
+  const buffer = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${userId}:${code}`)
+  );
+
+  return Array.from(new Uint8Array(buffer), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * Constant-time comparison of two hex digests
+ */
+export function otpHashesMatch(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+/**
+ * Hide most of the destination so responses do not disclose contact details
+ */
+export function maskOtpDestination(
+  channel: ParticipantOtpChannel,
+  destination: string
+): string {
+  if (channel === "email") {
+    const [local, domain] = destination.split("@");
+    return `${local.slice(0, 2)}${"*".repeat(Math.max(local.length - 2, 1))}@${domain}`;
+  }
+
+  if (destination.length <= 7) return "*".repeat(destination.length);
+  return `${destination.slice(0, 4)}${"*".repeat(destination.length - 7)}${destination.slice(-3)}`;
+}
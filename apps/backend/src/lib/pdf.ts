@@ -0,0 +1,452 @@
+import {
+  PDFDocument,
+  StandardFonts,
+  degrees,
+  rgb,
+  type PDFFont,
+  type PDFPage,
+  type RGB,
+} from "pdf-lib";
+
+// ==================== HELPERS ====================
+
+// A4 in PDF points
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+export function hexToRgb(hex: string): RGB {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return rgb(
+    ((value >> 16) & 255) / 255,
+    ((value >> 8) & 255) / 255,
+    (value & 255) / 255
+  );
+}
+
+// Standard PDF fonts only cover WinAnsi, strip what they cannot encode
+export function toWinAnsi(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, "-")
+    .replace(/\t/g, "  ")
+    .replace(/[^\x20-\x7E\xA0-\xFF\n]/g, "?");
+}
+
+// Break text into lines no wider than maxWidth
+export function wrapText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  maxWidth: number
+): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of toWinAnsi(text).split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // Words longer than a whole line are hard-broken
+      line = word;
+      while (font.widthOfTextAtSize(line, size) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (
+          cut > 1 &&
+          font.widthOfTextAtSize(line.slice(0, cut), size) > maxWidth
+        ) {
+          cut--;
+        }
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+// ==================== REPORT DOCUMENT ====================
+
+export interface PdfTableColumn {
+  header: string;
+  width: number; // share of the content width, columns should add up to 1
+  align?: "left" | "right" | "center";
+}
+
+export interface PdfReportOptions {
+  title: string;
+  subtitle?: string;
+  author: string;
+  footer_note?: string;
+  watermark?: string;
+  page_label?: (page: number, total: number) => string;
+}
+
+const MARGIN = 50;
+const FOOTER_HEIGHT = 30;
+const COLORS = {
+  text: hexToRgb("#111827"),
+  muted: hexToRgb("#6b7280"),
+  primary: hexToRgb("#1e3a8a"),
+  border: hexToRgb("#d1d5db"),
+  header: hexToRgb("#eef2ff"),
+  stripe: hexToRgb("#f9fafb"),
+};
+
+/**
+ * Flowing A4 portrait document for reports: content is appended top to bottom
+ * and pages are added as the cursor reaches the footer
+ */
+export class PdfReportBuilder {
+  private page!: PDFPage;
+  private cursor = 0;
+
+  private constructor(
+    private readonly doc: PDFDocument,
+    private readonly fonts: { regular: PDFFont; bold: PDFFont },
+    private readonly options: PdfReportOptions
+  ) {}
+
+  static async create(options: PdfReportOptions): Promise<PdfReportBuilder> {
+    const doc = await PDFDocument.create();
+    doc.setTitle(toWinAnsi(options.title));
+    doc.setAuthor(options.author);
+    doc.setCreator(options.author);
+
+    const builder = new PdfReportBuilder(
+      doc,
+      {
+        regular: await doc.embedFont(StandardFonts.Helvetica),
+        bold: await doc.embedFont(StandardFonts.HelveticaBold),
+      },
+      options
+    );
+    builder.addPage();
+    builder.title(options.title, options.subtitle);
+    return builder;
+  }
+
+  private get contentWidth(): number {
+    return A4_WIDTH - MARGIN * 2;
+  }
+
+  private addPage() {
+    this.page = this.doc.addPage([A4_WIDTH, A4_HEIGHT]);
+    this.cursor = A4_HEIGHT - MARGIN;
+  }
+
+  // Start a new page when the next block does not fit
+  private ensureSpace(height: number) {
+    if (this.cursor - height < MARGIN + FOOTER_HEIGHT) {
+      this.addPage();
+    }
+  }
+
+  private drawLines(
+    lines: string[],
+    options: { x: number; size: number; font: PDFFont; color: RGB }
+  ) {
+    const lineHeight = options.size * 1.35;
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      this.cursor -= lineHeight;
+      this.page.drawText(line, {
+        x: options.x,
+        y: this.cursor + (lineHeight - options.size) / 2,
+        size: options.size,
+        font: options.font,
+        color: options.color,
+      });
+    }
+  }
+
+  private title(title: string, subtitle?: string) {
+    this.drawLines(wrapText(title, this.fonts.bold, 18, this.contentWidth), {
+      x: MARGIN,
+      size: 18,
+      font: this.fonts.bold,
+      color: COLORS.primary,
+    });
+    if (subtitle) {
+      this.drawLines(
+        wrapText(subtitle, this.fonts.regular, 10, this.contentWidth),
+        { x: MARGIN, size: 10, font: this.fonts.regular, color: COLORS.muted }
+      );
+    }
+    this.cursor -= 6;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.cursor },
+      end: { x: A4_WIDTH - MARGIN, y: this.cursor },
+      thickness: 1.5,
+      color: COLORS.primary,
+    });
+    this.cursor -= 10;
+  }
+
+  heading(text: string): this {
+    // Keep headings together with at least a few lines of their section
+    this.ensureSpace(70);
+    this.cursor -= 8;
+    this.drawLines(wrapText(text, this.fonts.bold, 13, this.contentWidth), {
+      x: MARGIN,
+      size: 13,
+      font: this.fonts.bold,
+      color: COLORS.primary,
+    });
+    this.cursor -= 4;
+    return this;
+  }
+
+  subheading(text: string): this {
+    this.ensureSpace(50);
+    this.cursor -= 4;
+    this.drawLines(wrapText(text, this.fonts.bold, 11, this.contentWidth), {
+      x: MARGIN,
+      size: 11,
+      font: this.fonts.bold,
+      color: COLORS.text,
+    });
+    this.cursor -= 2;
+    return this;
+  }
+
+  paragraph(
+    text: string,
+    options: { muted?: boolean; size?: number } = {}
+  ): this {
+    const size = options.size ?? 10;
+    this.drawLines(
+      wrapText(text, this.fonts.regular, size, this.contentWidth),
+      {
+        x: MARGIN,
+        size,
+        font: this.fonts.regular,
+        color: options.muted ? COLORS.muted : COLORS.text,
+      }
+    );
+    this.cursor -= 4;
+    return this;
+  }
+
+  bulletList(items: string[]): this {
+    for (const item of items) {
+      const lines = wrapText(
+        item,
+        this.fonts.regular,
+        10,
+        this.contentWidth - 14
+      );
+      this.ensureSpace(13.5);
+      this.page.drawCircle({
+        x: MARGIN + 4,
+        y: this.cursor - 7,
+        size: 1.6,
+        color: COLORS.text,
+      });
+      this.drawLines(lines, {
+        x: MARGIN + 14,
+        size: 10,
+        font: this.fonts.regular,
+        color: COLORS.text,
+      });
+    }
+    this.cursor -= 4;
+    return this;
+  }
+
+  // Two-column label/value list
+  keyValues(rows: [string, string | number | null | undefined][]): this {
+    const labelWidth = this.contentWidth * 0.35;
+    for (const [label, value] of rows) {
+      const labelLines = wrapText(
+        label,
+        this.fonts.regular,
+        10,
+        labelWidth - 8
+      );
+      const valueLines = wrapText(
+        value === null || value === undefined || value === ""
+          ? "-"
+          : String(value),
+        this.fonts.bold,
+        10,
+        this.contentWidth - labelWidth
+      );
+      const lineCount = Math.max(labelLines.length, valueLines.length);
+      this.ensureSpace(lineCount * 13.5);
+      const top = this.cursor;
+      this.drawLines(labelLines, {
+        x: MARGIN,
+        size: 10,
+        font: this.fonts.regular,
+        color: COLORS.muted,
+      });
+      this.cursor = top;
+      this.drawLines(valueLines, {
+        x: MARGIN + labelWidth,
+        size: 10,
+        font: this.fonts.bold,
+        color: COLORS.text,
+      });
+      this.cursor = top - lineCount * 13.5;
+    }
+    this.cursor -= 4;
+    return this;
+  }
+
+  table(
+    columns: PdfTableColumn[],
+    rows: (string | number | null | undefined)[][]
+  ): this {
+    const size = 9;
+    const lineHeight = size * 1.35;
+    const padding = 4;
+    const widths = columns.map((column) => column.width * this.contentWidth);
+
+    const layoutRow = (cells: string[], font: PDFFont) => {
+      const lines = cells.map((cell, index) =>
+        wrapText(cell, font, size, widths[index] - padding * 2)
+      );
+      const height =
+        Math.max(...lines.map((cellLines) => cellLines.length)) * lineHeight +
+        padding * 2;
+      return { lines, height, font };
+    };
+
+    const drawRow = (row: ReturnType<typeof layoutRow>, fill?: RGB) => {
+      const top = this.cursor;
+      if (fill) {
+        this.page.drawRectangle({
+          x: MARGIN,
+          y: top - row.height,
+          width: this.contentWidth,
+          height: row.height,
+          color: fill,
+        });
+      }
+
+      let x = MARGIN;
+      row.lines.forEach((lines, index) => {
+        const align = columns[index].align ?? "left";
+        lines.forEach((line, lineIndex) => {
+          const textWidth = row.font.widthOfTextAtSize(line, size);
+          const textX =
+            align === "right"
+              ? x + widths[index] - padding - textWidth
+              : align === "center"
+                ? x + (widths[index] - textWidth) / 2
+                : x + padding;
+          this.page.drawText(line, {
+            x: textX,
+            y:
+              top -
+              padding -
+              (lineIndex + 1) * lineHeight +
+              (lineHeight - size) / 2,
+            size,
+            font: row.font,
+            color: COLORS.text,
+          });
+        });
+        x += widths[index];
+      });
+
+      this.page.drawLine({
+        start: { x: MARGIN, y: top - row.height },
+        end: { x: A4_WIDTH - MARGIN, y: top - row.height },
+        thickness: 0.5,
+        color: COLORS.border,
+      });
+      this.cursor = top - row.height;
+    };
+
+    const header = layoutRow(
+      columns.map((column) => column.header),
+      this.fonts.bold
+    );
+    const bodyRows = rows.map((row) =>
+      layoutRow(
+        row.map((cell) =>
+          cell === null || cell === undefined || cell === ""
+            ? "-"
+            : String(cell)
+        ),
+        this.fonts.regular
+      )
+    );
+
+    // Header is never orphaned and is repeated on every page the table spans
+    this.ensureSpace(header.height + (bodyRows[0]?.height ?? 0));
+    drawRow(header, COLORS.header);
+    bodyRows.forEach((row, rowIndex) => {
+      if (this.cursor - row.height < MARGIN + FOOTER_HEIGHT) {
+        this.addPage();
+        drawRow(header, COLORS.header);
+      }
+      drawRow(row, rowIndex % 2 === 1 ? COLORS.stripe : undefined);
+    });
+    this.cursor -= 10;
+    return this;
+  }
+
+  spacer(height = 8): this {
+    this.cursor -= height;
+    return this;
+  }
+
+  async save(): Promise<Uint8Array> {
+    const pages = this.doc.getPages();
+    const footerNote = this.options.footer_note
+      ? toWinAnsi(this.options.footer_note)
+      : null;
+
+    pages.forEach((page, index) => {
+      if (this.options.watermark) {
+        const text = toWinAnsi(this.options.watermark);
+        const size = 72;
+        const width = this.fonts.bold.widthOfTextAtSize(text, size);
+        const angle = Math.PI / 4;
+        page.drawText(text, {
+          x: A4_WIDTH / 2 - (width / 2) * Math.cos(angle),
+          y: A4_HEIGHT / 2 - (width / 2) * Math.sin(angle),
+          size,
+          font: this.fonts.bold,
+          color: hexToRgb("#dc2626"),
+          opacity: 0.12,
+          rotate: degrees(45),
+        });
+      }
+
+      const pageLabel = this.options.page_label
+        ? this.options.page_label(index + 1, pages.length)
+        : `${index + 1} / ${pages.length}`;
+      const labelWidth = this.fonts.regular.widthOfTextAtSize(pageLabel, 8);
+      page.drawText(pageLabel, {
+        x: A4_WIDTH - MARGIN - labelWidth,
+        y: MARGIN - 20,
+        size: 8,
+        font: this.fonts.regular,
+        color: COLORS.muted,
+      });
+      if (footerNote) {
+        page.drawText(footerNote, {
+          x: MARGIN,
+          y: MARGIN - 20,
+          size: 8,
+          font: this.fonts.regular,
+          color: COLORS.muted,
+        });
+      }
+    });
+
+    return this.doc.save();
+  }
+}
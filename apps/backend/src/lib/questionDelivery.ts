@@ -0,0 +1,326 @@
+import { and, asc, eq } from "drizzle-orm";
+import {
+  attemptFormItems,
+  attemptQuestionDeliveries,
+  questions,
+  userAnswers,
+  type AttemptQuestionDelivery,
+  type Database,
+  type Question,
+  type Test,
+  type TestAttempt,
+  type UserAnswer,
+} from "../db";
+import {
+  ALWAYS_SHUFFLED_OPTION_QUESTION_TYPES,
+  getDeliveredQuestionState,
+  getQuestionDeadline,
+  shuffleOptionsForAttempt,
+  shuffleQuestionsForAttempt,
+  type DeliveredQuestion,
+  type GetAttemptQuestionsResponse,
+} from "shared-types";
+
+export interface AttemptQuestionEntry {
+  question: Question;
+  delivery: AttemptQuestionDelivery | null;
+  answer: UserAnswer | null;
+}
+
+type DeliveryAttemptData = Omit<
+  GetAttemptQuestionsResponse["data"],
+  "questions"
+>;
+
+/**
+ * Questions of the attempt's test in the order the participant sees them,
+ * with their delivery record and the participant's saved answer
+ */
+export async function loadAttemptQuestionEntries(
+  db: Database,
+  attempt: TestAttempt
+): Promise<AttemptQuestionEntry[]> {
+  const [testQuestions, deliveries, answers] = await Promise.all([
+    loadAttemptQuestions(db, attempt),
+    db
+      .select()
+      .from(attemptQuestionDeliveries)
+      .where(eq(attemptQuestionDeliveries.attempt_id, attempt.id)),
+    db
+      .select()
+      .from(userAnswers)
+      .where(
+        and(
+          eq(userAnswers.attempt_id, attempt.id),
+          eq(userAnswers.user_id, attempt.user_id)
+        )
+      ),
+  ]);
+
+  const deliveryByQuestion = new Map(
+    deliveries.map((delivery) => [delivery.question_id, delivery])
+  );
+  const answerByQuestion = new Map(
+    answers.map((answer) => [answer.question_id, answer])
+  );
+
+  return presentAttemptQuestions(attempt, testQuestions).map((question) => ({
+    question,
+    delivery: deliveryByQuestion.get(question.id) || null,
+    answer: answerByQuestion.get(question.id) || null,
+  }));
+}
+
+/**
+ * Questions the attempt covers before shuffling: the items of its parallel
+ * form in form order, the items given so far to an adaptive attempt,
+ * otherwise every question of the test by sequence
+ */
+export async function loadAttemptQuestions(
+  db: Database,
+  attempt: Pick<TestAttempt, "id" | "test_id" | "form_label" | "is_adaptive">
+): Promise<Question[]> {
+  if (!hasAttemptItems(attempt)) {
+    return db
+      .select()
+      .from(questions)
+      .where(eq(questions.test_id, attempt.test_id))
+      .orderBy(asc(questions.sequence));
+  }
+
+  const rows = await db
+    .select({ question: questions })
+    .from(attemptFormItems)
+    .innerJoin(questions, eq(attemptFormItems.question_id, questions.id))
+    .where(eq(attemptFormItems.attempt_id, attempt.id))
+    .orderBy(asc(attemptFormItems.position));
+
+  return rows.map((row) => row.question);
+}
+
+// Attempts on a parallel form or adaptive attempts only accept their items
+export async function isQuestionInAttempt(
+  db: Database,
+  attempt: Pick<TestAttempt, "id" | "form_label" | "is_adaptive">,
+  questionId: string
+): Promise<boolean> {
+  if (!hasAttemptItems(attempt)) return true;
+
+  const [item] = await db
+    .select({ id: attemptFormItems.id })
+    .from(attemptFormItems)
+    .where(
+      and(
+        eq(attemptFormItems.attempt_id, attempt.id),
+        eq(attemptFormItems.question_id, questionId)
+      )
+    )
+    .limit(1);
+
+  return Boolean(item);
+}
+
+/**
+ * Number of questions the attempt is measured against: the items it was
+ * given on a parallel form or adaptively, the whole test otherwise
+ */
+export function getAttemptTotalQuestions(
+  attempt: Pick<TestAttempt, "form_label" | "is_adaptive" | "total_questions">,
+  test: Pick<Test, "total_questions">
+): number {
+  return hasAttemptItems(attempt)
+    ? attempt.total_questions || 0
+    : test.total_questions || 0;
+}
+
+function hasAttemptItems(
+  attempt: Pick<TestAttempt, "form_label" | "is_adaptive">
+): boolean {
+  return Boolean(attempt.form_label || attempt.is_adaptive);
+}
+
+/**
+ * Apply the attempt's shuffle settings to questions in their base order.
+ * Only the order changes; option values and scores stay as stored. Sequence
+ * items are stored in their correct order, so they are shuffled regardless
+ * of the settings; attempts started without a seed use their id instead
+ */
+export function presentAttemptQuestions(
+  attempt: Pick<
+    TestAttempt,
+    "id" | "shuffle_seed" | "shuffle_questions" | "shuffle_options"
+  >,
+  testQuestions: Question[]
+): Question[] {
+  const seed = attempt.shuffle_seed;
+
+  const ordered =
+    seed && attempt.shuffle_questions
+      ? shuffleQuestionsForAttempt(testQuestions, seed)
+      : testQuestions;
+
+  return ordered.map((question) => {
+    const shuffleOptions =
+      (seed && attempt.shuffle_options) ||
+      ALWAYS_SHUFFLED_OPTION_QUESTION_TYPES.includes(question.question_type);
+    if (!question.options || !shuffleOptions) return question;
+
+    return {
+      ...question,
+      options: shuffleOptionsForAttempt(
+        question.options,
+        seed || attempt.id,
+        question.id,
+        question.question_type
+      ),
+    };
+  });
+}
+
+/**
+ * Record that the participant received a question. The first delivery wins,
+ * so fetching a timed question again never restarts its clock
+ */
+export async function deliverAttemptQuestion(
+  db: Database,
+  attemptId: string,
+  question: Question,
+  now: Date = new Date()
+): Promise<AttemptQuestionDelivery> {
+  await db
+    .insert(attemptQuestionDeliveries)
+    .values({
+      attempt_id: attemptId,
+      question_id: question.id,
+      delivered_at: now,
+      deadline: getQuestionDeadline(now, question.time_limit),
+    })
+    .onConflictDoNothing({
+      target: [
+        attemptQuestionDeliveries.attempt_id,
+        attemptQuestionDeliveries.question_id,
+      ],
+    });
+
+  const [delivery] = await db
+    .select()
+    .from(attemptQuestionDeliveries)
+    .where(
+      and(
+        eq(attemptQuestionDeliveries.attempt_id, attemptId),
+        eq(attemptQuestionDeliveries.question_id, question.id)
+      )
+    )
+    .limit(1);
+
+  return delivery;
+}
+
+/**
+ * Per-question deadline used when an answer comes in, null for untimed or
+ * never delivered questions
+ */
+export async function getQuestionDeliveryDeadline(
+  db: Database,
+  attemptId: string,
+  questionId: string
+): Promise<Date | null> {
+  const [delivery] = await db
+    .select({ deadline: attemptQuestionDeliveries.deadline })
+    .from(attemptQuestionDeliveries)
+    .where(
+      and(
+        eq(attemptQuestionDeliveries.attempt_id, attemptId),
+        eq(attemptQuestionDeliveries.question_id, questionId)
+      )
+    )
+    .limit(1);
+
+  return delivery?.deadline || null;
+}
+
+export function isEntryAnswered(entry: AttemptQuestionEntry): boolean {
+  return Boolean(entry.answer?.answer || entry.answer?.answer_data);
+}
+
+/**
+ * Participant view of a question. Answer keys and option scores are never
+ * included, and unopened timed questions keep their content hidden
+ */
+export function toDeliveredQuestion(
+  entry: AttemptQuestionEntry,
+  now: Date = new Date()
+): DeliveredQuestion {
+  const { question, delivery, answer } = entry;
+  const state = getDeliveredQuestionState(
+    {
+      time_limit: question.time_limit,
+      delivered_at: delivery?.delivered_at || null,
+      deadline: delivery?.deadline || null,
+      is_answered: isEntryAnswered(entry),
+    },
+    now
+  );
+  const isHidden = state === "unopened";
+
+  return {
+    id: question.id,
+    sequence: question.sequence,
+    question_type: question.question_type,
+    question: isHidden ? null : question.question,
+    options:
+      isHidden || !question.options
+        ? null
+        : question.options.map((option) => ({
+            value: option.value,
+            label: option.label,
+          })),
+    image_url: isHidden ? null : question.image_url,
+    audio_url: isHidden ? null : question.audio_url,
+    is_required: question.is_required ?? true,
+    time_limit: question.time_limit,
+    state,
+    delivered_at: delivery ? delivery.delivered_at.toISOString() : null,
+    deadline: delivery?.deadline ? delivery.deadline.toISOString() : null,
+    time_remaining: delivery?.deadline
+      ? secondsUntil(delivery.deadline, now)
+      : null,
+    saved_answer: answer
+      ? {
+          answer: answer.answer,
+          answer_data: (answer.answer_data as Record<string, any>) || null,
+          time_taken: answer.time_taken,
+          answered_at: answer.answered_at.toISOString(),
+        }
+      : null,
+  };
+}
+
+/**
+ * Attempt context returned with every delivery response
+ */
+export function toDeliveryAttemptData(
+  attempt: TestAttempt,
+  entries: AttemptQuestionEntry[],
+  now: Date = new Date()
+): DeliveryAttemptData {
+  return {
+    attempt_id: attempt.id,
+    test_id: attempt.test_id,
+    attempt_status: attempt.status,
+    end_time: attempt.end_time ? attempt.end_time.toISOString() : null,
+    time_remaining: attempt.end_time
+      ? secondsUntil(attempt.end_time, now)
+      : null,
+    // Adaptive attempts keep going until a stop rule closes the total
+    total_questions: attempt.is_adaptive
+      ? Math.max(attempt.total_questions || 0, entries.length)
+      : entries.length,
+    answered_questions: entries.filter(isEntryAnswered).length,
+    is_adaptive: attempt.is_adaptive ?? false,
+  };
+}
+
+function secondsUntil(deadline: Date, now: Date): number {
+  return Math.max(0, Math.floor((deadline.getTime() - now.getTime()) / 1000));
+}
@@ -0,0 +1,12 @@
+export type {
+  ResolveUserRegionResult,
+  UserRegionValues,
+} from "./regions.utils";
+export {
+  findRegencies,
+  getRegencies,
+  getRegencyByCode,
+  resolveUserRegion,
+} from "./regions.utils";
+export type { NormalizeUserRegionsResult } from "./regions.normalize";
+export { normalizeUserRegions } from "./regions.normalize";
@@ -0,0 +1,122 @@
+import type { Context } from "hono";
+import { eq, isNotNull, or } from "drizzle-orm";
+import { users, type Database } from "../../db";
+import { recordAuditLogs } from "../audit";
+import type {
+  NormalizedUserRegion,
+  UnresolvedUserRegion,
+  UserRegionChange,
+} from "shared-types";
+import { resolveUserRegion, type UserRegionValues } from "./regions.utils";
+
+const UPDATE_CONCURRENCY = 10;
+
+const REGION_FIELDS = ["province", "regency", "postal_code"] as const;
+
+export interface NormalizeUserRegionsResult {
+  total_users: number;
+  changes: NormalizedUserRegion[];
+  unresolved: UnresolvedUserRegion[];
+}
+
+/**
+ * One-off clean-up of addresses stored before writes were checked against
+ * the reference data: province, regency and postal code are rewritten to
+ * their canonical spelling ("JABAR" -> "Jawa Barat"). Values that cannot be
+ * matched are reported and left as they are. With dry_run nothing is
+ * written; otherwise every change is recorded in audit_logs.
+ */
+export async function normalizeUserRegions(
+  db: Database,
+  c: Context,
+  options: { dry_run: boolean; actor_id: string }
+): Promise<NormalizeUserRegionsResult> {
+  const rows = await db
+    .select({
+      id: users.id,
+      name: users.name,
+      province: users.province,
+      regency: users.regency,
+      postal_code: users.postal_code,
+    })
+    .from(users)
+    .where(
+      or(
+        isNotNull(users.province),
+        isNotNull(users.regency),
+        isNotNull(users.postal_code)
+      )
+    );
+
+  const changes: NormalizedUserRegion[] = [];
+  const unresolved: UnresolvedUserRegion[] = [];
+
+  for (const row of rows) {
+    const { values, errors } = resolveUserRegion(row);
+
+    for (const error of errors) {
+      const field = error.field as keyof UserRegionValues;
+      unresolved.push({
+        user_id: row.id,
+        name: row.name,
+        field,
+        value: row[field] || "",
+        message: error.message,
+        code: error.code || "",
+      });
+    }
+
+    const userChanges: UserRegionChange[] = [];
+    for (const field of REGION_FIELDS) {
+      const value = values[field];
+      if (value && value !== row[field]) {
+        userChanges.push({ field, old_value: row[field], new_value: value });
+      }
+    }
+    if (userChanges.length > 0) {
+      changes.push({ user_id: row.id, name: row.name, changes: userChanges });
+    }
+  }
+
+  if (options.dry_run) {
+    return { total_users: rows.length, changes, unresolved };
+  }
+
+  for (let i = 0; i < changes.length; i += UPDATE_CONCURRENCY) {
+    const chunk = changes.slice(i, i + UPDATE_CONCURRENCY);
+
+    await Promise.all(
+      chunk.map((change) =>
+        db
+          .update(users)
+          .set({
+            ...Object.fromEntries(
+              change.changes.map(({ field, new_value }) => [field, new_value])
+            ),
+            updated_by: options.actor_id,
+            updated_at: new Date(),
+          })
+          .where(eq(users.id, change.user_id))
+      )
+    );
+
+    await recordAuditLogs(
+      db,
+      c,
+      chunk.map((change) => ({
+        user_id: options.actor_id,
+        action: "user.region_normalize",
+        entity: "users",
+        entity_id: change.user_id,
+        old_values: Object.fromEntries(
+          change.changes.map(({ field, old_value }) => [field, old_value])
+        ),
+        new_values: Object.fromEntries(
+          change.changes.map(({ field, new_value }) => [field, new_value])
+        ),
+      }))
+    );
+  }
+
+  return { total_users: rows.length, changes, unresolved };
+}
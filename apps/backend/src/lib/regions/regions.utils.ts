@@ -0,0 +1,179 @@
+import {
+  REGION_ERROR_CODES,
+  findProvince,
+  getProvinceByCode,
+  normalizeRegionName,
+  type ErrorDetail,
+  type Province,
+  type Regency,
+  type RegencyType,
+} from "shared-types";
+import { REGENCY_NAMES } from "./regions.data";
+
+// Address fields checked against the reference data
+export interface UserRegionValues {
+  province?: string | null;
+  regency?: string | null;
+  postal_code?: string | null;
+}
+
+export type ResolveUserRegionResult = {
+  values: UserRegionValues; // canonical spelling of the resolvable fields
+  errors: ErrorDetail[];
+};
+
+// Former names still found in older records
+const REGENCY_ALIASES: Record<string, string[]> = {
+  "1206": ["Kabupaten Toba Samosir"],
+  "6104": ["Kabupaten Pontianak"],
+  "7301": ["Kabupaten Selayar"],
+  "7310": ["Kabupaten Pangkep"],
+  "7108": ["Kabupaten Sitaro"],
+  "7601": ["Kabupaten Mamuju Utara"],
+  "8103": ["Kabupaten Maluku Tenggara Barat"],
+};
+
+const REGENCIES: Regency[] = Object.entries(REGENCY_NAMES).map(
+  ([code, name]) => ({
+    code,
+    name,
+    type: Number(code.substring(2)) >= 71 ? "kota" : "kabupaten",
+    province_code: code.substring(0, 2),
+  })
+);
+
+// Spellings of every regency, split into their kabupaten/kota prefix and
+// a key without spaces so "Pematang Siantar" finds "Kota Pematangsiantar"
+const REGENCY_KEYS = REGENCIES.flatMap((regency) =>
+  [regency.name, ...(REGENCY_ALIASES[regency.code] || [])].map((name) => ({
+    regency,
+    ...parseRegencyName(name),
+  }))
+);
+
+function parseRegencyName(value: string): {
+  type: RegencyType | null;
+  key: string;
+} {
+  const name = normalizeRegionName(value.replace(/^\s*kab\.\s*/i, "kab "));
+  const prefixed =
+    /^(kabupaten|kab|kota administrasi|kota adm|kotamadya|kodya|kota)\s+(.+)$/.exec(
+      name
+    );
+  if (!prefixed) return { type: null, key: name.replace(/\s/g, "") };
+
+  return {
+    type: prefixed[1].startsWith("kab") ? "kabupaten" : "kota",
+    key: prefixed[2].replace(/\s/g, ""),
+  };
+}
+
+export function getRegencies(provinceCode: string): Regency[] {
+  return REGENCIES.filter((regency) => regency.province_code === provinceCode);
+}
+
+export function getRegencyByCode(code: string): Regency | null {
+  return REGENCIES.find((regency) => regency.code === code) || null;
+}
+
+/**
+ * Regencies a free-text name or four digit code can refer to. Without a
+ * "Kabupaten"/"Kota" prefix a name matches both, so "Bogor" finds two.
+ */
+export function findRegencies(value: string): Regency[] {
+  const trimmed = value.trim();
+  if (/^\d{4}$/.test(trimmed)) {
+    const regency = getRegencyByCode(trimmed);
+    return regency ? [regency] : [];
+  }
+
+  const { type, key } = parseRegencyName(trimmed);
+  const matches = REGENCY_KEYS.filter(
+    (item) => item.key === key && (!type || item.type === type)
+  ).map((item) => item.regency);
+  return [...new Set(matches)];
+}
+
+/**
+ * Check province, regency and postal code against the reference data and
+ * return them in their canonical spelling. Only fields present in the input
+ * are checked, empty values pass through so they can clear a field. The
+ * regency is looked up within the province (or fallbackProvince, the one
+ * already stored) and fills the province when none is known.
+ */
+export function resolveUserRegion(
+  input: UserRegionValues,
+  fallbackProvince?: string | null
+): ResolveUserRegionResult {
+  const values: UserRegionValues = {};
+  const errors: ErrorDetail[] = [];
+
+  let province: Province | null = null;
+  if (input.province?.trim()) {
+    province = findProvince(input.province);
+    if (province) {
+      values.province = province.name;
+    } else {
+      errors.push({
+        field: "province",
+        message: `Unknown province "${input.province.trim()}"`,
+        code: REGION_ERROR_CODES.INVALID_PROVINCE,
+      });
+    }
+  } else {
+    if (input.province !== undefined) values.province = input.province;
+    province = findProvince(fallbackProvince);
+  }
+
+  if (input.regency?.trim()) {
+    const regency = input.regency.trim();
+    const matches = findRegencies(regency);
+    const candidates = province
+      ? matches.filter((item) => item.province_code === province!.code)
+      : matches;
+
+    if (candidates.length === 1) {
+      values.regency = candidates[0].name;
+      if (!province && !errors.some((error) => error.field === "province")) {
+        values.province = getProvinceByCode(candidates[0].province_code)?.name;
+      }
+    } else if (candidates.length > 1) {
+      errors.push({
+        field: "regency",
+        message: `"${regency}" can be ${candidates.map((item) => item.name).join(" or ")}, add "Kabupaten" or "Kota"`,
+        code: REGION_ERROR_CODES.AMBIGUOUS_REGENCY,
+      });
+    } else if (matches.length > 0 && province) {
+      errors.push({
+        field: "regency",
+        message: `${matches[0].name} is not in ${province.name}`,
+        code: REGION_ERROR_CODES.REGENCY_PROVINCE_MISMATCH,
+      });
+    } else {
+      errors.push({
+        field: "regency",
+        message: `Unknown regency or city "${regency}"`,
+        code: REGION_ERROR_CODES.INVALID_REGENCY,
+      });
+    }
+  } else if (input.regency !== undefined) {
+    values.regency = input.regency;
+  }
+
+  if (input.postal_code?.trim()) {
+    const postalCode = input.postal_code.replace(/\s/g, "");
+    if (/^\d{5}$/.test(postalCode)) {
+      values.postal_code = postalCode;
+    } else {
+      errors.push({
+        field: "postal_code",
+        message: "Postal code must be 5 digits",
+        code: REGION_ERROR_CODES.INVALID_POSTAL_CODE,
+      });
+    }
+  } else if (input.postal_code !== undefined) {
+    values.postal_code = input.postal_code;
+  }
+
+  return { values, errors };
+}
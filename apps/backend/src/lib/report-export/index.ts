@@ -0,0 +1,8 @@
+export type { BatchExportOptions, ReportLanguage } from "./report-export.types";
+export { REPORT_CONTENT_TYPES, toCsv } from "./report-export.utils";
+export {
+  renderBatchReportCsv,
+  renderBatchReportWorkbook,
+} from "./report-export.batch";
+export { renderIndividualReportPdf } from "./report-export.individual";
+export { renderSessionSummaryReportPdf } from "./report-export.session-summary";
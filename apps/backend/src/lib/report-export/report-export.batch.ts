@@ -0,0 +1,239 @@
+import { strToU8 } from "fflate";
+import type { BatchReportData } from "shared-types";
+import { buildXlsxWorkbook, type XlsxCell, type XlsxSheet } from "@/lib/xlsx";
+import type { BatchExportOptions } from "./report-export.types";
+import {
+  REPORT_TEXTS,
+  humanizeValue,
+  toCsv,
+  toReportDate,
+} from "./report-export.utils";
+
+type ParticipantResult = BatchReportData["participant_results"][number];
+
+// Tests in the order they first appear, so every participant row lines up
+function collectTestNames(data: BatchReportData): string[] {
+  const names = new Set<string>();
+  data.participant_results.forEach((participant) =>
+    participant.test_results.forEach((result) => names.add(result.test_name))
+  );
+  return Array.from(names);
+}
+
+function participantTable(
+  data: BatchReportData,
+  options: BatchExportOptions
+): XlsxCell[][] {
+  const t = REPORT_TEXTS[options.language];
+  const testNames = collectTestNames(data);
+
+  const header: XlsxCell[] = ["No", t.name, t.email];
+  if (options.include_personal_data) {
+    header.push(t.nik, t.gender, t.birth_date, t.education, t.phone);
+  }
+  header.push(
+    t.status,
+    t.registration_date,
+    t.start_time,
+    t.completion_time,
+    t.overall_score,
+    t.percentile,
+    t.grade,
+    t.completion_percent,
+    t.total_minutes
+  );
+  testNames.forEach((testName) =>
+    header.push(`${testName} - ${t.score}`, `${testName} - ${t.grade}`)
+  );
+  if (options.include_recommendations) {
+    header.push(t.position_fit, t.recommendation);
+  }
+  header.push(t.response_validity, t.review_status, t.signed_by, t.signed_at);
+
+  const rows = data.participant_results.map(
+    (participant: ParticipantResult, index) => {
+      const row: XlsxCell[] = [index + 1, participant.name, participant.email];
+      if (options.include_personal_data) {
+        row.push(
+          participant.nik,
+          participant.gender,
+          toReportDate(participant.birth_date),
+          participant.education,
+          participant.phone
+        );
+      }
+      row.push(
+        humanizeValue(participant.participation_status, options.language),
+        toReportDate(participant.registration_date),
+        toReportDate(participant.start_time),
+        toReportDate(participant.completion_time),
+        participant.overall_score,
+        participant.overall_percentile,
+        participant.overall_grade,
+        participant.completion_rate,
+        participant.total_time_minutes
+      );
+      testNames.forEach((testName) => {
+        const result = participant.test_results.find(
+          (testResult) => testResult.test_name === testName
+        );
+        row.push(result?.scaled_score ?? result?.raw_score, result?.grade);
+      });
+      if (options.include_recommendations) {
+        row.push(
+          participant.position_fit_score,
+          participant.recommendation_summary
+        );
+      }
+      row.push(
+        participant.data_quality.response_pattern_validity,
+        humanizeValue(participant.review_status, options.language),
+        participant.signed_by,
+        toReportDate(participant.signed_at)
+      );
+      return row;
+    }
+  );
+
+  return [header, ...rows];
+}
+
+function summarySheet(
+  data: BatchReportData,
+  options: BatchExportOptions
+): XlsxSheet {
+  const t = REPORT_TEXTS[options.language];
+  const { session_info, summary_statistics, export_info } = data;
+
+  const rows: XlsxCell[][] = [
+    [t.session_info, ""],
+    [t.session_name, session_info.session_name],
+    [t.session_code, session_info.session_code],
+    [t.target_position, session_info.target_position],
+    [t.assessment_date, toReportDate(session_info.assessment_date)],
+    [t.total_participants, session_info.total_participants],
+    [t.total_completed, summary_statistics.total_completed],
+    [t.average_score, summary_statistics.average_score],
+    [t.min_score, summary_statistics.score_range.min],
+    [t.max_score, summary_statistics.score_range.max],
+    [t.completion_rate_average, summary_statistics.completion_rate_average],
+    [t.time_efficiency, summary_statistics.time_efficiency_average],
+    [t.generated_at, toReportDate(export_info.generated_at)],
+    [t.generated_by, export_info.generated_by],
+    [
+      t.sign_off,
+      data.sign_off.status === "final" ? t.sign_off_final : t.sign_off_draft,
+    ],
+    [
+      t.finalized_results,
+      `${data.sign_off.finalized_results} / ${data.sign_off.total_results}`,
+    ],
+    [],
+    [t.grade, t.count],
+    ...Object.entries(summary_statistics.grade_distribution)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([grade, count]) => [grade, count]),
+  ];
+
+  return { name: t.summary_sheet, rows, header_rows: 1 };
+}
+
+function testResultsSheet(
+  data: BatchReportData,
+  options: BatchExportOptions
+): XlsxSheet {
+  const t = REPORT_TEXTS[options.language];
+  const rows: XlsxCell[][] = [
+    [
+      t.name,
+      t.test,
+      t.category,
+      t.raw_score,
+      t.scaled_score,
+      t.percentile,
+      t.grade,
+      t.time,
+      t.status,
+    ],
+  ];
+
+  data.participant_results.forEach((participant) =>
+    participant.test_results.forEach((result) =>
+      rows.push([
+        participant.name,
+        result.test_name,
+        result.test_category,
+        result.raw_score,
+        result.scaled_score,
+        result.percentile,
+        result.grade,
+        result.time_spent_minutes,
+        humanizeValue(result.status, options.language),
+      ])
+    )
+  );
+
+  return { name: t.test_results_sheet, rows, header_rows: 1 };
+}
+
+function traitsSheet(
+  data: BatchReportData,
+  options: BatchExportOptions
+): XlsxSheet {
+  const t = REPORT_TEXTS[options.language];
+  const rows: XlsxCell[][] = [
+    [t.name, t.trait, t.category, t.score, t.interpretation],
+  ];
+
+  data.participant_results.forEach((participant) =>
+    (participant.trait_scores || []).forEach((trait) =>
+      rows.push([
+        participant.name,
+        trait.trait_name,
+        trait.trait_category,
+        trait.score,
+        trait.interpretation,
+      ])
+    )
+  );
+
+  return { name: t.traits_sheet, rows, header_rows: 1 };
+}
+
+/**
+ * Batch report as an Excel workbook: session summary, one row per participant
+ * with a score/grade column pair per test, and long-format detail sheets
+ */
+export function renderBatchReportWorkbook(
+  data: BatchReportData,
+  options: BatchExportOptions
+): Uint8Array {
+  const t = REPORT_TEXTS[options.language];
+  const sheets: XlsxSheet[] = [
+    summarySheet(data, options),
+    {
+      name: t.participants_sheet,
+      rows: participantTable(data, options),
+      header_rows: 1,
+    },
+    testResultsSheet(data, options),
+  ];
+
+  if (options.include_trait_breakdown) {
+    sheets.push(traitsSheet(data, options));
+  }
+
+  return buildXlsxWorkbook(sheets);
+}
+
+// The participants sheet on its own, for clients importing into other tools
+export function renderBatchReportCsv(
+  data: BatchReportData,
+  options: BatchExportOptions
+): Uint8Array {
+  const rows = participantTable(data, options).map((row) =>
+    row.map((cell) => (cell instanceof Date ? cell.toISOString() : cell))
+  );
+  // BOM so Excel opens the file as UTF-8
+  return strToU8(`\uFEFF${toCsv(rows)}\r\n`);
+}
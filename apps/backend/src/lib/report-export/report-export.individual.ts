@@ -0,0 +1,189 @@
+import type { IndividualReportData } from "shared-types";
+import { PdfReportBuilder } from "@/lib/pdf";
+import type { ReportLanguage } from "./report-export.types";
+import {
+  REPORT_AUTHOR,
+  REPORT_TEXTS,
+  addSignOffSection,
+  formatGrade,
+  formatPercent,
+  formatReportDate,
+  humanizeValue,
+} from "./report-export.utils";
+
+export async function renderIndividualReportPdf(
+  data: IndividualReportData,
+  language: ReportLanguage
+): Promise<Uint8Array> {
+  const t = REPORT_TEXTS[language];
+  const {
+    participant,
+    assessment_overview: overview,
+    overall_assessment: overall,
+    psychological_profile: profile,
+  } = data;
+
+  const pdf = await PdfReportBuilder.create({
+    title: t.individual_title,
+    subtitle: `${participant.name} - ${t.generated_at} ${formatReportDate(
+      data.report_metadata.generated_at,
+      language,
+      true
+    )}`,
+    author: REPORT_AUTHOR,
+    footer_note: t.confidential,
+    page_label: t.page,
+    ...(data.report_metadata.sign_off.status !== "final" && {
+      watermark: t.draft_watermark,
+    }),
+  });
+
+  pdf.heading(t.participant).keyValues([
+    [t.name, participant.name],
+    [t.email, participant.email],
+    [t.nik, participant.nik],
+    [t.gender, humanizeValue(participant.gender, language)],
+    [t.birth_date, formatReportDate(participant.birth_date, language)],
+    [t.education, participant.education?.toUpperCase()],
+    [t.phone, participant.phone],
+  ]);
+
+  pdf.heading(t.assessment_overview).keyValues([
+    [t.tests_taken, overview.total_tests_taken],
+    [t.tests_completed, overview.total_tests_completed],
+    [t.completion_rate, formatPercent(overview.overall_completion_rate)],
+    [t.total_time, `${overview.total_time_spent_minutes} ${t.minutes}`],
+    [
+      t.assessment_period,
+      `${formatReportDate(overview.assessment_period.start_date, language)} - ${formatReportDate(overview.assessment_period.end_date, language)}`,
+    ],
+    [
+      t.sessions,
+      overview.sessions_participated
+        .map((session) => session.session_name)
+        .join(", "),
+    ],
+  ]);
+
+  pdf.heading(t.overall_assessment).keyValues([
+    [t.composite_score, overall.composite_score],
+    [t.overall_percentile, overall.overall_percentile],
+    [t.overall_grade, formatGrade(overall.overall_grade)],
+    [t.competency_match, formatPercent(overall.competency_match)],
+    [t.readiness_level, humanizeValue(overall.readiness_level, language)],
+  ]);
+  if (profile.overall_assessment) {
+    pdf.paragraph(profile.overall_assessment);
+  }
+
+  if (data.test_performances.length > 0) {
+    pdf.heading(t.test_performance).table(
+      [
+        { header: t.test, width: 0.3 },
+        { header: t.raw_score, width: 0.12, align: "right" },
+        { header: t.scaled_score, width: 0.12, align: "right" },
+        { header: t.percentile, width: 0.12, align: "right" },
+        { header: t.grade, width: 0.1, align: "center" },
+        { header: t.time, width: 0.12, align: "right" },
+        { header: t.completion_rate, width: 0.12, align: "right" },
+      ],
+      data.test_performances.map((performance) => [
+        performance.test_name,
+        performance.raw_score,
+        performance.scaled_score,
+        performance.percentile,
+        performance.grade,
+        performance.time_spent_minutes,
+        formatPercent(performance.completion_rate),
+      ])
+    );
+
+    for (const performance of data.test_performances) {
+      const hasDetails =
+        performance.trait_scores.length > 0 ||
+        performance.strengths.length > 0 ||
+        performance.areas_for_development.length > 0;
+      if (!hasDetails) continue;
+
+      pdf.subheading(performance.test_name);
+      if (performance.trait_scores.length > 0) {
+        pdf.table(
+          [
+            { header: t.trait, width: 0.25 },
+            { header: t.score, width: 0.1, align: "right" },
+            { header: t.percentile, width: 0.12, align: "right" },
+            { header: t.level, width: 0.15 },
+            { header: t.interpretation, width: 0.38 },
+          ],
+          performance.trait_scores.map((trait) => [
+            trait.trait_name,
+            trait.scaled_score,
+            trait.percentile,
+            humanizeValue(trait.strength_level, language),
+            trait.interpretation,
+          ])
+        );
+      }
+      if (performance.strengths.length > 0) {
+        pdf.paragraph(`${t.strengths}:`, { muted: true });
+        pdf.bulletList(performance.strengths);
+      }
+      if (performance.areas_for_development.length > 0) {
+        pdf.paragraph(`${t.development_areas}:`, { muted: true });
+        pdf.bulletList(performance.areas_for_development);
+      }
+    }
+  }
+
+  pdf.heading(t.psychological_profile).keyValues([
+    [t.personality_type, profile.personality_type],
+    [t.cognitive_style, profile.cognitive_style],
+    [t.dominant_traits, profile.dominant_traits.join(", ")],
+    [t.aptitude_areas, profile.aptitude_areas.join(", ")],
+    [t.reliability_index, profile.reliability_index.toFixed(2)],
+  ]);
+  if (profile.behavioral_tendencies.length > 0) {
+    pdf.paragraph(`${t.behavioral_tendencies}:`, { muted: true });
+    pdf.bulletList(profile.behavioral_tendencies);
+  }
+
+  if (data.recommendations.length > 0) {
+    pdf.heading(t.recommendations);
+    for (const recommendation of data.recommendations) {
+      pdf.subheading(
+        `${recommendation.title} (${t.priority}: ${humanizeValue(recommendation.priority, language)})`
+      );
+      pdf.paragraph(recommendation.description);
+      if (recommendation.action_items.length > 0) {
+        pdf.paragraph(`${t.action_items}:`, { muted: true });
+        pdf.bulletList(recommendation.action_items);
+      }
+    }
+  }
+
+  if (data.comparison_data) {
+    const comparison = data.comparison_data;
+    pdf.heading(t.comparison).keyValues([
+      [t.peer_group_size, comparison.peer_group_size],
+      [
+        t.ranking_in_group,
+        `${comparison.ranking_in_group} / ${comparison.peer_group_size}`,
+      ],
+      [t.percentile, comparison.percentile_in_group],
+      [t.above_average_traits, comparison.above_average_traits.join(", ")],
+      [t.below_average_traits, comparison.below_average_traits.join(", ")],
+    ]);
+  }
+
+  addSignOffSection(pdf, data.report_metadata.sign_off, language, {
+    show_participant: false,
+  });
+
+  if (data.report_metadata.reliability_notes.length > 0) {
+    pdf
+      .heading(t.reliability_notes)
+      .bulletList(data.report_metadata.reliability_notes);
+  }
+
+  return pdf.save();
+}
@@ -0,0 +1,149 @@
+import type { SessionSummaryReportData } from "shared-types";
+import { PdfReportBuilder } from "@/lib/pdf";
+import type { ReportLanguage } from "./report-export.types";
+import {
+  REPORT_AUTHOR,
+  REPORT_TEXTS,
+  addSignOffSection,
+  formatPercent,
+  formatReportDate,
+  humanizeValue,
+} from "./report-export.utils";
+
+export async function renderSessionSummaryReportPdf(
+  data: SessionSummaryReportData,
+  language: ReportLanguage
+): Promise<Uint8Array> {
+  const t = REPORT_TEXTS[language];
+  const {
+    session_info: session,
+    participation_stats: stats,
+    performance_distribution: distribution,
+    assessment_quality: quality,
+  } = data;
+
+  const pdf = await PdfReportBuilder.create({
+    title: t.session_summary_title,
+    subtitle: `${session.session_name} (${session.session_code}) - ${t.generated_at} ${formatReportDate(new Date(), language, true)}`,
+    author: REPORT_AUTHOR,
+    footer_note: t.confidential,
+    page_label: t.page,
+    ...(data.sign_off.status !== "final" && {
+      watermark: t.draft_watermark,
+    }),
+  });
+
+  pdf.heading(t.session_info).keyValues([
+    [t.session_name, session.session_name],
+    [t.session_code, session.session_code],
+    [t.target_position, session.target_position],
+    [
+      t.schedule,
+      `${formatReportDate(session.start_time, language, true)} - ${formatReportDate(session.end_time, language, true)}`,
+    ],
+    [t.location, session.location],
+    [t.proctor, session.proctor_name],
+  ]);
+  if (session.description) {
+    pdf.paragraph(session.description, { muted: true });
+  }
+
+  pdf.heading(t.participation).keyValues([
+    [t.invited, stats.total_invited],
+    [t.registered, stats.total_registered],
+    [t.started, stats.total_started],
+    [t.completed, stats.total_completed],
+    [t.no_show, stats.no_show_count],
+    [t.dropout, stats.dropout_count],
+    [t.completion_rate, formatPercent(stats.completion_rate)],
+    [t.average_time, `${stats.average_time_spent_minutes} ${t.minutes}`],
+  ]);
+
+  if (data.test_modules.length > 0) {
+    pdf.heading(t.test_modules).table(
+      [
+        { header: t.sequence, width: 0.06, align: "center" },
+        { header: t.test, width: 0.28 },
+        { header: t.started, width: 0.1, align: "right" },
+        { header: t.completed, width: 0.1, align: "right" },
+        { header: t.completion_rate, width: 0.12, align: "right" },
+        { header: t.average_score, width: 0.11, align: "right" },
+        { header: t.time, width: 0.09, align: "right" },
+        { header: t.difficulty, width: 0.14 },
+      ],
+      [...data.test_modules]
+        .sort((a, b) => a.sequence - b.sequence)
+        .map((module) => [
+          module.sequence,
+          module.test_name,
+          module.participants_started,
+          module.participants_completed,
+          formatPercent(module.completion_rate),
+          module.average_score,
+          module.average_time_minutes,
+          humanizeValue(module.difficulty_level, language),
+        ])
+    );
+  }
+
+  pdf.heading(t.distribution);
+  const gradeRows = Object.entries(distribution.grade_distribution).sort(
+    ([a], [b]) => a.localeCompare(b)
+  );
+  if (gradeRows.length > 0) {
+    pdf.table(
+      [
+        { header: t.grade, width: 0.5 },
+        { header: t.participants, width: 0.5, align: "right" },
+      ],
+      gradeRows
+    );
+  }
+  const scoreRows = Object.entries(distribution.score_ranges);
+  if (scoreRows.length > 0) {
+    pdf.table(
+      [
+        { header: t.score_range, width: 0.5 },
+        { header: t.participants, width: 0.5, align: "right" },
+      ],
+      scoreRows
+    );
+  }
+
+  if (distribution.top_performers.length > 0) {
+    pdf.heading(t.top_performers).table(
+      [
+        { header: t.sequence, width: 0.08, align: "center" },
+        { header: t.name, width: 0.52 },
+        { header: t.score, width: 0.2, align: "right" },
+        { header: t.percentile, width: 0.2, align: "right" },
+      ],
+      distribution.top_performers.map((performer, index) => [
+        index + 1,
+        performer.name,
+        performer.overall_score,
+        performer.percentile,
+      ])
+    );
+  }
+
+  pdf.heading(t.quality).keyValues([
+    [t.overall_reliability, quality.overall_reliability],
+    [t.completion_consistency, quality.completion_consistency],
+    [t.time_efficiency, formatPercent(quality.time_efficiency_average)],
+    [t.data_quality, quality.data_quality_score],
+    [t.anomalies, quality.anomaly_count],
+  ]);
+
+  if (data.key_insights.length > 0) {
+    pdf.heading(t.key_insights);
+    for (const insight of data.key_insights) {
+      pdf.subheading(insight.title);
+      pdf.paragraph(insight.description);
+    }
+  }
+
+  addSignOffSection(pdf, data.sign_off, language, { show_participant: true });
+
+  return pdf.save();
+}
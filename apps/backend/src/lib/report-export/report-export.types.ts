@@ -0,0 +1,8 @@
+export type ReportLanguage = "id" | "en";
+
+export interface BatchExportOptions {
+  language: ReportLanguage;
+  include_personal_data: boolean;
+  include_trait_breakdown: boolean;
+  include_recommendations: boolean;
+}
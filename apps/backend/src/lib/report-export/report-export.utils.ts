@@ -0,0 +1,392 @@
+import {
+  GRADE_LABELS,
+  RECOMMENDATION_CATEGORY_LABELS,
+  SESSION_RESULT_REVIEW_STATUS_LABELS,
+  STRENGTH_LEVEL_LABELS,
+  type ReportSignOff,
+} from "shared-types";
+import type { PdfReportBuilder } from "@/lib/pdf";
+import type { ReportLanguage } from "./report-export.types";
+
+export const REPORT_AUTHOR = "Syntegra Psikotes";
+
+export const REPORT_CONTENT_TYPES = {
+  pdf: "application/pdf",
+  excel: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  csv: "text/csv; charset=utf-8",
+} as const;
+
+const ID_TEXTS = {
+  page: (page: number, total: number) => `Halaman ${page} / ${total}`,
+  generated_at: "Dibuat pada",
+  confidential:
+    "Rahasia - hanya untuk keperluan seleksi dan pengembangan peserta.",
+  minutes: "menit",
+
+  individual_title: "Laporan Asesmen Individu",
+  participant: "Data Peserta",
+  name: "Nama",
+  email: "Email",
+  nik: "NIK",
+  gender: "Jenis Kelamin",
+  birth_date: "Tanggal Lahir",
+  education: "Pendidikan",
+  phone: "Telepon",
+  address: "Alamat",
+  assessment_overview: "Ringkasan Asesmen",
+  tests_taken: "Tes diikuti",
+  tests_completed: "Tes diselesaikan",
+  completion_rate: "Tingkat penyelesaian",
+  total_time: "Total waktu",
+  assessment_period: "Periode asesmen",
+  sessions: "Sesi",
+  overall_assessment: "Penilaian Keseluruhan",
+  composite_score: "Skor komposit",
+  overall_percentile: "Persentil keseluruhan",
+  overall_grade: "Predikat keseluruhan",
+  competency_match: "Kesesuaian kompetensi",
+  readiness_level: "Tingkat kesiapan",
+  test_performance: "Hasil per Tes",
+  test: "Tes",
+  category: "Kategori",
+  raw_score: "Skor mentah",
+  scaled_score: "Skor skala",
+  percentile: "Persentil",
+  grade: "Predikat",
+  time: "Waktu (mnt)",
+  status: "Status",
+  traits: "Profil Trait",
+  trait: "Trait",
+  score: "Skor",
+  level: "Level",
+  interpretation: "Interpretasi",
+  strengths: "Kekuatan",
+  development_areas: "Area pengembangan",
+  psychological_profile: "Profil Psikologis",
+  personality_type: "Tipe kepribadian",
+  cognitive_style: "Gaya kognitif",
+  dominant_traits: "Trait dominan",
+  behavioral_tendencies: "Kecenderungan perilaku",
+  aptitude_areas: "Area bakat",
+  reliability_index: "Indeks reliabilitas",
+  recommendations: "Rekomendasi",
+  priority: "Prioritas",
+  action_items: "Tindak lanjut",
+  comparison: "Perbandingan dengan Kelompok",
+  peer_group_size: "Jumlah kelompok pembanding",
+  ranking_in_group: "Peringkat dalam kelompok",
+  above_average_traits: "Trait di atas rata-rata",
+  below_average_traits: "Trait di bawah rata-rata",
+  reliability_notes: "Catatan Reliabilitas",
+
+  session_summary_title: "Ringkasan Sesi Asesmen",
+  session_info: "Informasi Sesi",
+  session_name: "Nama sesi",
+  session_code: "Kode sesi",
+  target_position: "Posisi target",
+  schedule: "Jadwal",
+  location: "Lokasi",
+  proctor: "Pengawas",
+  participation: "Statistik Partisipasi",
+  invited: "Diundang",
+  registered: "Terdaftar",
+  started: "Memulai",
+  completed: "Selesai",
+  no_show: "Tidak hadir",
+  dropout: "Tidak menyelesaikan",
+  average_time: "Rata-rata waktu",
+  test_modules: "Modul Tes",
+  sequence: "No",
+  average_score: "Rata-rata skor",
+  difficulty: "Tingkat kesulitan",
+  distribution: "Distribusi Hasil",
+  score_range: "Rentang skor",
+  participants: "Peserta",
+  top_performers: "Peserta Terbaik",
+  quality: "Kualitas Asesmen",
+  overall_reliability: "Reliabilitas keseluruhan",
+  completion_consistency: "Konsistensi penyelesaian",
+  time_efficiency: "Efisiensi waktu rata-rata",
+  data_quality: "Skor kualitas data",
+  anomalies: "Jumlah anomali",
+  key_insights: "Temuan Utama",
+
+  summary_sheet: "Ringkasan",
+  participants_sheet: "Peserta",
+  test_results_sheet: "Hasil Tes",
+  traits_sheet: "Trait",
+  assessment_date: "Tanggal asesmen",
+  total_participants: "Jumlah peserta",
+  total_completed: "Jumlah selesai",
+  min_score: "Skor terendah",
+  max_score: "Skor tertinggi",
+  completion_rate_average: "Rata-rata penyelesaian (%)",
+  count: "Jumlah",
+  generated_by: "Dibuat oleh",
+  registration_date: "Tanggal registrasi",
+  start_time: "Mulai",
+  completion_time: "Selesai",
+  overall_score: "Skor keseluruhan",
+  completion_percent: "Penyelesaian (%)",
+  total_minutes: "Total waktu (mnt)",
+  recommendation: "Rekomendasi",
+  position_fit: "Kesesuaian posisi",
+  response_validity: "Validitas pola jawaban",
+
+  draft_watermark: "DRAF",
+  sign_off: "Persetujuan Psikolog",
+  sign_off_status: "Status",
+  sign_off_final: "Final - telah ditandatangani psikolog",
+  sign_off_draft:
+    "Draf - belum ditandatangani psikolog, tidak untuk diserahkan ke klien",
+  finalized_results: "Hasil final",
+  review_status: "Status review",
+  signed_by: "Ditandatangani oleh",
+  signed_at: "Tanggal tanda tangan",
+};
+
+type ReportTexts = typeof ID_TEXTS;
+
+export const REPORT_TEXTS: Record<ReportLanguage, ReportTexts> = {
+  id: ID_TEXTS,
+  en: {
+    page: (page, total) => `Page ${page} / ${total}`,
+    generated_at: "Generated at",
+    confidential:
+      "Confidential - for selection and participant development purposes only.",
+    minutes: "min",
+
+    individual_title: "Individual Assessment Report",
+    participant: "Participant",
+    name: "Name",
+    email: "Email",
+    nik: "NIK",
+    gender: "Gender",
+    birth_date: "Date of birth",
+    education: "Education",
+    phone: "Phone",
+    address: "Address",
+    assessment_overview: "Assessment Overview",
+    tests_taken: "Tests taken",
+    tests_completed: "Tests completed",
+    completion_rate: "Completion rate",
+    total_time: "Total time",
+    assessment_period: "Assessment period",
+    sessions: "Sessions",
+    overall_assessment: "Overall Assessment",
+    composite_score: "Composite score",
+    overall_percentile: "Overall percentile",
+    overall_grade: "Overall grade",
+    competency_match: "Competency match",
+    readiness_level: "Readiness level",
+    test_performance: "Test Performance",
+    test: "Test",
+    category: "Category",
+    raw_score: "Raw score",
+    scaled_score: "Scaled score",
+    percentile: "Percentile",
+    grade: "Grade",
+    time: "Time (min)",
+    status: "Status",
+    traits: "Trait Profile",
+    trait: "Trait",
+    score: "Score",
+    level: "Level",
+    interpretation: "Interpretation",
+    strengths: "Strengths",
+    development_areas: "Areas for development",
+    psychological_profile: "Psychological Profile",
+    personality_type: "Personality type",
+    cognitive_style: "Cognitive style",
+    dominant_traits: "Dominant traits",
+    behavioral_tendencies: "Behavioral tendencies",
+    aptitude_areas: "Aptitude areas",
+    reliability_index: "Reliability index",
+    recommendations: "Recommendations",
+    priority: "Priority",
+    action_items: "Action items",
+    comparison: "Peer Comparison",
+    peer_group_size: "Peer group size",
+    ranking_in_group: "Ranking in group",
+    above_average_traits: "Above average traits",
+    below_average_traits: "Below average traits",
+    reliability_notes: "Reliability Notes",
+
+    session_summary_title: "Assessment Session Summary",
+    session_info: "Session Information",
+    session_name: "Session name",
+    session_code: "Session code",
+    target_position: "Target position",
+    schedule: "Schedule",
+    location: "Location",
+    proctor: "Proctor",
+    participation: "Participation",
+    invited: "Invited",
+    registered: "Registered",
+    started: "Started",
+    completed: "Completed",
+    no_show: "No show",
+    dropout: "Dropped out",
+    average_time: "Average time",
+    test_modules: "Test Modules",
+    sequence: "No",
+    average_score: "Average score",
+    difficulty: "Difficulty",
+    distribution: "Performance Distribution",
+    score_range: "Score range",
+    participants: "Participants",
+    top_performers: "Top Performers",
+    quality: "Assessment Quality",
+    overall_reliability: "Overall reliability",
+    completion_consistency: "Completion consistency",
+    time_efficiency: "Average time efficiency",
+    data_quality: "Data quality score",
+    anomalies: "Anomalies",
+    key_insights: "Key Insights",
+
+    summary_sheet: "Summary",
+    participants_sheet: "Participants",
+    test_results_sheet: "Test Results",
+    traits_sheet: "Traits",
+    assessment_date: "Assessment date",
+    total_participants: "Total participants",
+    total_completed: "Total completed",
+    min_score: "Lowest score",
+    max_score: "Highest score",
+    completion_rate_average: "Average completion (%)",
+    count: "Count",
+    generated_by: "Generated by",
+    registration_date: "Registration date",
+    start_time: "Started",
+    completion_time: "Completed",
+    overall_score: "Overall score",
+    completion_percent: "Completion (%)",
+    total_minutes: "Total time (min)",
+    recommendation: "Recommendation",
+    position_fit: "Position fit",
+    response_validity: "Response pattern validity",
+
+    draft_watermark: "DRAFT",
+    sign_off: "Psychologist Sign-off",
+    sign_off_status: "Status",
+    sign_off_final: "Final - signed off by a psychologist",
+    sign_off_draft:
+      "Draft - not signed off by a psychologist, not for release to clients",
+    finalized_results: "Finalized results",
+    review_status: "Review status",
+    signed_by: "Signed off by",
+    signed_at: "Signed at",
+  },
+};
+
+export function formatReportDate(
+  value: string | Date | null | undefined,
+  language: ReportLanguage,
+  withTime = false
+): string {
+  if (!value) return "-";
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return "-";
+
+  return date.toLocaleString(language === "id" ? "id-ID" : "en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    ...(withTime && { hour: "2-digit", minute: "2-digit" }),
+    timeZone: "Asia/Jakarta",
+  });
+}
+
+// Dates in report data are ISO strings, spreadsheets want real dates
+export function toReportDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function formatGrade(grade: string | null | undefined): string {
+  if (!grade) return "-";
+  return GRADE_LABELS[grade] ? `${grade} (${GRADE_LABELS[grade]})` : grade;
+}
+
+// Enum values such as "very_high" or "not_ready" as readable text, the shared
+// label tables are Indonesian only
+export function humanizeValue(
+  value: string | null | undefined,
+  language: ReportLanguage
+): string {
+  if (!value) return "-";
+  if (language === "id") {
+    const label =
+      STRENGTH_LEVEL_LABELS[value] ||
+      RECOMMENDATION_CATEGORY_LABELS[value] ||
+      SESSION_RESULT_REVIEW_STATUS_LABELS[
+        value as keyof typeof SESSION_RESULT_REVIEW_STATUS_LABELS
+      ];
+    if (label) return label;
+  }
+  const text = value.replace(/_/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function formatPercent(value: number | null | undefined): string {
+  return value === null || value === undefined ? "-" : `${value}%`;
+}
+
+// RFC 4180: quote fields containing separators, quotes or line breaks
+export function toCsv(
+  rows: (string | number | boolean | null | undefined)[][]
+) {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          if (value === null || value === undefined) return "";
+          const text = String(value);
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(",")
+    )
+    .join("\r\n");
+}
+
+/**
+ * Add the sign-off section shared by the PDF reports: the overall status and
+ * who signed which result
+ */
+export function addSignOffSection(
+  pdf: PdfReportBuilder,
+  signOff: ReportSignOff,
+  language: ReportLanguage,
+  options: { show_participant: boolean }
+): void {
+  const t = REPORT_TEXTS[language];
+
+  pdf.heading(t.sign_off).keyValues([
+    [
+      t.sign_off_status,
+      signOff.status === "final" ? t.sign_off_final : t.sign_off_draft,
+    ],
+    [
+      t.finalized_results,
+      `${signOff.finalized_results} / ${signOff.total_results}`,
+    ],
+  ]);
+
+  if (signOff.signatures.length === 0) return;
+
+  pdf.table(
+    [
+      ...(options.show_participant ? [{ header: t.name, width: 0.25 }] : []),
+      { header: t.session_name, width: options.show_participant ? 0.25 : 0.4 },
+      { header: t.signed_by, width: options.show_participant ? 0.25 : 0.3 },
+      { header: t.signed_at, width: options.show_participant ? 0.25 : 0.3 },
+    ],
+    signOff.signatures.map((signature) => [
+      ...(options.show_participant ? [signature.participant_name] : []),
+      signature.session_name,
+      signature.signed_by_name,
+      formatReportDate(signature.signed_at, language, true),
+    ])
+  );
+}
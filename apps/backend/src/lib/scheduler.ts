@@ -1,66 +1,305 @@
-import { getDbFromEnv } from "../db";
+import { and, desc, eq, gt, lt, lte } from "drizzle-orm";
+import {
+  getDbFromEnv,
+  schedulerRuns,
+  testSessions,
+  type Database,
+  type SchedulerRun,
+} from "../db";
 import { createSessionManager } from "./sessionManager";
+import {
+  expireOpenSessionAttempts,
+  expireOverdueAttempts,
+  getSessionActivationErrors,
+  updateSessionParticipantStatuses,
+} from "./sessionLifecycle";
+import { calibrateStaleAdaptiveTests } from "./itemCalibration";
 import type { CloudflareBindings } from "./env";
+import type {
+  SchedulerRunData,
+  SchedulerRunStatus,
+  SchedulerTrigger,
+} from "shared-types";
 
-// Store the last execution time to prevent duplicate runs
-let lastExecutionTime = 0;
-const MINIMUM_INTERVAL = 5 * 60 * 1000; // 5 minutes minimum between runs
+// Run history older than this is pruned by the scheduler itself
+const RUN_HISTORY_RETENTION_DAYS = 30;
 
-export async function runScheduledJobs(env: CloudflareBindings) {
-  const now = Date.now();
+type RunCounters = Pick<
+  SchedulerRunData,
+  | "sessions_activated"
+  | "sessions_expired"
+  | "attempts_expired"
+  | "answers_finalized"
+  | "auth_sessions_cleaned"
+  | "items_calibrated"
+>;
 
-  // Prevent running too frequently
-  if (now - lastExecutionTime < MINIMUM_INTERVAL) {
-    console.log("Skipping scheduled jobs - too soon since last execution");
-    return;
-  }
+/**
+ * Run every scheduled job once and record the outcome. Each job is isolated,
+ * so a failing job is reported without stopping the others. Jobs only touch
+ * rows whose deadline has passed, which makes overlapping runs harmless
+ */
+export async function runScheduledJobs(
+  env: CloudflareBindings,
+  options: { trigger?: SchedulerTrigger; triggered_by?: string } = {}
+): Promise<SchedulerRun | null> {
+  const startedAt = new Date();
+  const trigger = options.trigger || "cron";
 
+  let db: Database;
   try {
-    console.log("🔄 Starting scheduled jobs...");
-    lastExecutionTime = now;
+    db = getDbFromEnv(env);
+  } catch (error) {
+    console.error("❌ Scheduled jobs skipped, database unavailable:", error);
+    return null;
+  }
+
+  console.log(`🔄 Starting scheduled jobs (${trigger})...`);
+
+  const counters: RunCounters = {
+    sessions_activated: 0,
+    sessions_expired: 0,
+    attempts_expired: 0,
+    answers_finalized: 0,
+    auth_sessions_cleaned: 0,
+    items_calibrated: 0,
+  };
+  const errors: { job: string; message: string }[] = [];
+
+  const jobs: { name: string; run: () => Promise<void> }[] = [
+    {
+      name: "auth_session_cleanup",
+      run: async () => {
+        counters.auth_sessions_cleaned = await performSessionCleanup(db);
+      },
+    },
+    {
+      name: "session_status_updater",
+      run: async () => {
+        const result = await updateSessionStatus(db, startedAt);
+        counters.sessions_activated = result.activated;
+        counters.sessions_expired = result.expired;
+        counters.attempts_expired += result.attempts_expired;
+      },
+    },
+    {
+      name: "attempt_expiry",
+      run: async () => {
+        const result = await expireOverdueAttempts(db, startedAt);
+        counters.attempts_expired += result.attempts_expired;
+        counters.answers_finalized = result.answers_finalized;
+      },
+    },
+    {
+      name: "item_calibration",
+      run: async () => {
+        counters.items_calibrated = await calibrateStaleAdaptiveTests(
+          db,
+          startedAt
+        );
+      },
+    },
+    {
+      name: "run_history_cleanup",
+      run: async () => {
+        await pruneSchedulerRuns(db, startedAt);
+      },
+    },
+  ];
 
-    const db = getDbFromEnv(env);
+  for (const job of jobs) {
+    try {
+      await job.run();
+    } catch (error) {
+      console.error(`❌ Scheduled job ${job.name} failed:`, error);
+      errors.push({
+        job: job.name,
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
 
-    // 1. Session cleanup and management
-    await performSessionCleanup(db);
+  const finishedAt = new Date();
+  const status: SchedulerRunStatus =
+    errors.length === 0
+      ? "success"
+      : errors.length === jobs.length
+        ? "failed"
+        : "partial";
+
+  try {
+    const [run] = await db
+      .insert(schedulerRuns)
+      .values({
+        trigger,
+        status,
+        started_at: startedAt,
+        finished_at: finishedAt,
+        duration_ms: finishedAt.getTime() - startedAt.getTime(),
+        ...counters,
+        errors,
+        triggered_by: options.triggered_by || null,
+      })
+      .returning();
 
-    // 2. Update session status (existing job)
-    await updateSessionStatus(db);
+    console.log(
+      `✅ Scheduled jobs finished (${status}): ${counters.sessions_activated} session(s) activated, ${counters.sessions_expired} expired, ${counters.attempts_expired} attempt(s) expired`
+    );
 
-    console.log("✅ Scheduled jobs completed successfully");
+    return run;
   } catch (error) {
-    console.error("❌ Error running scheduled jobs:", error);
+    console.error("❌ Failed to record scheduler run:", error);
+    return null;
   }
 }
 
-async function performSessionCleanup(db: any) {
-  try {
-    console.log("🧹 Starting session cleanup...");
+async function performSessionCleanup(db: Database): Promise<number> {
+  console.log("🧹 Starting session cleanup...");
 
-    const sessionManager = createSessionManager(db);
-    const cleanupResult = await sessionManager.performMaintenanceCleanup();
+  const sessionManager = createSessionManager(db);
+  const cleanupResult = await sessionManager.performMaintenanceCleanup();
 
-    console.log(`✅ Session cleanup completed:
+  console.log(`✅ Session cleanup completed:
       - Expired sessions cleaned: ${cleanupResult.expiredCleaned}
       - Inactive sessions cleaned: ${cleanupResult.inactiveCleaned}
       - Current session stats: Total: ${cleanupResult.sessionStats.total}, Active: ${cleanupResult.sessionStats.active}, Expired: ${cleanupResult.sessionStats.expired}
     `);
-  } catch (error) {
-    console.error("❌ Session cleanup error:", error);
-  }
+
+  return cleanupResult.expiredCleaned + cleanupResult.inactiveCleaned;
 }
 
-async function updateSessionStatus(db: any) {
-  try {
-    console.log("📊 Updating session status...");
+/**
+ * Move auto-expiring sessions along their schedule: drafts open once their
+ * start time is reached, active sessions expire once their end time passes.
+ * Drafts that fail the activation checks are left for the admin to finish.
+ * Expired sessions are closed the way an admin completion closes them
+ */
+async function updateSessionStatus(
+  db: Database,
+  now: Date
+): Promise<{ activated: number; expired: number; attempts_expired: number }> {
+  console.log("📊 Updating session status...");
 
-    // Your existing session status update logic here
-    // This is the original logic from your existing scheduler
+  const dueDrafts = await db
+    .select({ id: testSessions.id })
+    .from(testSessions)
+    .where(
+      and(
+        eq(testSessions.status, "draft"),
+        eq(testSessions.auto_expire, true),
+        lte(testSessions.start_time, now),
+        gt(testSessions.end_time, now)
+      )
+    );
 
-    console.log("✅ Session status update completed");
-  } catch (error) {
-    console.error("❌ Session status update error:", error);
+  let activated = 0;
+  for (const draft of dueDrafts) {
+    const errors = await getSessionActivationErrors(db, draft.id);
+    if (errors.length > 0) {
+      console.log(
+        `⏸️ Session ${draft.id} not activated: ${errors.map((error) => error.message).join(", ")}`
+      );
+      continue;
+    }
+
+    const updated = await db
+      .update(testSessions)
+      .set({ status: "active", updated_at: now })
+      .where(
+        and(eq(testSessions.id, draft.id), eq(testSessions.status, "draft"))
+      )
+      .returning({ id: testSessions.id });
+    activated += updated.length;
   }
+
+  const expired = await db
+    .update(testSessions)
+    .set({ status: "expired", updated_at: now })
+    .where(
+      and(
+        eq(testSessions.status, "active"),
+        eq(testSessions.auto_expire, true),
+        lte(testSessions.end_time, now)
+      )
+    )
+    .returning({ id: testSessions.id });
+
+  // Running attempts are closed and participants who never showed up
+  // become no_show, same as when an admin completes the session
+  let attemptsExpired = 0;
+  for (const session of expired) {
+    attemptsExpired += await expireOpenSessionAttempts(db, session.id, now);
+    await updateSessionParticipantStatuses(
+      db,
+      session.id,
+      ["invited"],
+      "no_show"
+    );
+  }
+
+  console.log(
+    `✅ Session status update completed: ${activated} activated, ${expired.length} expired`
+  );
+
+  return {
+    activated,
+    expired: expired.length,
+    attempts_expired: attemptsExpired,
+  };
+}
+
+async function pruneSchedulerRuns(db: Database, now: Date): Promise<void> {
+  const cutoff = new Date(
+    now.getTime() - RUN_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  await db.delete(schedulerRuns).where(lt(schedulerRuns.started_at, cutoff));
+}
+
+/**
+ * Most recent scheduler runs, newest first
+ */
+export async function getRecentSchedulerRuns(
+  db: Database,
+  limit: number = 10
+): Promise<SchedulerRun[]> {
+  return db
+    .select()
+    .from(schedulerRuns)
+    .orderBy(desc(schedulerRuns.started_at))
+    .limit(limit);
+}
+
+export async function getLastSuccessfulSchedulerRun(
+  db: Database
+): Promise<SchedulerRun | null> {
+  const [run] = await db
+    .select()
+    .from(schedulerRuns)
+    .where(eq(schedulerRuns.status, "success"))
+    .orderBy(desc(schedulerRuns.started_at))
+    .limit(1);
+
+  return run || null;
+}
+
+export function toSchedulerRunData(run: SchedulerRun): SchedulerRunData {
+  return {
+    id: run.id,
+    trigger: run.trigger,
+    status: run.status,
+    started_at: run.started_at.toISOString(),
+    finished_at: run.finished_at.toISOString(),
+    duration_ms: run.duration_ms,
+    sessions_activated: run.sessions_activated || 0,
+    sessions_expired: run.sessions_expired || 0,
+    attempts_expired: run.attempts_expired || 0,
+    answers_finalized: run.answers_finalized || 0,
+    auth_sessions_cleaned: run.auth_sessions_cleaned || 0,
+    items_calibrated: run.items_calibrated || 0,
+    errors: run.errors || [],
+    triggered_by: run.triggered_by,
+  };
 }
 
 // Development scheduler - runs every 3 minutes
@@ -74,12 +313,12 @@ export function startDevScheduler(env: CloudflareBindings) {
   console.log("🔧 Starting development scheduler (every 3 minutes)...");
 
   // Run immediately
-  runScheduledJobs(env);
+  runScheduledJobs(env, { trigger: "dev" });
 
   // Schedule to run every 3 minutes
   devSchedulerTimer = setInterval(
     () => {
-      runScheduledJobs(env);
+      runScheduledJobs(env, { trigger: "dev" });
     },
     3 * 60 * 1000
   ); // 3 minutes
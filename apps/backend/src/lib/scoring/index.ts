@@ -0,0 +1,52 @@
+import type {
+  CategoryScorer,
+  CategoryScoringResult,
+  ScoringContext,
+  ScoringItem,
+} from "./scoring.types";
+import { mbtiScorer } from "./scoring.mbti";
+import { bigFiveScorer } from "./scoring.big-five";
+import { waisScorer } from "./scoring.wais";
+import { kraepelinScorer } from "./scoring.kraepelin";
+import { genericDimensionScorer } from "./scoring.generic";
+
+// ==================== SCORER REGISTRY ====================
+
+const scorerRegistry = new Map<string, CategoryScorer>();
+
+export function registerCategoryScorer(scorer: CategoryScorer) {
+  for (const category of scorer.categories) {
+    scorerRegistry.set(category, scorer);
+  }
+}
+
+registerCategoryScorer(mbtiScorer);
+registerCategoryScorer(bigFiveScorer);
+registerCategoryScorer(waisScorer);
+registerCategoryScorer(kraepelinScorer);
+
+// Scorer for a test category, falling back to plain dimension sums
+export function getCategoryScorer(category: string): CategoryScorer {
+  return scorerRegistry.get(category) || genericDimensionScorer;
+}
+
+export function hasDedicatedScorer(category: string): boolean {
+  return scorerRegistry.has(category);
+}
+
+/**
+ * Score an attempt's answers by test category.
+ * Returns null when the scorer found nothing to score.
+ */
+export function scoreTestAnswers(
+  items: ScoringItem[],
+  context: ScoringContext
+): CategoryScoringResult | null {
+  const result = getCategoryScorer(context.category).score(items, context);
+  return result.items_scored > 0 ? result : null;
+}
+
+export * from "./scoring.types";
+export { MBTI_DICHOTOMIES } from "./scoring.mbti";
+export { BIG_FIVE_DIMENSIONS } from "./scoring.big-five";
+export { WAIS_INDEXES } from "./scoring.wais";
@@ -0,0 +1,96 @@
+import type {
+  CategoryScorer,
+  ScoringDimension,
+  ScoringItem,
+} from "./scoring.types";
+import {
+  accumulateItem,
+  createDimensionScores,
+  describeScoreLevel,
+  isScorableItem,
+  resolveDimension,
+  toPercentScore,
+} from "./scoring.utils";
+
+export const BIG_FIVE_DIMENSIONS: ScoringDimension[] = [
+  {
+    code: "O",
+    name: "Openness",
+    description: "Keterbukaan terhadap pengalaman, ide dan hal-hal baru",
+    category: "personality",
+    aliases: ["openness", "openness_to_experience", "keterbukaan"],
+  },
+  {
+    code: "C",
+    name: "Conscientiousness",
+    description: "Keteraturan, tanggung jawab dan orientasi pada target",
+    category: "personality",
+    aliases: ["conscientiousness", "kehati_hatian", "kesungguhan"],
+  },
+  {
+    code: "E",
+    name: "Extraversion",
+    description: "Kecenderungan bersosialisasi, energik dan asertif",
+    category: "personality",
+    aliases: ["extraversion", "extroversion", "ekstraversi"],
+  },
+  {
+    code: "A",
+    name: "Agreeableness",
+    description: "Kecenderungan kooperatif, ramah dan mudah percaya",
+    category: "personality",
+    aliases: ["agreeableness", "keramahan"],
+  },
+  {
+    code: "N",
+    name: "Neuroticism",
+    description: "Kecenderungan mengalami emosi negatif dan stres",
+    category: "personality",
+    aliases: ["neuroticism", "emotional_instability", "neurotisisme"],
+  },
+];
+
+// Big Five domains scored as POMP (percent of maximum possible) from Likert items
+export const bigFiveScorer: CategoryScorer = {
+  id: "big_five",
+  categories: ["big_five"],
+  score(items: ScoringItem[]) {
+    const scores = createDimensionScores(BIG_FIVE_DIMENSIONS);
+    let itemsScored = 0;
+
+    for (const item of items) {
+      if (!isScorableItem(item)) continue;
+      const applied = accumulateItem(item, scores, (key) =>
+        resolveDimension(BIG_FIVE_DIMENSIONS, key)
+      );
+      if (applied) itemsScored++;
+    }
+
+    const traits = BIG_FIVE_DIMENSIONS.filter(
+      (dimension) => scores.get(dimension.code)!.item_count > 0
+    ).map((dimension) => {
+      const dimensionScore = scores.get(dimension.code)!;
+      const score = toPercentScore(
+        dimensionScore.raw_score,
+        dimensionScore.min_score,
+        dimensionScore.max_score
+      );
+      return {
+        name: dimension.name,
+        score,
+        description: dimension.description,
+        category: dimension.category,
+        interpretation: describeScoreLevel(score),
+      };
+    });
+
+    return {
+      scorer: "big_five",
+      traits,
+      dimension_scores: Array.from(scores.values()),
+      profile_code: null,
+      items_scored: itemsScored,
+      items_skipped: items.length - itemsScored,
+    };
+  },
+};
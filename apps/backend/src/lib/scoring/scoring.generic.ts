@@ -0,0 +1,74 @@
+import type {
+  CategoryScorer,
+  DimensionScore,
+  ScoringContext,
+  ScoringItem,
+} from "./scoring.types";
+import {
+  accumulateItem,
+  describeScoreLevel,
+  isScorableItem,
+  parseScoringKey,
+  toPercentScore,
+} from "./scoring.utils";
+
+/**
+ * Fallback scorer for categories without a dedicated scorer: every dimension
+ * named in the scoring keys becomes a trait (e.g. DISC, PAPI Kostick, RIASEC)
+ */
+export const genericDimensionScorer: CategoryScorer = {
+  id: "generic_dimension",
+  categories: [],
+  score(items: ScoringItem[], context: ScoringContext) {
+    const scores = new Map<string, DimensionScore>();
+    let itemsScored = 0;
+
+    const resolve = (key: string) => {
+      const code = key.trim().toLowerCase();
+      if (!code) return null;
+      if (!scores.has(code)) {
+        scores.set(code, {
+          code,
+          name: key.trim(),
+          raw_score: 0,
+          max_score: 0,
+          min_score: 0,
+          item_count: 0,
+        });
+      }
+      return { code, direction: 1 as const };
+    };
+
+    for (const item of items) {
+      if (!isScorableItem(item)) continue;
+      if (parseScoringKey(item.question?.scoring_key).length === 0) continue;
+      if (accumulateItem(item, scores, resolve)) itemsScored++;
+    }
+
+    const traits = Array.from(scores.values())
+      .filter((dimensionScore) => dimensionScore.item_count > 0)
+      .map((dimensionScore) => {
+        const score = toPercentScore(
+          dimensionScore.raw_score,
+          dimensionScore.min_score,
+          dimensionScore.max_score
+        );
+        return {
+          name: dimensionScore.name,
+          score,
+          description: `Skor dimensi ${dimensionScore.name}`,
+          category: context.module_type,
+          interpretation: describeScoreLevel(score),
+        };
+      });
+
+    return {
+      scorer: "generic_dimension",
+      traits,
+      dimension_scores: Array.from(scores.values()),
+      profile_code: null,
+      items_scored: itemsScored,
+      items_skipped: items.length - itemsScored,
+    };
+  },
+};
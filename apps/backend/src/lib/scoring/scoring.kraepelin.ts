@@ -0,0 +1,115 @@
+import {
+  calculateKraepelinIndicators,
+  KRAEPELIN_INDICATOR_LABELS,
+  type KraepelinColumnAnswerData,
+} from "shared-types";
+import type {
+  CategoryScorer,
+  ScoringContext,
+  ScoringItem,
+  ScoredTrait,
+} from "./scoring.types";
+import { describeScoreLevel } from "./scoring.utils";
+
+function clampScore(value: number): number {
+  return Math.round(Math.max(0, Math.min(100, value)) * 100) / 100;
+}
+
+function isColumnAnswerData(data: unknown): data is KraepelinColumnAnswerData {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    typeof (data as KraepelinColumnAnswerData).column_index === "number" &&
+    Array.isArray((data as KraepelinColumnAnswerData).entries)
+  );
+}
+
+/**
+ * Kraepelin/Pauli scorer working on the per-column records stored in
+ * user_answers.answer_data; correctness is decided when a column is submitted
+ */
+export const kraepelinScorer: CategoryScorer = {
+  id: "kraepelin",
+  categories: ["kraepelin", "pauli"],
+  score(items: ScoringItem[], context: ScoringContext) {
+    const columns = items
+      .map((item) => item.answer.answer_data)
+      .filter(isColumnAnswerData);
+
+    const rowsPerColumn = columns[0]?.total_rows || 0;
+    const columnCount = Math.max(
+      context.total_questions || 0,
+      ...columns.map((column) => column.column_index + 1)
+    );
+    const indicators = calculateKraepelinIndicators(columns, columnCount);
+
+    const totalRows = rowsPerColumn * columnCount;
+    const traits: ScoredTrait[] = [];
+    if (columns.length > 0 && rowsPerColumn > 0) {
+      const speed = clampScore((indicators.panker / rowsPerColumn) * 100);
+      const attemptedRows = indicators.total_worked + indicators.total_skipped;
+      const accuracy = clampScore(
+        attemptedRows > 0 ? (indicators.total_correct / attemptedRows) * 100 : 0
+      );
+      const stability = clampScore(
+        100 - (indicators.janker / rowsPerColumn) * 100
+      );
+      // Relative output change from first to last column
+      const relativeTrend =
+        indicators.panker > 0
+          ? (indicators.hanker * (columnCount - 1)) / indicators.panker
+          : 0;
+      const endurance = clampScore(50 + relativeTrend * 50);
+
+      traits.push(
+        {
+          name: KRAEPELIN_INDICATOR_LABELS.panker,
+          score: speed,
+          description: `Rata-rata ${indicators.panker} penjumlahan per kolom`,
+          category: "aptitude",
+          interpretation: describeScoreLevel(speed),
+        },
+        {
+          name: KRAEPELIN_INDICATOR_LABELS.tianker,
+          score: accuracy,
+          description: `${indicators.total_errors} salah dan ${indicators.total_skipped} terlewat`,
+          category: "aptitude",
+          interpretation: describeScoreLevel(accuracy),
+        },
+        {
+          name: KRAEPELIN_INDICATOR_LABELS.janker,
+          score: stability,
+          description: `Selisih kolom tertinggi dan terendah ${indicators.janker} penjumlahan`,
+          category: "aptitude",
+          interpretation: describeScoreLevel(stability),
+        },
+        {
+          name: KRAEPELIN_INDICATOR_LABELS.hanker,
+          score: endurance,
+          description: `Perubahan ${indicators.hanker} penjumlahan per kolom sepanjang tes`,
+          category: "aptitude",
+          interpretation: describeScoreLevel(endurance),
+        }
+      );
+    }
+
+    return {
+      scorer: "kraepelin",
+      traits,
+      dimension_scores: [],
+      profile_code: null,
+      items_scored: columns.length,
+      items_skipped: items.length - columns.length,
+      // Overall score is the share of the whole sheet answered correctly
+      scaled_score:
+        totalRows > 0
+          ? clampScore((indicators.total_correct / totalRows) * 100)
+          : undefined,
+      analysis: {
+        indicators,
+        rows_per_column: rowsPerColumn,
+        column_count: columnCount,
+      },
+    };
+  },
+};
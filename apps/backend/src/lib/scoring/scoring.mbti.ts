@@ -0,0 +1,183 @@
+import type {
+  CategoryScorer,
+  ScoringDimension,
+  ScoringItem,
+  ScoredTrait,
+} from "./scoring.types";
+import {
+  accumulateItem,
+  createDimensionScores,
+  isScorableItem,
+  toPercentScore,
+  type ResolvedDimension,
+} from "./scoring.utils";
+
+interface MbtiPole {
+  letter: string;
+  name: string;
+  description: string;
+  aliases: string[];
+}
+
+interface MbtiDichotomy {
+  code: string;
+  first: MbtiPole;
+  second: MbtiPole;
+}
+
+// The second pole wins ties, following the standard MBTI tie-break rule
+export const MBTI_DICHOTOMIES: MbtiDichotomy[] = [
+  {
+    code: "EI",
+    first: {
+      letter: "E",
+      name: "Extraversion",
+      description: "Mendapatkan energi dari interaksi dengan orang lain",
+      aliases: ["extraversion", "extrovert"],
+    },
+    second: {
+      letter: "I",
+      name: "Introversion",
+      description: "Mendapatkan energi dari refleksi dan waktu sendiri",
+      aliases: ["introversion", "introvert"],
+    },
+  },
+  {
+    code: "SN",
+    first: {
+      letter: "S",
+      name: "Sensing",
+      description: "Berfokus pada fakta konkret dan pengalaman nyata",
+      aliases: ["sensing"],
+    },
+    second: {
+      letter: "N",
+      name: "Intuition",
+      description: "Berfokus pada pola, makna dan kemungkinan",
+      aliases: ["intuition", "intuitive"],
+    },
+  },
+  {
+    code: "TF",
+    first: {
+      letter: "T",
+      name: "Thinking",
+      description: "Mengambil keputusan berdasarkan logika dan analisis",
+      aliases: ["thinking"],
+    },
+    second: {
+      letter: "F",
+      name: "Feeling",
+      description:
+        "Mengambil keputusan berdasarkan nilai dan dampak pada orang",
+      aliases: ["feeling"],
+    },
+  },
+  {
+    code: "JP",
+    first: {
+      letter: "J",
+      name: "Judging",
+      description: "Menyukai keteraturan, rencana dan kepastian",
+      aliases: ["judging"],
+    },
+    second: {
+      letter: "P",
+      name: "Perceiving",
+      description: "Menyukai fleksibilitas, spontanitas dan pilihan terbuka",
+      aliases: ["perceiving"],
+    },
+  },
+];
+
+const MBTI_DIMENSIONS: ScoringDimension[] = MBTI_DICHOTOMIES.map(
+  (dichotomy) => ({
+    code: dichotomy.code,
+    name: `${dichotomy.first.name} - ${dichotomy.second.name}`,
+    description: `${dichotomy.first.letter}/${dichotomy.second.letter}`,
+    category: "personality",
+  })
+);
+
+// Map a pole letter or name onto its dichotomy, second pole keys are reversed
+function resolveMbtiPole(key: string): ResolvedDimension | null {
+  const normalized = key.trim().toLowerCase();
+
+  for (const dichotomy of MBTI_DICHOTOMIES) {
+    if (normalized === dichotomy.code.toLowerCase()) {
+      return { code: dichotomy.code, direction: 1 };
+    }
+    const matches = (pole: MbtiPole) =>
+      pole.letter.toLowerCase() === normalized ||
+      pole.name.toLowerCase() === normalized ||
+      pole.aliases.includes(normalized);
+    if (matches(dichotomy.first)) return { code: dichotomy.code, direction: 1 };
+    if (matches(dichotomy.second)) {
+      return { code: dichotomy.code, direction: -1 };
+    }
+  }
+
+  return null;
+}
+
+// Preference clarity label from the strength of the preferred pole (50-100)
+function describeClarity(share: number): string {
+  if (share >= 90) return "Preferensi sangat jelas";
+  if (share >= 75) return "Preferensi jelas";
+  if (share >= 60) return "Preferensi moderat";
+  return "Preferensi ringan";
+}
+
+// MBTI scored per dichotomy; the profile code is the preferred pole of each
+export const mbtiScorer: CategoryScorer = {
+  id: "mbti",
+  categories: ["mbti"],
+  score(items: ScoringItem[]) {
+    const scores = createDimensionScores(MBTI_DIMENSIONS);
+    let itemsScored = 0;
+
+    for (const item of items) {
+      if (!isScorableItem(item)) continue;
+      if (accumulateItem(item, scores, resolveMbtiPole)) itemsScored++;
+    }
+
+    const traits: ScoredTrait[] = [];
+    let profileCode = "";
+
+    for (const dichotomy of MBTI_DICHOTOMIES) {
+      const dimensionScore = scores.get(dichotomy.code)!;
+      if (dimensionScore.item_count === 0) {
+        profileCode += "X";
+        continue;
+      }
+
+      // 100 = fully first pole, 0 = fully second pole
+      const firstPoleShare = toPercentScore(
+        dimensionScore.raw_score,
+        dimensionScore.min_score,
+        dimensionScore.max_score
+      );
+      const preferred =
+        firstPoleShare > 50 ? dichotomy.first : dichotomy.second;
+      const share = Math.max(firstPoleShare, 100 - firstPoleShare);
+
+      profileCode += preferred.letter;
+      traits.push({
+        name: preferred.name,
+        score: share,
+        description: preferred.description,
+        category: "personality",
+        interpretation: describeClarity(share),
+      });
+    }
+
+    return {
+      scorer: "mbti",
+      traits,
+      dimension_scores: Array.from(scores.values()),
+      profile_code: profileCode.includes("X") ? null : profileCode,
+      items_scored: itemsScored,
+      items_skipped: items.length - itemsScored,
+    };
+  },
+};
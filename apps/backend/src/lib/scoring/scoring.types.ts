@@ -0,0 +1,61 @@
+import type { Question, UserAnswer } from "@/db";
+
+// ==================== SCORING TYPES ====================
+
+// A single answered item as loaded by the result calculation queries
+export interface ScoringItem {
+  answer: UserAnswer;
+  question: Question | null;
+}
+
+// Definition of a scored dimension (MBTI pole, Big Five domain, WAIS index, ...)
+export interface ScoringDimension {
+  code: string;
+  name: string;
+  description: string;
+  category: string;
+  aliases?: string[];
+}
+
+// Accumulated score for one dimension
+export interface DimensionScore {
+  code: string;
+  name: string;
+  raw_score: number;
+  max_score: number;
+  min_score: number;
+  item_count: number;
+}
+
+// Trait entry as stored in test_results.traits
+export interface ScoredTrait {
+  name: string;
+  score: number;
+  description: string;
+  category: string;
+  interpretation?: string;
+}
+
+export interface CategoryScoringResult {
+  scorer: string;
+  traits: ScoredTrait[];
+  dimension_scores: DimensionScore[];
+  profile_code?: string | null;
+  items_scored: number;
+  items_skipped: number;
+  scaled_score?: number; // overrides the correct-answer based scaled score
+  analysis?: Record<string, unknown>; // scorer specific extras (e.g. work curve)
+}
+
+export interface ScoringContext {
+  category: string;
+  module_type: string;
+  total_questions?: number;
+}
+
+// Pluggable scorer keyed by tests.category
+export interface CategoryScorer {
+  id: string;
+  categories: string[];
+  score(items: ScoringItem[], context: ScoringContext): CategoryScoringResult;
+}
@@ -0,0 +1,289 @@
+import type {
+  DimensionScore,
+  ScoringDimension,
+  ScoringItem,
+} from "./scoring.types";
+
+// Default Likert range used when a question has no scored options
+const DEFAULT_LIKERT_MIN = 1;
+const DEFAULT_LIKERT_MAX = 5;
+
+type QuestionOption = { value: string; label: string; score?: number };
+
+// Dimension a scoring key resolves to; direction -1 flips the keying
+// (e.g. an "I" key on the bipolar E-I dichotomy)
+export interface ResolvedDimension {
+  code: string;
+  direction: 1 | -1;
+}
+
+export interface ScoringKeyEntry {
+  dimension: string;
+  weight: number;
+  option: string | null;
+}
+
+/**
+ * Parse a question scoring_key into dimension entries.
+ *
+ * Supported key formats:
+ * - "<dimension>": the item loads on the dimension for every response,
+ *   a negative weight marks a reverse-keyed item
+ * - "<option value>:<dimension>": the weight is only applied when that
+ *   option was chosen (forced-choice items such as MBTI)
+ */
+export function parseScoringKey(
+  scoringKey: Record<string, number> | null | undefined
+): ScoringKeyEntry[] {
+  if (!scoringKey) return [];
+
+  return Object.entries(scoringKey)
+    .filter(([, weight]) => typeof weight === "number" && !isNaN(weight))
+    .map(([key, weight]) => {
+      const separatorIndex = key.lastIndexOf(":");
+      if (separatorIndex > 0) {
+        return {
+          option: key.substring(0, separatorIndex).trim(),
+          dimension: key.substring(separatorIndex + 1).trim(),
+          weight,
+        };
+      }
+      return { option: null, dimension: key.trim(), weight };
+    });
+}
+
+// Find a dimension by code, name or alias (case-insensitive)
+export function resolveDimension(
+  dimensions: ScoringDimension[],
+  key: string
+): ResolvedDimension | null {
+  const normalized = key.trim().toLowerCase();
+  const dimension = dimensions.find(
+    (dimension) =>
+      dimension.code.toLowerCase() === normalized ||
+      dimension.name.toLowerCase() === normalized ||
+      dimension.aliases?.some((alias) => alias.toLowerCase() === normalized)
+  );
+  return dimension ? { code: dimension.code, direction: 1 } : null;
+}
+
+export function getQuestionOptions(item: ScoringItem): QuestionOption[] {
+  return (item.question?.options as QuestionOption[] | null) || [];
+}
+
+// Whether the chosen answer matches the option value of a scoring key entry
+export function isOptionChosen(item: ScoringItem, optionValue: string) {
+  const chosen = item.answer.answer;
+  if (!chosen) return false;
+  return chosen.trim().toLowerCase() === optionValue.toLowerCase();
+}
+
+/**
+ * Numeric response value for Likert-type items: the chosen option score
+ * when the question defines one, otherwise the numeric answer itself
+ */
+export function getResponseValue(item: ScoringItem): number | null {
+  const chosen = item.answer.answer;
+  if (!chosen) return null;
+
+  const option = getQuestionOptions(item).find((opt) => opt.value === chosen);
+  if (option && typeof option.score === "number") {
+    return option.score;
+  }
+
+  const numeric = parseFloat(chosen);
+  return isNaN(numeric) ? null : numeric;
+}
+
+// Range of possible response values for a Likert-type item
+export function getResponseRange(item: ScoringItem): {
+  min: number;
+  max: number;
+} {
+  const values = getQuestionOptions(item)
+    .map((opt) =>
+      typeof opt.score === "number" ? opt.score : parseFloat(opt.value)
+    )
+    .filter((value) => !isNaN(value));
+
+  if (values.length >= 2) {
+    return { min: Math.min(...values), max: Math.max(...values) };
+  }
+
+  return { min: DEFAULT_LIKERT_MIN, max: DEFAULT_LIKERT_MAX };
+}
+
+// Credit earned on an ability item (1 for correct, partial score if stored)
+export function getItemCredit(item: ScoringItem): number {
+  if (item.answer.is_correct === true) return 1;
+  if (item.answer.score) {
+    const score = parseFloat(item.answer.score);
+    return isNaN(score) ? 0 : Math.max(0, Math.min(1, score));
+  }
+  return 0;
+}
+
+export function createDimensionScores(
+  dimensions: ScoringDimension[]
+): Map<string, DimensionScore> {
+  return new Map(
+    dimensions.map((dimension) => [
+      dimension.code,
+      {
+        code: dimension.code,
+        name: dimension.name,
+        raw_score: 0,
+        max_score: 0,
+        min_score: 0,
+        item_count: 0,
+      },
+    ])
+  );
+}
+
+// Convert a raw score to the 0-100 scale used by test_results traits
+export function toPercentScore(raw: number, min: number, max: number): number {
+  if (max <= min) return 0;
+  const percent = ((raw - min) / (max - min)) * 100;
+  return Math.round(Math.max(0, Math.min(100, percent)) * 100) / 100;
+}
+
+// Whether an item carries an answer that can be scored
+export function isScorableItem(item: ScoringItem): boolean {
+  return Boolean(
+    item.question &&
+      item.question.scoring_key &&
+      (item.answer.answer || item.answer.answer_data)
+  );
+}
+
+/**
+ * Add one item's contribution to the dimension scores.
+ * Items with a correct_answer are treated as ability items (credit x weight),
+ * everything else as self-report items scored on the response value.
+ */
+export function accumulateItem(
+  item: ScoringItem,
+  scores: Map<string, DimensionScore>,
+  resolve: (key: string) => ResolvedDimension | null
+): boolean {
+  const entries = parseScoringKey(item.question?.scoring_key);
+  if (entries.length === 0) return false;
+
+  if (item.answer.manual_scores) {
+    return accumulateManualScores(item, entries, scores, resolve);
+  }
+
+  let applied = false;
+  const isAbilityItem = Boolean(item.question?.correct_answer);
+
+  // Option-specific entries: only the chosen option counts, the maximum is
+  // the best option available for the dimension
+  const optionEntries = entries.filter((entry) => entry.option !== null);
+  const optionTotals = new Map<string, Map<string, number>>();
+  for (const entry of optionEntries) {
+    const resolved = resolve(entry.dimension);
+    if (!resolved) continue;
+    const perOption =
+      optionTotals.get(resolved.code) || new Map<string, number>();
+    const optionKey = entry.option!.toLowerCase();
+    perOption.set(
+      optionKey,
+      (perOption.get(optionKey) || 0) + entry.weight * resolved.direction
+    );
+    optionTotals.set(resolved.code, perOption);
+  }
+
+  for (const [code, perOption] of optionTotals) {
+    const score = scores.get(code);
+    if (!score) continue;
+    const weights = Array.from(perOption.values());
+    const chosen = Array.from(perOption.entries()).find(([option]) =>
+      isOptionChosen(item, option)
+    );
+    score.raw_score += chosen ? chosen[1] : 0;
+    score.max_score += Math.max(0, ...weights);
+    score.min_score += Math.min(0, ...weights);
+    score.item_count++;
+    applied = true;
+  }
+
+  // Dimension-wide entries
+  for (const entry of entries.filter((entry) => entry.option === null)) {
+    const resolved = resolve(entry.dimension);
+    const score = resolved ? scores.get(resolved.code) : undefined;
+    if (!resolved || !score) continue;
+
+    const signedWeight = entry.weight * resolved.direction;
+    const weight = Math.abs(signedWeight);
+
+    if (isAbilityItem) {
+      score.raw_score += getItemCredit(item) * weight;
+      score.max_score += weight;
+    } else {
+      const value = getSelfReportValue(item);
+      if (value === null) continue;
+      const range = getSelfReportRange(item);
+      const keyedValue =
+        signedWeight < 0 ? range.min + range.max - value : value;
+      score.raw_score += keyedValue * weight;
+      score.min_score += range.min * weight;
+      score.max_score += range.max * weight;
+    }
+
+    score.item_count++;
+    applied = true;
+  }
+
+  return applied;
+}
+
+// Assessor grades per dimension, the scoring_key weight being the maximum
+function accumulateManualScores(
+  item: ScoringItem,
+  entries: ScoringKeyEntry[],
+  scores: Map<string, DimensionScore>,
+  resolve: (key: string) => ResolvedDimension | null
+): boolean {
+  const manualScores = item.answer.manual_scores || {};
+  let applied = false;
+
+  for (const entry of entries.filter((entry) => entry.option === null)) {
+    const resolved = resolve(entry.dimension);
+    const score = resolved ? scores.get(resolved.code) : undefined;
+    if (!resolved || !score) continue;
+
+    score.raw_score += manualScores[entry.dimension] ?? 0;
+    score.max_score += Math.abs(entry.weight);
+    score.item_count++;
+    applied = true;
+  }
+
+  return applied;
+}
+
+// Response value for self-report items, true/false mapped to 1/0
+function getSelfReportValue(item: ScoringItem): number | null {
+  if (item.question?.question_type === "true_false") {
+    if (item.answer.answer === "true") return 1;
+    if (item.answer.answer === "false") return 0;
+    return null;
+  }
+  return getResponseValue(item);
+}
+
+function getSelfReportRange(item: ScoringItem): { min: number; max: number } {
+  if (item.question?.question_type === "true_false") {
+    return { min: 0, max: 1 };
+  }
+  return getResponseRange(item);
+}
+
+// Verbal level for a 0-100 trait score
+export function describeScoreLevel(score: number): string {
+  if (score >= 80) return "Sangat Tinggi";
+  if (score >= 60) return "Tinggi";
+  if (score >= 40) return "Sedang";
+  if (score >= 20) return "Rendah";
+  return "Sangat Rendah";
+}
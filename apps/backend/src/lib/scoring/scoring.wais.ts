@@ -0,0 +1,146 @@
+import type {
+  CategoryScorer,
+  ScoringDimension,
+  ScoringItem,
+} from "./scoring.types";
+import {
+  accumulateItem,
+  createDimensionScores,
+  describeScoreLevel,
+  isScorableItem,
+  resolveDimension,
+  toPercentScore,
+} from "./scoring.utils";
+
+// WAIS indexes; subtest names are accepted as aliases of their index
+export const WAIS_INDEXES: ScoringDimension[] = [
+  {
+    code: "VCI",
+    name: "Verbal Comprehension",
+    description: "Kemampuan penalaran verbal dan pengetahuan",
+    category: "intelligence",
+    aliases: [
+      "verbal_comprehension",
+      "vc",
+      "similarities",
+      "vocabulary",
+      "information",
+      "comprehension",
+    ],
+  },
+  {
+    code: "PRI",
+    name: "Perceptual Reasoning",
+    description: "Kemampuan penalaran non-verbal dan visual-spasial",
+    category: "intelligence",
+    aliases: [
+      "perceptual_reasoning",
+      "pr",
+      "block_design",
+      "matrix_reasoning",
+      "visual_puzzles",
+      "picture_completion",
+      "figure_weights",
+    ],
+  },
+  {
+    code: "WMI",
+    name: "Working Memory",
+    description: "Kemampuan memori kerja dan konsentrasi",
+    category: "intelligence",
+    aliases: [
+      "working_memory",
+      "wm",
+      "digit_span",
+      "arithmetic",
+      "letter_number_sequencing",
+    ],
+  },
+  {
+    code: "PSI",
+    name: "Processing Speed",
+    description: "Kecepatan memproses informasi sederhana",
+    category: "intelligence",
+    aliases: [
+      "processing_speed",
+      "ps",
+      "symbol_search",
+      "coding",
+      "cancellation",
+    ],
+  },
+];
+
+const WAIS_PERCENT_SCORE_SUFFIX = "Percent Score";
+
+// Percent of the maximum credit per WAIS index. These are not index-scale
+// scores (mean 100, SD 15), so the traits are named as percent scores
+export const waisScorer: CategoryScorer = {
+  id: "wais",
+  categories: ["wais"],
+  score(items: ScoringItem[]) {
+    const scores = createDimensionScores(WAIS_INDEXES);
+    let itemsScored = 0;
+
+    for (const item of items) {
+      if (!isScorableItem(item)) continue;
+      const applied = accumulateItem(item, scores, (key) =>
+        resolveDimension(WAIS_INDEXES, key)
+      );
+      if (applied) itemsScored++;
+    }
+
+    const scoredIndexes = WAIS_INDEXES.filter(
+      (index) => scores.get(index.code)!.item_count > 0
+    );
+
+    const traits = scoredIndexes.map((index) => {
+      const indexScore = scores.get(index.code)!;
+      const score = toPercentScore(
+        indexScore.raw_score,
+        indexScore.min_score,
+        indexScore.max_score
+      );
+      return {
+        name: `${index.name} ${WAIS_PERCENT_SCORE_SUFFIX}`,
+        score,
+        description: `${index.description} (persen dari skor maksimum)`,
+        category: index.category,
+        interpretation: describeScoreLevel(score),
+      };
+    });
+
+    // Full scale composite over all indexes that were administered
+    if (scoredIndexes.length > 1) {
+      const totals = scoredIndexes.reduce(
+        (acc, index) => {
+          const indexScore = scores.get(index.code)!;
+          acc.raw += indexScore.raw_score;
+          acc.min += indexScore.min_score;
+          acc.max += indexScore.max_score;
+          return acc;
+        },
+        { raw: 0, min: 0, max: 0 }
+      );
+      const score = toPercentScore(totals.raw, totals.min, totals.max);
+      traits.push({
+        name: `Full Scale ${WAIS_PERCENT_SCORE_SUFFIX}`,
+        score,
+        description:
+          "Gabungan seluruh indeks kemampuan intelektual (persen dari skor maksimum)",
+        category: "intelligence",
+        interpretation: describeScoreLevel(score),
+      });
+    }
+
+    return {
+      scorer: "wais",
+      traits,
+      dimension_scores: Array.from(scores.values()),
+      profile_code: null,
+      items_scored: itemsScored,
+      items_skipped: items.length - itemsScored,
+      analysis: { score_scale: "percent_of_maximum" },
+    };
+  },
+};
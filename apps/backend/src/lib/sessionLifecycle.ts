@@ -0,0 +1,270 @@
+import { and, eq, inArray, isNull, lt, ne, sql } from "drizzle-orm";
+import {
+  questions,
+  sessionModules,
+  sessionParticipants,
+  testAttempts,
+  testResults,
+  tests,
+  userAnswers,
+  users,
+  type Database,
+} from "../db";
+import { calculateAttemptResult } from "./testResults";
+import { calculateAnswerScore, type SessionErrorResponse } from "shared-types";
+
+type ParticipantStatus = NonNullable<
+  typeof sessionParticipants.$inferSelect.status
+>;
+
+const OPEN_ATTEMPT_STATUSES = ["started", "in_progress"] as const;
+
+// Closed attempts that are scored, abandoned ones get no result
+export const SCORED_ATTEMPT_STATUSES = ["completed", "expired"] as const;
+
+/**
+ * Reasons a session cannot run yet: it needs at least one test module, all
+ * of its tests active, and at least one participant. Empty when ready
+ */
+export async function getSessionActivationErrors(
+  db: Database,
+  sessionId: string
+): Promise<NonNullable<SessionErrorResponse["errors"]>> {
+  const [[moduleCount], [inactiveTestCount], [participantCount]] =
+    await Promise.all([
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(sessionModules)
+        .where(eq(sessionModules.session_id, sessionId)),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(sessionModules)
+        .innerJoin(tests, eq(sessionModules.test_id, tests.id))
+        .where(
+          and(
+            eq(sessionModules.session_id, sessionId),
+            ne(tests.status, "active")
+          )
+        ),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(sessionParticipants)
+        .where(eq(sessionParticipants.session_id, sessionId)),
+    ]);
+
+  const errors: NonNullable<SessionErrorResponse["errors"]> = [];
+  if (!moduleCount || moduleCount.count === 0) {
+    errors.push({
+      field: "session_modules",
+      message: "Session has no test modules",
+      code: "NO_SESSION_MODULES",
+    });
+  }
+  if (inactiveTestCount && inactiveTestCount.count > 0) {
+    errors.push({
+      field: "session_modules",
+      message: `${inactiveTestCount.count} test module(s) are not active`,
+      code: "INACTIVE_TESTS",
+    });
+  }
+  if (!participantCount || participantCount.count === 0) {
+    errors.push({
+      field: "participants",
+      message: "Session has no participants",
+      code: "NO_PARTICIPANTS",
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Close every attempt of the session that is still running. Time spent is
+ * kept if the client already reported it, otherwise taken from the clock
+ */
+export async function expireOpenSessionAttempts(
+  db: Database,
+  sessionId: string,
+  now: Date = new Date()
+): Promise<number> {
+  const expired = await db
+    .update(testAttempts)
+    .set({
+      status: "expired",
+      actual_end_time: now,
+      time_spent: sql`coalesce(${testAttempts.time_spent}, greatest(0, extract(epoch from (${now.toISOString()}::timestamp - ${testAttempts.start_time}))::integer))`,
+      updated_at: now,
+    })
+    .where(
+      and(
+        eq(testAttempts.session_test_id, sessionId),
+        inArray(testAttempts.status, [...OPEN_ATTEMPT_STATUSES])
+      )
+    )
+    .returning({ id: testAttempts.id });
+
+  await finalizeAttemptAnswers(
+    db,
+    expired.map((attempt) => attempt.id)
+  );
+
+  return expired.length;
+}
+
+/**
+ * Close running attempts whose end time has passed, across all sessions.
+ * The attempt ends at its deadline, not at the time the job noticed it
+ */
+export async function expireOverdueAttempts(
+  db: Database,
+  now: Date = new Date()
+): Promise<{ attempts_expired: number; answers_finalized: number }> {
+  const expired = await db
+    .update(testAttempts)
+    .set({
+      status: "expired",
+      actual_end_time: sql`${testAttempts.end_time}`,
+      time_spent: sql`coalesce(${testAttempts.time_spent}, greatest(0, extract(epoch from (${testAttempts.end_time} - ${testAttempts.start_time}))::integer))`,
+      updated_at: now,
+    })
+    .where(
+      and(
+        inArray(testAttempts.status, [...OPEN_ATTEMPT_STATUSES]),
+        lt(testAttempts.end_time, now)
+      )
+    )
+    .returning({ id: testAttempts.id });
+
+  const answersFinalized = await finalizeAttemptAnswers(
+    db,
+    expired.map((attempt) => attempt.id)
+  );
+
+  return {
+    attempts_expired: expired.length,
+    answers_finalized: answersFinalized,
+  };
+}
+
+/**
+ * Score the answers of closed attempts that were only auto-saved as drafts,
+ * refresh the answered count and calculate the test results. Returns the
+ * number of answers scored
+ */
+export async function finalizeAttemptAnswers(
+  db: Database,
+  attemptIds: string[]
+): Promise<number> {
+  if (attemptIds.length === 0) return 0;
+
+  const draftAnswers = await db
+    .select({
+      id: userAnswers.id,
+      answer: userAnswers.answer,
+      answer_data: userAnswers.answer_data,
+      question_type: questions.question_type,
+      correct_answer: questions.correct_answer,
+      scoring_key: questions.scoring_key,
+      scoring_rule: questions.scoring_rule,
+      options: questions.options,
+    })
+    .from(userAnswers)
+    .innerJoin(questions, eq(userAnswers.question_id, questions.id))
+    .where(
+      and(
+        inArray(userAnswers.attempt_id, attemptIds),
+        isNull(userAnswers.score)
+      )
+    );
+
+  for (const draft of draftAnswers) {
+    const { score, isCorrect } = calculateAnswerScore(
+      draft.answer,
+      (draft.answer_data as Record<string, any>) || null,
+      draft.question_type,
+      draft.correct_answer,
+      (draft.scoring_key as Record<string, number>) || undefined,
+      (draft.options as Array<{
+        value: string;
+        label: string;
+        score?: number;
+      }>) || undefined,
+      draft.scoring_rule
+    );
+
+    await db
+      .update(userAnswers)
+      .set({ score: score.toString(), is_correct: isCorrect })
+      .where(eq(userAnswers.id, draft.id));
+  }
+
+  await db
+    .update(testAttempts)
+    .set({
+      questions_answered: sql`(select count(*)::int from ${userAnswers} where ${userAnswers.attempt_id} = ${testAttempts.id} and (${userAnswers.answer} is not null or ${userAnswers.answer_data} is not null))`,
+    })
+    .where(inArray(testAttempts.id, attemptIds));
+
+  await calculateClosedAttemptResults(db, attemptIds);
+
+  return draftAnswers.length;
+}
+
+// Run the category scoring engine for closed attempts. A failing attempt
+// is logged and skipped so the rest of the batch still gets results
+async function calculateClosedAttemptResults(
+  db: Database,
+  attemptIds: string[]
+): Promise<void> {
+  const closedAttempts = await db
+    .select({
+      attempt: testAttempts,
+      test: tests,
+      user: users,
+      result: testResults,
+    })
+    .from(testAttempts)
+    .innerJoin(tests, eq(testAttempts.test_id, tests.id))
+    .innerJoin(users, eq(testAttempts.user_id, users.id))
+    .leftJoin(testResults, eq(testResults.attempt_id, testAttempts.id))
+    .where(
+      and(
+        inArray(testAttempts.id, attemptIds),
+        inArray(testAttempts.status, [...SCORED_ATTEMPT_STATUSES])
+      )
+    );
+
+  for (const { result, ...attempt } of closedAttempts) {
+    try {
+      await calculateAttemptResult(db, attempt, result);
+    } catch (error) {
+      console.error(
+        `Error calculating result for attempt ${attempt.attempt.id}:`,
+        error
+      );
+    }
+  }
+}
+
+/**
+ * Move participants of a session from any of the given statuses to a new one
+ */
+export async function updateSessionParticipantStatuses(
+  db: Database,
+  sessionId: string,
+  fromStatuses: ParticipantStatus[],
+  toStatus: ParticipantStatus
+): Promise<number> {
+  const updated = await db
+    .update(sessionParticipants)
+    .set({ status: toStatus })
+    .where(
+      and(
+        eq(sessionParticipants.session_id, sessionId),
+        inArray(sessionParticipants.status, fromStatuses)
+      )
+    )
+    .returning({ id: sessionParticipants.id });
+
+  return updated.length;
+}
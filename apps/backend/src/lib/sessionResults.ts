@@ -0,0 +1,627 @@
+import { and, eq, inArray, isNotNull, notInArray } from "drizzle-orm";
+import {
+  sessionModules,
+  sessionResults,
+  testAttempts,
+  testResults,
+  testSessions,
+  tests,
+  users,
+  type Database,
+  type SessionResult,
+} from "../db";
+import { SCORED_ATTEMPT_STATUSES } from "./sessionLifecycle";
+import {
+  calculateConsistencyScore,
+  calculateGrade,
+  calculateWeightedScore,
+  SESSION_RESULT_DEVELOPMENT_THRESHOLD,
+  SESSION_RESULT_MAX_HIGHLIGHTS,
+  SESSION_RESULT_STRENGTH_THRESHOLD,
+  getSessionResultReviewStatus,
+  type ReportSignOff,
+  type SessionResultData,
+  type SessionResultPosition,
+  type SessionResultReviewItem,
+} from "shared-types";
+
+interface SessionModuleInput {
+  test_id: string;
+  test_name: string;
+  is_required: boolean;
+  weight: number;
+}
+
+interface ModuleResultInput {
+  id: string;
+  user_id: string;
+  test_id: string;
+  scaled_score: string | null;
+  raw_score: string | null;
+  percentile: string | null;
+  traits: { name: string; score: number }[] | null;
+  detailed_analysis: unknown;
+  calculated_at: Date;
+  end_time: Date | null;
+}
+
+interface AggregationOptions {
+  // Only write once every required module has a scored result
+  require_complete?: boolean;
+}
+
+/**
+ * Build or refresh one session_results row per participant from the results
+ * of their scored attempts in this session, and link those test results
+ * to it. Results a psychologist has finalized are locked and left untouched.
+ * Returns the rows written
+ */
+export async function aggregateSessionResults(
+  db: Database,
+  sessionId: string,
+  options: AggregationOptions = {}
+): Promise<SessionResult[]> {
+  return writeSessionResults(db, sessionId, null, options);
+}
+
+/**
+ * Same as aggregateSessionResults for a single participant. Returns null when
+ * nothing was written, e.g. required modules are still open
+ */
+export async function aggregateParticipantSessionResult(
+  db: Database,
+  sessionId: string,
+  userId: string,
+  options: AggregationOptions = {}
+): Promise<SessionResult | null> {
+  const [written] = await writeSessionResults(db, sessionId, userId, options);
+  return written || null;
+}
+
+/**
+ * Called after a test result of a session attempt is created or updated.
+ * Aggregates only once the participant has finished every required module
+ */
+export async function refreshSessionResultAfterTest(
+  db: Database,
+  sessionId: string,
+  userId: string
+): Promise<SessionResult | null> {
+  return aggregateParticipantSessionResult(db, sessionId, userId, {
+    require_complete: true,
+  });
+}
+
+async function writeSessionResults(
+  db: Database,
+  sessionId: string,
+  userId: string | null,
+  options: AggregationOptions
+): Promise<SessionResult[]> {
+  const now = new Date();
+
+  const [session] = await db
+    .select({ target_position: testSessions.target_position })
+    .from(testSessions)
+    .where(eq(testSessions.id, sessionId))
+    .limit(1);
+  if (!session) return [];
+
+  const modules: SessionModuleInput[] = (
+    await db
+      .select({
+        test_id: sessionModules.test_id,
+        test_name: tests.name,
+        is_required: sessionModules.is_required,
+        weight: sessionModules.weight,
+      })
+      .from(sessionModules)
+      .innerJoin(tests, eq(sessionModules.test_id, tests.id))
+      .where(eq(sessionModules.session_id, sessionId))
+  ).map((module) => ({
+    test_id: module.test_id,
+    test_name: module.test_name,
+    is_required: module.is_required !== false,
+    weight: parseFloat(module.weight ?? "1"),
+  }));
+
+  const resultRows: ModuleResultInput[] = await db
+    .select({
+      id: testResults.id,
+      user_id: testResults.user_id,
+      test_id: testResults.test_id,
+      scaled_score: testResults.scaled_score,
+      raw_score: testResults.raw_score,
+      percentile: testResults.percentile,
+      traits: testResults.traits,
+      detailed_analysis: testResults.detailed_analysis,
+      calculated_at: testResults.calculated_at,
+      end_time: testAttempts.actual_end_time,
+    })
+    .from(testResults)
+    .innerJoin(testAttempts, eq(testResults.attempt_id, testAttempts.id))
+    .where(
+      and(
+        eq(testAttempts.session_test_id, sessionId),
+        inArray(testAttempts.status, [...SCORED_ATTEMPT_STATUSES]),
+        ...(userId ? [eq(testResults.user_id, userId)] : [])
+      )
+    );
+
+  // Latest result per participant and module, retakes replace earlier ones
+  const moduleTestIds = new Set(modules.map((module) => module.test_id));
+  const latestByUser = new Map<string, Map<string, ModuleResultInput>>();
+  for (const row of resultRows) {
+    if (!moduleTestIds.has(row.test_id)) continue;
+    const userResults = latestByUser.get(row.user_id) || new Map();
+    const existing = userResults.get(row.test_id);
+    if (!existing || existing.calculated_at < row.calculated_at) {
+      userResults.set(row.test_id, row);
+    }
+    latestByUser.set(row.user_id, userResults);
+  }
+
+  const finalized = await db
+    .select({ user_id: sessionResults.user_id })
+    .from(sessionResults)
+    .where(
+      and(
+        eq(sessionResults.session_id, sessionId),
+        eq(sessionResults.is_final, true),
+        ...(userId ? [eq(sessionResults.user_id, userId)] : [])
+      )
+    );
+  const lockedUserIds = new Set(finalized.map((row) => row.user_id));
+
+  // Text a reviewer has edited is theirs, a refresh only updates the scores
+  const reviewed = await db
+    .select({ user_id: sessionResults.user_id })
+    .from(sessionResults)
+    .where(
+      and(
+        eq(sessionResults.session_id, sessionId),
+        isNotNull(sessionResults.reviewed_at),
+        ...(userId ? [eq(sessionResults.user_id, userId)] : [])
+      )
+    );
+  const reviewedUserIds = new Set(reviewed.map((row) => row.user_id));
+
+  const written: SessionResult[] = [];
+  for (const [participantId, userResults] of latestByUser) {
+    if (lockedUserIds.has(participantId)) continue;
+
+    const missingRequired = modules.filter(
+      (module) => module.is_required && !userResults.has(module.test_id)
+    );
+    if (options.require_complete && missingRequired.length > 0) continue;
+
+    const values = {
+      ...buildSessionResultValues(
+        modules,
+        userResults,
+        session.target_position
+      ),
+      updated_at: now,
+    };
+
+    const { strengths, ...scoreValues } = values;
+
+    const [row] = await db
+      .insert(sessionResults)
+      .values({ session_id: sessionId, user_id: participantId, ...values })
+      .onConflictDoUpdate({
+        target: [sessionResults.session_id, sessionResults.user_id],
+        set: reviewedUserIds.has(participantId)
+          ? scoreValues
+          : { ...scoreValues, strengths },
+      })
+      .returning();
+
+    // Link the results that were counted and release ones replaced by a retake
+    const linkedIds = Array.from(userResults.values()).map(
+      (result) => result.id
+    );
+    await db
+      .update(testResults)
+      .set({ session_result_id: row.id, updated_at: now })
+      .where(inArray(testResults.id, linkedIds));
+    await db
+      .update(testResults)
+      .set({ session_result_id: null, updated_at: now })
+      .where(
+        and(
+          eq(testResults.session_result_id, row.id),
+          notInArray(testResults.id, linkedIds)
+        )
+      );
+
+    written.push(row);
+  }
+
+  return written;
+}
+
+function buildSessionResultValues(
+  modules: SessionModuleInput[],
+  userResults: Map<string, ModuleResultInput>,
+  targetPosition: string | null
+) {
+  const scored = modules
+    .map((module) => {
+      const result = userResults.get(module.test_id);
+      if (!result) return null;
+      const score = parseFloat(result.scaled_score ?? result.raw_score ?? "");
+      if (isNaN(score)) return null;
+      const percentile = parseFloat(result.percentile ?? "");
+      return {
+        module,
+        result,
+        score,
+        percentile: isNaN(percentile) ? null : percentile,
+      };
+    })
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+
+  const scores = scored.map((entry) => entry.score);
+  const totalScore =
+    scores.length > 0
+      ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+      : null;
+  const weightedScore = calculateWeightedScore(
+    scored.map((entry) => ({ score: entry.score, weight: entry.module.weight }))
+  );
+  const weightedPercentile = calculateWeightedScore(
+    scored
+      .filter((entry) => entry.percentile !== null)
+      .map((entry) => ({
+        score: entry.percentile as number,
+        weight: entry.module.weight,
+      }))
+  );
+
+  const requiredModules = modules.filter((module) => module.is_required);
+  const completedRequired = requiredModules.filter((module) =>
+    userResults.has(module.test_id)
+  ).length;
+  const completionRate =
+    requiredModules.length > 0
+      ? (completedRequired / requiredModules.length) * 100
+      : 100;
+
+  const timeEfficiencies = Array.from(userResults.values())
+    .map(
+      (result) =>
+        (result.detailed_analysis as { time_efficiency?: unknown } | null)
+          ?.time_efficiency
+    )
+    .filter((value): value is number => typeof value === "number");
+  const timeEfficiency =
+    timeEfficiencies.length > 0
+      ? timeEfficiencies.reduce((sum, value) => sum + value, 0) /
+        timeEfficiencies.length
+      : null;
+  const consistencyScore = calculateConsistencyScore(scores);
+
+  const traits = Array.from(userResults.values())
+    .flatMap((result) => result.traits || [])
+    .sort((a, b) => b.score - a.score);
+
+  const strengths = uniqueHighlights([
+    ...scored
+      .filter((entry) => entry.score >= SESSION_RESULT_STRENGTH_THRESHOLD)
+      .sort((a, b) => b.score - a.score)
+      .map((entry) => entry.module.test_name),
+    ...traits
+      .filter((trait) => trait.score >= SESSION_RESULT_STRENGTH_THRESHOLD)
+      .map((trait) => trait.name),
+  ]);
+  const areasForDevelopment = uniqueHighlights([
+    ...scored
+      .filter((entry) => entry.score < SESSION_RESULT_DEVELOPMENT_THRESHOLD)
+      .sort((a, b) => a.score - b.score)
+      .map((entry) => entry.module.test_name),
+    ...traits
+      .filter((trait) => trait.score < SESSION_RESULT_DEVELOPMENT_THRESHOLD)
+      .reverse()
+      .map((trait) => trait.name),
+  ]);
+
+  const recommendedPositions: SessionResultPosition[] =
+    targetPosition && weightedScore !== null
+      ? [
+          {
+            position: targetPosition,
+            compatibility_score: Math.round(weightedScore),
+            confidence:
+              completionRate >= 100 && (consistencyScore ?? 100) >= 70
+                ? "high"
+                : completionRate >= 50
+                  ? "medium"
+                  : "low",
+            reasons: [
+              ...strengths.map((strength) => `Strong result in ${strength}`),
+              ...areasForDevelopment.map(
+                (area) => `Needs development in ${area}`
+              ),
+            ],
+          },
+        ]
+      : [];
+
+  const completedAt = Array.from(userResults.values()).reduce<Date | null>(
+    (latest, result) =>
+      result.end_time && (!latest || result.end_time > latest)
+        ? result.end_time
+        : latest,
+    null
+  );
+
+  return {
+    total_score: totalScore !== null ? totalScore.toFixed(2) : null,
+    weighted_score: weightedScore !== null ? weightedScore.toFixed(2) : null,
+    overall_percentile:
+      weightedPercentile !== null ? weightedPercentile.toFixed(2) : null,
+    overall_grade:
+      weightedScore !== null ? calculateGrade(weightedScore) : null,
+    recommended_positions: recommendedPositions,
+    primary_traits: uniqueHighlights(traits.map((trait) => trait.name)),
+    strengths,
+    areas_for_development: areasForDevelopment,
+    completion_rate: completionRate.toFixed(2),
+    time_efficiency: timeEfficiency !== null ? timeEfficiency.toFixed(2) : null,
+    consistency_score:
+      consistencyScore !== null ? consistencyScore.toFixed(2) : null,
+    completed_at: completedAt,
+  };
+}
+
+function uniqueHighlights(items: string[]): string[] {
+  return Array.from(new Set(items)).slice(0, SESSION_RESULT_MAX_HIGHLIGHTS);
+}
+
+// Columns for review item queries, joined on users and test_sessions
+export const SESSION_RESULT_REVIEW_COLUMNS = {
+  result: sessionResults,
+  participant: {
+    id: users.id,
+    name: users.name,
+    email: users.email,
+    nik: users.nik,
+  },
+  session: {
+    id: testSessions.id,
+    session_name: testSessions.session_name,
+    session_code: testSessions.session_code,
+    target_position: testSessions.target_position,
+  },
+};
+
+type ReviewItemRow = {
+  result: SessionResult;
+  participant: { id: string; name: string; email: string; nik: string | null };
+  session: SessionResultReviewItem["session"];
+};
+
+/**
+ * API shape of a session_results row with the ids of its linked test results
+ */
+export async function toSessionResultData(
+  db: Database,
+  row: SessionResult
+): Promise<SessionResultData> {
+  const [linked, reviewers] = await Promise.all([
+    loadLinkedTestResults(db, [row.id]),
+    loadReviewers(db, [row]),
+  ]);
+
+  return formatSessionResult(row, linked, reviewers);
+}
+
+/**
+ * Session results with their participant and session, as shown to reviewers
+ */
+export async function toSessionResultReviewItems(
+  db: Database,
+  rows: ReviewItemRow[]
+): Promise<SessionResultReviewItem[]> {
+  const results = rows.map((row) => row.result);
+  const [linked, reviewers] = await Promise.all([
+    loadLinkedTestResults(
+      db,
+      results.map((result) => result.id)
+    ),
+    loadReviewers(db, results),
+  ]);
+
+  return rows.map((row) => ({
+    ...formatSessionResult(row.result, linked, reviewers),
+    participant: { ...row.participant, nik: row.participant.nik || "" },
+    session: row.session,
+  }));
+}
+
+/**
+ * Single review item, or null when the session result does not exist
+ */
+export async function getSessionResultReviewItem(
+  db: Database,
+  sessionResultId: string
+): Promise<SessionResultReviewItem | null> {
+  const rows = await db
+    .select(SESSION_RESULT_REVIEW_COLUMNS)
+    .from(sessionResults)
+    .innerJoin(users, eq(sessionResults.user_id, users.id))
+    .innerJoin(testSessions, eq(sessionResults.session_id, testSessions.id))
+    .where(eq(sessionResults.id, sessionResultId))
+    .limit(1);
+
+  if (rows.length === 0) return null;
+
+  const [item] = await toSessionResultReviewItems(db, rows);
+  return item;
+}
+
+async function loadLinkedTestResults(
+  db: Database,
+  sessionResultIds: string[]
+): Promise<Map<string, string[]>> {
+  const linked = new Map<string, string[]>();
+  if (sessionResultIds.length === 0) return linked;
+
+  const rows = await db
+    .select({
+      id: testResults.id,
+      session_result_id: testResults.session_result_id,
+    })
+    .from(testResults)
+    .where(inArray(testResults.session_result_id, sessionResultIds));
+
+  for (const row of rows) {
+    const ids = linked.get(row.session_result_id as string) || [];
+    ids.push(row.id);
+    linked.set(row.session_result_id as string, ids);
+  }
+  return linked;
+}
+
+async function loadReviewers(
+  db: Database,
+  results: SessionResult[]
+): Promise<Map<string, SessionResultData["reviewed_by"]>> {
+  const reviewerIds = Array.from(
+    new Set(
+      results
+        .map((result) => result.reviewed_by)
+        .filter((id): id is string => id !== null)
+    )
+  );
+  if (reviewerIds.length === 0) return new Map();
+
+  const reviewers = await db
+    .select({ id: users.id, name: users.name, email: users.email })
+    .from(users)
+    .where(inArray(users.id, reviewerIds));
+
+  return new Map(reviewers.map((reviewer) => [reviewer.id, reviewer]));
+}
+
+function formatSessionResult(
+  row: SessionResult,
+  linked: Map<string, string[]>,
+  reviewers: Map<string, SessionResultData["reviewed_by"]>
+): SessionResultData {
+  const toNumber = (value: string | null) =>
+    value !== null ? parseFloat(value) : null;
+
+  return {
+    id: row.id,
+    session_id: row.session_id,
+    user_id: row.user_id,
+    total_score: toNumber(row.total_score),
+    weighted_score: toNumber(row.weighted_score),
+    overall_percentile: toNumber(row.overall_percentile),
+    overall_grade: row.overall_grade,
+    recommended_positions: (row.recommended_positions ||
+      []) as SessionResultPosition[],
+    primary_traits: row.primary_traits || [],
+    strengths: row.strengths || [],
+    areas_for_development: row.areas_for_development || [],
+    completion_rate: toNumber(row.completion_rate),
+    time_efficiency: toNumber(row.time_efficiency),
+    consistency_score: toNumber(row.consistency_score),
+    personality_summary: row.personality_summary,
+    summary_description: row.summary_description,
+    is_final: row.is_final ?? false,
+    review_status: getSessionResultReviewStatus(row),
+    reviewed_by: row.reviewed_by
+      ? reviewers.get(row.reviewed_by) || null
+      : null,
+    reviewed_at: row.reviewed_at ? row.reviewed_at.toISOString() : null,
+    completed_at: row.completed_at ? row.completed_at.toISOString() : null,
+    test_result_ids: linked.get(row.id) || [],
+    updated_at: row.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Sign-off state of the session results behind a report. A report is final
+ * only when every result it covers has been finalized by a reviewer
+ */
+export async function buildReportSignOff(
+  db: Database,
+  filter: { session_ids: string[]; user_id?: string }
+): Promise<ReportSignOff> {
+  if (filter.session_ids.length === 0) {
+    return {
+      status: "draft",
+      finalized_results: 0,
+      total_results: 0,
+      signatures: [],
+    };
+  }
+
+  const rows = await db
+    .select({
+      session_id: sessionResults.session_id,
+      session_name: testSessions.session_name,
+      user_id: sessionResults.user_id,
+      participant_name: users.name,
+      is_final: sessionResults.is_final,
+      reviewed_by: sessionResults.reviewed_by,
+      reviewed_at: sessionResults.reviewed_at,
+    })
+    .from(sessionResults)
+    .innerJoin(testSessions, eq(sessionResults.session_id, testSessions.id))
+    .innerJoin(users, eq(sessionResults.user_id, users.id))
+    .where(
+      and(
+        inArray(sessionResults.session_id, filter.session_ids),
+        ...(filter.user_id ? [eq(sessionResults.user_id, filter.user_id)] : [])
+      )
+    );
+
+  const reviewerIds = Array.from(
+    new Set(
+      rows
+        .filter((row) => row.is_final && row.reviewed_by)
+        .map((row) => row.reviewed_by as string)
+    )
+  );
+  const reviewers =
+    reviewerIds.length > 0
+      ? await db
+          .select({ id: users.id, name: users.name })
+          .from(users)
+          .where(inArray(users.id, reviewerIds))
+      : [];
+  const reviewerNames = new Map(
+    reviewers.map((reviewer) => [reviewer.id, reviewer.name])
+  );
+
+  const signatures = rows
+    .filter((row) => row.is_final && row.reviewed_by && row.reviewed_at)
+    .map((row) => ({
+      session_id: row.session_id,
+      session_name: row.session_name,
+      user_id: row.user_id,
+      participant_name: row.participant_name,
+      signed_by_id: row.reviewed_by as string,
+      signed_by_name: reviewerNames.get(row.reviewed_by as string) || "-",
+      signed_at: (row.reviewed_at as Date).toISOString(),
+    }));
+
+  // A participant report also needs a result for every session it covers
+  const expectedResults = filter.user_id
+    ? Math.max(rows.length, filter.session_ids.length)
+    : rows.length;
+
+  return {
+    status:
+      expectedResults > 0 && signatures.length === expectedResults
+        ? "final"
+        : "draft",
+    finalized_results: signatures.length,
+    total_results: expectedResults,
+    signatures,
+  };
+}
@@ -0,0 +1,11 @@
+export type {
+  ObjectStorage,
+  ObjectStorageFactory,
+  StoredObject,
+} from "./storage.types";
+export {
+  createLocalObjectStorage,
+  createR2ObjectStorage,
+  getObjectStorage,
+  registerObjectStorage,
+} from "./storage.providers";
@@ -0,0 +1,127 @@
+import type { CloudflareBindings, Env } from "../env";
+import type { ObjectStorage, ObjectStorageFactory } from "./storage.types";
+
+const DEFAULT_LOCAL_STORAGE_DIR = ".storage";
+
+/**
+ * Cloudflare R2 through the STORAGE_BUCKET binding
+ */
+export const createR2ObjectStorage: ObjectStorageFactory = (bindings) => {
+  const bucket = bindings.STORAGE_BUCKET;
+  if (!bucket) {
+    throw new Error("The STORAGE_BUCKET R2 binding is not configured");
+  }
+
+  return {
+    name: "r2",
+    async put(key, body, contentType) {
+      await bucket.put(key, body, {
+        httpMetadata: { contentType },
+      });
+    },
+    async get(key) {
+      const object = await bucket.get(key);
+      if (!object) return null;
+      const body = new Uint8Array(await object.arrayBuffer());
+      return {
+        body,
+        content_type:
+          object.httpMetadata?.contentType || "application/octet-stream",
+        size: object.size,
+      };
+    },
+    async delete(key) {
+      await bucket.delete(key);
+    },
+  };
+};
+
+/**
+ * Files under LOCAL_STORAGE_DIR, standing in for R2 during development.
+ * Needs a runtime with filesystem access (Node, or workerd with its fs
+ * module enabled); the content type is kept in a sidecar file
+ */
+export const createLocalObjectStorage: ObjectStorageFactory = (
+  _bindings,
+  env
+) => {
+  const root = env.LOCAL_STORAGE_DIR || DEFAULT_LOCAL_STORAGE_DIR;
+
+  const resolvePath = (key: string) => {
+    if (key.split("/").some((part) => part === ".." || part === "")) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return `${root}/${key}`;
+  };
+
+  return {
+    name: "local",
+    async put(key, body, contentType) {
+      const fs = await import("node:fs/promises");
+      const path = resolvePath(key);
+      await fs.mkdir(path.substring(0, path.lastIndexOf("/")), {
+        recursive: true,
+      });
+      await fs.writeFile(path, body);
+      await fs.writeFile(`${path}.meta`, contentType);
+    },
+    async get(key) {
+      const fs = await import("node:fs/promises");
+      const path = resolvePath(key);
+      try {
+        const body = new Uint8Array(await fs.readFile(path));
+        const contentType = await fs
+          .readFile(`${path}.meta`, "utf8")
+          .catch(() => "application/octet-stream");
+        return { body, content_type: contentType, size: body.byteLength };
+      } catch (error) {
+        if ((error as { code?: string }).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async delete(key) {
+      const fs = await import("node:fs/promises");
+      const path = resolvePath(key);
+      await fs.rm(path, { force: true });
+      await fs.rm(`${path}.meta`, { force: true });
+    },
+  };
+};
+
+// Registered storage backends, selected with the OBJECT_STORAGE variable
+const OBJECT_STORAGES: Record<string, ObjectStorageFactory> = {
+  r2: createR2ObjectStorage,
+  local: createLocalObjectStorage,
+};
+
+/**
+ * Make a storage backend available under a name, e.g. S3 or GCS
+ */
+export function registerObjectStorage(
+  name: string,
+  factory: ObjectStorageFactory
+): void {
+  OBJECT_STORAGES[name] = factory;
+}
+
+/**
+ * Storage configured for this environment. Without OBJECT_STORAGE the R2
+ * bucket is used when bound, the local stand-in otherwise. Local files do
+ * not survive a Worker deployment, so they are refused in production
+ */
+export function getObjectStorage(
+  bindings: CloudflareBindings,
+  env: Env
+): ObjectStorage {
+  const name = env.OBJECT_STORAGE || (bindings.STORAGE_BUCKET ? "r2" : "local");
+  const factory = OBJECT_STORAGES[name];
+
+  if (!factory) {
+    throw new Error(`Unknown object storage "${name}"`);
+  }
+  if (name === "local" && env.NODE_ENV === "production") {
+    throw new Error("Local object storage cannot be used in production");
+  }
+
+  return factory(bindings, env);
+}
@@ -0,0 +1,24 @@
+import type { CloudflareBindings, Env } from "../env";
+
+export interface StoredObject {
+  body: Uint8Array;
+  content_type: string;
+  size: number;
+}
+
+/**
+ * Blob store for generated files such as rendered drawings. Keys are paths
+ * like "drawings/<attempt>/<question>.png"; writing an existing key
+ * replaces the object
+ */
+export interface ObjectStorage {
+  name: string;
+  put(key: string, body: Uint8Array, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+}
+
+export type ObjectStorageFactory = (
+  bindings: CloudflareBindings,
+  env: Env
+) => ObjectStorage;
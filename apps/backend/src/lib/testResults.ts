@@ -0,0 +1,360 @@
+import { eq, and } from "drizzle-orm";
+import {
+  testResults,
+  userAnswers,
+  questions,
+  type Database,
+  type Test,
+  type TestAttempt,
+  type TestResult,
+  type User,
+} from "../db";
+import { scoreTestAnswers } from "./scoring";
+import { createNormResolver } from "./norms";
+import { refreshSessionResultAfterTest } from "./sessionResults";
+import { buildAdaptiveAnalysis } from "./adaptive";
+import { getAttemptTotalQuestions } from "./questionDelivery";
+import {
+  DEFAULT_NORM_SCALE,
+  type CalculateTestResultRequest,
+  type NormReferencedScore,
+  calculateGrade,
+  determinePassStatus,
+  requiresManualScoring,
+} from "shared-types";
+
+export interface ResultAttempt {
+  attempt: TestAttempt;
+  test: Test;
+  user: User;
+}
+
+export interface ScoredAnswerBreakdown {
+  trait: string;
+  raw_score: number;
+  scaled_score: number;
+  percentile: number;
+}
+
+/**
+ * Score a completed attempt and create or update its test_results row,
+ * then roll the session result up. Shared by the calculate endpoint and
+ * the manual scoring workflow
+ */
+export async function calculateAttemptResult(
+  db: Database,
+  attempt: ResultAttempt,
+  existingResult: TestResult | null,
+  options: Partial<
+    NonNullable<CalculateTestResultRequest["calculation_options"]>
+  > = {}
+) {
+  // Get all answers for this attempt
+  const answersResult = await db
+    .select({
+      answer: userAnswers,
+      question: questions,
+    })
+    .from(userAnswers)
+    .leftJoin(questions, eq(userAnswers.question_id, questions.id))
+    .where(
+      and(
+        eq(userAnswers.attempt_id, attempt.attempt.id),
+        eq(userAnswers.user_id, attempt.user.id)
+      )
+    );
+
+  // Calculate basic scores
+  // Form and adaptive attempts are measured against the items they were given
+  const totalQuestions = getAttemptTotalQuestions(
+    attempt.attempt,
+    attempt.test
+  );
+  const answeredQuestions = attempt.attempt.questions_answered || 0;
+  const completionPercentage =
+    totalQuestions > 0 ? (answeredQuestions / totalQuestions) * 100 : 0;
+
+  // Calculate raw score (simple scoring for now)
+  let rawScore = 0;
+  let correctAnswers = 0;
+  const scoredAnswers: ScoredAnswerBreakdown[] = [];
+
+  for (const { answer, question } of answersResult) {
+    if (!question || (!answer.answer && !answer.answer_data)) continue;
+
+    // Simple scoring logic (can be extended based on test type)
+    let questionScore = 0;
+    if (answer.manually_scored_at) {
+      // Assessor grades carry the question's own point scale
+      questionScore = parseFloat(answer.score || "0");
+      if (answer.is_correct === true) correctAnswers++;
+    } else if (answer.is_correct === true) {
+      questionScore = 1;
+      correctAnswers++;
+    } else if (answer.score) {
+      questionScore = parseFloat(answer.score);
+    }
+
+    rawScore += questionScore;
+
+    // For trait-based tests, we would calculate trait scores here
+    // This is a simplified version
+    scoredAnswers.push({
+      trait: question.question_type || "general",
+      raw_score: questionScore,
+      scaled_score: questionScore * 10, // Simple scaling
+      percentile: Math.min(100, questionScore * 20), // Simple percentile
+    });
+  }
+
+  // Answers graded by assessors count once every required rating is in
+  const manualAnswers = answersResult.filter(
+    ({ answer, question }) =>
+      question &&
+      requiresManualScoring(question.question_type) &&
+      (answer.answer || answer.answer_data)
+  );
+  const manualScoring = {
+    items: manualAnswers.length,
+    scored: manualAnswers.filter(({ answer }) => answer.manually_scored_at)
+      .length,
+    pending: manualAnswers.filter(({ answer }) => !answer.manually_scored_at)
+      .length,
+  };
+
+  // Score traits with the scorer registered for the test category
+  const includeTraitScoring =
+    attempt.test.module_type === "personality"
+      ? options.include_personality_analysis !== false
+      : attempt.test.module_type === "intelligence"
+        ? options.include_intelligence_scoring !== false
+        : true;
+
+  const categoryScoring = includeTraitScoring
+    ? scoreTestAnswers(answersResult, {
+        category: attempt.test.category,
+        module_type: attempt.test.module_type,
+        total_questions: totalQuestions,
+      })
+    : null;
+
+  // Calculate scaled score, unless the category scorer defines its own
+  const scaledScore =
+    categoryScoring?.scaled_score ??
+    (totalQuestions > 0 ? (rawScore / totalQuestions) * 100 : 0);
+
+  // Calculate grade
+  const passingScore = attempt.test.passing_score
+    ? parseFloat(attempt.test.passing_score)
+    : 60;
+  const grade = calculateGrade(scaledScore, passingScore);
+  const isPassed = determinePassStatus(scaledScore, passingScore);
+
+  // Norm-referenced percentiles from the participant's matching norm group
+  const normTestId = attempt.test.id;
+  const normProfile = attempt.user;
+  const normResolver = await createNormResolver(db, [normTestId]);
+  const normReferenceDate =
+    attempt.attempt.end_time || attempt.attempt.start_time;
+  const overallNorm = normResolver.resolve(
+    normTestId,
+    DEFAULT_NORM_SCALE,
+    normProfile,
+    scaledScore,
+    normReferenceDate
+  );
+  // Without a norm group the scaled score stands in for the percentile
+  const percentile = overallNorm
+    ? overallNorm.percentile
+    : Math.min(100, scaledScore);
+
+  const traitNorms: Record<string, NormReferencedScore> = {};
+  const traits = categoryScoring?.traits.length
+    ? categoryScoring.traits.map((trait) => {
+        const traitNorm = normResolver.resolve(
+          normTestId,
+          trait.name,
+          normProfile,
+          trait.score,
+          normReferenceDate
+        );
+        if (!traitNorm) return trait;
+        traitNorms[trait.name] = traitNorm;
+        return { ...trait, percentile: traitNorm.percentile };
+      })
+    : null;
+  const calculationMethod = categoryScoring
+    ? `category_scoring:${categoryScoring.scorer}`
+    : "standard_scoring";
+
+  // Generate description and recommendations
+  let description = `Test completed with ${Math.round(completionPercentage)}% completion rate. `;
+  description += `Scored ${Math.round(scaledScore)} out of 100 (${grade}).`;
+  if (categoryScoring?.profile_code) {
+    description += ` Personality type: ${categoryScoring.profile_code}.`;
+  }
+
+  let recommendations = null;
+  if (options.include_recommendations) {
+    recommendations = generateRecommendations(
+      scaledScore,
+      grade,
+      isPassed,
+      attempt.test
+    );
+  }
+
+  // Prepare detailed analysis
+  const detailedAnalysis = {
+    calculation_method: calculationMethod,
+    total_questions: totalQuestions,
+    answered_questions: answeredQuestions,
+    correct_answers: correctAnswers,
+    accuracy_rate:
+      answeredQuestions > 0 ? (correctAnswers / answeredQuestions) * 100 : 0,
+    time_efficiency: attempt.attempt.time_spent
+      ? Math.max(
+          0,
+          100 -
+            (attempt.attempt.time_spent / (attempt.test.time_limit * 60)) * 100
+        )
+      : 0,
+    scoring_breakdown: scoredAnswers,
+    category_scoring: categoryScoring
+      ? {
+          scorer: categoryScoring.scorer,
+          profile_code: categoryScoring.profile_code,
+          dimension_scores: categoryScoring.dimension_scores,
+          items_scored: categoryScoring.items_scored,
+          items_skipped: categoryScoring.items_skipped,
+          ...(categoryScoring.analysis && {
+            analysis: categoryScoring.analysis,
+          }),
+        }
+      : null,
+    norm_reference: {
+      overall: overallNorm,
+      traits: traitNorms,
+    },
+    ...(manualScoring.items > 0 && { manual_scoring: manualScoring }),
+    ...(attempt.attempt.is_adaptive && {
+      adaptive: await buildAdaptiveAnalysis(db, attempt.attempt, attempt.test),
+    }),
+  };
+
+  const now = new Date();
+
+  // Create or update result
+  let result;
+  if (existingResult) {
+    // Update existing result
+    const [updatedResult] = await db
+      .update(testResults)
+      .set({
+        raw_score: rawScore.toString(),
+        scaled_score: scaledScore.toString(),
+        percentile: percentile.toString(),
+        grade,
+        traits,
+        trait_names: traits?.map((t) => t.name) || null,
+        description,
+        recommendations,
+        detailed_analysis: detailedAnalysis,
+        is_passed: isPassed,
+        completion_percentage: completionPercentage.toString(),
+        calculated_at: now,
+        updated_at: now,
+      })
+      .where(eq(testResults.id, existingResult.id))
+      .returning();
+
+    result = updatedResult;
+  } else {
+    // Create new result
+    const [newResult] = await db
+      .insert(testResults)
+      .values({
+        attempt_id: attempt.attempt.id,
+        user_id: attempt.user.id,
+        test_id: attempt.test.id,
+        session_result_id: null,
+        raw_score: rawScore.toString(),
+        scaled_score: scaledScore.toString(),
+        percentile: percentile.toString(),
+        grade,
+        traits,
+        trait_names: traits?.map((t) => t.name) || null,
+        description,
+        recommendations,
+        detailed_analysis: detailedAnalysis,
+        is_passed: isPassed,
+        completion_percentage: completionPercentage.toString(),
+        calculated_at: now,
+        created_at: now,
+        updated_at: now,
+      })
+      .returning();
+
+    result = newResult;
+  }
+
+  // Roll the session result up once the last required module is scored
+  if (attempt.attempt.session_test_id) {
+    try {
+      const sessionResult = await refreshSessionResultAfterTest(
+        db,
+        attempt.attempt.session_test_id,
+        attempt.user.id
+      );
+      if (sessionResult) {
+        result = { ...result, session_result_id: sessionResult.id };
+      }
+    } catch (error) {
+      console.error("Error aggregating session result:", error);
+    }
+  }
+
+  return {
+    result,
+    calculationMethod,
+    scoredAnswers,
+    answersProcessed: answersResult.length,
+  };
+}
+
+// Generate recommendations from the scaled score and module type
+function generateRecommendations(
+  score: number,
+  grade: string,
+  isPassed: boolean,
+  test: any
+): string {
+  let recommendations = "";
+
+  if (isPassed) {
+    if (score >= 90) {
+      recommendations =
+        "Excellent performance! Consider advanced roles and leadership positions.";
+    } else if (score >= 80) {
+      recommendations =
+        "Good performance. Suitable for target position with minor skill development.";
+    } else {
+      recommendations =
+        "Adequate performance. Recommend additional training in key areas.";
+    }
+  } else {
+    recommendations =
+      "Performance below passing threshold. Recommend retesting after skill development or consider alternative positions.";
+  }
+
+  // Add test-specific recommendations
+  if (test.module_type === "personality") {
+    recommendations +=
+      " Focus on personality development and self-awareness training.";
+  } else if (test.module_type === "intelligence") {
+    recommendations +=
+      " Consider cognitive training and problem-solving skill enhancement.";
+  }
+
+  return recommendations;
+}
@@ -0,0 +1,927 @@
+import type { Context } from "hono";
+import { eq, inArray, or } from "drizzle-orm";
+import {
+  userImportProfiles,
+  users,
+  type Database,
+  type NewUser,
+  type UserImportProfile,
+} from "../db";
+import { recordAuditLogs } from "./audit";
+import {
+  normalizeSyntegraDate,
+  normalizeSyntegraEducation,
+  normalizeSyntegraGender,
+  normalizeSyntegraPhoneNumber,
+  normalizeSyntegraReligion,
+  parseCSVLine,
+  parseSyntegraCSVSingleLine,
+} from "./csv";
+import { resolveUserRegion } from "./regions";
+import { readXlsxWorkbook, type XlsxCell } from "./xlsx";
+import {
+  BULK_CONSTANTS,
+  BULK_ERROR_CODES,
+  BulkUserDataSchema,
+  IMPORT_FIELDS,
+  IMPORT_HEADER_SCAN_ROWS,
+  getImportFileFormat,
+  getMissingImportFields,
+  getNikMismatches,
+  getNikProfileDefaults,
+  parseNik,
+  suggestColumnMapping,
+  type BulkConflictPolicy,
+  type BulkFieldChange,
+  type BulkImportMode,
+  type BulkUserData,
+  type CreateUserDB,
+  type ImportColumnMapping,
+  type ImportColumnSuggestion,
+  type ImportField,
+  type ImportFileFormat,
+  type ImportProfileData,
+  type ImportRowError,
+  type ImportRowResult,
+  type ImportRowStatus,
+  type NikMismatch,
+  type NikProfileField,
+  type UserImportRequest,
+} from "shared-types";
+
+// ==================== TYPES ====================
+
+export interface ImportTable {
+  format: ImportFileFormat;
+  sheet_name: string | null;
+  sheet_names: string[];
+  rows: { row_number: number; cells: string[] }[]; // non-empty rows only
+}
+
+export interface ImportRecord {
+  row_number: number;
+  values: Record<string, string>; // header -> cell text
+}
+
+// One row through the pipeline: mapped, validated, checked, then created
+// or, in upsert mode, merged into the registered user
+export interface ImportEntry {
+  row_number: number;
+  status: ImportRowStatus;
+  values: Partial<BulkUserData>;
+  data?: BulkUserData; // set once the row passes validation
+  errors: ImportRowError[];
+  changes?: BulkFieldChange[]; // upsert diff against the registered user
+  warnings?: NikMismatch[]; // values the NIK disagrees with
+  prefilled?: NikProfileField[]; // empty cells filled from the NIK
+  user_id?: string;
+}
+
+export interface ImportMatchOptions {
+  mode: BulkImportMode;
+  conflict_policy: BulkConflictPolicy;
+}
+
+export type ReadImportTableResult =
+  | { success: true; table: ImportTable }
+  | { success: false; error: string; code: string };
+
+// The file part of an import request, shared by user and session imports
+export type ImportFileRequest = Pick<
+  UserImportRequest,
+  | "file_name"
+  | "file_content"
+  | "format"
+  | "profile_id"
+  | "column_mapping"
+  | "sheet_name"
+  | "header_row"
+>;
+
+export type PrepareImportResult =
+  | {
+      success: true;
+      file_info: {
+        file_name: string;
+        format: ImportFileFormat;
+        sheet_name: string | null;
+        sheet_names: string[];
+        header_row: number;
+        data_rows: number;
+        headers: string[];
+      };
+      profile_id: string | null;
+      column_mapping: ImportColumnMapping;
+      suggestions: ImportColumnSuggestion[];
+      missing_required_fields: ImportField[];
+      entries: ImportEntry[];
+    }
+  | {
+      success: false;
+      status: 400 | 404;
+      message: string;
+      error: ImportRowError;
+    };
+
+export function formatImportProfile(
+  profile: UserImportProfile
+): ImportProfileData {
+  return {
+    id: profile.id,
+    name: profile.name,
+    description: profile.description,
+    column_mapping: profile.column_mapping,
+    sheet_name: profile.sheet_name,
+    header_row: profile.header_row,
+    created_at: profile.created_at,
+    updated_at: profile.updated_at,
+    created_by: profile.created_by,
+  };
+}
+
+// ==================== READING ====================
+
+const CSV_DELIMITERS = [",", ";", "\t"];
+
+// Spreadsheets saved with an Indonesian locale use ";" between columns
+function detectCSVDelimiter(lines: string[]): string {
+  const sample = lines.slice(0, IMPORT_HEADER_SCAN_ROWS).join("\n");
+  let best = ",";
+  let bestCount = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const count = sample.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function formatCell(cell: XlsxCell): string {
+  if (cell === null || cell === undefined) return "";
+  if (cell instanceof Date) return cell.toISOString().substring(0, 10);
+  return String(cell).trim();
+}
+
+function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/^data:[^,]*,/, "").replace(/\s/g, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Rows of an uploaded CSV (text) or XLSX (base64) file as cell text. Empty
+ * rows are dropped but row numbers stay those of the file, so errors can be
+ * traced back to the spreadsheet.
+ */
+export function readImportTable(
+  content: string,
+  format: ImportFileFormat,
+  sheetName?: string | null
+): ReadImportTableResult {
+  if (format === "csv") {
+    let lines = content.replace(/^\uFEFF/, "").split(/\r?\n/);
+    const nonEmpty = lines.filter((line) => line.trim());
+
+    // Exports of the Syntegra HR system arrive as one long line
+    if (nonEmpty.length === 1 && nonEmpty[0].length > 500) {
+      lines = parseSyntegraCSVSingleLine(nonEmpty[0]);
+    }
+
+    const delimiter = detectCSVDelimiter(lines.filter((line) => line.trim()));
+    const rows = lines
+      .map((line, index) => ({
+        row_number: index + 1,
+        cells: parseCSVLine(line, delimiter, false),
+      }))
+      .filter((row) => row.cells.some((cell) => cell !== ""));
+
+    return {
+      success: true,
+      table: { format, sheet_name: null, sheet_names: [], rows },
+    };
+  }
+
+  let sheets;
+  try {
+    sheets = readXlsxWorkbook(decodeBase64(content));
+  } catch (error) {
+    return {
+      success: false,
+      error: `XLSX parsing failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      code: BULK_ERROR_CODES.XLSX_PARSE_ERROR,
+    };
+  }
+
+  const sheetNames = sheets.map((sheet) => sheet.name);
+  const sheet = sheetName
+    ? sheets.find(
+        (candidate) => candidate.name.toLowerCase() === sheetName.toLowerCase()
+      )
+    : sheets[0];
+
+  if (!sheet) {
+    return {
+      success: false,
+      error: sheetName
+        ? `Sheet "${sheetName}" not found. Available sheets: ${sheetNames.join(", ")}`
+        : "The workbook has no sheets",
+      code: BULK_ERROR_CODES.SHEET_NOT_FOUND,
+    };
+  }
+
+  const rows = sheet.rows
+    .map((row, index) => ({
+      row_number: index + 1,
+      cells: row.map(formatCell),
+    }))
+    .filter((row) => row.cells.some((cell) => cell !== ""));
+
+  return {
+    success: true,
+    table: { format, sheet_name: sheet.name, sheet_names: sheetNames, rows },
+  };
+}
+
+/**
+ * Split a table into headers and records. Without a fixed header row the
+ * first rows are scanned for the one whose headers match the most import
+ * fields, which skips title rows above the header.
+ */
+export function getImportRecords(
+  table: ImportTable,
+  headerRow?: number | null
+): { header_row: number; headers: string[]; records: ImportRecord[] } {
+  let headerIndex = 0;
+
+  if (headerRow) {
+    headerIndex = table.rows.findIndex((row) => row.row_number === headerRow);
+  } else {
+    let bestMatches = 0;
+    table.rows.slice(0, IMPORT_HEADER_SCAN_ROWS).forEach((row, index) => {
+      const matches = Object.keys(
+        suggestColumnMapping(row.cells).mapping
+      ).length;
+      if (matches > bestMatches) {
+        bestMatches = matches;
+        headerIndex = index;
+      }
+    });
+  }
+
+  const header = table.rows[headerIndex];
+  if (!header) {
+    return { header_row: headerRow || 1, headers: [], records: [] };
+  }
+
+  // Repeated headers get a suffix so every column stays addressable
+  const seen = new Map<string, number>();
+  const headers = header.cells.map((cell) => {
+    if (!cell) return "";
+    const count = (seen.get(cell) || 0) + 1;
+    seen.set(cell, count);
+    return count > 1 ? `${cell} (${count})` : cell;
+  });
+
+  const records = table.rows.slice(headerIndex + 1).map((row) => {
+    const values: Record<string, string> = {};
+    headers.forEach((name, index) => {
+      if (name) values[name] = row.cells[index] || "";
+    });
+    return { row_number: row.row_number, values };
+  });
+
+  return {
+    header_row: header.row_number,
+    headers: headers.filter(Boolean),
+    records,
+  };
+}
+
+// ==================== MAPPING ====================
+
+/**
+ * Map one spreadsheet row to BulkUserData through the column mapping and
+ * normalize Indonesian spellings (L/P, DD/MM/YYYY, 08xx phone numbers).
+ * Gender, birth date and province are checked against the NIK, and filled
+ * from it when their cells are empty.
+ */
+export function mapImportRecord(
+  record: ImportRecord,
+  mapping: ImportColumnMapping,
+  defaultRole: BulkUserData["role"] = "participant"
+): ImportEntry {
+  const read = (field: keyof ImportColumnMapping) => {
+    const header = mapping[field];
+    return header ? (record.values[header] || "").trim() : "";
+  };
+
+  const errors: ImportRowError[] = [];
+  const values: Record<string, any> = {
+    row_number: record.row_number,
+    role: defaultRole,
+    // Excel prefixes long numbers with ' to keep them as text
+    nik: read("nik").replace(/^'/, "").replace(/\s/g, ""),
+    name: read("name"),
+    email: read("email"),
+  };
+
+  const gender = read("gender");
+  if (gender) values.gender = normalizeSyntegraGender(gender);
+
+  const phone = normalizeSyntegraPhoneNumber(read("phone").replace(/^'/, ""));
+  if (phone) values.phone = phone;
+
+  const birthDate = read("birth_date");
+  if (birthDate) {
+    values.birth_date = normalizeSyntegraDate(birthDate);
+    if (!values.birth_date) {
+      errors.push({
+        field: "birth_date",
+        message: `Unrecognized date "${birthDate}", use DD/MM/YYYY`,
+        code: BULK_ERROR_CODES.INVALID_DATE,
+      });
+    }
+  }
+
+  const religion = read("religion");
+  if (religion) values.religion = normalizeSyntegraReligion(religion);
+
+  const education = read("education");
+  if (education) values.education = normalizeSyntegraEducation(education);
+
+  for (const field of [
+    "birth_place",
+    "address",
+    "province",
+    "regency",
+    "district",
+    "village",
+    "postal_code",
+  ] as const) {
+    const value = read(field);
+    if (value) values[field] = value;
+  }
+
+  const nikCheck: Pick<ImportEntry, "warnings" | "prefilled"> = {};
+  const nik = parseNik(values.nik);
+  if (nik.valid) {
+    const mismatches = getNikMismatches(nik.info, values);
+    if (mismatches.length > 0) nikCheck.warnings = mismatches;
+
+    // An unrecognized birth date cell is an error, not an empty cell
+    const defaults = getNikProfileDefaults(nik.info, values);
+    if (birthDate) delete defaults.birth_date;
+    if (defaults.birth_date) {
+      defaults.birth_date = new Date(defaults.birth_date).toISOString();
+    }
+
+    const prefilled = Object.keys(defaults) as NikProfileField[];
+    if (prefilled.length > 0) {
+      Object.assign(values, defaults);
+      nikCheck.prefilled = prefilled;
+    }
+  }
+
+  // Address cells are stored in their canonical spelling ("JABAR" -> "Jawa Barat")
+  const region = resolveUserRegion({
+    province: values.province,
+    regency: values.regency,
+    postal_code: values.postal_code,
+  });
+  Object.assign(values, region.values);
+  errors.push(...region.errors);
+
+  const result = BulkUserDataSchema.safeParse(values);
+  if (result.success && errors.length === 0) {
+    return {
+      row_number: record.row_number,
+      status: "valid",
+      values: result.data,
+      data: result.data,
+      errors,
+      ...nikCheck,
+    };
+  }
+
+  if (!result.success) {
+    errors.push(
+      ...result.error.errors.map((error) => ({
+        field: error.path.join("."),
+        message: error.message,
+        code: BULK_ERROR_CODES.VALIDATION_FAILED,
+      }))
+    );
+  }
+
+  return {
+    row_number: record.row_number,
+    status: "invalid",
+    values,
+    errors,
+    ...nikCheck,
+  };
+}
+
+// ==================== PREPARING ====================
+
+/**
+ * Read an uploaded file up to mapped and validated entries: format and size
+ * checks, the import profile, header detection and the column mapping. An
+ * explicit mapping (request or profile) is used as given, minus headers the
+ * file lacks; without one the suggested mapping is used.
+ */
+export async function prepareImport(
+  db: Database,
+  data: ImportFileRequest,
+  defaultRole: BulkUserData["role"] = "participant"
+): Promise<PrepareImportResult> {
+  const format = data.format || getImportFileFormat(data.file_name);
+  if (!format) {
+    return {
+      success: false,
+      status: 400,
+      message: "Unsupported file format",
+      error: {
+        field: "file_name",
+        message: `Supported formats: ${BULK_CONSTANTS.SUPPORTED_IMPORT_FORMATS.join(", ")}`,
+        code: BULK_ERROR_CODES.INVALID_FILE_FORMAT,
+      },
+    };
+  }
+
+  // XLSX arrives base64 encoded, a third larger than the file
+  const fileSize =
+    format === "xlsx"
+      ? Math.floor((data.file_content.length * 3) / 4)
+      : data.file_content.length;
+  if (fileSize > BULK_CONSTANTS.MAX_FILE_SIZE) {
+    return {
+      success: false,
+      status: 400,
+      message: "File too large",
+      error: {
+        field: "file_content",
+        message: `Maximum file size is ${BULK_CONSTANTS.MAX_FILE_SIZE / (1024 * 1024)}MB`,
+        code: BULK_ERROR_CODES.FILE_TOO_LARGE,
+      },
+    };
+  }
+
+  let profile: UserImportProfile | undefined;
+  if (data.profile_id) {
+    [profile] = await db
+      .select()
+      .from(userImportProfiles)
+      .where(eq(userImportProfiles.id, data.profile_id))
+      .limit(1);
+
+    if (!profile) {
+      return {
+        success: false,
+        status: 404,
+        message: "Import profile not found",
+        error: {
+          field: "profile_id",
+          message: `Import profile with ID "${data.profile_id}" not found`,
+          code: "PROFILE_NOT_FOUND",
+        },
+      };
+    }
+  }
+
+  const tableResult = readImportTable(
+    data.file_content,
+    format,
+    data.sheet_name ?? profile?.sheet_name
+  );
+  if (!tableResult.success) {
+    return {
+      success: false,
+      status: 400,
+      message: "Failed to read import file",
+      error: {
+        field: "file_content",
+        message: tableResult.error,
+        code: tableResult.code,
+      },
+    };
+  }
+
+  const { table } = tableResult;
+  const { header_row, headers, records } = getImportRecords(
+    table,
+    data.header_row ?? profile?.header_row
+  );
+
+  if (records.length > BULK_CONSTANTS.MAX_USERS_PER_BATCH) {
+    return {
+      success: false,
+      status: 400,
+      message: "Batch size exceeded",
+      error: {
+        field: "file_content",
+        message: `Maximum ${BULK_CONSTANTS.MAX_USERS_PER_BATCH} users per import, the file has ${records.length} rows`,
+        code: BULK_ERROR_CODES.BATCH_SIZE_EXCEEDED,
+      },
+    };
+  }
+
+  const explicitMapping: ImportColumnMapping | undefined =
+    data.column_mapping || profile?.column_mapping;
+  const presentMapping = Object.fromEntries(
+    Object.entries(explicitMapping || {}).filter(
+      ([, header]) => header && headers.includes(header)
+    )
+  ) as ImportColumnMapping;
+  const suggested = suggestColumnMapping(headers, presentMapping);
+  const columnMapping = explicitMapping ? presentMapping : suggested.mapping;
+
+  return {
+    success: true,
+    file_info: {
+      file_name: data.file_name,
+      format,
+      sheet_name: table.sheet_name,
+      sheet_names: table.sheet_names,
+      header_row,
+      data_rows: records.length,
+      headers,
+    },
+    profile_id: profile?.id ?? null,
+    column_mapping: columnMapping,
+    suggestions: suggested.suggestions,
+    missing_required_fields: getMissingImportFields(columnMapping),
+    entries: records.map((record) =>
+      mapImportRecord(record, columnMapping, defaultRole)
+    ),
+  };
+}
+
+// ==================== CHECKING ====================
+
+const userColumns = {
+  id: users.id,
+  nik: users.nik,
+  name: users.name,
+  email: users.email,
+  role: users.role,
+  gender: users.gender,
+  phone: users.phone,
+  birth_place: users.birth_place,
+  birth_date: users.birth_date,
+  religion: users.religion,
+  education: users.education,
+  address: users.address,
+  province: users.province,
+  regency: users.regency,
+  district: users.district,
+  village: users.village,
+  postal_code: users.postal_code,
+  profile_picture_url: users.profile_picture_url,
+  is_active: users.is_active,
+  email_verified: users.email_verified,
+  created_at: users.created_at,
+  updated_at: users.updated_at,
+  created_by: users.created_by,
+  updated_by: users.updated_by,
+};
+
+// Dates compare by day, empty strings count as no value
+function formatUserValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (value instanceof Date) return value.toISOString().substring(0, 10);
+  return String(value);
+}
+
+/**
+ * Field by field diff of an imported row against the registered user. Empty
+ * cells never clear a value, and with fill_empty only fields the user has
+ * no value for yet are taken. Values filled from the NIK are always treated
+ * as fill_empty.
+ */
+function diffImportEntry(
+  data: BulkUserData,
+  user: Record<string, unknown>,
+  policy: BulkConflictPolicy,
+  prefilled: NikProfileField[] = []
+): BulkFieldChange[] {
+  const changes: BulkFieldChange[] = [];
+
+  for (const field of IMPORT_FIELDS) {
+    const newValue =
+      field === "birth_date"
+        ? formatUserValue(data.birth_date?.substring(0, 10))
+        : formatUserValue(data[field]);
+    if (newValue === null) continue;
+
+    const oldValue = formatUserValue(user[field]);
+    if (oldValue === newValue) continue;
+    const fillOnly =
+      policy === "fill_empty" || prefilled.includes(field as NikProfileField);
+    if (fillOnly && oldValue !== null) continue;
+
+    changes.push({ field, old_value: oldValue, new_value: newValue });
+  }
+
+  return changes;
+}
+
+/**
+ * Flag valid rows that repeat a NIK or email of an earlier row, or that
+ * belong to a user who is already registered. In upsert mode a registered
+ * user is matched by NIK (or by email while the user has no NIK) and the
+ * row becomes update, unchanged or skipped under the conflict policy.
+ */
+export async function checkImportEntries(
+  db: Database,
+  entries: ImportEntry[],
+  options: ImportMatchOptions = { mode: "create", conflict_policy: "skip" }
+): Promise<void> {
+  const seenNiks = new Set<string>();
+  const seenEmails = new Set<string>();
+
+  for (const entry of entries) {
+    if (entry.status !== "valid" || !entry.data) continue;
+    const { nik, email } = entry.data;
+
+    if (seenNiks.has(nik) || seenEmails.has(email)) {
+      const field = seenNiks.has(nik) ? "nik" : "email";
+      entry.status = "duplicate";
+      entry.errors.push({
+        field,
+        message: `Duplicate ${field === "nik" ? "NIK" : "email"} found earlier in the file`,
+        code:
+          field === "nik"
+            ? BULK_ERROR_CODES.DUPLICATE_NIK
+            : BULK_ERROR_CODES.DUPLICATE_EMAIL,
+      });
+      continue;
+    }
+    seenNiks.add(nik);
+    seenEmails.add(email);
+  }
+
+  const pending = entries.filter((entry) => entry.status === "valid");
+  if (pending.length === 0) return;
+
+  const existingUsers = await db
+    .select(userColumns)
+    .from(users)
+    .where(
+      or(
+        inArray(
+          users.nik,
+          pending.map((entry) => entry.data!.nik)
+        ),
+        inArray(
+          users.email,
+          pending.map((entry) => entry.data!.email)
+        )
+      )
+    );
+
+  const usersByNik = new Map(
+    existingUsers
+      .filter((user) => user.nik)
+      .map((user) => [user.nik as string, user])
+  );
+  const usersByEmail = new Map(existingUsers.map((user) => [user.email, user]));
+
+  for (const entry of pending) {
+    const { nik, email } = entry.data!;
+    const nikUser = usersByNik.get(nik);
+    const emailUser = usersByEmail.get(email);
+    if (!nikUser && !emailUser) continue;
+
+    if (options.mode === "create") {
+      const field = nikUser ? "nik" : "email";
+      entry.status = "exists";
+      entry.errors.push({
+        field,
+        message: `${field === "nik" ? "NIK" : "Email"} already exists in database`,
+        code:
+          field === "nik"
+            ? BULK_ERROR_CODES.DUPLICATE_NIK
+            : BULK_ERROR_CODES.DUPLICATE_EMAIL,
+      });
+      continue;
+    }
+
+    const match =
+      nikUser ?? (emailUser && !emailUser.nik ? emailUser : undefined);
+    if (!match || (emailUser && emailUser.id !== match.id)) {
+      entry.status = "exists";
+      entry.errors.push({
+        field: "email",
+        message: "Email is registered to another user with a different NIK",
+        code: BULK_ERROR_CODES.MATCH_CONFLICT,
+      });
+      continue;
+    }
+
+    entry.user_id = match.id;
+    if (options.conflict_policy === "skip") {
+      entry.status = "skipped";
+      continue;
+    }
+
+    entry.changes = diffImportEntry(
+      entry.data!,
+      match,
+      options.conflict_policy,
+      entry.prefilled
+    );
+    entry.status = entry.changes.length > 0 ? "update" : "unchanged";
+  }
+}
+
+// ==================== CREATING ====================
+
+const INSERT_CHUNK_SIZE = 100;
+
+export type CreatedImportUser = Awaited<
+  ReturnType<typeof insertImportUsers>
+>[number];
+
+/**
+ * Create the users of all valid entries, in chunks so one failing chunk
+ * (e.g. a NIK registered meanwhile) does not lose the rest. Entries become
+ * created or failed.
+ */
+export async function insertImportUsers(
+  db: Database,
+  entries: ImportEntry[],
+  actorId: string
+) {
+  const created = [];
+  const pending = entries.filter(
+    (entry) => entry.status === "valid" && entry.data
+  );
+
+  for (let i = 0; i < pending.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = pending.slice(i, i + INSERT_CHUNK_SIZE);
+    const insertData: CreateUserDB[] = chunk.map(({ data: user }) => ({
+      nik: user!.nik,
+      name: user!.name,
+      role: user!.role || "participant",
+      email: user!.email,
+      password: null, // Participants don't have passwords
+      gender: user!.gender || "other",
+      phone: user!.phone || "",
+      birth_place: user!.birth_place || null,
+      birth_date: user!.birth_date ? new Date(user!.birth_date) : null,
+      religion: user!.religion || null,
+      education: user!.education || null,
+      address: user!.address || null,
+      province: user!.province || null,
+      regency: user!.regency || null,
+      district: user!.district || null,
+      village: user!.village || null,
+      postal_code: user!.postal_code || null,
+      profile_picture_url: user!.profile_picture_url || null,
+      is_active: true,
+      email_verified: false,
+      login_attempts: 0,
+      created_by: actorId,
+      updated_by: actorId,
+    }));
+
+    try {
+      const rows = await db
+        .insert(users)
+        .values(insertData)
+        .returning(userColumns);
+      const idsByNik = new Map(rows.map((row) => [row.nik, row.id]));
+
+      for (const entry of chunk) {
+        entry.status = "created";
+        entry.user_id = idsByNik.get(entry.data!.nik);
+      }
+      created.push(...rows);
+    } catch (error) {
+      console.error("User import batch insert error:", error);
+      for (const entry of chunk) {
+        entry.status = "failed";
+        entry.errors.push({
+          message: "Database insertion failed",
+          code: BULK_ERROR_CODES.DATABASE_BATCH_ERROR,
+        });
+      }
+    }
+  }
+
+  return created;
+}
+
+// ==================== UPDATING ====================
+
+const UPDATE_CONCURRENCY = 10;
+
+/**
+ * Apply the diff of every entry marked update to its registered user and
+ * record each change in audit_logs with old and new values. Role and
+ * account state are never changed by an import. Entries become updated or
+ * failed.
+ */
+export async function updateImportUsers(
+  db: Database,
+  c: Context,
+  entries: ImportEntry[],
+  actorId: string
+): Promise<void> {
+  const pending = entries.filter(
+    (entry) => entry.status === "update" && entry.user_id && entry.changes
+  );
+  const updatedEntries: ImportEntry[] = [];
+
+  for (let i = 0; i < pending.length; i += UPDATE_CONCURRENCY) {
+    const chunk = pending.slice(i, i + UPDATE_CONCURRENCY);
+
+    await Promise.all(
+      chunk.map(async (entry) => {
+        const values: Partial<NewUser> = {};
+        for (const { field } of entry.changes!) {
+          const value = entry.data![field as keyof BulkUserData];
+          Object.assign(values, {
+            [field]: field === "birth_date" ? new Date(value as string) : value,
+          });
+        }
+
+        try {
+          await db
+            .update(users)
+            .set({ ...values, updated_by: actorId, updated_at: new Date() })
+            .where(eq(users.id, entry.user_id!));
+          entry.status = "updated";
+          updatedEntries.push(entry);
+        } catch (error) {
+          console.error("User import update error:", error);
+          entry.status = "failed";
+          entry.errors.push({
+            message: "Database update failed",
+            code: BULK_ERROR_CODES.DATABASE_UPDATE_ERROR,
+          });
+        }
+      })
+    );
+  }
+
+  await recordAuditLogs(
+    db,
+    c,
+    updatedEntries.map((entry) => ({
+      user_id: actorId,
+      action: "user.import_update",
+      entity: "users",
+      entity_id: entry.user_id!,
+      old_values: Object.fromEntries(
+        entry.changes!.map((change) => [change.field, change.old_value])
+      ),
+      new_values: Object.fromEntries(
+        entry.changes!.map((change) => [change.field, change.new_value])
+      ),
+    }))
+  );
+}
+
+// ==================== SUMMARY ====================
+
+export function summarizeImportEntries(entries: ImportEntry[]) {
+  const count = (...statuses: ImportRowStatus[]) =>
+    entries.filter((entry) => statuses.includes(entry.status)).length;
+
+  return {
+    total_rows: entries.length,
+    valid_rows: count("valid", "created", "failed"),
+    invalid_rows: count("invalid"),
+    duplicate_rows: count("duplicate"),
+    existing_rows: count("exists"),
+    update_rows: count("update", "updated"),
+    unchanged_rows: count("unchanged"),
+    created: count("created"),
+    updated: count("updated"),
+    skipped: count("skipped"),
+    failed: count("failed"),
+  };
+}
+
+export function formatImportRow(entry: ImportEntry): ImportRowResult {
+  return {
+    row_number: entry.row_number,
+    status: entry.status,
+    nik: entry.values.nik || "",
+    name: entry.values.name || "",
+    email: entry.values.email || "",
+    data: entry.values,
+    errors: entry.errors,
+    ...(entry.changes && { changes: entry.changes }),
+    ...(entry.warnings && { warnings: entry.warnings }),
+    ...(entry.prefilled && { prefilled: entry.prefilled }),
+    ...(entry.user_id && { user_id: entry.user_id }),
+  };
+}
@@ -0,0 +1,397 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+
+// ==================== TYPES ====================
+
+export type XlsxCell = string | number | boolean | Date | null | undefined;
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxCell[][];
+  header_rows?: number; // bold and frozen at the top
+  column_widths?: number[]; // in characters, computed from content if omitted
+}
+
+// ==================== WRITER ====================
+
+const MAX_SHEET_NAME_LENGTH = 31;
+const MAX_COLUMN_WIDTH = 60;
+
+const XML_HEADER = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n`;
+
+// Style indexes in styles.xml cellXfs (0 is the default style)
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "");
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+export function columnLetter(index: number): string {
+  let letter = "";
+  let current = index + 1;
+  while (current > 0) {
+    const remainder = (current - 1) % 26;
+    letter = String.fromCharCode(65 + remainder) + letter;
+    current = Math.floor((current - 1) / 26);
+  }
+  return letter;
+}
+
+// Excel stores dates as days since 1899-12-30
+function toExcelDate(date: Date): number {
+  return date.getTime() / 86_400_000 + 25_569;
+}
+
+function sanitizeSheetName(name: string, used: Set<string>): string {
+  const base =
+    name
+      .replace(/[\[\]:*?/\\]/g, " ")
+      .trim()
+      .slice(0, MAX_SHEET_NAME_LENGTH) || "Sheet";
+  let candidate = base;
+  let suffix = 2;
+  while (used.has(candidate.toLowerCase())) {
+    const tail = ` (${suffix++})`;
+    candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - tail.length) + tail;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function cellXml(value: XlsxCell, ref: string, header: boolean): string {
+  if (value === null || value === undefined || value === "") return "";
+  const style = header ? ` s="${STYLE_HEADER}"` : "";
+
+  if (value instanceof Date) {
+    return `<c r="${ref}" s="${STYLE_DATE}"><v>${toExcelDate(value)}</v></c>`;
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value)
+      ? `<c r="${ref}"${style}><v>${value}</v></c>`
+      : "";
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}" t="b"${style}><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function cellDisplayLength(value: XlsxCell): number {
+  if (value === null || value === undefined) return 0;
+  if (value instanceof Date) return 12;
+  return String(value).length;
+}
+
+function sheetXml(sheet: XlsxSheet): string {
+  const headerRows = sheet.header_rows ?? 0;
+  const columnCount = Math.max(0, ...sheet.rows.map((row) => row.length));
+  const widths =
+    sheet.column_widths ||
+    Array.from({ length: columnCount }, (_, columnIndex) =>
+      Math.min(
+        MAX_COLUMN_WIDTH,
+        Math.max(
+          8,
+          ...sheet.rows.map((row) => cellDisplayLength(row[columnIndex]) + 2)
+        )
+      )
+    );
+
+  const pane =
+    headerRows > 0
+      ? `<pane ySplit="${headerRows}" topLeftCell="A${headerRows + 1}" activePane="bottomLeft" state="frozen"/>`
+      : "";
+  const cols = widths.length
+    ? `<cols>${widths
+        .map(
+          (width, index) =>
+            `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`
+        )
+        .join("")}</cols>`
+    : "";
+  const rows = sheet.rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, columnIndex) =>
+          cellXml(
+            value,
+            `${columnLetter(columnIndex)}${rowIndex + 1}`,
+            rowIndex < headerRows
+          )
+        )
+        .join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+  const autoFilter =
+    headerRows > 0 && columnCount > 0 && sheet.rows.length > headerRows
+      ? `<autoFilter ref="A${headerRows}:${columnLetter(columnCount - 1)}${sheet.rows.length}"/>`
+      : "";
+
+  return `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheetViews><sheetView workbookViewId="0">${pane}</sheetView></sheetViews>${cols}<sheetData>${rows}</sheetData>${autoFilter}</worksheet>`;
+}
+
+const STYLES_XML = `${XML_HEADER}<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm"/></numFmts><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFE0E7FF"/><bgColor indexed="64"/></patternFill></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs><cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles></styleSheet>`;
+
+function contentTypesXml(sheetCount: number): string {
+  const sheets = Array.from(
+    { length: sheetCount },
+    (_, index) =>
+      `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+  ).join("");
+
+  return `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheets}</Types>`;
+}
+
+function workbookXml(sheetNames: string[]): string {
+  const sheets = sheetNames
+    .map(
+      (name, index) =>
+        `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+    )
+    .join("");
+
+  return `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${sheets}</sheets></workbook>`;
+}
+
+function workbookRelsXml(sheetCount: number): string {
+  const sheets = Array.from(
+    { length: sheetCount },
+    (_, index) =>
+      `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+  ).join("");
+
+  return `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets}<Relationship Id="rId${sheetCount + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+}
+
+const ROOT_RELS_XML = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+/**
+ * Build a minimal Office Open XML workbook. Strings are written inline so no
+ * shared string table is needed; the first header_rows rows are styled as header
+ */
+export function buildXlsxWorkbook(sheets: XlsxSheet[]): Uint8Array {
+  const usedNames = new Set<string>();
+  const names = sheets.map((sheet) => sanitizeSheetName(sheet.name, usedNames));
+
+  const files: Record<string, Uint8Array> = {
+    "[Content_Types].xml": strToU8(contentTypesXml(sheets.length)),
+    "_rels/.rels": strToU8(ROOT_RELS_XML),
+    "xl/workbook.xml": strToU8(workbookXml(names)),
+    "xl/_rels/workbook.xml.rels": strToU8(workbookRelsXml(sheets.length)),
+    "xl/styles.xml": strToU8(STYLES_XML),
+  };
+
+  sheets.forEach((sheet, index) => {
+    files[`xl/worksheets/sheet${index + 1}.xml`] = strToU8(sheetXml(sheet));
+  });
+
+  return zipSync(files, { level: 6 });
+}
+
+// ==================== READER ====================
+
+// Built-in number formats that display a date (ECMA-376 18.8.30)
+const BUILTIN_DATE_FORMATS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47,
+]);
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    attributes[match[1]] = unescapeXml(match[2]);
+  }
+  return attributes;
+}
+
+// Text of all <t> runs inside an element (rich text is split into runs)
+function readText(xml: string): string {
+  let text = "";
+  for (const match of xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) {
+    text += unescapeXml(match[1]);
+  }
+  return text;
+}
+
+// A -> 0, Z -> 25, AA -> 26
+function columnIndex(ref: string): number {
+  const letters = /^[A-Z]+/.exec(ref)?.[0] || "";
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function fromExcelDate(serial: number, date1904: boolean): Date {
+  const days = serial - (date1904 ? 24_107 : 25_569);
+  return new Date(Math.round(days * 86_400_000));
+}
+
+// Style indexes whose number format displays a date
+function readDateStyles(stylesXml: string | undefined): Set<number> {
+  const dateStyles = new Set<number>();
+  if (!stylesXml) return dateStyles;
+
+  const customDateFormats = new Set<number>();
+  for (const match of stylesXml.matchAll(/<numFmt\b([^>]*)\/?>/g)) {
+    const attributes = readAttributes(match[1]);
+    // Strip quoted literals and colors before looking for date tokens
+    const code = (attributes.formatCode || "")
+      .replace(/"[^"]*"|\[[^\]]*\]/g, "")
+      .toLowerCase();
+    if (/[dmy]/.test(code) && !/^[#0.,%\s]*$/.test(code)) {
+      customDateFormats.add(Number(attributes.numFmtId));
+    }
+  }
+
+  const cellXfs = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(stylesXml);
+  if (!cellXfs) return dateStyles;
+
+  let styleIndex = 0;
+  for (const match of cellXfs[1].matchAll(/<xf\b([^>]*)\/?>/g)) {
+    const formatId = Number(readAttributes(match[1]).numFmtId || 0);
+    if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) {
+      dateStyles.add(styleIndex);
+    }
+    styleIndex++;
+  }
+  return dateStyles;
+}
+
+function readSheetRows(
+  sheetXml: string,
+  sharedStrings: string[],
+  dateStyles: Set<number>,
+  date1904: boolean
+): XlsxCell[][] {
+  const rows: XlsxCell[][] = [];
+  const sheetData = /<sheetData\b[^>]*>([\s\S]*?)<\/sheetData>/.exec(sheetXml);
+  if (!sheetData) return rows;
+
+  let nextRow = 0;
+  for (const rowMatch of sheetData[1].matchAll(
+    /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g
+  )) {
+    const rowNumber = Number(readAttributes(rowMatch[1]).r) || nextRow + 1;
+    nextRow = rowNumber;
+    const row: XlsxCell[] = [];
+
+    let nextColumn = 0;
+    for (const cellMatch of (rowMatch[2] || "").matchAll(
+      /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+    )) {
+      const attributes = readAttributes(cellMatch[1]);
+      const column = attributes.r ? columnIndex(attributes.r) : nextColumn;
+      nextColumn = column + 1;
+
+      const content = cellMatch[2] || "";
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(content)?.[1];
+      let value: XlsxCell = null;
+
+      switch (attributes.t) {
+        case "s":
+          value =
+            raw !== undefined ? (sharedStrings[Number(raw)] ?? null) : null;
+          break;
+        case "inlineStr":
+          value = readText(content);
+          break;
+        case "str":
+        case "e":
+          value = raw !== undefined ? unescapeXml(raw) : null;
+          break;
+        case "b":
+          value = raw === "1";
+          break;
+        default:
+          if (raw !== undefined && raw !== "") {
+            const number = Number(raw);
+            value = dateStyles.has(Number(attributes.s || 0))
+              ? fromExcelDate(number, date1904)
+              : number;
+          }
+      }
+
+      row[column] = value;
+    }
+
+    rows[rowNumber - 1] = row;
+  }
+
+  // Rows and cells the sheet skipped are empty
+  return Array.from(rows, (row) =>
+    Array.from(row || [], (cell) => cell ?? null)
+  );
+}
+
+/**
+ * Read the sheets of an Office Open XML workbook, in workbook order. Cells
+ * keep their type: shared and inline strings, numbers, booleans, and numbers
+ * formatted as dates become Date values.
+ */
+export function readXlsxWorkbook(data: Uint8Array): XlsxSheet[] {
+  const files = unzipSync(data);
+  const readFile = (path: string) =>
+    files[path] ? strFromU8(files[path]) : undefined;
+
+  const workbook = readFile("xl/workbook.xml");
+  if (!workbook)
+    throw new Error("Not an XLSX workbook: xl/workbook.xml missing");
+
+  const date1904 = /<workbookPr\b[^>]*date1904="(1|true)"/.test(workbook);
+
+  const relationships = new Map<string, string>();
+  for (const match of (readFile("xl/_rels/workbook.xml.rels") || "").matchAll(
+    /<Relationship\b([^>]*)\/?>/g
+  )) {
+    const attributes = readAttributes(match[1]);
+    const target = attributes.Target.startsWith("/")
+      ? attributes.Target.substring(1)
+      : `xl/${attributes.Target}`;
+    relationships.set(attributes.Id, target);
+  }
+
+  const sharedStrings: string[] = [];
+  for (const match of (readFile("xl/sharedStrings.xml") || "").matchAll(
+    /<si>([\s\S]*?)<\/si>/g
+  )) {
+    sharedStrings.push(readText(match[1]));
+  }
+
+  const dateStyles = readDateStyles(readFile("xl/styles.xml"));
+
+  const sheets: XlsxSheet[] = [];
+  for (const match of workbook.matchAll(/<sheet\b([^>]*)\/?>/g)) {
+    const attributes = readAttributes(match[1]);
+    const path = relationships.get(attributes["r:id"]);
+    const sheetXml = path ? readFile(path) : undefined;
+    if (!sheetXml) continue;
+
+    sheets.push({
+      name: attributes.name,
+      rows: readSheetRows(sheetXml, sharedStrings, dateStyles, date1904),
+    });
+  }
+
+  return sheets;
+}
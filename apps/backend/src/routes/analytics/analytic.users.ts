@@ -14,6 +14,7 @@ import {
   type AnalyticsErrorResponse,
   getAnalyticsDateRange,
   calculatePercentageChange,
+  findProvince,
 } from "shared-types";
 
 export async function getUserAnalyticsHandler(
@@ -59,7 +60,10 @@ export async function getUserAnalyticsHandler(
       userFilterConditions.push(eq(users.education, queryParams.education));
     }
     if (queryParams.province) {
-      userFilterConditions.push(eq(users.province, queryParams.province));
+      const province = findProvince(queryParams.province);
+      userFilterConditions.push(
+        eq(users.province, province?.name ?? queryParams.province)
+      );
     }
 
     // Get user summary statistics
@@ -180,8 +184,7 @@ export async function getUserAnalyticsHandler(
         })
         .from(users)
         .where(and(...userFilterConditions, sql`${users.province} IS NOT NULL`))
-        .groupBy(users.province)
-        .limit(20); // Top 20 provinces
+        .groupBy(users.province);
 
       // Age distribution (calculated from birth_date)
       const ageDistribution = await db
@@ -235,10 +238,13 @@ export async function getUserAnalyticsHandler(
           },
           {} as Record<string, number>
         ),
+        // Spellings not yet normalized ("JABAR") count towards their province
         province_distribution: provinceDistribution.reduce(
           (acc, item) => {
             if (item.province) {
-              acc[item.province] = item.count;
+              const province =
+                findProvince(item.province)?.name ?? item.province;
+              acc[province] = (acc[province] || 0) + item.count;
             }
             return acc;
           },
@@ -7,13 +7,20 @@ import {
   tests,
   questions,
 } from "@/db";
-import { type CloudflareBindings } from "@/lib/env";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { getDrawingStorage, storeDrawingAnswer } from "@/lib/drawings";
+import {
+  getQuestionDeliveryDeadline,
+  isQuestionInAttempt,
+} from "@/lib/questionDelivery";
+import { isAdaptiveItemOpen } from "@/lib/adaptive";
 import {
   type AutoSaveAnswerRequest,
   type AutoSaveAnswerResponse,
   type AnswerErrorResponse,
   validateAnswerByQuestionType,
   canModifyAnswer,
+  isKraepelinCategory,
 } from "shared-types";
 
 export async function autoSaveAnswerHandler(
@@ -77,6 +84,24 @@ export async function autoSaveAnswerHandler(
       return c.json(errorResponse, 500);
     }
 
+    // Kraepelin / Pauli columns are answered through the column sheet,
+    // which checks the column timing and scores the entries itself
+    if (isKraepelinCategory(test.category)) {
+      const errorResponse: AnswerErrorResponse = {
+        success: false,
+        message: "Answers to this test are submitted per column",
+        errors: [
+          {
+            field: "question_id",
+            message: `Use POST /attempts/${attemptId}/kraepelin/columns/:columnIndex for Kraepelin and Pauli tests`,
+            code: "KRAEPELIN_SHEET_REQUIRED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
     // Check if answer can be modified
     const canModify = canModifyAnswer(attempt.status, attempt.end_time);
 
@@ -109,14 +134,18 @@ export async function autoSaveAnswerHandler(
       )
       .limit(1);
 
-    if (questionResult.length === 0) {
+    if (
+      questionResult.length === 0 ||
+      !(await isQuestionInAttempt(db, attempt, requestData.question_id))
+    ) {
       const errorResponse: AnswerErrorResponse = {
         success: false,
         message: "Question not found",
         errors: [
           {
             field: "question_id",
-            message: "Question does not exist or does not belong to this test",
+            message:
+              "Question does not exist or does not belong to this attempt",
             code: "NOT_FOUND",
           },
         ],
@@ -127,6 +156,49 @@ export async function autoSaveAnswerHandler(
 
     const question = questionResult[0];
 
+    // Timed questions only accept answers until their own deadline passes
+    const questionDeadline = await getQuestionDeliveryDeadline(
+      db,
+      attemptId,
+      question.id
+    );
+
+    if (!canModifyAnswer(attempt.status, attempt.end_time, questionDeadline)) {
+      const errorResponse: AnswerErrorResponse = {
+        success: false,
+        message: "Time limit for this question has passed",
+        errors: [
+          {
+            field: "question_id",
+            message: "The question can no longer be answered",
+            code: "QUESTION_TIME_EXPIRED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    if (
+      attempt.is_adaptive &&
+      !(await isAdaptiveItemOpen(db, attempt, question.id))
+    ) {
+      const errorResponse: AnswerErrorResponse = {
+        success: false,
+        message: "This adaptive test item is closed",
+        errors: [
+          {
+            field: "question_id",
+            message:
+              "Adaptive tests only accept an answer for the current item",
+            code: "ADAPTIVE_ITEM_CLOSED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
     // For auto-save, we allow partial/incomplete answers
     // Only validate if there's actual content to validate
     if (requestData.answer || requestData.answer_data) {
@@ -150,6 +222,16 @@ export async function autoSaveAnswerHandler(
       }
     }
 
+    // Drawings keep their strokes on the answer, the image goes to storage
+    const answerData =
+      question.question_type === "drawing" && requestData.answer_data
+        ? await storeDrawingAnswer(
+            getDrawingStorage(c.env, getEnv(c)),
+            { attempt_id: attemptId, question_id: question.id },
+            requestData.answer_data
+          )
+        : requestData.answer_data || null;
+
     const now = new Date();
 
     // Check if answer already exists
@@ -172,7 +254,7 @@ export async function autoSaveAnswerHandler(
       // Update existing answer (auto-save doesn't calculate score)
       const updateData = {
         answer: requestData.answer || null,
-        answer_data: requestData.answer_data || null,
+        answer_data: answerData,
         time_taken: requestData.time_taken || null,
         confidence_level: requestData.confidence_level || null,
         answered_at: now,
@@ -192,7 +274,7 @@ export async function autoSaveAnswerHandler(
         question_id: requestData.question_id,
         attempt_id: attemptId,
         answer: requestData.answer || null,
-        answer_data: requestData.answer_data || null,
+        answer_data: answerData,
         score: null, // Auto-save doesn't calculate score
         time_taken: requestData.time_taken || null,
         is_correct: null, // Auto-save doesn't determine correctness
@@ -268,7 +268,7 @@ export async function getAttemptAnswersHandler(
         )
       );
 
-    const totalQuestions = test.total_questions || 0;
+    const totalQuestions = attempt.total_questions || test.total_questions || 0;
     const answeredQuestions = Number(statsResult.answered_count) || 0;
     const unansweredQuestions = totalQuestions - answeredQuestions;
     const progressPercentage =
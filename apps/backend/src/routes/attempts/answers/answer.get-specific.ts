@@ -8,6 +8,10 @@ import {
   questions,
 } from "@/db";
 import { type CloudflareBindings } from "@/lib/env";
+import {
+  getQuestionDeliveryDeadline,
+  isQuestionInAttempt,
+} from "@/lib/questionDelivery";
 import {
   type GetSpecificAnswerResponse,
   type AnswerErrorResponse,
@@ -98,14 +102,18 @@ export async function getSpecificAnswerHandler(
       )
       .limit(1);
 
-    if (questionResult.length === 0) {
+    if (
+      questionResult.length === 0 ||
+      !(await isQuestionInAttempt(db, attempt, questionId))
+    ) {
       const errorResponse: AnswerErrorResponse = {
         success: false,
         message: "Question not found",
         errors: [
           {
             field: "question_id",
-            message: "Question does not exist or does not belong to this test",
+            message:
+              "Question does not exist or does not belong to this attempt",
             code: "NOT_FOUND",
           },
         ],
@@ -135,10 +143,15 @@ export async function getSpecificAnswerHandler(
     );
 
     // Check if answer can be modified
+    const questionDeadline = await getQuestionDeliveryDeadline(
+      db,
+      attemptId,
+      questionId
+    );
     const canModify = canModifyAnswer(
       attempt.status,
       attempt.end_time,
-      question.time_limit
+      questionDeadline
     );
 
     let processedAnswer = null;
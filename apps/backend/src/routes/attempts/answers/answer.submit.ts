@@ -7,7 +7,15 @@ import {
   tests,
   questions,
 } from "@/db";
-import { type CloudflareBindings } from "@/lib/env";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { getDrawingStorage, storeDrawingAnswer } from "@/lib/drawings";
+import {
+  getAttemptTotalQuestions,
+  getQuestionDeliveryDeadline,
+  isQuestionInAttempt,
+  loadAttemptQuestionEntries,
+} from "@/lib/questionDelivery";
+import { advanceAdaptiveAttempt, isAdaptiveItemOpen } from "@/lib/adaptive";
 import {
   type SubmitAnswerRequest,
   type SubmitAnswerResponse,
@@ -15,6 +23,7 @@ import {
   validateAnswerByQuestionType,
   calculateAnswerScore,
   canModifyAnswer,
+  isKraepelinCategory,
 } from "shared-types";
 
 export async function submitAnswerHandler(
@@ -78,6 +87,24 @@ export async function submitAnswerHandler(
       return c.json(errorResponse, 500);
     }
 
+    // Kraepelin / Pauli columns are answered through the column sheet,
+    // which checks the column timing and scores the entries itself
+    if (isKraepelinCategory(test.category)) {
+      const errorResponse: AnswerErrorResponse = {
+        success: false,
+        message: "Answers to this test are submitted per column",
+        errors: [
+          {
+            field: "question_id",
+            message: `Use POST /attempts/${attemptId}/kraepelin/columns/:columnIndex for Kraepelin and Pauli tests`,
+            code: "KRAEPELIN_SHEET_REQUIRED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
     // Check if answer can be modified
     const canModify = canModifyAnswer(attempt.status, attempt.end_time);
 
@@ -110,14 +137,18 @@ export async function submitAnswerHandler(
       )
       .limit(1);
 
-    if (questionResult.length === 0) {
+    if (
+      questionResult.length === 0 ||
+      !(await isQuestionInAttempt(db, attempt, requestData.question_id))
+    ) {
       const errorResponse: AnswerErrorResponse = {
         success: false,
         message: "Question not found",
         errors: [
           {
             field: "question_id",
-            message: "Question does not exist or does not belong to this test",
+            message:
+              "Question does not exist or does not belong to this attempt",
             code: "NOT_FOUND",
           },
         ],
@@ -128,6 +159,49 @@ export async function submitAnswerHandler(
 
     const question = questionResult[0];
 
+    // Timed questions only accept answers until their own deadline passes
+    const questionDeadline = await getQuestionDeliveryDeadline(
+      db,
+      attemptId,
+      question.id
+    );
+
+    if (!canModifyAnswer(attempt.status, attempt.end_time, questionDeadline)) {
+      const errorResponse: AnswerErrorResponse = {
+        success: false,
+        message: "Time limit for this question has passed",
+        errors: [
+          {
+            field: "question_id",
+            message: "The question can no longer be answered",
+            code: "QUESTION_TIME_EXPIRED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    if (
+      attempt.is_adaptive &&
+      !(await isAdaptiveItemOpen(db, attempt, question.id))
+    ) {
+      const errorResponse: AnswerErrorResponse = {
+        success: false,
+        message: "This adaptive test item is closed",
+        errors: [
+          {
+            field: "question_id",
+            message:
+              "Adaptive tests only accept an answer for the current item",
+            code: "ADAPTIVE_ITEM_CLOSED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
     // Validate answer based on question type
     const validation = validateAnswerByQuestionType(
       question.question_type,
@@ -171,12 +245,23 @@ export async function submitAnswerHandler(
           value: string;
           label: string;
           score?: number;
-        }>) || undefined
+        }>) || undefined,
+        question.scoring_rule
       );
       score = scoreResult.score;
       isCorrect = scoreResult.isCorrect;
     }
 
+    // Drawings keep their strokes on the answer, the image goes to storage
+    const answerData =
+      question.question_type === "drawing" && requestData.answer_data
+        ? await storeDrawingAnswer(
+            getDrawingStorage(c.env, getEnv(c)),
+            { attempt_id: attemptId, question_id: question.id },
+            requestData.answer_data
+          )
+        : requestData.answer_data || null;
+
     const now = new Date();
 
     // Check if answer already exists
@@ -198,7 +283,7 @@ export async function submitAnswerHandler(
       // Update existing answer
       const updateData = {
         answer: requestData.answer || null,
-        answer_data: requestData.answer_data || null,
+        answer_data: answerData,
         score: score?.toString() || null,
         time_taken: requestData.time_taken || null,
         is_correct: isCorrect,
@@ -220,7 +305,7 @@ export async function submitAnswerHandler(
         question_id: requestData.question_id,
         attempt_id: attemptId,
         answer: requestData.answer || null,
-        answer_data: requestData.answer_data || null,
+        answer_data: answerData,
         score: score?.toString() || null,
         time_taken: requestData.time_taken || null,
         is_correct: isCorrect,
@@ -260,8 +345,18 @@ export async function submitAnswerHandler(
         .where(eq(testAttempts.id, attemptId));
     }
 
+    // A submitted answer to an adaptive item decides the next item
+    const adaptiveStep =
+      attempt.is_adaptive && !requestData.is_draft
+        ? await advanceAdaptiveAttempt(db, attempt, test)
+        : null;
+
     // Get attempt progress
-    const totalQuestions = test.total_questions || 0;
+    const totalQuestions = adaptiveStep
+      ? adaptiveStep.stop_reason
+        ? adaptiveStep.items_administered
+        : attempt.total_questions || 0
+      : getAttemptTotalQuestions(attempt, test);
     const answeredQuestions =
       (attempt.questions_answered || 0) + (existingAnswer.length === 0 ? 1 : 0);
     const progressPercentage =
@@ -277,30 +372,9 @@ export async function submitAnswerHandler(
         )
       : 0;
 
-    // Find next question
-    const nextQuestion = await db
-      .select({
-        id: questions.id,
-        sequence: questions.sequence,
-        question_type: questions.question_type,
-      })
-      .from(questions)
-      .leftJoin(
-        userAnswers,
-        and(
-          eq(userAnswers.question_id, questions.id),
-          eq(userAnswers.attempt_id, attemptId),
-          eq(userAnswers.user_id, user.id)
-        )
-      )
-      .where(
-        and(
-          eq(questions.test_id, test.id),
-          isNull(userAnswers.id) // Question not answered yet
-        )
-      )
-      .orderBy(questions.sequence)
-      .limit(1);
+    // Next unanswered question in the order the participant sees them
+    const entries = await loadAttemptQuestionEntries(db, attempt);
+    const nextEntry = entries.find((entry) => !entry.answer);
 
     const response: SubmitAnswerResponse = {
       success: true,
@@ -346,7 +420,13 @@ export async function submitAnswerHandler(
           progress_percentage: progressPercentage,
           time_remaining: timeRemaining,
         },
-        next_question: nextQuestion.length > 0 ? nextQuestion[0] : null,
+        next_question: nextEntry
+          ? {
+              id: nextEntry.question.id,
+              sequence: nextEntry.question.sequence,
+              question_type: nextEntry.question.question_type,
+            }
+          : null,
       },
       timestamp: new Date().toISOString(),
     };
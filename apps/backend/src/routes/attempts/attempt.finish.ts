@@ -9,12 +9,14 @@ import {
   testResults,
 } from "@/db";
 import { type CloudflareBindings } from "@/lib/env";
+import { finalizeAttemptAnswers } from "@/lib/sessionLifecycle";
 import {
   type FinishTestAttemptRequest,
   type FinishTestAttemptResponse,
   type AttemptErrorResponse,
   calculateAttemptProgress,
   isAttemptExpired,
+  isKraepelinCategory,
 } from "shared-types";
 
 export async function finishTestAttemptHandler(
@@ -118,20 +120,15 @@ export async function finishTestAttemptHandler(
 
     const now = new Date();
 
-    // Calculate completion percentage
-    const completionPercentage =
-      (test.total_questions || 0) > 0
-        ? Math.round(
-            (requestData.questions_answered / (test.total_questions || 1)) * 100
-          )
-        : 100;
-
     // Update the attempt
     const updateData = {
       status: finalStatus,
       actual_end_time: now,
       time_spent: requestData.time_spent,
-      questions_answered: requestData.questions_answered,
+      // Kraepelin rows are counted by the column submissions themselves
+      questions_answered: isKraepelinCategory(test.category)
+        ? attempt.questions_answered
+        : requestData.questions_answered,
       browser_info: requestData.final_browser_info || attempt.browser_info,
       updated_at: now,
     };
@@ -142,91 +139,30 @@ export async function finishTestAttemptHandler(
       .where(eq(testAttempts.id, attemptId))
       .returning();
 
-    // Check if a test result already exists for this attempt
-    const existingResult = await db
+    // Score answers that were only auto-saved as drafts and calculate the
+    // test result, which also rolls the session result up
+    await finalizeAttemptAnswers(db, [attemptId]);
+
+    const [result] = await db
       .select()
       .from(testResults)
       .where(eq(testResults.attempt_id, attemptId))
       .limit(1);
 
-    let testResult = null;
-
-    // Create or update test result if attempt was completed
-    if (finalStatus === "completed" && existingResult.length === 0) {
-      // Basic result calculation (in a real system, this would be more sophisticated)
-      const rawScore =
-        (test.total_questions || 0) > 0
-          ? (requestData.questions_answered / (test.total_questions || 1)) * 100
-          : 0;
-
-      const resultData = {
-        attempt_id: attemptId,
-        user_id: user.id,
-        test_id: test.id,
-        session_result_id: null, // Will be set when session results are calculated
-        raw_score: rawScore.toString(),
-        scaled_score: rawScore.toString(), // For now, same as raw score
-        percentile: null, // Would need more data to calculate
-        grade:
-          rawScore >= 80
-            ? "A"
-            : rawScore >= 70
-              ? "B"
-              : rawScore >= 60
-                ? "C"
-                : rawScore >= 50
-                  ? "D"
-                  : "E",
-        traits: null, // Would be calculated based on test type and answers
-        trait_names: null,
-        description: `Test completed with ${completionPercentage}% completion rate`,
-        recommendations: null,
-        detailed_analysis: null,
-        is_passed: test.passing_score
-          ? rawScore >= parseFloat(test.passing_score)
-          : rawScore >= 60,
-        completion_percentage: completionPercentage.toString(),
-        calculated_at: now,
-        created_at: now,
-        updated_at: now,
-      };
-
-      const [newResult] = await db
-        .insert(testResults)
-        .values(resultData)
-        .returning();
-
-      testResult = {
-        id: newResult.id,
-        raw_score: parseFloat(newResult.raw_score || "0"),
-        scaled_score: parseFloat(newResult.scaled_score || "0"),
-        percentile: newResult.percentile
-          ? parseFloat(newResult.percentile)
-          : null,
-        grade: newResult.grade,
-        is_passed: newResult.is_passed,
-        completion_percentage: parseFloat(
-          newResult.completion_percentage || "0"
-        ),
-        calculated_at: newResult.calculated_at,
-      };
-    } else if (existingResult.length > 0) {
-      const existing = existingResult[0];
-      testResult = {
-        id: existing.id,
-        raw_score: parseFloat(existing.raw_score || "0"),
-        scaled_score: parseFloat(existing.scaled_score || "0"),
-        percentile: existing.percentile
-          ? parseFloat(existing.percentile)
-          : null,
-        grade: existing.grade,
-        is_passed: existing.is_passed,
-        completion_percentage: parseFloat(
-          existing.completion_percentage || "0"
-        ),
-        calculated_at: existing.calculated_at,
-      };
-    }
+    const testResult = result
+      ? {
+          id: result.id,
+          raw_score: parseFloat(result.raw_score || "0"),
+          scaled_score: parseFloat(result.scaled_score || "0"),
+          percentile: result.percentile ? parseFloat(result.percentile) : null,
+          grade: result.grade,
+          is_passed: result.is_passed,
+          completion_percentage: parseFloat(
+            result.completion_percentage || "0"
+          ),
+          calculated_at: result.calculated_at,
+        }
+      : null;
 
     // Check for next test in session
     let nextTest = null;
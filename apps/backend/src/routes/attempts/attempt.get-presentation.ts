@@ -0,0 +1,90 @@
+import { Context } from "hono";
+import { eq } from "drizzle-orm";
+import { getDbFromEnv, testAttempts } from "@/db";
+import { type CloudflareBindings } from "@/lib/env";
+import {
+  loadAttemptQuestions,
+  presentAttemptQuestions,
+} from "@/lib/questionDelivery";
+import {
+  type GetAttemptPresentationResponse,
+  type AttemptErrorResponse,
+} from "shared-types";
+
+export async function getAttemptPresentationHandler(
+  c: Context<{ Bindings: CloudflareBindings; Variables: { user: any } }>
+): Promise<Response> {
+  try {
+    const db = getDbFromEnv(c.env);
+    const { attemptId } = c.req.param();
+
+    const [attempt] = await db
+      .select()
+      .from(testAttempts)
+      .where(eq(testAttempts.id, attemptId))
+      .limit(1);
+
+    if (!attempt) {
+      const errorResponse: AttemptErrorResponse = {
+        success: false,
+        message: "Test attempt not found",
+        errors: [
+          {
+            field: "attempt_id",
+            message: "Test attempt with the provided ID does not exist",
+            code: "NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const testQuestions = await loadAttemptQuestions(db, attempt);
+
+    // Rebuild the order from the stored seed instead of trusting the client
+    const presented = presentAttemptQuestions(attempt, testQuestions);
+
+    const response: GetAttemptPresentationResponse = {
+      success: true,
+      message: "Attempt presentation order retrieved successfully",
+      data: {
+        attempt_id: attempt.id,
+        form_label: attempt.form_label,
+        is_adaptive: attempt.is_adaptive ?? false,
+        shuffle_seed: attempt.shuffle_seed,
+        shuffle_questions: attempt.shuffle_questions ?? false,
+        shuffle_options: attempt.shuffle_options ?? false,
+        questions: presented.map((question, index) => ({
+          id: question.id,
+          sequence: question.sequence,
+          position: index + 1,
+          question_type: question.question_type,
+          option_order: question.options
+            ? question.options.map((option) => option.value)
+            : null,
+        })),
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting attempt presentation:", error);
+
+    const errorResponse: AttemptErrorResponse = {
+      success: false,
+      message: "Failed to retrieve attempt presentation",
+      errors: [
+        {
+          message:
+            error instanceof Error ? error.message : "Unknown error occurred",
+          code: "INTERNAL_ERROR",
+        },
+      ],
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
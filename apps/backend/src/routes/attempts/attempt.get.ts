@@ -2,6 +2,7 @@ import { Context } from "hono";
 import { eq, and } from "drizzle-orm";
 import { getDbFromEnv, testAttempts, tests, testSessions } from "@/db";
 import { type CloudflareBindings } from "@/lib/env";
+import { finalizeAttemptAnswers } from "@/lib/sessionLifecycle";
 import {
   type GetTestAttemptResponse,
   type AttemptErrorResponse,
@@ -109,6 +110,7 @@ export async function getTestAttemptHandler(
           updated_at: new Date(),
         })
         .where(eq(testAttempts.id, attemptId));
+      await finalizeAttemptAnswers(db, [attemptId]);
 
       attempt.status = "expired";
       attempt.actual_end_time = new Date();
@@ -8,10 +8,23 @@ import {
   sessionModules,
 } from "@/db";
 import { type CloudflareBindings } from "@/lib/env";
+import {
+  formatMissingRequirement,
+  getMissingAttemptRequirements,
+} from "@/lib/attemptRequirements";
+import { pickAttemptForm, recordAttemptFormItems } from "@/lib/itemBank";
+import {
+  advanceAdaptiveAttempt,
+  getAdaptiveConfig,
+  loadAdaptiveItems,
+} from "@/lib/adaptive";
+import { finalizeAttemptAnswers } from "@/lib/sessionLifecycle";
 import {
   type StartTestAttemptRequest,
   type StartTestAttemptResponse,
   type AttemptErrorResponse,
+  type AttemptRequirementsErrorResponse,
+  isAdaptiveCategory,
 } from "shared-types";
 
 export async function startTestAttemptHandler(
@@ -166,10 +179,10 @@ export async function startTestAttemptHandler(
           Math.floor((timeLimit - elapsed) / 1000)
         );
         const progressPercentage =
-          (testData.total_questions || 0) > 0
+          (ongoingAttempt.total_questions || 0) > 0
             ? Math.round(
                 ((ongoingAttempt.questions_answered || 0) /
-                  (testData.total_questions || 1)) *
+                  (ongoingAttempt.total_questions || 1)) *
                   100
               )
             : 0;
@@ -193,7 +206,7 @@ export async function startTestAttemptHandler(
             attempt_number: ongoingAttempt.attempt_number || 0,
             time_spent: ongoingAttempt.time_spent,
             questions_answered: ongoingAttempt.questions_answered || 0,
-            total_questions: testData.total_questions || 0,
+            total_questions: ongoingAttempt.total_questions || 0,
             created_at: ongoingAttempt.created_at,
             updated_at: ongoingAttempt.updated_at,
             test: {
@@ -234,9 +247,39 @@ export async function startTestAttemptHandler(
             updated_at: new Date(),
           })
           .where(eq(testAttempts.id, ongoingAttempt.id));
+        await finalizeAttemptAnswers(db, [ongoingAttempt.id]);
       }
     }
 
+    // Prerequisite tests and earlier required session modules come first
+    const missingRequirements = await getMissingAttemptRequirements(
+      db,
+      user.id,
+      testData,
+      sessionTestId
+    );
+
+    if (missingRequirements.length > 0) {
+      const errorResponse: AttemptRequirementsErrorResponse = {
+        success: false,
+        message: "Test is locked until its requirements are completed",
+        errors: missingRequirements.map((requirement) => ({
+          field:
+            requirement.type === "session_module"
+              ? "session_modules"
+              : "test_prerequisites",
+          message: formatMissingRequirement(requirement),
+          code:
+            requirement.type === "session_module"
+              ? "MODULE_ORDER_NOT_MET"
+              : "PREREQUISITE_NOT_MET",
+        })),
+        missing_requirements: missingRequirements,
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 403);
+    }
+
     // Create new attempt
     const nextAttemptNumber =
       existingAttempts.length > 0
@@ -253,6 +296,65 @@ export async function startTestAttemptHandler(
       "unknown";
     const userAgent = c.req.header("User-Agent") || "unknown";
 
+    const isAdaptive = Boolean(
+      testData.adaptive_config && isAdaptiveCategory(testData.category)
+    );
+
+    // Shuffling is on when either the test or the session asks for it; the
+    // seed keeps the order stable across reloads and for reviewers. Adaptive
+    // items are shown in the order they were chosen
+    const shuffleQuestions =
+      !isAdaptive &&
+      Boolean(testData.shuffle_questions || sessionData?.shuffle_questions);
+    const shuffleOptions = Boolean(
+      testData.shuffle_options || sessionData?.shuffle_options
+    );
+
+    // Blueprint tests give each attempt one of their parallel forms
+    const form = isAdaptive
+      ? null
+      : await pickAttemptForm(db, user.id, testData);
+
+    if (form && form.question_count === 0) {
+      const errorResponse: AttemptErrorResponse = {
+        success: false,
+        message: "Test has no questions matching its blueprint",
+        errors: [
+          {
+            field: "blueprint",
+            message: `Form ${form.label} could not be assembled from the item bank`,
+            code: "BLUEPRINT_EMPTY",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    // Adaptive attempts get their items one at a time, up to the item cap
+    const adaptiveItemCount = isAdaptive
+      ? Math.min(
+          getAdaptiveConfig(testData).max_items,
+          (await loadAdaptiveItems(db, testData.id)).length
+        )
+      : 0;
+
+    if (isAdaptive && adaptiveItemCount === 0) {
+      const errorResponse: AttemptErrorResponse = {
+        success: false,
+        message: "Adaptive test has no questions",
+        errors: [
+          {
+            field: "adaptive_config",
+            message: "The item bank of this adaptive test is empty",
+            code: "ADAPTIVE_BANK_EMPTY",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
     const newAttemptData = {
       user_id: user.id,
       test_id: requestData.test_id,
@@ -266,7 +368,17 @@ export async function startTestAttemptHandler(
       attempt_number: nextAttemptNumber,
       time_spent: null,
       questions_answered: 0,
-      total_questions: testData.total_questions || 0,
+      total_questions: isAdaptive
+        ? adaptiveItemCount
+        : form
+          ? form.question_count
+          : testData.total_questions || 0,
+      form_label: form?.label ?? null,
+      is_adaptive: isAdaptive,
+      // Always seeded: sequence items are shuffled even with shuffling off
+      shuffle_seed: crypto.randomUUID(),
+      shuffle_questions: shuffleQuestions,
+      shuffle_options: shuffleOptions,
     };
 
     const [newAttempt] = await db
@@ -274,6 +386,14 @@ export async function startTestAttemptHandler(
       .values(newAttemptData)
       .returning();
 
+    if (form) {
+      await recordAttemptFormItems(db, newAttempt.id, form);
+    }
+
+    if (isAdaptive) {
+      await advanceAdaptiveAttempt(db, newAttempt, testData);
+    }
+
     const timeRemaining = Math.floor(
       (endTime.getTime() - now.getTime()) / 1000
     );
@@ -296,7 +416,7 @@ export async function startTestAttemptHandler(
         attempt_number: newAttempt.attempt_number || 0,
         time_spent: newAttempt.time_spent,
         questions_answered: newAttempt.questions_answered || 0,
-        total_questions: testData.total_questions || 0,
+        total_questions: newAttempt.total_questions || 0,
         created_at: newAttempt.created_at,
         updated_at: newAttempt.updated_at,
         test: {
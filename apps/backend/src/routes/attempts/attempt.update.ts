@@ -2,6 +2,7 @@ import { Context } from "hono";
 import { eq, and } from "drizzle-orm";
 import { getDbFromEnv, testAttempts, tests, testSessions } from "@/db";
 import { type CloudflareBindings } from "@/lib/env";
+import { getAttemptTotalQuestions } from "@/lib/questionDelivery";
 import {
   type UpdateTestAttemptRequest,
   type UpdateTestAttemptResponse,
@@ -153,17 +154,15 @@ export async function updateTestAttemptHandler(
 
     if (requestData.questions_answered !== undefined) {
       // Validate questions_answered doesn't exceed total_questions
-      if (
-        test.total_questions &&
-        requestData.questions_answered > test.total_questions
-      ) {
+      const totalQuestions = getAttemptTotalQuestions(attempt, test);
+      if (totalQuestions && requestData.questions_answered > totalQuestions) {
         const errorResponse: AttemptErrorResponse = {
           success: false,
           message: "Questions answered cannot exceed total questions",
           errors: [
             {
               field: "questions_answered",
-              message: `Questions answered (${requestData.questions_answered}) cannot exceed total questions (${test.total_questions})`,
+              message: `Questions answered (${requestData.questions_answered}) cannot exceed total questions (${totalQuestions})`,
               code: "INVALID_PROGRESS",
             },
           ],
@@ -22,6 +22,7 @@ import { finishTestAttemptHandler } from "./attempt.finish";
 import { getUserAttemptsHandler } from "./attempt.get-user";
 import { getSessionAttemptsHandler } from "./attempt.get-session";
 import { getAttemptProgressHandler } from "./attempt.get-progress";
+import { getAttemptPresentationHandler } from "./attempt.get-presentation";
 import {
   authenticateUser,
   requireParticipant,
@@ -29,6 +30,8 @@ import {
 } from "@/middleware/auth";
 import { generalApiRateLimit } from "@/middleware/rateLimiter";
 import { answerRoutes } from "./answers";
+import { kraepelinRoutes } from "./kraepelin";
+import { attemptQuestionRoutes } from "./questions";
 
 const attemptRoutes = new Hono<{ Bindings: CloudflareBindings }>();
 
@@ -36,6 +39,14 @@ const attemptRoutes = new Hono<{ Bindings: CloudflareBindings }>();
 // Mount answers routes under /:attemptId/answers
 attemptRoutes.route("/:attemptId/answers", answerRoutes);
 
+// ==================== KRAEPELIN ROUTES ====================
+// Mount column sheet routes under /:attemptId/kraepelin
+attemptRoutes.route("/:attemptId/kraepelin", kraepelinRoutes);
+
+// ==================== QUESTION DELIVERY ROUTES ====================
+// Mount participant question delivery under /:attemptId/questions
+attemptRoutes.route("/:attemptId/questions", attemptQuestionRoutes);
+
 // ==================== NEW ENDPOINTS ====================
 
 // Get User's Test Attempts (Admin only)
@@ -139,6 +150,30 @@ attemptRoutes.get(
   getAttemptProgressHandler
 );
 
+// Get Attempt Presentation Order (Admin only)
+attemptRoutes.get(
+  "/:attemptId/presentation",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", GetAttemptByIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: AttemptErrorResponse = {
+        success: false,
+        message: "Invalid attempt ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getAttemptPresentationHandler
+);
+
 // ==================== EXISTING ENDPOINTS ====================
 
 // Start Test Attempt (Participant only)
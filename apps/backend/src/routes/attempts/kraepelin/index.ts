@@ -0,0 +1,103 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { type CloudflareBindings } from "@/lib/env";
+import {
+  KraepelinAttemptRequestSchema,
+  KraepelinColumnRequestSchema,
+  SubmitKraepelinColumnRequestSchema,
+  type KraepelinErrorResponse,
+} from "shared-types";
+import { getKraepelinSheetHandler } from "./kraepelin.get-sheet";
+import { submitKraepelinColumnHandler } from "./kraepelin.submit-column";
+import { authenticateUser, requireParticipant } from "@/middleware/auth";
+import { generalApiRateLimit } from "@/middleware/rateLimiter";
+
+const kraepelinRoutes = new Hono<{ Bindings: CloudflareBindings }>();
+
+// ==================== KRAEPELIN / PAULI SHEET ROUTES ====================
+
+// Get Column Sheet and Timing State (Participant only)
+kraepelinRoutes.get(
+  "/",
+  generalApiRateLimit,
+  authenticateUser,
+  requireParticipant,
+  zValidator("param", KraepelinAttemptRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: KraepelinErrorResponse = {
+        success: false,
+        message: "Invalid attempt ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getKraepelinSheetHandler
+);
+
+// Submit Answers of a Column (Participant only)
+kraepelinRoutes.post(
+  "/columns/:columnIndex",
+  generalApiRateLimit,
+  authenticateUser,
+  requireParticipant,
+  zValidator("param", KraepelinColumnRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: KraepelinErrorResponse = {
+        success: false,
+        message: "Invalid column parameters",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator("json", SubmitKraepelinColumnRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: KraepelinErrorResponse = {
+        success: false,
+        message: "Validation failed",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  submitKraepelinColumnHandler
+);
+
+// ==================== ERROR HANDLERS ====================
+kraepelinRoutes.onError((err, c) => {
+  console.error("Kraepelin routes error:", err);
+
+  const errorResponse: KraepelinErrorResponse = {
+    success: false,
+    message: "Kraepelin route error",
+    ...(c.env.NODE_ENV === "development" && {
+      errors: [
+        {
+          message: err.message,
+          code: "ROUTE_ERROR",
+        },
+      ],
+    }),
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(errorResponse, 500);
+});
+
+export { kraepelinRoutes };
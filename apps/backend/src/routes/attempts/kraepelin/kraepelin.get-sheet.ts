@@ -0,0 +1,191 @@
+import { Context } from "hono";
+import { eq, and } from "drizzle-orm";
+import {
+  getDbFromEnv,
+  testAttempts,
+  tests,
+  questions,
+  userAnswers,
+} from "@/db";
+import { type CloudflareBindings } from "@/lib/env";
+import {
+  type GetKraepelinSheetResponse,
+  type KraepelinAttemptRequest,
+  type KraepelinErrorResponse,
+  canModifyAnswer,
+  generateKraepelinSheet,
+  getCurrentKraepelinColumn,
+  getKraepelinColumnWindow,
+  isKraepelinCategory,
+} from "shared-types";
+
+export async function getKraepelinSheetHandler(
+  c: Context<{ Bindings: CloudflareBindings; Variables: { user: any } }>
+): Promise<Response> {
+  try {
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+    const user = auth.user;
+    const { attemptId } = c.req.param() as KraepelinAttemptRequest;
+
+    const [attemptResult] = await db
+      .select({
+        attempt: testAttempts,
+        test: tests,
+      })
+      .from(testAttempts)
+      .innerJoin(tests, eq(testAttempts.test_id, tests.id))
+      .where(
+        and(eq(testAttempts.id, attemptId), eq(testAttempts.user_id, user.id))
+      )
+      .limit(1);
+
+    if (!attemptResult) {
+      const errorResponse: KraepelinErrorResponse = {
+        success: false,
+        message: "Test attempt not found",
+        errors: [
+          {
+            field: "attempt_id",
+            message:
+              "Test attempt with the provided ID does not exist or you don't have access to it",
+            code: "NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const { attempt, test } = attemptResult;
+    const config = test.kraepelin_config;
+
+    if (!isKraepelinCategory(test.category) || !config) {
+      const errorResponse: KraepelinErrorResponse = {
+        success: false,
+        message: "Test does not use a Kraepelin sheet",
+        errors: [
+          {
+            field: "test_id",
+            message:
+              "This attempt belongs to a test without a configured column sheet",
+            code: "NOT_KRAEPELIN_TEST",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    if (!canModifyAnswer(attempt.status, attempt.end_time)) {
+      const errorResponse: KraepelinErrorResponse = {
+        success: false,
+        message: "Test attempt is no longer active",
+        errors: [
+          {
+            field: "attempt_status",
+            message: "The sheet is only available while the attempt is active",
+            code: "ATTEMPT_NOT_ACTIVE",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    // Column questions and the columns already submitted
+    const columnQuestions = await db
+      .select({ id: questions.id, sequence: questions.sequence })
+      .from(questions)
+      .where(eq(questions.test_id, test.id));
+
+    const submittedAnswers = await db
+      .select({ question_id: userAnswers.question_id })
+      .from(userAnswers)
+      .where(
+        and(
+          eq(userAnswers.attempt_id, attempt.id),
+          eq(userAnswers.user_id, user.id)
+        )
+      );
+    const submittedQuestionIds = new Set(
+      submittedAnswers.map((answer) => answer.question_id)
+    );
+
+    const now = new Date();
+    const sheetStart = attempt.start_time;
+    const currentColumn = getCurrentKraepelinColumn(config, sheetStart, now);
+    const secondsLeftInColumn =
+      currentColumn !== null
+        ? Math.max(
+            0,
+            Math.ceil(
+              (getKraepelinColumnWindow(
+                config,
+                sheetStart,
+                currentColumn
+              ).closesAt.getTime() -
+                now.getTime()) /
+                1000
+            )
+          )
+        : 0;
+
+    const sheet = generateKraepelinSheet(config);
+
+    const response: GetKraepelinSheetResponse = {
+      success: true,
+      message: "Kraepelin sheet retrieved successfully",
+      data: {
+        attempt_id: attempt.id,
+        test_id: test.id,
+        variant: config.variant,
+        column_count: config.column_count,
+        digits_per_column: config.digits_per_column,
+        seconds_per_column: config.seconds_per_column,
+        current_column: currentColumn,
+        seconds_left_in_column: secondsLeftInColumn,
+        columns: sheet.map((digits, columnIndex) => {
+          const window = getKraepelinColumnWindow(
+            config,
+            sheetStart,
+            columnIndex
+          );
+          const question = columnQuestions.find(
+            (q) => q.sequence === columnIndex + 1
+          );
+          return {
+            column_index: columnIndex,
+            question_id: question?.id || null,
+            digits,
+            opens_at: window.opensAt.toISOString(),
+            closes_at: window.closesAt.toISOString(),
+            is_submitted: question
+              ? submittedQuestionIds.has(question.id)
+              : false,
+          };
+        }),
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting kraepelin sheet:", error);
+
+    const errorResponse: KraepelinErrorResponse = {
+      success: false,
+      message: "Failed to retrieve kraepelin sheet",
+      errors: [
+        {
+          message:
+            error instanceof Error ? error.message : "Unknown error occurred",
+          code: "INTERNAL_ERROR",
+        },
+      ],
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,331 @@
+import { Context } from "hono";
+import { eq, and, count } from "drizzle-orm";
+import {
+  getDbFromEnv,
+  testAttempts,
+  tests,
+  questions,
+  userAnswers,
+} from "@/db";
+import { type CloudflareBindings } from "@/lib/env";
+import {
+  type KraepelinColumnAnswerData,
+  type KraepelinColumnRequest,
+  type KraepelinErrorResponse,
+  type SubmitKraepelinColumnRequest,
+  type SubmitKraepelinColumnResponse,
+  canModifyAnswer,
+  generateKraepelinSheet,
+  getCurrentKraepelinColumn,
+  getKraepelinAnswer,
+  getKraepelinColumnWindow,
+  isKraepelinCategory,
+  KRAEPELIN_SUBMIT_GRACE_SECONDS,
+} from "shared-types";
+
+export async function submitKraepelinColumnHandler(
+  c: Context<
+    { Bindings: CloudflareBindings; Variables: { user: any } },
+    string,
+    {
+      out: {
+        param: KraepelinColumnRequest;
+        json: SubmitKraepelinColumnRequest;
+      };
+    }
+  >
+): Promise<Response> {
+  try {
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+    const user = auth.user;
+    const { attemptId, columnIndex } = c.req.valid("param");
+    const requestData = c.req.valid("json");
+
+    const [attemptResult] = await db
+      .select({
+        attempt: testAttempts,
+        test: tests,
+      })
+      .from(testAttempts)
+      .innerJoin(tests, eq(testAttempts.test_id, tests.id))
+      .where(
+        and(eq(testAttempts.id, attemptId), eq(testAttempts.user_id, user.id))
+      )
+      .limit(1);
+
+    if (!attemptResult) {
+      const errorResponse: KraepelinErrorResponse = {
+        success: false,
+        message: "Test attempt not found",
+        errors: [
+          {
+            field: "attempt_id",
+            message:
+              "Test attempt with the provided ID does not exist or you don't have access to it",
+            code: "NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const { attempt, test } = attemptResult;
+    const config = test.kraepelin_config;
+
+    if (!isKraepelinCategory(test.category) || !config) {
+      const errorResponse: KraepelinErrorResponse = {
+        success: false,
+        message: "Test does not use a Kraepelin sheet",
+        errors: [
+          {
+            field: "test_id",
+            message:
+              "This attempt belongs to a test without a configured column sheet",
+            code: "NOT_KRAEPELIN_TEST",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    if (!canModifyAnswer(attempt.status, attempt.end_time)) {
+      const errorResponse: KraepelinErrorResponse = {
+        success: false,
+        message: "Cannot submit answers to completed or expired attempt",
+        errors: [
+          {
+            field: "attempt_status",
+            message:
+              "This attempt is no longer active and cannot accept answers",
+            code: "ATTEMPT_NOT_ACTIVE",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    if (columnIndex >= config.column_count) {
+      const errorResponse: KraepelinErrorResponse = {
+        success: false,
+        message: "Column does not exist",
+        errors: [
+          {
+            field: "columnIndex",
+            message: `Sheet has ${config.column_count} columns (0-${config.column_count - 1})`,
+            code: "INVALID_COLUMN",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    // Column switches are forced: only the open column accepts answers
+    const now = new Date();
+    const graceMs = KRAEPELIN_SUBMIT_GRACE_SECONDS * 1000;
+    const { opensAt, closesAt } = getKraepelinColumnWindow(
+      config,
+      attempt.start_time,
+      columnIndex
+    );
+
+    if (now.getTime() < opensAt.getTime() - graceMs) {
+      const errorResponse: KraepelinErrorResponse = {
+        success: false,
+        message: "Column is not open yet",
+        errors: [
+          {
+            field: "columnIndex",
+            message: `Column ${columnIndex + 1} opens at ${opensAt.toISOString()}`,
+            code: "COLUMN_NOT_OPEN",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    if (now.getTime() > closesAt.getTime() + graceMs) {
+      const errorResponse: KraepelinErrorResponse = {
+        success: false,
+        message: "Column time is over",
+        errors: [
+          {
+            field: "columnIndex",
+            message: `Column ${columnIndex + 1} closed at ${closesAt.toISOString()}`,
+            code: "COLUMN_CLOSED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    const [columnQuestion] = await db
+      .select({ id: questions.id })
+      .from(questions)
+      .where(
+        and(
+          eq(questions.test_id, test.id),
+          eq(questions.sequence, columnIndex + 1)
+        )
+      )
+      .limit(1);
+
+    if (!columnQuestion) {
+      const errorResponse: KraepelinErrorResponse = {
+        success: false,
+        message: "Column question not found",
+        errors: [
+          {
+            field: "columnIndex",
+            message:
+              "The sheet questions are missing. Ask an administrator to re-save the Kraepelin configuration",
+            code: "DATA_INTEGRITY_ERROR",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 500);
+    }
+
+    const [existingAnswer] = await db
+      .select()
+      .from(userAnswers)
+      .where(
+        and(
+          eq(userAnswers.user_id, user.id),
+          eq(userAnswers.question_id, columnQuestion.id),
+          eq(userAnswers.attempt_id, attemptId)
+        )
+      )
+      .limit(1);
+
+    // Merge with entries saved earlier for this column, latest answer wins
+    const previousData =
+      (existingAnswer?.answer_data as KraepelinColumnAnswerData | null) || null;
+    const column = generateKraepelinSheet(config)[columnIndex];
+    const totalRows = column.length - 1;
+    const entriesByRow = new Map(
+      (previousData?.entries || []).map((entry) => [entry.row_index, entry])
+    );
+
+    // Lateness is judged on the server clock above, the whole submission is
+    // refused once the column closed. The client answered_at is kept for review
+    for (const entry of requestData.entries) {
+      if (entry.row_index >= totalRows) continue;
+      entriesByRow.set(entry.row_index, {
+        ...entry,
+        is_correct:
+          entry.answer === getKraepelinAnswer(column, entry.row_index),
+      });
+    }
+
+    const entries = Array.from(entriesByRow.values()).sort(
+      (a, b) => a.row_index - b.row_index
+    );
+    const worked = entries.length;
+    const correct = entries.filter((entry) => entry.is_correct).length;
+    const lastRow = entries.reduce(
+      (max, entry) => Math.max(max, entry.row_index),
+      -1
+    );
+
+    const answerData: KraepelinColumnAnswerData = {
+      column_index: columnIndex,
+      started_at:
+        previousData?.started_at ||
+        requestData.started_at ||
+        opensAt.toISOString(),
+      submitted_at: now.toISOString(),
+      entries,
+      worked,
+      correct,
+      errors: worked - correct,
+      last_row: lastRow,
+      total_rows: totalRows,
+    };
+    const timeTaken = Math.round(
+      (Math.min(now.getTime(), closesAt.getTime()) - opensAt.getTime()) / 1000
+    );
+
+    if (existingAnswer) {
+      await db
+        .update(userAnswers)
+        .set({
+          answer: worked.toString(),
+          answer_data: answerData,
+          score: correct.toString(),
+          time_taken: Math.max(0, timeTaken),
+          answered_at: now,
+        })
+        .where(eq(userAnswers.id, existingAnswer.id));
+    } else {
+      await db.insert(userAnswers).values({
+        user_id: user.id,
+        question_id: columnQuestion.id,
+        attempt_id: attemptId,
+        answer: worked.toString(),
+        answer_data: answerData,
+        score: correct.toString(),
+        time_taken: Math.max(0, timeTaken),
+        answered_at: now,
+      });
+    }
+
+    const [answeredCount] = await db
+      .select({ count: count() })
+      .from(userAnswers)
+      .where(
+        and(
+          eq(userAnswers.attempt_id, attemptId),
+          eq(userAnswers.user_id, user.id)
+        )
+      );
+
+    await db
+      .update(testAttempts)
+      .set({
+        questions_answered: answeredCount.count,
+        ...(attempt.status === "started" && { status: "in_progress" as const }),
+        updated_at: now,
+      })
+      .where(eq(testAttempts.id, attemptId));
+
+    const response: SubmitKraepelinColumnResponse = {
+      success: true,
+      message: `Column ${columnIndex + 1} saved`,
+      data: {
+        column_index: columnIndex,
+        worked,
+        correct,
+        errors: worked - correct,
+        next_column: getCurrentKraepelinColumn(config, attempt.start_time, now),
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error submitting kraepelin column:", error);
+
+    const errorResponse: KraepelinErrorResponse = {
+      success: false,
+      message: "Failed to submit kraepelin column",
+      errors: [
+        {
+          message:
+            error instanceof Error ? error.message : "Unknown error occurred",
+          code: "INTERNAL_ERROR",
+        },
+      ],
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,112 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { type CloudflareBindings } from "@/lib/env";
+import {
+  AttemptQuestionsRequestSchema,
+  AttemptQuestionRequestSchema,
+  type AttemptErrorResponse,
+} from "shared-types";
+import { getAttemptQuestionsHandler } from "./question.get-list";
+import { getNextAttemptQuestionHandler } from "./question.get-next";
+import { getAttemptQuestionHandler } from "./question.get-specific";
+import { authenticateUser, requireParticipant } from "@/middleware/auth";
+import { generalApiRateLimit } from "@/middleware/rateLimiter";
+
+const attemptQuestionRoutes = new Hono<{ Bindings: CloudflareBindings }>();
+
+// ==================== QUESTION DELIVERY ROUTES ====================
+
+// List Attempt Questions without answer keys (Participant only)
+attemptQuestionRoutes.get(
+  "/",
+  generalApiRateLimit,
+  authenticateUser,
+  requireParticipant,
+  zValidator("param", AttemptQuestionsRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: AttemptErrorResponse = {
+        success: false,
+        message: "Invalid attempt ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getAttemptQuestionsHandler
+);
+
+// Get Next Unanswered Question (Participant only)
+attemptQuestionRoutes.get(
+  "/next",
+  generalApiRateLimit,
+  authenticateUser,
+  requireParticipant,
+  zValidator("param", AttemptQuestionsRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: AttemptErrorResponse = {
+        success: false,
+        message: "Invalid attempt ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getNextAttemptQuestionHandler
+);
+
+// Get Specific Question (Participant only)
+attemptQuestionRoutes.get(
+  "/:questionId",
+  generalApiRateLimit,
+  authenticateUser,
+  requireParticipant,
+  zValidator("param", AttemptQuestionRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: AttemptErrorResponse = {
+        success: false,
+        message: "Invalid path parameters",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getAttemptQuestionHandler
+);
+
+// ==================== ERROR HANDLERS ====================
+attemptQuestionRoutes.onError((err, c) => {
+  console.error("Attempt question routes error:", err);
+
+  const errorResponse: AttemptErrorResponse = {
+    success: false,
+    message: "Attempt question route error",
+    ...(c.env.NODE_ENV === "development" && {
+      errors: [
+        {
+          message: err.message,
+          code: "ROUTE_ERROR",
+        },
+      ],
+    }),
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(errorResponse, 500);
+});
+
+export { attemptQuestionRoutes };
@@ -0,0 +1,143 @@
+import { Context } from "hono";
+import { eq, and } from "drizzle-orm";
+import { getDbFromEnv, testAttempts, tests } from "@/db";
+import { type CloudflareBindings } from "@/lib/env";
+import {
+  deliverAttemptQuestion,
+  loadAttemptQuestionEntries,
+  toDeliveredQuestion,
+  toDeliveryAttemptData,
+} from "@/lib/questionDelivery";
+import {
+  type AttemptErrorResponse,
+  type AttemptQuestionsRequest,
+  type GetAttemptQuestionResponse,
+  canModifyAnswer,
+  isKraepelinCategory,
+} from "shared-types";
+
+export async function getNextAttemptQuestionHandler(
+  c: Context<{ Bindings: CloudflareBindings; Variables: { user: any } }>
+): Promise<Response> {
+  try {
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+    const user = auth.user;
+    const { attemptId } = c.req.param() as AttemptQuestionsRequest;
+
+    const [attemptResult] = await db
+      .select({
+        attempt: testAttempts,
+        test: tests,
+      })
+      .from(testAttempts)
+      .innerJoin(tests, eq(testAttempts.test_id, tests.id))
+      .where(
+        and(eq(testAttempts.id, attemptId), eq(testAttempts.user_id, user.id))
+      )
+      .limit(1);
+
+    if (!attemptResult) {
+      const errorResponse: AttemptErrorResponse = {
+        success: false,
+        message: "Test attempt not found",
+        errors: [
+          {
+            field: "attempt_id",
+            message:
+              "Test attempt with the provided ID does not exist or you don't have access to it",
+            code: "NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const { attempt, test } = attemptResult;
+
+    // Column sheet tests are delivered through the Kraepelin endpoints
+    if (isKraepelinCategory(test.category)) {
+      const errorResponse: AttemptErrorResponse = {
+        success: false,
+        message: "Test is delivered as a Kraepelin sheet",
+        errors: [
+          {
+            field: "test_id",
+            message: "Use the Kraepelin sheet endpoints for this attempt",
+            code: "KRAEPELIN_TEST",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    if (!canModifyAnswer(attempt.status, attempt.end_time)) {
+      const errorResponse: AttemptErrorResponse = {
+        success: false,
+        message: "Test attempt is no longer active",
+        errors: [
+          {
+            field: "attempt_status",
+            message: "Questions are only available while the attempt is active",
+            code: "ATTEMPT_NOT_ACTIVE",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    const now = new Date();
+    const entries = await loadAttemptQuestionEntries(db, attempt);
+
+    // First question in sequence that can still be answered
+    const nextEntry = entries.find((entry) => {
+      const state = toDeliveredQuestion(entry, now).state;
+      return state === "unopened" || state === "open";
+    });
+
+    // Delivering it starts the clock of a timed question
+    if (nextEntry && !nextEntry.delivery) {
+      nextEntry.delivery = await deliverAttemptQuestion(
+        db,
+        attempt.id,
+        nextEntry.question,
+        now
+      );
+    }
+
+    const response: GetAttemptQuestionResponse = {
+      success: true,
+      message: nextEntry
+        ? "Next question retrieved successfully"
+        : "No questions left to answer",
+      data: {
+        ...toDeliveryAttemptData(attempt, entries, now),
+        question: nextEntry ? toDeliveredQuestion(nextEntry, now) : null,
+      },
+      timestamp: now.toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting next attempt question:", error);
+
+    const errorResponse: AttemptErrorResponse = {
+      success: false,
+      message: "Failed to retrieve next question",
+      ...(c.env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,152 @@
+import { Context } from "hono";
+import { eq, and } from "drizzle-orm";
+import { getDbFromEnv, testAttempts, tests } from "@/db";
+import { type CloudflareBindings } from "@/lib/env";
+import {
+  deliverAttemptQuestion,
+  loadAttemptQuestionEntries,
+  toDeliveredQuestion,
+  toDeliveryAttemptData,
+} from "@/lib/questionDelivery";
+import {
+  type AttemptErrorResponse,
+  type AttemptQuestionRequest,
+  type GetAttemptQuestionResponse,
+  canModifyAnswer,
+  isKraepelinCategory,
+} from "shared-types";
+
+export async function getAttemptQuestionHandler(
+  c: Context<{ Bindings: CloudflareBindings; Variables: { user: any } }>
+): Promise<Response> {
+  try {
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+    const user = auth.user;
+    const { attemptId, questionId } = c.req.param() as AttemptQuestionRequest;
+
+    const [attemptResult] = await db
+      .select({
+        attempt: testAttempts,
+        test: tests,
+      })
+      .from(testAttempts)
+      .innerJoin(tests, eq(testAttempts.test_id, tests.id))
+      .where(
+        and(eq(testAttempts.id, attemptId), eq(testAttempts.user_id, user.id))
+      )
+      .limit(1);
+
+    if (!attemptResult) {
+      const errorResponse: AttemptErrorResponse = {
+        success: false,
+        message: "Test attempt not found",
+        errors: [
+          {
+            field: "attempt_id",
+            message:
+              "Test attempt with the provided ID does not exist or you don't have access to it",
+            code: "NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const { attempt, test } = attemptResult;
+
+    // Column sheet tests are delivered through the Kraepelin endpoints
+    if (isKraepelinCategory(test.category)) {
+      const errorResponse: AttemptErrorResponse = {
+        success: false,
+        message: "Test is delivered as a Kraepelin sheet",
+        errors: [
+          {
+            field: "test_id",
+            message: "Use the Kraepelin sheet endpoints for this attempt",
+            code: "KRAEPELIN_TEST",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    if (!canModifyAnswer(attempt.status, attempt.end_time)) {
+      const errorResponse: AttemptErrorResponse = {
+        success: false,
+        message: "Test attempt is no longer active",
+        errors: [
+          {
+            field: "attempt_status",
+            message: "Questions are only available while the attempt is active",
+            code: "ATTEMPT_NOT_ACTIVE",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    const now = new Date();
+    const entries = await loadAttemptQuestionEntries(db, attempt);
+    const entry = entries.find((item) => item.question.id === questionId);
+
+    if (!entry) {
+      const errorResponse: AttemptErrorResponse = {
+        success: false,
+        message: "Question not found",
+        errors: [
+          {
+            field: "question_id",
+            message: "Question does not exist or does not belong to this test",
+            code: "NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    // Opening a question starts its clock; reopening keeps the first deadline
+    if (!entry.delivery) {
+      entry.delivery = await deliverAttemptQuestion(
+        db,
+        attempt.id,
+        entry.question,
+        now
+      );
+    }
+
+    const response: GetAttemptQuestionResponse = {
+      success: true,
+      message: "Question retrieved successfully",
+      data: {
+        ...toDeliveryAttemptData(attempt, entries, now),
+        question: toDeliveredQuestion(entry, now),
+      },
+      timestamp: now.toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting attempt question:", error);
+
+    const errorResponse: AttemptErrorResponse = {
+      success: false,
+      message: "Failed to retrieve question",
+      ...(c.env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -5,6 +5,8 @@ import {
   users,
   authSessions,
   isDatabaseConfigured,
+  type Database,
+  type User,
 } from "../../db";
 import { getEnv, type CloudflareBindings } from "../../lib/env";
 import {
@@ -23,9 +25,20 @@ import {
   toAuthUserData,
   parseIdentifier,
 } from "../../lib/auth";
+import {
+  getOtpProvider,
+  issueLoginOtp,
+  maskOtpDestination,
+  revokeLoginOtps,
+  verifyLoginOtp,
+  type IssueLoginOtpResult,
+} from "../../lib/otp";
 import {
   type AdminLoginRequest,
-  type ParticipantLoginRequest,
+  type ParticipantOtpChannel,
+  type ParticipantOtpRequest,
+  type ParticipantOtpVerifyRequest,
+  type ParticipantOtpResponse,
   type RefreshTokenRequest,
   type ChangePasswordRequest,
   type LogoutRequest,
@@ -41,6 +54,67 @@ import {
 } from "shared-types";
 import { createSessionManager } from "@/lib/sessionManager";
 
+// ==================== LOGIN SESSION ====================
+
+// Issue tokens for a successful login and record the auth session
+async function startLoginSession(
+  c: Context<{ Bindings: CloudflareBindings }>,
+  db: Database,
+  user: User,
+  jwtSecret: string
+): Promise<AuthTokens> {
+  // FIXED: Generate session ID first, then use it for both JWT and database
+  const sessionId = crypto.randomUUID();
+
+  const accessToken = generateAccessToken(
+    {
+      sub: user.id,
+      role: user.role,
+      nik: user.nik || "",
+      email: user.email,
+      session_id: sessionId, // Use the same session ID
+    },
+    jwtSecret
+  );
+
+  const refreshToken = generateRefreshToken(
+    user.id,
+    sessionId, // Use the same session ID
+    jwtSecret
+  );
+
+  // Create session in database with explicit session ID
+  const sessionData = {
+    id: sessionId, // FIXED: Explicitly set session ID
+    user_id: user.id,
+    token: accessToken,
+    refresh_token: refreshToken,
+    expires_at: new Date(
+      Date.now() + AUTH_CONSTANTS.REFRESH_TOKEN_EXPIRES_IN * 1000
+    ),
+    ip_address:
+      c.req.header("CF-Connecting-IP") ||
+      c.req.header("X-Forwarded-For") ||
+      "unknown",
+    user_agent: c.req.header("User-Agent") || "unknown",
+    is_active: true,
+    updated_at: new Date(), // ADDED: Required field for database
+  };
+
+  await createAuthSession(db, sessionData);
+
+  // Prepare tokens response
+  return {
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    token_type: "Bearer",
+    expires_in: AUTH_CONSTANTS.ACCESS_TOKEN_EXPIRES_IN,
+    expires_at: new Date(
+      Date.now() + AUTH_CONSTANTS.ACCESS_TOKEN_EXPIRES_IN * 1000
+    ).toISOString(),
+  };
+}
+
 // ==================== ADMIN LOGIN ====================
 
 export async function adminLoginHandler(
@@ -196,60 +270,11 @@ export async function adminLoginHandler(
       return c.json(errorResponse, 401);
     }
 
-    // FIXED: Generate session ID first, then use it for both JWT and database
-    const sessionId = crypto.randomUUID();
-
-    const accessToken = generateAccessToken(
-      {
-        sub: user.id,
-        role: user.role,
-        nik: user.nik || "",
-        email: user.email,
-        session_id: sessionId, // Use the same session ID
-      },
-      env.JWT_SECRET
-    );
-
-    const refreshToken = generateRefreshToken(
-      user.id,
-      sessionId, // Use the same session ID
-      env.JWT_SECRET
-    );
-
-    // Create session in database with explicit session ID
-    const sessionData = {
-      id: sessionId, // FIXED: Explicitly set session ID
-      user_id: user.id,
-      token: accessToken,
-      refresh_token: refreshToken,
-      expires_at: new Date(
-        Date.now() + AUTH_CONSTANTS.REFRESH_TOKEN_EXPIRES_IN * 1000
-      ),
-      ip_address:
-        c.req.header("CF-Connecting-IP") ||
-        c.req.header("X-Forwarded-For") ||
-        "unknown",
-      user_agent: c.req.header("User-Agent") || "unknown",
-      is_active: true,
-      updated_at: new Date(), // ADDED: Required field for database
-    };
-
-    await createAuthSession(db, sessionData);
+    const tokens = await startLoginSession(c, db, user, env.JWT_SECRET);
 
     // Reset login attempts and update last login
     await resetLoginAttempts(db, user.id);
 
-    // Prepare tokens response
-    const tokens: AuthTokens = {
-      access_token: accessToken,
-      refresh_token: refreshToken,
-      token_type: "Bearer",
-      expires_in: AUTH_CONSTANTS.ACCESS_TOKEN_EXPIRES_IN,
-      expires_at: new Date(
-        Date.now() + AUTH_CONSTANTS.ACCESS_TOKEN_EXPIRES_IN * 1000
-      ).toISOString(),
-    };
-
     const response: LoginResponse = {
       success: true,
       message: "Admin login successful",
@@ -274,9 +299,10 @@ export async function adminLoginHandler(
   }
 }
 
-// ==================== PARTICIPANT LOGIN ====================
+// ==================== PARTICIPANT LOGIN (OTP) ====================
 
-export async function participantLoginHandler(
+// Request a one-time login code for a participant
+export async function participantRequestOtpHandler(
   c: Context<{ Bindings: CloudflareBindings }>
 ) {
   try {
@@ -296,37 +322,153 @@ export async function participantLoginHandler(
       return c.json(errorResponse, 503);
     }
 
-    const data = (await c.req.json()) as ParticipantLoginRequest;
+    const data = (await c.req.json()) as ParticipantOtpRequest;
     const env = getEnv(c);
     const db = getDbFromEnv(c.env);
 
-    if (!env.JWT_SECRET) {
-      throw new Error("JWT_SECRET not configured");
+    const channel: ParticipantOtpChannel = data.phone ? "phone" : "email";
+    const destination = (data.phone || data.email || "").trim();
+
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(
+        and(
+          channel === "phone"
+            ? eq(users.phone, destination)
+            : eq(users.email, destination),
+          eq(users.role, "participant")
+        )
+      )
+      .limit(1);
+
+    const now = new Date();
+    const otpResponse = (expiresAt: Date, resendAvailableAt: Date) => {
+      const response: ParticipantOtpResponse = {
+        success: true,
+        message: "Verification code sent",
+        data: {
+          channel,
+          destination: maskOtpDestination(channel, destination),
+          expires_at: expiresAt.toISOString(),
+          resend_available_at: resendAvailableAt.toISOString(),
+        },
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(response, 200);
+    };
+
+    // Unknown, locked and inactive accounts get the same answer as a sent
+    // code, so this endpoint cannot be used to find out which phone numbers
+    // are registered. Lock and inactive state are reported at verify time
+    if (!user || isAccountLocked(user) || !user.is_active) {
+      return otpResponse(
+        new Date(now.getTime() + AUTH_CONSTANTS.OTP_EXPIRES_IN * 1000),
+        new Date(now.getTime() + AUTH_CONSTANTS.OTP_RESEND_COOLDOWN * 1000)
+      );
     }
 
-    // Validate phone number format (basic validation)
-    if (!data.phone || !data.phone.trim()) {
+    let result: IssueLoginOtpResult;
+    try {
+      result = await issueLoginOtp(
+        db,
+        getOtpProvider(env),
+        {
+          user_id: user.id,
+          recipient_name: user.name,
+          channel,
+          destination,
+          ip_address:
+            c.req.header("CF-Connecting-IP") || c.req.header("X-Forwarded-For"),
+        },
+        now
+      );
+    } catch (error) {
+      console.error("OTP delivery error:", error);
+
       const errorResponse: ErrorResponse = {
         success: false,
-        message: "Phone number is required",
+        message: "Failed to send verification code",
         errors: [
           {
-            field: "phone",
-            message: "Please provide a valid phone number",
-            code: AUTH_ERROR_CODES.INVALID_CREDENTIALS,
+            field: channel,
+            message: "The verification code could not be delivered",
+            code: AUTH_ERROR_CODES.OTP_DELIVERY_FAILED,
           },
         ],
         timestamp: new Date().toISOString(),
       };
-      return c.json(errorResponse, 400);
+      return c.json(errorResponse, 503);
+    }
+
+    // The earlier code stays valid; answering like a fresh send keeps a
+    // known contact from standing out by its cooldown error
+    if (result.status === "cooldown") {
+      const sentAt =
+        result.resend_available_at.getTime() -
+        AUTH_CONSTANTS.OTP_RESEND_COOLDOWN * 1000;
+      return otpResponse(
+        new Date(sentAt + AUTH_CONSTANTS.OTP_EXPIRES_IN * 1000),
+        result.resend_available_at
+      );
     }
 
-    // Find participant by phone number
+    return otpResponse(result.expires_at, result.resend_available_at);
+  } catch (error) {
+    console.error("Participant OTP request error:", error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      message: "Failed to send verification code",
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
+
+// Verify a one-time login code and log the participant in
+export async function participantVerifyOtpHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message: "DATABASE_URL is not configured",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const data = (await c.req.json()) as ParticipantOtpVerifyRequest;
+    const env = getEnv(c);
+    const db = getDbFromEnv(c.env);
+
+    if (!env.JWT_SECRET) {
+      throw new Error("JWT_SECRET not configured");
+    }
+
+    const channel: ParticipantOtpChannel = data.phone ? "phone" : "email";
+    const destination = (data.phone || data.email || "").trim();
+
     const [user] = await db
       .select()
       .from(users)
       .where(
-        and(eq(users.phone, data.phone.trim()), eq(users.role, "participant"))
+        and(
+          channel === "phone"
+            ? eq(users.phone, destination)
+            : eq(users.email, destination),
+          eq(users.role, "participant")
+        )
       )
       .limit(1);
 
@@ -336,8 +478,8 @@ export async function participantLoginHandler(
         message: "Invalid credentials",
         errors: [
           {
-            field: "credentials",
-            message: "No participant found with provided phone number",
+            field: "code",
+            message: "Invalid or expired verification code",
             code: AUTH_ERROR_CODES.INVALID_CREDENTIALS,
           },
         ],
@@ -381,60 +523,73 @@ export async function participantLoginHandler(
       return c.json(errorResponse, 401);
     }
 
-    // FIXED: Generate session ID first, then use it for both JWT and database
-    const sessionId = crypto.randomUUID();
+    const result = await verifyLoginOtp(db, {
+      user_id: user.id,
+      channel,
+      code: data.code,
+    });
 
-    const accessToken = generateAccessToken(
-      {
-        sub: user.id,
-        role: user.role,
-        nik: user.nik || "",
-        email: user.email,
-        session_id: sessionId, // Use the same session ID
-      },
-      env.JWT_SECRET
-    );
+    if (result === "expired") {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Verification code expired",
+        errors: [
+          {
+            field: "code",
+            message: "The verification code has expired. Request a new one.",
+            code: AUTH_ERROR_CODES.OTP_EXPIRED,
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 401);
+    }
 
-    const refreshToken = generateRefreshToken(
-      user.id,
-      sessionId, // Use the same session ID
-      env.JWT_SECRET
-    );
+    if (result === "invalid") {
+      // Wrong codes count towards the same lockout as wrong passwords
+      await incrementLoginAttempts(db, user.id);
 
-    // Create session in database with explicit session ID
-    const sessionData = {
-      id: sessionId, // FIXED: Explicitly set session ID
-      user_id: user.id,
-      token: accessToken,
-      refresh_token: refreshToken,
-      expires_at: new Date(
-        Date.now() + AUTH_CONSTANTS.REFRESH_TOKEN_EXPIRES_IN * 1000
-      ),
-      ip_address:
-        c.req.header("CF-Connecting-IP") ||
-        c.req.header("X-Forwarded-For") ||
-        "unknown",
-      user_agent: c.req.header("User-Agent") || "unknown",
-      is_active: true,
-      updated_at: new Date(), // ADDED: Required field for database
-    };
+      const currentAttempts = (user.login_attempts || 0) + 1;
+      if (currentAttempts >= AUTH_CONSTANTS.MAX_LOGIN_ATTEMPTS) {
+        await lockUserAccount(db, user.id);
+        await revokeLoginOtps(db, user.id);
+
+        const errorResponse: ErrorResponse = {
+          success: false,
+          message: "Account is locked",
+          errors: [
+            {
+              field: "account",
+              message:
+                "Account is locked due to too many failed login attempts. Try again later.",
+              code: AUTH_ERROR_CODES.ACCOUNT_LOCKED,
+            },
+          ],
+          timestamp: new Date().toISOString(),
+        };
+        return c.json(errorResponse, 423);
+      }
+
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Invalid verification code",
+        errors: [
+          {
+            field: "code",
+            message: `Incorrect verification code. ${AUTH_CONSTANTS.MAX_LOGIN_ATTEMPTS - currentAttempts} attempt(s) left.`,
+            code: AUTH_ERROR_CODES.OTP_INVALID,
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 401);
+    }
 
-    await createAuthSession(db, sessionData);
+    const tokens = await startLoginSession(c, db, user, env.JWT_SECRET);
 
     // Reset login attempts and update last login
     await resetLoginAttempts(db, user.id);
 
-    // Prepare tokens response
-    const tokens: AuthTokens = {
-      access_token: accessToken,
-      refresh_token: refreshToken,
-      token_type: "Bearer",
-      expires_in: AUTH_CONSTANTS.ACCESS_TOKEN_EXPIRES_IN,
-      expires_at: new Date(
-        Date.now() + AUTH_CONSTANTS.ACCESS_TOKEN_EXPIRES_IN * 1000
-      ).toISOString(),
-    };
-
     const response: LoginResponse = {
       success: true,
       message: "Participant login successful",
@@ -447,7 +602,7 @@ export async function participantLoginHandler(
 
     return c.json(response, 200);
   } catch (error) {
-    console.error("Participant login error:", error);
+    console.error("Participant OTP verify error:", error);
 
     const errorResponse: ErrorResponse = {
       success: false,
@@ -3,7 +3,8 @@ import { zValidator } from "@hono/zod-validator";
 import { type CloudflareBindings } from "@/lib/env";
 import {
   AdminLoginRequestSchema,
-  ParticipantLoginRequestSchema,
+  ParticipantOtpRequestSchema,
+  ParticipantOtpVerifyRequestSchema,
   RefreshTokenRequestSchema,
   ChangePasswordRequestSchema,
   LogoutRequestSchema,
@@ -12,7 +13,8 @@ import {
 } from "shared-types";
 import {
   adminLoginHandler,
-  participantLoginHandler,
+  participantRequestOtpHandler,
+  participantVerifyOtpHandler,
   refreshTokenHandler,
   logoutHandler,
   getProfileHandler,
@@ -54,11 +56,11 @@ authRoutes.post(
   adminLoginHandler
 );
 
-// Participant Login Endpoint
+// Participant Login Step 1: send a one-time code to phone or email
 authRoutes.post(
-  "/participant/login",
+  "/participant/otp/request",
   loginRateLimit,
-  zValidator("json", ParticipantLoginRequestSchema, (result, c) => {
+  zValidator("json", ParticipantOtpRequestSchema, (result, c) => {
     if (!result.success) {
       const errorResponse: ErrorResponse = {
         success: false,
@@ -73,7 +75,29 @@ authRoutes.post(
       return c.json(errorResponse, 400);
     }
   }),
-  participantLoginHandler
+  participantRequestOtpHandler
+);
+
+// Participant Login Step 2: verify the code and issue tokens
+authRoutes.post(
+  "/participant/otp/verify",
+  loginRateLimit,
+  zValidator("json", ParticipantOtpVerifyRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Validation failed",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  participantVerifyOtpHandler
 );
 
 // Refresh Token Endpoint
@@ -207,7 +231,8 @@ authRoutes.get("/health", (c) => {
     timestamp: new Date().toISOString(),
     endpoints: {
       admin_login: "POST /auth/admin/login",
-      participant_login: "POST /auth/participant/login",
+      participant_otp_request: "POST /auth/participant/otp/request",
+      participant_otp_verify: "POST /auth/participant/otp/verify",
       refresh_token: "POST /auth/refresh",
       profile: "GET /auth/me",
       logout: "POST /auth/logout",
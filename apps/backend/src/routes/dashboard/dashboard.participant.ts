@@ -9,6 +9,7 @@ import {
   sessionParticipants,
 } from "@/db";
 import { type CloudflareBindings } from "@/lib/env";
+import { getSessionModuleAccess } from "@/lib/attemptRequirements";
 
 export async function getParticipantDashboardHandler(
   c: Context<{ Bindings: CloudflareBindings; Variables: { user: any } }>
@@ -79,6 +80,26 @@ export async function getParticipantDashboardHandler(
         session.status === "active" && new Date(session.start_time || "") > now
     );
 
+    // Sessions open right now, with which modules are locked or available
+    const openSessions = userSessions.filter(
+      (session) =>
+        session.status === "active" &&
+        session.start_time !== null &&
+        session.end_time !== null &&
+        session.start_time <= now &&
+        session.end_time > now
+    );
+    const activeSessions = await Promise.all(
+      openSessions.map(async (session) => ({
+        id: session.session_id,
+        session_name: session.session_name,
+        session_code: session.session_code,
+        start_time: session.start_time?.toISOString() || "",
+        end_time: session.end_time?.toISOString() || "",
+        modules: await getSessionModuleAccess(db, user.id, session.session_id),
+      }))
+    );
+
     // Get recent completed tests
     const recentTests = userAttempts
       .filter((attempt) => attempt.status === "completed")
@@ -141,6 +162,7 @@ export async function getParticipantDashboardHandler(
             new Date(session.start_time || "").getTime() - now.getTime() <=
             30 * 60 * 1000, // 30 minutes before
         })),
+        active_sessions: activeSessions,
       },
       timestamp: new Date().toISOString(),
     };
@@ -150,6 +150,12 @@ dashboardRoutes.get("/health", generalApiRateLimit, async (c) => {
 
     const responseTime = Date.now() - startTime;
 
+    // Last run of the scheduled jobs (cron every 3 minutes)
+    const { getRecentSchedulerRuns, toSchedulerRunData } = await import(
+      "@/lib/scheduler"
+    );
+    const [lastRun] = await getRecentSchedulerRuns(db, 1);
+
     const health = {
       success: true,
       message: "Dashboard services are healthy",
@@ -159,6 +165,10 @@ dashboardRoutes.get("/health", generalApiRateLimit, async (c) => {
           status: "connected",
           response_time_ms: responseTime,
         },
+        scheduler: {
+          status: lastRun ? lastRun.status : "never_run",
+          last_run: lastRun ? toSchedulerRunData(lastRun) : null,
+        },
         services: {
           authentication: "active",
           dashboard_apis: "active",
@@ -0,0 +1,58 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { type CloudflareBindings } from "@/lib/env";
+import {
+  GetRegenciesRequestSchema,
+  GetRegenciesQuerySchema,
+  type ErrorResponse,
+} from "shared-types";
+import { getProvincesHandler } from "./region.provinces";
+import { getRegenciesHandler } from "./region.regencies";
+import { generalApiRateLimit } from "@/middleware/rateLimiter";
+
+const regionRoutes = new Hono<{ Bindings: CloudflareBindings }>();
+
+// ==================== PUBLIC ROUTES ====================
+// Reference data for the address fields, used by the registration forms
+
+// Get Provinces
+regionRoutes.get("/provinces", generalApiRateLimit, getProvincesHandler);
+
+// Get Regencies and Cities of a Province
+regionRoutes.get(
+  "/provinces/:provinceCode/regencies",
+  generalApiRateLimit,
+  zValidator("param", GetRegenciesRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Invalid province code",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator("query", GetRegenciesQuerySchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Invalid query parameters",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getRegenciesHandler
+);
+
+export { regionRoutes };
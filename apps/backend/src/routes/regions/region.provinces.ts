@@ -0,0 +1,41 @@
+import { Context } from "hono";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import {
+  REGION_PROVINCES,
+  type GetProvincesResponse,
+  type ErrorResponse,
+} from "shared-types";
+
+export async function getProvincesHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    const response: GetProvincesResponse = {
+      success: true,
+      message: `Found ${REGION_PROVINCES.length} province(s)`,
+      data: REGION_PROVINCES.map(({ code, name }) => ({ code, name })),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting provinces:", error);
+
+    const env = getEnv(c);
+    const errorResponse: ErrorResponse = {
+      success: false,
+      message: "Failed to retrieve provinces",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,75 @@
+import { Context } from "hono";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { getRegencies } from "@/lib/regions";
+import {
+  REGION_ERROR_CODES,
+  getProvinceByCode,
+  normalizeRegionName,
+  type GetRegenciesRequest,
+  type GetRegenciesQuery,
+  type GetRegenciesResponse,
+  type ErrorResponse,
+} from "shared-types";
+
+/**
+ * Regencies and cities of a province for the cascading address dropdowns,
+ * optionally narrowed by a search on the name
+ */
+export async function getRegenciesHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    const { provinceCode } = c.req.param() as GetRegenciesRequest;
+    const { search } = c.req.query() as GetRegenciesQuery;
+
+    const province = getProvinceByCode(provinceCode);
+    if (!province) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Province not found",
+        errors: [
+          {
+            field: "provinceCode",
+            message: `No province found with code: ${provinceCode}`,
+            code: REGION_ERROR_CODES.PROVINCE_NOT_FOUND,
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const term = search?.trim() ? normalizeRegionName(search) : "";
+    const regencies = getRegencies(province.code).filter(
+      (regency) => !term || normalizeRegionName(regency.name).includes(term)
+    );
+
+    const response: GetRegenciesResponse = {
+      success: true,
+      message: `Found ${regencies.length} regency(ies) in ${province.name}`,
+      data: { province, regencies },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting regencies:", error);
+
+    const env = getEnv(c);
+    const errorResponse: ErrorResponse = {
+      success: false,
+      message: "Failed to retrieve regencies",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -9,8 +9,15 @@ import {
   tests,
   users,
   sessionModules,
+  sessionResults,
 } from "@/db";
 import { type CloudflareBindings } from "@/lib/env";
+import {
+  REPORT_CONTENT_TYPES,
+  renderBatchReportCsv,
+  renderBatchReportWorkbook,
+} from "@/lib/report-export";
+import { buildReportSignOff } from "@/lib/sessionResults";
 import {
   type GetBatchReportQuery,
   type GetBatchReportResponse,
@@ -21,6 +28,8 @@ import {
   calculateStrengthLevel,
   generateTraitInterpretation,
   determineRecommendationCategory,
+  generateReportFileName,
+  getSessionResultReviewStatus,
   REPORT_LIMITS,
 } from "shared-types";
 
@@ -152,6 +161,23 @@ export async function getBatchReportHandler(
       .where(eq(sessionModules.session_id, sessionId))
       .orderBy(sessionModules.sequence);
 
+    // Psychologist review state per participant
+    const [reviewRows, signOff] = await Promise.all([
+      db
+        .select({
+          user_id: sessionResults.user_id,
+          is_final: sessionResults.is_final,
+          reviewed_at: sessionResults.reviewed_at,
+        })
+        .from(sessionResults)
+        .where(eq(sessionResults.session_id, sessionId)),
+      buildReportSignOff(db, { session_ids: [sessionId] }),
+    ]);
+    const reviewByUser = new Map(reviewRows.map((row) => [row.user_id, row]));
+    const signatureByUser = new Map(
+      signOff.signatures.map((signature) => [signature.user_id, signature])
+    );
+
     // Process each participant's data
     const participantResults = await Promise.all(
       sessionParticipantsData.map(async (participant) => {
@@ -477,6 +503,18 @@ export async function getBatchReportHandler(
               Math.round(responsePatternValidity * 100) / 100,
             time_efficiency: Math.round(timeEfficiency),
           },
+
+          // Psychologist Sign-off
+          review_status: getSessionResultReviewStatus(
+            reviewByUser.get(participant.user_id) || {
+              is_final: false,
+              reviewed_at: null,
+            }
+          ),
+          signed_by:
+            signatureByUser.get(participant.user_id)?.signed_by_name || null,
+          signed_at:
+            signatureByUser.get(participant.user_id)?.signed_at || null,
         };
       })
     );
@@ -585,6 +623,7 @@ export async function getBatchReportHandler(
         completion_rate_average: completionRateAverage,
         time_efficiency_average: timeEfficiencyAverage,
       },
+      sign_off: signOff,
       export_info: {
         format: queryParams.format,
         generated_at: new Date().toISOString(),
@@ -598,6 +637,30 @@ export async function getBatchReportHandler(
       },
     };
 
+    if (queryParams.format === "excel" || queryParams.format === "csv") {
+      const exportOptions = {
+        language: queryParams.language,
+        include_personal_data: queryParams.include_personal_data,
+        include_trait_breakdown: queryParams.include_trait_breakdown,
+        include_recommendations: queryParams.include_recommendations,
+      };
+      const file =
+        queryParams.format === "excel"
+          ? renderBatchReportWorkbook(reportData, exportOptions)
+          : renderBatchReportCsv(reportData, exportOptions);
+      const fileName = generateReportFileName(
+        "batch",
+        queryParams.format,
+        session.session_code
+      );
+
+      return c.body(file, 200, {
+        "Content-Type": REPORT_CONTENT_TYPES[queryParams.format],
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "private, no-store",
+      });
+    }
+
     const response: GetBatchReportResponse = {
       success: true,
       message: `Batch results report for session "${session.session_name}" generated successfully`,
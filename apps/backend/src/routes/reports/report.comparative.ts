@@ -10,7 +10,9 @@ import {
   users,
 } from "@/db";
 import { type CloudflareBindings } from "@/lib/env";
+import { createNormResolver, type NormResolver } from "@/lib/norms";
 import {
+  DEFAULT_NORM_SCALE,
   type GetComparativeReportQuery,
   type GetComparativeReportResponse,
   type ReportErrorResponse,
@@ -147,10 +149,56 @@ export async function getComparativeReportHandler(
         )
       );
 
+    // Norm-referenced percentiles per result, averaged per participant
+    const sessionScores = await db
+      .select({
+        user_id: testResults.user_id,
+        test_id: testResults.test_id,
+        scaled_score: testResults.scaled_score,
+        end_time: testAttempts.end_time,
+        start_time: testAttempts.start_time,
+      })
+      .from(testResults)
+      .innerJoin(testAttempts, eq(testResults.attempt_id, testAttempts.id))
+      .where(
+        and(
+          eq(testAttempts.session_test_id, sessionId),
+          sql`${testResults.scaled_score} IS NOT NULL`
+        )
+      );
+
+    const normResolver = await createNormResolver(
+      db,
+      sessionScores.map((score) => score.test_id)
+    );
+
+    const normPercentilesByUser = new Map<string, number[]>();
+    for (const score of sessionScores) {
+      const participant = participantResults.find(
+        (p) => p.user_id === score.user_id
+      );
+      if (!participant) continue;
+      const norm = normResolver.resolve(
+        score.test_id,
+        DEFAULT_NORM_SCALE,
+        participant,
+        parseFloat(score.scaled_score || "0"),
+        score.end_time || score.start_time
+      );
+      if (!norm) continue;
+      const percentiles = normPercentilesByUser.get(score.user_id) || [];
+      percentiles.push(norm.percentile);
+      normPercentilesByUser.set(score.user_id, percentiles);
+    }
+
     // Process participant data for rankings
     const processedParticipants = participantResults.map((participant) => {
       const overallScore = Number(participant.overall_score) || 0;
-      const overallPercentile = Number(participant.overall_percentile) || 0;
+      const normPercentiles = normPercentilesByUser.get(participant.user_id);
+      const overallPercentile = normPercentiles?.length
+        ? normPercentiles.reduce((sum, value) => sum + value, 0) /
+          normPercentiles.length
+        : Number(participant.overall_percentile) || 0;
       const completionRate = calculateCompletionRate(
         Number(participant.completed_attempts),
         participant.total_attempts
@@ -326,8 +374,12 @@ export async function getComparativeReportHandler(
           .select({
             user_id: users.id,
             name: users.name,
+            gender: users.gender,
+            education: users.education,
+            birth_date: users.birth_date,
             scaled_score: testResults.scaled_score,
             percentile: testResults.percentile,
+            end_time: testAttempts.end_time,
           })
           .from(testResults)
           .innerJoin(testAttempts, eq(testResults.attempt_id, testAttempts.id))
@@ -347,8 +399,12 @@ export async function getComparativeReportHandler(
           .select({
             user_id: users.id,
             name: users.name,
+            gender: users.gender,
+            education: users.education,
+            birth_date: users.birth_date,
             scaled_score: testResults.scaled_score,
             percentile: testResults.percentile,
+            end_time: testAttempts.end_time,
           })
           .from(testResults)
           .innerJoin(testAttempts, eq(testResults.attempt_id, testAttempts.id))
@@ -403,13 +459,21 @@ export async function getComparativeReportHandler(
             user_id: p.user_id,
             name: p.name,
             score: Math.round(parseFloat(p.scaled_score || "0")),
-            percentile: Math.round(parseFloat(p.percentile || "0")),
+            percentile: resolvePerformerPercentile(
+              normResolver,
+              test.test_id,
+              p
+            ),
           })),
           bottom_performers: bottomPerformers.map((p) => ({
             user_id: p.user_id,
             name: p.name,
             score: Math.round(parseFloat(p.scaled_score || "0")),
-            percentile: Math.round(parseFloat(p.percentile || "0")),
+            percentile: resolvePerformerPercentile(
+              normResolver,
+              test.test_id,
+              p
+            ),
           })),
           score_distribution: scoreDistribution,
         };
@@ -794,3 +858,28 @@ export async function getComparativeReportHandler(
     return c.json(errorResponse, 500);
   }
 }
+
+// Performer percentile from the matching norm group, else the stored value
+function resolvePerformerPercentile(
+  normResolver: NormResolver,
+  testId: string,
+  performer: {
+    gender: string | null;
+    education: string | null;
+    birth_date: Date | null;
+    scaled_score: string | null;
+    percentile: string | null;
+    end_time: Date | null;
+  }
+): number {
+  const norm = normResolver.resolve(
+    testId,
+    DEFAULT_NORM_SCALE,
+    performer,
+    parseFloat(performer.scaled_score || "0"),
+    performer.end_time
+  );
+  return Math.round(
+    norm ? norm.percentile : parseFloat(performer.percentile || "0")
+  );
+}
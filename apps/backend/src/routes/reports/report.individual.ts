@@ -11,6 +11,13 @@ import {
 } from "@/db";
 import { type CloudflareBindings } from "@/lib/env";
 import {
+  REPORT_CONTENT_TYPES,
+  renderIndividualReportPdf,
+} from "@/lib/report-export";
+import { createNormResolver } from "@/lib/norms";
+import { buildReportSignOff } from "@/lib/sessionResults";
+import {
+  DEFAULT_NORM_SCALE,
   type GetIndividualReportQuery,
   type GetIndividualReportResponse,
   type ReportErrorResponse,
@@ -21,6 +28,7 @@ import {
   calculateReportTimeEfficiency,
   calculateReliabilityIndex,
   generateExecutiveSummary,
+  generateReportFileName,
 } from "shared-types";
 
 export async function getIndividualReportHandler(
@@ -200,6 +208,14 @@ export async function getIndividualReportHandler(
       };
     });
 
+    // Norm tables for every test taken, resolved against this participant
+    const normResolver = await createNormResolver(
+      db,
+      userAttempts
+        .filter((attempt) => attempt.test)
+        .map((attempt) => attempt.test!.id)
+    );
+
     // Process test performances
     const testPerformances = await Promise.all(
       userAttempts
@@ -239,8 +255,18 @@ export async function getIndividualReportHandler(
             optimalTimeMinutes
           );
 
+          const normReferenceDate =
+            attemptData.end_time || attemptData.start_time;
+
           // Generate trait scores with interpretations
           const processedTraitScores = traitScores.map((trait) => {
+            const traitNorm = normResolver.resolve(
+              test.id,
+              trait.name,
+              targetUser,
+              trait.score,
+              normReferenceDate
+            );
             const strengthLevel = calculateStrengthLevel(trait.score);
             const interpretation = generateTraitInterpretation(
               trait.name,
@@ -254,7 +280,14 @@ export async function getIndividualReportHandler(
               trait_category: trait.category || "General",
               raw_score: trait.score,
               scaled_score: trait.score,
-              percentile: null,
+              percentile: traitNorm
+                ? traitNorm.percentile
+                : typeof trait.percentile === "number"
+                  ? trait.percentile
+                  : null,
+              t_score: traitNorm?.t_score ?? null,
+              stanine: traitNorm?.stanine ?? null,
+              norm_group: traitNorm?.norm_name ?? null,
               interpretation,
               description: trait.description || interpretation,
               strength_level: strengthLevel,
@@ -278,6 +311,20 @@ export async function getIndividualReportHandler(
             )
             .map((trait) => trait.trait_name);
 
+          const scaledScore = result.scaled_score
+            ? parseFloat(result.scaled_score)
+            : null;
+          const testNorm =
+            scaledScore !== null
+              ? normResolver.resolve(
+                  test.id,
+                  DEFAULT_NORM_SCALE,
+                  targetUser,
+                  scaledScore,
+                  normReferenceDate
+                )
+              : null;
+
           return {
             test_id: test.id,
             test_name: test.name,
@@ -285,12 +332,15 @@ export async function getIndividualReportHandler(
             module_type: test.module_type,
             attempt_id: attemptData.id,
             raw_score: result.raw_score ? parseFloat(result.raw_score) : null,
-            scaled_score: result.scaled_score
-              ? parseFloat(result.scaled_score)
-              : null,
-            percentile: result.percentile
-              ? parseFloat(result.percentile)
-              : null,
+            scaled_score: scaledScore,
+            percentile: testNorm
+              ? testNorm.percentile
+              : result.percentile
+                ? parseFloat(result.percentile)
+                : null,
+            t_score: testNorm?.t_score ?? null,
+            stanine: testNorm?.stanine ?? null,
+            norm_group: testNorm?.norm_name ?? null,
             grade: result.grade,
             completion_rate: parseFloat(result.completion_percentage || "0"),
             time_spent_minutes: actualTimeMinutes,
@@ -551,6 +601,12 @@ export async function getIndividualReportHandler(
       ];
     }
 
+    // Psychologist sign-off of the sessions this report covers
+    const signOff = await buildReportSignOff(db, {
+      session_ids: sessionsParticipated.map((session) => session.session_id),
+      user_id: targetUser.id,
+    });
+
     // Build report data
     const reportData: IndividualReportData = {
       participant: {
@@ -613,9 +669,28 @@ export async function getIndividualReportHandler(
                   : "Data reliability level below optimal. Results require careful interpretation.",
               ]
             : [],
+        sign_off: signOff,
       },
     };
 
+    if (queryParams.format === "pdf") {
+      const file = await renderIndividualReportPdf(
+        reportData,
+        queryParams.language
+      );
+      const fileName = generateReportFileName(
+        "individual",
+        "pdf",
+        targetUser.name
+      );
+
+      return c.body(file, 200, {
+        "Content-Type": REPORT_CONTENT_TYPES.pdf,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "private, no-store",
+      });
+    }
+
     const response: GetIndividualReportResponse = {
       success: true,
       message: `Individual assessment report for ${targetUser.name} generated successfully`,
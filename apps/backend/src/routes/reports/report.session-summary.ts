@@ -11,6 +11,11 @@ import {
   sessionModules,
 } from "@/db";
 import { type CloudflareBindings } from "@/lib/env";
+import {
+  REPORT_CONTENT_TYPES,
+  renderSessionSummaryReportPdf,
+} from "@/lib/report-export";
+import { buildReportSignOff } from "@/lib/sessionResults";
 import {
   type GetSessionSummaryReportQuery,
   type GetSessionSummaryReportResponse,
@@ -18,6 +23,7 @@ import {
   type SessionSummaryReportData,
   calculateCompletionRate,
   generateExecutiveSummary,
+  generateReportFileName,
 } from "shared-types";
 
 export async function getSessionSummaryReportHandler(
@@ -585,6 +591,9 @@ export async function getSessionSummaryReportHandler(
       ];
     }
 
+    // Psychologist sign-off of the participants' session results
+    const signOff = await buildReportSignOff(db, { session_ids: [sessionId] });
+
     // Build report data
     const reportData: SessionSummaryReportData = {
       session_info: {
@@ -598,6 +607,7 @@ export async function getSessionSummaryReportHandler(
         description: session.description,
         proctor_name: proctorName,
       },
+      sign_off: signOff,
       participation_stats: {
         total_invited: totalInvited.count,
         total_registered: totalRegistered.count,
@@ -626,6 +636,24 @@ export async function getSessionSummaryReportHandler(
       charts,
     };
 
+    if (queryParams.format === "pdf") {
+      const file = await renderSessionSummaryReportPdf(
+        reportData,
+        queryParams.language
+      );
+      const fileName = generateReportFileName(
+        "session_summary",
+        "pdf",
+        session.session_code
+      );
+
+      return c.body(file, 200, {
+        "Content-Type": REPORT_CONTENT_TYPES.pdf,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "private, no-store",
+      });
+    }
+
     const response: GetSessionSummaryReportResponse = {
       success: true,
       message: `Session summary report for "${session.session_name}" generated successfully`,
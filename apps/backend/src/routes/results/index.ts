@@ -10,6 +10,17 @@ import {
   CalculateTestResultRequestSchema,
   GetResultReportRequestSchema,
   GetResultReportQuerySchema,
+  GetResultCertificateRequestSchema,
+  GetResultCertificateQuerySchema,
+  VerifyCertificateRequestSchema,
+  GetSessionResultReviewQueueQuerySchema,
+  GetSessionResultByIdRequestSchema,
+  UpdateSessionResultReviewRequestSchema,
+  GetManualScoringQueueQuerySchema,
+  GetRaterAgreementQuerySchema,
+  ManualScoringAnswerRequestSchema,
+  SubmitAnswerRatingRequestSchema,
+  DrawingReplayRequestSchema,
   type TestResultErrorResponse,
 } from "shared-types";
 import { getResultByAttemptIdHandler } from "./result.get-attempt";
@@ -17,6 +28,18 @@ import { getUserResultsHandler } from "./result.get-user";
 import { getTestResultsHandler } from "./result.get-test";
 import { calculateTestResultHandler } from "./result.calculate";
 import { generateResultReportHandler } from "./result.generate-report";
+import { generateResultCertificateHandler } from "./result.generate-certificate";
+import { verifyCertificateHandler } from "./result.verify-certificate";
+import { getSessionResultReviewQueueHandler } from "./result.review-queue";
+import { getSessionResultHandler } from "./result.get-session-result";
+import { reviewSessionResultHandler } from "./result.review-session-result";
+import { finalizeSessionResultHandler } from "./result.finalize-session-result";
+import { getManualScoringQueueHandler } from "./result.scoring-queue";
+import { getManualScoringAnswerHandler } from "./result.get-scoring-answer";
+import { rateAnswerHandler } from "./result.rate-answer";
+import { getRaterAgreementHandler } from "./result.rater-agreement";
+import { getDrawingReplayHandler } from "./result.drawing-replay";
+import { getDrawingImageHandler } from "./result.drawing-image";
 import { authenticateUser, requireAdmin } from "@/middleware/auth";
 import { generalApiRateLimit } from "@/middleware/rateLimiter";
 
@@ -47,8 +70,6 @@ resultRoutes.get(
   getResultByAttemptIdHandler
 );
 
-// ==================== ADDITIONAL ROUTES (CERTIFICATE - TO BE IMPLEMENTED) ====================
-
 // Get User Results (Admin only)
 resultRoutes.get(
   "/user/:userId",
@@ -189,19 +210,340 @@ resultRoutes.get(
   generateResultReportHandler
 );
 
+// ==================== SESSION RESULT REVIEW ROUTES ====================
+
+// Get Session Result Review Queue (Admin only)
+resultRoutes.get(
+  "/sessions/review-queue",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("query", GetSessionResultReviewQueueQuerySchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Invalid query parameters",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getSessionResultReviewQueueHandler
+);
+
+// Get Session Result by ID (Admin only)
+resultRoutes.get(
+  "/sessions/:sessionResultId",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", GetSessionResultByIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Invalid session result ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getSessionResultHandler
+);
+
+// Review Session Result narrative (Admin only)
+resultRoutes.put(
+  "/sessions/:sessionResultId/review",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", GetSessionResultByIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Invalid session result ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator("json", UpdateSessionResultReviewRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Validation failed",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  reviewSessionResultHandler
+);
+
+// Finalize (sign off) Session Result (Admin only)
+resultRoutes.post(
+  "/sessions/:sessionResultId/finalize",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", GetSessionResultByIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Invalid session result ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  finalizeSessionResultHandler
+);
+
+// ==================== MANUAL SCORING ROUTES ====================
+
+// Get Manual Scoring Queue (Admin only)
+resultRoutes.get(
+  "/manual-scoring/queue",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("query", GetManualScoringQueueQuerySchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Invalid query parameters",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getManualScoringQueueHandler
+);
+
+// Get Inter-Rater Agreement (Admin only)
+resultRoutes.get(
+  "/manual-scoring/agreement",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("query", GetRaterAgreementQuerySchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Invalid query parameters",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getRaterAgreementHandler
+);
+
+// Get Answer for Manual Scoring (Admin only)
+resultRoutes.get(
+  "/manual-scoring/answers/:answerId",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", ManualScoringAnswerRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Invalid answer ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getManualScoringAnswerHandler
+);
+
+// Get Drawing Replay (Admin only)
+resultRoutes.get(
+  "/manual-scoring/answers/:answerId/drawing",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", DrawingReplayRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Invalid answer ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getDrawingReplayHandler
+);
+
+// Get Rendered Drawing Image (Admin only)
+resultRoutes.get(
+  "/manual-scoring/answers/:answerId/drawing/image",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", DrawingReplayRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Invalid answer ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getDrawingImageHandler
+);
+
+// Rate Answer per Dimension (Admin only)
+resultRoutes.put(
+  "/manual-scoring/answers/:answerId/rating",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", ManualScoringAnswerRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Invalid answer ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator("json", SubmitAnswerRatingRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Validation failed",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  rateAnswerHandler
+);
+
+// ==================== CERTIFICATE ROUTES ====================
+
 // Generate Test Result Certificate (Participant can access own, Admin can access all)
 resultRoutes.get(
   "/:resultId/certificate",
   generalApiRateLimit,
   authenticateUser,
-  async (c) => {
-    const errorResponse: TestResultErrorResponse = {
-      success: false,
-      message: "Generate test result certificate endpoint not implemented yet",
-      timestamp: new Date().toISOString(),
-    };
-    return c.json(errorResponse, 501);
-  }
+  zValidator("param", GetResultCertificateRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Invalid result ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator("query", GetResultCertificateQuerySchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Invalid query parameters",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  generateResultCertificateHandler
+);
+
+// Verify Certificate (Public - no authentication, for third parties)
+resultRoutes.get(
+  "/certificates/verify/:verificationCode",
+  generalApiRateLimit,
+  zValidator("param", VerifyCertificateRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Invalid verification code",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  verifyCertificateHandler
 );
 
 // ==================== UTILITY ROUTES ====================
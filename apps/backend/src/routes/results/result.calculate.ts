@@ -1,21 +1,12 @@
 import { Context } from "hono";
-import { eq, and, count } from "drizzle-orm";
-import {
-  getDbFromEnv,
-  testResults,
-  testAttempts,
-  tests,
-  users,
-  userAnswers,
-  questions,
-} from "@/db";
+import { eq } from "drizzle-orm";
+import { getDbFromEnv, testResults, testAttempts, tests, users } from "@/db";
 import { type CloudflareBindings } from "@/lib/env";
-import {
-  type CalculateTestResultRequest,
-  type CalculateTestResultResponse,
-  type TestResultErrorResponse,
-  calculateGrade,
-  determinePassStatus,
+import { calculateAttemptResult } from "@/lib/testResults";
+import type {
+  CalculateTestResultRequest,
+  CalculateTestResultResponse,
+  TestResultErrorResponse,
 } from "shared-types";
 
 export async function calculateTestResultHandler(
@@ -181,179 +172,17 @@ export async function calculateTestResultHandler(
       return c.json(errorResponse, 400);
     }
 
-    // Get all answers for this attempt
-    const answersResult = await db
-      .select({
-        answer: userAnswers,
-        question: questions,
-      })
-      .from(userAnswers)
-      .leftJoin(questions, eq(userAnswers.question_id, questions.id))
-      .where(
-        and(
-          eq(userAnswers.attempt_id, attempt.attempt.id),
-          eq(userAnswers.user_id, attempt.user.id)
-        )
-      );
-
-    const options = requestData.calculation_options || {};
-
-    // Calculate basic scores
-    const totalQuestions = attempt.test.total_questions || 0;
-    const answeredQuestions = attempt.attempt.questions_answered || 0;
-    const completionPercentage =
-      totalQuestions > 0 ? (answeredQuestions / totalQuestions) * 100 : 0;
-
-    // Calculate raw score (simple scoring for now)
-    let rawScore = 0;
-    let correctAnswers = 0;
-    const scoredAnswers: Array<{
-      trait: string;
-      raw_score: number;
-      scaled_score: number;
-      percentile: number;
-    }> = [];
-
-    for (const { answer, question } of answersResult) {
-      if (!question || !answer.answer) continue;
-
-      // Simple scoring logic (can be extended based on test type)
-      let questionScore = 0;
-      if (answer.is_correct === true) {
-        questionScore = 1;
-        correctAnswers++;
-      } else if (answer.score) {
-        questionScore = parseFloat(answer.score);
-      }
-
-      rawScore += questionScore;
-
-      // For trait-based tests, we would calculate trait scores here
-      // This is a simplified version
-      scoredAnswers.push({
-        trait: question.question_type || "general",
-        raw_score: questionScore,
-        scaled_score: questionScore * 10, // Simple scaling
-        percentile: Math.min(100, questionScore * 20), // Simple percentile
-      });
-    }
-
-    // Calculate scaled score
-    const scaledScore =
-      totalQuestions > 0 ? (rawScore / totalQuestions) * 100 : 0;
-
-    // Calculate percentile (simplified - in real system would compare with norms)
-    const percentile = Math.min(100, scaledScore);
-
-    // Calculate grade
-    const passingScore = attempt.test.passing_score
-      ? parseFloat(attempt.test.passing_score)
-      : 60;
-    const grade = calculateGrade(scaledScore, passingScore);
-    const isPassed = determinePassStatus(scaledScore, passingScore);
-
-    // Generate traits based on test category
-    let traits = null;
-    if (
-      (options as any).include_personality_analysis &&
-      attempt.test.module_type === "personality"
-    ) {
-      traits = generatePersonalityTraits(answersResult, attempt.test.category);
-    } else if (
-      (options as any).include_intelligence_scoring &&
-      attempt.test.module_type === "intelligence"
-    ) {
-      traits = generateIntelligenceTraits(answersResult, attempt.test.category);
-    }
-
-    // Generate description and recommendations
-    let description = `Test completed with ${Math.round(completionPercentage)}% completion rate. `;
-    description += `Scored ${Math.round(scaledScore)} out of 100 (${grade}).`;
-
-    let recommendations = null;
-    if ((options as any).include_recommendations) {
-      recommendations = generateRecommendations(
-        scaledScore,
-        grade,
-        isPassed,
-        attempt.test
+    const { result, calculationMethod, scoredAnswers, answersProcessed } =
+      await calculateAttemptResult(
+        db,
+        {
+          attempt: attempt.attempt,
+          test: attempt.test,
+          user: attempt.user,
+        },
+        existingResult,
+        requestData.calculation_options
       );
-    }
-
-    // Prepare detailed analysis
-    const detailedAnalysis = {
-      calculation_method: "standard_scoring",
-      total_questions: totalQuestions,
-      answered_questions: answeredQuestions,
-      correct_answers: correctAnswers,
-      accuracy_rate:
-        answeredQuestions > 0 ? (correctAnswers / answeredQuestions) * 100 : 0,
-      time_efficiency: attempt.attempt.time_spent
-        ? Math.max(
-            0,
-            100 -
-              (attempt.attempt.time_spent / (attempt.test.time_limit * 60)) *
-                100
-          )
-        : 0,
-      scoring_breakdown: scoredAnswers,
-    };
-
-    const now = new Date();
-
-    // Create or update result
-    let result;
-    if (existingResult) {
-      // Update existing result
-      const [updatedResult] = await db
-        .update(testResults)
-        .set({
-          raw_score: rawScore.toString(),
-          scaled_score: scaledScore.toString(),
-          percentile: percentile.toString(),
-          grade,
-          traits,
-          trait_names: traits?.map((t: any) => t.name) || null,
-          description,
-          recommendations,
-          detailed_analysis: detailedAnalysis,
-          is_passed: isPassed,
-          completion_percentage: completionPercentage.toString(),
-          calculated_at: now,
-          updated_at: now,
-        })
-        .where(eq(testResults.id, existingResult.id))
-        .returning();
-
-      result = updatedResult;
-    } else {
-      // Create new result
-      const [newResult] = await db
-        .insert(testResults)
-        .values({
-          attempt_id: attempt.attempt.id,
-          user_id: attempt.user.id,
-          test_id: attempt.test.id,
-          session_result_id: null,
-          raw_score: rawScore.toString(),
-          scaled_score: scaledScore.toString(),
-          percentile: percentile.toString(),
-          grade,
-          traits,
-          trait_names: traits?.map((t: any) => t.name) || null,
-          description,
-          recommendations,
-          detailed_analysis: detailedAnalysis,
-          is_passed: isPassed,
-          completion_percentage: completionPercentage.toString(),
-          calculated_at: now,
-          created_at: now,
-          updated_at: now,
-        })
-        .returning();
-
-      result = newResult;
-    }
 
     const processingTime = Date.now() - startTime;
 
@@ -415,8 +244,8 @@ export async function calculateTestResultHandler(
       data: {
         result: responseData,
         calculation_details: {
-          calculation_method: "standard_scoring",
-          raw_answers_processed: answersResult.length,
+          calculation_method: calculationMethod,
+          raw_answers_processed: answersProcessed,
           scores_calculated: scoredAnswers,
           processing_time_ms: processingTime,
           recalculated: !!existingResult,
@@ -445,148 +274,3 @@ export async function calculateTestResultHandler(
     return c.json(errorResponse, 500);
   }
 }
-
-// Helper function to generate personality traits
-function generatePersonalityTraits(answersResult: any[], category: string) {
-  // This is a simplified implementation
-  // In a real system, this would use proper psychometric scoring algorithms
-
-  const traits = [];
-
-  if (category === "mbti") {
-    traits.push(
-      {
-        name: "Extraversion",
-        score: 75,
-        description: "Outgoing and energetic",
-        category: "personality",
-      },
-      {
-        name: "Sensing",
-        score: 60,
-        description: "Practical and realistic",
-        category: "personality",
-      },
-      {
-        name: "Thinking",
-        score: 80,
-        description: "Logical and analytical",
-        category: "personality",
-      },
-      {
-        name: "Judging",
-        score: 70,
-        description: "Organized and decisive",
-        category: "personality",
-      }
-    );
-  } else if (category === "big_five") {
-    traits.push(
-      {
-        name: "Openness",
-        score: 75,
-        description: "Open to new experiences",
-        category: "personality",
-      },
-      {
-        name: "Conscientiousness",
-        score: 85,
-        description: "Organized and responsible",
-        category: "personality",
-      },
-      {
-        name: "Extraversion",
-        score: 70,
-        description: "Sociable and assertive",
-        category: "personality",
-      },
-      {
-        name: "Agreeableness",
-        score: 80,
-        description: "Cooperative and trusting",
-        category: "personality",
-      },
-      {
-        name: "Neuroticism",
-        score: 40,
-        description: "Emotionally stable",
-        category: "personality",
-      }
-    );
-  }
-
-  return traits;
-}
-
-// Helper function to generate intelligence traits
-function generateIntelligenceTraits(answersResult: any[], category: string) {
-  const traits = [];
-
-  if (category === "wais") {
-    traits.push(
-      {
-        name: "Verbal Comprehension",
-        score: 110,
-        description: "Verbal reasoning abilities",
-        category: "intelligence",
-      },
-      {
-        name: "Perceptual Reasoning",
-        score: 105,
-        description: "Non-verbal reasoning",
-        category: "intelligence",
-      },
-      {
-        name: "Working Memory",
-        score: 115,
-        description: "Memory and attention",
-        category: "intelligence",
-      },
-      {
-        name: "Processing Speed",
-        score: 100,
-        description: "Mental processing speed",
-        category: "intelligence",
-      }
-    );
-  }
-
-  return traits;
-}
-
-// Helper function to generate recommendations
-function generateRecommendations(
-  score: number,
-  grade: string,
-  isPassed: boolean,
-  test: any
-): string {
-  let recommendations = "";
-
-  if (isPassed) {
-    if (score >= 90) {
-      recommendations =
-        "Excellent performance! Consider advanced roles and leadership positions.";
-    } else if (score >= 80) {
-      recommendations =
-        "Good performance. Suitable for target position with minor skill development.";
-    } else {
-      recommendations =
-        "Adequate performance. Recommend additional training in key areas.";
-    }
-  } else {
-    recommendations =
-      "Performance below passing threshold. Recommend retesting after skill development or consider alternative positions.";
-  }
-
-  // Add test-specific recommendations
-  if (test.module_type === "personality") {
-    recommendations +=
-      " Focus on personality development and self-awareness training.";
-  } else if (test.module_type === "intelligence") {
-    recommendations +=
-      " Consider cognitive training and problem-solving skill enhancement.";
-  }
-
-  return recommendations;
-}
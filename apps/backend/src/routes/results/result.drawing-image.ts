@@ -0,0 +1,80 @@
+import { Context } from "hono";
+import { getDbFromEnv, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { getDrawingImageKeyForAnswer } from "@/lib/drawings";
+import { getObjectStorage } from "@/lib/storage";
+import type { DrawingErrorResponse, DrawingReplayRequest } from "shared-types";
+
+// Rendered PNG of a drawing answer from object storage (Admin only)
+export async function getDrawingImageHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    // Check if database is configured first
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: DrawingErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { answerId } = c.req.param() as DrawingReplayRequest;
+    const db = getDbFromEnv(c.env);
+
+    const imageKey = await getDrawingImageKeyForAnswer(db, answerId);
+    const image = imageKey
+      ? await getObjectStorage(c.env, getEnv(c)).get(imageKey)
+      : null;
+
+    if (!image) {
+      const errorResponse: DrawingErrorResponse = {
+        success: false,
+        message: "Drawing image not found",
+        errors: [
+          {
+            field: "answerId",
+            message: `No stored drawing image for answer "${answerId}"`,
+            code: "IMAGE_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    return c.body(image.body, 200, {
+      "Content-Type": image.content_type,
+      "Content-Length": image.size.toString(),
+      "Cache-Control": "private, max-age=300",
+    });
+  } catch (error) {
+    console.error("Error getting drawing image:", error);
+
+    const env = getEnv(c);
+    const errorResponse: DrawingErrorResponse = {
+      success: false,
+      message: "Failed to retrieve drawing image",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,89 @@
+import { Context } from "hono";
+import { getDbFromEnv, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { loadDrawingReplay } from "@/lib/drawings";
+import type {
+  DrawingErrorResponse,
+  DrawingReplayRequest,
+  GetDrawingReplayResponse,
+} from "shared-types";
+
+// Strokes of a drawing answer in drawing order for replay (Admin only)
+export async function getDrawingReplayHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    // Check if database is configured first
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: DrawingErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { answerId } = c.req.param() as DrawingReplayRequest;
+    const db = getDbFromEnv(c.env);
+
+    const data = await loadDrawingReplay(
+      db,
+      answerId,
+      `/api/v1/results/manual-scoring/answers/${answerId}/drawing/image`
+    );
+    if (!data) {
+      const errorResponse: DrawingErrorResponse = {
+        success: false,
+        message: "Drawing answer not found",
+        errors: [
+          {
+            field: "answerId",
+            message: `No drawing answer with ID "${answerId}"`,
+            code: "ANSWER_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const response: GetDrawingReplayResponse = {
+      success: true,
+      message:
+        data.strokes.length > 0
+          ? `Drawing replay with ${data.strokes.length} stroke(s)`
+          : "No strokes were captured for this drawing",
+      data,
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting drawing replay:", error);
+
+    const env = getEnv(c);
+    const errorResponse: DrawingErrorResponse = {
+      success: false,
+      message: "Failed to retrieve drawing replay",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
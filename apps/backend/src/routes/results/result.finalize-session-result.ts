@@ -0,0 +1,158 @@
+import { Context } from "hono";
+import { eq } from "drizzle-orm";
+import { getDbFromEnv, sessionResults, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { recordAuditLog } from "@/lib/audit";
+import { getSessionResultReviewItem } from "@/lib/sessionResults";
+import type {
+  GetSessionResultByIdRequest,
+  SessionResultReviewResponse,
+  TestResultErrorResponse,
+} from "shared-types";
+
+export async function finalizeSessionResultHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    // Check if database is configured first
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { sessionResultId } = c.req.param() as GetSessionResultByIdRequest;
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const [existing] = await db
+      .select()
+      .from(sessionResults)
+      .where(eq(sessionResults.id, sessionResultId))
+      .limit(1);
+
+    if (!existing) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Session result not found",
+        errors: [
+          {
+            field: "sessionResultId",
+            message: `Session result with ID "${sessionResultId}" not found`,
+            code: "SESSION_RESULT_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    if (existing.is_final) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Session result has already been finalized",
+        errors: [
+          {
+            field: "sessionResultId",
+            message: "This session result was already signed off",
+            code: "SESSION_RESULT_FINALIZED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 409);
+    }
+
+    // A client-facing result needs the psychologist's written conclusion
+    if (!existing.summary_description?.trim()) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Summary description is required before finalizing",
+        errors: [
+          {
+            field: "summary_description",
+            message:
+              "Write the summary description in the review before signing off",
+            code: "NARRATIVE_REQUIRED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 409);
+    }
+
+    const now = new Date();
+    await db
+      .update(sessionResults)
+      .set({
+        is_final: true,
+        reviewed_by: auth.user.id,
+        reviewed_at: now,
+        updated_at: now,
+      })
+      .where(eq(sessionResults.id, sessionResultId));
+
+    await recordAuditLog(db, c, {
+      user_id: auth.user.id,
+      session_id: existing.session_id,
+      action: "session_result.finalize",
+      entity: "session_results",
+      entity_id: sessionResultId,
+      old_values: {
+        is_final: existing.is_final ?? false,
+        reviewed_by: existing.reviewed_by,
+        reviewed_at: existing.reviewed_at,
+      },
+      new_values: {
+        is_final: true,
+        reviewed_by: auth.user.id,
+        reviewed_at: now,
+      },
+    });
+
+    const item = await getSessionResultReviewItem(db, sessionResultId);
+
+    const response: SessionResultReviewResponse = {
+      success: true,
+      message: "Session result finalized successfully",
+      data: item!,
+      timestamp: new Date().toISOString(),
+    };
+
+    console.log(
+      `✅ Session result ${sessionResultId} finalized by admin ${auth.user.email}`
+    );
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error finalizing session result:", error);
+
+    const env = getEnv(c);
+    const errorResponse: TestResultErrorResponse = {
+      success: false,
+      message: "Failed to finalize session result",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
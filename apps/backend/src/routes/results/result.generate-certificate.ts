@@ -0,0 +1,262 @@
+import { Context } from "hono";
+import { eq } from "drizzle-orm";
+import {
+  getDbFromEnv,
+  testResults,
+  testAttempts,
+  tests,
+  users,
+  certificates,
+  isDatabaseConfigured,
+} from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import {
+  CERTIFICATE_TEXTS,
+  generateVerificationCode,
+  randomCertificateString,
+  renderCertificate,
+  type CertificateLanguage,
+  type CertificateRenderOptions,
+} from "@/lib/certificate";
+import {
+  formatCertificateNumber,
+  generateCertificateFileName,
+  GRADE_LABELS,
+  type CertificateFormat,
+  type CertificateTemplate,
+  type GetResultCertificateRequest,
+  type TestResultErrorResponse,
+} from "shared-types";
+
+export const CERTIFICATE_ISSUER = "Syntegra Psikotes";
+
+export async function generateResultCertificateHandler(
+  c: Context<{ Bindings: CloudflareBindings; Variables: { user: any } }>
+): Promise<Response> {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+    const currentUser = auth.user;
+    const { resultId } = c.req.param() as GetResultCertificateRequest;
+    const rawQuery = c.req.query();
+
+    const language: CertificateLanguage =
+      rawQuery.language === "en" ? "en" : "id";
+    const options: CertificateRenderOptions = {
+      format: (rawQuery.format as CertificateFormat) || "pdf",
+      template: (rawQuery.template as CertificateTemplate) || "standard",
+      include_qr_code: rawQuery.include_qr_code !== "false", // Default true
+      include_logo: rawQuery.include_logo !== "false", // Default true
+      watermark: rawQuery.watermark === "true", // Default false
+    };
+
+    const [resultRow] = await db
+      .select({
+        result: testResults,
+        user: {
+          id: users.id,
+          name: users.name,
+        },
+        test: {
+          id: tests.id,
+          name: tests.name,
+        },
+        attempt: {
+          end_time: testAttempts.end_time,
+        },
+      })
+      .from(testResults)
+      .leftJoin(users, eq(testResults.user_id, users.id))
+      .leftJoin(tests, eq(testResults.test_id, tests.id))
+      .leftJoin(testAttempts, eq(testResults.attempt_id, testAttempts.id))
+      .where(eq(testResults.id, resultId))
+      .limit(1);
+
+    if (!resultRow) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Test result not found",
+        errors: [
+          {
+            field: "result_id",
+            message: "Test result with the provided ID does not exist",
+            code: "NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const { result, user, test, attempt } = resultRow;
+
+    if (!user || !test) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Missing required data",
+        errors: [
+          {
+            field: "data_integrity",
+            message: "User or test data is missing",
+            code: "DATA_INTEGRITY_ERROR",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 500);
+    }
+
+    // Participants can only download their own certificates, admins can download all
+    if (
+      currentUser.role === "participant" &&
+      result.user_id !== currentUser.id
+    ) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Access denied",
+        errors: [
+          {
+            field: "certificate_access",
+            message: "You can only download your own certificates",
+            code: "FORBIDDEN",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 403);
+    }
+
+    const completionDate = attempt?.end_time || result.calculated_at;
+    const now = new Date();
+
+    // One certificate per result: the number and verification code stay the
+    // same on every download, the printed details follow the latest result
+    const [existingCertificate] = await db
+      .select()
+      .from(certificates)
+      .where(eq(certificates.result_id, result.id))
+      .limit(1);
+
+    let certificate = existingCertificate;
+    if (!certificate) {
+      [certificate] = await db
+        .insert(certificates)
+        .values({
+          result_id: result.id,
+          user_id: result.user_id,
+          certificate_number: formatCertificateNumber(
+            now,
+            randomCertificateString(8)
+          ),
+          verification_code: generateVerificationCode(),
+          recipient_name: user.name,
+          test_name: test.name,
+          grade: result.grade,
+          completion_date: completionDate,
+          issued_at: now,
+          issued_by: currentUser.id,
+        })
+        .returning();
+    } else if (
+      certificate.recipient_name !== user.name ||
+      certificate.test_name !== test.name ||
+      certificate.grade !== result.grade
+    ) {
+      [certificate] = await db
+        .update(certificates)
+        .set({
+          recipient_name: user.name,
+          test_name: test.name,
+          grade: result.grade,
+          completion_date: completionDate,
+          updated_at: now,
+        })
+        .where(eq(certificates.id, certificate.id))
+        .returning();
+    }
+
+    const texts = CERTIFICATE_TEXTS[language];
+    const scoreParts: string[] = [];
+    if (result.scaled_score !== null) {
+      scoreParts.push(
+        `${texts.score} ${Math.round(parseFloat(result.scaled_score))}`
+      );
+    }
+    if (result.percentile !== null) {
+      scoreParts.push(
+        `${texts.percentile} ${Math.round(parseFloat(result.percentile))}`
+      );
+    }
+
+    const verificationUrl = `${new URL(c.req.url).origin}/api/v1/results/certificates/verify/${certificate.verification_code}`;
+
+    const rendered = await renderCertificate(
+      {
+        language,
+        recipient_name: certificate.recipient_name,
+        test_name: certificate.test_name,
+        grade: certificate.grade,
+        grade_label: certificate.grade
+          ? GRADE_LABELS[certificate.grade] || null
+          : null,
+        score_summary: scoreParts.length > 0 ? scoreParts.join(" · ") : null,
+        completion_date: certificate.completion_date,
+        certificate_number: certificate.certificate_number,
+        verification_code: certificate.verification_code,
+        verification_url: verificationUrl,
+        issuer: CERTIFICATE_ISSUER,
+      },
+      options
+    );
+
+    const fileName = generateCertificateFileName(
+      certificate.recipient_name,
+      certificate.certificate_number,
+      options.format
+    );
+
+    return c.body(rendered.body, 200, {
+      "Content-Type": rendered.content_type,
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "Cache-Control": "private, no-store",
+      "X-Certificate-Number": certificate.certificate_number,
+      "X-Verification-Code": certificate.verification_code,
+    });
+  } catch (error) {
+    console.error("Error generating certificate:", error);
+
+    const env = getEnv(c);
+    const errorResponse: TestResultErrorResponse = {
+      success: false,
+      message: "Failed to generate certificate",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
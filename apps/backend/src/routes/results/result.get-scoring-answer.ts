@@ -0,0 +1,86 @@
+import { Context } from "hono";
+import { getDbFromEnv, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import {
+  buildManualScoringAnswerData,
+  loadManualScoringAnswer,
+} from "@/lib/manualScoring";
+import type {
+  ManualScoringAnswerRequest,
+  ManualScoringAnswerResponse,
+  ManualScoringErrorResponse,
+} from "shared-types";
+
+// Answer with its dimensions and grades for an assessor (Admin only)
+export async function getManualScoringAnswerHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    // Check if database is configured first
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: ManualScoringErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { answerId } = c.req.param() as ManualScoringAnswerRequest;
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const row = await loadManualScoringAnswer(db, answerId);
+    if (!row) {
+      const errorResponse: ManualScoringErrorResponse = {
+        success: false,
+        message: "Answer not found",
+        errors: [
+          {
+            field: "answerId",
+            message: `No manually graded answer of a completed attempt with ID "${answerId}"`,
+            code: "ANSWER_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const response: ManualScoringAnswerResponse = {
+      success: true,
+      message: "Answer retrieved successfully",
+      data: await buildManualScoringAnswerData(db, row, auth.user.id),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting answer for manual scoring:", error);
+
+    const env = getEnv(c);
+    const errorResponse: ManualScoringErrorResponse = {
+      success: false,
+      message: "Failed to retrieve answer",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
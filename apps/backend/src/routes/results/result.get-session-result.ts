@@ -0,0 +1,81 @@
+import { Context } from "hono";
+import { getDbFromEnv, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { getSessionResultReviewItem } from "@/lib/sessionResults";
+import type {
+  GetSessionResultByIdRequest,
+  SessionResultReviewResponse,
+  TestResultErrorResponse,
+} from "shared-types";
+
+export async function getSessionResultHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    // Check if database is configured first
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { sessionResultId } = c.req.param() as GetSessionResultByIdRequest;
+    const db = getDbFromEnv(c.env);
+
+    const item = await getSessionResultReviewItem(db, sessionResultId);
+    if (!item) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Session result not found",
+        errors: [
+          {
+            field: "sessionResultId",
+            message: `Session result with ID "${sessionResultId}" not found`,
+            code: "SESSION_RESULT_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const response: SessionResultReviewResponse = {
+      success: true,
+      message: "Session result retrieved successfully",
+      data: item,
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting session result:", error);
+
+    const env = getEnv(c);
+    const errorResponse: TestResultErrorResponse = {
+      success: false,
+      message: "Failed to retrieve session result",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,138 @@
+import { Context } from "hono";
+import { getDbFromEnv, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import {
+  buildManualScoringAnswerData,
+  getManualScoringDimensions,
+  loadManualScoringAnswer,
+  recalculateAfterManualScoring,
+  saveAnswerRating,
+  validateDimensionScores,
+} from "@/lib/manualScoring";
+import type {
+  ManualScoringAnswerRequest,
+  ManualScoringErrorResponse,
+  SubmitAnswerRatingRequest,
+  SubmitAnswerRatingResponse,
+} from "shared-types";
+
+// Grade an answer per dimension, or revise one's own grade (Admin only)
+export async function rateAnswerHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    // Check if database is configured first
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: ManualScoringErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { answerId } = c.req.param() as ManualScoringAnswerRequest;
+    const data = (await c.req.json()) as SubmitAnswerRatingRequest;
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const row = await loadManualScoringAnswer(db, answerId);
+    if (!row) {
+      const errorResponse: ManualScoringErrorResponse = {
+        success: false,
+        message: "Answer not found",
+        errors: [
+          {
+            field: "answerId",
+            message: `No manually graded answer of a completed attempt with ID "${answerId}"`,
+            code: "ANSWER_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const scoreErrors = validateDimensionScores(
+      getManualScoringDimensions(row.question),
+      data.dimension_scores
+    );
+    if (scoreErrors.length > 0) {
+      const errorResponse: ManualScoringErrorResponse = {
+        success: false,
+        message: "Invalid dimension scores",
+        errors: scoreErrors,
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    const isFinal = await saveAnswerRating(
+      db,
+      row,
+      auth.user.id,
+      data.dimension_scores,
+      data.notes?.trim() || null
+    );
+
+    // The result only counts assessor grades once the whole attempt is graded
+    let resultRecalculated = false;
+    if (isFinal) {
+      try {
+        resultRecalculated = await recalculateAfterManualScoring(db, row);
+      } catch (error) {
+        console.error("Error recalculating test result:", error);
+      }
+    }
+
+    const updatedRow = await loadManualScoringAnswer(db, answerId);
+    const answerData = await buildManualScoringAnswerData(
+      db,
+      updatedRow || row,
+      auth.user.id
+    );
+
+    const response: SubmitAnswerRatingResponse = {
+      success: true,
+      message: resultRecalculated
+        ? "Rating saved, every answer of the attempt is graded and the test result was recalculated"
+        : isFinal
+          ? "Rating saved, the answer score is final"
+          : `Rating saved, ${answerData.required_raters - answerData.ratings_count} more rater(s) required`,
+      data: {
+        ...answerData,
+        result_recalculated: resultRecalculated,
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error rating answer:", error);
+
+    const env = getEnv(c);
+    const errorResponse: ManualScoringErrorResponse = {
+      success: false,
+      message: "Failed to save rating",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
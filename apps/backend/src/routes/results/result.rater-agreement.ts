@@ -0,0 +1,106 @@
+import { Context } from "hono";
+import { eq } from "drizzle-orm";
+import { getDbFromEnv, tests, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import {
+  getManualScoringConfig,
+  loadRaterAgreementReport,
+} from "@/lib/manualScoring";
+import {
+  DEFAULT_MANUAL_SCORING_CONFIG,
+  type GetRaterAgreementQuery,
+  type GetRaterAgreementResponse,
+  type ManualScoringErrorResponse,
+} from "shared-types";
+
+// Inter-rater agreement of double-rated answers (Admin only)
+export async function getRaterAgreementHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    // Check if database is configured first
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: ManualScoringErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const query = c.req.query() as GetRaterAgreementQuery;
+    const db = getDbFromEnv(c.env);
+
+    // The test's own tolerance applies when the report is scoped to one test
+    let tolerance = DEFAULT_MANUAL_SCORING_CONFIG.agreement_tolerance;
+    if (query.test_id) {
+      const [targetTest] = await db
+        .select({
+          id: tests.id,
+          manual_scoring_config: tests.manual_scoring_config,
+        })
+        .from(tests)
+        .where(eq(tests.id, query.test_id))
+        .limit(1);
+
+      if (!targetTest) {
+        const errorResponse: ManualScoringErrorResponse = {
+          success: false,
+          message: "Test not found",
+          errors: [
+            {
+              field: "test_id",
+              message: `Test with ID "${query.test_id}" not found`,
+              code: "TEST_NOT_FOUND",
+            },
+          ],
+          timestamp: new Date().toISOString(),
+        };
+        return c.json(errorResponse, 404);
+      }
+
+      tolerance = getManualScoringConfig(targetTest).agreement_tolerance;
+    }
+
+    const report = await loadRaterAgreementReport(db, query, tolerance);
+
+    const response: GetRaterAgreementResponse = {
+      success: true,
+      message:
+        report.double_rated_answers > 0
+          ? `Agreement over ${report.double_rated_answers} double-rated answer(s)`
+          : "No double-rated answers yet",
+      data: report,
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting rater agreement:", error);
+
+    const env = getEnv(c);
+    const errorResponse: ManualScoringErrorResponse = {
+      success: false,
+      message: "Failed to retrieve rater agreement",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,179 @@
+import { Context } from "hono";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  ilike,
+  isNotNull,
+  isNull,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import {
+  getDbFromEnv,
+  sessionResults,
+  testSessions,
+  users,
+  isDatabaseConfigured,
+} from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import {
+  SESSION_RESULT_REVIEW_COLUMNS,
+  toSessionResultReviewItems,
+} from "@/lib/sessionResults";
+import type {
+  GetSessionResultReviewQueueQuery,
+  GetSessionResultReviewQueueResponse,
+  SessionResultReviewStatus,
+  TestResultErrorResponse,
+} from "shared-types";
+
+const notFinal = or(
+  isNull(sessionResults.is_final),
+  eq(sessionResults.is_final, false)
+) as SQL;
+
+const REVIEW_STATUS_CONDITIONS: Record<SessionResultReviewStatus, SQL> = {
+  pending: and(notFinal, isNull(sessionResults.reviewed_at)) as SQL,
+  reviewed: and(notFinal, isNotNull(sessionResults.reviewed_at)) as SQL,
+  finalized: eq(sessionResults.is_final, true),
+};
+
+export async function getSessionResultReviewQueueHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    // Check if database is configured first
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const db = getDbFromEnv(c.env);
+    const rawQuery = c.req.query();
+
+    const queryParams: GetSessionResultReviewQueueQuery = {
+      page: parseInt(rawQuery.page) || 1,
+      limit: Math.min(parseInt(rawQuery.limit) || 10, 100),
+      session_id: rawQuery.session_id,
+      status: rawQuery.status as SessionResultReviewStatus | undefined,
+      search: rawQuery.search,
+      sort_order: rawQuery.sort_order === "desc" ? "desc" : "asc",
+    };
+
+    const scopeConditions: SQL[] = [];
+    if (queryParams.session_id) {
+      scopeConditions.push(
+        eq(sessionResults.session_id, queryParams.session_id)
+      );
+    }
+    if (queryParams.search) {
+      scopeConditions.push(
+        or(
+          ilike(users.name, `%${queryParams.search}%`),
+          ilike(users.email, `%${queryParams.search}%`)
+        ) as SQL
+      );
+    }
+
+    // Without a status filter the queue holds everything not signed off yet
+    const whereClause = and(
+      ...scopeConditions,
+      queryParams.status
+        ? REVIEW_STATUS_CONDITIONS[queryParams.status]
+        : notFinal
+    );
+
+    const offset = (queryParams.page - 1) * queryParams.limit;
+    const orderBy =
+      queryParams.sort_order === "desc"
+        ? desc(sessionResults.completed_at)
+        : asc(sessionResults.completed_at);
+
+    const [rows, [totalResult], [summary]] = await Promise.all([
+      db
+        .select(SESSION_RESULT_REVIEW_COLUMNS)
+        .from(sessionResults)
+        .innerJoin(users, eq(sessionResults.user_id, users.id))
+        .innerJoin(testSessions, eq(sessionResults.session_id, testSessions.id))
+        .where(whereClause)
+        .orderBy(orderBy, asc(sessionResults.created_at))
+        .limit(queryParams.limit)
+        .offset(offset),
+      db
+        .select({ count: count() })
+        .from(sessionResults)
+        .innerJoin(users, eq(sessionResults.user_id, users.id))
+        .where(whereClause),
+      db
+        .select({
+          pending: sql<number>`count(*) filter (where ${REVIEW_STATUS_CONDITIONS.pending})::int`,
+          reviewed: sql<number>`count(*) filter (where ${REVIEW_STATUS_CONDITIONS.reviewed})::int`,
+          finalized: sql<number>`count(*) filter (where ${REVIEW_STATUS_CONDITIONS.finalized})::int`,
+        })
+        .from(sessionResults)
+        .innerJoin(users, eq(sessionResults.user_id, users.id))
+        .where(and(...scopeConditions)),
+    ]);
+
+    const items = await toSessionResultReviewItems(db, rows);
+    const total = totalResult?.count || 0;
+    const totalPages = Math.ceil(total / queryParams.limit);
+
+    const response: GetSessionResultReviewQueueResponse = {
+      success: true,
+      message: `Retrieved ${items.length} session result(s) for review`,
+      data: items,
+      meta: {
+        current_page: queryParams.page,
+        per_page: queryParams.limit,
+        total,
+        total_pages: totalPages,
+        has_next_page: queryParams.page < totalPages,
+        has_prev_page: queryParams.page > 1,
+      },
+      summary: {
+        pending: summary?.pending || 0,
+        reviewed: summary?.reviewed || 0,
+        finalized: summary?.finalized || 0,
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting session result review queue:", error);
+
+    const env = getEnv(c);
+    const errorResponse: TestResultErrorResponse = {
+      success: false,
+      message: "Failed to retrieve review queue",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
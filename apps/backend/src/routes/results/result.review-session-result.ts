@@ -0,0 +1,149 @@
+import { Context } from "hono";
+import { eq } from "drizzle-orm";
+import { getDbFromEnv, sessionResults, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { recordAuditLog } from "@/lib/audit";
+import { getSessionResultReviewItem } from "@/lib/sessionResults";
+import type {
+  GetSessionResultByIdRequest,
+  SessionResultReviewResponse,
+  TestResultErrorResponse,
+  UpdateSessionResultReviewRequest,
+} from "shared-types";
+
+export async function reviewSessionResultHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    // Check if database is configured first
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { sessionResultId } = c.req.param() as GetSessionResultByIdRequest;
+    const data = (await c.req.json()) as UpdateSessionResultReviewRequest;
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const [existing] = await db
+      .select()
+      .from(sessionResults)
+      .where(eq(sessionResults.id, sessionResultId))
+      .limit(1);
+
+    if (!existing) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Session result not found",
+        errors: [
+          {
+            field: "sessionResultId",
+            message: `Session result with ID "${sessionResultId}" not found`,
+            code: "SESSION_RESULT_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    if (existing.is_final) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Session result has already been finalized",
+        errors: [
+          {
+            field: "sessionResultId",
+            message:
+              "Finalized session results are locked and cannot be edited",
+            code: "SESSION_RESULT_FINALIZED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 409);
+    }
+
+    const now = new Date();
+    const changes = {
+      ...(data.personality_summary !== undefined && {
+        personality_summary: data.personality_summary,
+      }),
+      ...(data.summary_description !== undefined && {
+        summary_description: data.summary_description,
+      }),
+      ...(data.strengths !== undefined && { strengths: data.strengths }),
+    };
+
+    await db
+      .update(sessionResults)
+      .set({
+        ...changes,
+        reviewed_by: auth.user.id,
+        reviewed_at: now,
+        updated_at: now,
+      })
+      .where(eq(sessionResults.id, sessionResultId));
+
+    await recordAuditLog(db, c, {
+      user_id: auth.user.id,
+      action: "session_result.review",
+      entity: "session_results",
+      session_id: existing.session_id,
+      entity_id: sessionResultId,
+      old_values: {
+        personality_summary: existing.personality_summary,
+        summary_description: existing.summary_description,
+        strengths: existing.strengths,
+      },
+      new_values: changes,
+    });
+
+    const item = await getSessionResultReviewItem(db, sessionResultId);
+
+    const response: SessionResultReviewResponse = {
+      success: true,
+      message: "Session result review saved successfully",
+      data: item!,
+      timestamp: new Date().toISOString(),
+    };
+
+    console.log(
+      `✅ Session result ${sessionResultId} reviewed by admin ${auth.user.email}`
+    );
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error reviewing session result:", error);
+
+    const env = getEnv(c);
+    const errorResponse: TestResultErrorResponse = {
+      success: false,
+      message: "Failed to save session result review",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,160 @@
+import { Context } from "hono";
+import { and, asc, count, eq, ilike, or, sql, type SQL } from "drizzle-orm";
+import {
+  getDbFromEnv,
+  questions,
+  testAttempts,
+  tests,
+  userAnswers,
+  users,
+  isDatabaseConfigured,
+} from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import {
+  MANUAL_SCORING_ANSWER_CONDITION,
+  getManualScoringQueueColumns,
+  getManualScoringStatusConditions,
+  toManualScoringQueueItem,
+} from "@/lib/manualScoring";
+import {
+  GetManualScoringQueueQuerySchema,
+  type GetManualScoringQueueResponse,
+  type ManualScoringErrorResponse,
+} from "shared-types";
+
+// Answers waiting for assessor grades (Admin only)
+export async function getManualScoringQueueHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    // Check if database is configured first
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: ManualScoringErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+    const raterId = auth.user.id;
+    const queryParams = GetManualScoringQueueQuerySchema.parse(c.req.query());
+
+    const scopeConditions: SQL[] = [MANUAL_SCORING_ANSWER_CONDITION];
+    if (queryParams.test_id) {
+      scopeConditions.push(eq(testAttempts.test_id, queryParams.test_id));
+    }
+    if (queryParams.session_id) {
+      scopeConditions.push(
+        eq(testAttempts.session_test_id, queryParams.session_id)
+      );
+    }
+    if (queryParams.question_type) {
+      scopeConditions.push(
+        eq(questions.question_type, queryParams.question_type)
+      );
+    }
+    if (queryParams.search) {
+      scopeConditions.push(
+        or(
+          ilike(users.name, `%${queryParams.search}%`),
+          ilike(users.email, `%${queryParams.search}%`)
+        ) as SQL
+      );
+    }
+
+    const statusConditions = getManualScoringStatusConditions(raterId);
+    const whereClause = and(
+      ...scopeConditions,
+      statusConditions[queryParams.status]
+    );
+    const offset = (queryParams.page - 1) * queryParams.limit;
+
+    const [rows, [totalResult], [summary]] = await Promise.all([
+      db
+        .select(getManualScoringQueueColumns(raterId))
+        .from(userAnswers)
+        .innerJoin(questions, eq(userAnswers.question_id, questions.id))
+        .innerJoin(testAttempts, eq(userAnswers.attempt_id, testAttempts.id))
+        .innerJoin(tests, eq(testAttempts.test_id, tests.id))
+        .innerJoin(users, eq(userAnswers.user_id, users.id))
+        .where(whereClause)
+        .orderBy(asc(userAnswers.answered_at), asc(questions.sequence))
+        .limit(queryParams.limit)
+        .offset(offset),
+      db
+        .select({ count: count() })
+        .from(userAnswers)
+        .innerJoin(questions, eq(userAnswers.question_id, questions.id))
+        .innerJoin(testAttempts, eq(userAnswers.attempt_id, testAttempts.id))
+        .innerJoin(users, eq(userAnswers.user_id, users.id))
+        .where(whereClause),
+      db
+        .select({
+          needs_rating: sql<number>`count(*) filter (where ${statusConditions.needs_rating})::int`,
+          awaiting_rater: sql<number>`count(*) filter (where ${statusConditions.awaiting_rater})::int`,
+          scored: sql<number>`count(*) filter (where ${statusConditions.scored})::int`,
+        })
+        .from(userAnswers)
+        .innerJoin(questions, eq(userAnswers.question_id, questions.id))
+        .innerJoin(testAttempts, eq(userAnswers.attempt_id, testAttempts.id))
+        .innerJoin(users, eq(userAnswers.user_id, users.id))
+        .where(and(...scopeConditions)),
+    ]);
+
+    const items = rows.map(toManualScoringQueueItem);
+    const total = totalResult?.count || 0;
+    const totalPages = Math.ceil(total / queryParams.limit);
+
+    const response: GetManualScoringQueueResponse = {
+      success: true,
+      message: `Retrieved ${items.length} answer(s) for manual scoring`,
+      data: items,
+      meta: {
+        current_page: queryParams.page,
+        per_page: queryParams.limit,
+        total,
+        total_pages: totalPages,
+        has_next_page: queryParams.page < totalPages,
+        has_prev_page: queryParams.page > 1,
+      },
+      summary: {
+        needs_rating: summary?.needs_rating || 0,
+        awaiting_rater: summary?.awaiting_rater || 0,
+        scored: summary?.scored || 0,
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting manual scoring queue:", error);
+
+    const env = getEnv(c);
+    const errorResponse: ManualScoringErrorResponse = {
+      success: false,
+      message: "Failed to retrieve manual scoring queue",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
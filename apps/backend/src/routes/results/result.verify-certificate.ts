@@ -0,0 +1,104 @@
+import { Context } from "hono";
+import { eq } from "drizzle-orm";
+import { getDbFromEnv, certificates, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import {
+  GRADE_LABELS,
+  normalizeVerificationCode,
+  type TestResultErrorResponse,
+  type VerifyCertificateRequest,
+  type VerifyCertificateResponse,
+} from "shared-types";
+import { CERTIFICATE_ISSUER } from "./result.generate-certificate";
+
+// Public: lets a third party confirm a printed certificate is genuine
+export async function verifyCertificateHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+): Promise<Response> {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const db = getDbFromEnv(c.env);
+    const { verificationCode } = c.req.param() as VerifyCertificateRequest;
+    const code = normalizeVerificationCode(verificationCode);
+
+    const [certificate] = await db
+      .select()
+      .from(certificates)
+      .where(eq(certificates.verification_code, code))
+      .limit(1);
+
+    if (!certificate) {
+      const errorResponse: TestResultErrorResponse = {
+        success: false,
+        message: "Certificate not found",
+        errors: [
+          {
+            field: "verificationCode",
+            message:
+              "No certificate was issued with this verification code. The certificate may not be genuine.",
+            code: "CERTIFICATE_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const response: VerifyCertificateResponse = {
+      success: true,
+      message: "Certificate is genuine",
+      data: {
+        is_valid: true,
+        certificate_number: certificate.certificate_number,
+        verification_code: certificate.verification_code,
+        recipient_name: certificate.recipient_name,
+        test_name: certificate.test_name,
+        grade: certificate.grade,
+        grade_label: certificate.grade
+          ? GRADE_LABELS[certificate.grade] || null
+          : null,
+        completion_date: certificate.completion_date.toISOString(),
+        issued_at: certificate.issued_at.toISOString(),
+        issuer: CERTIFICATE_ISSUER,
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error verifying certificate:", error);
+
+    const env = getEnv(c);
+    const errorResponse: TestResultErrorResponse = {
+      success: false,
+      message: "Failed to verify certificate",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
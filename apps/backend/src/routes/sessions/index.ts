@@ -9,6 +9,8 @@ import {
   UpdateSessionRequestSchema,
   UpdateSessionByIdRequestSchema,
   DeleteSessionByIdRequestSchema,
+  RecomputeSessionResultsRequestSchema,
+  RecomputeSessionResultsBodySchema,
   type SessionErrorResponse,
 } from "shared-types";
 import { createSessionHandler } from "./session.create";
@@ -18,6 +20,12 @@ import { getSessionByIdHandler } from "./session.get";
 import { getSessionStatsHandler } from "./session.stats";
 import { updateSessionHandler } from "./session.update";
 import { deleteSessionHandler } from "./session.delete";
+import { activateSessionHandler } from "./session.activate";
+import { cancelSessionHandler } from "./session.cancel";
+import { completeSessionHandler } from "./session.complete";
+import { recomputeSessionResultsHandler } from "./session.recompute-results";
+import { getSessionStatusUpdateHandler } from "./session.get-status-update";
+import { triggerSessionStatusUpdateHandler } from "./session.trigger-status-update";
 import { authenticateUser, requireAdmin } from "../../middleware/auth";
 import { generalApiRateLimit } from "../../middleware/rateLimiter";
 import { participantRoutes } from "./participants";
@@ -112,6 +120,24 @@ sessionRoutes.get(
   }
 );
 
+// Last scheduler runs of the session status updater
+sessionRoutes.get(
+  "/trigger-status-update",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  getSessionStatusUpdateHandler
+);
+
+// Manual trigger for session status updates
+sessionRoutes.post(
+  "/trigger-status-update",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  triggerSessionStatusUpdateHandler
+);
+
 // ==================== SESSION MANAGEMENT ROUTES (Admin only) ====================
 
 // Get All Sessions Endpoint (ADMIN ONLY)
@@ -272,14 +298,7 @@ sessionRoutes.post(
       return c.json(errorResponse, 400);
     }
   }),
-  async (c) => {
-    const errorResponse: SessionErrorResponse = {
-      success: false,
-      message: "Activate session not implemented yet",
-      timestamp: new Date().toISOString(),
-    };
-    return c.json(errorResponse, 501);
-  }
+  activateSessionHandler
 );
 
 // Cancel Session
@@ -303,14 +322,7 @@ sessionRoutes.post(
       return c.json(errorResponse, 400);
     }
   }),
-  async (c) => {
-    const errorResponse: SessionErrorResponse = {
-      success: false,
-      message: "Cancel session not implemented yet",
-      timestamp: new Date().toISOString(),
-    };
-    return c.json(errorResponse, 501);
-  }
+  cancelSessionHandler
 );
 
 // Complete Session
@@ -334,14 +346,48 @@ sessionRoutes.post(
       return c.json(errorResponse, 400);
     }
   }),
-  async (c) => {
-    const errorResponse: SessionErrorResponse = {
-      success: false,
-      message: "Complete session not implemented yet",
-      timestamp: new Date().toISOString(),
-    };
-    return c.json(errorResponse, 501);
-  }
+  completeSessionHandler
+);
+
+// ==================== SESSION RESULTS (Admin only) ====================
+
+// Recompute Session Results Endpoint (ADMIN ONLY)
+sessionRoutes.post(
+  "/:sessionId/results/recompute",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", RecomputeSessionResultsRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Invalid session ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator("json", RecomputeSessionResultsBodySchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Validation failed",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  recomputeSessionResultsHandler
 );
 
 // ==================== SESSION PARTICIPANTS MANAGEMENT (Admin only) ====================
@@ -424,24 +470,6 @@ sessionRoutes.delete(
   }
 );
 
-// Manual trigger for session status updates (admin only)
-sessionRoutes.post(
-  "/trigger-status-update",
-  generalApiRateLimit,
-  authenticateUser,
-  requireAdmin,
-  async (c) => {
-    const { runScheduledJobs } = await import("../../lib/scheduler");
-    await runScheduledJobs(c.env);
-
-    return c.json({
-      success: true,
-      message: "Session status update triggered successfully",
-      timestamp: new Date().toISOString(),
-    });
-  }
-);
-
 // ==================== ERROR HANDLERS ====================
 sessionRoutes.onError((err, c) => {
   console.error("Session routes error:", err);
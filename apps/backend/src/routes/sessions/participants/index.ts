@@ -7,6 +7,8 @@ import {
   BulkAddParticipantsToSessionRequestSchema,
   GetSessionByIdRequestSchema,
   GetSessionParticipantsRequestSchema,
+  GetSessionRosterRequestSchema,
+  ImportSessionParticipantsRequestSchema,
   RemoveParticipantFromSessionRequestSchema,
   SessionErrorResponse,
   UpdateParticipantStatusRequestSchema,
@@ -14,6 +16,8 @@ import {
 import { addParticipantToSessionHandler } from "./participant.add";
 import { bulkAddParticipantsToSessionHandler } from "./participant.bulk";
 import { getSessionParticipantsHandler } from "./participant.get";
+import { importSessionParticipantsHandler } from "./participant.import";
+import { getSessionRosterHandler } from "./participant.roster";
 import { removeParticipantFromSessionHandler } from "./participant.remove";
 import { updateParticipantStatusHandler } from "./participant.update";
 import { generalApiRateLimit } from "@/middleware/rateLimiter";
@@ -140,6 +144,84 @@ participantRoutes.post(
   bulkAddParticipantsToSessionHandler
 );
 
+// Import Participants from a CSV/XLSX File (creates or matches users)
+participantRoutes.post(
+  "/import",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", AddParticipantToSessionByIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Invalid session ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator("json", ImportSessionParticipantsRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Import validation failed",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  importSessionParticipantsHandler
+);
+
+// Download Participant Roster with Access Links
+participantRoutes.get(
+  "/roster",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", GetSessionByIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Invalid session ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator("query", GetSessionRosterRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Invalid query parameters",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getSessionRosterHandler
+);
+
 // Update Participant Status
 participantRoutes.put(
   "/:participantId",
@@ -0,0 +1,439 @@
+import { Context } from "hono";
+import { eq, and, sql, inArray } from "drizzle-orm";
+import {
+  getDbFromEnv,
+  testSessions,
+  sessionParticipants,
+  users,
+  isDatabaseConfigured,
+} from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import {
+  checkImportEntries,
+  formatImportRow,
+  insertImportUsers,
+  prepareImport,
+  summarizeImportEntries,
+  updateImportUsers,
+} from "@/lib/userImport";
+import {
+  BULK_ERROR_CODES,
+  type AddParticipantToSessionByIdRequest,
+  type CreateSessionParticipantDB,
+  type ImportSessionParticipantRow,
+  type ImportSessionParticipantsRequest,
+  type ImportSessionParticipantsResponse,
+  type SessionEnrollmentStatus,
+  type SessionErrorResponse,
+  generateParticipantUniqueLink,
+  generateUniqueParticipantToken,
+  isSessionExpired,
+} from "shared-types";
+
+const ENROLL_CHUNK_SIZE = 100;
+
+interface Enrollment {
+  status: SessionEnrollmentStatus;
+  error?: string;
+  participant?: {
+    id: string;
+    unique_link: string | null;
+    link_expires_at: Date | null;
+  };
+}
+
+/**
+ * Import a CSV or XLSX file into a session in one step: registered users
+ * are matched (and refreshed under the conflict policy), the rest are
+ * created, and all of them are enrolled with their own access link. The
+ * capacity is checked before anything is written.
+ */
+export async function importSessionParticipantsHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { sessionId } = c.req.param() as AddParticipantToSessionByIdRequest;
+    const data = (await c.req.json()) as ImportSessionParticipantsRequest;
+    const env = getEnv(c);
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+    const dryRun = data.dry_run ?? false;
+
+    const [session] = await db
+      .select({
+        id: testSessions.id,
+        session_name: testSessions.session_name,
+        session_code: testSessions.session_code,
+        end_time: testSessions.end_time,
+        status: testSessions.status,
+        max_participants: testSessions.max_participants,
+        current_participants: testSessions.current_participants,
+      })
+      .from(testSessions)
+      .where(eq(testSessions.id, sessionId))
+      .limit(1);
+
+    if (!session) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Session not found",
+        errors: [
+          {
+            field: "sessionId",
+            message: `Test session with ID "${sessionId}" not found`,
+            code: "SESSION_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    if (
+      session.status === "cancelled" ||
+      session.status === "completed" ||
+      isSessionExpired({
+        end_time: session.end_time,
+        status: session.status || "draft",
+      })
+    ) {
+      const reason =
+        session.status === "cancelled" || session.status === "completed"
+          ? session.status
+          : "expired";
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: `Cannot add participants to ${reason} session`,
+        errors: [
+          {
+            field: "session_status",
+            message: `This session has ${reason === "expired" ? "expired" : `been ${reason}`}`,
+            code: `SESSION_${reason.toUpperCase()}`,
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 409);
+    }
+
+    const prepared = await prepareImport(db, data);
+    if (!prepared.success) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: prepared.message,
+        errors: [prepared.error],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, prepared.status);
+    }
+
+    const { entries, missing_required_fields: missingFields } = prepared;
+    if (!dryRun && missingFields.length > 0) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Missing required columns",
+        errors: [
+          {
+            field: "column_mapping",
+            message: `Required fields not mapped: ${missingFields.join(", ")}. Available headers: ${prepared.file_info.headers.join(", ")}`,
+            code: BULK_ERROR_CODES.MISSING_REQUIRED_COLUMNS,
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    // Registered users are always matched; the policy only decides whether
+    // their data is refreshed from the file
+    await checkImportEntries(db, entries, {
+      mode: "upsert",
+      conflict_policy: data.conflict_policy || "skip",
+    });
+
+    const enrollments = new Map<number, Enrollment>();
+    const matchedIds = entries
+      .filter((entry) => entry.user_id)
+      .map((entry) => entry.user_id!);
+
+    const matchedUsers = matchedIds.length
+      ? await db
+          .select({
+            id: users.id,
+            role: users.role,
+            is_active: users.is_active,
+          })
+          .from(users)
+          .where(inArray(users.id, matchedIds))
+      : [];
+    const existingParticipants = matchedIds.length
+      ? await db
+          .select({
+            id: sessionParticipants.id,
+            user_id: sessionParticipants.user_id,
+            unique_link: sessionParticipants.unique_link,
+            link_expires_at: sessionParticipants.link_expires_at,
+          })
+          .from(sessionParticipants)
+          .where(
+            and(
+              eq(sessionParticipants.session_id, sessionId),
+              inArray(sessionParticipants.user_id, matchedIds)
+            )
+          )
+      : [];
+
+    const matchedById = new Map(matchedUsers.map((user) => [user.id, user]));
+    const participantByUserId = new Map(
+      existingParticipants.map((participant) => [
+        participant.user_id,
+        participant,
+      ])
+    );
+
+    for (const entry of entries) {
+      if (!entry.user_id) {
+        enrollments.set(entry.row_number, {
+          status: entry.status === "valid" ? "pending" : "not_enrolled",
+        });
+        continue;
+      }
+
+      const user = matchedById.get(entry.user_id);
+      const participant = participantByUserId.get(entry.user_id);
+      if (user?.role !== "participant" || !user.is_active) {
+        // Staff accounts and deactivated users are neither enrolled nor
+        // refreshed from the file
+        entry.status = "skipped";
+        enrollments.set(entry.row_number, {
+          status: "not_enrolled",
+          error:
+            user?.role !== "participant"
+              ? "User is not a participant"
+              : "User is inactive",
+        });
+      } else if (participant) {
+        enrollments.set(entry.row_number, {
+          status: "already_enrolled",
+          participant,
+        });
+      } else {
+        enrollments.set(entry.row_number, { status: "pending" });
+      }
+    }
+
+    const pendingCount = [...enrollments.values()].filter(
+      (enrollment) => enrollment.status === "pending"
+    ).length;
+    const currentCount = session.current_participants || 0;
+    const availableSlots = session.max_participants
+      ? Math.max(session.max_participants - currentCount, 0)
+      : null;
+
+    if (!dryRun && availableSlots !== null && pendingCount > availableSlots) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Would exceed maximum participants",
+        errors: [
+          {
+            field: "file_content",
+            message: `Cannot enroll ${pendingCount} participants. Only ${availableSlots} slots available.`,
+            code: "EXCEEDS_MAX_PARTICIPANTS",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 409);
+    }
+
+    if (!dryRun) {
+      await insertImportUsers(db, entries, auth.user.id);
+      await updateImportUsers(db, c, entries, auth.user.id);
+
+      // Links expire with the session unless a shorter expiry is requested
+      const linkExpiresAt = data.link_expires_hours
+        ? new Date(Date.now() + data.link_expires_hours * 60 * 60 * 1000)
+        : session.end_time;
+
+      // A failed refresh still enrolls the user, a failed creation cannot
+      const toEnroll = entries.filter(
+        (entry) =>
+          entry.user_id &&
+          enrollments.get(entry.row_number)?.status === "pending"
+      );
+      for (const entry of entries) {
+        const enrollment = enrollments.get(entry.row_number);
+        if (enrollment?.status === "pending" && !toEnroll.includes(entry)) {
+          enrollment.status = "not_enrolled";
+          enrollment.error = "User could not be created";
+        }
+      }
+
+      let enrolledCount = 0;
+      for (let i = 0; i < toEnroll.length; i += ENROLL_CHUNK_SIZE) {
+        const chunk = toEnroll.slice(i, i + ENROLL_CHUNK_SIZE);
+        const participantsData: CreateSessionParticipantDB[] = chunk.map(
+          (entry) => ({
+            session_id: sessionId,
+            user_id: entry.user_id!,
+            status: "invited" as const,
+            unique_link: generateUniqueParticipantToken(),
+            link_expires_at: linkExpiresAt,
+            invitation_sent_at: null,
+          })
+        );
+
+        try {
+          const added = await db
+            .insert(sessionParticipants)
+            .values(participantsData)
+            .returning({
+              id: sessionParticipants.id,
+              user_id: sessionParticipants.user_id,
+              unique_link: sessionParticipants.unique_link,
+              link_expires_at: sessionParticipants.link_expires_at,
+            });
+          const addedByUserId = new Map(
+            added.map((participant) => [participant.user_id, participant])
+          );
+
+          for (const entry of chunk) {
+            enrollments.set(entry.row_number, {
+              status: "enrolled",
+              participant: addedByUserId.get(entry.user_id!),
+            });
+          }
+          enrolledCount += added.length;
+        } catch (dbError) {
+          console.error("Session participant import insert error:", dbError);
+          for (const entry of chunk) {
+            enrollments.set(entry.row_number, {
+              status: "not_enrolled",
+              error: "Enrollment failed",
+            });
+          }
+        }
+      }
+
+      if (enrolledCount > 0) {
+        await db
+          .update(testSessions)
+          .set({
+            current_participants: sql`${testSessions.current_participants} + ${enrolledCount}`,
+            updated_at: new Date(),
+          })
+          .where(eq(testSessions.id, sessionId));
+      }
+    }
+
+    const rows: ImportSessionParticipantRow[] = entries.map((entry) => {
+      const enrollment = enrollments.get(entry.row_number)!;
+      const { participant } = enrollment;
+      return {
+        ...formatImportRow(entry),
+        enrollment: enrollment.status,
+        ...(enrollment.error && { enrollment_error: enrollment.error }),
+        ...(participant && {
+          participant_id: participant.id,
+          unique_link: participant.unique_link,
+          link_expires_at: participant.link_expires_at,
+          access_url: generateParticipantUniqueLink(
+            session.session_code,
+            participant.id,
+            env.FRONTEND_URL
+          ),
+        }),
+      };
+    });
+
+    const countEnrollment = (status: SessionEnrollmentStatus) =>
+      rows.filter((row) => row.enrollment === status).length;
+    const summary = {
+      ...summarizeImportEntries(entries),
+      enrolled: countEnrollment("enrolled"),
+      already_enrolled: countEnrollment("already_enrolled"),
+      pending: countEnrollment("pending"),
+      not_enrolled: countEnrollment("not_enrolled"),
+    };
+
+    const response: ImportSessionParticipantsResponse = {
+      success: dryRun || summary.enrolled > 0 || summary.not_enrolled === 0,
+      message: dryRun
+        ? `Import preview: ${summary.pending} participants would be enrolled in session '${session.session_name}'${availableSlots !== null && summary.pending > availableSlots ? `, but only ${availableSlots} slots are available` : ""}`
+        : `Session import completed. ${summary.created} users created, ${summary.enrolled} enrolled, ${summary.already_enrolled} already enrolled, ${summary.not_enrolled} not enrolled`,
+      data: {
+        dry_run: dryRun,
+        session_info: {
+          id: session.id,
+          session_name: session.session_name,
+          session_code: session.session_code,
+          max_participants: session.max_participants,
+          current_participants: currentCount + (dryRun ? 0 : summary.enrolled),
+          available_slots:
+            availableSlots === null
+              ? null
+              : availableSlots - (dryRun ? 0 : summary.enrolled),
+        },
+        file_info: prepared.file_info,
+        profile_id: prepared.profile_id,
+        column_mapping: prepared.column_mapping,
+        suggestions: prepared.suggestions,
+        missing_required_fields: missingFields,
+        summary,
+        rows,
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    console.log(
+      `✅ Session import by admin ${auth.user.email}: ${summary.enrolled} enrolled in session ${session.session_name} (${session.session_code}), ${summary.created} users created`
+    );
+
+    return c.json(
+      response,
+      dryRun
+        ? 200
+        : summary.enrolled > 0
+          ? 201
+          : summary.not_enrolled === 0
+            ? 200
+            : 400
+    );
+  } catch (error) {
+    console.error("Error importing participants into session:", error);
+
+    const env = getEnv(c);
+    const errorResponse: SessionErrorResponse = {
+      success: false,
+      message: "Failed to import participants into session",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,172 @@
+import { Context } from "hono";
+import { strToU8 } from "fflate";
+import { eq, asc } from "drizzle-orm";
+import {
+  getDbFromEnv,
+  testSessions,
+  sessionParticipants,
+  users,
+  isDatabaseConfigured,
+} from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { REPORT_CONTENT_TYPES, toCsv } from "@/lib/report-export";
+import { buildXlsxWorkbook, type XlsxCell } from "@/lib/xlsx";
+import {
+  type GetSessionByIdRequest,
+  type GetSessionRosterRequest,
+  type SessionErrorResponse,
+  PARTICIPANT_STATUS_LABELS,
+  generateParticipantUniqueLink,
+  isParticipantLinkExpired,
+} from "shared-types";
+
+const ROSTER_HEADERS = [
+  "No",
+  "NIK",
+  "Nama",
+  "Email",
+  "Nomor HP",
+  "Status",
+  "Link Akses",
+  "Berlaku Hingga",
+  "Link Kedaluwarsa",
+];
+
+/**
+ * Roster of a session's participants with their access links, as a CSV or
+ * Excel file the coordinator can hand out or mail-merge
+ */
+export async function getSessionRosterHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { sessionId } = c.req.param() as GetSessionByIdRequest;
+    const { format = "csv" } = c.req.query() as GetSessionRosterRequest;
+    const env = getEnv(c);
+    const db = getDbFromEnv(c.env);
+
+    const [session] = await db
+      .select({
+        id: testSessions.id,
+        session_name: testSessions.session_name,
+        session_code: testSessions.session_code,
+      })
+      .from(testSessions)
+      .where(eq(testSessions.id, sessionId))
+      .limit(1);
+
+    if (!session) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Session not found",
+        errors: [
+          {
+            field: "sessionId",
+            message: `Test session with ID "${sessionId}" not found`,
+            code: "SESSION_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const participants = await db
+      .select({
+        id: sessionParticipants.id,
+        status: sessionParticipants.status,
+        link_expires_at: sessionParticipants.link_expires_at,
+        nik: users.nik,
+        name: users.name,
+        email: users.email,
+        phone: users.phone,
+      })
+      .from(sessionParticipants)
+      .innerJoin(users, eq(sessionParticipants.user_id, users.id))
+      .where(eq(sessionParticipants.session_id, sessionId))
+      .orderBy(asc(users.name));
+
+    const rows: XlsxCell[][] = participants.map((participant, index) => [
+      index + 1,
+      participant.nik || "",
+      participant.name,
+      participant.email,
+      participant.phone || "",
+      PARTICIPANT_STATUS_LABELS[participant.status || "invited"],
+      generateParticipantUniqueLink(
+        session.session_code,
+        participant.id,
+        env.FRONTEND_URL
+      ),
+      participant.link_expires_at,
+      participant.link_expires_at &&
+      isParticipantLinkExpired(participant.link_expires_at)
+        ? "Ya"
+        : "Tidak",
+    ]);
+
+    const fileName = `roster-${session.session_code}.${format === "excel" ? "xlsx" : "csv"}`;
+    const file =
+      format === "excel"
+        ? buildXlsxWorkbook([
+            {
+              name: "Roster",
+              rows: [ROSTER_HEADERS, ...rows],
+              header_rows: 1,
+            },
+          ])
+        : // BOM so Excel opens the file as UTF-8
+          strToU8(
+            `\uFEFF${toCsv([
+              ROSTER_HEADERS,
+              ...rows.map((row) =>
+                row.map((cell) =>
+                  cell instanceof Date ? cell.toISOString() : cell
+                )
+              ),
+            ])}\r\n`
+          );
+
+    return c.body(file, 200, {
+      "Content-Type": REPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "Cache-Control": "private, no-store",
+    });
+  } catch (error) {
+    console.error("Error generating session roster:", error);
+
+    const env = getEnv(c);
+    const errorResponse: SessionErrorResponse = {
+      success: false,
+      message: "Failed to generate session roster",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -148,6 +148,7 @@ export async function updateParticipantStatusHandler(
       started: ["completed", "no_show"],
       completed: [], // Cannot change from completed
       no_show: ["invited", "registered"], // Can re-invite no-show participants
+      cancelled: [], // Only set when the whole session is cancelled
     };
 
     const allowedTransitions =
@@ -307,7 +308,7 @@ export async function updateParticipantStatusHandler(
             {
               field: "status",
               message:
-                "Status must be one of: invited, registered, started, completed, no_show",
+                "Status must be one of: invited, registered, started, completed, no_show, cancelled",
               code: "INVALID_ENUM_VALUE",
             },
           ],
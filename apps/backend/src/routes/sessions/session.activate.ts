@@ -0,0 +1,195 @@
+import { Context } from "hono";
+import { and, eq, isNull } from "drizzle-orm";
+import { getDbFromEnv, testSessions, isDatabaseConfigured } from "../../db";
+import { getEnv, type CloudflareBindings } from "../../lib/env";
+import { getSessionActivationErrors } from "../../lib/sessionLifecycle";
+import {
+  canTransitionSessionStatus,
+  type GetSessionByIdRequest,
+  type SessionErrorResponse,
+  type SessionStatus,
+  type SessionStatusTransitionResponse,
+} from "shared-types";
+
+export async function activateSessionHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    // Check if database is configured first
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { sessionId } = c.req.param() as GetSessionByIdRequest;
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const [session] = await db
+      .select({
+        id: testSessions.id,
+        session_name: testSessions.session_name,
+        session_code: testSessions.session_code,
+        end_time: testSessions.end_time,
+        status: testSessions.status,
+      })
+      .from(testSessions)
+      .where(eq(testSessions.id, sessionId))
+      .limit(1);
+
+    if (!session) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Session not found",
+        errors: [
+          {
+            field: "sessionId",
+            message: `Test session with ID "${sessionId}" not found`,
+            code: "SESSION_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const previousStatus: SessionStatus = session.status || "draft";
+
+    if (!canTransitionSessionStatus(previousStatus, "active")) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Session cannot be activated",
+        errors: [
+          {
+            field: "status",
+            message: `A ${previousStatus} session cannot be activated`,
+            code: "INVALID_STATUS_TRANSITION",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 409);
+    }
+
+    const now = new Date();
+
+    if (session.end_time <= now) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Session has already ended",
+        errors: [
+          {
+            field: "end_time",
+            message:
+              "Session end time has passed. Extend the end time before activating the session.",
+            code: "SESSION_ENDED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 409);
+    }
+
+    const errors = await getSessionActivationErrors(db, sessionId);
+
+    if (errors.length > 0) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Session is not ready to be activated",
+        errors,
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 409);
+    }
+
+    const [updatedSession] = await db
+      .update(testSessions)
+      .set({
+        status: "active",
+        updated_at: now,
+        updated_by: auth.user.id,
+      })
+      .where(
+        and(
+          eq(testSessions.id, sessionId),
+          // Another request may have moved the session on since it was read
+          session.status
+            ? eq(testSessions.status, session.status)
+            : isNull(testSessions.status)
+        )
+      )
+      .returning();
+
+    if (!updatedSession) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Session status changed while processing the request",
+        errors: [
+          {
+            field: "status",
+            message: `The session is no longer ${previousStatus} and was not activated`,
+            code: "STATUS_CONFLICT",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 409);
+    }
+
+    const response: SessionStatusTransitionResponse = {
+      success: true,
+      message: `Test session '${updatedSession.session_name}' activated successfully`,
+      data: {
+        id: updatedSession.id,
+        session_name: updatedSession.session_name,
+        session_code: updatedSession.session_code,
+        previous_status: previousStatus,
+        status: "active",
+        changed_at: now.toISOString(),
+        side_effects: {
+          attempts_expired: 0,
+          participants_updated: 0,
+          session_results_updated: 0,
+        },
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    console.log(
+      `✅ Session activated by admin ${auth.user.email}: ${updatedSession.session_name} (${updatedSession.session_code})`
+    );
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error activating session:", error);
+
+    const env = getEnv(c);
+    const errorResponse: SessionErrorResponse = {
+      success: false,
+      message: "Failed to activate session",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
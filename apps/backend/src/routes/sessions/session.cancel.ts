@@ -0,0 +1,178 @@
+import { Context } from "hono";
+import { and, eq, isNull } from "drizzle-orm";
+import { getDbFromEnv, testSessions, isDatabaseConfigured } from "../../db";
+import { getEnv, type CloudflareBindings } from "../../lib/env";
+import {
+  expireOpenSessionAttempts,
+  updateSessionParticipantStatuses,
+} from "../../lib/sessionLifecycle";
+import {
+  canTransitionSessionStatus,
+  type GetSessionByIdRequest,
+  type SessionErrorResponse,
+  type SessionStatus,
+  type SessionStatusTransitionResponse,
+} from "shared-types";
+
+export async function cancelSessionHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    // Check if database is configured first
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { sessionId } = c.req.param() as GetSessionByIdRequest;
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const [session] = await db
+      .select({
+        id: testSessions.id,
+        session_name: testSessions.session_name,
+        session_code: testSessions.session_code,
+        status: testSessions.status,
+      })
+      .from(testSessions)
+      .where(eq(testSessions.id, sessionId))
+      .limit(1);
+
+    if (!session) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Session not found",
+        errors: [
+          {
+            field: "sessionId",
+            message: `Test session with ID "${sessionId}" not found`,
+            code: "SESSION_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const previousStatus: SessionStatus = session.status || "draft";
+
+    if (!canTransitionSessionStatus(previousStatus, "cancelled")) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Session cannot be cancelled",
+        errors: [
+          {
+            field: "status",
+            message: `A ${previousStatus} session cannot be cancelled`,
+            code: "INVALID_STATUS_TRANSITION",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 409);
+    }
+
+    const now = new Date();
+
+    const [updatedSession] = await db
+      .update(testSessions)
+      .set({
+        status: "cancelled",
+        updated_at: now,
+        updated_by: auth.user.id,
+      })
+      .where(
+        and(
+          eq(testSessions.id, sessionId),
+          // Another request may have moved the session on since it was read
+          session.status
+            ? eq(testSessions.status, session.status)
+            : isNull(testSessions.status)
+        )
+      )
+      .returning();
+
+    if (!updatedSession) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Session status changed while processing the request",
+        errors: [
+          {
+            field: "status",
+            message: `The session is no longer ${previousStatus} and was not cancelled`,
+            code: "STATUS_CONFLICT",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 409);
+    }
+
+    // Running attempts are closed and everyone who had not finished is
+    // marked cancelled, completed participants keep their results
+    const attemptsExpired = await expireOpenSessionAttempts(db, sessionId, now);
+    const participantsUpdated = await updateSessionParticipantStatuses(
+      db,
+      sessionId,
+      ["invited", "registered", "started"],
+      "cancelled"
+    );
+
+    const response: SessionStatusTransitionResponse = {
+      success: true,
+      message: `Test session '${updatedSession.session_name}' cancelled successfully`,
+      data: {
+        id: updatedSession.id,
+        session_name: updatedSession.session_name,
+        session_code: updatedSession.session_code,
+        previous_status: previousStatus,
+        status: "cancelled",
+        changed_at: now.toISOString(),
+        side_effects: {
+          attempts_expired: attemptsExpired,
+          participants_updated: participantsUpdated,
+          session_results_updated: 0,
+        },
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    console.log(
+      `✅ Session cancelled by admin ${auth.user.email}: ${updatedSession.session_name} (${updatedSession.session_code})`
+    );
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error cancelling session:", error);
+
+    const env = getEnv(c);
+    const errorResponse: SessionErrorResponse = {
+      success: false,
+      message: "Failed to cancel session",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -255,6 +255,8 @@ export async function createSessionHandler(
         proctor_id: data.proctor_id || null,
         auto_expire: data.auto_expire,
         allow_late_entry: data.allow_late_entry,
+        shuffle_questions: data.shuffle_questions,
+        shuffle_options: data.shuffle_options,
         status: "draft", // New sessions start as draft
         created_by: auth.user.id,
         updated_by: auth.user.id,
@@ -374,6 +376,8 @@ export async function createSessionHandler(
         proctor_id: newSession.proctor_id,
         auto_expire: newSession.auto_expire ?? true,
         allow_late_entry: newSession.allow_late_entry ?? false,
+        shuffle_questions: newSession.shuffle_questions ?? false,
+        shuffle_options: newSession.shuffle_options ?? false,
         created_at: newSession.created_at,
         updated_at: newSession.updated_at,
         created_by: newSession.created_by,
@@ -0,0 +1,80 @@
+import { Context } from "hono";
+import { getDbFromEnv, isDatabaseConfigured } from "../../db";
+import { getEnv, type CloudflareBindings } from "../../lib/env";
+import {
+  getLastSuccessfulSchedulerRun,
+  getRecentSchedulerRuns,
+  toSchedulerRunData,
+} from "../../lib/scheduler";
+import type {
+  GetSessionStatusUpdateResponse,
+  SessionErrorResponse,
+} from "shared-types";
+
+export async function getSessionStatusUpdateHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    // Check if database is configured first
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const db = getDbFromEnv(c.env);
+
+    const [recentRuns, lastSuccessfulRun] = await Promise.all([
+      getRecentSchedulerRuns(db),
+      getLastSuccessfulSchedulerRun(db),
+    ]);
+
+    const response: GetSessionStatusUpdateResponse = {
+      success: true,
+      message:
+        recentRuns.length > 0
+          ? "Session status update runs retrieved successfully"
+          : "Session status update has not run yet",
+      data: {
+        last_run: recentRuns[0] ? toSchedulerRunData(recentRuns[0]) : null,
+        last_successful_run: lastSuccessfulRun
+          ? toSchedulerRunData(lastSuccessfulRun)
+          : null,
+        recent_runs: recentRuns.map(toSchedulerRunData),
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting session status update runs:", error);
+
+    const env = getEnv(c);
+    const errorResponse: SessionErrorResponse = {
+      success: false,
+      message: "Failed to retrieve session status update runs",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -184,6 +184,8 @@ export async function getSessionsListHandler(
         proctor_id: testSessions.proctor_id,
         auto_expire: testSessions.auto_expire,
         allow_late_entry: testSessions.allow_late_entry,
+        shuffle_questions: testSessions.shuffle_questions,
+        shuffle_options: testSessions.shuffle_options,
         created_at: testSessions.created_at,
         updated_at: testSessions.updated_at,
         created_by: testSessions.created_by,
@@ -290,6 +292,8 @@ export async function getSessionsListHandler(
           proctor_id: session.proctor_id,
           auto_expire: session.auto_expire ?? true,
           allow_late_entry: session.allow_late_entry ?? false,
+          shuffle_questions: session.shuffle_questions ?? false,
+          shuffle_options: session.shuffle_options ?? false,
           created_at: session.created_at,
           updated_at: session.updated_at,
           created_by: session.created_by,
@@ -0,0 +1,120 @@
+import { Context } from "hono";
+import { eq } from "drizzle-orm";
+import { getDbFromEnv, testSessions, isDatabaseConfigured } from "../../db";
+import { getEnv, type CloudflareBindings } from "../../lib/env";
+import {
+  aggregateParticipantSessionResult,
+  aggregateSessionResults,
+  toSessionResultData,
+} from "../../lib/sessionResults";
+import type {
+  RecomputeSessionResultsBody,
+  RecomputeSessionResultsRequest,
+  RecomputeSessionResultsResponse,
+  SessionErrorResponse,
+} from "shared-types";
+
+export async function recomputeSessionResultsHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    // Check if database is configured first
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { sessionId } = c.req.param() as RecomputeSessionResultsRequest;
+    const body = (await c.req
+      .json()
+      .catch(() => ({}))) as RecomputeSessionResultsBody;
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const [session] = await db
+      .select({
+        id: testSessions.id,
+        session_name: testSessions.session_name,
+      })
+      .from(testSessions)
+      .where(eq(testSessions.id, sessionId))
+      .limit(1);
+
+    if (!session) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Session not found",
+        errors: [
+          {
+            field: "sessionId",
+            message: `Test session with ID "${sessionId}" not found`,
+            code: "SESSION_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const rows = body.user_id
+      ? [
+          await aggregateParticipantSessionResult(db, sessionId, body.user_id),
+        ].filter((row) => row !== null)
+      : await aggregateSessionResults(db, sessionId);
+
+    const results = await Promise.all(
+      rows.map((row) => toSessionResultData(db, row))
+    );
+
+    const response: RecomputeSessionResultsResponse = {
+      success: true,
+      message:
+        results.length > 0
+          ? `Session results recomputed for ${results.length} participant(s)`
+          : "No open session results to recompute. Results need completed tests and finalized results are locked",
+      data: {
+        session_id: sessionId,
+        results_updated: results.length,
+        results,
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    console.log(
+      `✅ Session results recomputed by admin ${auth.user.email}: ${session.session_name} (${results.length} participant(s))`
+    );
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error recomputing session results:", error);
+
+    const env = getEnv(c);
+    const errorResponse: SessionErrorResponse = {
+      success: false,
+      message: "Failed to recompute session results",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,90 @@
+import { Context } from "hono";
+import { isDatabaseConfigured } from "../../db";
+import { getEnv, type CloudflareBindings } from "../../lib/env";
+import { runScheduledJobs, toSchedulerRunData } from "../../lib/scheduler";
+import type {
+  SessionErrorResponse,
+  TriggerSessionStatusUpdateResponse,
+} from "shared-types";
+
+export async function triggerSessionStatusUpdateHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    // Check if database is configured first
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const auth = c.get("auth");
+
+    const run = await runScheduledJobs(c.env, {
+      trigger: "manual",
+      triggered_by: auth.user.id,
+    });
+
+    if (!run) {
+      const errorResponse: SessionErrorResponse = {
+        success: false,
+        message: "Session status update could not be recorded",
+        errors: [
+          {
+            field: "scheduler",
+            message: "The scheduler run finished but its outcome was not saved",
+            code: "SCHEDULER_RUN_NOT_RECORDED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 500);
+    }
+
+    const response: TriggerSessionStatusUpdateResponse = {
+      success: run.status !== "failed",
+      message:
+        run.status === "success"
+          ? "Session status update completed successfully"
+          : `Session status update finished with errors (${run.status})`,
+      data: toSchedulerRunData(run),
+      timestamp: new Date().toISOString(),
+    };
+
+    console.log(
+      `✅ Session status update triggered by admin ${auth.user.email}: ${run.status} in ${run.duration_ms}ms`
+    );
+
+    return c.json(response, run.status === "failed" ? 500 : 200);
+  } catch (error) {
+    console.error("Error triggering session status update:", error);
+
+    const env = getEnv(c);
+    const errorResponse: SessionErrorResponse = {
+      success: false,
+      message: "Failed to trigger session status update",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
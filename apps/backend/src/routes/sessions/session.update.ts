@@ -16,6 +16,8 @@ import {
   type SessionErrorResponse,
   type UpdateSessionDB,
   type CreateSessionModuleDB,
+  type SessionStatus,
+  canTransitionSessionStatus,
   generateParticipantLink,
   isSessionActive,
   isSessionExpired,
@@ -87,6 +89,8 @@ export async function updateSessionHandler(
         proctor_id: testSessions.proctor_id,
         auto_expire: testSessions.auto_expire,
         allow_late_entry: testSessions.allow_late_entry,
+        shuffle_questions: testSessions.shuffle_questions,
+        shuffle_options: testSessions.shuffle_options,
         created_at: testSessions.created_at,
         updated_at: testSessions.updated_at,
         created_by: testSessions.created_by,
@@ -137,6 +141,49 @@ export async function updateSessionHandler(
       return c.json(errorResponse, 409);
     }
 
+    // Status changes follow the same transition rules as the lifecycle
+    // endpoints; transitions with side effects must go through those
+    const currentStatus = existingSession.status || "draft";
+    if (data.status !== undefined && data.status !== currentStatus) {
+      if (!canTransitionSessionStatus(currentStatus, data.status)) {
+        const errorResponse: SessionErrorResponse = {
+          success: false,
+          message: "Invalid status transition",
+          errors: [
+            {
+              field: "status",
+              message: `Session status cannot change from ${currentStatus} to ${data.status}`,
+              code: "INVALID_STATUS_TRANSITION",
+            },
+          ],
+          timestamp: new Date().toISOString(),
+        };
+        return c.json(errorResponse, 409);
+      }
+
+      const lifecycleActions: Partial<Record<SessionStatus, string>> = {
+        active: "activate",
+        cancelled: "cancel",
+        completed: "complete",
+      };
+      const action = lifecycleActions[data.status];
+      if (action) {
+        const errorResponse: SessionErrorResponse = {
+          success: false,
+          message: "Use the session lifecycle endpoint to change this status",
+          errors: [
+            {
+              field: "status",
+              message: `Use POST /sessions/${sessionId}/${action} to set the status to ${data.status}`,
+              code: "USE_LIFECYCLE_ENDPOINT",
+            },
+          ],
+          timestamp: new Date().toISOString(),
+        };
+        return c.json(errorResponse, 400);
+      }
+    }
+
     // Validate proctor exists if provided
     if (data.proctor_id) {
       const [proctor] = await db
@@ -406,6 +453,10 @@ export async function updateSessionHandler(
       updateData.auto_expire = data.auto_expire;
     if (data.allow_late_entry !== undefined)
       updateData.allow_late_entry = data.allow_late_entry;
+    if (data.shuffle_questions !== undefined)
+      updateData.shuffle_questions = data.shuffle_questions;
+    if (data.shuffle_options !== undefined)
+      updateData.shuffle_options = data.shuffle_options;
     if (data.status !== undefined) updateData.status = data.status;
 
     // Update session in database
@@ -471,6 +522,8 @@ export async function updateSessionHandler(
       proctor_id: updatedSession.proctor_id,
       auto_expire: updatedSession.auto_expire ?? true,
       allow_late_entry: updatedSession.allow_late_entry ?? false,
+      shuffle_questions: updatedSession.shuffle_questions ?? false,
+      shuffle_options: updatedSession.shuffle_options ?? false,
       created_at: updatedSession.created_at,
       updated_at: updatedSession.updated_at,
       created_by: updatedSession.created_by,
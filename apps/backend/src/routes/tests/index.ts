@@ -11,6 +11,16 @@ import {
   type TestErrorResponse,
   UpdateTestDisplayOrderByIdRequestSchema,
   UpdateTestDisplayOrderRequestSchema,
+  KraepelinTestRequestSchema,
+  UpdateKraepelinConfigRequestSchema,
+  TestBlueprintByTestIdRequestSchema,
+  UpdateTestBlueprintRequestSchema,
+  TestAdaptiveByTestIdRequestSchema,
+  UpdateTestAdaptiveConfigRequestSchema,
+  TestManualScoringByTestIdRequestSchema,
+  UpdateTestManualScoringConfigRequestSchema,
+  TestItemAnalysisRequestSchema,
+  GetTestItemAnalysisQuerySchema,
 } from "shared-types";
 import { getTestsListHandler } from "./test.list";
 import { getTestByIdHandler } from "./test.get";
@@ -22,9 +32,28 @@ import { getCategoriesHandler } from "./test.categories";
 import { getModuleTypesHandler } from "./test.module-types";
 import { getTestPrerequisitesHandler } from "./test.prerequisites";
 import { updateTestDisplayOrderHandler } from "./test.display-order";
+import {
+  getKraepelinConfigHandler,
+  updateKraepelinConfigHandler,
+} from "./test.kraepelin";
+import {
+  getTestBlueprintHandler,
+  updateTestBlueprintHandler,
+} from "./test.blueprint";
+import {
+  calibrateTestItemsHandler,
+  getTestAdaptiveHandler,
+  updateTestAdaptiveHandler,
+} from "./test.adaptive";
+import {
+  getTestManualScoringHandler,
+  updateTestManualScoringHandler,
+} from "./test.manual-scoring";
+import { getTestItemAnalysisHandler } from "./test.analytics";
 import { authenticateUser, requireAdmin } from "../../middleware/auth";
 import { generalApiRateLimit } from "../../middleware/rateLimiter";
 import { questionRoutes } from "./questions";
+import { normRoutes } from "./norms";
 
 const testRoutes = new Hono<{ Bindings: CloudflareBindings }>();
 
@@ -32,6 +61,10 @@ const testRoutes = new Hono<{ Bindings: CloudflareBindings }>();
 // Mount question routes under /:testId/questions
 testRoutes.route("/:testId/questions", questionRoutes);
 
+// ==================== NORM ROUTES ====================
+// Mount norm table routes under /:testId/norms
+testRoutes.route("/:testId/norms", normRoutes);
+
 // ==================== CATEGORY & MODULE TYPE ROUTES (Admin only) ====================
 
 // Get All Categories
@@ -182,13 +215,13 @@ testRoutes.get(
 
 // ==================== ANALYTICS ROUTES (Admin only) ====================
 
-// Get Test Analytics (Future implementation)
+// Get Item Analysis of the Test Questions (Admin only)
 testRoutes.get(
   "/:testId/analytics",
   generalApiRateLimit,
   authenticateUser,
   requireAdmin,
-  zValidator("param", GetTestByIdRequestSchema, (result, c) => {
+  zValidator("param", TestItemAnalysisRequestSchema, (result, c) => {
     if (!result.success) {
       const errorResponse: TestErrorResponse = {
         success: false,
@@ -203,14 +236,22 @@ testRoutes.get(
       return c.json(errorResponse, 400);
     }
   }),
-  async (c) => {
-    const errorResponse: TestErrorResponse = {
-      success: false,
-      message: "Test analytics not implemented yet",
-      timestamp: new Date().toISOString(),
-    };
-    return c.json(errorResponse, 501);
-  }
+  zValidator("query", GetTestItemAnalysisQuerySchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestErrorResponse = {
+        success: false,
+        message: "Invalid query parameters",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getTestItemAnalysisHandler
 );
 
 // ==================== BASIC CRUD ROUTES ====================
@@ -311,6 +352,286 @@ testRoutes.get(
   getTestPrerequisitesHandler
 );
 
+// Get Kraepelin/Pauli Sheet Configuration (Admin only)
+testRoutes.get(
+  "/:testId/kraepelin",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", KraepelinTestRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestErrorResponse = {
+        success: false,
+        message: "Invalid test ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getKraepelinConfigHandler
+);
+
+// Configure Kraepelin/Pauli Sheet (Admin only)
+testRoutes.put(
+  "/:testId/kraepelin",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", KraepelinTestRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestErrorResponse = {
+        success: false,
+        message: "Invalid test ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator("json", UpdateKraepelinConfigRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestErrorResponse = {
+        success: false,
+        message: "Invalid kraepelin configuration",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  updateKraepelinConfigHandler
+);
+
+// Get Test Blueprint and Parallel Forms (Admin only)
+testRoutes.get(
+  "/:testId/blueprint",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", TestBlueprintByTestIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestErrorResponse = {
+        success: false,
+        message: "Invalid test ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getTestBlueprintHandler
+);
+
+// Set or Clear Test Blueprint (Admin only)
+testRoutes.put(
+  "/:testId/blueprint",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", TestBlueprintByTestIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestErrorResponse = {
+        success: false,
+        message: "Invalid test ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator("json", UpdateTestBlueprintRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestErrorResponse = {
+        success: false,
+        message: "Invalid test blueprint",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  updateTestBlueprintHandler
+);
+
+// Get Adaptive Testing Settings and Item Parameters (Admin only)
+testRoutes.get(
+  "/:testId/adaptive",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", TestAdaptiveByTestIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestErrorResponse = {
+        success: false,
+        message: "Invalid test ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getTestAdaptiveHandler
+);
+
+// Enable or Disable Adaptive Testing (Admin only)
+testRoutes.put(
+  "/:testId/adaptive",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", TestAdaptiveByTestIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestErrorResponse = {
+        success: false,
+        message: "Invalid test ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator("json", UpdateTestAdaptiveConfigRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestErrorResponse = {
+        success: false,
+        message: "Invalid adaptive test settings",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  updateTestAdaptiveHandler
+);
+
+// Calibrate Item Parameters from Past Answers (Admin only)
+testRoutes.post(
+  "/:testId/adaptive/calibrate",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", TestAdaptiveByTestIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestErrorResponse = {
+        success: false,
+        message: "Invalid test ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  calibrateTestItemsHandler
+);
+
+// Get Manual Scoring Rater Settings (Admin only)
+testRoutes.get(
+  "/:testId/manual-scoring",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", TestManualScoringByTestIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestErrorResponse = {
+        success: false,
+        message: "Invalid test ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getTestManualScoringHandler
+);
+
+// Update Manual Scoring Rater Settings (Admin only)
+testRoutes.put(
+  "/:testId/manual-scoring",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", TestManualScoringByTestIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: TestErrorResponse = {
+        success: false,
+        message: "Invalid test ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator(
+    "json",
+    UpdateTestManualScoringConfigRequestSchema,
+    (result, c) => {
+      if (!result.success) {
+        const errorResponse: TestErrorResponse = {
+          success: false,
+          message: "Invalid manual scoring settings",
+          errors: result.error.errors.map((err) => ({
+            field: err.path.join("."),
+            message: err.message,
+            code: err.code,
+          })),
+          timestamp: new Date().toISOString(),
+        };
+        return c.json(errorResponse, 400);
+      }
+    }
+  ),
+  updateTestManualScoringHandler
+);
+
 // Update Test (Admin only)
 testRoutes.put(
   "/:testId",
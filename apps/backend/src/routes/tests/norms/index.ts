@@ -0,0 +1,226 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { type CloudflareBindings } from "@/lib/env";
+import {
+  GetNormTablesByTestIdRequestSchema,
+  GetNormTablesQuerySchema,
+  NormTableByIdRequestSchema,
+  CreateNormTableRequestSchema,
+  UpdateNormTableRequestSchema,
+  ComputeNormTablesRequestSchema,
+  type NormErrorResponse,
+} from "shared-types";
+import { getNormTablesHandler } from "./norm.list";
+import { createNormTableHandler } from "./norm.create";
+import { updateNormTableHandler } from "./norm.update";
+import { deleteNormTableHandler } from "./norm.delete";
+import { computeNormTablesHandler } from "./norm.compute";
+import { authenticateUser, requireAdmin } from "@/middleware/auth";
+import { generalApiRateLimit } from "@/middleware/rateLimiter";
+
+const normRoutes = new Hono<{ Bindings: CloudflareBindings }>();
+
+// ==================== NORM TABLE ROUTES (Admin only) ====================
+
+// Get Norm Tables for a Test
+normRoutes.get(
+  "/",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", GetNormTablesByTestIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Invalid test ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator("query", GetNormTablesQuerySchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Invalid query parameters",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  getNormTablesHandler
+);
+
+// Compute Norm Tables from Existing Test Results
+normRoutes.post(
+  "/compute",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", GetNormTablesByTestIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Invalid test ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator("json", ComputeNormTablesRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Invalid compute norm request",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  computeNormTablesHandler
+);
+
+// Create Norm Table (manual entry)
+normRoutes.post(
+  "/",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", GetNormTablesByTestIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Invalid test ID parameter",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator("json", CreateNormTableRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Invalid norm table data",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  createNormTableHandler
+);
+
+// Update Norm Table
+normRoutes.put(
+  "/:normId",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", NormTableByIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Invalid norm table parameters",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator("json", UpdateNormTableRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Invalid norm table update data",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  updateNormTableHandler
+);
+
+// Delete Norm Table
+normRoutes.delete(
+  "/:normId",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", NormTableByIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Invalid norm table parameters",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  deleteNormTableHandler
+);
+
+// ==================== ERROR HANDLERS ====================
+normRoutes.onError((err, c) => {
+  console.error("Norm routes error:", err);
+
+  const errorResponse: NormErrorResponse = {
+    success: false,
+    message: "Norm route error",
+    ...(c.env.NODE_ENV === "development" && {
+      errors: [
+        {
+          message: err.message,
+          code: "ROUTE_ERROR",
+        },
+      ],
+    }),
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(errorResponse, 500);
+});
+
+export { normRoutes };
@@ -0,0 +1,284 @@
+import { Context } from "hono";
+import { and, eq, gte, lte, type SQL } from "drizzle-orm";
+import {
+  getDbFromEnv,
+  tests,
+  users,
+  testResults,
+  normTables,
+  isDatabaseConfigured,
+  type NewNormTable,
+} from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { formatNormTable } from "@/lib/norms";
+import {
+  buildNormStatistics,
+  calculateAgeAt,
+  DEFAULT_NORM_SCALE,
+  USER_DETAIL_CONSTANTS,
+  type AgeBand,
+  type ComputeNormTablesRequest,
+  type ComputeNormTablesResponse,
+  type GetNormTablesByTestIdRequest,
+  type NormErrorResponse,
+  type NormSplitBy,
+} from "shared-types";
+
+type NormGroupKey = {
+  education: string | null;
+  gender: string | null;
+  age_band: AgeBand | null;
+};
+
+export async function computeNormTablesHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { testId } = c.req.param() as GetNormTablesByTestIdRequest;
+    const data = (await c.req.json()) as ComputeNormTablesRequest;
+
+    const scale = data.scale || DEFAULT_NORM_SCALE;
+    const splitBy: NormSplitBy[] = data.split_by || [];
+    const minSampleSize = data.min_sample_size ?? 30;
+    const ageBands = data.age_bands || [];
+
+    if (splitBy.includes("age_band") && ageBands.length === 0) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Age bands are required when splitting by age band",
+        errors: [
+          {
+            field: "age_bands",
+            message:
+              "Provide at least one age band, e.g. [{ min: 18, max: 25 }]",
+            code: "AGE_BANDS_REQUIRED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const [targetTest] = await db
+      .select({ id: tests.id, name: tests.name })
+      .from(tests)
+      .where(eq(tests.id, testId))
+      .limit(1);
+
+    if (!targetTest) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Test not found",
+        errors: [
+          {
+            field: "testId",
+            message: `Test with ID "${testId}" not found`,
+            code: "TEST_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const conditions: SQL[] = [eq(testResults.test_id, testId)];
+    if (data.date_from) {
+      conditions.push(gte(testResults.calculated_at, new Date(data.date_from)));
+    }
+    if (data.date_to) {
+      conditions.push(lte(testResults.calculated_at, new Date(data.date_to)));
+    }
+
+    const results = await db
+      .select({
+        scaled_score: testResults.scaled_score,
+        traits: testResults.traits,
+        calculated_at: testResults.calculated_at,
+        education: users.education,
+        gender: users.gender,
+        birth_date: users.birth_date,
+      })
+      .from(testResults)
+      .innerJoin(users, eq(testResults.user_id, users.id))
+      .where(and(...conditions));
+
+    // Collect scores per norm group
+    const groups = new Map<string, { key: NormGroupKey; scores: number[] }>();
+    let totalResultsUsed = 0;
+
+    for (const result of results) {
+      const score =
+        scale === DEFAULT_NORM_SCALE
+          ? result.scaled_score !== null
+            ? parseFloat(result.scaled_score)
+            : null
+          : ((result.traits || []).find(
+              (trait) => trait.name.toLowerCase() === scale.toLowerCase()
+            )?.score ?? null);
+      if (score === null || isNaN(score)) continue;
+
+      const key: NormGroupKey = {
+        education: splitBy.includes("education") ? result.education : null,
+        gender: splitBy.includes("gender") ? result.gender : null,
+        age_band: null,
+      };
+      if (splitBy.includes("education") && !key.education) continue;
+      if (splitBy.includes("gender") && !key.gender) continue;
+      if (splitBy.includes("age_band")) {
+        const age = calculateAgeAt(result.birth_date, result.calculated_at);
+        if (age === null) continue;
+        key.age_band =
+          ageBands.find((band) => age >= band.min && age <= band.max) || null;
+        if (!key.age_band) continue;
+      }
+
+      const groupId = [
+        key.education || "*",
+        key.gender || "*",
+        key.age_band ? `${key.age_band.min}-${key.age_band.max}` : "*",
+      ].join("|");
+      const group = groups.get(groupId) || { key, scores: [] };
+      group.scores.push(score);
+      groups.set(groupId, group);
+      totalResultsUsed++;
+    }
+
+    const baseName = data.name || `Norma ${targetTest.name}`;
+    const newNorms: NewNormTable[] = [];
+    const skippedGroups: ComputeNormTablesResponse["data"]["skipped_groups"] =
+      [];
+
+    for (const { key, scores } of groups.values()) {
+      const label = describeNormGroup(key);
+      if (scores.length < minSampleSize) {
+        skippedGroups.push({
+          group: label,
+          sample_size: scores.length,
+          reason: `Sample size below minimum of ${minSampleSize}`,
+        });
+        continue;
+      }
+
+      const statistics = buildNormStatistics(scores);
+      if (statistics.std_dev <= 0) {
+        skippedGroups.push({
+          group: label,
+          sample_size: scores.length,
+          reason: "Scores have no variance",
+        });
+        continue;
+      }
+
+      newNorms.push({
+        test_id: testId,
+        name: label === "Semua" ? baseName : `${baseName} - ${label}`,
+        description: `Dihitung dari ${scores.length} hasil tes`,
+        scale,
+        education: key.education as NewNormTable["education"],
+        gender: key.gender as NewNormTable["gender"],
+        age_min: key.age_band?.min ?? null,
+        age_max: key.age_band?.max ?? null,
+        mean: statistics.mean.toString(),
+        std_dev: statistics.std_dev.toString(),
+        sample_size: scores.length,
+        percentile_points: statistics.percentile_points,
+        source: "computed",
+        is_active: true,
+        created_by: auth.user.id,
+        updated_by: auth.user.id,
+      });
+    }
+
+    // Previously computed norms for the scale are retired, manual ones are kept
+    if (data.replace_existing && newNorms.length > 0) {
+      await db
+        .update(normTables)
+        .set({
+          is_active: false,
+          updated_at: new Date(),
+          updated_by: auth.user.id,
+        })
+        .where(
+          and(
+            eq(normTables.test_id, testId),
+            eq(normTables.scale, scale),
+            eq(normTables.source, "computed")
+          )
+        );
+    }
+
+    const createdNorms =
+      newNorms.length > 0
+        ? await db.insert(normTables).values(newNorms).returning()
+        : [];
+
+    const response: ComputeNormTablesResponse = {
+      success: true,
+      message: `Computed ${createdNorms.length} norm table(s) from ${totalResultsUsed} result(s)`,
+      data: {
+        created: createdNorms.map(formatNormTable),
+        skipped_groups: skippedGroups,
+        total_results_used: totalResultsUsed,
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, createdNorms.length > 0 ? 201 : 200);
+  } catch (error) {
+    console.error("Error computing norm tables:", error);
+
+    const env = getEnv(c);
+    const errorResponse: NormErrorResponse = {
+      success: false,
+      message: "Failed to compute norm tables",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
+
+function describeNormGroup(key: NormGroupKey): string {
+  const parts: string[] = [];
+  if (key.education) {
+    const labels: Record<string, string> =
+      USER_DETAIL_CONSTANTS.EDUCATION_LABELS;
+    parts.push(labels[key.education] || key.education);
+  }
+  if (key.gender) {
+    const labels: Record<string, string> = USER_DETAIL_CONSTANTS.GENDER_LABELS;
+    parts.push(labels[key.gender] || key.gender);
+  }
+  if (key.age_band) {
+    parts.push(`${key.age_band.min}-${key.age_band.max} tahun`);
+  }
+  return parts.length > 0 ? parts.join(", ") : "Semua";
+}
@@ -0,0 +1,113 @@
+import { Context } from "hono";
+import { eq } from "drizzle-orm";
+import { getDbFromEnv, tests, normTables, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { formatNormTable } from "@/lib/norms";
+import {
+  DEFAULT_NORM_SCALE,
+  type CreateNormTableRequest,
+  type GetNormTablesByTestIdRequest,
+  type NormTableResponse,
+  type NormErrorResponse,
+} from "shared-types";
+
+export async function createNormTableHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { testId } = c.req.param() as GetNormTablesByTestIdRequest;
+    const data = (await c.req.json()) as CreateNormTableRequest;
+
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const [targetTest] = await db
+      .select({ id: tests.id, name: tests.name })
+      .from(tests)
+      .where(eq(tests.id, testId))
+      .limit(1);
+
+    if (!targetTest) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Test not found",
+        errors: [
+          {
+            field: "testId",
+            message: `Test with ID "${testId}" not found`,
+            code: "TEST_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const [createdNorm] = await db
+      .insert(normTables)
+      .values({
+        test_id: testId,
+        name: data.name,
+        description: data.description || null,
+        scale: data.scale || DEFAULT_NORM_SCALE,
+        education: data.education || null,
+        gender: data.gender || null,
+        age_min: data.age_min ?? null,
+        age_max: data.age_max ?? null,
+        mean: data.mean.toString(),
+        std_dev: data.std_dev.toString(),
+        sample_size: data.sample_size ?? 0,
+        percentile_points: data.percentile_points || null,
+        source: "manual",
+        is_active: data.is_active ?? true,
+        created_by: auth.user.id,
+        updated_by: auth.user.id,
+      })
+      .returning();
+
+    const response: NormTableResponse = {
+      success: true,
+      message: `Norm table '${createdNorm.name}' created for test '${targetTest.name}'`,
+      data: formatNormTable(createdNorm),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 201);
+  } catch (error) {
+    console.error("Error creating norm table:", error);
+
+    const env = getEnv(c);
+    const errorResponse: NormErrorResponse = {
+      success: false,
+      message: "Failed to create norm table",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
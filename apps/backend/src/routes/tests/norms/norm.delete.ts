@@ -0,0 +1,85 @@
+import { Context } from "hono";
+import { and, eq } from "drizzle-orm";
+import { getDbFromEnv, normTables, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import {
+  type NormTableByIdRequest,
+  type NormErrorResponse,
+} from "shared-types";
+
+export async function deleteNormTableHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { testId, normId } = c.req.param() as NormTableByIdRequest;
+    const db = getDbFromEnv(c.env);
+
+    // Norms are only looked up at scoring time, so a hard delete is safe
+    const [deletedNorm] = await db
+      .delete(normTables)
+      .where(and(eq(normTables.id, normId), eq(normTables.test_id, testId)))
+      .returning({ id: normTables.id, name: normTables.name });
+
+    if (!deletedNorm) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Norm table not found",
+        errors: [
+          {
+            field: "normId",
+            message: `Norm table with ID "${normId}" not found for this test`,
+            code: "NORM_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    return c.json(
+      {
+        success: true,
+        message: `Norm table '${deletedNorm.name}' deleted successfully`,
+        data: { id: deletedNorm.id, deleted_at: new Date().toISOString() },
+        timestamp: new Date().toISOString(),
+      },
+      200
+    );
+  } catch (error) {
+    console.error("Error deleting norm table:", error);
+
+    const env = getEnv(c);
+    const errorResponse: NormErrorResponse = {
+      success: false,
+      message: "Failed to delete norm table",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,104 @@
+import { Context } from "hono";
+import { and, asc, eq, type SQL } from "drizzle-orm";
+import { getDbFromEnv, tests, normTables, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { formatNormTable } from "@/lib/norms";
+import {
+  type GetNormTablesByTestIdRequest,
+  type GetNormTablesQuery,
+  type GetNormTablesResponse,
+  type NormErrorResponse,
+} from "shared-types";
+
+export async function getNormTablesHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { testId } = c.req.param() as GetNormTablesByTestIdRequest;
+    const query = c.req.query() as unknown as GetNormTablesQuery;
+    const includeInactive = String(query.include_inactive) === "true";
+
+    const db = getDbFromEnv(c.env);
+
+    const [targetTest] = await db
+      .select({ id: tests.id, name: tests.name })
+      .from(tests)
+      .where(eq(tests.id, testId))
+      .limit(1);
+
+    if (!targetTest) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Test not found",
+        errors: [
+          {
+            field: "testId",
+            message: `Test with ID "${testId}" not found`,
+            code: "TEST_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    const conditions: SQL[] = [eq(normTables.test_id, testId)];
+    if (query.scale) {
+      conditions.push(eq(normTables.scale, query.scale));
+    }
+    if (!includeInactive) {
+      conditions.push(eq(normTables.is_active, true));
+    }
+
+    const norms = await db
+      .select()
+      .from(normTables)
+      .where(and(...conditions))
+      .orderBy(asc(normTables.scale), asc(normTables.name));
+
+    const response: GetNormTablesResponse = {
+      success: true,
+      message: `Found ${norms.length} norm table(s) for test '${targetTest.name}'`,
+      data: norms.map(formatNormTable),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting norm tables:", error);
+
+    const env = getEnv(c);
+    const errorResponse: NormErrorResponse = {
+      success: false,
+      message: "Failed to retrieve norm tables",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,139 @@
+import { Context } from "hono";
+import { and, eq } from "drizzle-orm";
+import { getDbFromEnv, normTables, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { formatNormTable } from "@/lib/norms";
+import {
+  type NormTableByIdRequest,
+  type UpdateNormTableRequest,
+  type NormTableResponse,
+  type NormErrorResponse,
+} from "shared-types";
+
+export async function updateNormTableHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { testId, normId } = c.req.param() as NormTableByIdRequest;
+    const data = (await c.req.json()) as UpdateNormTableRequest;
+
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const [existingNorm] = await db
+      .select()
+      .from(normTables)
+      .where(and(eq(normTables.id, normId), eq(normTables.test_id, testId)))
+      .limit(1);
+
+    if (!existingNorm) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Norm table not found",
+        errors: [
+          {
+            field: "normId",
+            message: `Norm table with ID "${normId}" not found for this test`,
+            code: "NORM_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    // Age band must stay consistent after applying the partial update
+    const ageMin =
+      data.age_min !== undefined ? data.age_min : existingNorm.age_min;
+    const ageMax =
+      data.age_max !== undefined ? data.age_max : existingNorm.age_max;
+    if (ageMin !== null && ageMax !== null && ageMin > ageMax) {
+      const errorResponse: NormErrorResponse = {
+        success: false,
+        message: "Invalid age band",
+        errors: [
+          {
+            field: "age_min",
+            message: "age_min must not exceed age_max",
+            code: "INVALID_AGE_BAND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    const [updatedNorm] = await db
+      .update(normTables)
+      .set({
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.description !== undefined && {
+          description: data.description,
+        }),
+        ...(data.education !== undefined && { education: data.education }),
+        ...(data.gender !== undefined && { gender: data.gender }),
+        ...(data.age_min !== undefined && { age_min: data.age_min }),
+        ...(data.age_max !== undefined && { age_max: data.age_max }),
+        ...(data.mean !== undefined && { mean: data.mean.toString() }),
+        ...(data.std_dev !== undefined && {
+          std_dev: data.std_dev.toString(),
+        }),
+        ...(data.sample_size !== undefined && {
+          sample_size: data.sample_size,
+        }),
+        ...(data.percentile_points !== undefined && {
+          percentile_points: data.percentile_points,
+        }),
+        ...(data.is_active !== undefined && { is_active: data.is_active }),
+        updated_at: new Date(),
+        updated_by: auth.user.id,
+      })
+      .where(eq(normTables.id, normId))
+      .returning();
+
+    const response: NormTableResponse = {
+      success: true,
+      message: `Norm table '${updatedNorm.name}' updated successfully`,
+      data: formatNormTable(updatedNorm),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error updating norm table:", error);
+
+    const env = getEnv(c);
+    const errorResponse: NormErrorResponse = {
+      success: false,
+      message: "Failed to update norm table",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
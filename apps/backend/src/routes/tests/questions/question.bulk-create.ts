@@ -7,6 +7,10 @@ import {
   type BulkCreateQuestionsResponse,
   type QuestionErrorResponse,
   type CreateQuestionDB,
+  QuestionDimensionSchema,
+  QuestionDifficultyEnum,
+  ScoringRuleSchema,
+  resolveQuestionDimension,
 } from "shared-types";
 
 // Individual question validation schemas
@@ -27,6 +31,8 @@ const MultipleChoiceQuestionSchema = z.object({
   image_url: z.string().url().optional(),
   audio_url: z.string().url().optional(),
   scoring_key: z.record(z.string(), z.number()).optional(),
+  dimension: QuestionDimensionSchema.optional(),
+  difficulty: QuestionDifficultyEnum.optional(),
   is_required: z.boolean().default(true),
 });
 
@@ -38,6 +44,8 @@ const TrueFalseQuestionSchema = z.object({
   image_url: z.string().url().optional(),
   audio_url: z.string().url().optional(),
   scoring_key: z.record(z.string(), z.number()).optional(),
+  dimension: QuestionDimensionSchema.optional(),
+  difficulty: QuestionDifficultyEnum.optional(),
   is_required: z.boolean().default(true),
 });
 
@@ -48,6 +56,8 @@ const TextQuestionSchema = z.object({
   image_url: z.string().url().optional(),
   audio_url: z.string().url().optional(),
   scoring_key: z.record(z.string(), z.number()).optional(),
+  dimension: QuestionDimensionSchema.optional(),
+  difficulty: QuestionDifficultyEnum.optional(),
   is_required: z.boolean().default(true),
 });
 
@@ -68,6 +78,8 @@ const RatingScaleQuestionSchema = z.object({
   image_url: z.string().url().optional(),
   audio_url: z.string().url().optional(),
   scoring_key: z.record(z.string(), z.number()).optional(),
+  dimension: QuestionDimensionSchema.optional(),
+  difficulty: QuestionDifficultyEnum.optional(),
   is_required: z.boolean().default(true),
 });
 
@@ -77,6 +89,8 @@ const DrawingQuestionSchema = z.object({
   time_limit: z.number().positive().optional(),
   image_url: z.string().url().optional(),
   audio_url: z.string().url().optional(),
+  dimension: QuestionDimensionSchema.optional(),
+  difficulty: QuestionDifficultyEnum.optional(),
   is_required: z.boolean().default(true),
 });
 
@@ -97,6 +111,11 @@ const SequenceQuestionSchema = z.object({
   image_url: z.string().url().optional(),
   audio_url: z.string().url().optional(),
   scoring_key: z.record(z.string(), z.number()).optional(),
+  scoring_rule: ScoringRuleSchema.extend({
+    method: z.enum(["exact", "position", "pairwise"]),
+  }).optional(),
+  dimension: QuestionDimensionSchema.optional(),
+  difficulty: QuestionDifficultyEnum.optional(),
   is_required: z.boolean().default(true),
 });
 
@@ -117,6 +136,11 @@ const MatrixQuestionSchema = z.object({
   image_url: z.string().url().optional(),
   audio_url: z.string().url().optional(),
   scoring_key: z.record(z.string(), z.number()).optional(),
+  scoring_rule: ScoringRuleSchema.extend({
+    method: z.enum(["exact", "per_cell"]),
+  }).optional(),
+  dimension: QuestionDimensionSchema.optional(),
+  difficulty: QuestionDifficultyEnum.optional(),
   is_required: z.boolean().default(true),
 });
 
@@ -268,17 +292,26 @@ export async function bulkCreateQuestionsHandler(
           options: null,
           correct_answer: null,
           scoring_key: null,
+          scoring_rule: null,
+          dimension: questionData.dimension || null,
+          difficulty: questionData.difficulty || null,
         };
 
         // Add type-specific fields
         switch (questionData.question_type) {
           case "multiple_choice":
           case "rating_scale":
+            baseQuestion.options = questionData.options;
+            baseQuestion.correct_answer = questionData.correct_answer || null;
+            baseQuestion.scoring_key = questionData.scoring_key || null;
+            break;
+
           case "sequence":
           case "matrix":
             baseQuestion.options = questionData.options;
             baseQuestion.correct_answer = questionData.correct_answer || null;
             baseQuestion.scoring_key = questionData.scoring_key || null;
+            baseQuestion.scoring_rule = questionData.scoring_rule || null;
             break;
 
           case "true_false":
@@ -295,6 +328,12 @@ export async function bulkCreateQuestionsHandler(
             break;
         }
 
+        // Untagged items fall back to their single scoring dimension
+        baseQuestion.dimension = resolveQuestionDimension(
+          baseQuestion.dimension,
+          baseQuestion.scoring_key
+        );
+
         return baseQuestion;
       }
     );
@@ -11,6 +11,7 @@ import {
   validateQuestionOptions,
   questionTypeRequiresOptions,
   getDefaultTimeLimitByQuestionType,
+  resolveQuestionDimension,
 } from "shared-types";
 
 export async function createQuestionHandler(
@@ -176,6 +177,9 @@ export async function createQuestionHandler(
       image_url: data.image_url || null,
       audio_url: data.audio_url || null,
       scoring_key: data.scoring_key || null,
+      scoring_rule: data.scoring_rule || null,
+      dimension: resolveQuestionDimension(data.dimension, data.scoring_key),
+      difficulty: data.difficulty || null,
       is_required: isRequired,
     };
 
@@ -227,6 +231,9 @@ export async function createQuestionHandler(
       image_url: newQuestion.image_url,
       audio_url: newQuestion.audio_url,
       scoring_key: newQuestion.scoring_key,
+      scoring_rule: newQuestion.scoring_rule,
+      dimension: newQuestion.dimension,
+      difficulty: newQuestion.difficulty,
       is_required: newQuestion.is_required ?? true,
       created_at: newQuestion.created_at,
       updated_at: newQuestion.updated_at,
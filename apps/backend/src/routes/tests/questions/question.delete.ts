@@ -5,6 +5,8 @@ import {
   tests,
   questions,
   userAnswers,
+  attemptQuestionDeliveries,
+  attemptFormItems,
   isDatabaseConfigured,
 } from "@/db";
 import { getEnv, type CloudflareBindings } from "@/lib/env";
@@ -162,9 +164,38 @@ export async function deleteQuestionHandler(
       return c.json(errorResponse, 409);
     }
 
+    // Items assembled into an attempt's form are part of that attempt's record
+    const [formItemCount] = await db
+      .select({
+        count: sql<number>`count(*)`,
+      })
+      .from(attemptFormItems)
+      .where(eq(attemptFormItems.question_id, questionId));
+
+    if (formItemCount && formItemCount.count > 0) {
+      const errorResponse: QuestionErrorResponse = {
+        success: false,
+        message: "Question cannot be deleted",
+        errors: [
+          {
+            field: "dependencies",
+            message: `Question #${existingQuestion.sequence} was administered in ${formItemCount.count} test form(s) and cannot be deleted. Archive the test instead if you need to disable it.`,
+            code: "HAS_DEPENDENCIES",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 409);
+    }
+
     // Delete the question (hard delete since no dependencies)
     const deletedAt = new Date().toISOString();
 
+    // Deliveries without an answer only record that the question was shown
+    await db
+      .delete(attemptQuestionDeliveries)
+      .where(eq(attemptQuestionDeliveries.question_id, questionId));
+
     const [deletedQuestion] = await db
       .delete(questions)
       .where(eq(questions.id, questionId))
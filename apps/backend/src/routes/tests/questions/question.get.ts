@@ -98,6 +98,9 @@ export async function getQuestionByIdHandler(
         image_url: questions.image_url,
         audio_url: questions.audio_url,
         scoring_key: questions.scoring_key,
+        scoring_rule: questions.scoring_rule,
+        dimension: questions.dimension,
+        difficulty: questions.difficulty,
         is_required: questions.is_required,
         created_at: questions.created_at,
         updated_at: questions.updated_at,
@@ -136,6 +139,9 @@ export async function getQuestionByIdHandler(
       image_url: question.image_url,
       audio_url: question.audio_url,
       scoring_key: question.scoring_key,
+      scoring_rule: question.scoring_rule,
+      dimension: question.dimension,
+      difficulty: question.difficulty,
       is_required: question.is_required ?? true,
       created_at: question.created_at,
       updated_at: question.updated_at,
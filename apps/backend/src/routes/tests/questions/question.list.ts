@@ -113,6 +113,15 @@ export async function getQuestionsListHandler(
       whereConditions.push(eq(questions.is_required, queryParams.is_required));
     }
 
+    // Add item bank tag filters
+    if (queryParams.dimension) {
+      whereConditions.push(eq(questions.dimension, queryParams.dimension));
+    }
+
+    if (queryParams.difficulty) {
+      whereConditions.push(eq(questions.difficulty, queryParams.difficulty));
+    }
+
     // Add time limit range filters
     if (queryParams.time_limit_min !== undefined) {
       whereConditions.push(
@@ -192,6 +201,9 @@ export async function getQuestionsListHandler(
         image_url: questions.image_url,
         audio_url: questions.audio_url,
         scoring_key: questions.scoring_key,
+        scoring_rule: questions.scoring_rule,
+        dimension: questions.dimension,
+        difficulty: questions.difficulty,
         is_required: questions.is_required,
         created_at: questions.created_at,
         updated_at: questions.updated_at,
@@ -215,6 +227,9 @@ export async function getQuestionsListHandler(
       image_url: question.image_url,
       audio_url: question.audio_url,
       scoring_key: question.scoring_key,
+      scoring_rule: question.scoring_rule,
+      dimension: question.dimension,
+      difficulty: question.difficulty,
       is_required: question.is_required ?? true,
       created_at: question.created_at,
       updated_at: question.updated_at,
@@ -11,6 +11,7 @@ import {
   validateQuestionOptions,
   questionTypeRequiresOptions,
   getDefaultTimeLimitByQuestionType,
+  isScoringMethodAllowed,
 } from "shared-types";
 
 export async function updateQuestionHandler(
@@ -122,6 +123,9 @@ export async function updateQuestionHandler(
         image_url: questions.image_url,
         audio_url: questions.audio_url,
         scoring_key: questions.scoring_key,
+        scoring_rule: questions.scoring_rule,
+        dimension: questions.dimension,
+        difficulty: questions.difficulty,
         is_required: questions.is_required,
         created_at: questions.created_at,
         updated_at: questions.updated_at,
@@ -175,6 +179,26 @@ export async function updateQuestionHandler(
       }
     }
 
+    // The partial-credit rule has to suit the (possibly new) question type
+    if (
+      data.scoring_rule &&
+      !isScoringMethodAllowed(newQuestionType, data.scoring_rule.method)
+    ) {
+      const errorResponse: QuestionErrorResponse = {
+        success: false,
+        message: "Invalid scoring rule for question type",
+        errors: [
+          {
+            field: "scoring_rule",
+            message: `Scoring method '${data.scoring_rule.method}' is not available for question type '${newQuestionType}'`,
+            code: "INVALID_SCORING_RULE",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
     // Check if sequence number already exists for this test (if sequence is being updated)
     if (data.sequence && data.sequence !== existingQuestion.sequence) {
       const [sequenceConflict] = await db
@@ -239,6 +263,24 @@ export async function updateQuestionHandler(
     if (data.scoring_key !== undefined) {
       updateData.scoring_key = data.scoring_key;
     }
+    if (data.scoring_rule !== undefined) {
+      updateData.scoring_rule = data.scoring_rule;
+    } else if (
+      existingQuestion.scoring_rule &&
+      !isScoringMethodAllowed(
+        newQuestionType,
+        existingQuestion.scoring_rule.method
+      )
+    ) {
+      // Drop a rule the new question type cannot use
+      updateData.scoring_rule = null;
+    }
+    if (data.dimension !== undefined) {
+      updateData.dimension = data.dimension;
+    }
+    if (data.difficulty !== undefined) {
+      updateData.difficulty = data.difficulty;
+    }
     if (data.is_required !== undefined) {
       updateData.is_required = data.is_required;
     }
@@ -272,6 +314,9 @@ export async function updateQuestionHandler(
       image_url: updatedQuestion.image_url,
       audio_url: updatedQuestion.audio_url,
       scoring_key: updatedQuestion.scoring_key,
+      scoring_rule: updatedQuestion.scoring_rule,
+      dimension: updatedQuestion.dimension,
+      difficulty: updatedQuestion.difficulty,
       is_required: updatedQuestion.is_required ?? true,
       created_at: updatedQuestion.created_at,
       updated_at: updatedQuestion.updated_at,
@@ -0,0 +1,265 @@
+import { Context } from "hono";
+import { eq } from "drizzle-orm";
+import { getDbFromEnv, tests, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { buildTestAdaptiveData, loadAdaptiveItems } from "@/lib/adaptive";
+import { calibrateTestItems } from "@/lib/itemCalibration";
+import {
+  isAdaptiveCategory,
+  UpdateTestAdaptiveConfigRequestSchema,
+  type AdaptiveErrorResponse,
+  type CalibrateTestItemsResponse,
+  type GetTestAdaptiveResponse,
+  type TestAdaptiveByTestIdRequest,
+  type UpdateTestAdaptiveResponse,
+} from "shared-types";
+
+// Get the adaptive settings with the item parameters in use (Admin only)
+export async function getTestAdaptiveHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      return c.json(databaseNotConfiguredResponse(), 503);
+    }
+
+    const { testId } = c.req.param() as TestAdaptiveByTestIdRequest;
+    const db = getDbFromEnv(c.env);
+
+    const [targetTest] = await db
+      .select()
+      .from(tests)
+      .where(eq(tests.id, testId))
+      .limit(1);
+
+    if (!targetTest) {
+      return c.json(testNotFoundResponse(testId), 404);
+    }
+
+    if (!isAdaptiveCategory(targetTest.category)) {
+      return c.json(invalidCategoryResponse(targetTest.category), 400);
+    }
+
+    const items = await loadAdaptiveItems(db, testId);
+
+    const response: GetTestAdaptiveResponse = {
+      success: true,
+      message: targetTest.adaptive_config
+        ? "Adaptive test settings retrieved successfully"
+        : "Test is not adaptive, every attempt gets the fixed item set",
+      data: buildTestAdaptiveData(targetTest, items),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting adaptive test settings:", error);
+    return c.json(internalErrorResponse(c, error, "retrieve"), 500);
+  }
+}
+
+// Turn adaptive delivery on or off (Admin only)
+export async function updateTestAdaptiveHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      return c.json(databaseNotConfiguredResponse(), 503);
+    }
+
+    const { testId } = c.req.param() as TestAdaptiveByTestIdRequest;
+    // Parsed again so omitted stop rules get their defaults
+    const { adaptive_config } = UpdateTestAdaptiveConfigRequestSchema.parse(
+      await c.req.json()
+    );
+
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const [targetTest] = await db
+      .select()
+      .from(tests)
+      .where(eq(tests.id, testId))
+      .limit(1);
+
+    if (!targetTest) {
+      return c.json(testNotFoundResponse(testId), 404);
+    }
+
+    if (!isAdaptiveCategory(targetTest.category)) {
+      return c.json(invalidCategoryResponse(targetTest.category), 400);
+    }
+
+    // Items are chosen by ability, so a fixed form from a blueprint cannot apply
+    if (adaptive_config && targetTest.blueprint) {
+      const errorResponse: AdaptiveErrorResponse = {
+        success: false,
+        message: "Test uses a blueprint",
+        errors: [
+          {
+            field: "adaptive_config",
+            message:
+              "Remove the test blueprint before making the test adaptive",
+            code: "BLUEPRINT_CONFLICT",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 409);
+    }
+
+    const items = await loadAdaptiveItems(db, testId);
+
+    if (adaptive_config && items.length === 0) {
+      const errorResponse: AdaptiveErrorResponse = {
+        success: false,
+        message: "Test has no questions",
+        errors: [
+          {
+            field: "adaptive_config",
+            message: "Add questions to the item bank before making it adaptive",
+            code: "ADAPTIVE_BANK_EMPTY",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    const [updatedTest] = await db
+      .update(tests)
+      .set({
+        adaptive_config,
+        updated_at: new Date(),
+        updated_by: auth.user.id,
+      })
+      .where(eq(tests.id, testId))
+      .returning();
+
+    const response: UpdateTestAdaptiveResponse = {
+      success: true,
+      message: adaptive_config
+        ? `Adaptive delivery enabled for test '${targetTest.name}'`
+        : `Adaptive delivery disabled for test '${targetTest.name}'`,
+      data: buildTestAdaptiveData(updatedTest, items),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error updating adaptive test settings:", error);
+    return c.json(internalErrorResponse(c, error, "update"), 500);
+  }
+}
+
+// Re-estimate item parameters from past answers now (Admin only)
+export async function calibrateTestItemsHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      return c.json(databaseNotConfiguredResponse(), 503);
+    }
+
+    const { testId } = c.req.param() as TestAdaptiveByTestIdRequest;
+    const db = getDbFromEnv(c.env);
+
+    const [targetTest] = await db
+      .select({ id: tests.id, category: tests.category })
+      .from(tests)
+      .where(eq(tests.id, testId))
+      .limit(1);
+
+    if (!targetTest) {
+      return c.json(testNotFoundResponse(testId), 404);
+    }
+
+    if (!isAdaptiveCategory(targetTest.category)) {
+      return c.json(invalidCategoryResponse(targetTest.category), 400);
+    }
+
+    const summary = await calibrateTestItems(db, testId);
+
+    const response: CalibrateTestItemsResponse = {
+      success: true,
+      message:
+        summary.items_calibrated > 0
+          ? `${summary.items_calibrated} item(s) calibrated from ${summary.attempts_used} completed attempt(s)`
+          : "Not enough answers yet to calibrate any item",
+      data: summary,
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error calibrating test items:", error);
+    return c.json(internalErrorResponse(c, error, "calibrate"), 500);
+  }
+}
+
+function databaseNotConfiguredResponse(): AdaptiveErrorResponse {
+  return {
+    success: false,
+    message: "Database not configured",
+    errors: [
+      {
+        field: "database",
+        message:
+          "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+        code: "DATABASE_NOT_CONFIGURED",
+      },
+    ],
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function testNotFoundResponse(testId: string): AdaptiveErrorResponse {
+  return {
+    success: false,
+    message: "Test not found",
+    errors: [
+      {
+        field: "testId",
+        message: `Test with ID "${testId}" not found`,
+        code: "TEST_NOT_FOUND",
+      },
+    ],
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function invalidCategoryResponse(category: string): AdaptiveErrorResponse {
+  return {
+    success: false,
+    message: "Only intelligence tests can be adaptive",
+    errors: [
+      {
+        field: "category",
+        message: `Adaptive delivery needs right/wrong items, which "${category}" tests are not scored by`,
+        code: "INVALID_CATEGORY",
+      },
+    ],
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function internalErrorResponse(
+  c: Context<{ Bindings: CloudflareBindings }>,
+  error: unknown,
+  action: string
+): AdaptiveErrorResponse {
+  const env = getEnv(c);
+  return {
+    success: false,
+    message: `Failed to ${action} adaptive test`,
+    ...(env.NODE_ENV === "development" && {
+      errors: [
+        {
+          message: error instanceof Error ? error.message : "Unknown error",
+          code: "INTERNAL_ERROR",
+        },
+      ],
+    }),
+    timestamp: new Date().toISOString(),
+  };
+}
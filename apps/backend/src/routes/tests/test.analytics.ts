@@ -0,0 +1,110 @@
+import { Context } from "hono";
+import { eq } from "drizzle-orm";
+import { getDbFromEnv, tests, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { loadTestItemAnalysis } from "@/lib/itemAnalysis";
+import {
+  isKraepelinCategory,
+  type GetTestItemAnalysisQuery,
+  type GetTestItemAnalysisResponse,
+  type ItemAnalysisErrorResponse,
+  type TestItemAnalysisRequest,
+} from "shared-types";
+
+// Item analysis of the test questions from scored attempts (Admin only)
+export async function getTestItemAnalysisHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: ItemAnalysisErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { testId } = c.req.param() as TestItemAnalysisRequest;
+    const query = c.req.query() as GetTestItemAnalysisQuery;
+    const db = getDbFromEnv(c.env);
+
+    const [targetTest] = await db
+      .select({ id: tests.id, category: tests.category })
+      .from(tests)
+      .where(eq(tests.id, testId))
+      .limit(1);
+
+    if (!targetTest) {
+      const errorResponse: ItemAnalysisErrorResponse = {
+        success: false,
+        message: "Test not found",
+        errors: [
+          {
+            field: "testId",
+            message: `Test with ID "${testId}" not found`,
+            code: "TEST_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    if (isKraepelinCategory(targetTest.category)) {
+      const errorResponse: ItemAnalysisErrorResponse = {
+        success: false,
+        message: "Column sheet tests have no items to analyse",
+        errors: [
+          {
+            field: "category",
+            message: `"${targetTest.category}" tests are scored per column, not per question`,
+            code: "INVALID_CATEGORY",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    const data = await loadTestItemAnalysis(db, testId, query);
+
+    const response: GetTestItemAnalysisResponse = {
+      success: true,
+      message:
+        data.summary.respondents > 0
+          ? `Item analysis from ${data.summary.respondents} scored attempt(s)`
+          : "No scored attempts yet",
+      data,
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting test item analysis:", error);
+
+    const env = getEnv(c);
+    const errorResponse: ItemAnalysisErrorResponse = {
+      success: false,
+      message: "Failed to retrieve test item analysis",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+    return c.json(errorResponse, 500);
+  }
+}
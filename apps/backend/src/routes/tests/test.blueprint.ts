@@ -0,0 +1,237 @@
+import { Context } from "hono";
+import { eq } from "drizzle-orm";
+import { getDbFromEnv, tests, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { buildTestBlueprintData, loadItemBank } from "@/lib/itemBank";
+import {
+  isKraepelinCategory,
+  type GetTestBlueprintResponse,
+  type ItemBankErrorResponse,
+  type TestBlueprintByTestIdRequest,
+  UpdateTestBlueprintRequestSchema,
+  type UpdateTestBlueprintResponse,
+} from "shared-types";
+
+// Get the test blueprint with its item bank summary and form preview (Admin only)
+export async function getTestBlueprintHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      return c.json(databaseNotConfiguredResponse(), 503);
+    }
+
+    const { testId } = c.req.param() as TestBlueprintByTestIdRequest;
+    const db = getDbFromEnv(c.env);
+
+    const [targetTest] = await db
+      .select({
+        id: tests.id,
+        category: tests.category,
+        blueprint: tests.blueprint,
+      })
+      .from(tests)
+      .where(eq(tests.id, testId))
+      .limit(1);
+
+    if (!targetTest) {
+      return c.json(testNotFoundResponse(testId), 404);
+    }
+
+    if (isKraepelinCategory(targetTest.category)) {
+      return c.json(invalidCategoryResponse(targetTest.category), 400);
+    }
+
+    const items = await loadItemBank(db, testId);
+
+    const response: GetTestBlueprintResponse = {
+      success: true,
+      message: targetTest.blueprint
+        ? "Test blueprint retrieved successfully"
+        : "Test has no blueprint, every attempt gets all questions",
+      data: buildTestBlueprintData(testId, targetTest.blueprint, items),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting test blueprint:", error);
+    return c.json(internalErrorResponse(c, error, "retrieve"), 500);
+  }
+}
+
+// Set or clear the test blueprint (Admin only)
+export async function updateTestBlueprintHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      return c.json(databaseNotConfiguredResponse(), 503);
+    }
+
+    const { testId } = c.req.param() as TestBlueprintByTestIdRequest;
+    // Parsed again so omitted section tags get their null defaults
+    const { blueprint } = UpdateTestBlueprintRequestSchema.parse(
+      await c.req.json()
+    );
+
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const [targetTest] = await db
+      .select({
+        id: tests.id,
+        name: tests.name,
+        category: tests.category,
+        adaptive_config: tests.adaptive_config,
+      })
+      .from(tests)
+      .where(eq(tests.id, testId))
+      .limit(1);
+
+    if (!targetTest) {
+      return c.json(testNotFoundResponse(testId), 404);
+    }
+
+    if (isKraepelinCategory(targetTest.category)) {
+      return c.json(invalidCategoryResponse(targetTest.category), 400);
+    }
+
+    // Adaptive attempts choose items by ability instead of using a form
+    if (blueprint && targetTest.adaptive_config) {
+      const errorResponse: ItemBankErrorResponse = {
+        success: false,
+        message: "Test is adaptive",
+        errors: [
+          {
+            field: "blueprint",
+            message: "Turn off adaptive delivery before adding a blueprint",
+            code: "ADAPTIVE_CONFLICT",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 409);
+    }
+
+    const items = await loadItemBank(db, testId);
+    const data = buildTestBlueprintData(testId, blueprint, items);
+
+    // Every form must be fillable from the bank as it is now
+    const shortSections = data.coverage.filter(
+      (section) => section.available < section.required
+    );
+    const incompleteForms = data.forms.filter((form) => !form.is_complete);
+
+    if (shortSections.length > 0 || incompleteForms.length > 0) {
+      const errorResponse: ItemBankErrorResponse = {
+        success: false,
+        message: "Item bank cannot fill this blueprint",
+        errors:
+          shortSections.length > 0
+            ? shortSections.map((section) => ({
+                field: `blueprint.sections.${section.section_index}`,
+                message: `Section ${section.section_index + 1} needs ${section.required} item(s) for dimension "${section.dimension ?? "any"}" at ${section.difficulty ?? "any"} difficulty, but the bank has ${section.available}`,
+                code: "BLUEPRINT_SHORTFALL",
+              }))
+            : incompleteForms.map((form) => ({
+                field: "blueprint.sections",
+                message: `Form ${form.label} could only be assembled with ${form.question_count} item(s); overlapping sections need more distinct items`,
+                code: "BLUEPRINT_SHORTFALL",
+              })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    await db
+      .update(tests)
+      .set({
+        blueprint,
+        updated_at: new Date(),
+        updated_by: auth.user.id,
+      })
+      .where(eq(tests.id, testId));
+
+    const response: UpdateTestBlueprintResponse = {
+      success: true,
+      message: blueprint
+        ? `Blueprint with ${blueprint.form_count} form(s) saved for test '${targetTest.name}'`
+        : `Blueprint removed from test '${targetTest.name}'`,
+      data,
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error updating test blueprint:", error);
+    return c.json(internalErrorResponse(c, error, "update"), 500);
+  }
+}
+
+function databaseNotConfiguredResponse(): ItemBankErrorResponse {
+  return {
+    success: false,
+    message: "Database not configured",
+    errors: [
+      {
+        field: "database",
+        message:
+          "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+        code: "DATABASE_NOT_CONFIGURED",
+      },
+    ],
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function testNotFoundResponse(testId: string): ItemBankErrorResponse {
+  return {
+    success: false,
+    message: "Test not found",
+    errors: [
+      {
+        field: "testId",
+        message: `Test with ID "${testId}" not found`,
+        code: "TEST_NOT_FOUND",
+      },
+    ],
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function invalidCategoryResponse(category: string): ItemBankErrorResponse {
+  return {
+    success: false,
+    message: "Column sheet tests cannot use a blueprint",
+    errors: [
+      {
+        field: "category",
+        message: `Blueprints assemble question items, which "${category}" tests do not have`,
+        code: "INVALID_CATEGORY",
+      },
+    ],
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function internalErrorResponse(
+  c: Context<{ Bindings: CloudflareBindings }>,
+  error: unknown,
+  action: string
+): ItemBankErrorResponse {
+  const env = getEnv(c);
+  return {
+    success: false,
+    message: `Failed to ${action} test blueprint`,
+    ...(env.NODE_ENV === "development" && {
+      errors: [
+        {
+          message: error instanceof Error ? error.message : "Unknown error",
+          code: "INTERNAL_ERROR",
+        },
+      ],
+    }),
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -157,6 +157,8 @@ export async function createTestHandler(
         passing_score: data.passing_score ? String(data.passing_score) : null,
         status: data.status || "active",
         instructions: data.instructions || null,
+        shuffle_questions: data.shuffle_questions ?? false,
+        shuffle_options: data.shuffle_options ?? false,
         created_by: auth.user.id,
         updated_by: auth.user.id,
       })
@@ -190,6 +192,8 @@ export async function createTestHandler(
         : null,
       status: newTest.status ?? "active",
       instructions: newTest.instructions,
+      shuffle_questions: newTest.shuffle_questions ?? false,
+      shuffle_options: newTest.shuffle_options ?? false,
       created_at: newTest.created_at,
       updated_at: newTest.updated_at,
       created_by: newTest.created_by,
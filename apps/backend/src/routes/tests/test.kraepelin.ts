@@ -0,0 +1,271 @@
+import { Context } from "hono";
+import { eq, count } from "drizzle-orm";
+import {
+  getDbFromEnv,
+  tests,
+  questions,
+  userAnswers,
+  isDatabaseConfigured,
+} from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import {
+  isKraepelinCategory,
+  KRAEPELIN_DEFAULT_CONFIGS,
+  type KraepelinConfig,
+  type KraepelinConfigResponse,
+  type KraepelinErrorResponse,
+  type KraepelinTestRequest,
+  type KraepelinVariant,
+  type UpdateKraepelinConfigRequest,
+} from "shared-types";
+
+// Get Kraepelin/Pauli sheet configuration (Admin only)
+export async function getKraepelinConfigHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      return c.json(databaseNotConfiguredResponse(), 503);
+    }
+
+    const { testId } = c.req.param() as KraepelinTestRequest;
+    const db = getDbFromEnv(c.env);
+
+    const [targetTest] = await db
+      .select({
+        id: tests.id,
+        category: tests.category,
+        total_questions: tests.total_questions,
+        kraepelin_config: tests.kraepelin_config,
+      })
+      .from(tests)
+      .where(eq(tests.id, testId))
+      .limit(1);
+
+    if (!targetTest) {
+      return c.json(testNotFoundResponse(testId), 404);
+    }
+
+    if (!isKraepelinCategory(targetTest.category)) {
+      return c.json(invalidCategoryResponse(targetTest.category), 400);
+    }
+
+    // Tests not configured yet report the defaults of their variant
+    const config: KraepelinConfig = targetTest.kraepelin_config || {
+      ...KRAEPELIN_DEFAULT_CONFIGS[targetTest.category as KraepelinVariant],
+      seed: targetTest.id,
+    };
+
+    const response: KraepelinConfigResponse = {
+      success: true,
+      message: targetTest.kraepelin_config
+        ? "Kraepelin sheet configuration retrieved successfully"
+        : "Kraepelin sheet is not configured yet, showing defaults",
+      data: {
+        test_id: targetTest.id,
+        config,
+        total_questions: targetTest.total_questions || 0,
+        total_time_minutes: Math.ceil(
+          (config.column_count * config.seconds_per_column) / 60
+        ),
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting kraepelin config:", error);
+    return c.json(internalErrorResponse(c, error, "retrieve"), 500);
+  }
+}
+
+// Configure the sheet and (re)generate one question per column (Admin only)
+export async function updateKraepelinConfigHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      return c.json(databaseNotConfiguredResponse(), 503);
+    }
+
+    const { testId } = c.req.param() as KraepelinTestRequest;
+    const data = (await c.req.json()) as UpdateKraepelinConfigRequest;
+
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const [targetTest] = await db
+      .select()
+      .from(tests)
+      .where(eq(tests.id, testId))
+      .limit(1);
+
+    if (!targetTest) {
+      return c.json(testNotFoundResponse(testId), 404);
+    }
+
+    if (!isKraepelinCategory(targetTest.category)) {
+      return c.json(invalidCategoryResponse(targetTest.category), 400);
+    }
+
+    const currentConfig: KraepelinConfig = targetTest.kraepelin_config || {
+      ...KRAEPELIN_DEFAULT_CONFIGS[targetTest.category as KraepelinVariant],
+      seed: targetTest.id,
+    };
+    const config: KraepelinConfig = {
+      ...currentConfig,
+      ...data,
+      variant: targetTest.category as KraepelinVariant,
+    };
+
+    // The sheet cannot change once participants have answered it
+    const [answerCount] = await db
+      .select({ count: count() })
+      .from(userAnswers)
+      .innerJoin(questions, eq(userAnswers.question_id, questions.id))
+      .where(eq(questions.test_id, testId));
+
+    const sheetChanged =
+      !targetTest.kraepelin_config ||
+      config.column_count !== currentConfig.column_count ||
+      config.digits_per_column !== currentConfig.digits_per_column ||
+      config.seed !== currentConfig.seed;
+
+    if (answerCount.count > 0 && sheetChanged) {
+      const errorResponse: KraepelinErrorResponse = {
+        success: false,
+        message: "Sheet cannot be changed after participants have answered it",
+        errors: [
+          {
+            field: "config",
+            message: `Test has ${answerCount.count} recorded answer(s). Only seconds_per_column can still be changed.`,
+            code: "HAS_DEPENDENCIES",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 409);
+    }
+
+    const now = new Date();
+
+    if (answerCount.count === 0) {
+      // Each column is a question so answers can reference it
+      await db.delete(questions).where(eq(questions.test_id, testId));
+      await db.insert(questions).values(
+        Array.from({ length: config.column_count }, (_, columnIndex) => ({
+          test_id: testId,
+          question: `Kolom ${columnIndex + 1}`,
+          question_type: "sequence" as const,
+          sequence: columnIndex + 1,
+          time_limit: config.seconds_per_column,
+          is_required: false,
+        }))
+      );
+    } else {
+      await db
+        .update(questions)
+        .set({ time_limit: config.seconds_per_column, updated_at: now })
+        .where(eq(questions.test_id, testId));
+    }
+
+    const totalTimeMinutes = Math.ceil(
+      (config.column_count * config.seconds_per_column) / 60
+    );
+
+    await db
+      .update(tests)
+      .set({
+        kraepelin_config: config,
+        total_questions: config.column_count,
+        time_limit: totalTimeMinutes,
+        updated_at: now,
+        updated_by: auth.user.id,
+      })
+      .where(eq(tests.id, testId));
+
+    const response: KraepelinConfigResponse = {
+      success: true,
+      message: `Kraepelin sheet with ${config.column_count} columns saved for test '${targetTest.name}'`,
+      data: {
+        test_id: testId,
+        config,
+        total_questions: config.column_count,
+        total_time_minutes: totalTimeMinutes,
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error updating kraepelin config:", error);
+    return c.json(internalErrorResponse(c, error, "update"), 500);
+  }
+}
+
+function databaseNotConfiguredResponse(): KraepelinErrorResponse {
+  return {
+    success: false,
+    message: "Database not configured",
+    errors: [
+      {
+        field: "database",
+        message:
+          "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+        code: "DATABASE_NOT_CONFIGURED",
+      },
+    ],
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function testNotFoundResponse(testId: string): KraepelinErrorResponse {
+  return {
+    success: false,
+    message: "Test not found",
+    errors: [
+      {
+        field: "testId",
+        message: `Test with ID "${testId}" not found`,
+        code: "TEST_NOT_FOUND",
+      },
+    ],
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function invalidCategoryResponse(category: string): KraepelinErrorResponse {
+  return {
+    success: false,
+    message: "Test is not a Kraepelin or Pauli test",
+    errors: [
+      {
+        field: "category",
+        message: `Sheet configuration is only available for kraepelin and pauli tests, got "${category}"`,
+        code: "INVALID_CATEGORY",
+      },
+    ],
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function internalErrorResponse(
+  c: Context<{ Bindings: CloudflareBindings }>,
+  error: unknown,
+  action: string
+): KraepelinErrorResponse {
+  const env = getEnv(c);
+  return {
+    success: false,
+    message: `Failed to ${action} kraepelin configuration`,
+    ...(env.NODE_ENV === "development" && {
+      errors: [
+        {
+          message: error instanceof Error ? error.message : "Unknown error",
+          code: "INTERNAL_ERROR",
+        },
+      ],
+    }),
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -182,6 +182,8 @@ export async function getTestsListHandler(
         passing_score: tests.passing_score,
         status: tests.status,
         instructions: tests.instructions,
+        shuffle_questions: tests.shuffle_questions,
+        shuffle_options: tests.shuffle_options,
         created_at: tests.created_at,
         updated_at: tests.updated_at,
         created_by: tests.created_by,
@@ -232,6 +234,8 @@ export async function getTestsListHandler(
       passing_score: test.passing_score ? Number(test.passing_score) : null,
       status: test.status || "active",
       instructions: test.instructions,
+      shuffle_questions: test.shuffle_questions ?? false,
+      shuffle_options: test.shuffle_options ?? false,
       created_at: test.created_at,
       updated_at: test.updated_at,
       created_by: test.created_by,
@@ -0,0 +1,186 @@
+import { Context } from "hono";
+import { and, count, eq, inArray } from "drizzle-orm";
+import {
+  getDbFromEnv,
+  questions,
+  tests,
+  isDatabaseConfigured,
+  type Database,
+  type Test,
+} from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import {
+  MANUAL_SCORING_QUESTION_TYPES,
+  UpdateTestManualScoringConfigRequestSchema,
+  type GetTestManualScoringResponse,
+  type ManualScoringErrorResponse,
+  type TestManualScoringByTestIdRequest,
+  type TestManualScoringData,
+  type UpdateTestManualScoringResponse,
+} from "shared-types";
+
+// Get the rater settings of manually graded answers (Admin only)
+export async function getTestManualScoringHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      return c.json(databaseNotConfiguredResponse(), 503);
+    }
+
+    const { testId } = c.req.param() as TestManualScoringByTestIdRequest;
+    const db = getDbFromEnv(c.env);
+
+    const [targetTest] = await db
+      .select()
+      .from(tests)
+      .where(eq(tests.id, testId))
+      .limit(1);
+
+    if (!targetTest) {
+      return c.json(testNotFoundResponse(testId), 404);
+    }
+
+    const data = await buildTestManualScoringData(db, targetTest);
+
+    const response: GetTestManualScoringResponse = {
+      success: true,
+      message: targetTest.manual_scoring_config
+        ? "Manual scoring settings retrieved successfully"
+        : "Test uses the default manual scoring settings",
+      data,
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting manual scoring settings:", error);
+    return c.json(internalErrorResponse(c, error, "retrieve"), 500);
+  }
+}
+
+// Set how many raters grade each answer, or reset to the default (Admin only)
+export async function updateTestManualScoringHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      return c.json(databaseNotConfiguredResponse(), 503);
+    }
+
+    const { testId } = c.req.param() as TestManualScoringByTestIdRequest;
+    // Parsed again so omitted settings get their defaults
+    const { manual_scoring_config } =
+      UpdateTestManualScoringConfigRequestSchema.parse(await c.req.json());
+
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const [targetTest] = await db
+      .select({ id: tests.id, name: tests.name })
+      .from(tests)
+      .where(eq(tests.id, testId))
+      .limit(1);
+
+    if (!targetTest) {
+      return c.json(testNotFoundResponse(testId), 404);
+    }
+
+    const [updatedTest] = await db
+      .update(tests)
+      .set({
+        manual_scoring_config,
+        updated_at: new Date(),
+        updated_by: auth.user.id,
+      })
+      .where(eq(tests.id, testId))
+      .returning();
+
+    const response: UpdateTestManualScoringResponse = {
+      success: true,
+      message: manual_scoring_config
+        ? `Manual scoring of test '${targetTest.name}' now needs ${manual_scoring_config.required_raters} rater(s) per answer`
+        : `Manual scoring of test '${targetTest.name}' reset to the defaults`,
+      data: await buildTestManualScoringData(db, updatedTest),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error updating manual scoring settings:", error);
+    return c.json(internalErrorResponse(c, error, "update"), 500);
+  }
+}
+
+async function buildTestManualScoringData(
+  db: Database,
+  test: Test
+): Promise<TestManualScoringData> {
+  const [manualItems] = await db
+    .select({ count: count() })
+    .from(questions)
+    .where(
+      and(
+        eq(questions.test_id, test.id),
+        inArray(questions.question_type, [...MANUAL_SCORING_QUESTION_TYPES])
+      )
+    );
+
+  return {
+    test_id: test.id,
+    manual_scoring_config: test.manual_scoring_config,
+    manual_items: manualItems?.count || 0,
+  };
+}
+
+function databaseNotConfiguredResponse(): ManualScoringErrorResponse {
+  return {
+    success: false,
+    message: "Database not configured",
+    errors: [
+      {
+        field: "database",
+        message:
+          "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+        code: "DATABASE_NOT_CONFIGURED",
+      },
+    ],
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function testNotFoundResponse(testId: string): ManualScoringErrorResponse {
+  return {
+    success: false,
+    message: "Test not found",
+    errors: [
+      {
+        field: "testId",
+        message: `Test with ID "${testId}" not found`,
+        code: "TEST_NOT_FOUND",
+      },
+    ],
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function internalErrorResponse(
+  c: Context<{ Bindings: CloudflareBindings }>,
+  error: unknown,
+  action: string
+): ManualScoringErrorResponse {
+  const env = getEnv(c);
+  return {
+    success: false,
+    message: `Failed to ${action} manual scoring settings`,
+    ...(env.NODE_ENV === "development" && {
+      errors: [
+        {
+          message: error instanceof Error ? error.message : "Unknown error",
+          code: "INTERNAL_ERROR",
+        },
+      ],
+    }),
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -271,6 +271,10 @@ export async function updateTestHandler(
     if (data.status !== undefined) updateData.status = data.status;
     if (data.instructions !== undefined)
       updateData.instructions = data.instructions || null;
+    if (data.shuffle_questions !== undefined)
+      updateData.shuffle_questions = data.shuffle_questions;
+    if (data.shuffle_options !== undefined)
+      updateData.shuffle_options = data.shuffle_options;
 
     // Update test in database
     const [updatedTest] = await db
@@ -307,6 +311,8 @@ export async function updateTestHandler(
         : null,
       status: updatedTest.status ?? "active",
       instructions: updatedTest.instructions,
+      shuffle_questions: updatedTest.shuffle_questions ?? false,
+      shuffle_options: updatedTest.shuffle_options ?? false,
       created_at: updatedTest.created_at,
       updated_at: updatedTest.updated_at,
       created_by: updatedTest.created_by,
@@ -0,0 +1,100 @@
+import { Context } from "hono";
+import { eq } from "drizzle-orm";
+import { getDbFromEnv, userImportProfiles, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { formatImportProfile } from "@/lib/userImport";
+import {
+  type CreateImportProfileRequest,
+  type ImportProfileResponse,
+  type ErrorResponse,
+} from "shared-types";
+
+export async function createImportProfileHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const data = (await c.req.json()) as CreateImportProfileRequest;
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const [existingProfile] = await db
+      .select({ id: userImportProfiles.id })
+      .from(userImportProfiles)
+      .where(eq(userImportProfiles.name, data.name))
+      .limit(1);
+
+    if (existingProfile) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Import profile already exists",
+        errors: [
+          {
+            field: "name",
+            message: `An import profile named "${data.name}" already exists`,
+            code: "PROFILE_NAME_EXISTS",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 409);
+    }
+
+    const [profile] = await db
+      .insert(userImportProfiles)
+      .values({
+        name: data.name,
+        description: data.description || null,
+        column_mapping: data.column_mapping,
+        sheet_name: data.sheet_name || null,
+        header_row: data.header_row ?? null,
+        created_by: auth.user.id,
+        updated_by: auth.user.id,
+      })
+      .returning();
+
+    const response: ImportProfileResponse = {
+      success: true,
+      message: `Import profile '${profile.name}' created successfully`,
+      data: formatImportProfile(profile),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 201);
+  } catch (error) {
+    console.error("Error creating import profile:", error);
+
+    const env = getEnv(c);
+    const errorResponse: ErrorResponse = {
+      success: false,
+      message: "Failed to create import profile",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,88 @@
+import { Context } from "hono";
+import { eq } from "drizzle-orm";
+import { getDbFromEnv, userImportProfiles, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import {
+  type ImportProfileByIdRequest,
+  type ErrorResponse,
+} from "shared-types";
+
+export async function deleteImportProfileHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { profileId } = c.req.param() as ImportProfileByIdRequest;
+    const db = getDbFromEnv(c.env);
+
+    // Profiles are only read when an import starts, so a hard delete is safe
+    const [deletedProfile] = await db
+      .delete(userImportProfiles)
+      .where(eq(userImportProfiles.id, profileId))
+      .returning({
+        id: userImportProfiles.id,
+        name: userImportProfiles.name,
+      });
+
+    if (!deletedProfile) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Import profile not found",
+        errors: [
+          {
+            field: "profileId",
+            message: `Import profile with ID "${profileId}" not found`,
+            code: "PROFILE_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    return c.json(
+      {
+        success: true,
+        message: `Import profile '${deletedProfile.name}' deleted successfully`,
+        data: { id: deletedProfile.id, deleted_at: new Date().toISOString() },
+        timestamp: new Date().toISOString(),
+      },
+      200
+    );
+  } catch (error) {
+    console.error("Error deleting import profile:", error);
+
+    const env = getEnv(c);
+    const errorResponse: ErrorResponse = {
+      success: false,
+      message: "Failed to delete import profile",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,67 @@
+import { Context } from "hono";
+import { asc } from "drizzle-orm";
+import { getDbFromEnv, userImportProfiles, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { formatImportProfile } from "@/lib/userImport";
+import {
+  type GetImportProfilesResponse,
+  type ErrorResponse,
+} from "shared-types";
+
+export async function getImportProfilesHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const db = getDbFromEnv(c.env);
+
+    const profiles = await db
+      .select()
+      .from(userImportProfiles)
+      .orderBy(asc(userImportProfiles.name));
+
+    const response: GetImportProfilesResponse = {
+      success: true,
+      message: `Found ${profiles.length} import profile(s)`,
+      data: profiles.map(formatImportProfile),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error getting import profiles:", error);
+
+    const env = getEnv(c);
+    const errorResponse: ErrorResponse = {
+      success: false,
+      message: "Failed to retrieve import profiles",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,136 @@
+import { Context } from "hono";
+import { and, eq, ne } from "drizzle-orm";
+import { getDbFromEnv, userImportProfiles, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { formatImportProfile } from "@/lib/userImport";
+import {
+  type ImportProfileByIdRequest,
+  type UpdateImportProfileRequest,
+  type ImportProfileResponse,
+  type ErrorResponse,
+} from "shared-types";
+
+export async function updateImportProfileHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const { profileId } = c.req.param() as ImportProfileByIdRequest;
+    const data = (await c.req.json()) as UpdateImportProfileRequest;
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const [existingProfile] = await db
+      .select({ id: userImportProfiles.id })
+      .from(userImportProfiles)
+      .where(eq(userImportProfiles.id, profileId))
+      .limit(1);
+
+    if (!existingProfile) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Import profile not found",
+        errors: [
+          {
+            field: "profileId",
+            message: `Import profile with ID "${profileId}" not found`,
+            code: "PROFILE_NOT_FOUND",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 404);
+    }
+
+    if (data.name !== undefined) {
+      const [sameName] = await db
+        .select({ id: userImportProfiles.id })
+        .from(userImportProfiles)
+        .where(
+          and(
+            eq(userImportProfiles.name, data.name),
+            ne(userImportProfiles.id, profileId)
+          )
+        )
+        .limit(1);
+
+      if (sameName) {
+        const errorResponse: ErrorResponse = {
+          success: false,
+          message: "Import profile already exists",
+          errors: [
+            {
+              field: "name",
+              message: `An import profile named "${data.name}" already exists`,
+              code: "PROFILE_NAME_EXISTS",
+            },
+          ],
+          timestamp: new Date().toISOString(),
+        };
+        return c.json(errorResponse, 409);
+      }
+    }
+
+    const [profile] = await db
+      .update(userImportProfiles)
+      .set({
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.description !== undefined && {
+          description: data.description,
+        }),
+        ...(data.column_mapping !== undefined && {
+          column_mapping: data.column_mapping,
+        }),
+        ...(data.sheet_name !== undefined && { sheet_name: data.sheet_name }),
+        ...(data.header_row !== undefined && { header_row: data.header_row }),
+        updated_at: new Date(),
+        updated_by: auth.user.id,
+      })
+      .where(eq(userImportProfiles.id, profileId))
+      .returning();
+
+    const response: ImportProfileResponse = {
+      success: true,
+      message: `Import profile '${profile.name}' updated successfully`,
+      data: formatImportProfile(profile),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error updating import profile:", error);
+
+    const env = getEnv(c);
+    const errorResponse: ErrorResponse = {
+      success: false,
+      message: "Failed to update import profile",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,138 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { type CloudflareBindings } from "@/lib/env";
+import {
+  ImportProfileByIdRequestSchema,
+  CreateImportProfileRequestSchema,
+  UpdateImportProfileRequestSchema,
+  type ErrorResponse,
+} from "shared-types";
+import { getImportProfilesHandler } from "./import-profile.list";
+import { createImportProfileHandler } from "./import-profile.create";
+import { updateImportProfileHandler } from "./import-profile.update";
+import { deleteImportProfileHandler } from "./import-profile.delete";
+import { authenticateUser, requireAdmin } from "@/middleware/auth";
+import { generalApiRateLimit } from "@/middleware/rateLimiter";
+
+const importProfileRoutes = new Hono<{ Bindings: CloudflareBindings }>();
+
+// ==================== IMPORT PROFILE ROUTES (Admin only) ====================
+
+// Get Import Profiles
+importProfileRoutes.get(
+  "/",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  getImportProfilesHandler
+);
+
+// Create Import Profile
+importProfileRoutes.post(
+  "/",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("json", CreateImportProfileRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Invalid import profile data",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  createImportProfileHandler
+);
+
+// Update Import Profile
+importProfileRoutes.put(
+  "/:profileId",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", ImportProfileByIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Invalid import profile parameters",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  zValidator("json", UpdateImportProfileRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Invalid import profile update data",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  updateImportProfileHandler
+);
+
+// Delete Import Profile
+importProfileRoutes.delete(
+  "/:profileId",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("param", ImportProfileByIdRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Invalid import profile parameters",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  deleteImportProfileHandler
+);
+
+// ==================== ERROR HANDLERS ====================
+importProfileRoutes.onError((err, c) => {
+  console.error("Import profile routes error:", err);
+
+  const errorResponse: ErrorResponse = {
+    success: false,
+    message: "Import profile route error",
+    ...(c.env.NODE_ENV === "development" && {
+      errors: [
+        {
+          message: err.message,
+          code: "ROUTE_ERROR",
+        },
+      ],
+    }),
+    timestamp: new Date().toISOString(),
+  };
+
+  return c.json(errorResponse, 500);
+});
+
+export { importProfileRoutes };
@@ -9,6 +9,8 @@ import {
   DeleteUserByIdRequestSchema,
   CSVUploadRequestSchema,
   BulkCreateUsersRequestSchema,
+  UserImportRequestSchema,
+  NormalizeUserRegionsRequestSchema,
   type ErrorResponse,
   z,
 } from "shared-types";
@@ -31,6 +33,10 @@ import {
   validateSyntegraCSVHandler,
   createUsersFromCSVHandler,
 } from "./user.bulk.csv";
+import { importUsersHandler } from "./user.bulk.import";
+import { createUsersFromJSONHandler } from "./user.bulk.json";
+import { importProfileRoutes } from "./import-profiles";
+import { normalizeUserRegionsHandler } from "./user.regions.normalize";
 import {
   userRegistrationRateLimit,
   generalApiRateLimit,
@@ -275,17 +281,60 @@ userRoutes.post(
       return c.json(errorResponse, 400);
     }
   }),
-  async (c) => {
-    // Placeholder implementation for JSON bulk import
-    return c.json(
-      {
+  createUsersFromJSONHandler
+);
+
+// ==================== FILE IMPORT OPERATIONS ====================
+
+// Import Users from CSV or XLSX through a column mapping (dry_run previews)
+userRoutes.post(
+  "/bulk/import",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("json", UserImportRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
         success: false,
-        message: "JSON bulk import not implemented yet",
+        message: "Import validation failed",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
         timestamp: new Date().toISOString(),
-      },
-      501
-    );
-  }
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  importUsersHandler
+);
+
+// Mount saved column mappings under /bulk/profiles
+userRoutes.route("/bulk/profiles", importProfileRoutes);
+
+// Normalize stored addresses against the region reference data (dry_run previews)
+userRoutes.post(
+  "/regions/normalize",
+  generalApiRateLimit,
+  authenticateUser,
+  requireAdmin,
+  zValidator("json", NormalizeUserRegionsRequestSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Invalid normalization options",
+        errors: result.error.errors.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+          code: err.code,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  normalizeUserRegionsHandler
 );
 
 // ==================== USER STATISTICS (Admin only) ====================
@@ -8,6 +8,11 @@ import {
   transformSyntegraCSVRowToBulkUser,
   validateBulkUserData,
 } from "@/lib/csv";
+import {
+  checkImportEntries,
+  updateImportUsers,
+  type ImportEntry,
+} from "@/lib/userImport";
 import {
   type CSVUploadRequest,
   type BulkCreateUsersResponse,
@@ -388,7 +393,56 @@ export async function createUsersFromCSVHandler(
       (_, index) => validation.results[index]?.status === "success"
     );
 
-    if (!data.options?.skip_duplicates && validUsers.length > 0) {
+    // Upsert: registered users are merged under the conflict policy, only
+    // the rest is left for creation
+    if (data.options?.mode === "upsert" && validUsers.length > 0) {
+      const entries: ImportEntry[] = validUsers.map((user) => ({
+        row_number: user.row_number ?? 0,
+        status: "valid",
+        values: user,
+        data: user,
+        errors: [],
+      }));
+
+      await checkImportEntries(db, entries, {
+        mode: "upsert",
+        conflict_policy: data.options.conflict_policy || "fill_empty",
+      });
+      if (!data.options.validate_only) {
+        await updateImportUsers(db, c, entries, auth.user.id);
+      }
+
+      for (const entry of entries) {
+        if (entry.status === "valid") continue;
+
+        const resultIndex = transformResults.findIndex(
+          (r) => r.nik === entry.data!.nik && r.status === "success"
+        );
+        if (resultIndex === -1) continue;
+
+        if (
+          entry.status === "update" ||
+          entry.status === "updated" ||
+          entry.status === "unchanged"
+        ) {
+          transformResults[resultIndex] = {
+            ...transformResults[resultIndex],
+            action: entry.status === "unchanged" ? "unchanged" : "updated",
+            changes: entry.changes || [],
+          };
+        } else {
+          transformResults[resultIndex] = {
+            ...transformResults[resultIndex],
+            status:
+              entry.status === "skipped" ||
+              (entry.status === "exists" && data.options.skip_duplicates)
+                ? "skipped"
+                : "error",
+            ...(entry.errors[0] && { error: entry.errors[0] }),
+          };
+        }
+      }
+    } else if (!data.options?.skip_duplicates && validUsers.length > 0) {
       const niks = validUsers.map((u) => u.nik);
       const emails = validUsers.map((u) => u.email);
 
@@ -466,10 +520,10 @@ export async function createUsersFromCSVHandler(
       return c.json(response, 200);
     }
 
-    // Create users in database
+    // Create users in database (upserted users already carry an action)
     const usersToCreate = validUsers.filter((user, index) => {
       const result = transformResults.find((r) => r.nik === user.nik);
-      return result?.status === "success";
+      return result?.status === "success" && !result.action;
     });
 
     let successful = 0;
@@ -619,7 +673,10 @@ export async function createUsersFromCSVHandler(
 
     const response: BulkCreateUsersResponse = {
       success: finalCounts.successful > 0,
-      message: `Bulk user creation from CSV completed. ${finalCounts.successful} users created, ${finalCounts.failed} failed, ${finalCounts.skipped} skipped`,
+      message:
+        data.options?.mode === "upsert"
+          ? `Bulk user upsert from CSV completed. ${successful} users created, ${transformResults.filter((r) => r.action === "updated").length} updated, ${finalCounts.failed} failed, ${finalCounts.skipped} skipped`
+          : `Bulk user creation from CSV completed. ${finalCounts.successful} users created, ${finalCounts.failed} failed, ${finalCounts.skipped} skipped`,
       data: {
         total_processed: transformedUsers.length,
         successful: finalCounts.successful,
@@ -0,0 +1,146 @@
+import { Context } from "hono";
+import { getDbFromEnv, isDatabaseConfigured } from "../../db";
+import { getEnv, type CloudflareBindings } from "../../lib/env";
+import {
+  checkImportEntries,
+  formatImportRow,
+  insertImportUsers,
+  prepareImport,
+  summarizeImportEntries,
+  updateImportUsers,
+} from "@/lib/userImport";
+import {
+  BULK_ERROR_CODES,
+  type ErrorResponse,
+  type UserImportRequest,
+  type UserImportResponse,
+} from "shared-types";
+
+/**
+ * Import users from a CSV or XLSX file through a column mapping. With
+ * dry_run every row is validated and checked against existing users but
+ * nothing is created, so the admin can review the preview first. In upsert
+ * mode registered users are updated field by field instead of rejected.
+ */
+export async function importUsersHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message: "DATABASE_URL is not configured",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const data = (await c.req.json()) as UserImportRequest;
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+    const dryRun = data.dry_run ?? false;
+
+    const prepared = await prepareImport(
+      db,
+      data,
+      data.options?.default_role || "participant"
+    );
+    if (!prepared.success) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: prepared.message,
+        errors: [prepared.error],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, prepared.status);
+    }
+
+    const { entries, missing_required_fields: missingFields } = prepared;
+    if (!dryRun && missingFields.length > 0) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Missing required columns",
+        errors: [
+          {
+            field: "column_mapping",
+            message: `Required fields not mapped: ${missingFields.join(", ")}. Available headers: ${prepared.file_info.headers.join(", ")}`,
+            code: BULK_ERROR_CODES.MISSING_REQUIRED_COLUMNS,
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    await checkImportEntries(db, entries, {
+      mode: data.options?.mode || "create",
+      conflict_policy: data.options?.conflict_policy || "fill_empty",
+    });
+
+    if (data.options?.skip_duplicates) {
+      for (const entry of entries) {
+        if (entry.status === "duplicate" || entry.status === "exists") {
+          entry.status = "skipped";
+        }
+      }
+    }
+
+    if (!dryRun) {
+      await insertImportUsers(db, entries, auth.user.id);
+      await updateImportUsers(db, c, entries, auth.user.id);
+    }
+
+    const summary = summarizeImportEntries(entries);
+    const applied = summary.created + summary.updated;
+    const failed =
+      summary.total_rows - applied - summary.skipped - summary.unchanged_rows;
+    const response: UserImportResponse = {
+      success: dryRun || applied > 0 || failed === 0,
+      message: dryRun
+        ? `Import preview: ${summary.valid_rows} of ${summary.total_rows} rows ready to import, ${summary.update_rows} users to update`
+        : `User import completed. ${summary.created} users created, ${summary.updated} updated, ${summary.unchanged_rows} unchanged, ${failed} failed, ${summary.skipped} skipped`,
+      data: {
+        dry_run: dryRun,
+        file_info: prepared.file_info,
+        profile_id: prepared.profile_id,
+        column_mapping: prepared.column_mapping,
+        suggestions: prepared.suggestions,
+        missing_required_fields: missingFields,
+        summary,
+        rows: entries.map(formatImportRow),
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(
+      response,
+      dryRun ? 200 : applied > 0 ? 201 : failed === 0 ? 200 : 400
+    );
+  } catch (error) {
+    console.error("User import error:", error);
+
+    const env = getEnv(c);
+    const errorResponse: ErrorResponse = {
+      success: false,
+      message: "User import failed",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "USER_IMPORT_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -0,0 +1,200 @@
+import { Context } from "hono";
+import { getDbFromEnv, isDatabaseConfigured } from "../../db";
+import { getEnv, type CloudflareBindings } from "../../lib/env";
+import {
+  checkImportEntries,
+  insertImportUsers,
+  summarizeImportEntries,
+  updateImportUsers,
+  type CreatedImportUser,
+  type ImportEntry,
+} from "@/lib/userImport";
+import { resolveUserRegion } from "@/lib/regions";
+import {
+  BulkUserDataSchema,
+  type BulkCreateUsersRequest,
+  type BulkCreateUsersResponse,
+  type BulkUserResult,
+  type ErrorResponse,
+  type UserResponse,
+} from "shared-types";
+
+function formatCreatedUser(user: CreatedImportUser): UserResponse {
+  return {
+    ...user,
+    nik: user.nik || "",
+    gender: user.gender || "other",
+    phone: user.phone || "",
+    is_active: user.is_active ?? true,
+    email_verified: user.email_verified ?? false,
+  };
+}
+
+/**
+ * Create users from already mapped JSON rows, through the same checks as
+ * the file import: duplicates in the batch, users already registered (or
+ * updated in upsert mode), then chunked inserts
+ */
+export async function createUsersFromJSONHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message: "DATABASE_URL is not configured",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const data = (await c.req.json()) as BulkCreateUsersRequest;
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+    const defaultRole = data.options?.default_role || "participant";
+
+    const entries: ImportEntry[] = data.users.map((user, index) => {
+      const parsed = BulkUserDataSchema.parse({
+        ...user,
+        role: user.role || defaultRole,
+        row_number: user.row_number ?? index + 1,
+      });
+
+      const region = resolveUserRegion({
+        province: parsed.province,
+        regency: parsed.regency,
+        postal_code: parsed.postal_code,
+      });
+      if (region.errors.length > 0) {
+        return {
+          row_number: parsed.row_number!,
+          status: "invalid",
+          values: parsed,
+          errors: region.errors,
+        };
+      }
+
+      Object.assign(parsed, region.values);
+      return {
+        row_number: parsed.row_number!,
+        status: "valid",
+        values: parsed,
+        data: parsed,
+        errors: [],
+      };
+    });
+
+    await checkImportEntries(db, entries, {
+      mode: data.options?.mode || "create",
+      conflict_policy: data.options?.conflict_policy || "fill_empty",
+    });
+
+    if (data.options?.skip_duplicates) {
+      for (const entry of entries) {
+        if (entry.status === "duplicate" || entry.status === "exists") {
+          entry.status = "skipped";
+        }
+      }
+    }
+
+    const validateOnly = data.options?.validate_only ?? false;
+    const createdUsers = validateOnly
+      ? []
+      : await insertImportUsers(db, entries, auth.user.id);
+    if (!validateOnly) {
+      await updateImportUsers(db, c, entries, auth.user.id);
+    }
+    const createdByNik = new Map(createdUsers.map((user) => [user.nik, user]));
+
+    const results: BulkUserResult[] = entries.map((entry) => {
+      const base = {
+        row_number: entry.row_number,
+        nik: entry.values.nik || "",
+        name: entry.values.name || "",
+        email: entry.values.email || "",
+      };
+      const createdUser = createdByNik.get(base.nik);
+
+      if (entry.status === "valid" || entry.status === "created") {
+        return {
+          ...base,
+          status: "success",
+          ...(createdUser && {
+            action: "created",
+            user_data: formatCreatedUser(createdUser),
+          }),
+        };
+      }
+      if (
+        entry.status === "update" ||
+        entry.status === "updated" ||
+        entry.status === "unchanged"
+      ) {
+        return {
+          ...base,
+          status: "success",
+          action: entry.status === "unchanged" ? "unchanged" : "updated",
+          changes: entry.changes || [],
+        };
+      }
+      return {
+        ...base,
+        status: entry.status === "skipped" ? "skipped" : "error",
+        ...(entry.errors[0] && { error: entry.errors[0] }),
+      };
+    });
+
+    const summary = summarizeImportEntries(entries);
+    const successful = results.filter((r) => r.status === "success").length;
+    const skipped = results.filter((r) => r.status === "skipped").length;
+    const failed = results.filter((r) => r.status === "error").length;
+
+    const response: BulkCreateUsersResponse = {
+      success: validateOnly || successful > 0,
+      message: validateOnly
+        ? `Validation completed. ${summary.valid_rows} users can be created, ${summary.update_rows} updated, ${failed} failed, ${skipped} skipped`
+        : `Bulk user creation completed. ${summary.created} users created, ${summary.updated} updated, ${failed} failed, ${skipped} skipped`,
+      data: {
+        total_processed: entries.length,
+        successful,
+        failed,
+        skipped,
+        results,
+        summary: {
+          duplicates_found: summary.duplicate_rows + summary.existing_rows,
+          validation_errors: summary.invalid_rows,
+          database_errors: summary.failed,
+        },
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, validateOnly ? 200 : successful > 0 ? 201 : 400);
+  } catch (error) {
+    console.error("Bulk user creation from JSON error:", error);
+
+    const env = getEnv(c);
+    const errorResponse: ErrorResponse = {
+      success: false,
+      message: "Bulk user creation from JSON failed",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "JSON_BULK_CREATE_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
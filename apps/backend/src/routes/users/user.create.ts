@@ -3,11 +3,16 @@ import { eq, or, count } from "drizzle-orm";
 import { getDbFromEnv, users, isDatabaseConfigured } from "@/db";
 import { getEnv, type CloudflareBindings } from "@/lib/env";
 import { hashPassword } from "@/lib/auth";
+import { resolveUserRegion } from "@/lib/regions";
 import {
   type CreateUserRequest,
   type CreateUserResponse,
   type ErrorResponse,
   type CreateUserDB,
+  type NikInfo,
+  getNikMismatches,
+  getNikProfileDefaults,
+  parseNik,
 } from "shared-types";
 
 // Helper function to generate admin NIK (AUTO-ADM-YYYY-XXXX)
@@ -100,6 +105,7 @@ export async function createUserHandler(
 
     // Handle NIK logic based on role
     let finalNik: string | null = null;
+    let nikInfo: NikInfo | null = null;
 
     if (data.role === "admin") {
       // Admin users: NIK is optional
@@ -128,7 +134,25 @@ export async function createUserHandler(
         };
         return c.json(errorResponse, 400);
       }
+
+      const nikResult = parseNik(data.nik);
+      if (!nikResult.valid) {
+        const errorResponse: ErrorResponse = {
+          success: false,
+          message: "Invalid NIK",
+          errors: [
+            {
+              field: "nik",
+              message: nikResult.message,
+              code: nikResult.code,
+            },
+          ],
+          timestamp: new Date().toISOString(),
+        };
+        return c.json(errorResponse, 400);
+      }
       finalNik = data.nik;
+      nikInfo = nikResult.info;
     }
 
     // Validation logic based on creation type
@@ -333,6 +357,28 @@ export async function createUserHandler(
       hashedPassword = await hashPassword(data.password);
     }
 
+    // Fill missing profile fields from the participant's NIK and flag the
+    // supplied ones it disagrees with
+    const nikDefaults = nikInfo ? getNikProfileDefaults(nikInfo, data) : {};
+    const nikWarnings = nikInfo ? getNikMismatches(nikInfo, data) : [];
+    const birthDate = data.birth_date || nikDefaults.birth_date;
+
+    // Address fields must match the region reference data
+    const region = resolveUserRegion({
+      province: data.province || nikDefaults.province,
+      regency: data.regency,
+      postal_code: data.postal_code,
+    });
+    if (region.errors.length > 0) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Invalid address",
+        errors: region.errors,
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
     // Prepare data for database insertion
     const insertData: CreateUserDB & { password?: string | null } = {
       nik: finalNik || "", // Use generated or provided NIK
@@ -340,18 +386,18 @@ export async function createUserHandler(
       role: data.role,
       email: data.email,
       password: hashedPassword,
-      gender: data.gender || "other",
+      gender: data.gender || nikDefaults.gender || "other",
       phone: data.phone || "",
       birth_place: data.birth_place || null,
-      birth_date: data.birth_date ? new Date(data.birth_date) : null,
+      birth_date: birthDate ? new Date(birthDate) : null,
       religion: data.religion || null,
       education: data.education || null,
       address: data.address || null,
-      province: data.province || null,
-      regency: data.regency || null,
+      province: region.values.province || null,
+      regency: region.values.regency || null,
       district: data.district || null,
       village: data.village || null,
-      postal_code: data.postal_code || null,
+      postal_code: region.values.postal_code || null,
       profile_picture_url: data.profile_picture_url || null,
       created_by: isAdminCreation ? auth.user.id : null,
       updated_by: isAdminCreation ? auth.user.id : null,
@@ -424,6 +470,7 @@ export async function createUserHandler(
       success: true,
       message: `${creationType}: ${data.role === "admin" ? "Admin" : "Participant"} user created successfully${nikMessage}`,
       data: responseData,
+      ...(nikWarnings.length > 0 && { warnings: nikWarnings }),
       timestamp: new Date().toISOString(),
     };
 
@@ -7,6 +7,7 @@ import {
   type GetUsersResponse,
   type ErrorResponse,
   type PaginationMeta,
+  findProvince,
 } from "shared-types";
 
 export async function getUsersListHandler(
@@ -108,7 +109,10 @@ export async function getUsersListHandler(
 
     // Province filter
     if (queryParams.province) {
-      conditions.push(eq(users.province, queryParams.province));
+      const province = findProvince(queryParams.province);
+      conditions.push(
+        eq(users.province, province?.name ?? queryParams.province)
+      );
     }
 
     // Regency filter
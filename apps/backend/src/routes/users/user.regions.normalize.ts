@@ -0,0 +1,87 @@
+import { Context } from "hono";
+import { getDbFromEnv, isDatabaseConfigured } from "@/db";
+import { getEnv, type CloudflareBindings } from "@/lib/env";
+import { normalizeUserRegions } from "@/lib/regions";
+import {
+  type NormalizeUserRegionsRequest,
+  type NormalizeUserRegionsResponse,
+  type ErrorResponse,
+} from "shared-types";
+
+/**
+ * One-time clean-up of the free-text addresses stored before writes were
+ * validated against the region reference data. Defaults to a dry run that
+ * only reports what would change.
+ */
+export async function normalizeUserRegionsHandler(
+  c: Context<{ Bindings: CloudflareBindings }>
+) {
+  try {
+    if (!isDatabaseConfigured(c.env)) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Database not configured",
+        errors: [
+          {
+            field: "database",
+            message:
+              "DATABASE_URL is not configured. Please set your Neon database connection string in wrangler.jsonc",
+            code: "DATABASE_NOT_CONFIGURED",
+          },
+        ],
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 503);
+    }
+
+    const data = (await c.req.json()) as NormalizeUserRegionsRequest;
+    const dryRun = data.dry_run ?? true;
+    const db = getDbFromEnv(c.env);
+    const auth = c.get("auth");
+
+    const result = await normalizeUserRegions(db, c, {
+      dry_run: dryRun,
+      actor_id: auth.user.id,
+    });
+    const unresolvedUsers = new Set(
+      result.unresolved.map((item) => item.user_id)
+    ).size;
+
+    const response: NormalizeUserRegionsResponse = {
+      success: true,
+      message: dryRun
+        ? `Dry run completed. ${result.changes.length} of ${result.total_users} users would be normalized, ${unresolvedUsers} have values that need manual review`
+        : `Normalized the address of ${result.changes.length} of ${result.total_users} users, ${unresolvedUsers} have values that need manual review`,
+      data: {
+        dry_run: dryRun,
+        total_users: result.total_users,
+        normalized_users: result.changes.length,
+        unresolved_users: unresolvedUsers,
+        changes: result.changes,
+        unresolved: result.unresolved,
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error("Error normalizing user regions:", error);
+
+    const env = getEnv(c);
+    const errorResponse: ErrorResponse = {
+      success: false,
+      message: "Failed to normalize user addresses",
+      ...(env.NODE_ENV === "development" && {
+        errors: [
+          {
+            message: error instanceof Error ? error.message : "Unknown error",
+            code: "INTERNAL_ERROR",
+          },
+        ],
+      }),
+      timestamp: new Date().toISOString(),
+    };
+
+    return c.json(errorResponse, 500);
+  }
+}
@@ -2,12 +2,18 @@ import { Context } from "hono";
 import { eq } from "drizzle-orm";
 import { getDbFromEnv, users, isDatabaseConfigured } from "../../db";
 import { getEnv, type CloudflareBindings } from "../../lib/env";
+import { resolveUserRegion } from "../../lib/regions";
 import {
   type UpdateUserRequest,
   type UpdateUserResponse,
   type ErrorResponse,
   type UpdateUserDB,
+  type NikInfo,
+  type NikProfileDefaults,
   AUTH_ERROR_CODES,
+  getNikMismatches,
+  getNikProfileDefaults,
+  parseNik,
 } from "shared-types";
 
 export async function updateUserHandler(
@@ -103,6 +109,9 @@ export async function updateUserHandler(
         nik: users.nik,
         email: users.email,
         role: users.role,
+        gender: users.gender,
+        birth_date: users.birth_date,
+        province: users.province,
         is_active: users.is_active,
       })
       .from(users)
@@ -200,6 +209,80 @@ export async function updateUserHandler(
       }
     }
 
+    // A new participant NIK must be valid. Older NIKs were stored without
+    // validation, so an existing one is only used when it decodes.
+    const role = (auth.user.role === "admin" && data.role) || existingUser.role;
+    const nikChanged = data.nik !== undefined && data.nik !== existingUser.nik;
+    let nikInfo: NikInfo | null = null;
+
+    if (role === "participant" && nikChanged) {
+      const nikResult = parseNik(data.nik!);
+      if (!nikResult.valid) {
+        const errorResponse: ErrorResponse = {
+          success: false,
+          message: "Invalid NIK",
+          errors: [
+            {
+              field: "nik",
+              message: nikResult.message,
+              code: nikResult.code,
+            },
+          ],
+          timestamp: new Date().toISOString(),
+        };
+        return c.json(errorResponse, 400);
+      }
+      nikInfo = nikResult.info;
+    } else if (role === "participant" && existingUser.nik) {
+      const nikResult = parseNik(existingUser.nik);
+      if (nikResult.valid) nikInfo = nikResult.info;
+    }
+
+    // Check for NIK uniqueness if NIK is being updated
+    if (nikChanged) {
+      const [nikExists] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.nik, data.nik!))
+        .limit(1);
+
+      if (nikExists) {
+        const errorResponse: ErrorResponse = {
+          success: false,
+          message: "NIK already exists",
+          errors: [
+            {
+              field: "nik",
+              message: "A user with this NIK already exists",
+              code: "NIK_ALREADY_EXISTS",
+            },
+          ],
+          timestamp: new Date().toISOString(),
+        };
+        return c.json(errorResponse, 409);
+      }
+    }
+
+    // Address fields must match the region reference data, a regency is
+    // looked up in the stored province unless a new one is given
+    const region = resolveUserRegion(
+      {
+        province: data.province,
+        regency: data.regency,
+        postal_code: data.postal_code,
+      },
+      existingUser.province
+    );
+    if (region.errors.length > 0) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: "Invalid address",
+        errors: region.errors,
+        timestamp: new Date().toISOString(),
+      };
+      return c.json(errorResponse, 400);
+    }
+
     // Check for email uniqueness if email is being updated
     if (data.email && data.email !== existingUser.email) {
       const [emailExists] = await db
@@ -232,6 +315,7 @@ export async function updateUserHandler(
     };
 
     // Add fields that are being updated
+    if (nikChanged) updateData.nik = data.nik;
     if (data.name !== undefined) updateData.name = data.name;
     if (data.email !== undefined) updateData.email = data.email;
     if (data.gender !== undefined) updateData.gender = data.gender;
@@ -247,14 +331,15 @@ export async function updateUserHandler(
     if (data.education !== undefined)
       updateData.education = data.education || null;
     if (data.address !== undefined) updateData.address = data.address || null;
-    if (data.province !== undefined)
-      updateData.province = data.province || null;
-    if (data.regency !== undefined) updateData.regency = data.regency || null;
+    if (region.values.province !== undefined)
+      updateData.province = region.values.province || null;
+    if (region.values.regency !== undefined)
+      updateData.regency = region.values.regency || null;
     if (data.district !== undefined)
       updateData.district = data.district || null;
     if (data.village !== undefined) updateData.village = data.village || null;
-    if (data.postal_code !== undefined)
-      updateData.postal_code = data.postal_code || null;
+    if (region.values.postal_code !== undefined)
+      updateData.postal_code = region.values.postal_code || null;
     if (data.profile_picture_url !== undefined)
       updateData.profile_picture_url = data.profile_picture_url || null;
 
@@ -264,6 +349,29 @@ export async function updateUserHandler(
       if (data.is_active !== undefined) updateData.is_active = data.is_active;
     }
 
+    // Check the resulting profile against the NIK and fill the fields that
+    // are still empty and not part of this update
+    const profile = {
+      gender: data.gender ?? existingUser.gender,
+      birth_date:
+        data.birth_date !== undefined
+          ? data.birth_date
+          : existingUser.birth_date,
+      province:
+        data.province !== undefined ? data.province : existingUser.province,
+    };
+    const nikWarnings = nikInfo ? getNikMismatches(nikInfo, profile) : [];
+    const nikDefaults: NikProfileDefaults = nikInfo
+      ? getNikProfileDefaults(nikInfo, profile)
+      : {};
+
+    if (nikDefaults.gender && data.gender === undefined)
+      updateData.gender = nikDefaults.gender;
+    if (nikDefaults.birth_date && data.birth_date === undefined)
+      updateData.birth_date = new Date(nikDefaults.birth_date);
+    if (nikDefaults.province && updateData.province === undefined)
+      updateData.province = nikDefaults.province;
+
     // Update user in database
     const [updatedUser] = await db
       .update(users)
@@ -337,6 +445,7 @@ export async function updateUserHandler(
       success: true,
       message: "User updated successfully",
       data: responseData,
+      ...(nikWarnings.length > 0 && { warnings: nikWarnings }),
       timestamp: new Date().toISOString(),
     };
 
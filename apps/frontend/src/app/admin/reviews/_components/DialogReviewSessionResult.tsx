@@ -0,0 +1,259 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Lock, Save, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { useSessionResultReview } from "@/hooks/useSessionResultReview";
+import {
+  SESSION_RESULT_REVIEW_STATUS_COLORS,
+  SESSION_RESULT_REVIEW_STATUS_LABELS,
+  type SessionResultReviewItem,
+} from "shared-types";
+
+interface DialogReviewSessionResultProps {
+  item: SessionResultReviewItem | null;
+  onClose: () => void;
+}
+
+export default function DialogReviewSessionResult({
+  item,
+  onClose,
+}: DialogReviewSessionResultProps) {
+  const { useUpdateReview, useFinalizeSessionResult } =
+    useSessionResultReview();
+  const updateReviewMutation = useUpdateReview();
+  const finalizeMutation = useFinalizeSessionResult();
+
+  const [personalitySummary, setPersonalitySummary] = useState("");
+  const [summaryDescription, setSummaryDescription] = useState("");
+  const [strengths, setStrengths] = useState("");
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  // Isi form setiap kali hasil yang dibuka berganti
+  useEffect(() => {
+    setPersonalitySummary(item?.personality_summary || "");
+    setSummaryDescription(item?.summary_description || "");
+    setStrengths((item?.strengths || []).join("\n"));
+  }, [item]);
+
+  if (!item) return null;
+
+  const isLocked = item.is_final;
+  const isBusy = updateReviewMutation.isPending || finalizeMutation.isPending;
+
+  const saveReview = async () => {
+    await updateReviewMutation.mutateAsync({
+      id: item.id,
+      data: {
+        personality_summary: personalitySummary.trim() || null,
+        summary_description: summaryDescription.trim() || null,
+        strengths: strengths
+          .split("\n")
+          .map((strength) => strength.trim())
+          .filter(Boolean),
+      },
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveReview();
+      toast.success("Review berhasil disimpan");
+    } catch (error: any) {
+      toast.error("Gagal menyimpan review", {
+        description: error.message || "Terjadi kesalahan saat menyimpan",
+      });
+    }
+  };
+
+  const handleFinalize = async () => {
+    try {
+      // Simpan narasi terakhir sebelum dikunci
+      await saveReview();
+      await finalizeMutation.mutateAsync(item.id);
+      toast.success("Hasil berhasil difinalisasi", {
+        description: `Hasil ${item.participant.name} telah ditandatangani dan dikunci`,
+      });
+      setIsConfirmOpen(false);
+      onClose();
+    } catch (error: any) {
+      toast.error("Gagal memfinalisasi hasil", {
+        description: error.message || "Terjadi kesalahan saat finalisasi",
+      });
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              Review Hasil: {item.participant.name}
+              <Badge
+                className={
+                  SESSION_RESULT_REVIEW_STATUS_COLORS[item.review_status]
+                }
+                variant="secondary"
+              >
+                {SESSION_RESULT_REVIEW_STATUS_LABELS[item.review_status]}
+              </Badge>
+            </DialogTitle>
+            <DialogDescription>
+              {item.session.session_name} ({item.session.session_code})
+              {item.session.target_position &&
+                ` • Posisi: ${item.session.target_position}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-3 gap-3 rounded-lg border p-3 text-sm">
+            <div>
+              <div className="text-muted-foreground">Skor Tertimbang</div>
+              <div className="font-semibold">
+                {item.weighted_score !== null
+                  ? item.weighted_score.toFixed(1)
+                  : "-"}
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Grade</div>
+              <div className="font-semibold">{item.overall_grade || "-"}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Kelengkapan</div>
+              <div className="font-semibold">
+                {item.completion_rate !== null
+                  ? `${item.completion_rate.toFixed(0)}%`
+                  : "-"}
+              </div>
+            </div>
+          </div>
+
+          {isLocked && item.reviewed_by && (
+            <div className="flex items-center gap-2 rounded-lg border border-green-200 bg-green-50 p-3 text-sm text-green-800">
+              <Lock className="h-4 w-4" />
+              Ditandatangani oleh {item.reviewed_by.name} pada{" "}
+              {item.reviewed_at &&
+                new Date(item.reviewed_at).toLocaleString("id-ID")}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="summary_description">Kesimpulan Psikolog *</Label>
+              <Textarea
+                id="summary_description"
+                rows={5}
+                value={summaryDescription}
+                onChange={(e) => setSummaryDescription(e.target.value)}
+                disabled={isLocked}
+                placeholder="Tuliskan kesimpulan dan rekomendasi untuk klien"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="personality_summary">Ringkasan Kepribadian</Label>
+              <Textarea
+                id="personality_summary"
+                rows={4}
+                value={personalitySummary}
+                onChange={(e) => setPersonalitySummary(e.target.value)}
+                disabled={isLocked}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="strengths">Kekuatan (satu per baris)</Label>
+              <Textarea
+                id="strengths"
+                rows={4}
+                value={strengths}
+                onChange={(e) => setStrengths(e.target.value)}
+                disabled={isLocked}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={onClose}>
+              Tutup
+            </Button>
+            {!isLocked && (
+              <>
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  onClick={handleSave}
+                  disabled={isBusy}
+                >
+                  {updateReviewMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Save className="h-4 w-4" />
+                  )}
+                  Simpan Review
+                </Button>
+                <Button
+                  className="gap-2"
+                  onClick={() => setIsConfirmOpen(true)}
+                  disabled={isBusy || !summaryDescription.trim()}
+                >
+                  <ShieldCheck className="h-4 w-4" />
+                  Finalisasi
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Finalisasi hasil ini?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Hasil {item.participant.name} akan ditandatangani atas nama Anda
+              dan dikunci. Narasi tidak dapat diubah lagi dan laporan tidak lagi
+              bertanda draft.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isBusy}>Batal</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleFinalize();
+              }}
+              disabled={isBusy}
+            >
+              {finalizeMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Ya, Finalisasi
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,194 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  ClipboardCheck,
+  Loader2,
+  RefreshCw,
+} from "lucide-react";
+import {
+  SESSION_RESULT_REVIEW_STATUS_COLORS,
+  SESSION_RESULT_REVIEW_STATUS_LABELS,
+  type GetSessionResultReviewQueueResponse,
+  type SessionResultReviewItem,
+} from "shared-types";
+
+interface TableReviewQueueProps {
+  items: SessionResultReviewItem[];
+  meta?: GetSessionResultReviewQueueResponse["meta"];
+  isLoading: boolean;
+  error?: Error | null;
+  currentPage: number;
+  onPageChange: (page: number) => void;
+  onRefetch: () => void;
+  onOpenReview: (item: SessionResultReviewItem) => void;
+}
+
+export default function TableReviewQueue({
+  items,
+  meta,
+  isLoading,
+  error,
+  currentPage,
+  onPageChange,
+  onRefetch,
+  onOpenReview,
+}: TableReviewQueueProps) {
+  // Format tanggal
+  const formatDate = (date: string | null) => {
+    if (!date) return "-";
+    return new Date(date).toLocaleDateString("id-ID", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Antrian Review</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="flex flex-col items-center justify-center gap-3 py-12">
+            <AlertCircle className="h-8 w-8 text-red-500" />
+            <p className="text-sm text-muted-foreground">
+              Gagal memuat antrian review: {error.message}
+            </p>
+            <Button variant="outline" size="sm" onClick={onRefetch}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Coba Lagi
+            </Button>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="py-12 text-center text-sm text-muted-foreground">
+            Tidak ada hasil sesi yang perlu direview
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Peserta</TableHead>
+                <TableHead>Sesi</TableHead>
+                <TableHead>Skor Tertimbang</TableHead>
+                <TableHead>Selesai</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Reviewer</TableHead>
+                <TableHead className="text-right">Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <div className="font-medium">{item.participant.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {item.participant.email}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">
+                      {item.session.session_name}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {item.session.session_code}
+                      {item.session.target_position &&
+                        ` • ${item.session.target_position}`}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {item.weighted_score !== null
+                      ? item.weighted_score.toFixed(1)
+                      : "-"}
+                    {item.overall_grade && (
+                      <Badge variant="outline" className="ml-2 text-xs">
+                        {item.overall_grade}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{formatDate(item.completed_at)}</TableCell>
+                  <TableCell>
+                    <Badge
+                      className={
+                        SESSION_RESULT_REVIEW_STATUS_COLORS[item.review_status]
+                      }
+                      variant="secondary"
+                    >
+                      {SESSION_RESULT_REVIEW_STATUS_LABELS[item.review_status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {item.reviewed_by ? (
+                      <>
+                        <div className="text-sm">{item.reviewed_by.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {formatDate(item.reviewed_at)}
+                        </div>
+                      </>
+                    ) : (
+                      "-"
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => onOpenReview(item)}
+                    >
+                      <ClipboardCheck className="h-4 w-4" />
+                      {item.is_final ? "Lihat" : "Review"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {meta && meta.total_pages > 1 && (
+          <div className="flex items-center justify-between pt-4">
+            <p className="text-sm text-muted-foreground">
+              Halaman {meta.current_page} dari {meta.total_pages} ({meta.total}{" "}
+              hasil)
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onPageChange(currentPage - 1)}
+                disabled={!meta.has_prev_page}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onPageChange(currentPage + 1)}
+                disabled={!meta.has_next_page}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
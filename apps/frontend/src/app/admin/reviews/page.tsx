@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CheckCircle2, Clock, FileSignature, RefreshCw } from "lucide-react";
+import { useSessionResultReview } from "@/hooks/useSessionResultReview";
+import {
+  SESSION_RESULT_REVIEW_STATUS_LABELS,
+  type SessionResultReviewItem,
+  type SessionResultReviewStatus,
+} from "shared-types";
+
+import TableReviewQueue from "./_components/TableReviewQueue";
+import DialogReviewSessionResult from "./_components/DialogReviewSessionResult";
+
+export default function AdminReviewsPage() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<string>("open");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [selectedItem, setSelectedItem] =
+    useState<SessionResultReviewItem | null>(null);
+
+  const { useGetReviewQueue, useGetSessionResult } = useSessionResultReview();
+
+  // "open" = semua yang belum difinalisasi (default antrian)
+  const queueQuery = useGetReviewQueue({
+    page: currentPage,
+    limit: 10,
+    search: searchTerm || undefined,
+    status:
+      statusFilter !== "open"
+        ? (statusFilter as SessionResultReviewStatus)
+        : undefined,
+    sort_order: "asc",
+  });
+
+  // Data terbaru dari hasil yang sedang direview
+  const detailQuery = useGetSessionResult(selectedItem?.id || "");
+
+  const items = queueQuery.data?.data || [];
+  const summary = queueQuery.data?.summary;
+
+  const summaryCards = [
+    {
+      label: SESSION_RESULT_REVIEW_STATUS_LABELS.pending,
+      value: summary?.pending,
+      icon: Clock,
+      className: "text-yellow-600",
+    },
+    {
+      label: SESSION_RESULT_REVIEW_STATUS_LABELS.reviewed,
+      value: summary?.reviewed,
+      icon: FileSignature,
+      className: "text-blue-600",
+    },
+    {
+      label: SESSION_RESULT_REVIEW_STATUS_LABELS.finalized,
+      value: summary?.finalized,
+      icon: CheckCircle2,
+      className: "text-green-600",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">Review Psikolog</h1>
+          <p className="text-muted-foreground max-w-2xl">
+            Setiap hasil asesmen harus direview dan ditandatangani oleh psikolog
+            sebelum dikirim ke klien. Lengkapi narasi hasil, lalu finalisasi
+            untuk mengunci hasil dan menghapus tanda draft pada laporan.
+          </p>
+        </div>
+
+        <Button
+          variant="outline"
+          className="gap-2"
+          onClick={() => queueQuery.refetch()}
+          disabled={queueQuery.isFetching}
+        >
+          <RefreshCw
+            className={`h-4 w-4 ${queueQuery.isFetching ? "animate-spin" : ""}`}
+          />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        {summaryCards.map((card) => (
+          <Card key={card.label}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">
+                {card.label}
+              </CardTitle>
+              <card.icon className={`h-4 w-4 ${card.className}`} />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{card.value ?? "-"}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Filter Section */}
+      <div className="flex flex-col gap-3 md:flex-row">
+        <Input
+          placeholder="Cari nama atau email peserta..."
+          value={searchTerm}
+          onChange={(e) => {
+            setSearchTerm(e.target.value);
+            setCurrentPage(1);
+          }}
+          className="md:max-w-sm"
+        />
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => {
+            setStatusFilter(value);
+            setCurrentPage(1);
+          }}
+        >
+          <SelectTrigger className="md:w-56">
+            <SelectValue placeholder="Pilih Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Belum Final</SelectItem>
+            {Object.entries(SESSION_RESULT_REVIEW_STATUS_LABELS).map(
+              ([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              )
+            )}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Table Section */}
+      <TableReviewQueue
+        items={items}
+        meta={queueQuery.data?.meta}
+        isLoading={queueQuery.isLoading}
+        error={queueQuery.error}
+        currentPage={currentPage}
+        onPageChange={setCurrentPage}
+        onRefetch={() => queueQuery.refetch()}
+        onOpenReview={setSelectedItem}
+      />
+
+      <DialogReviewSessionResult
+        item={selectedItem ? detailQuery.data?.data || selectedItem : null}
+        onClose={() => setSelectedItem(null)}
+      />
+    </div>
+  );
+}
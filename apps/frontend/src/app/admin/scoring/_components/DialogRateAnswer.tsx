@@ -0,0 +1,267 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { EyeOff, Loader2, Save } from "lucide-react";
+import { toast } from "sonner";
+import { useManualScoring } from "@/hooks/useManualScoring";
+import DrawingReplay from "./DrawingReplay";
+import {
+  MANUAL_SCORING_STATUS_COLORS,
+  MANUAL_SCORING_STATUS_LABELS,
+  type ManualScoringAnswerData,
+} from "shared-types";
+
+interface DialogRateAnswerProps {
+  answer: ManualScoringAnswerData | null;
+  isLoading: boolean;
+  onClose: () => void;
+}
+
+export default function DialogRateAnswer({
+  answer,
+  isLoading,
+  onClose,
+}: DialogRateAnswerProps) {
+  const { useRateAnswer } = useManualScoring();
+  const rateAnswerMutation = useRateAnswer();
+
+  const [scores, setScores] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState("");
+
+  // Isi form dari penilaian sendiri setiap kali jawaban berganti
+  useEffect(() => {
+    const myScores = answer?.my_rating?.dimension_scores || {};
+    setScores(
+      Object.fromEntries(
+        (answer?.dimensions || []).map(({ dimension }) => [
+          dimension,
+          myScores[dimension] !== undefined ? String(myScores[dimension]) : "",
+        ])
+      )
+    );
+    setNotes(answer?.my_rating?.notes || "");
+  }, [answer]);
+
+  const isOpen = !!answer || isLoading;
+  const isComplete =
+    !!answer &&
+    answer.dimensions.every(({ dimension, max_score }) => {
+      const value = parseFloat(scores[dimension]);
+      return !isNaN(value) && value >= 0 && value <= max_score;
+    });
+
+  const handleSave = async () => {
+    if (!answer) return;
+    try {
+      const response = await rateAnswerMutation.mutateAsync({
+        answerId: answer.answer_id,
+        data: {
+          dimension_scores: Object.fromEntries(
+            answer.dimensions.map(({ dimension }) => [
+              dimension,
+              parseFloat(scores[dimension]),
+            ])
+          ),
+          notes: notes.trim() || undefined,
+        },
+      });
+      toast.success("Penilaian berhasil disimpan", {
+        description: response.data.result_recalculated
+          ? "Semua jawaban telah dinilai, hasil tes dihitung ulang"
+          : response.data.status === "awaiting_rater"
+            ? "Menunggu penilai kedua"
+            : undefined,
+      });
+    } catch (error: any) {
+      toast.error("Gagal menyimpan penilaian", {
+        description: error.message || "Terjadi kesalahan saat menyimpan",
+      });
+    }
+  };
+
+  const isDrawing = answer?.question.question_type === "drawing";
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {!answer ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                Penilaian: {answer.participant.name}
+                <Badge
+                  className={MANUAL_SCORING_STATUS_COLORS[answer.status]}
+                  variant="secondary"
+                >
+                  {MANUAL_SCORING_STATUS_LABELS[answer.status]}
+                </Badge>
+              </DialogTitle>
+              <DialogDescription>
+                {answer.test.name} • Soal {answer.question.sequence} • Penilai{" "}
+                {answer.ratings_count}/{answer.required_raters}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2 rounded-lg border p-3">
+              <p className="text-sm font-medium">{answer.question.question}</p>
+              {answer.question.image_url && (
+                <img
+                  src={answer.question.image_url}
+                  alt="Gambar soal"
+                  className="max-h-48 rounded border"
+                />
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Jawaban Peserta</Label>
+              {isDrawing ? (
+                <DrawingReplay answerId={answer.answer_id} />
+              ) : answer.answer ? (
+                <div className="whitespace-pre-wrap rounded-lg border bg-muted/40 p-3 text-sm">
+                  {answer.answer}
+                </div>
+              ) : (
+                <pre className="overflow-x-auto rounded-lg border bg-muted/40 p-3 text-xs">
+                  {JSON.stringify(answer.answer_data, null, 2)}
+                </pre>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <Label>Skor per Dimensi</Label>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {answer.dimensions.map(({ dimension, max_score }) => (
+                  <div key={dimension} className="space-y-1">
+                    <Label
+                      htmlFor={`score-${dimension}`}
+                      className="text-xs text-muted-foreground"
+                    >
+                      {dimension} (0 - {max_score})
+                    </Label>
+                    <Input
+                      id={`score-${dimension}`}
+                      type="number"
+                      min={0}
+                      max={max_score}
+                      step="0.5"
+                      value={scores[dimension] ?? ""}
+                      onChange={(e) =>
+                        setScores((current) => ({
+                          ...current,
+                          [dimension]: e.target.value,
+                        }))
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rating-notes">Catatan</Label>
+                <Textarea
+                  id="rating-notes"
+                  rows={3}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Dasar penilaian, indikator yang muncul, dll."
+                />
+              </div>
+            </div>
+
+            {/* Penilaian lain baru tampil setelah memberi nilai sendiri */}
+            {answer.ratings.length > 0 ? (
+              <div className="space-y-2">
+                <Label>Penilaian</Label>
+                {answer.ratings.map((rating) => (
+                  <div
+                    key={rating.id}
+                    className="rounded-lg border p-3 text-sm space-y-1"
+                  >
+                    <div className="flex justify-between">
+                      <span className="font-medium">{rating.rater.name}</span>
+                      <span>Total {rating.score}</span>
+                    </div>
+                    <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+                      {Object.entries(rating.dimension_scores).map(
+                        ([dimension, score]) => (
+                          <span key={dimension}>
+                            {dimension}: {score}
+                          </span>
+                        )
+                      )}
+                    </div>
+                    {rating.notes && (
+                      <p className="text-xs italic">{rating.notes}</p>
+                    )}
+                  </div>
+                ))}
+                {answer.agreement && (
+                  <p
+                    className={`text-xs ${
+                      answer.agreement.within_tolerance
+                        ? "text-green-700"
+                        : "text-amber-700"
+                    }`}
+                  >
+                    Selisih terbesar antar penilai:{" "}
+                    {answer.agreement.max_difference}
+                    {answer.agreement.within_tolerance
+                      ? " (dalam toleransi)"
+                      : " (di luar toleransi)"}
+                  </p>
+                )}
+                {answer.final_score !== null && (
+                  <p className="text-sm font-medium">
+                    Skor akhir: {answer.final_score}
+                  </p>
+                )}
+              </div>
+            ) : (
+              answer.ratings_count > 0 && (
+                <div className="flex items-center gap-2 rounded-lg border p-3 text-xs text-muted-foreground">
+                  <EyeOff className="h-4 w-4" />
+                  Penilaian lain disembunyikan sampai Anda memberi nilai
+                </div>
+              )
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={onClose}>
+                Tutup
+              </Button>
+              <Button
+                className="gap-2"
+                onClick={handleSave}
+                disabled={!isComplete || rateAnswerMutation.isPending}
+              >
+                {rateAnswerMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4" />
+                )}
+                {answer.my_rating ? "Perbarui Nilai" : "Simpan Nilai"}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
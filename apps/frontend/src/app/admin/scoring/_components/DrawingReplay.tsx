@@ -0,0 +1,238 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Pause, Play, RotateCcw } from "lucide-react";
+import { useManualScoring } from "@/hooks/useManualScoring";
+import { clearDrawingCanvas, drawStroke } from "@/lib/drawing";
+import { DRAWING_HESITATION_MS, type DrawingReplayData } from "shared-types";
+
+interface DrawingReplayProps {
+  answerId: string;
+}
+
+const SPEED_OPTIONS = [1, 2, 4, 8];
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)} dtk`;
+
+// Paint everything drawn up to the given replay time
+function paintUntil(
+  context: CanvasRenderingContext2D,
+  replay: DrawingReplayData,
+  time: number
+) {
+  clearDrawingCanvas(context);
+  for (const stroke of replay.strokes) {
+    const pointCount = stroke.points.filter((point) => point[2] <= time).length;
+    if (pointCount === 0) break;
+    drawStroke(context, stroke, pointCount);
+  }
+}
+
+export default function DrawingReplay({ answerId }: DrawingReplayProps) {
+  const { useGetDrawingReplay, useGetDrawingImage } = useManualScoring();
+  const replayQuery = useGetDrawingReplay(answerId);
+  const replay = replayQuery.data?.data;
+
+  // Drawings saved before strokes were captured only have the stored image
+  const imageQuery = useGetDrawingImage(
+    answerId,
+    !!replay?.image_url && replay.strokes.length === 0
+  );
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!imageQuery.data) return;
+    const url = URL.createObjectURL(imageQuery.data);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [imageQuery.data]);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<number | null>(null);
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const duration = replay?.summary.total_duration || 0;
+
+  // Show the finished drawing until the replay is started
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context || !replay) return;
+    paintUntil(context, replay, duration);
+    setTime(duration);
+  }, [replay, duration]);
+
+  const stop = useCallback(() => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    setIsPlaying(false);
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  const play = () => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context || !replay) return;
+
+    const startTime = time >= duration ? 0 : time;
+    const startedAt = performance.now();
+    setIsPlaying(true);
+
+    const step = (now: number) => {
+      const current = Math.min(duration, startTime + (now - startedAt) * speed);
+      paintUntil(context, replay, current);
+      setTime(current);
+
+      if (current < duration) {
+        frameRef.current = requestAnimationFrame(step);
+      } else {
+        frameRef.current = null;
+        setIsPlaying(false);
+      }
+    };
+    frameRef.current = requestAnimationFrame(step);
+  };
+
+  const restart = () => {
+    stop();
+    const context = canvasRef.current?.getContext("2d");
+    if (context && replay) paintUntil(context, replay, 0);
+    setTime(0);
+  };
+
+  if (replayQuery.isLoading || imageQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!replay || replay.strokes.length === 0) {
+    return imageUrl ? (
+      <img
+        src={imageUrl}
+        alt="Gambar jawaban peserta"
+        className="w-full rounded border bg-white"
+      />
+    ) : (
+      <p className="rounded-lg border p-3 text-sm text-muted-foreground">
+        Data goresan gambar tidak tersedia
+      </p>
+    );
+  }
+
+  const currentStroke = replay.timeline.filter(
+    (stroke) => stroke.started_at <= time
+  ).length;
+
+  return (
+    <div className="space-y-3">
+      <canvas
+        ref={canvasRef}
+        width={replay.canvas.width}
+        height={replay.canvas.height}
+        className="w-full rounded border bg-white"
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        {isPlaying ? (
+          <Button type="button" variant="outline" size="sm" onClick={stop}>
+            <Pause className="h-4 w-4 mr-2" />
+            Jeda
+          </Button>
+        ) : (
+          <Button type="button" variant="outline" size="sm" onClick={play}>
+            <Play className="h-4 w-4 mr-2" />
+            Putar Ulang
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={restart}
+          disabled={time === 0}
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Dari Awal
+        </Button>
+        <Select
+          value={String(speed)}
+          onValueChange={(value) => setSpeed(Number(value))}
+          disabled={isPlaying}
+        >
+          <SelectTrigger className="w-[90px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SPEED_OPTIONS.map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                {option}x
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="ml-auto text-xs text-muted-foreground">
+          Goresan {currentStroke}/{replay.summary.stroke_count} •{" "}
+          {formatSeconds(time)} / {formatSeconds(duration)}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs sm:grid-cols-4">
+        <div className="rounded border p-2">
+          <p className="text-muted-foreground">Waktu menggambar</p>
+          <p className="font-medium">
+            {formatSeconds(replay.summary.drawing_time)}
+          </p>
+        </div>
+        <div className="rounded border p-2">
+          <p className="text-muted-foreground">Total jeda</p>
+          <p className="font-medium">
+            {formatSeconds(replay.summary.pause_time)}
+          </p>
+        </div>
+        <div className="rounded border p-2">
+          <p className="text-muted-foreground">Jeda terlama</p>
+          <p className="font-medium">
+            {formatSeconds(replay.summary.longest_pause)}
+          </p>
+        </div>
+        <div className="rounded border p-2">
+          <p className="text-muted-foreground">
+            Keraguan (≥ {DRAWING_HESITATION_MS / 1000} dtk)
+          </p>
+          <p className="font-medium">{replay.summary.hesitations}x</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {replay.timeline.map((stroke) => (
+          <Badge
+            key={stroke.index}
+            variant="outline"
+            className={
+              stroke.index > 0 && stroke.pause_before >= DRAWING_HESITATION_MS
+                ? "border-amber-300 bg-amber-50 text-amber-700"
+                : undefined
+            }
+            title={`Mulai ${formatSeconds(stroke.started_at)}, durasi ${formatSeconds(stroke.duration)}`}
+          >
+            #{stroke.index + 1}
+            {stroke.index > 0 && ` +${formatSeconds(stroke.pause_before)}`}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
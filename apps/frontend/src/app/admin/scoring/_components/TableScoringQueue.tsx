@@ -0,0 +1,171 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  PenLine,
+  RefreshCw,
+} from "lucide-react";
+import {
+  MANUAL_SCORING_STATUS_COLORS,
+  MANUAL_SCORING_STATUS_LABELS,
+  QUESTION_TYPE_LABELS,
+  type GetManualScoringQueueResponse,
+  type ManualScoringQueueItem,
+} from "shared-types";
+
+interface TableScoringQueueProps {
+  items: ManualScoringQueueItem[];
+  meta?: GetManualScoringQueueResponse["meta"];
+  isLoading: boolean;
+  error?: Error | null;
+  currentPage: number;
+  onPageChange: (page: number) => void;
+  onRefetch: () => void;
+  onOpenAnswer: (item: ManualScoringQueueItem) => void;
+}
+
+export default function TableScoringQueue({
+  items,
+  meta,
+  isLoading,
+  error,
+  currentPage,
+  onPageChange,
+  onRefetch,
+  onOpenAnswer,
+}: TableScoringQueueProps) {
+  // Format tanggal
+  const formatDate = (date: Date | string) =>
+    new Date(date).toLocaleDateString("id-ID", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Antrian Penilaian</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="flex flex-col items-center justify-center gap-3 py-12">
+            <AlertCircle className="h-8 w-8 text-red-500" />
+            <p className="text-sm text-muted-foreground">
+              Gagal memuat antrian penilaian: {error.message}
+            </p>
+            <Button variant="outline" size="sm" onClick={onRefetch}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Coba Lagi
+            </Button>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="py-12 text-center text-sm text-muted-foreground">
+            Tidak ada jawaban pada status ini
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Peserta</TableHead>
+                <TableHead>Tes</TableHead>
+                <TableHead>Soal</TableHead>
+                <TableHead>Dijawab</TableHead>
+                <TableHead>Penilai</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.answer_id}>
+                  <TableCell>
+                    <div className="font-medium">{item.participant.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {item.participant.email}
+                    </div>
+                  </TableCell>
+                  <TableCell>{item.test.name}</TableCell>
+                  <TableCell className="max-w-xs">
+                    <div className="line-clamp-1">
+                      {item.question.sequence}. {item.question.question}
+                    </div>
+                    <Badge variant="outline" className="mt-1 text-xs">
+                      {QUESTION_TYPE_LABELS[item.question.question_type]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{formatDate(item.answered_at)}</TableCell>
+                  <TableCell>
+                    {item.ratings_count}/{item.required_raters}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      className={MANUAL_SCORING_STATUS_COLORS[item.status]}
+                      variant="secondary"
+                    >
+                      {MANUAL_SCORING_STATUS_LABELS[item.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => onOpenAnswer(item)}
+                    >
+                      <PenLine className="h-4 w-4" />
+                      {item.rated_by_me ? "Lihat" : "Nilai"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {meta && meta.total_pages > 1 && (
+          <div className="flex items-center justify-between pt-4">
+            <p className="text-sm text-muted-foreground">
+              Halaman {meta.current_page} dari {meta.total_pages} ({meta.total}{" "}
+              jawaban)
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onPageChange(currentPage - 1)}
+                disabled={!meta.has_prev_page}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onPageChange(currentPage + 1)}
+                disabled={!meta.has_next_page}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
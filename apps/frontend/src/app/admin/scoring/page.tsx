@@ -0,0 +1,223 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CheckCircle2, Clock, RefreshCw, Users } from "lucide-react";
+import { useManualScoring } from "@/hooks/useManualScoring";
+import {
+  MANUAL_SCORING_QUESTION_TYPES,
+  MANUAL_SCORING_STATUS_LABELS,
+  QUESTION_TYPE_LABELS,
+  type ManualScoringQueueItem,
+  type ManualScoringStatus,
+} from "shared-types";
+
+import TableScoringQueue from "./_components/TableScoringQueue";
+import DialogRateAnswer from "./_components/DialogRateAnswer";
+
+type ManualScoringQuestionType = (typeof MANUAL_SCORING_QUESTION_TYPES)[number];
+
+const formatPercent = (value: number | null) =>
+  value === null ? "-" : `${value.toFixed(0)}%`;
+
+export default function AdminScoringPage() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] =
+    useState<ManualScoringStatus>("needs_rating");
+  const [typeFilter, setTypeFilter] = useState<string>("all");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [selectedItem, setSelectedItem] =
+    useState<ManualScoringQueueItem | null>(null);
+
+  const { useGetScoringQueue, useGetScoringAnswer, useGetRaterAgreement } =
+    useManualScoring();
+
+  const queueQuery = useGetScoringQueue({
+    page: currentPage,
+    limit: 10,
+    status: statusFilter,
+    search: searchTerm || undefined,
+    question_type:
+      typeFilter !== "all"
+        ? (typeFilter as ManualScoringQuestionType)
+        : undefined,
+  });
+  const answerQuery = useGetScoringAnswer(selectedItem?.answer_id || "");
+  const agreementQuery = useGetRaterAgreement();
+
+  const items = queueQuery.data?.data || [];
+  const summary = queueQuery.data?.summary;
+  const agreement = agreementQuery.data?.data;
+
+  const summaryCards = [
+    {
+      label: MANUAL_SCORING_STATUS_LABELS.needs_rating,
+      value: summary?.needs_rating,
+      icon: Clock,
+      className: "text-yellow-600",
+    },
+    {
+      label: MANUAL_SCORING_STATUS_LABELS.awaiting_rater,
+      value: summary?.awaiting_rater,
+      icon: Users,
+      className: "text-blue-600",
+    },
+    {
+      label: MANUAL_SCORING_STATUS_LABELS.scored,
+      value: summary?.scored,
+      icon: CheckCircle2,
+      className: "text-green-600",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">
+            Penilaian Manual
+          </h1>
+          <p className="text-muted-foreground max-w-2xl">
+            Jawaban isian, gambar dan tes proyektif dinilai oleh asesor per
+            dimensi. Hasil tes dihitung ulang setelah semua jawaban peserta
+            selesai dinilai. Tes dengan dua penilai menyembunyikan nilai penilai
+            lain sampai Anda memberi nilai sendiri.
+          </p>
+        </div>
+
+        <Button
+          variant="outline"
+          className="gap-2"
+          onClick={() => {
+            queueQuery.refetch();
+            agreementQuery.refetch();
+          }}
+          disabled={queueQuery.isFetching}
+        >
+          <RefreshCw
+            className={`h-4 w-4 ${queueQuery.isFetching ? "animate-spin" : ""}`}
+          />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        {summaryCards.map((card) => (
+          <Card key={card.label}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">
+                {card.label}
+              </CardTitle>
+              <card.icon className={`h-4 w-4 ${card.className}`} />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{card.value ?? "-"}</div>
+            </CardContent>
+          </Card>
+        ))}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">
+              Kesepakatan Antar Penilai
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatPercent(agreement?.overall.tolerance_agreement ?? null)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {agreement && agreement.double_rated_answers > 0
+                ? `${agreement.double_rated_answers} jawaban dinilai ganda • sama persis ${formatPercent(agreement.overall.exact_agreement)}${
+                    agreement.overall.correlation !== null
+                      ? ` • r = ${agreement.overall.correlation.toFixed(2)}`
+                      : ""
+                  }`
+                : "Belum ada jawaban yang dinilai ganda"}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filter Section */}
+      <div className="flex flex-col gap-3 md:flex-row">
+        <Input
+          placeholder="Cari nama atau email peserta..."
+          value={searchTerm}
+          onChange={(e) => {
+            setSearchTerm(e.target.value);
+            setCurrentPage(1);
+          }}
+          className="md:max-w-sm"
+        />
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => {
+            setStatusFilter(value as ManualScoringStatus);
+            setCurrentPage(1);
+          }}
+        >
+          <SelectTrigger className="md:w-56">
+            <SelectValue placeholder="Pilih Status" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(MANUAL_SCORING_STATUS_LABELS).map(
+              ([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              )
+            )}
+          </SelectContent>
+        </Select>
+        <Select
+          value={typeFilter}
+          onValueChange={(value) => {
+            setTypeFilter(value);
+            setCurrentPage(1);
+          }}
+        >
+          <SelectTrigger className="md:w-48">
+            <SelectValue placeholder="Tipe Soal" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Semua Tipe</SelectItem>
+            {MANUAL_SCORING_QUESTION_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                {QUESTION_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Table Section */}
+      <TableScoringQueue
+        items={items}
+        meta={queueQuery.data?.meta}
+        isLoading={queueQuery.isLoading}
+        error={queueQuery.error}
+        currentPage={currentPage}
+        onPageChange={setCurrentPage}
+        onRefetch={() => queueQuery.refetch()}
+        onOpenAnswer={setSelectedItem}
+      />
+
+      <DialogRateAnswer
+        answer={selectedItem ? answerQuery.data?.data || null : null}
+        isLoading={!!selectedItem && answerQuery.isLoading}
+        onClose={() => setSelectedItem(null)}
+      />
+    </div>
+  );
+}
@@ -44,6 +44,13 @@ import {
 import { toast } from "sonner";
 import { useQuestionDialogStore } from "@/stores/useQuestionDialogStore";
 import { useQuestions } from "@/hooks/useQuestions";
+import {
+  getScoringMethodsForQuestionType,
+  parseSequenceKey,
+  SCORING_METHOD_DESCRIPTIONS,
+  SCORING_METHOD_LABELS,
+  type ScoringMethod,
+} from "shared-types";
 
 // Question form schema
 const questionSchema = z.object({
@@ -83,6 +90,8 @@ const questionSchema = z.object({
     .optional()
     .or(z.literal("")),
   scoring_key: z.record(z.number()).optional(),
+  dimension: z.string().max(100, "Dimensi maksimal 100 karakter").optional(),
+  difficulty: z.enum(["none", "easy", "medium", "hard"]).optional(),
   is_required: z.boolean(),
   // Rating scale specific
   rating_min: z.number().optional(),
@@ -91,6 +100,10 @@ const questionSchema = z.object({
   rating_max_label: z.string().optional(),
   // Sequence specific
   sequence_items: z.array(z.string()).optional(),
+  // Partial credit for sequence and matrix questions
+  scoring_method: z
+    .enum(["exact", "position", "pairwise", "per_cell"])
+    .optional(),
 });
 
 type QuestionFormData = z.infer<typeof questionSchema>;
@@ -106,6 +119,14 @@ const QUESTION_TYPE_OPTIONS = [
   { value: "matrix", label: "Matriks", icon: "📊" },
 ] as const;
 
+// Item bank difficulty labels
+const DIFFICULTY_OPTIONS = [
+  { value: "none", label: "Tidak ditentukan" },
+  { value: "easy", label: "Mudah" },
+  { value: "medium", label: "Sedang" },
+  { value: "hard", label: "Sulit" },
+] as const;
+
 export function AddQuestionDialog() {
   const { isOpen, testId, editQuestionId, mode, closeDialog } =
     useQuestionDialogStore();
@@ -140,9 +161,12 @@ export function AddQuestionDialog() {
         { value: "B", label: "", score: 0 },
       ],
       correct_answer: "",
+      dimension: "",
+      difficulty: "none",
       is_required: true,
       sequence: 1,
       sequence_items: [],
+      scoring_method: "exact",
     },
   });
 
@@ -166,6 +190,9 @@ export function AddQuestionDialog() {
   });
 
   const watchedQuestionType = watch("question_type");
+  const watchedScoringMethod = watch("scoring_method");
+  const watchedCorrectAnswer = watch("correct_answer");
+  const scoringMethods = getScoringMethodsForQuestionType(watchedQuestionType);
 
   // Update option values when option fields change
   useEffect(() => {
@@ -179,6 +206,16 @@ export function AddQuestionDialog() {
   useEffect(() => {
     if (mode === "edit" && editQuestionQuery.data?.data) {
       const question = editQuestionQuery.data.data;
+      // Sequence items are authored in their correct order
+      const labelByValue = new Map(
+        (question.options || []).map((option) => [option.value, option.label])
+      );
+      const sequenceItems =
+        question.question_type === "sequence"
+          ? parseSequenceKey(question.correct_answer, question.options).map(
+              (value) => labelByValue.get(value) || value
+            )
+          : [];
       reset({
         question: question.question,
         question_type: question.question_type,
@@ -189,6 +226,10 @@ export function AddQuestionDialog() {
         image_url: question.image_url || "",
         audio_url: question.audio_url || "",
         is_required: question.is_required,
+        dimension: question.dimension || "",
+        difficulty: question.difficulty || "none",
+        sequence_items: sequenceItems,
+        scoring_method: question.scoring_rule?.method || "exact",
         // Add other fields as needed
       });
     }
@@ -226,7 +267,18 @@ export function AddQuestionDialog() {
         setValue("rating_max_label", "Sangat Setuju");
         break;
       case "sequence":
-        setValue("sequence_items", ["Item 1", "Item 2"]);
+        setValue("sequence_items", ["Item 1", "Item 2", "Item 3"]);
+        setValue("scoring_method", "exact");
+        break;
+      case "matrix":
+        setValue("options", [
+          { value: "A", label: "", score: 0 },
+          { value: "B", label: "", score: 0 },
+          { value: "C", label: "", score: 0 },
+          { value: "D", label: "", score: 0 },
+        ]);
+        setValue("correct_answer", "");
+        setValue("scoring_method", "exact");
         break;
     }
   };
@@ -256,6 +308,12 @@ export function AddQuestionDialog() {
         correct_answer: data.correct_answer || undefined,
         options: undefined as any,
         scoring_key: undefined as any,
+        scoring_rule: undefined as { method: ScoringMethod } | undefined,
+        dimension: data.dimension?.trim() || undefined,
+        difficulty:
+          data.difficulty && data.difficulty !== "none"
+            ? data.difficulty
+            : undefined,
       };
 
       // Handle type-specific data
@@ -289,14 +347,32 @@ export function AddQuestionDialog() {
           );
           break;
         case "sequence":
-          submissionData.options = data.sequence_items?.map((item, index) => {
-            const isCorrectAnswer = data.correct_answer === String(index + 1);
-            return {
-              value: String(index + 1),
-              label: item,
-              score: isCorrectAnswer ? 1 : 0, // 1 untuk urutan benar, 0 untuk salah
-            };
-          });
+          // Item disimpan sesuai urutan yang benar, peserta menerima acak
+          submissionData.options = data.sequence_items?.map((item, index) => ({
+            value: String(index + 1),
+            label: item,
+          }));
+          submissionData.correct_answer = submissionData.options
+            ?.map((option: { value: string }) => option.value)
+            .join(",");
+          submissionData.scoring_rule = {
+            method: data.scoring_method || "exact",
+          };
+          break;
+        case "matrix":
+          // Skor parsial pilihan hanya dipakai pada penilaian per sel
+          submissionData.options = data.options?.map((option) => ({
+            ...option,
+            score:
+              data.correct_answer === option.value
+                ? 1
+                : data.scoring_method === "per_cell"
+                  ? Math.max(0, Math.min(1, option.score || 0))
+                  : 0,
+          }));
+          submissionData.scoring_rule = {
+            method: data.scoring_method || "exact",
+          };
           break;
       }
 
@@ -306,7 +382,12 @@ export function AddQuestionDialog() {
       } else if (editQuestionId) {
         await updateQuestionMutation.mutateAsync({
           questionId: editQuestionId,
-          data: submissionData,
+          // Empty tags clear the stored ones
+          data: {
+            ...submissionData,
+            dimension: submissionData.dimension ?? null,
+            difficulty: submissionData.difficulty ?? null,
+          },
         });
       }
 
@@ -497,7 +578,8 @@ export function AddQuestionDialog() {
           </div>
 
           {/* Question Type Specific Fields */}
-          {watchedQuestionType === "multiple_choice" && (
+          {(watchedQuestionType === "multiple_choice" ||
+            watchedQuestionType === "matrix") && (
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <Label className="text-base font-semibold">
@@ -553,6 +635,24 @@ export function AddQuestionDialog() {
                       {...register(`options.${index}.label`)}
                       className="flex-1"
                     />
+                    {watchedQuestionType === "matrix" &&
+                      watchedScoringMethod === "per_cell" &&
+                      watchedCorrectAnswer !==
+                        String.fromCharCode(65 + index) && (
+                        <Input
+                          type="number"
+                          min="0"
+                          max="1"
+                          step="0.1"
+                          placeholder="Skor 0-1"
+                          title="Skor parsial untuk pilihan yang hampir benar"
+                          disabled={isSubmitting}
+                          {...register(`options.${index}.score`, {
+                            valueAsNumber: true,
+                          })}
+                          className="w-28"
+                        />
+                      )}
                     {optionFields.length > 2 && (
                       <Button
                         type="button"
@@ -656,7 +756,13 @@ export function AddQuestionDialog() {
           {watchedQuestionType === "sequence" && (
             <div className="space-y-4">
               <div className="flex items-center justify-between">
-                <Label className="text-base font-semibold">Item Urutan</Label>
+                <div>
+                  <Label className="text-base font-semibold">Item Urutan</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Tulis item sesuai urutan yang benar. Peserta akan menerima
+                    item dalam urutan acak.
+                  </p>
+                </div>
                 <Button
                   type="button"
                   variant="outline"
@@ -757,17 +863,99 @@ export function AddQuestionDialog() {
                 Pengaturan Matriks
               </Label>
               <p className="text-sm text-muted-foreground">
-                Soal matriks akan menyediakan grid untuk peserta mengisi
-                jawaban. Fitur ini akan dikembangkan lebih lanjut.
+                Peserta memilih satu sel jawaban dari pilihan di atas, tandai
+                sel yang benar. Soal yang diimpor juga dapat memakai kunci per
+                sel dalam format JSON, misalnya {'{"r3c3": "D"}'}.
               </p>
             </div>
           )}
 
+          {scoringMethods.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-base font-semibold">
+                Penilaian Parsial
+              </Label>
+              <Controller
+                name="scoring_method"
+                control={control}
+                render={({ field }) => (
+                  <Select
+                    value={field.value}
+                    onValueChange={field.onChange}
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Pilih metode penilaian" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {scoringMethods.map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {SCORING_METHOD_LABELS[method]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              {watchedScoringMethod && (
+                <p className="text-sm text-muted-foreground">
+                  {SCORING_METHOD_DESCRIPTIONS[watchedScoringMethod]}
+                </p>
+              )}
+            </div>
+          )}
+
           <Separator />
 
           {/* Question Settings */}
           <div className="space-y-4">
             <Label className="text-base font-semibold">Pengaturan Soal</Label>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="dimension">Dimensi (Bank Soal)</Label>
+                <Input
+                  id="dimension"
+                  placeholder="Contoh: verbal, numerik"
+                  disabled={isSubmitting}
+                  {...register("dimension")}
+                />
+                {errors.dimension && (
+                  <p className="text-sm text-red-600 flex items-center gap-1">
+                    <AlertCircle className="h-3 w-3" />
+                    {errors.dimension.message}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Tingkat Kesulitan</Label>
+                <Controller
+                  name="difficulty"
+                  control={control}
+                  render={({ field }) => (
+                    <Select
+                      value={field.value}
+                      onValueChange={field.onChange}
+                      disabled={isSubmitting}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Pilih tingkat kesulitan" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DIFFICULTY_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Dimensi dan tingkat kesulitan dipakai blueprint tes untuk menyusun
+              form paralel.
+            </p>
             <div className="flex items-center justify-between">
               <div className="space-y-1">
                 <Label htmlFor="is_required">Soal Wajib</Label>
@@ -82,6 +82,13 @@ const QUESTION_TYPE_LABELS = {
   matrix: "Matriks",
 } as const;
 
+// Item bank difficulty labels
+const DIFFICULTY_LABELS = {
+  easy: "Mudah",
+  medium: "Sedang",
+  hard: "Sulit",
+} as const;
+
 // Question type badge component
 const QuestionTypeBadge = ({
   type,
@@ -455,6 +462,22 @@ export function TestBankSoal({ testId, test }: TestBankSoalProps) {
                                       Audio
                                     </Badge>
                                   )}
+                                  {question.dimension && (
+                                    <Badge
+                                      variant="outline"
+                                      className="text-xs"
+                                    >
+                                      {question.dimension}
+                                    </Badge>
+                                  )}
+                                  {question.difficulty && (
+                                    <Badge
+                                      variant="outline"
+                                      className="text-xs"
+                                    >
+                                      {DIFFICULTY_LABELS[question.difficulty]}
+                                    </Badge>
+                                  )}
                                 </div>
                                 <p className="text-sm font-medium line-clamp-2">
                                   {question.question}
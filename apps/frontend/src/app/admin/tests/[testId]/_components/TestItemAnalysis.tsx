@@ -0,0 +1,294 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertCircle,
+  AlertTriangle,
+  Loader2,
+  RefreshCw,
+  Users,
+  FileText,
+  Gauge,
+} from "lucide-react";
+import { useTests } from "@/hooks/useTests";
+import {
+  ITEM_ANALYSIS_FLAG_LABELS,
+  ITEM_ANALYSIS_THRESHOLDS,
+  type ItemAnalysis,
+} from "shared-types";
+
+interface TestItemAnalysisProps {
+  testId: string;
+}
+
+// Keterangan reliabilitas menurut aturan umum untuk alpha
+const getAlphaLabel = (alpha: number) => {
+  if (alpha >= 0.9) return "Sangat baik";
+  if (alpha >= 0.8) return "Baik";
+  if (alpha >= 0.7) return "Cukup";
+  if (alpha >= 0.6) return "Dipertanyakan";
+  return "Rendah";
+};
+
+const formatNumber = (value: number | null, digits = 2) =>
+  value === null ? "-" : value.toFixed(digits);
+
+const isFlagged = (item: ItemAnalysis) =>
+  item.flags.some((flag) => flag !== "few_responses");
+
+export function TestItemAnalysis({ testId }: TestItemAnalysisProps) {
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+  const { useGetTestItemAnalysis } = useTests();
+  const analysisQuery = useGetTestItemAnalysis(testId);
+
+  if (analysisQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Loader2 className="size-8 animate-spin mx-auto mb-4 text-primary" />
+          <p className="text-muted-foreground">Memuat analisis butir...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (analysisQuery.error) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <AlertCircle className="size-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-red-600 mb-2">
+            Gagal Memuat Analisis Butir
+          </h3>
+          <p className="text-muted-foreground mb-4">
+            {analysisQuery.error.message ||
+              "Terjadi kesalahan saat memuat analisis butir"}
+          </p>
+          <Button onClick={() => analysisQuery.refetch()} variant="outline">
+            <RefreshCw className="size-4 mr-2" />
+            Coba Lagi
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const analysis = analysisQuery.data?.data;
+  if (!analysis) return null;
+
+  const { summary } = analysis;
+  const items = flaggedOnly ? analysis.items.filter(isFlagged) : analysis.items;
+
+  return (
+    <div className="space-y-6">
+      {/* Ringkasan */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <Users className="size-5 text-muted-foreground" />
+              <div>
+                <p className="text-2xl font-bold">{summary.respondents}</p>
+                <p className="text-xs text-muted-foreground">
+                  Peserta dengan hasil
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <FileText className="size-5 text-muted-foreground" />
+              <div>
+                <p className="text-2xl font-bold">{summary.scored_items}</p>
+                <p className="text-xs text-muted-foreground">
+                  Butir yang dinilai
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <Gauge className="size-5 text-muted-foreground" />
+              <div>
+                <p className="text-2xl font-bold">
+                  {formatNumber(summary.cronbach_alpha)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Cronbach&apos;s alpha
+                  {summary.cronbach_alpha !== null &&
+                    ` • ${getAlphaLabel(summary.cronbach_alpha)}`}
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <AlertTriangle className="size-5 text-amber-500" />
+              <div>
+                <p className="text-2xl font-bold">{summary.flagged_items}</p>
+                <p className="text-xs text-muted-foreground">
+                  Butir perlu ditinjau
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Analisis Butir Soal</CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Tanda muncul setelah minimal{" "}
+              {ITEM_ANALYSIS_THRESHOLDS.min_responses} respons per butir
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="flagged-only"
+                checked={flaggedOnly}
+                onCheckedChange={setFlaggedOnly}
+              />
+              <Label htmlFor="flagged-only">Hanya yang ditandai</Label>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => analysisQuery.refetch()}
+              disabled={analysisQuery.isFetching}
+            >
+              <RefreshCw className="size-4 mr-2" />
+              Muat Ulang
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {summary.respondents === 0 ? (
+            <div className="py-12 text-center text-sm text-muted-foreground">
+              Belum ada hasil tes yang bisa dianalisis
+            </div>
+          ) : items.length === 0 ? (
+            <div className="py-12 text-center text-sm text-muted-foreground">
+              Tidak ada butir yang ditandai
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">No</TableHead>
+                  <TableHead>Soal</TableHead>
+                  <TableHead className="text-right">Respons</TableHead>
+                  <TableHead className="text-right">
+                    Tingkat Kesukaran
+                  </TableHead>
+                  <TableHead className="text-right">Daya Beda</TableHead>
+                  <TableHead className="text-right">
+                    Alpha jika Dihapus
+                  </TableHead>
+                  <TableHead className="text-right">Rata-rata Waktu</TableHead>
+                  <TableHead>Tanda</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={item.question_id}>
+                    <TableCell>{item.sequence}</TableCell>
+                    <TableCell className="max-w-md">
+                      <div className="line-clamp-2 font-medium">
+                        {item.question}
+                      </div>
+                      {item.distractors.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+                          {item.distractors.map((option, index) => (
+                            <span
+                              key={option.value}
+                              className={
+                                option.is_key
+                                  ? "font-semibold text-green-700"
+                                  : undefined
+                              }
+                            >
+                              {String.fromCharCode(65 + index)}:{" "}
+                              {Math.round(option.proportion * 100)}%
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {item.responses}
+                      {item.omitted > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {item.omitted} kosong
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatNumber(item.p_value)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatNumber(item.point_biserial)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatNumber(item.alpha_if_deleted)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {item.average_time_taken !== null
+                        ? `${Math.round(item.average_time_taken)} dtk`
+                        : "-"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {!item.is_scored ? (
+                          <Badge variant="outline" className="text-xs">
+                            Tidak dinilai
+                          </Badge>
+                        ) : (
+                          item.flags.map((flag) => (
+                            <Badge
+                              key={flag}
+                              variant="secondary"
+                              className={
+                                flag === "few_responses"
+                                  ? "text-xs"
+                                  : "text-xs bg-amber-100 text-amber-700"
+                              }
+                            >
+                              {ITEM_ANALYSIS_FLAG_LABELS[flag]}
+                            </Badge>
+                          ))
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, PenLine, Save } from "lucide-react";
+import { toast } from "sonner";
+import { useManualScoring } from "@/hooks/useManualScoring";
+import { DEFAULT_MANUAL_SCORING_CONFIG } from "shared-types";
+
+interface TestManualScoringSettingsProps {
+  testId: string;
+}
+
+export function TestManualScoringSettings({
+  testId,
+}: TestManualScoringSettingsProps) {
+  const { useGetTestManualScoring, useUpdateTestManualScoring } =
+    useManualScoring();
+  const settingsQuery = useGetTestManualScoring(testId);
+  const updateMutation = useUpdateTestManualScoring();
+
+  const [requiredRaters, setRequiredRaters] = useState("1");
+  const [tolerance, setTolerance] = useState("1");
+
+  const settings = settingsQuery.data?.data;
+
+  useEffect(() => {
+    const config =
+      settings?.manual_scoring_config || DEFAULT_MANUAL_SCORING_CONFIG;
+    setRequiredRaters(String(config.required_raters));
+    setTolerance(String(config.agreement_tolerance));
+  }, [settings]);
+
+  // Hanya relevan untuk tes yang punya soal dinilai manual
+  if (!settings || settings.manual_items === 0) return null;
+
+  const toleranceValue = parseFloat(tolerance);
+
+  const handleSave = async () => {
+    try {
+      await updateMutation.mutateAsync({
+        testId,
+        data: {
+          manual_scoring_config: {
+            required_raters: parseInt(requiredRaters),
+            agreement_tolerance: toleranceValue,
+          },
+        },
+      });
+      toast.success("Pengaturan penilaian manual disimpan");
+    } catch (error: any) {
+      toast.error("Gagal menyimpan pengaturan", {
+        description: error.message || "Terjadi kesalahan saat menyimpan",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PenLine className="h-5 w-5" />
+          Penilaian Manual
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {settings.manual_items} soal pada tes ini dinilai oleh asesor
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-4 md:flex-row md:items-end">
+          <div className="space-y-2">
+            <Label>Jumlah Penilai per Jawaban</Label>
+            <Select value={requiredRaters} onValueChange={setRequiredRaters}>
+              <SelectTrigger className="md:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1 penilai</SelectItem>
+                <SelectItem value="2">2 penilai independen</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="agreement-tolerance">
+              Toleransi Selisih Antar Penilai
+            </Label>
+            <Input
+              id="agreement-tolerance"
+              type="number"
+              min={0}
+              step="0.5"
+              value={tolerance}
+              onChange={(e) => setTolerance(e.target.value)}
+              className="md:w-40"
+            />
+          </div>
+          <Button
+            className="gap-2"
+            onClick={handleSave}
+            disabled={
+              updateMutation.isPending ||
+              isNaN(toleranceValue) ||
+              toleranceValue < 0
+            }
+          >
+            {updateMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4" />
+            )}
+            Simpan
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
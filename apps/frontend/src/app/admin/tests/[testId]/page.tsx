@@ -14,11 +14,14 @@ import {
   RefreshCw,
   AlertCircle,
   Loader2,
+  Activity,
 } from "lucide-react";
 import Link from "next/link";
 import { useTests } from "@/hooks/useTests";
 import { TestOverview } from "./_components/TestOverview";
 import { TestBankSoal } from "./_components/TestBankSoal";
+import { TestItemAnalysis } from "./_components/TestItemAnalysis";
+import { TestManualScoringSettings } from "./_components/TestManualScoringSettings";
 
 // Module type labels mapping
 const MODULE_TYPE_LABELS = {
@@ -86,6 +89,7 @@ export default function TestDetailPage() {
     const urlTab = searchParams.get("tab");
     // Map URL tab names to internal tab names
     if (urlTab === "question") return "bank-soal";
+    if (urlTab === "item-analysis") return "analisis-butir";
     if (urlTab === "overview") return "overview";
     return "overview"; // default
   };
@@ -97,7 +101,12 @@ export default function TestDetailPage() {
     setActiveTab(value);
 
     // Map internal tab names to URL tab names
-    const urlTabName = value === "bank-soal" ? "question" : value;
+    const urlTabName =
+      value === "bank-soal"
+        ? "question"
+        : value === "analisis-butir"
+          ? "item-analysis"
+          : value;
 
     // Update URL with new tab parameter
     const newUrl = `/admin/tests/${testId}?tab=${urlTabName}`;
@@ -269,6 +278,13 @@ export default function TestDetailPage() {
               <BarChart3 className="h-4 w-4" />
               Bank Soal
             </TabsTrigger>
+            <TabsTrigger
+              value="analisis-butir"
+              className="flex items-center gap-2 px-8"
+            >
+              <Activity className="h-4 w-4" />
+              Analisis Butir
+            </TabsTrigger>
           </TabsList>
           <div className="w-full border-b border-border"></div>
         </div>
@@ -294,11 +310,16 @@ export default function TestDetailPage() {
               updated_by: test.updated_by ?? undefined,
             }}
           />
+          <TestManualScoringSettings testId={testId} />
         </TabsContent>
 
         <TabsContent value="bank-soal" className="space-y-6">
           <TestBankSoal testId={testId} test={test} />
         </TabsContent>
+
+        <TabsContent value="analisis-butir" className="space-y-6">
+          <TestItemAnalysis testId={testId} />
+        </TabsContent>
       </Tabs>
     </div>
   );
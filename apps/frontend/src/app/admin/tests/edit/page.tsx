@@ -75,6 +75,8 @@ export default function EditTestPage() {
         passing_score: test.passing_score || 0,
         display_order: test.display_order || 0,
         status: test.status || "active",
+        shuffle_questions: test.shuffle_questions ?? false,
+        shuffle_options: test.shuffle_options ?? false,
       });
 
       setInitialDataLoaded(true);
@@ -148,6 +150,10 @@ export default function EditTestPage() {
       }
       if (data.status !== (originalData?.status || "active"))
         changedData.status = data.status;
+      if (data.shuffle_questions !== (originalData?.shuffle_questions ?? false))
+        changedData.shuffle_questions = data.shuffle_questions;
+      if (data.shuffle_options !== (originalData?.shuffle_options ?? false))
+        changedData.shuffle_options = data.shuffle_options;
 
       // Check if there are any changes
       if (Object.keys(changedData).length === 0) {
@@ -36,6 +36,7 @@ import {
 import { EmojiPicker } from "@/components/ui/emoji-picker";
 import { ColorPicker } from "@/components/ui/color-picker";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 
 interface FormNewTestProps {
   form: UseFormReturn<any>;
@@ -423,6 +424,50 @@ export function FormNewTest({
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="shuffle_questions"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                    <div className="space-y-1">
+                      <FormLabel>Acak Urutan Soal</FormLabel>
+                      <FormDescription>
+                        Setiap peserta mendapat urutan soal yang berbeda
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="shuffle_options"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                    <div className="space-y-1">
+                      <FormLabel>Acak Urutan Pilihan</FormLabel>
+                      <FormDescription>
+                        Pilihan jawaban diacak untuk soal pilihan ganda, urutan,
+                        dan matriks
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
             </CardContent>
           </Card>
 
@@ -35,6 +35,8 @@ export default function CreateTestPage() {
       passing_score: 0,
       display_order: 0,
       status: "active",
+      shuffle_questions: false,
+      shuffle_options: false,
     },
     mode: "onChange",
   });
@@ -0,0 +1,766 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  FileSpreadsheet,
+  Loader2,
+  RefreshCw,
+  Save,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { toast } from "sonner";
+import { useModalStore } from "@/stores/useModalStore";
+import { useUsers } from "@/hooks/useUsers";
+import {
+  BULK_CONSTANTS,
+  IMPORT_CONFLICT_POLICY_LABELS,
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  IMPORT_MODE_LABELS,
+  IMPORT_ROW_STATUS_LABELS,
+  REQUIRED_IMPORT_FIELDS,
+  getImportFileFormat,
+  type BulkConflictPolicy,
+  type BulkImportMode,
+  type ImportColumnMapping,
+  type ImportRowStatus,
+  type UserImportRequest,
+  type UserImportResponse,
+} from "shared-types";
+
+const NOT_MAPPED = "__none__";
+const AUTO_PROFILE = "__auto__";
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  valid: "border-green-300 bg-green-50 text-green-700",
+  created: "border-green-300 bg-green-50 text-green-700",
+  update: "border-blue-300 bg-blue-50 text-blue-700",
+  updated: "border-blue-300 bg-blue-50 text-blue-700",
+  unchanged: "border-gray-300 bg-gray-50 text-gray-600",
+  invalid: "border-red-300 bg-red-50 text-red-700",
+  failed: "border-red-300 bg-red-50 text-red-700",
+  duplicate: "border-amber-300 bg-amber-50 text-amber-700",
+  exists: "border-amber-300 bg-amber-50 text-amber-700",
+  skipped: "border-gray-300 bg-gray-50 text-gray-600",
+};
+
+interface UploadedFile {
+  name: string;
+  content: string; // CSV text, or the workbook as base64
+}
+
+// CSV is sent as text, XLSX as base64 of the workbook
+function readUploadedFile(file: File): Promise<UploadedFile> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    const isXlsx = getImportFileFormat(file.name) === "xlsx";
+
+    reader.onload = () => {
+      const result = String(reader.result || "");
+      resolve({
+        name: file.name,
+        content: isXlsx ? result.substring(result.indexOf(",") + 1) : result,
+      });
+    };
+    reader.onerror = () => reject(reader.error);
+
+    if (isXlsx) reader.readAsDataURL(file);
+    else reader.readAsText(file);
+  });
+}
+
+export function ImportUserDialog() {
+  const { isImportUserModalOpen, closeImportUserModal } = useModalStore();
+  const {
+    useImportUsers,
+    useGetImportProfiles,
+    useCreateImportProfile,
+    useUpdateImportProfile,
+    useDeleteImportProfile,
+  } = useUsers();
+
+  const importMutation = useImportUsers();
+  const profilesQuery = useGetImportProfiles(isImportUserModalOpen);
+  const createProfileMutation = useCreateImportProfile();
+  const updateProfileMutation = useUpdateImportProfile();
+  const deleteProfileMutation = useDeleteImportProfile();
+  const profiles = profilesQuery.data?.data || [];
+
+  const [file, setFile] = useState<UploadedFile | null>(null);
+  const [profileId, setProfileId] = useState<string>(AUTO_PROFILE);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [sheetName, setSheetName] = useState<string | undefined>();
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [mode, setMode] = useState<BulkImportMode>("create");
+  const [conflictPolicy, setConflictPolicy] =
+    useState<BulkConflictPolicy>("fill_empty");
+  const [preview, setPreview] = useState<UserImportResponse["data"] | null>(
+    null
+  );
+  const [profileName, setProfileName] = useState("");
+
+  // Start over every time the dialog opens
+  useEffect(() => {
+    if (isImportUserModalOpen) {
+      setFile(null);
+      setProfileId(AUTO_PROFILE);
+      setMapping(null);
+      setSheetName(undefined);
+      setPreview(null);
+      setProfileName("");
+      setMode("create");
+      setConflictPolicy("fill_empty");
+    }
+  }, [isImportUserModalOpen]);
+
+  const importOptions: UserImportRequest["options"] = {
+    skip_duplicates: skipDuplicates,
+    default_role: "participant",
+    mode,
+    conflict_policy: conflictPolicy,
+  };
+
+  const buildRequest = (
+    dryRun: boolean,
+    overrides: Partial<UserImportRequest> = {}
+  ): UserImportRequest | null => {
+    if (!file) return null;
+    return {
+      file_name: file.name,
+      file_content: file.content,
+      ...(profileId !== AUTO_PROFILE && { profile_id: profileId }),
+      ...(mapping && { column_mapping: mapping }),
+      ...(sheetName && { sheet_name: sheetName }),
+      dry_run: dryRun,
+      options: importOptions,
+      ...overrides,
+    };
+  };
+
+  const runPreview = async (overrides: Partial<UserImportRequest> = {}) => {
+    const request = buildRequest(true, overrides);
+    if (!request) return;
+
+    try {
+      const response = await importMutation.mutateAsync(request);
+      setPreview(response.data);
+      setMapping(response.data.column_mapping);
+      setSheetName(response.data.file_info.sheet_name || undefined);
+    } catch (error: any) {
+      toast.error("Gagal membaca file", {
+        description: error.message || "Periksa format file yang diunggah",
+      });
+    }
+  };
+
+  // The preview runs as soon as a file is chosen, so an explicit request
+  // is passed instead of waiting for the state update
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+
+    if (!getImportFileFormat(selected.name)) {
+      toast.error("Format file tidak didukung", {
+        description: `Gunakan file ${BULK_CONSTANTS.SUPPORTED_IMPORT_FORMATS.join(" atau ")}`,
+      });
+      return;
+    }
+    if (selected.size > BULK_CONSTANTS.MAX_FILE_SIZE) {
+      toast.error("Ukuran file terlalu besar", {
+        description: "Maksimal 10MB per file",
+      });
+      return;
+    }
+
+    const uploaded = await readUploadedFile(selected);
+    setFile(uploaded);
+    setMapping(null);
+    setSheetName(undefined);
+
+    try {
+      const response = await importMutation.mutateAsync({
+        file_name: uploaded.name,
+        file_content: uploaded.content,
+        ...(profileId !== AUTO_PROFILE && { profile_id: profileId }),
+        dry_run: true,
+        options: importOptions,
+      });
+      setPreview(response.data);
+      setMapping(response.data.column_mapping);
+      setSheetName(response.data.file_info.sheet_name || undefined);
+    } catch (error: any) {
+      setPreview(null);
+      toast.error("Gagal membaca file", {
+        description: error.message || "Periksa format file yang diunggah",
+      });
+    }
+  };
+
+  const handleProfileChange = (value: string) => {
+    setProfileId(value);
+    const profile = profiles.find((item) => item.id === value);
+    setProfileName(profile?.name || "");
+    if (!file) return;
+
+    // A chosen profile replaces the current mapping, auto starts from
+    // the header suggestions again
+    setMapping(null);
+    runPreview({
+      profile_id: value === AUTO_PROFILE ? undefined : value,
+      column_mapping: undefined,
+      sheet_name: profile?.sheet_name || undefined,
+    });
+  };
+
+  const handleMappingChange = (
+    field: keyof ImportColumnMapping,
+    header: string
+  ) => {
+    setMapping((current) => {
+      const next = { ...(current || {}) };
+      if (header === NOT_MAPPED) delete next[field];
+      else next[field] = header;
+      return next;
+    });
+  };
+
+  const handleSaveProfile = async () => {
+    if (!mapping || !profileName.trim()) return;
+
+    const profileData = {
+      name: profileName.trim(),
+      column_mapping: mapping,
+      ...(sheetName && { sheet_name: sheetName }),
+      ...(preview && { header_row: preview.file_info.header_row }),
+    };
+
+    try {
+      if (profileId !== AUTO_PROFILE) {
+        await updateProfileMutation.mutateAsync({
+          id: profileId,
+          data: profileData,
+        });
+        toast.success("Profil impor diperbarui");
+      } else {
+        const response = await createProfileMutation.mutateAsync(profileData);
+        setProfileId(response.data.id);
+        toast.success("Profil impor disimpan", {
+          description: `Gunakan profil "${response.data.name}" untuk file berikutnya`,
+        });
+      }
+    } catch (error: any) {
+      toast.error("Gagal menyimpan profil impor", {
+        description: error.message,
+      });
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (profileId === AUTO_PROFILE) return;
+    try {
+      await deleteProfileMutation.mutateAsync(profileId);
+      setProfileId(AUTO_PROFILE);
+      setProfileName("");
+      toast.success("Profil impor dihapus");
+    } catch (error: any) {
+      toast.error("Gagal menghapus profil impor", {
+        description: error.message,
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    const request = buildRequest(false);
+    if (!request) return;
+
+    try {
+      const response = await importMutation.mutateAsync(request);
+      const { summary } = response.data;
+      const failed =
+        summary.total_rows -
+        summary.created -
+        summary.updated -
+        summary.unchanged_rows -
+        summary.skipped;
+      toast.success("Impor peserta selesai", {
+        description: `${summary.created} peserta dibuat, ${summary.updated} diperbarui, ${summary.skipped} dilewati, ${failed} gagal`,
+        duration: 8000,
+      });
+      closeImportUserModal();
+    } catch (error: any) {
+      toast.error("Gagal mengimpor peserta", {
+        description: error.message || "Tidak ada peserta yang berhasil dibuat",
+        duration: 8000,
+      });
+    }
+  };
+
+  const missingRequired = REQUIRED_IMPORT_FIELDS.filter(
+    (field) => !mapping?.[field]
+  );
+  const suggestionScores = new Map(
+    (preview?.suggestions || []).map((suggestion) => [
+      suggestion.field,
+      suggestion,
+    ])
+  );
+  const isBusy = importMutation.isPending;
+  const rowsToApply = preview
+    ? preview.summary.valid_rows + preview.summary.update_rows
+    : 0;
+
+  const handleOptionsChange = (
+    options: Partial<NonNullable<UserImportRequest["options"]>>
+  ) => {
+    if (options.mode) setMode(options.mode);
+    if (options.conflict_policy) setConflictPolicy(options.conflict_policy);
+    if (options.skip_duplicates !== undefined) {
+      setSkipDuplicates(options.skip_duplicates);
+    }
+    if (file) runPreview({ options: { ...importOptions, ...options } });
+  };
+
+  return (
+    <Dialog open={isImportUserModalOpen} onOpenChange={closeImportUserModal}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Import Data Peserta
+          </DialogTitle>
+          <DialogDescription>
+            Unggah file CSV atau Excel (.xlsx), sesuaikan pemetaan kolom, lalu
+            periksa pratinjau setiap baris sebelum peserta dibuat
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* File & Profile */}
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File peserta</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept={BULK_CONSTANTS.SUPPORTED_IMPORT_FORMATS.join(",")}
+                onChange={handleFileChange}
+                disabled={isBusy}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Profil impor</Label>
+              <div className="flex gap-2">
+                <Select
+                  value={profileId}
+                  onValueChange={handleProfileChange}
+                  disabled={isBusy}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO_PROFILE}>
+                      Deteksi otomatis
+                    </SelectItem>
+                    {profiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>
+                        {profile.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {profileId !== AUTO_PROFILE && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    onClick={handleDeleteProfile}
+                    disabled={deleteProfileMutation.isPending}
+                    title="Hapus profil"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Mode impor</Label>
+              <Select
+                value={mode}
+                onValueChange={(value) =>
+                  handleOptionsChange({ mode: value as BulkImportMode })
+                }
+                disabled={isBusy}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(IMPORT_MODE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {mode === "upsert" && (
+              <div className="space-y-2">
+                <Label>Jika data berbeda</Label>
+                <Select
+                  value={conflictPolicy}
+                  onValueChange={(value) =>
+                    handleOptionsChange({
+                      conflict_policy: value as BulkConflictPolicy,
+                    })
+                  }
+                  disabled={isBusy}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(IMPORT_CONFLICT_POLICY_LABELS).map(
+                      ([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="skip-duplicates"
+              checked={skipDuplicates}
+              onCheckedChange={(checked) =>
+                handleOptionsChange({ skip_duplicates: checked === true })
+              }
+            />
+            <Label htmlFor="skip-duplicates" className="font-normal">
+              {mode === "upsert"
+                ? "Lewati baris yang duplikat atau bentrok dengan peserta lain"
+                : "Lewati peserta yang sudah terdaftar atau duplikat di file"}
+            </Label>
+          </div>
+
+          {isBusy && !preview && (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {preview && (
+            <>
+              {/* Sheet */}
+              {preview.file_info.sheet_names.length > 1 && (
+                <div className="space-y-2">
+                  <Label>Sheet</Label>
+                  <Select
+                    value={sheetName}
+                    onValueChange={(value) => {
+                      setSheetName(value);
+                      setMapping(null);
+                      runPreview({
+                        sheet_name: value,
+                        column_mapping: undefined,
+                      });
+                    }}
+                  >
+                    <SelectTrigger className="w-[240px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {preview.file_info.sheet_names.map((name) => (
+                        <SelectItem key={name} value={name}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {/* Column Mapping */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium">Pemetaan Kolom</h4>
+                  <span className="text-xs text-muted-foreground">
+                    Header di baris {preview.file_info.header_row} •{" "}
+                    {preview.file_info.data_rows} baris data
+                  </span>
+                </div>
+                <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                  {IMPORT_FIELDS.map((field) => {
+                    const suggestion = suggestionScores.get(field);
+                    const isRequired = (
+                      REQUIRED_IMPORT_FIELDS as readonly string[]
+                    ).includes(field);
+                    return (
+                      <div key={field} className="space-y-1">
+                        <Label className="text-xs">
+                          {IMPORT_FIELD_LABELS[field]}
+                          {isRequired && (
+                            <span className="text-red-500"> *</span>
+                          )}
+                        </Label>
+                        <Select
+                          value={mapping?.[field] || NOT_MAPPED}
+                          onValueChange={(value) =>
+                            handleMappingChange(field, value)
+                          }
+                        >
+                          <SelectTrigger className="h-8 text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NOT_MAPPED}>
+                              — Tidak dipetakan —
+                            </SelectItem>
+                            {preview.file_info.headers.map((header) => (
+                              <SelectItem key={header} value={header}>
+                                {header}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {suggestion?.header &&
+                          suggestion.header !== mapping?.[field] && (
+                            <button
+                              type="button"
+                              className="text-xs text-blue-600 hover:underline"
+                              onClick={() =>
+                                handleMappingChange(field, suggestion.header!)
+                              }
+                            >
+                              Saran: {suggestion.header} (
+                              {Math.round(suggestion.score * 100)}%)
+                            </button>
+                          )}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="flex flex-wrap items-end gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => runPreview()}
+                    disabled={isBusy}
+                  >
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Perbarui Pratinjau
+                  </Button>
+                  <div className="ml-auto flex items-end gap-2">
+                    <Input
+                      placeholder="Nama profil, mis. Format PT ABC"
+                      value={profileName}
+                      onChange={(event) => setProfileName(event.target.value)}
+                      className="h-9 w-[240px]"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={handleSaveProfile}
+                      disabled={
+                        !profileName.trim() ||
+                        missingRequired.length > 0 ||
+                        createProfileMutation.isPending ||
+                        updateProfileMutation.isPending
+                      }
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      {profileId !== AUTO_PROFILE
+                        ? "Perbarui Profil"
+                        : "Simpan Profil"}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+
+              {/* Summary */}
+              <div className="grid grid-cols-2 gap-2 text-sm sm:grid-cols-5">
+                <div className="rounded border p-2">
+                  <p className="text-xs text-muted-foreground">Siap diimpor</p>
+                  <p className="font-semibold text-green-700">
+                    {preview.summary.valid_rows}
+                  </p>
+                </div>
+                <div className="rounded border p-2">
+                  <p className="text-xs text-muted-foreground">
+                    Akan diperbarui
+                  </p>
+                  <p className="font-semibold text-blue-700">
+                    {preview.summary.update_rows}
+                  </p>
+                </div>
+                <div className="rounded border p-2">
+                  <p className="text-xs text-muted-foreground">Tidak valid</p>
+                  <p className="font-semibold text-red-700">
+                    {preview.summary.invalid_rows}
+                  </p>
+                </div>
+                <div className="rounded border p-2">
+                  <p className="text-xs text-muted-foreground">
+                    Duplikat / terdaftar
+                  </p>
+                  <p className="font-semibold text-amber-700">
+                    {preview.summary.duplicate_rows +
+                      preview.summary.existing_rows}
+                  </p>
+                </div>
+                <div className="rounded border p-2">
+                  <p className="text-xs text-muted-foreground">Dilewati</p>
+                  <p className="font-semibold">{preview.summary.skipped}</p>
+                </div>
+              </div>
+
+              {/* Row Preview */}
+              <div className="max-h-[320px] overflow-y-auto rounded border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[60px]">Baris</TableHead>
+                      <TableHead>NIK</TableHead>
+                      <TableHead>Nama</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Keterangan</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row) => (
+                      <TableRow key={row.row_number}>
+                        <TableCell>{row.row_number}</TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {row.nik || "-"}
+                        </TableCell>
+                        <TableCell>{row.name || "-"}</TableCell>
+                        <TableCell className="text-xs">
+                          {row.email || "-"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="outline"
+                            className={STATUS_STYLES[row.status]}
+                          >
+                            {IMPORT_ROW_STATUS_LABELS[row.status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {row.errors
+                            .map((error) =>
+                              error.field
+                                ? `${error.field}: ${error.message}`
+                                : error.message
+                            )
+                            .join("; ")}
+                          {row.changes?.map((change) => (
+                            <div key={change.field}>
+                              <span className="font-medium text-foreground">
+                                {IMPORT_FIELD_LABELS[
+                                  change.field as keyof typeof IMPORT_FIELD_LABELS
+                                ] || change.field}
+                                :
+                              </span>{" "}
+                              <span className="line-through">
+                                {change.old_value || "(kosong)"}
+                              </span>{" "}
+                              → {change.new_value}
+                            </div>
+                          ))}
+                          {row.warnings?.map((warning) => (
+                            <div key={warning.field} className="text-amber-600">
+                              {IMPORT_FIELD_LABELS[warning.field]} tidak sesuai
+                              dengan NIK ({warning.nik_value})
+                            </div>
+                          ))}
+                          {row.prefilled && row.prefilled.length > 0 && (
+                            <div>
+                              Diisi dari NIK:{" "}
+                              {row.prefilled
+                                .map((field) => IMPORT_FIELD_LABELS[field])
+                                .join(", ")}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex flex-col sm:flex-row gap-2 pt-2">
+            <Button
+              variant="outline"
+              onClick={closeImportUserModal}
+              className="flex-1"
+            >
+              Batal
+            </Button>
+            <Button
+              onClick={handleImport}
+              className="flex-1 gap-2"
+              disabled={
+                !preview ||
+                isBusy ||
+                missingRequired.length > 0 ||
+                rowsToApply === 0
+              }
+            >
+              {isBusy ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4" />
+              )}
+              Impor {rowsToApply} Peserta
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
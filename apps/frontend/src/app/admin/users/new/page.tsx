@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -38,7 +39,15 @@ import {
 } from "@/components/ui/card";
 import { toast } from "sonner";
 import { useUsers } from "@/hooks/useUsers";
+import { useRegions } from "@/hooks/useRegions";
 import { cn } from "@/lib/utils";
+import {
+  findProvince,
+  getNikMismatches,
+  getNikProfileDefaults,
+  parseNik,
+  type NikProfileField,
+} from "shared-types";
 
 // Form schema (before transformation)
 const createUserFormSchema = z.object({
@@ -55,7 +64,13 @@ const createUserFormSchema = z.object({
     .max(255, "Email terlalu panjang"),
 
   // Conditional fields
-  nik: z.string().optional(),
+  nik: z
+    .string()
+    .optional()
+    .refine(
+      (nik) => !nik || parseNik(nik.trim()).valid,
+      "NIK tidak valid, periksa kembali 16 digit NIK"
+    ),
 
   // Profile fields
   gender: z.enum(["male", "female", "other"]).optional(),
@@ -86,6 +101,17 @@ const createUserFormSchema = z.object({
 
 type CreateUserFormData = z.infer<typeof createUserFormSchema>;
 
+const NIK_FIELD_LABELS: Record<NikProfileField, string> = {
+  birth_date: "Tanggal lahir",
+  gender: "Jenis kelamin",
+  province: "Provinsi",
+};
+
+const NIK_GENDER_LABELS: Record<string, string> = {
+  male: "Laki-laki",
+  female: "Perempuan",
+};
+
 export default function CreateUserPage() {
   const router = useRouter();
 
@@ -100,6 +126,7 @@ export default function CreateUserPage() {
     clearErrors,
     watch,
     reset,
+    setValue,
   } = useForm<CreateUserFormData>({
     resolver: zodResolver(createUserFormSchema),
     mode: "onChange",
@@ -125,6 +152,33 @@ export default function CreateUserPage() {
   // Watch form values
   const watchedValues = watch();
 
+  // Regencies follow the chosen province
+  const { useGetProvinces, useGetRegencies } = useRegions();
+  const provincesQuery = useGetProvinces();
+  const selectedProvince = findProvince(watchedValues.province);
+  const regenciesQuery = useGetRegencies(selectedProvince?.code);
+
+  // Data encoded in the NIK, and the filled in fields it disagrees with
+  const nikResult = watchedValues.nik
+    ? parseNik(watchedValues.nik.trim())
+    : null;
+  const nikInfo = nikResult?.valid ? nikResult.info : null;
+  const nikMismatches = nikInfo ? getNikMismatches(nikInfo, watchedValues) : [];
+
+  // Fill empty profile fields once a valid NIK is entered. "other" is the
+  // form's default gender, so it counts as not chosen yet.
+  useEffect(() => {
+    if (!nikInfo) return;
+
+    const defaults = getNikProfileDefaults(nikInfo, {
+      ...watchedValues,
+      gender: watchedValues.gender === "other" ? null : watchedValues.gender,
+    });
+    if (defaults.gender) setValue("gender", defaults.gender);
+    if (defaults.birth_date) setValue("birth_date", defaults.birth_date);
+    if (defaults.province) setValue("province", defaults.province);
+  }, [nikInfo?.nik]);
+
   const onSubmit = async (data: CreateUserFormData) => {
     try {
       clearErrors();
@@ -370,6 +424,19 @@ export default function CreateUserPage() {
                       {errors.nik.message}
                     </p>
                   )}
+                  {nikMismatches.map((mismatch) => (
+                    <p
+                      key={mismatch.field}
+                      className="text-sm text-amber-600 flex items-center gap-1"
+                    >
+                      <AlertCircle className="size-3" />
+                      {NIK_FIELD_LABELS[mismatch.field]} tidak sesuai dengan NIK
+                      (
+                      {NIK_GENDER_LABELS[mismatch.nik_value] ||
+                        mismatch.nik_value}
+                      )
+                    </p>
+                  ))}
                 </div>
               </div>
 
@@ -570,17 +637,32 @@ export default function CreateUserPage() {
                 {/* Province */}
                 <div className="space-y-2">
                   <Label htmlFor="province">Provinsi</Label>
-                  <Input
-                    id="province"
-                    type="text"
-                    placeholder="DKI Jakarta"
-                    disabled={isLoading}
-                    {...register("province")}
-                    className={cn(
-                      errors.province &&
-                        "border-red-500 focus-visible:ring-red-500"
-                    )}
-                  />
+                  <Select
+                    value={selectedProvince?.name ?? ""}
+                    onValueChange={(value) => {
+                      setValue("province", value, { shouldValidate: true });
+                      setValue("regency", "");
+                    }}
+                    disabled={isLoading || provincesQuery.isLoading}
+                  >
+                    <SelectTrigger
+                      id="province"
+                      className={cn(
+                        "w-full",
+                        errors.province &&
+                          "border-red-500 focus-visible:ring-red-500"
+                      )}
+                    >
+                      <SelectValue placeholder="Pilih provinsi" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {provincesQuery.data?.data.map((province) => (
+                        <SelectItem key={province.code} value={province.name}>
+                          {province.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   {errors.province && (
                     <p className="text-sm text-red-600 flex items-center gap-1">
                       <AlertCircle className="size-3" />
@@ -592,17 +674,39 @@ export default function CreateUserPage() {
                 {/* Regency */}
                 <div className="space-y-2">
                   <Label htmlFor="regency">Kabupaten/Kota</Label>
-                  <Input
-                    id="regency"
-                    type="text"
-                    placeholder="Jakarta Selatan"
-                    disabled={isLoading}
-                    {...register("regency")}
-                    className={cn(
-                      errors.regency &&
-                        "border-red-500 focus-visible:ring-red-500"
-                    )}
-                  />
+                  <Select
+                    value={watchedValues.regency || ""}
+                    onValueChange={(value) =>
+                      setValue("regency", value, { shouldValidate: true })
+                    }
+                    disabled={
+                      isLoading || !selectedProvince || regenciesQuery.isLoading
+                    }
+                  >
+                    <SelectTrigger
+                      id="regency"
+                      className={cn(
+                        "w-full",
+                        errors.regency &&
+                          "border-red-500 focus-visible:ring-red-500"
+                      )}
+                    >
+                      <SelectValue
+                        placeholder={
+                          selectedProvince
+                            ? "Pilih kabupaten/kota"
+                            : "Pilih provinsi terlebih dahulu"
+                        }
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {regenciesQuery.data?.data.regencies.map((regency) => (
+                        <SelectItem key={regency.code} value={regency.name}>
+                          {regency.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   {errors.regency && (
                     <p className="text-sm text-red-600 flex items-center gap-1">
                       <AlertCircle className="size-3" />
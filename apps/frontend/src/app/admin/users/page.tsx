@@ -12,9 +12,11 @@ import { CardAnalyticsUser } from "./_components/CardAnalyticsUser";
 import { FilterUser } from "./_components/FilterUser";
 import { TableUser } from "./_components/TableUser";
 import { DeleteUserDialog } from "./_components/DeleteUserDialog";
+import { ImportUserDialog } from "./_components/ImportUserDialog";
 
 export default function UsersManagementPage() {
-  const { openCreateUserModal, openEditUserModal } = useModalStore();
+  const { openCreateUserModal, openEditUserModal, openImportUserModal } =
+    useModalStore();
 
   // Filter states
   const [filters, setFilters] = useState<GetUsersRequest>({
@@ -76,7 +78,11 @@ export default function UsersManagementPage() {
           </p>
         </div>
         <div className="flex gap-2">
-          <Button variant="outline" className="gap-2">
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={openImportUserModal}
+          >
             <Download className="h-4 w-4" />
             Import Data Peserta
           </Button>
@@ -108,6 +114,7 @@ export default function UsersManagementPage() {
       <CreateUserDialog />
       <UpdateUserDialog />
       <DeleteUserDialog />
+      <ImportUserDialog />
     </div>
   );
 }
@@ -0,0 +1,124 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { CheckCircle, Clock, Lock, Play, PlayCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { ActiveSession } from "@/hooks/useDashboard";
+import {
+  MODULE_ACCESS_STATUS_LABELS,
+  type ModuleAccessStatus,
+  type SessionModuleAccess,
+} from "shared-types";
+
+const STATUS_STYLES: Record<ModuleAccessStatus, string> = {
+  locked: "bg-gray-100 text-gray-600",
+  available: "bg-blue-100 text-blue-800",
+  in_progress: "bg-yellow-100 text-yellow-800",
+  completed: "bg-green-100 text-green-800",
+};
+
+interface ActiveSessionModulesProps {
+  session: ActiveSession;
+}
+
+export function ActiveSessionModules({ session }: ActiveSessionModulesProps) {
+  const router = useRouter();
+
+  const handleOpenModule = (module: SessionModuleAccess) => {
+    if (module.status === "in_progress" && module.attempt_id) {
+      router.push(`/participant/test?attemptId=${module.attempt_id}`);
+      return;
+    }
+
+    const params = new URLSearchParams({
+      testId: module.test_id,
+      sessionCode: session.session_code,
+    });
+    router.push(`/participant/test?${params.toString()}`);
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h4 className="font-semibold">{session.session_name}</h4>
+          <Badge variant="outline" className="text-xs mt-1">
+            Kode: {session.session_code}
+          </Badge>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {session.modules.map((module) => (
+          <div
+            key={module.test_id}
+            className={`flex items-center justify-between gap-4 rounded-lg border p-3 ${
+              module.status === "locked" ? "bg-muted/40" : ""
+            }`}
+          >
+            <div className="flex items-start gap-3">
+              <span className="flex size-7 shrink-0 items-center justify-center rounded-full bg-primary/10 text-sm font-semibold text-primary">
+                {module.sequence}
+              </span>
+              <div className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{module.test_name}</span>
+                  <Badge className={STATUS_STYLES[module.status]}>
+                    {MODULE_ACCESS_STATUS_LABELS[module.status]}
+                  </Badge>
+                  {!module.is_required && (
+                    <Badge variant="outline" className="text-xs">
+                      Opsional
+                    </Badge>
+                  )}
+                </div>
+                <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Clock className="size-3" />
+                  {module.time_limit} menit
+                </span>
+                {module.status === "locked" && (
+                  <ul className="text-xs text-muted-foreground space-y-0.5">
+                    {module.missing_requirements.map((requirement) => (
+                      <li
+                        key={`${requirement.type}-${requirement.test_id}`}
+                        className="flex items-center gap-1"
+                      >
+                        <Lock className="size-3" />
+                        Selesaikan {requirement.test_name} terlebih dahulu
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+
+            {module.status === "completed" ? (
+              <CheckCircle className="size-5 shrink-0 text-green-600" />
+            ) : (
+              <Button
+                size="sm"
+                variant={module.status === "locked" ? "outline" : "default"}
+                disabled={module.status === "locked"}
+                onClick={() => handleOpenModule(module)}
+              >
+                {module.status === "locked" ? (
+                  <Lock className="size-4 mr-2" />
+                ) : module.status === "in_progress" ? (
+                  <PlayCircle className="size-4 mr-2" />
+                ) : (
+                  <Play className="size-4 mr-2" />
+                )}
+                {module.status === "in_progress"
+                  ? "Lanjutkan"
+                  : module.status === "locked"
+                    ? "Terkunci"
+                    : "Mulai"}
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
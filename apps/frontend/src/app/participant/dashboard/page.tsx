@@ -31,6 +31,7 @@ import {
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { id } from "date-fns/locale";
+import { ActiveSessionModules } from "./_components/ActiveSessionModules";
 
 export default function ParticipantDashboardPage() {
   const { user: authUser, isLoading: authLoading } = useNextAuth();
@@ -98,6 +99,7 @@ export default function ParticipantDashboardPage() {
   const sessionSummary = data?.session_summary;
   const recentTests = data?.recent_tests || [];
   const upcomingSessions = data?.upcoming_sessions || [];
+  const activeSessions = data?.active_sessions || [];
   const testsByCategory = data?.tests_by_category || {};
 
   // Helper function to format date
@@ -349,6 +351,27 @@ export default function ParticipantDashboardPage() {
               </Card>
             </div>
 
+            {/* Active Sessions */}
+            {activeSessions.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Play className="size-5" />
+                    Sesi Berlangsung
+                  </CardTitle>
+                  <CardDescription>
+                    Kerjakan modul sesuai urutan. Modul terkunci akan terbuka
+                    setelah modul sebelumnya selesai.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {activeSessions.map((session) => (
+                    <ActiveSessionModules key={session.id} session={session} />
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Upcoming Sessions */}
             <Card>
               <CardHeader>
@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Timer } from "lucide-react";
+
+interface CountdownTimerProps {
+  deadline: string | null; // ISO timestamp
+  label: string;
+  warningSeconds?: number;
+  onExpire?: () => void;
+}
+
+// Remaining seconds until the deadline, never negative
+function secondsUntil(deadline: string): number {
+  return Math.max(
+    0,
+    Math.floor((new Date(deadline).getTime() - Date.now()) / 1000)
+  );
+}
+
+export function formatCountdown(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${pad(minutes)}:${pad(seconds)}`;
+}
+
+export function CountdownTimer({
+  deadline,
+  label,
+  warningSeconds = 300,
+  onExpire,
+}: CountdownTimerProps) {
+  const [remaining, setRemaining] = useState<number | null>(
+    deadline ? secondsUntil(deadline) : null
+  );
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    if (!deadline) {
+      setRemaining(null);
+      return;
+    }
+
+    let expired = false;
+    const tick = () => {
+      const seconds = secondsUntil(deadline);
+      setRemaining(seconds);
+      if (seconds === 0 && !expired) {
+        expired = true;
+        onExpireRef.current?.();
+      }
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  if (remaining === null) return null;
+
+  const isWarning = remaining <= warningSeconds;
+
+  return (
+    <div
+      className={`flex items-center gap-2 rounded-lg border px-3 py-2 font-mono ${
+        isWarning
+          ? "border-red-200 bg-red-50 text-red-700"
+          : "bg-card text-foreground"
+      }`}
+    >
+      <Timer className="size-4" />
+      <span className="text-xs font-sans text-muted-foreground">{label}</span>
+      <span className="text-lg font-semibold">
+        {formatCountdown(remaining)}
+      </span>
+    </div>
+  );
+}
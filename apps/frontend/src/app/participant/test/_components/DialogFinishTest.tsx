@@ -0,0 +1,74 @@
+"use client";
+
+import { AlertTriangle, Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface DialogFinishTestProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  testName: string;
+  answeredCount: number;
+  totalCount: number;
+  unansweredRequiredCount: number;
+  isFinishing: boolean;
+  onConfirm: () => void;
+}
+
+export function DialogFinishTest({
+  open,
+  onOpenChange,
+  testName,
+  answeredCount,
+  totalCount,
+  unansweredRequiredCount,
+  isFinishing,
+  onConfirm,
+}: DialogFinishTestProps) {
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Selesaikan {testName}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Anda telah menjawab {answeredCount} dari {totalCount} soal. Setelah
+            tes diselesaikan, jawaban tidak dapat diubah lagi.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {unansweredRequiredCount > 0 && (
+          <div className="flex items-start gap-2 rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+            <AlertTriangle className="mt-0.5 size-4 shrink-0" />
+            <span>
+              Masih ada {unansweredRequiredCount} soal wajib yang belum dijawab.
+            </span>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isFinishing}>
+            Kembali ke Soal
+          </AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              onConfirm();
+            }}
+            disabled={isFinishing}
+          >
+            {isFinishing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Ya, Selesaikan Tes
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Eraser } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { clearDrawingCanvas, drawStroke, drawStrokes } from "@/lib/drawing";
+import type { DrawingStroke, DrawingStrokes } from "shared-types";
+
+// answer_data of a drawing: the strokes for replay plus the rendered canvas
+export interface DrawingValue {
+  strokes?: DrawingStrokes | null;
+  drawing_data?: string; // PNG data URL, moved to storage by the API
+  image_key?: string | null;
+}
+
+interface DrawingCanvasProps {
+  value: DrawingValue | null;
+  onChange: (value: DrawingValue | null) => void;
+  disabled?: boolean;
+}
+
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 500;
+const STROKE_COLOR = "#111827";
+const STROKE_WIDTH = 3;
+
+export function DrawingCanvas({
+  value,
+  onChange,
+  disabled,
+}: DrawingCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastValueRef = useRef<DrawingValue | null>(null);
+  const strokesRef = useRef<DrawingStroke[]>([]);
+  const currentStrokeRef = useRef<DrawingStroke | null>(null);
+  // Point times are relative to the first stroke of the drawing
+  const startedAtRef = useRef<number | null>(null);
+
+  // Paint the saved drawing when it did not come from this canvas
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context || value === lastValueRef.current) return;
+
+    lastValueRef.current = value;
+    strokesRef.current = value?.strokes?.strokes || [];
+    startedAtRef.current = value?.strokes?.started_at
+      ? new Date(value.strokes.started_at).getTime()
+      : null;
+
+    if (strokesRef.current.length > 0) {
+      drawStrokes(context, strokesRef.current);
+    } else {
+      clearDrawingCanvas(context);
+      // Drawings saved before strokes were captured only have the image
+      if (value?.drawing_data) {
+        const image = new Image();
+        image.onload = () => context.drawImage(image, 0, 0);
+        image.src = value.drawing_data;
+      }
+    }
+  }, [value]);
+
+  const getTime = () => {
+    if (startedAtRef.current === null) startedAtRef.current = Date.now();
+    return Date.now() - startedAtRef.current;
+  };
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    const { x, y } = getPoint(event);
+    const stroke: DrawingStroke = {
+      tool: "pen",
+      color: STROKE_COLOR,
+      width: STROKE_WIDTH,
+      points: [[round(x), round(y), getTime()]],
+    };
+    currentStrokeRef.current = stroke;
+    drawStroke(context, stroke);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = currentStrokeRef.current;
+    if (!stroke) return;
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+
+    const { x, y } = getPoint(event);
+    const [lastX, lastY] = stroke.points[stroke.points.length - 1];
+    // Skip sub-pixel jitter to keep the stroke data small
+    if (Math.hypot(x - lastX, y - lastY) < 1) return;
+
+    stroke.points.push([round(x), round(y), getTime()]);
+    drawStroke(context, {
+      ...stroke,
+      points: stroke.points.slice(-2),
+    });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = currentStrokeRef.current;
+    if (!stroke) return;
+    currentStrokeRef.current = null;
+    strokesRef.current = [...strokesRef.current, stroke];
+
+    const canvas = event.currentTarget;
+    const nextValue: DrawingValue = {
+      strokes: {
+        version: 1,
+        width: canvas.width,
+        height: canvas.height,
+        started_at: new Date(startedAtRef.current ?? Date.now()).toISOString(),
+        strokes: strokesRef.current,
+      },
+      drawing_data: canvas.toDataURL("image/png"),
+    };
+    lastValueRef.current = nextValue;
+    onChange(nextValue);
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+
+    clearDrawingCanvas(context);
+    strokesRef.current = [];
+    startedAtRef.current = null;
+    lastValueRef.current = null;
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        className="w-full rounded-lg border bg-white touch-none cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleClear}
+          disabled={disabled}
+        >
+          <Eraser className="size-4 mr-2" />
+          Hapus Gambar
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
@@ -0,0 +1,292 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { AlertCircle, Delete } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { useTestAttempt } from "@/hooks/useTestAttempt";
+import type { KraepelinEntry } from "shared-types";
+import { CountdownTimer } from "./CountdownTimer";
+
+interface KraepelinSheetProps {
+  attemptId: string;
+  onSheetOver: () => void; // every column has closed and been submitted
+}
+
+const KEYPAD_DIGITS = [7, 8, 9, 4, 5, 6, 1, 2, 3, 0];
+
+export function KraepelinSheet({
+  attemptId,
+  onSheetOver,
+}: KraepelinSheetProps) {
+  const { useGetKraepelinSheet, useSubmitKraepelinColumn } = useTestAttempt();
+  const { data, dataUpdatedAt, isLoading, error, refetch } =
+    useGetKraepelinSheet(attemptId);
+  const { mutateAsync: submitColumn } = useSubmitKraepelinColumn();
+  const sheet = data?.data;
+
+  const [now, setNow] = useState(() => Date.now());
+  const [entries, setEntries] = useState<Record<number, KraepelinEntry>>({});
+  const [activeRow, setActiveRow] = useState(0);
+
+  const entriesRef = useRef(entries);
+  entriesRef.current = entries;
+  const onSheetOverRef = useRef(onSheetOver);
+  onSheetOverRef.current = onSheetOver;
+  const columnStartedAtRef = useRef<string | null>(null);
+  const previousColumnRef = useRef<number | null>(null);
+  const pendingSubmitRef = useRef<Promise<void>>(Promise.resolve());
+  const rowRefs = useRef<Record<number, HTMLDivElement | null>>({});
+
+  // Columns switch on the server clock; the offset comes from the time left
+  // in the column the server reported as current
+  const serverOffset =
+    sheet && sheet.current_column !== null
+      ? new Date(sheet.columns[sheet.current_column].closes_at).getTime() -
+        (dataUpdatedAt + sheet.seconds_left_in_column * 1000)
+      : 0;
+  const serverNow = now + serverOffset;
+  const foundColumn = sheet
+    ? sheet.columns.findIndex(
+        (column) => new Date(column.closes_at).getTime() > serverNow
+      )
+    : -1;
+  const columnIndex =
+    sheet && sheet.current_column !== null && foundColumn >= 0
+      ? foundColumn
+      : null;
+  const column = columnIndex !== null ? sheet?.columns[columnIndex] : undefined;
+  const rowCount = column ? column.digits.length - 1 : 0;
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Column switches are forced: the closed column is submitted as it is and
+  // the next one starts empty. Once the last column closes the test is over
+  useEffect(() => {
+    if (!sheet) return;
+
+    const previous = previousColumnRef.current;
+    previousColumnRef.current = columnIndex;
+
+    if (previous !== null && previous !== columnIndex) {
+      const closedEntries = Object.values(entriesRef.current);
+      const startedAt = columnStartedAtRef.current;
+      pendingSubmitRef.current = pendingSubmitRef.current.then(() =>
+        submitColumn({
+          attemptId,
+          columnIndex: previous,
+          data: {
+            started_at: startedAt || undefined,
+            entries: closedEntries,
+          },
+        })
+          .then(() => undefined)
+          .catch((error: any) => {
+            toast.error(`Kolom ${previous + 1} gagal disimpan`, {
+              description:
+                error.message || "Terjadi kesalahan saat menyimpan jawaban",
+            });
+          })
+      );
+    }
+
+    setEntries({});
+    setActiveRow(0);
+    columnStartedAtRef.current =
+      columnIndex !== null ? new Date(serverNow).toISOString() : null;
+
+    if (columnIndex === null) {
+      pendingSubmitRef.current.then(() => onSheetOverRef.current());
+    }
+    // Only a column switch starts this, not every clock tick
+  }, [sheet, columnIndex]);
+
+  const enterDigit = (digit: number) => {
+    if (columnIndex === null || activeRow >= rowCount) return;
+    setEntries((prev) => ({
+      ...prev,
+      [activeRow]: {
+        row_index: activeRow,
+        answer: digit,
+        answered_at: new Date(Date.now() + serverOffset).toISOString(),
+      },
+    }));
+    setActiveRow((row) => Math.min(row + 1, rowCount));
+  };
+
+  const eraseDigit = () => {
+    const row = Math.max(0, activeRow - 1);
+    setEntries((prev) => {
+      const next = { ...prev };
+      delete next[row];
+      return next;
+    });
+    setActiveRow(row);
+  };
+
+  // The sheet is answered with the number keys as well as the keypad
+  const keyHandlerRef = useRef<(event: KeyboardEvent) => void>(() => {});
+  keyHandlerRef.current = (event: KeyboardEvent) => {
+    if (/^[0-9]$/.test(event.key)) {
+      event.preventDefault();
+      enterDigit(Number(event.key));
+    } else if (event.key === "Backspace") {
+      event.preventDefault();
+      eraseDigit();
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveRow((row) => Math.max(0, row - 1));
+    } else if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setActiveRow((row) => Math.min(rowCount, row + 1));
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) =>
+      keyHandlerRef.current(event);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    rowRefs.current[activeRow]?.scrollIntoView({ block: "nearest" });
+  }, [activeRow, columnIndex]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !sheet) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-4">
+          <AlertCircle className="size-10 text-red-500 mx-auto" />
+          <p className="text-muted-foreground">
+            {error?.message || "Lembar kolom tidak dapat dimuat"}
+          </p>
+          <Button variant="outline" onClick={() => refetch()}>
+            Coba Lagi
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!column || columnIndex === null) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-4">
+          <LoadingSpinner size="lg" />
+          <p className="text-muted-foreground">Menyimpan kolom terakhir...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const answeredCount = Object.keys(entries).length;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <CardTitle>
+                Kolom {columnIndex + 1} dari {sheet.column_count}
+              </CardTitle>
+              <CardDescription>
+                Jumlahkan dua angka yang berdekatan dan isi angka terakhir dari
+                hasilnya. Kolom berganti otomatis saat waktunya habis.
+              </CardDescription>
+            </div>
+            <CountdownTimer
+              key={columnIndex}
+              deadline={new Date(
+                new Date(column.closes_at).getTime() - serverOffset
+              ).toISOString()}
+              label="Waktu kolom"
+              warningSeconds={5}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="mx-auto max-h-[60vh] w-40 overflow-y-auto rounded-lg border p-2 font-mono">
+            {column.digits.map((digit, index) => (
+              <div key={index}>
+                <div className="py-1 text-center text-xl font-semibold">
+                  {digit}
+                </div>
+                {index < rowCount && (
+                  <div
+                    ref={(element) => {
+                      rowRefs.current[index] = element;
+                    }}
+                    onClick={() => setActiveRow(index)}
+                    className={`mx-auto flex h-8 w-16 cursor-pointer items-center justify-center rounded border text-lg ${
+                      index === activeRow
+                        ? "border-primary bg-primary/10"
+                        : "border-dashed"
+                    }`}
+                  >
+                    {entries[index]?.answer ?? ""}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Papan Angka</CardTitle>
+          <CardDescription>
+            <Badge variant="secondary">
+              {answeredCount} dari {rowCount} terisi
+            </Badge>
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-3 gap-2">
+            {KEYPAD_DIGITS.map((digit) => (
+              <Button
+                key={digit}
+                variant="outline"
+                className={`h-14 text-xl ${digit === 0 ? "col-span-2" : ""}`}
+                onClick={() => enterDigit(digit)}
+                disabled={activeRow >= rowCount}
+              >
+                {digit}
+              </Button>
+            ))}
+            <Button
+              variant="outline"
+              className="h-14"
+              onClick={eraseDigit}
+              disabled={activeRow === 0 && !entries[0]}
+            >
+              <Delete className="size-5" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
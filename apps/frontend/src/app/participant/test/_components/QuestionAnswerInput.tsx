@@ -0,0 +1,199 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import type { DeliveredQuestion } from "shared-types";
+import { DrawingCanvas } from "./DrawingCanvas";
+import { SequenceOrderInput } from "./SequenceOrderInput";
+
+export interface AnswerValue {
+  answer?: string;
+  answer_data?: Record<string, any>;
+}
+
+interface QuestionAnswerInputProps {
+  question: DeliveredQuestion;
+  value: AnswerValue | undefined;
+  onChange: (value: AnswerValue) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_TRUE_FALSE_OPTIONS = [
+  { value: "true", label: "Benar" },
+  { value: "false", label: "Salah" },
+];
+
+const DEFAULT_RATING_OPTIONS = [1, 2, 3, 4, 5].map((rating) => ({
+  value: String(rating),
+  label: String(rating),
+}));
+
+// Whether a local answer counts as answered for navigation and finishing
+export function hasAnswerValue(value: AnswerValue | undefined): boolean {
+  if (!value) return false;
+  if (value.answer && value.answer.trim().length > 0) return true;
+  return Boolean(value.answer_data);
+}
+
+export function QuestionAnswerInput({
+  question,
+  value,
+  onChange,
+  disabled,
+}: QuestionAnswerInputProps) {
+  const options = question.options || [];
+
+  switch (question.question_type) {
+    case "multiple_choice":
+      return (
+        <RadioGroup
+          value={value?.answer || ""}
+          onValueChange={(answer) => onChange({ answer })}
+          disabled={disabled}
+          className="space-y-2"
+        >
+          {options.map((option, index) => (
+            <Label
+              key={option.value}
+              htmlFor={`option-${question.id}-${option.value}`}
+              className={`flex items-center gap-3 rounded-lg border p-4 font-normal ${
+                value?.answer === option.value
+                  ? "border-primary bg-primary/5"
+                  : "hover:bg-muted/50"
+              } ${disabled ? "" : "cursor-pointer"}`}
+            >
+              <RadioGroupItem
+                value={option.value}
+                id={`option-${question.id}-${option.value}`}
+              />
+              {/* Positional letter, so shuffled options don't reveal their value */}
+              <span className="font-semibold">
+                {String.fromCharCode(65 + index)}.
+              </span>
+              <span>{option.label}</span>
+            </Label>
+          ))}
+        </RadioGroup>
+      );
+
+    case "true_false": {
+      const choices = options.length > 0 ? options : DEFAULT_TRUE_FALSE_OPTIONS;
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          {choices.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onChange({ answer: option.value })}
+              disabled={disabled}
+              className={`rounded-lg border p-4 text-center font-medium transition-colors ${
+                value?.answer === option.value
+                  ? "border-primary bg-primary/5 text-primary"
+                  : "hover:bg-muted/50"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    case "text":
+      return (
+        <Textarea
+          value={value?.answer || ""}
+          onChange={(event) => onChange({ answer: event.target.value })}
+          placeholder="Tulis jawaban Anda di sini..."
+          disabled={disabled}
+          className="min-h-[200px]"
+        />
+      );
+
+    case "rating_scale": {
+      const ratings = options.length > 0 ? options : DEFAULT_RATING_OPTIONS;
+      return (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {ratings.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => onChange({ answer: option.value })}
+                disabled={disabled}
+                className={`size-12 rounded-full border text-lg font-semibold transition-colors ${
+                  value?.answer === option.value
+                    ? "border-primary bg-primary text-primary-foreground"
+                    : "hover:bg-muted/50"
+                }`}
+              >
+                {option.value}
+              </button>
+            ))}
+          </div>
+          {ratings.length > 1 && (
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{ratings[0].label}</span>
+              <span>{ratings[ratings.length - 1].label}</span>
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    case "drawing":
+      return (
+        <DrawingCanvas
+          value={value?.answer_data || null}
+          onChange={(drawing) =>
+            onChange(drawing ? { answer_data: drawing } : {})
+          }
+          disabled={disabled}
+        />
+      );
+
+    case "sequence":
+      return (
+        <SequenceOrderInput
+          options={options}
+          value={value?.answer_data?.sequence || null}
+          onChange={(sequence) => onChange({ answer_data: { sequence } })}
+          disabled={disabled}
+        />
+      );
+
+    case "matrix":
+      return (
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4">
+          {options.map((option, index) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() =>
+                onChange({ answer_data: { matrix_selection: option.value } })
+              }
+              disabled={disabled}
+              className={`flex flex-col items-center gap-1 rounded-lg border p-4 transition-colors ${
+                value?.answer_data?.matrix_selection === option.value
+                  ? "border-primary bg-primary/5 text-primary"
+                  : "hover:bg-muted/50"
+              }`}
+            >
+              <span className="font-semibold">
+                {String.fromCharCode(65 + index)}
+              </span>
+              <span className="text-sm">{option.label}</span>
+            </button>
+          ))}
+        </div>
+      );
+
+    default:
+      return (
+        <p className="text-sm text-muted-foreground">
+          Tipe soal ini belum didukung.
+        </p>
+      );
+  }
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { Lock } from "lucide-react";
+
+export type NavigatorItemState = "current" | "answered" | "expired" | "empty";
+
+interface QuestionNavigatorProps {
+  items: { id: string; state: NavigatorItemState; isTimed: boolean }[];
+  onSelect: (index: number) => void;
+}
+
+const STATE_STYLES: Record<NavigatorItemState, string> = {
+  current: "border-primary bg-primary text-primary-foreground",
+  answered: "border-green-200 bg-green-100 text-green-800",
+  expired: "border-gray-200 bg-gray-100 text-gray-400 line-through",
+  empty: "bg-card hover:bg-muted/50",
+};
+
+export function QuestionNavigator({ items, onSelect }: QuestionNavigatorProps) {
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-5 gap-2">
+        {items.map((item, index) => (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => onSelect(index)}
+            className={`relative flex h-10 items-center justify-center rounded-md border text-sm font-medium transition-colors ${STATE_STYLES[item.state]}`}
+          >
+            {index + 1}
+            {item.isTimed && item.state === "empty" && (
+              <Lock className="absolute right-0.5 top-0.5 size-3 text-muted-foreground" />
+            )}
+          </button>
+        ))}
+      </div>
+      <div className="space-y-1 text-xs text-muted-foreground">
+        <div className="flex items-center gap-2">
+          <span className="size-3 rounded-sm border border-green-200 bg-green-100" />
+          Sudah dijawab
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="size-3 rounded-sm border bg-card" />
+          Belum dijawab
+        </div>
+        <div className="flex items-center gap-2">
+          <Lock className="size-3" />
+          Soal berwaktu, waktu mulai berjalan saat dibuka
+        </div>
+      </div>
+    </div>
+  );
+}
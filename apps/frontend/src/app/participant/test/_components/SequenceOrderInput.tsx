@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowDown, ArrowUp, GripVertical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { DeliveredQuestionOption } from "shared-types";
+
+interface SequenceOrderInputProps {
+  options: DeliveredQuestionOption[];
+  value: string[] | null; // option values in the chosen order
+  onChange: (value: string[]) => void;
+  disabled?: boolean;
+}
+
+export function SequenceOrderInput({
+  options,
+  value,
+  onChange,
+  disabled,
+}: SequenceOrderInputProps) {
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+
+  // Keep the saved order, then any option it does not mention yet
+  const orderedValues = [
+    ...(value || []).filter((item) =>
+      options.some((option) => option.value === item)
+    ),
+    ...options
+      .map((option) => option.value)
+      .filter((item) => !(value || []).includes(item)),
+  ];
+  const labelByValue = new Map(
+    options.map((option) => [option.value, option.label])
+  );
+
+  const moveItem = (from: number, to: number) => {
+    if (disabled || to < 0 || to >= orderedValues.length || from === to) {
+      return;
+    }
+    const next = [...orderedValues];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Seret item atau gunakan tombol panah untuk menyusun urutan.
+      </p>
+      {orderedValues.map((item, index) => (
+        <div
+          key={item}
+          draggable={!disabled}
+          onDragStart={() => setDraggedIndex(index)}
+          onDragOver={(event) => event.preventDefault()}
+          onDrop={() => {
+            if (draggedIndex !== null) moveItem(draggedIndex, index);
+            setDraggedIndex(null);
+          }}
+          onDragEnd={() => setDraggedIndex(null)}
+          className={`flex items-center gap-3 rounded-lg border bg-card p-3 ${
+            draggedIndex === index ? "opacity-50" : ""
+          } ${disabled ? "" : "cursor-move"}`}
+        >
+          <GripVertical className="size-4 text-muted-foreground" />
+          <span className="flex size-7 items-center justify-center rounded-full bg-primary/10 text-sm font-semibold text-primary">
+            {index + 1}
+          </span>
+          <span className="flex-1">{labelByValue.get(item)}</span>
+          <div className="flex gap-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => moveItem(index, index - 1)}
+              disabled={disabled || index === 0}
+            >
+              <ArrowUp className="size-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => moveItem(index, index + 1)}
+              disabled={disabled || index === orderedValues.length - 1}
+            >
+              <ArrowDown className="size-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      {!value && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange(orderedValues)}
+          disabled={disabled}
+        >
+          Gunakan urutan ini
+        </Button>
+      )}
+    </div>
+  );
+}
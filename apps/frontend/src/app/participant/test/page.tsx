@@ -0,0 +1,818 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  AlertCircle,
+  ArrowLeft,
+  ArrowRight,
+  CheckCircle,
+  Clock,
+  Flag,
+  Lock,
+  RefreshCw,
+  Save,
+} from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { useTestAttempt } from "@/hooks/useTestAttempt";
+import {
+  AUTO_SAVE_INTERVAL,
+  isKraepelinCategory,
+  type DeliveredQuestion,
+} from "shared-types";
+import {
+  QuestionAnswerInput,
+  hasAnswerValue,
+  type AnswerValue,
+} from "./_components/QuestionAnswerInput";
+import { CountdownTimer } from "./_components/CountdownTimer";
+import {
+  QuestionNavigator,
+  type NavigatorItemState,
+} from "./_components/QuestionNavigator";
+import { DialogFinishTest } from "./_components/DialogFinishTest";
+import { KraepelinSheet } from "./_components/KraepelinSheet";
+
+// Unsaved answers are mirrored here so a reload does not lose them
+const DRAFT_STORAGE_PREFIX = "test-attempt-drafts:";
+
+interface StoredDrafts {
+  current_index: number;
+  answers: Record<string, AnswerValue>;
+}
+
+function readStoredDrafts(attemptId: string): StoredDrafts | null {
+  try {
+    const stored = localStorage.getItem(`${DRAFT_STORAGE_PREFIX}${attemptId}`);
+    return stored ? (JSON.parse(stored) as StoredDrafts) : null;
+  } catch {
+    return null;
+  }
+}
+
+function getBrowserInfo() {
+  return {
+    user_agent: navigator.userAgent,
+    screen_width: window.screen.width,
+    screen_height: window.screen.height,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    language: navigator.language,
+  };
+}
+
+export default function ParticipantTestPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const attemptId = searchParams.get("attemptId") || "";
+  const testId = searchParams.get("testId");
+  const sessionCode = searchParams.get("sessionCode");
+
+  const {
+    useStartAttempt,
+    useGetAttempt,
+    useGetAttemptQuestions,
+    useOpenQuestion,
+    useAutoSaveAnswer,
+    useSubmitAnswer,
+    useFinishAttempt,
+  } = useTestAttempt();
+
+  const startAttemptMutation = useStartAttempt();
+  const openQuestionMutation = useOpenQuestion();
+  const { mutateAsync: autoSaveAnswer } = useAutoSaveAnswer();
+  const submitAnswerMutation = useSubmitAnswer();
+  const finishAttemptMutation = useFinishAttempt();
+
+  const {
+    data: attemptData,
+    isLoading: attemptLoading,
+    error: attemptError,
+  } = useGetAttempt(attemptId);
+  const {
+    data: questionsData,
+    isLoading: questionsLoading,
+    error: questionsError,
+    refetch: refetchQuestions,
+  } = useGetAttemptQuestions(attemptId);
+
+  const [questions, setQuestions] = useState<DeliveredQuestion[]>([]);
+  const [answers, setAnswers] = useState<Record<string, AnswerValue>>({});
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isInitialized, setIsInitialized] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [isFinishOpen, setIsFinishOpen] = useState(false);
+  const [isFinished, setIsFinished] = useState(false);
+  const [isAdaptiveDone, setIsAdaptiveDone] = useState(false);
+
+  const answersRef = useRef(answers);
+  answersRef.current = answers;
+  const questionsRef = useRef(questions);
+  questionsRef.current = questions;
+  const currentIndexRef = useRef(currentIndex);
+  currentIndexRef.current = currentIndex;
+
+  const dirtyIdsRef = useRef<Set<string>>(new Set());
+  const timeTakenRef = useRef<Record<string, number>>({});
+  const isSavingRef = useRef(false);
+  const startRequestedRef = useRef(false);
+
+  const attempt = attemptData?.data;
+  const attemptInfo = questionsData?.data;
+  const currentQuestion = questions[currentIndex];
+  const isAdaptive = Boolean(attemptInfo?.is_adaptive);
+
+  // Only a test was given: start it (or resume the running attempt) and put
+  // the attempt in the URL so a reload resumes the same attempt
+  useEffect(() => {
+    if (attemptId || !testId || startRequestedRef.current) return;
+    startRequestedRef.current = true;
+
+    startAttemptMutation.mutate(
+      {
+        test_id: testId,
+        session_code: sessionCode || undefined,
+        browser_info: getBrowserInfo(),
+      },
+      {
+        onSuccess: (response) => {
+          router.replace(`/participant/test?attemptId=${response.data.id}`);
+        },
+        onError: (error) => {
+          toast.error("Gagal memulai tes", {
+            description: error.message || "Terjadi kesalahan saat memulai tes",
+          });
+        },
+      }
+    );
+  }, [attemptId, testId, sessionCode, startAttemptMutation, router]);
+
+  // Restore saved answers, then any local drafts that never reached the server
+  useEffect(() => {
+    const data = questionsData?.data;
+    if (!data || isInitialized) return;
+
+    const restored: Record<string, AnswerValue> = {};
+    data.questions.forEach((question) => {
+      if (question.saved_answer) {
+        restored[question.id] = {
+          answer: question.saved_answer.answer || undefined,
+          answer_data: question.saved_answer.answer_data || undefined,
+        };
+        timeTakenRef.current[question.id] =
+          question.saved_answer.time_taken || 0;
+      }
+    });
+
+    const stored = readStoredDrafts(attemptId);
+    const writableIds = new Set(
+      data.questions
+        .filter((question) => question.state !== "expired")
+        .map((question) => question.id)
+    );
+    Object.entries(stored?.answers || {}).forEach(([questionId, value]) => {
+      if (!writableIds.has(questionId)) return;
+      restored[questionId] = value;
+      dirtyIdsRef.current.add(questionId);
+    });
+
+    const firstOpenIndex = data.questions.findIndex(
+      (question) => question.state === "open" || question.state === "unopened"
+    );
+
+    setQuestions(data.questions);
+    setAnswers(restored);
+    // Adaptive tests always continue at the latest item
+    setCurrentIndex(
+      data.is_adaptive
+        ? Math.max(data.questions.length - 1, 0)
+        : Math.min(
+            stored?.current_index ?? Math.max(firstOpenIndex, 0),
+            Math.max(data.questions.length - 1, 0)
+          )
+    );
+    setIsInitialized(true);
+  }, [questionsData, attemptId, isInitialized]);
+
+  const persistDrafts = useCallback(() => {
+    if (!attemptId) return;
+
+    const drafts: Record<string, AnswerValue> = {};
+    dirtyIdsRef.current.forEach((questionId) => {
+      drafts[questionId] = answersRef.current[questionId] || {};
+    });
+
+    const stored: StoredDrafts = {
+      current_index: currentIndexRef.current,
+      answers: drafts,
+    };
+    localStorage.setItem(
+      `${DRAFT_STORAGE_PREFIX}${attemptId}`,
+      JSON.stringify(stored)
+    );
+  }, [attemptId]);
+
+  useEffect(() => {
+    if (isInitialized && !isFinished) persistDrafts();
+  }, [answers, currentIndex, isInitialized, isFinished, persistDrafts]);
+
+  // Count time spent on the question being shown
+  useEffect(() => {
+    if (!currentQuestion || currentQuestion.state === "unopened") return;
+    const questionId = currentQuestion.id;
+
+    const timer = setInterval(() => {
+      timeTakenRef.current[questionId] =
+        (timeTakenRef.current[questionId] || 0) + 1;
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [currentQuestion]);
+
+  // Send every changed answer to auto-save. Returns false if any failed
+  const saveDrafts = useCallback(async (): Promise<boolean> => {
+    const questionIds = Array.from(dirtyIdsRef.current);
+    if (!attemptId || questionIds.length === 0 || isSavingRef.current) {
+      return true;
+    }
+
+    isSavingRef.current = true;
+    setIsSaving(true);
+    let allSaved = true;
+
+    for (const questionId of questionIds) {
+      const value = answersRef.current[questionId] || {};
+      try {
+        await autoSaveAnswer({
+          attemptId,
+          data: {
+            question_id: questionId,
+            answer: value.answer || undefined,
+            answer_data: value.answer_data,
+            time_taken: timeTakenRef.current[questionId],
+          },
+        });
+        // Keep it dirty if it changed while the request was in flight
+        if (answersRef.current[questionId] === value) {
+          dirtyIdsRef.current.delete(questionId);
+        }
+      } catch {
+        allSaved = false;
+        // Past its own deadline the server will never accept it
+        const question = questionsRef.current.find(
+          (item) => item.id === questionId
+        );
+        if (question?.deadline && new Date(question.deadline) < new Date()) {
+          dirtyIdsRef.current.delete(questionId);
+        }
+      }
+    }
+
+    isSavingRef.current = false;
+    setIsSaving(false);
+    if (allSaved) setLastSavedAt(new Date());
+    persistDrafts();
+
+    return allSaved;
+  }, [attemptId, autoSaveAnswer, persistDrafts]);
+
+  // Periodic auto-save
+  useEffect(() => {
+    if (!isInitialized || isFinished) return;
+
+    const timer = setInterval(() => {
+      saveDrafts();
+    }, AUTO_SAVE_INTERVAL * 1000);
+    return () => clearInterval(timer);
+  }, [isInitialized, isFinished, saveDrafts]);
+
+  // Warn before leaving with answers that are not on the server yet
+  useEffect(() => {
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      if (dirtyIdsRef.current.size > 0 && !isFinished) {
+        event.preventDefault();
+      }
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [isFinished]);
+
+  const replaceQuestion = (question: DeliveredQuestion) => {
+    setQuestions((prev) =>
+      prev.map((item) => (item.id === question.id ? question : item))
+    );
+  };
+
+  const handleAnswerChange = (questionId: string, value: AnswerValue) => {
+    dirtyIdsRef.current.add(questionId);
+    setAnswers((prev) => ({ ...prev, [questionId]: value }));
+  };
+
+  const goToQuestion = (index: number) => {
+    if (isAdaptive || index < 0 || index >= questions.length) return;
+    saveDrafts();
+    setCurrentIndex(index);
+  };
+
+  // Adaptive tests take the answer for good; the server picks the next item
+  // from it, or ends the test once the ability is measured precisely enough
+  const handleSubmitAdaptiveItem = async () => {
+    if (!currentQuestion) return;
+    const questionId = currentQuestion.id;
+    const value = answersRef.current[questionId] || {};
+
+    try {
+      const response = await submitAnswerMutation.mutateAsync({
+        attemptId,
+        data: {
+          question_id: questionId,
+          answer: value.answer || undefined,
+          answer_data: value.answer_data,
+          time_taken: timeTakenRef.current[questionId],
+          is_draft: false,
+        },
+      });
+      dirtyIdsRef.current.delete(questionId);
+
+      const refreshed = await refetchQuestions();
+      const nextQuestions =
+        refreshed.data?.data.questions || questionsRef.current;
+      setQuestions(nextQuestions);
+
+      const nextQuestion = response.data.next_question;
+      if (nextQuestion) {
+        setCurrentIndex(
+          Math.max(
+            nextQuestions.findIndex((item) => item.id === nextQuestion.id),
+            0
+          )
+        );
+      } else {
+        setIsAdaptiveDone(true);
+        setIsFinishOpen(true);
+      }
+    } catch (error: any) {
+      toast.error("Gagal mengirim jawaban", {
+        description: error.message || "Terjadi kesalahan saat mengirim jawaban",
+      });
+    }
+  };
+
+  const handleOpenQuestion = async () => {
+    if (!currentQuestion) return;
+
+    try {
+      const response = await openQuestionMutation.mutateAsync({
+        attemptId,
+        questionId: currentQuestion.id,
+      });
+      if (response.data.question) replaceQuestion(response.data.question);
+    } catch (error: any) {
+      toast.error("Gagal membuka soal", {
+        description: error.message || "Terjadi kesalahan saat membuka soal",
+      });
+    }
+  };
+
+  const handleQuestionExpired = async (questionId: string) => {
+    await saveDrafts();
+    setQuestions((prev) =>
+      prev.map((item) =>
+        item.id === questionId ? { ...item, state: "expired" } : item
+      )
+    );
+
+    if (questionsRef.current[currentIndexRef.current]?.id === questionId) {
+      toast.warning("Waktu soal habis", {
+        description: "Jawaban terakhir Anda telah disimpan",
+      });
+      if (currentIndexRef.current < questionsRef.current.length - 1) {
+        setCurrentIndex(currentIndexRef.current + 1);
+      }
+    }
+  };
+
+  const handleFinish = async (
+    completionType: "completed" | "expired" = "completed"
+  ) => {
+    if (!attempt || isFinished) return;
+
+    const allSaved = await saveDrafts();
+    if (!allSaved && completionType === "completed") {
+      toast.error("Sebagian jawaban belum tersimpan", {
+        description: "Periksa koneksi Anda lalu coba selesaikan lagi",
+      });
+      return;
+    }
+
+    const answeredCount = questions.filter((question) =>
+      hasAnswerValue(answers[question.id])
+    ).length;
+
+    try {
+      await finishAttemptMutation.mutateAsync({
+        attemptId,
+        data: {
+          time_spent: Math.max(
+            0,
+            Math.floor(
+              (Date.now() - new Date(attempt.start_time).getTime()) / 1000
+            )
+          ),
+          questions_answered: answeredCount,
+          completion_type: completionType,
+          final_browser_info: getBrowserInfo(),
+        },
+      });
+
+      localStorage.removeItem(`${DRAFT_STORAGE_PREFIX}${attemptId}`);
+      dirtyIdsRef.current.clear();
+      setIsFinishOpen(false);
+      setIsFinished(true);
+
+      toast.success(
+        completionType === "expired" ? "Waktu tes habis" : "Tes selesai",
+        { description: "Jawaban Anda telah tersimpan" }
+      );
+    } catch (error: any) {
+      toast.error("Gagal menyelesaikan tes", {
+        description:
+          error.message || "Terjadi kesalahan saat menyelesaikan tes",
+      });
+    }
+  };
+
+  // Starting an attempt
+  if (!attemptId && testId && !startAttemptMutation.isError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <LoadingSpinner size="lg" />
+          <p className="text-muted-foreground">Menyiapkan tes...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Nothing to run
+  if (!attemptId) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <AlertCircle className="size-12 text-muted-foreground mx-auto" />
+          <div>
+            <p className="text-lg font-semibold">Tes tidak dapat dimulai</p>
+            <p className="text-muted-foreground">
+              {startAttemptMutation.error?.message ||
+                "Pilih tes dari dashboard untuk memulai"}
+            </p>
+          </div>
+          <Button onClick={() => router.push("/participant/dashboard")}>
+            Kembali ke Dashboard
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Finished
+  if (isFinished) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Card className="max-w-md w-full">
+          <CardContent className="pt-6 text-center space-y-4">
+            <CheckCircle className="size-16 text-green-600 mx-auto" />
+            <div>
+              <h2 className="text-xl font-semibold">Tes Telah Selesai</h2>
+              <p className="text-muted-foreground">
+                Terima kasih, jawaban Anda untuk {attempt?.test?.name || "tes"}{" "}
+                telah tersimpan.
+              </p>
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => router.push("/participant/dashboard")}
+            >
+              Kembali ke Dashboard
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Loading state
+  if (
+    attemptLoading ||
+    questionsLoading ||
+    (!isInitialized && !questionsError)
+  ) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <LoadingSpinner size="lg" />
+          <p className="text-muted-foreground">Memuat soal...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Error state (includes attempts that are no longer active)
+  if (attemptError || questionsError || !attempt || !attemptInfo) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <AlertCircle className="size-12 text-red-500 mx-auto" />
+          <div>
+            <p className="text-lg font-semibold">Soal tidak dapat dimuat</p>
+            <p className="text-muted-foreground">
+              {(questionsError || attemptError)?.message ||
+                "Terjadi kesalahan saat mengambil soal"}
+            </p>
+          </div>
+          <div className="flex justify-center gap-2">
+            <Button
+              variant="outline"
+              onClick={() => router.push("/participant/dashboard")}
+            >
+              Kembali ke Dashboard
+            </Button>
+            <Button onClick={() => refetchQuestions()}>
+              <RefreshCw className="size-4 mr-2" />
+              Coba Lagi
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Kraepelin / Pauli tests run on the column sheet, one timed column at a time
+  if (isKraepelinCategory(attempt.test?.category || "")) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">{attempt.test?.name || "Tes"}</h1>
+          <p className="text-muted-foreground">
+            Kerjakan kolom yang sedang berjalan sampai waktunya habis
+          </p>
+        </div>
+
+        {attempt.test?.instructions && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Petunjuk</CardTitle>
+              <CardDescription className="whitespace-pre-wrap">
+                {attempt.test.instructions}
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+
+        <KraepelinSheet
+          attemptId={attemptId}
+          onSheetOver={() => handleFinish("completed")}
+        />
+      </div>
+    );
+  }
+
+  const answeredCount = questions.filter((question) =>
+    hasAnswerValue(answers[question.id])
+  ).length;
+  const unansweredRequiredCount = questions.filter(
+    (question) =>
+      question.is_required &&
+      question.state !== "expired" &&
+      !hasAnswerValue(answers[question.id])
+  ).length;
+
+  const navigatorItems = questions.map((question, index) => {
+    let state: NavigatorItemState = "empty";
+    if (index === currentIndex) state = "current";
+    else if (hasAnswerValue(answers[question.id])) state = "answered";
+    else if (question.state === "expired") state = "expired";
+
+    return {
+      id: question.id,
+      state,
+      isTimed: question.state === "unopened",
+    };
+  });
+
+  const isCurrentExpired = currentQuestion?.state === "expired";
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">{attempt.test?.name || "Tes"}</h1>
+          <p className="text-muted-foreground">
+            {answeredCount} dari {questions.length} soal terjawab
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Save className="size-3" />
+            {isSaving
+              ? "Menyimpan..."
+              : lastSavedAt
+                ? `Tersimpan ${format(lastSavedAt, "HH:mm:ss", { locale: id })}`
+                : "Tersimpan otomatis"}
+          </span>
+          <CountdownTimer
+            deadline={attemptInfo.end_time}
+            label="Sisa waktu"
+            onExpire={() => handleFinish("expired")}
+          />
+          <Button onClick={() => setIsFinishOpen(true)}>
+            <Flag className="size-4 mr-2" />
+            Selesai
+          </Button>
+        </div>
+      </div>
+
+      {attempt.test?.instructions && currentIndex === 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Petunjuk</CardTitle>
+            <CardDescription className="whitespace-pre-wrap">
+              {attempt.test.instructions}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Question */}
+        <div className="lg:col-span-3">
+          {currentQuestion ? (
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <CardTitle>
+                      Soal {currentIndex + 1} dari{" "}
+                      {isAdaptive
+                        ? attemptInfo.total_questions
+                        : questions.length}
+                    </CardTitle>
+                    <div className="flex gap-2">
+                      {currentQuestion.is_required && (
+                        <Badge variant="outline">Wajib</Badge>
+                      )}
+                      {isAdaptive && <Badge variant="secondary">Adaptif</Badge>}
+                      {isCurrentExpired && (
+                        <Badge variant="secondary">Waktu habis</Badge>
+                      )}
+                    </div>
+                  </div>
+                  {currentQuestion.deadline && !isCurrentExpired && (
+                    <CountdownTimer
+                      key={currentQuestion.id}
+                      deadline={currentQuestion.deadline}
+                      label="Waktu soal"
+                      warningSeconds={10}
+                      onExpire={() => handleQuestionExpired(currentQuestion.id)}
+                    />
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {currentQuestion.state === "unopened" ? (
+                  <div className="rounded-lg border border-dashed p-8 text-center space-y-4">
+                    <Lock className="size-10 text-muted-foreground mx-auto" />
+                    <div>
+                      <p className="font-semibold">Soal berwaktu</p>
+                      <p className="text-sm text-muted-foreground">
+                        Anda memiliki {currentQuestion.time_limit} detik untuk
+                        soal ini. Waktu mulai berjalan saat soal dibuka dan
+                        tidak dapat dihentikan.
+                      </p>
+                    </div>
+                    <Button
+                      onClick={handleOpenQuestion}
+                      disabled={openQuestionMutation.isPending}
+                    >
+                      <Clock className="size-4 mr-2" />
+                      Buka Soal
+                    </Button>
+                  </div>
+                ) : (
+                  <>
+                    {currentQuestion.question && (
+                      <p className="text-lg whitespace-pre-wrap">
+                        {currentQuestion.question}
+                      </p>
+                    )}
+                    {currentQuestion.image_url && (
+                      <img
+                        src={currentQuestion.image_url}
+                        alt={`Gambar soal ${currentIndex + 1}`}
+                        className="max-h-96 rounded-lg border"
+                      />
+                    )}
+                    {currentQuestion.audio_url && (
+                      <audio
+                        controls
+                        src={currentQuestion.audio_url}
+                        className="w-full"
+                      />
+                    )}
+                    <QuestionAnswerInput
+                      question={currentQuestion}
+                      value={answers[currentQuestion.id]}
+                      onChange={(value) =>
+                        handleAnswerChange(currentQuestion.id, value)
+                      }
+                      disabled={isCurrentExpired || isAdaptiveDone}
+                    />
+                  </>
+                )}
+
+                <div className="flex justify-between border-t pt-4">
+                  <Button
+                    variant="outline"
+                    onClick={() => goToQuestion(currentIndex - 1)}
+                    disabled={currentIndex === 0 || isAdaptive}
+                  >
+                    <ArrowLeft className="size-4 mr-2" />
+                    Sebelumnya
+                  </Button>
+                  {isAdaptive && !isAdaptiveDone ? (
+                    <Button
+                      onClick={handleSubmitAdaptiveItem}
+                      disabled={
+                        submitAnswerMutation.isPending ||
+                        !hasAnswerValue(answers[currentQuestion.id])
+                      }
+                    >
+                      {submitAnswerMutation.isPending
+                        ? "Mengirim..."
+                        : "Kirim Jawaban"}
+                      <ArrowRight className="size-4 ml-2" />
+                    </Button>
+                  ) : currentIndex < questions.length - 1 && !isAdaptive ? (
+                    <Button onClick={() => goToQuestion(currentIndex + 1)}>
+                      Selanjutnya
+                      <ArrowRight className="size-4 ml-2" />
+                    </Button>
+                  ) : (
+                    <Button onClick={() => setIsFinishOpen(true)}>
+                      <Flag className="size-4 mr-2" />
+                      Selesaikan Tes
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                Tes ini belum memiliki soal
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {/* Navigator */}
+        <div className="lg:col-span-1">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Navigasi Soal</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <QuestionNavigator
+                items={navigatorItems}
+                onSelect={goToQuestion}
+              />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <DialogFinishTest
+        open={isFinishOpen}
+        onOpenChange={setIsFinishOpen}
+        testName={attempt.test?.name || "tes"}
+        answeredCount={answeredCount}
+        totalCount={questions.length}
+        unansweredRequiredCount={unansweredRequiredCount}
+        isFinishing={finishAttemptMutation.isPending}
+        onConfirm={() => handleFinish("completed")}
+      />
+    </div>
+  );
+}
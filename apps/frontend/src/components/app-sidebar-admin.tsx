@@ -8,6 +8,8 @@ import {
   Settings,
   FileText,
   Clock,
+  ClipboardCheck,
+  PenLine,
 } from "lucide-react";
 
 import { NavMain } from "@/components/nav-main";
@@ -50,6 +52,16 @@ const data = {
       url: "/admin/sessions",
       icon: Clock,
     },
+    {
+      title: "Penilaian Manual",
+      url: "/admin/scoring",
+      icon: PenLine,
+    },
+    {
+      title: "Review Psikolog",
+      url: "/admin/reviews",
+      icon: ClipboardCheck,
+    },
     {
       title: "Laporan & Hasil",
       url: "/admin/reports",
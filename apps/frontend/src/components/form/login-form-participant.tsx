@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -9,32 +9,50 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
-import { AlertCircle, Loader2, Info } from "lucide-react";
+import { AlertCircle, Loader2, Info, ArrowLeft } from "lucide-react";
 import { toast } from "sonner";
 import Image from "next/image";
 import Link from "next/link";
 import { useNextAuth } from "@/hooks/useNextAuth";
+import type { ParticipantOtpResponse } from "shared-types";
 
-// PARTICIPANT LOGIN FORM (Updated)
+// PARTICIPANT LOGIN FORM (OTP, two steps)
 const participantLoginSchema = z.object({
-  phone: z
+  contact: z
     .string()
-    .min(1, "Nomor telepon tidak boleh kosong")
-    .max(20, "Nomor telepon terlalu panjang")
-    .regex(/^[0-9+\-\s()]+$/, "Format nomor telepon tidak valid"),
+    .min(1, "Nomor telepon atau email tidak boleh kosong")
+    .max(255, "Nomor telepon atau email terlalu panjang")
+    .refine(
+      (value) =>
+        value.includes("@")
+          ? z.string().email().safeParse(value.trim()).success
+          : /^[0-9+\-\s()]{1,20}$/.test(value.trim()),
+      "Format nomor telepon atau email tidak valid"
+    ),
+  code: z.string(),
   rememberMe: z.boolean(),
 });
 
 type ParticipantLoginFormData = z.infer<typeof participantLoginSchema>;
 
+// Phone or email payload for the OTP endpoints
+const toContactPayload = (contact: string) =>
+  contact.includes("@") ? { email: contact.trim() } : { phone: contact.trim() };
+
 export function LoginFormParticipant({
   className,
   ...props
 }: React.ComponentProps<"div">) {
-  const { useParticipantLogin } = useNextAuth();
+  const { useRequestParticipantOtp, useParticipantLogin } = useNextAuth();
 
+  const requestOtpMutation = useRequestParticipantOtp();
   const participantLoginMutation = useParticipantLogin();
 
+  const [otpInfo, setOtpInfo] = useState<ParticipantOtpResponse["data"] | null>(
+    null
+  );
+  const [resendIn, setResendIn] = useState(0);
+
   const {
     register,
     handleSubmit,
@@ -42,86 +60,112 @@ export function LoginFormParticipant({
     setError,
     clearErrors,
     watch,
+    setValue,
+    getValues,
   } = useForm<ParticipantLoginFormData>({
     resolver: zodResolver(participantLoginSchema),
     mode: "onChange",
     defaultValues: {
-      phone: "+62812345678",
+      contact: "",
+      code: "",
       rememberMe: true, // Default to remember me
     },
   });
 
   const watchedValues = watch();
 
-  const onSubmit = async (data: ParticipantLoginFormData) => {
+  // Countdown until a new code may be requested
+  useEffect(() => {
+    if (!otpInfo) return;
+
+    const update = () =>
+      setResendIn(
+        Math.max(
+          0,
+          Math.ceil(
+            (new Date(otpInfo.resend_available_at).getTime() - Date.now()) /
+              1000
+          )
+        )
+      );
+    update();
+    const timer = setInterval(update, 1000);
+    return () => clearInterval(timer);
+  }, [otpInfo]);
+
+  const handleAuthError = (error: any) => {
+    const errorMsg = (error.message || "").toLowerCase();
+
+    if (errorMsg.includes("account") && errorMsg.includes("locked")) {
+      toast.error("Akun Terkunci", {
+        description:
+          "Akun Anda sementara dikunci karena terlalu banyak percobaan. Hubungi admin untuk bantuan.",
+      });
+    } else if (
+      errorMsg.includes("inactive") ||
+      errorMsg.includes("deactivated")
+    ) {
+      toast.error("Akun Nonaktif", {
+        description: "Akun Anda tidak aktif. Hubungi admin untuk aktivasi.",
+      });
+    } else {
+      setError("root", {
+        type: "manual",
+        message: error.message || "Terjadi kesalahan saat login",
+      });
+    }
+  };
+
+  const requestCode = async () => {
     try {
       clearErrors();
+      const result = await requestOtpMutation.mutateAsync(
+        toContactPayload(getValues("contact"))
+      );
 
-      // Create participant login request
-      const loginRequest = {
-        phone: data.phone.trim(),
-        rememberMe: data.rememberMe,
-      };
-
-      await participantLoginMutation.mutateAsync(loginRequest);
+      setOtpInfo(result.data);
+      setValue("code", "");
+      toast.success("Kode verifikasi dikirim", {
+        description: `Kode dikirim ke ${result.data.destination} dan berlaku selama 5 menit`,
+      });
     } catch (error: any) {
-      console.error("Login error:", error);
+      console.error("OTP request error:", error);
+      handleAuthError(error);
+    }
+  };
 
-      // Handle specific error cases based on the error message
-      if (error.message) {
-        const errorMsg = error.message.toLowerCase();
+  const onSubmit = async (data: ParticipantLoginFormData) => {
+    // Step 1: send the code
+    if (!otpInfo) {
+      await requestCode();
+      return;
+    }
 
-        if (
-          errorMsg.includes("user not found") ||
-          errorMsg.includes("tidak ditemukan") ||
-          errorMsg.includes("no participant found")
-        ) {
-          setError("phone", {
-            type: "manual",
-            message: "Nomor telepon tidak terdaftar",
-          });
+    // Step 2: verify the code
+    if (!/^\d{6}$/.test(data.code.trim())) {
+      setError("code", {
+        type: "manual",
+        message: "Kode verifikasi terdiri dari 6 angka",
+      });
+      return;
+    }
 
-          toast.error("Login gagal", {
-            description: "Nomor telepon tidak ditemukan dalam sistem",
-          });
-        } else if (
-          errorMsg.includes("account") &&
-          errorMsg.includes("locked")
-        ) {
-          toast.error("Akun Terkunci", {
-            description:
-              "Akun Anda sementara dikunci. Hubungi admin untuk bantuan.",
-          });
-        } else if (
-          errorMsg.includes("inactive") ||
-          errorMsg.includes("deactivated")
-        ) {
-          toast.error("Akun Nonaktif", {
-            description: "Akun Anda tidak aktif. Hubungi admin untuk aktivasi.",
-          });
-        } else if (errorMsg.includes("phone")) {
-          setError("phone", {
-            type: "manual",
-            message: error.message,
-          });
-        } else {
-          // Generic error handling is done in the mutation's onError
-          // Just set form-level error for display
-          setError("root", {
-            type: "manual",
-            message: error.message || "Terjadi kesalahan saat login",
-          });
-        }
-      } else {
-        setError("root", {
-          type: "manual",
-          message: "Terjadi kesalahan saat login",
-        });
-      }
+    try {
+      clearErrors();
+
+      await participantLoginMutation.mutateAsync({
+        ...toContactPayload(data.contact),
+        code: data.code.trim(),
+        rememberMe: data.rememberMe,
+      });
+    } catch (error: any) {
+      console.error("Login error:", error);
+      setValue("code", "");
     }
   };
 
-  const isLoading = participantLoginMutation.isPending;
+  const isLoading =
+    requestOtpMutation.isPending || participantLoginMutation.isPending;
 
   return (
     <div className={cn("flex flex-col gap-6", className)} {...props}>
@@ -172,32 +216,88 @@ export function LoginFormParticipant({
           )}
 
           <div className="flex flex-col gap-4">
-            {/* Phone Field */}
+            {/* Contact Field */}
             <div className="grid gap-2">
-              <Label htmlFor="phone" className="text-sm font-medium">
-                Nomor Telepon
+              <Label htmlFor="contact" className="text-sm font-medium">
+                Nomor Telepon atau Email
               </Label>
               <Input
-                id="phone"
-                type="tel"
-                placeholder="08123456789 atau +628123456789"
-                disabled={isLoading}
-                {...register("phone")}
+                id="contact"
+                type="text"
+                placeholder="08123456789 atau nama@email.com"
+                disabled={isLoading || !!otpInfo}
+                {...register("contact")}
                 className={cn(
-                  errors.phone && "border-red-500 focus-visible:ring-red-500"
+                  errors.contact && "border-red-500 focus-visible:ring-red-500"
                 )}
               />
-              {errors.phone && (
+              {errors.contact && (
                 <p className="text-sm text-red-600 flex items-center gap-1">
                   <AlertCircle className="size-3" />
-                  {errors.phone.message}
+                  {errors.contact.message}
                 </p>
               )}
               <p className="text-xs text-muted-foreground">
-                Masukkan nomor telepon yang terdaftar di sistem
+                Kode verifikasi akan dikirim ke nomor telepon atau email yang
+                terdaftar di sistem
               </p>
             </div>
 
+            {/* Verification Code Field */}
+            {otpInfo && (
+              <div className="grid gap-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="code" className="text-sm font-medium">
+                    Kode Verifikasi
+                  </Label>
+                  <button
+                    type="button"
+                    className="flex items-center gap-1 text-xs text-muted-foreground hover:text-primary"
+                    onClick={() => {
+                      setOtpInfo(null);
+                      clearErrors();
+                    }}
+                    disabled={isLoading}
+                  >
+                    <ArrowLeft className="size-3" />
+                    Ganti kontak
+                  </button>
+                </div>
+                <Input
+                  id="code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  placeholder="6 digit kode"
+                  disabled={isLoading}
+                  {...register("code")}
+                  className={cn(
+                    "tracking-[0.5em] text-center",
+                    errors.code && "border-red-500 focus-visible:ring-red-500"
+                  )}
+                />
+                {errors.code && (
+                  <p className="text-sm text-red-600 flex items-center gap-1">
+                    <AlertCircle className="size-3" />
+                    {errors.code.message}
+                  </p>
+                )}
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>Dikirim ke {otpInfo.destination}</span>
+                  <button
+                    type="button"
+                    className="underline underline-offset-4 hover:text-primary disabled:no-underline disabled:opacity-60"
+                    onClick={requestCode}
+                    disabled={isLoading || resendIn > 0}
+                  >
+                    {resendIn > 0
+                      ? `Kirim ulang (${resendIn} dtk)`
+                      : "Kirim ulang kode"}
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Remember Me Checkbox */}
             <div className="flex items-center space-x-2">
               <Checkbox
@@ -230,10 +330,12 @@ export function LoginFormParticipant({
               {isLoading ? (
                 <>
                   <Loader2 className="mr-2 size-4 animate-spin" />
-                  Memproses Login...
+                  {otpInfo ? "Memproses Login..." : "Mengirim Kode..."}
                 </>
-              ) : (
+              ) : otpInfo ? (
                 "Masuk ke Sistem"
+              ) : (
+                "Kirim Kode Verifikasi"
               )}
             </Button>
           </div>
@@ -245,6 +347,14 @@ export function LoginFormParticipant({
               <div className="text-sm text-blue-800">
                 <p className="font-medium mb-1">Informasi Login:</p>
                 <ul className="text-xs space-y-1 text-blue-700">
+                  <li>
+                    • Kode verifikasi berlaku 5 menit dan hanya dapat dipakai
+                    sekali
+                  </li>
+                  <li>
+                    • Akun dikunci sementara setelah 5 kali salah memasukkan
+                    kode
+                  </li>
                   <li>
                     • Session dikelola dengan Next-Auth v5 untuk keamanan
                     optimal
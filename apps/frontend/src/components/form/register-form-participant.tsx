@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -21,6 +21,7 @@ import {
   SelectValue,
 } from "../ui/select";
 import { useUsers } from "@/hooks/useUsers";
+import { parseNik } from "shared-types";
 
 // Form validation schema for participant registration
 const participantRegistrationSchema = z.object({
@@ -28,7 +29,11 @@ const participantRegistrationSchema = z.object({
     .string()
     .min(1, "NIK tidak boleh kosong")
     .length(16, "NIK harus 16 digit")
-    .regex(/^\d+$/, "NIK hanya boleh berisi angka"),
+    .regex(/^\d+$/, "NIK hanya boleh berisi angka")
+    .refine(
+      (nik) => parseNik(nik).valid,
+      "NIK tidak valid, periksa kembali kode wilayah dan tanggal lahir"
+    ),
   name: z
     .string()
     .min(1, "Nama tidak boleh kosong")
@@ -73,6 +78,7 @@ export function RegisterFormParticipant({
     clearErrors,
     watch,
     reset,
+    setValue,
   } = useForm<ParticipantRegistrationData>({
     resolver: zodResolver(participantRegistrationSchema),
     mode: "onChange",
@@ -87,6 +93,16 @@ export function RegisterFormParticipant({
 
   // Watch form values for real-time validation feedback
   const watchedValues = watch();
+
+  // Gender encoded in the NIK, picked for the user until they choose one
+  const nikResult = parseNik(watchedValues.nik || "");
+  const nikGender = nikResult.valid ? nikResult.info.gender : null;
+
+  useEffect(() => {
+    if (nikGender && !watchedValues.gender) {
+      setValue("gender", nikGender, { shouldValidate: true });
+    }
+  }, [nikGender]);
   const isFormValid =
     Object.keys(errors).length === 0 &&
     watchedValues.nik &&
@@ -428,6 +444,14 @@ export function RegisterFormParticipant({
                   {errors.gender.message}
                 </p>
               )}
+              {nikGender &&
+                watchedValues.gender &&
+                watchedValues.gender !== nikGender && (
+                  <p className="text-sm text-amber-600 flex items-center gap-1">
+                    <AlertCircle className="size-3" />
+                    Jenis kelamin tidak sesuai dengan NIK
+                  </p>
+                )}
             </div>
 
             {/* Submit Button */}
@@ -7,6 +7,7 @@ const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL;
 
 interface ApiRequestOptions extends RequestInit {
   skipAuthRefresh?: boolean; // Skip automatic token refresh for this request
+  responseType?: "json" | "blob"; // "blob" for images and other files
 }
 
 export function useApi() {
@@ -18,7 +19,11 @@ export function useApi() {
       options: ApiRequestOptions = {}
     ): Promise<T> => {
       const url = `${API_BASE_URL}${endpoint}`;
-      const { skipAuthRefresh = false, ...requestOptions } = options;
+      const {
+        skipAuthRefresh = false,
+        responseType = "json",
+        ...requestOptions
+      } = options;
 
       // Get access token from session
       const accessToken = session?.accessToken;
@@ -93,7 +98,9 @@ export function useApi() {
         throw error;
       }
 
-      return response.json();
+      return responseType === "blob"
+        ? ((await response.blob()) as T)
+        : response.json();
     },
     [session, update]
   );
@@ -3,6 +3,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { useSession } from "next-auth/react";
 import { useApi } from "./useApi";
+import type { SessionModuleAccess } from "shared-types";
 
 // Admin Dashboard Types (existing)
 export interface DashboardOverview {
@@ -84,6 +85,15 @@ export interface UpcomingSession {
   can_access: boolean;
 }
 
+export interface ActiveSession {
+  id: string;
+  session_name: string;
+  session_code: string;
+  start_time: string;
+  end_time: string;
+  modules: SessionModuleAccess[];
+}
+
 export interface GetParticipantDashboardResponse {
   success: boolean;
   message: string;
@@ -94,6 +104,7 @@ export interface GetParticipantDashboardResponse {
     recent_tests: RecentTest[];
     tests_by_category: Record<string, number>;
     upcoming_sessions: UpcomingSession[];
+    active_sessions: ActiveSession[];
   };
   timestamp: string;
 }
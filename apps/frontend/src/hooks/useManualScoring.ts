@@ -0,0 +1,173 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useApi } from "./useApi";
+import type {
+  GetDrawingReplayResponse,
+  GetManualScoringQueueQuery,
+  GetManualScoringQueueResponse,
+  GetRaterAgreementQuery,
+  GetRaterAgreementResponse,
+  GetTestManualScoringResponse,
+  ManualScoringAnswerResponse,
+  SubmitAnswerRatingRequest,
+  SubmitAnswerRatingResponse,
+  UpdateTestManualScoringConfigRequest,
+  UpdateTestManualScoringResponse,
+} from "shared-types";
+
+export function useManualScoring() {
+  const { apiCall } = useApi();
+  const queryClient = useQueryClient();
+
+  // Get manual scoring queue
+  const useGetScoringQueue = (params?: Partial<GetManualScoringQueueQuery>) => {
+    const queryParams = new URLSearchParams();
+
+    if (params?.page) queryParams.set("page", params.page.toString());
+    if (params?.limit) queryParams.set("limit", params.limit.toString());
+    if (params?.status) queryParams.set("status", params.status);
+    if (params?.test_id) queryParams.set("test_id", params.test_id);
+    if (params?.session_id) queryParams.set("session_id", params.session_id);
+    if (params?.question_type)
+      queryParams.set("question_type", params.question_type);
+    if (params?.search) queryParams.set("search", params.search);
+
+    return useQuery({
+      queryKey: ["manual-scoring", "queue", params],
+      queryFn: () =>
+        apiCall<GetManualScoringQueueResponse>(
+          `/results/manual-scoring/queue?${queryParams.toString()}`
+        ),
+      staleTime: 60 * 1000, // 1 minute
+    });
+  };
+
+  // Get answer with its dimensions and ratings
+  const useGetScoringAnswer = (answerId: string) => {
+    return useQuery({
+      queryKey: ["manual-scoring", "answer", answerId],
+      queryFn: () =>
+        apiCall<ManualScoringAnswerResponse>(
+          `/results/manual-scoring/answers/${answerId}`
+        ),
+      enabled: !!answerId,
+    });
+  };
+
+  // Get the strokes of a drawing answer for replay
+  const useGetDrawingReplay = (answerId: string, enabled = true) => {
+    return useQuery({
+      queryKey: ["manual-scoring", "answer", answerId, "drawing"],
+      queryFn: () =>
+        apiCall<GetDrawingReplayResponse>(
+          `/results/manual-scoring/answers/${answerId}/drawing`
+        ),
+      enabled: !!answerId && enabled,
+      staleTime: 5 * 60 * 1000,
+    });
+  };
+
+  // Get the stored image of a drawing answer, the endpoint needs the
+  // access token so it cannot be used as an <img> src directly
+  const useGetDrawingImage = (answerId: string, enabled = true) => {
+    return useQuery({
+      queryKey: ["manual-scoring", "answer", answerId, "drawing", "image"],
+      queryFn: () =>
+        apiCall<Blob>(
+          `/results/manual-scoring/answers/${answerId}/drawing/image`,
+          { responseType: "blob" }
+        ),
+      enabled: !!answerId && enabled,
+      staleTime: 5 * 60 * 1000,
+    });
+  };
+
+  // Save own rating of an answer
+  const useRateAnswer = () => {
+    return useMutation({
+      mutationFn: ({
+        answerId,
+        data,
+      }: {
+        answerId: string;
+        data: SubmitAnswerRatingRequest;
+      }) =>
+        apiCall<SubmitAnswerRatingResponse>(
+          `/results/manual-scoring/answers/${answerId}/rating`,
+          {
+            method: "PUT",
+            body: JSON.stringify(data),
+          }
+        ),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: ["manual-scoring"] });
+      },
+    });
+  };
+
+  // Get inter-rater agreement
+  const useGetRaterAgreement = (params?: GetRaterAgreementQuery) => {
+    const queryParams = new URLSearchParams();
+
+    if (params?.test_id) queryParams.set("test_id", params.test_id);
+    if (params?.session_id) queryParams.set("session_id", params.session_id);
+
+    return useQuery({
+      queryKey: ["manual-scoring", "agreement", params],
+      queryFn: () =>
+        apiCall<GetRaterAgreementResponse>(
+          `/results/manual-scoring/agreement?${queryParams.toString()}`
+        ),
+      staleTime: 5 * 60 * 1000,
+    });
+  };
+
+  // Get rater settings of a test
+  const useGetTestManualScoring = (testId: string) => {
+    return useQuery({
+      queryKey: ["tests", testId, "manual-scoring"],
+      queryFn: () =>
+        apiCall<GetTestManualScoringResponse>(
+          `/tests/${testId}/manual-scoring`
+        ),
+      enabled: !!testId,
+    });
+  };
+
+  // Update rater settings of a test
+  const useUpdateTestManualScoring = () => {
+    return useMutation({
+      mutationFn: ({
+        testId,
+        data,
+      }: {
+        testId: string;
+        data: UpdateTestManualScoringConfigRequest;
+      }) =>
+        apiCall<UpdateTestManualScoringResponse>(
+          `/tests/${testId}/manual-scoring`,
+          {
+            method: "PUT",
+            body: JSON.stringify(data),
+          }
+        ),
+      onSuccess: (_, { testId }) => {
+        queryClient.invalidateQueries({
+          queryKey: ["tests", testId, "manual-scoring"],
+        });
+      },
+    });
+  };
+
+  return {
+    useGetScoringQueue,
+    useGetScoringAnswer,
+    useGetDrawingReplay,
+    useGetDrawingImage,
+    useRateAnswer,
+    useGetRaterAgreement,
+    useGetTestManualScoring,
+    useUpdateTestManualScoring,
+  };
+}
@@ -4,7 +4,13 @@ import { useSession, signIn, signOut } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 import { useMutation } from "@tanstack/react-query";
-import type { AuthUserData } from "shared-types";
+import type {
+  AuthUserData,
+  ParticipantOtpRequest,
+  ParticipantOtpResponse,
+} from "shared-types";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL;
 
 export function useNextAuth() {
   const { data: session, status } = useSession();
@@ -112,12 +118,45 @@ export function useNextAuth() {
     });
   };
 
-  // Participant Login
+  // Participant Login Step 1: request a one-time code
+  const useRequestParticipantOtp = () => {
+    return useMutation({
+      mutationFn: async (data: ParticipantOtpRequest) => {
+        const response = await fetch(
+          `${API_BASE_URL}/auth/participant/otp/request`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(data),
+          }
+        );
+
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok || !result.success) {
+          throw new Error(
+            result.errors?.[0]?.message ||
+              result.message ||
+              "Gagal mengirim kode verifikasi"
+          );
+        }
+
+        return result as ParticipantOtpResponse;
+      },
+    });
+  };
+
+  // Participant Login Step 2: verify the code
   const useParticipantLogin = () => {
     return useMutation({
-      mutationFn: async (data: { phone: string; rememberMe?: boolean }) => {
+      mutationFn: async (data: {
+        phone?: string;
+        email?: string;
+        code: string;
+        rememberMe?: boolean;
+      }) => {
         const result = await signIn("participant", {
-          phone: data.phone,
+          ...(data.phone ? { phone: data.phone } : { email: data.email }),
+          code: data.code,
           redirect: false,
         });
 
@@ -159,13 +198,10 @@ export function useNextAuth() {
 
           if (
             errorMsg.includes("user not found") ||
-            errorMsg.includes("invalid credentials")
+            errorMsg.includes("invalid credentials") ||
+            errorMsg.includes("verification code")
           ) {
-            errorMessage = "Nomor telepon tidak ditemukan dalam sistem";
-            actionButton = {
-              label: "Daftar Akun",
-              onClick: () => router.push("/participant/register"),
-            };
+            errorMessage = "Kode verifikasi salah atau sudah tidak berlaku";
           } else if (
             errorMsg.includes("account") &&
             errorMsg.includes("locked")
@@ -248,6 +284,7 @@ export function useNextAuth() {
     isLoading,
     session,
     useAdminLogin,
+    useRequestParticipantOtp,
     useParticipantLogin,
     logout,
     getAccessToken,
@@ -2,6 +2,7 @@
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useApi } from "./useApi";
+import type { ScoringRule } from "shared-types";
 
 // Define question types based on the backend schema
 export interface QuestionData {
@@ -27,6 +28,9 @@ export interface QuestionData {
   image_url?: string;
   audio_url?: string;
   scoring_key?: Record<string, number>;
+  scoring_rule?: ScoringRule | null;
+  dimension?: string | null;
+  difficulty?: "easy" | "medium" | "hard" | null;
   is_required: boolean;
   created_at: string;
   updated_at: string;
@@ -90,6 +94,9 @@ export interface CreateQuestionRequest {
   image_url?: string;
   audio_url?: string;
   scoring_key?: Record<string, number>;
+  scoring_rule?: ScoringRule;
+  dimension?: string;
+  difficulty?: "easy" | "medium" | "hard";
   is_required?: boolean;
 }
 
@@ -121,6 +128,9 @@ export interface UpdateQuestionRequest {
   image_url?: string;
   audio_url?: string;
   scoring_key?: Record<string, number>;
+  scoring_rule?: ScoringRule | null;
+  dimension?: string | null;
+  difficulty?: "easy" | "medium" | "hard" | null;
   is_required?: boolean;
 }
 
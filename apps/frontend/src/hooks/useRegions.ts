@@ -0,0 +1,36 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { useApi } from "./useApi";
+import type { GetProvincesResponse, GetRegenciesResponse } from "shared-types";
+
+export function useRegions() {
+  const { apiCall } = useApi();
+
+  // Get all provinces
+  const useGetProvinces = () => {
+    return useQuery({
+      queryKey: ["regions", "provinces"],
+      queryFn: () => apiCall<GetProvincesResponse>("/regions/provinces"),
+      staleTime: Infinity, // reference data, changes only with a deploy
+    });
+  };
+
+  // Get regencies and cities of a province
+  const useGetRegencies = (provinceCode: string | undefined) => {
+    return useQuery({
+      queryKey: ["regions", "regencies", provinceCode],
+      queryFn: () =>
+        apiCall<GetRegenciesResponse>(
+          `/regions/provinces/${provinceCode}/regencies`
+        ),
+      enabled: !!provinceCode,
+      staleTime: Infinity,
+    });
+  };
+
+  return {
+    useGetProvinces,
+    useGetRegencies,
+  };
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useApi } from "./useApi";
+import type {
+  GetSessionResultReviewQueueQuery,
+  GetSessionResultReviewQueueResponse,
+  SessionResultReviewResponse,
+  UpdateSessionResultReviewRequest,
+} from "shared-types";
+
+export function useSessionResultReview() {
+  const { apiCall } = useApi();
+  const queryClient = useQueryClient();
+
+  // Get review queue
+  const useGetReviewQueue = (
+    params?: Partial<GetSessionResultReviewQueueQuery>
+  ) => {
+    const queryParams = new URLSearchParams();
+
+    if (params?.page) queryParams.set("page", params.page.toString());
+    if (params?.limit) queryParams.set("limit", params.limit.toString());
+    if (params?.session_id) queryParams.set("session_id", params.session_id);
+    if (params?.status) queryParams.set("status", params.status);
+    if (params?.search) queryParams.set("search", params.search);
+    if (params?.sort_order) queryParams.set("sort_order", params.sort_order);
+
+    return useQuery({
+      queryKey: ["session-result-review", "queue", params],
+      queryFn: () =>
+        apiCall<GetSessionResultReviewQueueResponse>(
+          `/results/sessions/review-queue?${queryParams.toString()}`
+        ),
+      staleTime: 60 * 1000, // 1 minute
+    });
+  };
+
+  // Get session result by ID
+  const useGetSessionResult = (sessionResultId: string) => {
+    return useQuery({
+      queryKey: ["session-result-review", sessionResultId],
+      queryFn: () =>
+        apiCall<SessionResultReviewResponse>(
+          `/results/sessions/${sessionResultId}`
+        ),
+      enabled: !!sessionResultId,
+    });
+  };
+
+  // Save review narrative
+  const useUpdateReview = () => {
+    return useMutation({
+      mutationFn: ({
+        id,
+        data,
+      }: {
+        id: string;
+        data: UpdateSessionResultReviewRequest;
+      }) =>
+        apiCall<SessionResultReviewResponse>(`/results/sessions/${id}/review`, {
+          method: "PUT",
+          body: JSON.stringify(data),
+        }),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: ["session-result-review"] });
+      },
+    });
+  };
+
+  // Finalize (sign off) session result
+  const useFinalizeSessionResult = () => {
+    return useMutation({
+      mutationFn: (id: string) =>
+        apiCall<SessionResultReviewResponse>(
+          `/results/sessions/${id}/finalize`,
+          {
+            method: "POST",
+          }
+        ),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: ["session-result-review"] });
+      },
+    });
+  };
+
+  return {
+    useGetReviewQueue,
+    useGetSessionResult,
+    useUpdateReview,
+    useFinalizeSessionResult,
+  };
+}
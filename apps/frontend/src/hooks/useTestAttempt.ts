@@ -0,0 +1,188 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useApi } from "./useApi";
+import type {
+  AutoSaveAnswerRequest,
+  AutoSaveAnswerResponse,
+  FinishTestAttemptRequest,
+  FinishTestAttemptResponse,
+  GetAttemptQuestionResponse,
+  GetAttemptQuestionsResponse,
+  GetKraepelinSheetResponse,
+  GetTestAttemptResponse,
+  StartTestAttemptRequest,
+  StartTestAttemptResponse,
+  SubmitAnswerRequest,
+  SubmitAnswerResponse,
+  SubmitKraepelinColumnRequest,
+  SubmitKraepelinColumnResponse,
+} from "shared-types";
+
+export function useTestAttempt() {
+  const { apiCall } = useApi();
+  const queryClient = useQueryClient();
+
+  // Start a new attempt, or resume the one still running for this test
+  const useStartAttempt = () => {
+    return useMutation({
+      mutationFn: (data: StartTestAttemptRequest) =>
+        apiCall<StartTestAttemptResponse>("/attempts/start", {
+          method: "POST",
+          body: JSON.stringify(data),
+        }),
+    });
+  };
+
+  // Get attempt with its test details
+  const useGetAttempt = (attemptId: string) => {
+    return useQuery({
+      queryKey: ["attempt", attemptId],
+      queryFn: () => apiCall<GetTestAttemptResponse>(`/attempts/${attemptId}`),
+      enabled: !!attemptId,
+      refetchOnWindowFocus: false,
+      retry: false,
+    });
+  };
+
+  // Get every question of the attempt (answer keys are never included)
+  const useGetAttemptQuestions = (attemptId: string) => {
+    return useQuery({
+      queryKey: ["attempt-questions", attemptId],
+      queryFn: () =>
+        apiCall<GetAttemptQuestionsResponse>(
+          `/attempts/${attemptId}/questions`
+        ),
+      enabled: !!attemptId,
+      staleTime: Infinity, // the runner keeps answers in local state
+      refetchOnWindowFocus: false,
+      retry: false,
+    });
+  };
+
+  // Open a question; this starts its clock when it has a time limit
+  const useOpenQuestion = () => {
+    return useMutation({
+      mutationFn: ({
+        attemptId,
+        questionId,
+      }: {
+        attemptId: string;
+        questionId: string;
+      }) =>
+        apiCall<GetAttemptQuestionResponse>(
+          `/attempts/${attemptId}/questions/${questionId}`
+        ),
+    });
+  };
+
+  // Save a draft answer without scoring it
+  const useAutoSaveAnswer = () => {
+    return useMutation({
+      mutationFn: ({
+        attemptId,
+        data,
+      }: {
+        attemptId: string;
+        data: AutoSaveAnswerRequest;
+      }) =>
+        apiCall<AutoSaveAnswerResponse>(
+          `/attempts/${attemptId}/answers/auto-save`,
+          {
+            method: "POST",
+            body: JSON.stringify(data),
+          }
+        ),
+    });
+  };
+
+  // Submit a final answer
+  const useSubmitAnswer = () => {
+    return useMutation({
+      mutationFn: ({
+        attemptId,
+        data,
+      }: {
+        attemptId: string;
+        data: SubmitAnswerRequest;
+      }) =>
+        apiCall<SubmitAnswerResponse>(`/attempts/${attemptId}/answers`, {
+          method: "POST",
+          body: JSON.stringify(data),
+        }),
+    });
+  };
+
+  // Get the column sheet of a Kraepelin / Pauli attempt with its timing
+  const useGetKraepelinSheet = (attemptId: string, enabled = true) => {
+    return useQuery({
+      queryKey: ["attempt-kraepelin", attemptId],
+      queryFn: () =>
+        apiCall<GetKraepelinSheetResponse>(`/attempts/${attemptId}/kraepelin`),
+      enabled: !!attemptId && enabled,
+      staleTime: Infinity, // column timing is followed on the client
+      refetchOnWindowFocus: false,
+      retry: false,
+    });
+  };
+
+  // Submit the answers of one column
+  const useSubmitKraepelinColumn = () => {
+    return useMutation({
+      mutationFn: ({
+        attemptId,
+        columnIndex,
+        data,
+      }: {
+        attemptId: string;
+        columnIndex: number;
+        data: SubmitKraepelinColumnRequest;
+      }) =>
+        apiCall<SubmitKraepelinColumnResponse>(
+          `/attempts/${attemptId}/kraepelin/columns/${columnIndex}`,
+          {
+            method: "POST",
+            body: JSON.stringify(data),
+          }
+        ),
+    });
+  };
+
+  // Finish the attempt
+  const useFinishAttempt = () => {
+    return useMutation({
+      mutationFn: ({
+        attemptId,
+        data,
+      }: {
+        attemptId: string;
+        data: FinishTestAttemptRequest;
+      }) =>
+        apiCall<FinishTestAttemptResponse>(`/attempts/${attemptId}/finish`, {
+          method: "POST",
+          body: JSON.stringify(data),
+        }),
+      onSuccess: (_, { attemptId }) => {
+        queryClient.removeQueries({
+          queryKey: ["attempt-questions", attemptId],
+        });
+        queryClient.invalidateQueries({ queryKey: ["attempt", attemptId] });
+        queryClient.invalidateQueries({
+          queryKey: ["dashboard", "participant"],
+        });
+      },
+    });
+  };
+
+  return {
+    useStartAttempt,
+    useGetAttempt,
+    useGetAttemptQuestions,
+    useOpenQuestion,
+    useAutoSaveAnswer,
+    useSubmitAnswer,
+    useGetKraepelinSheet,
+    useSubmitKraepelinColumn,
+    useFinishAttempt,
+  };
+}
@@ -15,6 +15,7 @@ import type {
   GetTestStatsResponse,
   GetTestFilterOptionsResponse,
   UpdateTestDisplayOrderRequest,
+  GetTestItemAnalysisResponse,
 } from "shared-types";
 
 export function useTests() {
@@ -69,6 +70,17 @@ export function useTests() {
     });
   };
 
+  // Get item analysis of the test questions
+  const useGetTestItemAnalysis = (testId: string) => {
+    return useQuery({
+      queryKey: ["tests", testId, "item-analysis"],
+      queryFn: () =>
+        apiCall<GetTestItemAnalysisResponse>(`/tests/${testId}/analytics`),
+      enabled: !!testId,
+      staleTime: 5 * 60 * 1000,
+    });
+  };
+
   // Get test statistics
   const useGetTestStats = () => {
     return useQuery({
@@ -152,6 +164,7 @@ export function useTests() {
   return {
     useGetTests,
     useGetTestById,
+    useGetTestItemAnalysis,
     useGetTestStats,
     useGetTestFilterOptions,
     useCreateTest,
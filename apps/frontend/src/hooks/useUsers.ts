@@ -12,6 +12,12 @@ import type {
   CreateUserResponse,
   UpdateUserRequest,
   UpdateUserResponse,
+  UserImportRequest,
+  UserImportResponse,
+  GetImportProfilesResponse,
+  CreateImportProfileRequest,
+  UpdateImportProfileRequest,
+  ImportProfileResponse,
 } from "shared-types";
 
 export function useUsers() {
@@ -98,11 +104,95 @@ export function useUsers() {
     });
   };
 
+  // Import users from CSV/XLSX (dry_run returns the per-row preview)
+  const useImportUsers = () => {
+    return useMutation({
+      mutationFn: (data: UserImportRequest) =>
+        apiCall<UserImportResponse>("/users/bulk/import", {
+          method: "POST",
+          body: JSON.stringify(data),
+        }),
+      onSuccess: (_, variables) => {
+        if (!variables.dry_run) {
+          queryClient.invalidateQueries({ queryKey: ["users"] });
+        }
+      },
+    });
+  };
+
+  // Get saved import profiles
+  const useGetImportProfiles = (enabled = true) => {
+    return useQuery({
+      queryKey: ["users", "import-profiles"],
+      queryFn: () => apiCall<GetImportProfilesResponse>("/users/bulk/profiles"),
+      enabled,
+      staleTime: 5 * 60 * 1000,
+    });
+  };
+
+  // Create import profile
+  const useCreateImportProfile = () => {
+    return useMutation({
+      mutationFn: (data: CreateImportProfileRequest) =>
+        apiCall<ImportProfileResponse>("/users/bulk/profiles", {
+          method: "POST",
+          body: JSON.stringify(data),
+        }),
+      onSuccess: () => {
+        queryClient.invalidateQueries({
+          queryKey: ["users", "import-profiles"],
+        });
+      },
+    });
+  };
+
+  // Update import profile
+  const useUpdateImportProfile = () => {
+    return useMutation({
+      mutationFn: ({
+        id,
+        data,
+      }: {
+        id: string;
+        data: UpdateImportProfileRequest;
+      }) =>
+        apiCall<ImportProfileResponse>(`/users/bulk/profiles/${id}`, {
+          method: "PUT",
+          body: JSON.stringify(data),
+        }),
+      onSuccess: () => {
+        queryClient.invalidateQueries({
+          queryKey: ["users", "import-profiles"],
+        });
+      },
+    });
+  };
+
+  // Delete import profile
+  const useDeleteImportProfile = () => {
+    return useMutation({
+      mutationFn: (profileId: string) =>
+        apiCall(`/users/bulk/profiles/${profileId}`, {
+          method: "DELETE",
+        }),
+      onSuccess: () => {
+        queryClient.invalidateQueries({
+          queryKey: ["users", "import-profiles"],
+        });
+      },
+    });
+  };
+
   return {
     useGetUsers,
     useGetUserById,
     useCreateUser,
     useUpdateUser,
     useDeleteUser,
+    useImportUsers,
+    useGetImportProfiles,
+    useCreateImportProfile,
+    useUpdateImportProfile,
+    useDeleteImportProfile,
   };
 }
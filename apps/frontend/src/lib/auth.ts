@@ -1,6 +1,9 @@
 import NextAuth, { Session } from "next-auth";
 import Credentials from "next-auth/providers/credentials";
-import type { AdminLoginRequest, ParticipantLoginRequest } from "shared-types";
+import type {
+  AdminLoginRequest,
+  ParticipantOtpVerifyRequest,
+} from "shared-types";
 
 const NEXT_PUBLIC_API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL;
 
@@ -84,19 +87,33 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
           type: "tel",
           placeholder: "08123456789",
         },
+        email: {
+          label: "Email",
+          type: "email",
+        },
+        code: {
+          label: "Kode Verifikasi",
+          type: "text",
+        },
       },
       async authorize(credentials) {
         try {
-          if (!credentials?.phone) {
-            throw new Error("Nomor telepon harus diisi");
+          if (!credentials?.phone && !credentials?.email) {
+            throw new Error("Nomor telepon atau email harus diisi");
+          }
+          if (!credentials?.code) {
+            throw new Error("Kode verifikasi harus diisi");
           }
 
-          const loginData: ParticipantLoginRequest = {
-            phone: credentials.phone as string,
+          const loginData: ParticipantOtpVerifyRequest = {
+            ...(credentials.phone
+              ? { phone: credentials.phone as string }
+              : { email: credentials.email as string }),
+            code: credentials.code as string,
           };
 
           const response = await fetch(
-            `${NEXT_PUBLIC_API_BASE_URL}/auth/participant/login`,
+            `${NEXT_PUBLIC_API_BASE_URL}/auth/participant/otp/verify`,
             {
               method: "POST",
               headers: {
@@ -0,0 +1,42 @@
+import type { DrawingStroke } from "shared-types";
+
+export const DRAWING_BACKGROUND = "#ffffff";
+
+export function clearDrawingCanvas(context: CanvasRenderingContext2D) {
+  context.fillStyle = DRAWING_BACKGROUND;
+  context.fillRect(0, 0, context.canvas.width, context.canvas.height);
+}
+
+// Paint a stroke, or only its first pointCount points during a replay
+export function drawStroke(
+  context: CanvasRenderingContext2D,
+  stroke: DrawingStroke,
+  pointCount: number = stroke.points.length
+) {
+  const points = stroke.points.slice(0, pointCount);
+  if (points.length === 0) return;
+
+  context.strokeStyle =
+    stroke.tool === "eraser" ? DRAWING_BACKGROUND : stroke.color;
+  context.lineWidth = stroke.width;
+  context.lineCap = "round";
+  context.lineJoin = "round";
+  context.beginPath();
+  context.moveTo(points[0][0], points[0][1]);
+  // A single point still leaves a dot
+  if (points.length === 1) {
+    context.lineTo(points[0][0] + 0.01, points[0][1]);
+  }
+  for (const [x, y] of points.slice(1)) {
+    context.lineTo(x, y);
+  }
+  context.stroke();
+}
+
+export function drawStrokes(
+  context: CanvasRenderingContext2D,
+  strokes: DrawingStroke[]
+) {
+  clearDrawingCanvas(context);
+  strokes.forEach((stroke) => drawStroke(context, stroke));
+}
@@ -99,6 +99,10 @@ export const createTestSchema = z.object({
       invalid_type_error: "Status tidak valid",
     })
     .default("active"),
+
+  shuffle_questions: z.boolean(),
+
+  shuffle_options: z.boolean(),
 });
 
 export type CreateTestFormData = z.infer<typeof createTestSchema>;
@@ -115,6 +119,8 @@ export const createTestDefaultValues: Partial<CreateTestFormData> = {
   passing_score: 0,
   display_order: 0,
   status: "active",
+  shuffle_questions: false,
+  shuffle_options: false,
 };
 
 // Module type options
@@ -19,6 +19,11 @@ interface ModalState {
   deleteUserName: string | null;
   openDeleteUserModal: (userId: string, userName: string) => void;
   closeDeleteUserModal: () => void;
+
+  // Import Users Modal
+  isImportUserModalOpen: boolean;
+  openImportUserModal: () => void;
+  closeImportUserModal: () => void;
 }
 
 export const useModalStore = create<ModalState>((set) => ({
@@ -51,4 +56,9 @@ export const useModalStore = create<ModalState>((set) => ({
       deleteUserId: null,
       deleteUserName: null,
     }),
+
+  // Import Users Modal
+  isImportUserModalOpen: false,
+  openImportUserModal: () => set({ isImportUserModalOpen: true }),
+  closeImportUserModal: () => set({ isImportUserModalOpen: false }),
 }));
@@ -0,0 +1,304 @@
+import { z } from "zod";
+import { type QuestionDifficulty, QuestionDifficultyEnum } from "./question";
+
+// ==================== ENUMS ====================
+
+// Intelligence tests with right/wrong items can be given adaptively
+export const ADAPTIVE_TEST_CATEGORIES = ["raven", "iq", "army_alpha"] as const;
+
+export const AdaptiveStopReasonEnum = z.enum([
+  "standard_error", // ability measured precisely enough
+  "item_cap", // max_items administered
+  "item_bank_exhausted", // no unused items left
+  "not_reached", // attempt ended before a stop rule applied
+]);
+
+// ==================== BASE SCHEMAS ====================
+
+export const AdaptiveConfigSchema = z
+  .object({
+    min_items: z
+      .number()
+      .int("Minimum items must be an integer")
+      .min(1, "At least one item must be administered")
+      .max(200, "Minimum items cannot exceed 200")
+      .default(5),
+    max_items: z
+      .number()
+      .int("Maximum items must be an integer")
+      .min(1, "Maximum items must be at least 1")
+      .max(200, "Maximum items cannot exceed 200")
+      .default(30),
+    se_threshold: z
+      .number()
+      .min(0.1, "Standard error threshold must be at least 0.1")
+      .max(1.5, "Standard error threshold cannot exceed 1.5")
+      .default(0.3),
+    start_theta: z
+      .number()
+      .min(-3, "Starting ability must be between -3 and 3")
+      .max(3, "Starting ability must be between -3 and 3")
+      .default(0),
+  })
+  .refine((config) => config.min_items <= config.max_items, {
+    message: "Minimum items cannot exceed maximum items",
+    path: ["min_items"],
+  });
+
+// Two-parameter logistic item parameters from the calibration job
+export const ItemIrtParamsSchema = z.object({
+  discrimination: z.number(), // a
+  difficulty: z.number(), // b, on the ability scale
+  sample_size: z.number(),
+  calibrated_at: z.string().datetime(),
+});
+
+// Stored under test_results.detailed_analysis.adaptive
+export const AdaptiveAnalysisSchema = z.object({
+  theta: z.number(),
+  standard_error: z.number(),
+  items_administered: z.number(),
+  items_answered: z.number(),
+  stop_reason: AdaptiveStopReasonEnum,
+});
+
+// ==================== REQUEST SCHEMAS ====================
+
+// Path Parameters
+export const TestAdaptiveByTestIdRequestSchema = z.object({
+  testId: z.string().uuid("Invalid test ID format"),
+});
+
+// Turn adaptive delivery on with its stop rules, or off (null)
+export const UpdateTestAdaptiveConfigRequestSchema = z.object({
+  adaptive_config: AdaptiveConfigSchema.nullable(),
+});
+
+// ==================== RESPONSE SCHEMAS ====================
+
+export const AdaptiveItemSchema = z.object({
+  question_id: z.string().uuid(),
+  sequence: z.number(),
+  difficulty_tag: QuestionDifficultyEnum.nullable(),
+  discrimination: z.number(),
+  difficulty: z.number(),
+  is_calibrated: z.boolean(), // false while the tag-based defaults are used
+  sample_size: z.number().nullable(),
+  calibrated_at: z.string().datetime().nullable(),
+});
+
+export const TestAdaptiveDataSchema = z.object({
+  test_id: z.string().uuid(),
+  adaptive_config: AdaptiveConfigSchema.nullable(),
+  total_items: z.number(),
+  calibrated_items: z.number(),
+  calibrated_at: z.string().datetime().nullable(), // last calibration run
+  items: z.array(AdaptiveItemSchema),
+});
+
+export const GetTestAdaptiveResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: TestAdaptiveDataSchema,
+  timestamp: z.string(),
+});
+
+export const UpdateTestAdaptiveResponseSchema = GetTestAdaptiveResponseSchema;
+
+export const ItemCalibrationSummarySchema = z.object({
+  test_id: z.string().uuid(),
+  attempts_used: z.number(), // completed attempts with scored answers
+  items_calibrated: z.number(),
+  items_skipped: z.number(), // too few responses, or everyone right/wrong
+  calibrated_at: z.string().datetime(),
+});
+
+export const CalibrateTestItemsResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: ItemCalibrationSummarySchema,
+  timestamp: z.string(),
+});
+
+export const AdaptiveErrorResponseSchema = z.object({
+  success: z.literal(false),
+  message: z.string(),
+  errors: z
+    .array(
+      z.object({
+        field: z.string().optional(),
+        message: z.string(),
+        code: z.string().optional(),
+      })
+    )
+    .optional(),
+  timestamp: z.string(),
+});
+
+// ==================== TYPE EXPORTS ====================
+export type AdaptiveStopReason = z.infer<typeof AdaptiveStopReasonEnum>;
+export type AdaptiveConfig = z.infer<typeof AdaptiveConfigSchema>;
+export type ItemIrtParams = z.infer<typeof ItemIrtParamsSchema>;
+export type AdaptiveAnalysis = z.infer<typeof AdaptiveAnalysisSchema>;
+export type TestAdaptiveByTestIdRequest = z.infer<
+  typeof TestAdaptiveByTestIdRequestSchema
+>;
+export type UpdateTestAdaptiveConfigRequest = z.infer<
+  typeof UpdateTestAdaptiveConfigRequestSchema
+>;
+export type AdaptiveItem = z.infer<typeof AdaptiveItemSchema>;
+export type TestAdaptiveData = z.infer<typeof TestAdaptiveDataSchema>;
+export type GetTestAdaptiveResponse = z.infer<
+  typeof GetTestAdaptiveResponseSchema
+>;
+export type UpdateTestAdaptiveResponse = z.infer<
+  typeof UpdateTestAdaptiveResponseSchema
+>;
+export type ItemCalibrationSummary = z.infer<
+  typeof ItemCalibrationSummarySchema
+>;
+export type CalibrateTestItemsResponse = z.infer<
+  typeof CalibrateTestItemsResponseSchema
+>;
+export type AdaptiveErrorResponse = z.infer<typeof AdaptiveErrorResponseSchema>;
+
+// ==================== UTILITY TYPES ====================
+export interface IrtItemParameters {
+  discrimination: number;
+  difficulty: number;
+}
+
+export interface AdaptiveResponse extends IrtItemParameters {
+  is_correct: boolean;
+}
+
+export interface AbilityEstimate {
+  theta: number;
+  standard_error: number;
+}
+
+// ==================== UTILITY FUNCTIONS ====================
+
+export function isAdaptiveCategory(category: string): boolean {
+  return (ADAPTIVE_TEST_CATEGORIES as readonly string[]).includes(category);
+}
+
+// Uncalibrated items sit on the ability scale by their difficulty tag
+export function getDefaultIrtParameters(
+  difficultyTag: QuestionDifficulty | null
+): IrtItemParameters {
+  return {
+    discrimination: 1,
+    difficulty: difficultyTag ? DEFAULT_TAG_DIFFICULTY[difficultyTag] : 0,
+  };
+}
+
+// Chance of a correct answer at ability theta (2PL)
+export function irtProbability(item: IrtItemParameters, theta: number): number {
+  return 1 / (1 + Math.exp(-item.discrimination * (theta - item.difficulty)));
+}
+
+export function irtItemInformation(
+  item: IrtItemParameters,
+  theta: number
+): number {
+  const p = irtProbability(item, theta);
+  return item.discrimination * item.discrimination * p * (1 - p);
+}
+
+/**
+ * Expected a posteriori ability over a fixed grid with a normal prior around
+ * the starting ability. Unlike maximum likelihood it stays finite when every
+ * answer so far is right (or wrong); the posterior spread is the standard error
+ */
+export function estimateAbility(
+  responses: AdaptiveResponse[],
+  priorMean: number = 0
+): AbilityEstimate {
+  const logWeights = ABILITY_GRID.map((theta) => {
+    let logWeight = -0.5 * (theta - priorMean) * (theta - priorMean);
+    for (const response of responses) {
+      const p = irtProbability(response, theta);
+      logWeight += Math.log(response.is_correct ? p : 1 - p);
+    }
+    return logWeight;
+  });
+
+  const maxLogWeight = Math.max(...logWeights);
+  const weights = logWeights.map((value) => Math.exp(value - maxLogWeight));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const theta =
+    ABILITY_GRID.reduce((sum, point, i) => sum + point * weights[i], 0) / total;
+  const variance =
+    ABILITY_GRID.reduce(
+      (sum, point, i) => sum + (point - theta) * (point - theta) * weights[i],
+      0
+    ) / total;
+
+  return {
+    theta: roundAbility(theta),
+    standard_error: roundAbility(Math.sqrt(variance)),
+  };
+}
+
+export function getAdaptiveStopReason(
+  config: AdaptiveConfig,
+  estimate: AbilityEstimate,
+  itemsAdministered: number,
+  itemsRemaining: number
+): AdaptiveStopReason | null {
+  if (itemsAdministered >= config.max_items) return "item_cap";
+  if (
+    itemsAdministered >= config.min_items &&
+    estimate.standard_error <= config.se_threshold
+  ) {
+    return "standard_error";
+  }
+  if (itemsRemaining === 0) return "item_bank_exhausted";
+  return null;
+}
+
+/**
+ * Next item: the most informative at the current ability, picked at random
+ * among the top few so the same opening items are not shown to everyone
+ */
+export function selectNextAdaptiveItem<T extends IrtItemParameters>(
+  candidates: T[],
+  theta: number,
+  random: () => number = Math.random
+): T | null {
+  if (candidates.length === 0) return null;
+
+  const ranked = candidates
+    .map((item) => ({ item, information: irtItemInformation(item, theta) }))
+    .sort((a, b) => b.information - a.information)
+    .slice(0, ADAPTIVE_EXPOSURE_POOL);
+
+  return ranked[Math.floor(random() * ranked.length)].item;
+}
+
+function roundAbility(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// ==================== CONSTANTS ====================
+
+export const DEFAULT_ADAPTIVE_CONFIG: AdaptiveConfig = {
+  min_items: 5,
+  max_items: 30,
+  se_threshold: 0.3,
+  start_theta: 0,
+};
+
+// Number of best items the next one is drawn from
+export const ADAPTIVE_EXPOSURE_POOL = 3;
+
+const DEFAULT_TAG_DIFFICULTY: Record<QuestionDifficulty, number> = {
+  easy: -1,
+  medium: 0,
+  hard: 1,
+};
+
+// Ability points -4.0 .. 4.0 in steps of 0.1
+const ABILITY_GRID = Array.from({ length: 81 }, (_, i) => -4 + i / 10);
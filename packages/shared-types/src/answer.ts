@@ -1,4 +1,13 @@
 import { z } from "zod";
+import { QUESTION_TIME_LIMIT_GRACE_SECONDS } from "./question-delivery";
+import {
+  parseMatrixKey,
+  parseSequenceKey,
+  scoreMatrixAnswer,
+  scoreSequenceAnswer,
+  type ScoringRule,
+} from "./partial-credit";
+import { DrawingStrokesSchema, getDataUrlSize } from "./drawing";
 
 // ==================== ENUMS ====================
 export const AnswerTypeEnum = z.enum([
@@ -373,9 +382,21 @@ export function validateAnswerByQuestionType(
       return { isValid: true };
 
     case "drawing":
-      if (!answerData || !answerData.drawing_data) {
+      if (!answerData || (!answerData.drawing_data && !answerData.strokes)) {
         return { isValid: false, errorMessage: "Drawing data is required" };
       }
+      if (
+        answerData.strokes &&
+        !DrawingStrokesSchema.safeParse(answerData.strokes).success
+      ) {
+        return { isValid: false, errorMessage: "Invalid drawing strokes" };
+      }
+      if (
+        typeof answerData.drawing_data === "string" &&
+        getDataUrlSize(answerData.drawing_data) > MAX_DRAWING_FILE_SIZE
+      ) {
+        return { isValid: false, errorMessage: "Drawing image is too large" };
+      }
       return { isValid: true };
 
     case "sequence":
@@ -425,7 +446,9 @@ export function formatAnswerForDisplay(
       return answer ? `${answer} out of 10` : "No rating";
 
     case "drawing":
-      return "Drawing submitted";
+      return answerData?.stroke_count
+        ? `Drawing submitted (${answerData.stroke_count} strokes)`
+        : "Drawing submitted";
 
     case "sequence":
       if (answerData?.sequence) {
@@ -454,7 +477,8 @@ export function calculateAnswerScore(
   questionType: string,
   correctAnswer: string | null,
   scoringKey?: Record<string, number>,
-  options?: Array<{ value: string; label: string; score?: number }>
+  options?: Array<{ value: string; label: string; score?: number }>,
+  scoringRule?: ScoringRule | null
 ): { score: number; isCorrect: boolean } {
   if (!answer && !answerData) {
     return { score: 0, isCorrect: false };
@@ -474,14 +498,29 @@ export function calculateAnswerScore(
       }
       return { score: 0, isCorrect: false };
 
-    case "text":
-      // Text answers typically need manual scoring
-      return { score: 0, isCorrect: false };
-
-    case "drawing":
     case "sequence":
+      return toCredit(
+        scoreSequenceAnswer(
+          answerData?.sequence,
+          parseSequenceKey(correctAnswer, options),
+          scoringRule?.method
+        )
+      );
+
     case "matrix":
-      // Complex answers typically need manual scoring or AI evaluation
+      return toCredit(
+        scoreMatrixAnswer(
+          answerData?.matrix_selection,
+          parseMatrixKey(correctAnswer),
+          scoringRule?.method,
+          options
+        )
+      );
+
+    case "text":
+    case "drawing":
+      // Graded by assessors in the manual scoring queue once the attempt
+      // is completed, see requiresManualScoring
       return { score: 0, isCorrect: false };
 
     default:
@@ -489,27 +528,40 @@ export function calculateAnswerScore(
   }
 }
 
+// Partial credit rounded to the precision of user_answers.score
+function toCredit(credit: number): { score: number; isCorrect: boolean } {
+  const score = Math.round(credit * 100) / 100;
+  return { score, isCorrect: score >= 1 };
+}
+
 // Check if answer can be modified
 export function canModifyAnswer(
   attemptStatus: string,
   attemptEndTime: Date | null,
-  questionTimeLimit?: number | null
+  questionDeadline?: Date | null
 ): boolean {
   // Cannot modify if attempt is completed or expired
   if (["completed", "expired", "abandoned"].includes(attemptStatus)) {
     return false;
   }
 
+  const now = new Date();
+
   // Check if attempt time has expired
   if (attemptEndTime) {
-    const now = new Date();
     if (now > attemptEndTime) {
       return false;
     }
   }
 
-  // Add more complex logic here if needed
-  // For example, check if question-specific time limit has expired
+  // Check if the per-question time limit has expired (with a small grace)
+  if (questionDeadline) {
+    const graceEnd =
+      questionDeadline.getTime() + QUESTION_TIME_LIMIT_GRACE_SECONDS * 1000;
+    if (now.getTime() > graceEnd) {
+      return false;
+    }
+  }
 
   return true;
 }
@@ -8,15 +8,35 @@ export const AdminLoginRequestSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
-// Participant Login Request (tanpa password)
-export const ParticipantLoginRequestSchema = z.object({
+// Participant OTP channel (where the one-time code is delivered)
+export const ParticipantOtpChannelEnum = z.enum(["phone", "email"]);
+
+// Participant identifier: exactly one of phone or email
+const ParticipantOtpIdentifierSchema = z.object({
   phone: z
     .string()
     .min(1, "Phone number is required")
     .max(20, "Phone number is too long")
-    .regex(/^[0-9+\-\s()]+$/, "Phone number contains invalid characters"),
+    .regex(/^[0-9+\-\s()]+$/, "Phone number contains invalid characters")
+    .optional(),
+  email: z.string().email("Invalid email format").optional(),
 });
 
+// Participant OTP Request (langkah 1: kirim kode)
+export const ParticipantOtpRequestSchema =
+  ParticipantOtpIdentifierSchema.refine(
+    (data) => Boolean(data.phone) !== Boolean(data.email),
+    { message: "Provide either a phone number or an email address" }
+  );
+
+// Participant OTP Verify Request (langkah 2: verifikasi kode)
+export const ParticipantOtpVerifyRequestSchema =
+  ParticipantOtpIdentifierSchema.extend({
+    code: z.string().regex(/^\d{6}$/, "Verification code must be 6 digits"),
+  }).refine((data) => Boolean(data.phone) !== Boolean(data.email), {
+    message: "Provide either a phone number or an email address",
+  });
+
 // Refresh Token Request
 export const RefreshTokenRequestSchema = z.object({
   refresh_token: z.string().min(1, "Refresh token is required"),
@@ -129,6 +149,19 @@ export const LoginResponseSchema = z.object({
   timestamp: z.string(),
 });
 
+// Participant OTP Request Response
+export const ParticipantOtpResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.object({
+    channel: ParticipantOtpChannelEnum,
+    destination: z.string(), // masked, e.g. "0812****789"
+    expires_at: z.string().datetime(),
+    resend_available_at: z.string().datetime(),
+  }),
+  timestamp: z.string(),
+});
+
 // Participant Login Response
 export const ParticipantLoginResponseSchema = z.object({
   success: z.literal(true),
@@ -214,8 +247,13 @@ export const SessionManagementResponseSchema = z.object({
 
 // ==================== TYPE EXPORTS ====================
 export type AdminLoginRequest = z.infer<typeof AdminLoginRequestSchema>;
-export type ParticipantLoginRequest = z.infer<
-  typeof ParticipantLoginRequestSchema
+export type ParticipantOtpChannel = z.infer<typeof ParticipantOtpChannelEnum>;
+export type ParticipantOtpRequest = z.infer<typeof ParticipantOtpRequestSchema>;
+export type ParticipantOtpVerifyRequest = z.infer<
+  typeof ParticipantOtpVerifyRequestSchema
+>;
+export type ParticipantOtpResponse = z.infer<
+  typeof ParticipantOtpResponseSchema
 >;
 export type RefreshTokenRequest = z.infer<typeof RefreshTokenRequestSchema>;
 export type ChangePasswordRequest = z.infer<typeof ChangePasswordRequestSchema>;
@@ -271,6 +309,9 @@ export const AUTH_CONSTANTS = {
   EMAIL_VERIFICATION_TOKEN_EXPIRES_IN: 24 * 60 * 60, // 24 hours in seconds
   MAX_ACTIVE_SESSIONS_PER_USER: 3, // Maximum 3 active sessions per user
   SESSION_CLEANUP_INTERVAL: 24 * 60 * 60, // Cleanup every 24 hours
+  OTP_LENGTH: 6,
+  OTP_EXPIRES_IN: 5 * 60, // 5 minutes in seconds
+  OTP_RESEND_COOLDOWN: 60, // 1 minute in seconds
 } as const;
 
 // ==================== VALIDATION HELPERS ====================
@@ -304,4 +345,8 @@ export const AUTH_ERROR_CODES = {
   SESSION_NOT_FOUND: "SESSION_NOT_FOUND",
   USER_NOT_FOUND: "USER_NOT_FOUND",
   DUPLICATE_LOGIN: "DUPLICATE_LOGIN",
+  OTP_INVALID: "OTP_INVALID",
+  OTP_EXPIRED: "OTP_EXPIRED",
+  OTP_RESEND_TOO_SOON: "OTP_RESEND_TOO_SOON",
+  OTP_DELIVERY_FAILED: "OTP_DELIVERY_FAILED",
 } as const;
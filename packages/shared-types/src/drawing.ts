@@ -0,0 +1,193 @@
+import { z } from "zod";
+
+// ==================== BASE SCHEMAS ====================
+
+// One sampled pointer position: [x, y, t] in canvas pixels, t in
+// milliseconds since the drawing started
+export const DrawingPointSchema = z.tuple([
+  z.number(),
+  z.number(),
+  z.number().min(0),
+]);
+
+export const DrawingStrokeSchema = z.object({
+  tool: z.enum(["pen", "eraser"]).default("pen"),
+  color: z.string().max(20).default("#111827"),
+  width: z.number().min(0.5).max(100).default(3),
+  points: z.array(DrawingPointSchema).min(1).max(5000),
+});
+
+// Vector record of a drawing answer, kept so assessors can replay it
+export const DrawingStrokesSchema = z.object({
+  version: z.literal(1).default(1),
+  width: z.number().int().min(1).max(4000),
+  height: z.number().int().min(1).max(4000),
+  started_at: z.string().datetime().optional(),
+  strokes: z.array(DrawingStrokeSchema).max(2000),
+});
+
+// answer_data of a drawing answer once stored
+export const DrawingAnswerDataSchema = z.object({
+  strokes: DrawingStrokesSchema.nullable(),
+  image_key: z.string().nullable(), // rendered PNG in object storage
+  image_size: z.number().nullable(),
+  stroke_count: z.number(),
+});
+
+// ==================== REQUEST SCHEMAS ====================
+
+export const DrawingReplayRequestSchema = z.object({
+  answerId: z.string().uuid("Invalid answer ID format"),
+});
+
+// ==================== RESPONSE SCHEMAS ====================
+
+export const DrawingStrokeTimingSchema = z.object({
+  index: z.number(),
+  tool: z.enum(["pen", "eraser"]),
+  started_at: z.number(), // ms since the drawing started
+  ended_at: z.number(),
+  duration: z.number(),
+  pause_before: z.number(), // hesitation since the previous stroke ended
+  point_count: z.number(),
+  length: z.number(), // path length in canvas pixels
+});
+
+export const DrawingTimingSummarySchema = z.object({
+  stroke_count: z.number(),
+  point_count: z.number(),
+  total_duration: z.number(),
+  drawing_time: z.number(),
+  pause_time: z.number(),
+  longest_pause: z.number(),
+  average_pause: z.number().nullable(),
+  hesitations: z.number(), // pauses of at least DRAWING_HESITATION_MS
+});
+
+export const DrawingReplayDataSchema = z.object({
+  answer_id: z.string().uuid(),
+  question_id: z.string().uuid(),
+  canvas: z.object({ width: z.number(), height: z.number() }),
+  strokes: z.array(DrawingStrokeSchema),
+  timeline: z.array(DrawingStrokeTimingSchema),
+  summary: DrawingTimingSummarySchema,
+  image_url: z.string().nullable(), // API path of the rendered PNG
+  answered_at: z.string().datetime(),
+});
+
+export const GetDrawingReplayResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: DrawingReplayDataSchema,
+  timestamp: z.string(),
+});
+
+export const DrawingErrorResponseSchema = z.object({
+  success: z.literal(false),
+  message: z.string(),
+  errors: z
+    .array(
+      z.object({
+        field: z.string().optional(),
+        message: z.string(),
+        code: z.string().optional(),
+      })
+    )
+    .optional(),
+  timestamp: z.string(),
+});
+
+// ==================== TYPE EXPORTS ====================
+export type DrawingPoint = z.infer<typeof DrawingPointSchema>;
+export type DrawingStroke = z.infer<typeof DrawingStrokeSchema>;
+export type DrawingStrokes = z.infer<typeof DrawingStrokesSchema>;
+export type DrawingAnswerData = z.infer<typeof DrawingAnswerDataSchema>;
+export type DrawingReplayRequest = z.infer<typeof DrawingReplayRequestSchema>;
+export type DrawingStrokeTiming = z.infer<typeof DrawingStrokeTimingSchema>;
+export type DrawingTimingSummary = z.infer<typeof DrawingTimingSummarySchema>;
+export type DrawingReplayData = z.infer<typeof DrawingReplayDataSchema>;
+export type GetDrawingReplayResponse = z.infer<
+  typeof GetDrawingReplayResponseSchema
+>;
+export type DrawingErrorResponse = z.infer<typeof DrawingErrorResponseSchema>;
+
+// ==================== UTILITY FUNCTIONS ====================
+
+/**
+ * Per-stroke timing of a drawing in the order it was drawn. The pause before
+ * a stroke is the hesitation after the previous one, which matters for
+ * projective tests such as Wartegg or HTP
+ */
+export function getDrawingTimeline(
+  drawing: DrawingStrokes
+): DrawingStrokeTiming[] {
+  let previousEnd: number | null = null;
+
+  return drawing.strokes.map((stroke, index) => {
+    const times = stroke.points.map((point) => point[2]);
+    const startedAt = Math.min(...times);
+    const endedAt = Math.max(...times);
+    const pauseBefore =
+      previousEnd === null ? startedAt : Math.max(0, startedAt - previousEnd);
+    previousEnd = endedAt;
+
+    let length = 0;
+    for (let i = 1; i < stroke.points.length; i++) {
+      const [x1, y1] = stroke.points[i - 1];
+      const [x2, y2] = stroke.points[i];
+      length += Math.hypot(x2 - x1, y2 - y1);
+    }
+
+    return {
+      index,
+      tool: stroke.tool,
+      started_at: startedAt,
+      ended_at: endedAt,
+      duration: endedAt - startedAt,
+      pause_before: pauseBefore,
+      point_count: stroke.points.length,
+      length: Math.round(length * 10) / 10,
+    };
+  });
+}
+
+export function summarizeDrawingTimeline(
+  timeline: DrawingStrokeTiming[]
+): DrawingTimingSummary {
+  // The wait before the first stroke is latency, not hesitation between strokes
+  const pauses = timeline.slice(1).map((stroke) => stroke.pause_before);
+  const drawingTime = timeline.reduce(
+    (total, stroke) => total + stroke.duration,
+    0
+  );
+  const pauseTime = pauses.reduce((total, pause) => total + pause, 0);
+
+  return {
+    stroke_count: timeline.length,
+    point_count: timeline.reduce(
+      (total, stroke) => total + stroke.point_count,
+      0
+    ),
+    total_duration:
+      timeline.length > 0 ? timeline[timeline.length - 1].ended_at : 0,
+    drawing_time: drawingTime,
+    pause_time: pauseTime,
+    longest_pause: pauses.length > 0 ? Math.max(...pauses) : 0,
+    average_pause:
+      pauses.length > 0 ? Math.round(pauseTime / pauses.length) : null,
+    hesitations: pauses.filter((pause) => pause >= DRAWING_HESITATION_MS)
+      .length,
+  };
+}
+
+// Bytes of a base64 data URL once decoded
+export function getDataUrlSize(dataUrl: string): number {
+  const base64 = dataUrl.substring(dataUrl.indexOf(",") + 1);
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+// ==================== CONSTANTS ====================
+
+// Pause between strokes counted as a hesitation (milliseconds)
+export const DRAWING_HESITATION_MS = 2000;
@@ -48,6 +48,15 @@ export * from "./user";
 // Export all user-bulk related types and schemas
 export * from "./user-bulk";
 
+// Export all user-import related types and schemas
+export * from "./user-import";
+
+// Export all nik-related types and schemas
+export * from "./nik";
+
+// Export all region-related types and schemas
+export * from "./region";
+
 // Export all auth-related types and schemas
 export * from "./auth";
 
@@ -60,18 +69,48 @@ export * from "./test-attempts";
 // Export all question-related types and schemas
 export * from "./question";
 
+// Export all item-bank-related types and schemas
+export * from "./item-bank";
+
+// Export all adaptive-testing-related types and schemas
+export * from "./adaptive";
+
+// Export all item-analysis-related types and schemas
+export * from "./item-analysis";
+
+// Export all manual-scoring-related types and schemas
+export * from "./manual-scoring";
+
+// Export all partial-credit-related types and schemas
+export * from "./partial-credit";
+
+// Export all drawing-related types and schemas
+export * from "./drawing";
+
 // Export all session-related types and schemas
 export * from "./session";
 
 // Export all session-participants related types and schemas
 export * from "./session-participants";
 
+// Export all session-result related types and schemas
+export * from "./session-result";
+
 // Export all answer-related types and schemas
 export * from "./answer";
 
+// Export all question-delivery related types and schemas
+export * from "./question-delivery";
+
 // Export all test-result-related types and schemas
 export * from "./test-result";
 
+// Export all norm-related types and schemas
+export * from "./norm";
+
+// Export all kraepelin/pauli-related types and schemas
+export * from "./kraepelin";
+
 // Export all dashboard-related types and schemas
 export * from "./dashboard";
 
@@ -84,5 +123,8 @@ export * from "./report";
 // Export all user-detail-related types and schemas
 export * from "./user-detail";
 
+// Export the seeded random number generator
+export * from "./random";
+
 // Re-export zod for convenience
 export { z } from "zod";
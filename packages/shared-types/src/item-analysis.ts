@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { QuestionTypeEnum } from "./question";
+
+// ==================== ENUMS ====================
+export const ItemAnalysisFlagEnum = z.enum([
+  "few_responses", // too few responses for the other checks
+  "too_easy",
+  "too_hard",
+  "low_discrimination",
+  "negative_discrimination", // weaker participants do better on it
+  "weak_distractor", // an option almost nobody picks
+  "misleading_distractor", // a wrong option that draws stronger participants
+  "lowers_alpha", // the test is more reliable without it
+]);
+
+// ==================== REQUEST SCHEMAS ====================
+
+// Path Parameters
+export const TestItemAnalysisRequestSchema = z.object({
+  testId: z.string().uuid("Invalid test ID format"),
+});
+
+// Query Parameters
+export const GetTestItemAnalysisQuerySchema = z.object({
+  session_id: z.string().uuid("Invalid session ID format").optional(),
+  date_from: z.string().datetime().optional(),
+  date_to: z.string().datetime().optional(),
+});
+
+// ==================== RESPONSE SCHEMAS ====================
+
+export const DistractorAnalysisSchema = z.object({
+  value: z.string(),
+  label: z.string(),
+  is_key: z.boolean(),
+  count: z.number(),
+  proportion: z.number(), // of the item's responses
+  mean_total_score: z.number().nullable(), // of the participants choosing it
+});
+
+export const ItemAnalysisSchema = z.object({
+  question_id: z.string().uuid(),
+  sequence: z.number(),
+  question: z.string(),
+  question_type: QuestionTypeEnum,
+  is_scored: z.boolean(), // false for items without a key or option scores
+  administered: z.number(),
+  responses: z.number(),
+  omitted: z.number(),
+  p_value: z.number().nullable(), // mean score as a share of the maximum
+  point_biserial: z.number().nullable(), // correlation with the rest score
+  alpha_if_deleted: z.number().nullable(),
+  average_time_taken: z.number().nullable(), // seconds
+  distractors: z.array(DistractorAnalysisSchema),
+  flags: z.array(ItemAnalysisFlagEnum),
+});
+
+export const TestItemAnalysisSummarySchema = z.object({
+  respondents: z.number(),
+  scored_items: z.number(),
+  mean_total_score: z.number().nullable(),
+  sd_total_score: z.number().nullable(),
+  cronbach_alpha: z.number().nullable(),
+  alpha_respondents: z.number(), // participants given every scored item
+  flagged_items: z.number(),
+});
+
+export const TestItemAnalysisDataSchema = z.object({
+  test_id: z.string().uuid(),
+  summary: TestItemAnalysisSummarySchema,
+  items: z.array(ItemAnalysisSchema),
+});
+
+export const GetTestItemAnalysisResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: TestItemAnalysisDataSchema,
+  timestamp: z.string(),
+});
+
+export const ItemAnalysisErrorResponseSchema = z.object({
+  success: z.literal(false),
+  message: z.string(),
+  errors: z
+    .array(
+      z.object({
+        field: z.string().optional(),
+        message: z.string(),
+        code: z.string().optional(),
+      })
+    )
+    .optional(),
+  timestamp: z.string(),
+});
+
+// ==================== TYPE EXPORTS ====================
+export type ItemAnalysisFlag = z.infer<typeof ItemAnalysisFlagEnum>;
+export type TestItemAnalysisRequest = z.infer<
+  typeof TestItemAnalysisRequestSchema
+>;
+export type GetTestItemAnalysisQuery = z.infer<
+  typeof GetTestItemAnalysisQuerySchema
+>;
+export type DistractorAnalysis = z.infer<typeof DistractorAnalysisSchema>;
+export type ItemAnalysis = z.infer<typeof ItemAnalysisSchema>;
+export type TestItemAnalysisSummary = z.infer<
+  typeof TestItemAnalysisSummarySchema
+>;
+export type TestItemAnalysisData = z.infer<typeof TestItemAnalysisDataSchema>;
+export type GetTestItemAnalysisResponse = z.infer<
+  typeof GetTestItemAnalysisResponseSchema
+>;
+export type ItemAnalysisErrorResponse = z.infer<
+  typeof ItemAnalysisErrorResponseSchema
+>;
+
+// ==================== CONSTANTS ====================
+
+// Usual classical test theory rules of thumb
+export const ITEM_ANALYSIS_THRESHOLDS = {
+  min_responses: 30,
+  too_easy_p: 0.9,
+  too_hard_p: 0.2,
+  low_discrimination: 0.2,
+  weak_distractor_proportion: 0.05,
+  alpha_gain: 0.01, // alpha-if-deleted this much above alpha
+} as const;
+
+export const ITEM_ANALYSIS_FLAG_LABELS: Record<ItemAnalysisFlag, string> = {
+  few_responses: "Respons sedikit",
+  too_easy: "Terlalu mudah",
+  too_hard: "Terlalu sulit",
+  low_discrimination: "Daya beda rendah",
+  negative_discrimination: "Daya beda negatif",
+  weak_distractor: "Pengecoh tidak berfungsi",
+  misleading_distractor: "Pengecoh menyesatkan",
+  lowers_alpha: "Menurunkan reliabilitas",
+};
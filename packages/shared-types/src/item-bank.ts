@@ -0,0 +1,260 @@
+import { z } from "zod";
+import { createSeededRandom } from "./random";
+import { QuestionDifficultyEnum, type QuestionDifficulty } from "./question";
+
+// ==================== ENUMS ====================
+export const PARALLEL_FORM_LABELS = ["A", "B", "C", "D", "E", "F"] as const;
+
+export const ParallelFormLabelEnum = z.enum(PARALLEL_FORM_LABELS);
+
+// ==================== BASE SCHEMAS ====================
+
+// One blueprint line, e.g. 10 items from "verbal" at medium difficulty.
+// A null dimension or difficulty accepts any item
+export const TestBlueprintSectionSchema = z.object({
+  dimension: z.string().trim().min(1).max(100).nullable().default(null),
+  difficulty: QuestionDifficultyEnum.nullable().default(null),
+  count: z
+    .number()
+    .int("Item count must be an integer")
+    .min(1, "Item count must be at least 1")
+    .max(200, "Item count cannot exceed 200"),
+});
+
+export const TestBlueprintSchema = z.object({
+  form_count: z
+    .number()
+    .int()
+    .min(1, "At least one form is required")
+    .max(
+      PARALLEL_FORM_LABELS.length,
+      `At most ${PARALLEL_FORM_LABELS.length} parallel forms are supported`
+    )
+    .default(1),
+  sections: z
+    .array(TestBlueprintSectionSchema)
+    .min(1, "Blueprint needs at least one section")
+    .max(50, "Blueprint cannot have more than 50 sections"),
+});
+
+// ==================== REQUEST SCHEMAS ====================
+
+// Path Parameters
+export const TestBlueprintByTestIdRequestSchema = z.object({
+  testId: z.string().uuid("Invalid test ID format"),
+});
+
+// Set or clear (null) the blueprint of a test
+export const UpdateTestBlueprintRequestSchema = z.object({
+  blueprint: TestBlueprintSchema.nullable(),
+});
+
+// ==================== RESPONSE SCHEMAS ====================
+
+// Number of bank items per dimension/difficulty tag pair
+export const ItemBankCellSchema = z.object({
+  dimension: z.string().nullable(),
+  difficulty: QuestionDifficultyEnum.nullable(),
+  count: z.number(),
+});
+
+export const BlueprintSectionCoverageSchema = z.object({
+  section_index: z.number(),
+  dimension: z.string().nullable(),
+  difficulty: QuestionDifficultyEnum.nullable(),
+  required: z.number(),
+  available: z.number(), // bank items matching the section
+});
+
+export const ParallelFormSchema = z.object({
+  label: ParallelFormLabelEnum,
+  question_ids: z.array(z.string().uuid()),
+  question_count: z.number(),
+  is_complete: z.boolean(), // every section got its full item count
+});
+
+export const TestBlueprintDataSchema = z.object({
+  test_id: z.string().uuid(),
+  blueprint: TestBlueprintSchema.nullable(),
+  total_items: z.number(),
+  bank: z.array(ItemBankCellSchema),
+  coverage: z.array(BlueprintSectionCoverageSchema),
+  forms: z.array(ParallelFormSchema),
+});
+
+export const GetTestBlueprintResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: TestBlueprintDataSchema,
+  timestamp: z.string(),
+});
+
+export const UpdateTestBlueprintResponseSchema = GetTestBlueprintResponseSchema;
+
+export const ItemBankErrorResponseSchema = z.object({
+  success: z.literal(false),
+  message: z.string(),
+  errors: z
+    .array(
+      z.object({
+        field: z.string().optional(),
+        message: z.string(),
+        code: z.string().optional(),
+      })
+    )
+    .optional(),
+  timestamp: z.string(),
+});
+
+// ==================== TYPE EXPORTS ====================
+export type ParallelFormLabel = z.infer<typeof ParallelFormLabelEnum>;
+export type TestBlueprintSection = z.infer<typeof TestBlueprintSectionSchema>;
+export type TestBlueprint = z.infer<typeof TestBlueprintSchema>;
+export type TestBlueprintByTestIdRequest = z.infer<
+  typeof TestBlueprintByTestIdRequestSchema
+>;
+export type UpdateTestBlueprintRequest = z.infer<
+  typeof UpdateTestBlueprintRequestSchema
+>;
+export type ItemBankCell = z.infer<typeof ItemBankCellSchema>;
+export type BlueprintSectionCoverage = z.infer<
+  typeof BlueprintSectionCoverageSchema
+>;
+export type ParallelForm = z.infer<typeof ParallelFormSchema>;
+export type TestBlueprintData = z.infer<typeof TestBlueprintDataSchema>;
+export type GetTestBlueprintResponse = z.infer<
+  typeof GetTestBlueprintResponseSchema
+>;
+export type UpdateTestBlueprintResponse = z.infer<
+  typeof UpdateTestBlueprintResponseSchema
+>;
+export type ItemBankErrorResponse = z.infer<typeof ItemBankErrorResponseSchema>;
+
+// ==================== UTILITY TYPES ====================
+export interface ItemBankEntry {
+  id: string;
+  dimension: string | null;
+  difficulty: QuestionDifficulty | null;
+}
+
+// ==================== UTILITY FUNCTIONS ====================
+
+export function itemMatchesSection(
+  item: ItemBankEntry,
+  section: TestBlueprintSection
+): boolean {
+  return (
+    (section.dimension === null || item.dimension === section.dimension) &&
+    (section.difficulty === null || item.difficulty === section.difficulty)
+  );
+}
+
+export function summarizeItemBank(items: ItemBankEntry[]): ItemBankCell[] {
+  const cells = new Map<string, ItemBankCell>();
+
+  for (const item of items) {
+    const key = `${item.dimension ?? ""}|${item.difficulty ?? ""}`;
+    const cell = cells.get(key);
+    if (cell) cell.count++;
+    else
+      cells.set(key, {
+        dimension: item.dimension,
+        difficulty: item.difficulty,
+        count: 1,
+      });
+  }
+
+  return [...cells.values()].sort(
+    (a, b) =>
+      (a.dimension ?? "").localeCompare(b.dimension ?? "") ||
+      (a.difficulty ?? "").localeCompare(b.difficulty ?? "")
+  );
+}
+
+export function getBlueprintCoverage(
+  items: ItemBankEntry[],
+  blueprint: TestBlueprint
+): BlueprintSectionCoverage[] {
+  return blueprint.sections.map((section, index) => ({
+    section_index: index,
+    dimension: section.dimension,
+    difficulty: section.difficulty,
+    required: section.count,
+    available: items.filter((item) => itemMatchesSection(item, section)).length,
+  }));
+}
+
+/**
+ * Assemble the parallel forms of a blueprint. Matching items of each section
+ * are ranked by the seed and dealt out in turn, so forms share no items while
+ * the bank is large enough and borrow from each other only when it is not.
+ * The same bank, blueprint and seed always give the same forms
+ */
+export function assembleParallelForms(
+  items: ItemBankEntry[],
+  blueprint: TestBlueprint,
+  seed: string
+): ParallelForm[] {
+  const labels = PARALLEL_FORM_LABELS.slice(0, blueprint.form_count);
+  const forms = labels.map(() => ({ ids: [] as string[], complete: true }));
+
+  blueprint.sections.forEach((section, sectionIndex) => {
+    const keys = new Map(
+      items.map((item) => [
+        item.id,
+        createSeededRandom(`${seed}:${sectionIndex}:${item.id}`)(),
+      ])
+    );
+    const ranked = items
+      .filter((item) => itemMatchesSection(item, section))
+      .sort((a, b) => keys.get(a.id)! - keys.get(b.id)!);
+
+    forms.forEach((form, formIndex) => {
+      const own = ranked.filter((_, i) => i % labels.length === formIndex);
+      const borrowed = ranked.filter((_, i) => i % labels.length !== formIndex);
+      const picked = [...own, ...borrowed]
+        .filter((item) => !form.ids.includes(item.id))
+        .slice(0, section.count);
+
+      form.ids.push(...picked.map((item) => item.id));
+      if (picked.length < section.count) form.complete = false;
+    });
+  });
+
+  return forms.map((form, index) => ({
+    label: labels[index],
+    question_ids: form.ids,
+    question_count: form.ids.length,
+    is_complete: form.complete,
+  }));
+}
+
+/**
+ * Form for a new attempt: one the participant has taken least often, so a
+ * re-test gets different items while forms remain
+ */
+export function selectParallelForm(
+  formCount: number,
+  previousLabels: string[],
+  random: () => number = Math.random
+): ParallelFormLabel {
+  const labels = PARALLEL_FORM_LABELS.slice(0, formCount);
+  const uses = labels.map(
+    (label) => previousLabels.filter((previous) => previous === label).length
+  );
+  const leastUsed = labels.filter((_, i) => uses[i] === Math.min(...uses));
+
+  return leastUsed[Math.floor(random() * leastUsed.length)];
+}
+
+// Without an explicit tag, a question keyed to a single scoring dimension
+// belongs to that dimension
+export function resolveQuestionDimension(
+  dimension: string | null | undefined,
+  scoringKey: Record<string, number | string> | null | undefined
+): string | null {
+  if (dimension) return dimension;
+
+  const keys = Object.keys(scoringKey || {});
+  return keys.length === 1 ? keys[0] : null;
+}
@@ -0,0 +1,338 @@
+import { z } from "zod";
+import { createSeededRandom } from "./random";
+
+// ==================== ENUMS ====================
+export const KraepelinVariantEnum = z.enum(["kraepelin", "pauli"]);
+
+// ==================== BASE SCHEMAS ====================
+
+// Sheet configuration stored on the test (tests.kraepelin_config)
+export const KraepelinConfigSchema = z.object({
+  variant: KraepelinVariantEnum,
+  column_count: z.number().int().min(1).max(100),
+  digits_per_column: z.number().int().min(2).max(200),
+  seconds_per_column: z.number().int().min(5).max(600),
+  seed: z.string().min(1).max(100),
+});
+
+// A single addition answered by the participant
+export const KraepelinEntrySchema = z.object({
+  row_index: z.number().int().min(0),
+  answer: z.number().int().min(0).max(9),
+  answered_at: z.string().datetime(),
+});
+
+// Stored in user_answers.answer_data, one record per column
+export const KraepelinColumnAnswerDataSchema = z.object({
+  column_index: z.number().int().min(0),
+  started_at: z.string().datetime(),
+  submitted_at: z.string().datetime(),
+  entries: z.array(
+    KraepelinEntrySchema.extend({
+      is_correct: z.boolean(),
+    })
+  ),
+  worked: z.number(), // rows answered
+  correct: z.number(),
+  errors: z.number(),
+  last_row: z.number(), // furthest row reached, -1 when none
+  total_rows: z.number(),
+});
+
+// ==================== REQUEST SCHEMAS ====================
+
+// Path Parameters
+export const KraepelinTestRequestSchema = z.object({
+  testId: z.string().uuid("Invalid test ID format"),
+});
+
+export const KraepelinAttemptRequestSchema = z.object({
+  attemptId: z.string().uuid("Invalid attempt ID format"),
+});
+
+export const KraepelinColumnRequestSchema = z.object({
+  attemptId: z.string().uuid("Invalid attempt ID format"),
+  columnIndex: z.coerce.number().int().min(0),
+});
+
+// Configure the sheet of a Kraepelin/Pauli test (Admin)
+export const UpdateKraepelinConfigRequestSchema = z.object({
+  column_count: z.number().int().min(1).max(100).optional(),
+  digits_per_column: z.number().int().min(2).max(200).optional(),
+  seconds_per_column: z.number().int().min(5).max(600).optional(),
+  seed: z.string().min(1).max(100).optional(),
+});
+
+// Submit the answers of one column (Participant)
+export const SubmitKraepelinColumnRequestSchema = z.object({
+  started_at: z.string().datetime().optional(),
+  entries: z
+    .array(KraepelinEntrySchema)
+    .max(200, "Too many entries for a single column"),
+});
+
+// ==================== RESPONSE SCHEMAS ====================
+
+export const KraepelinColumnSchema = z.object({
+  column_index: z.number(),
+  question_id: z.string().uuid().nullable(),
+  digits: z.array(z.number()),
+  opens_at: z.string().datetime(),
+  closes_at: z.string().datetime(),
+  is_submitted: z.boolean(),
+});
+
+export const KraepelinSheetSchema = z.object({
+  attempt_id: z.string().uuid(),
+  test_id: z.string().uuid(),
+  variant: KraepelinVariantEnum,
+  column_count: z.number(),
+  digits_per_column: z.number(),
+  seconds_per_column: z.number(),
+  current_column: z.number().nullable(), // null once the sheet is over
+  seconds_left_in_column: z.number(),
+  columns: z.array(KraepelinColumnSchema),
+});
+
+export const GetKraepelinSheetResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: KraepelinSheetSchema,
+  timestamp: z.string(),
+});
+
+export const SubmitKraepelinColumnResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.object({
+    column_index: z.number(),
+    worked: z.number(),
+    correct: z.number(),
+    errors: z.number(),
+    next_column: z.number().nullable(),
+  }),
+  timestamp: z.string(),
+});
+
+export const KraepelinConfigResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.object({
+    test_id: z.string().uuid(),
+    config: KraepelinConfigSchema,
+    total_questions: z.number(),
+    total_time_minutes: z.number(),
+  }),
+  timestamp: z.string(),
+});
+
+export const KraepelinErrorDetailSchema = z.object({
+  field: z.string().optional(),
+  message: z.string(),
+  code: z.string().optional(),
+});
+
+export const KraepelinErrorResponseSchema = z.object({
+  success: z.literal(false),
+  message: z.string(),
+  errors: z.array(KraepelinErrorDetailSchema).optional(),
+  timestamp: z.string(),
+});
+
+// ==================== TYPE EXPORTS ====================
+export type KraepelinVariant = z.infer<typeof KraepelinVariantEnum>;
+export type KraepelinConfig = z.infer<typeof KraepelinConfigSchema>;
+export type KraepelinEntry = z.infer<typeof KraepelinEntrySchema>;
+export type KraepelinColumnAnswerData = z.infer<
+  typeof KraepelinColumnAnswerDataSchema
+>;
+export type KraepelinTestRequest = z.infer<typeof KraepelinTestRequestSchema>;
+export type KraepelinAttemptRequest = z.infer<
+  typeof KraepelinAttemptRequestSchema
+>;
+export type KraepelinColumnRequest = z.infer<
+  typeof KraepelinColumnRequestSchema
+>;
+export type UpdateKraepelinConfigRequest = z.infer<
+  typeof UpdateKraepelinConfigRequestSchema
+>;
+export type SubmitKraepelinColumnRequest = z.infer<
+  typeof SubmitKraepelinColumnRequestSchema
+>;
+export type KraepelinColumn = z.infer<typeof KraepelinColumnSchema>;
+export type KraepelinSheet = z.infer<typeof KraepelinSheetSchema>;
+export type GetKraepelinSheetResponse = z.infer<
+  typeof GetKraepelinSheetResponseSchema
+>;
+export type SubmitKraepelinColumnResponse = z.infer<
+  typeof SubmitKraepelinColumnResponseSchema
+>;
+export type KraepelinConfigResponse = z.infer<
+  typeof KraepelinConfigResponseSchema
+>;
+export type KraepelinErrorResponse = z.infer<
+  typeof KraepelinErrorResponseSchema
+>;
+
+export type KraepelinIndicators = {
+  panker: number; // speed: average additions worked per column
+  tianker: number; // accuracy: total errors plus skipped rows
+  janker: number; // stability: range between best and worst column
+  hanker: number; // endurance: slope of the work curve per column
+  total_worked: number;
+  total_correct: number;
+  total_errors: number;
+  total_skipped: number;
+  accuracy_rate: number;
+  work_curve: { column_index: number; worked: number; correct: number }[];
+};
+
+// ==================== UTILITY FUNCTIONS ====================
+
+// Digit columns of the sheet, digits 1-9 as on the printed forms. Seeded,
+// so every attempt sees the same sheet for a seed
+export function generateKraepelinSheet(config: KraepelinConfig): number[][] {
+  const random = createSeededRandom(config.seed);
+  return Array.from({ length: config.column_count }, () =>
+    Array.from(
+      { length: config.digits_per_column },
+      () => Math.floor(random() * 9) + 1
+    )
+  );
+}
+
+// Expected answer for a row: last digit of two adjacent digits
+export function getKraepelinAnswer(column: number[], rowIndex: number): number {
+  return (column[rowIndex] + column[rowIndex + 1]) % 10;
+}
+
+// Start and end of a column's answering window
+export function getKraepelinColumnWindow(
+  config: KraepelinConfig,
+  sheetStart: Date,
+  columnIndex: number
+): { opensAt: Date; closesAt: Date } {
+  const opensAt = new Date(
+    sheetStart.getTime() + columnIndex * config.seconds_per_column * 1000
+  );
+  const closesAt = new Date(
+    opensAt.getTime() + config.seconds_per_column * 1000
+  );
+  return { opensAt, closesAt };
+}
+
+// Column the participant must be working on, null when the sheet is over
+export function getCurrentKraepelinColumn(
+  config: KraepelinConfig,
+  sheetStart: Date,
+  now: Date = new Date()
+): number | null {
+  const elapsedSeconds = (now.getTime() - sheetStart.getTime()) / 1000;
+  if (elapsedSeconds < 0) return 0;
+  const column = Math.floor(elapsedSeconds / config.seconds_per_column);
+  return column < config.column_count ? column : null;
+}
+
+// Standard Kraepelin indicators from per-column answer records
+export function calculateKraepelinIndicators(
+  columns: Pick<
+    KraepelinColumnAnswerData,
+    "column_index" | "worked" | "correct" | "errors" | "last_row"
+  >[],
+  columnCount: number = columns.length
+): KraepelinIndicators {
+  // Columns without a submission count as zero output
+  const byIndex = new Map(
+    columns.map((column) => [column.column_index, column])
+  );
+  const workCurve = Array.from({ length: columnCount }, (_, columnIndex) => {
+    const column = byIndex.get(columnIndex);
+    return {
+      column_index: columnIndex,
+      worked: column?.worked || 0,
+      correct: column?.correct || 0,
+    };
+  });
+
+  const totalWorked = workCurve.reduce((sum, c) => sum + c.worked, 0);
+  const totalCorrect = workCurve.reduce((sum, c) => sum + c.correct, 0);
+  const totalErrors = columns.reduce((sum, c) => sum + c.errors, 0);
+
+  // Rows passed over before the furthest row reached in each column
+  const totalSkipped = columns.reduce(
+    (sum, column) => sum + Math.max(0, column.last_row + 1 - column.worked),
+    0
+  );
+
+  const workedPerColumn = workCurve.map((c) => c.worked);
+  const panker = columnCount > 0 ? totalWorked / columnCount : 0;
+  const janker =
+    workedPerColumn.length > 0
+      ? Math.max(...workedPerColumn) - Math.min(...workedPerColumn)
+      : 0;
+
+  // Least-squares slope of worked items over column index
+  let hanker = 0;
+  if (columnCount > 1) {
+    const meanX = (columnCount - 1) / 2;
+    let numerator = 0;
+    let denominator = 0;
+    workedPerColumn.forEach((worked, x) => {
+      numerator += (x - meanX) * (worked - panker);
+      denominator += Math.pow(x - meanX, 2);
+    });
+    hanker = denominator > 0 ? numerator / denominator : 0;
+  }
+
+  return {
+    panker: Math.round(panker * 100) / 100,
+    tianker: totalErrors + totalSkipped,
+    janker,
+    hanker: Math.round(hanker * 1000) / 1000,
+    total_worked: totalWorked,
+    total_correct: totalCorrect,
+    total_errors: totalErrors,
+    total_skipped: totalSkipped,
+    accuracy_rate:
+      totalWorked > 0
+        ? Math.round((totalCorrect / totalWorked) * 10000) / 100
+        : 0,
+    work_curve: workCurve,
+  };
+}
+
+export function isKraepelinCategory(category: string): boolean {
+  return category === "kraepelin" || category === "pauli";
+}
+
+// ==================== CONSTANTS ====================
+
+// Default sheets: Kraepelin with short forced column switches, Pauli with
+// long continuous columns marked every three minutes
+export const KRAEPELIN_DEFAULT_CONFIGS: Record<
+  KraepelinVariant,
+  Omit<KraepelinConfig, "seed">
+> = {
+  kraepelin: {
+    variant: "kraepelin",
+    column_count: 50,
+    digits_per_column: 60,
+    seconds_per_column: 15,
+  },
+  pauli: {
+    variant: "pauli",
+    column_count: 20,
+    digits_per_column: 150,
+    seconds_per_column: 180,
+  },
+};
+
+// Late submissions are still accepted within this many seconds of a switch
+export const KRAEPELIN_SUBMIT_GRACE_SECONDS = 10;
+
+export const KRAEPELIN_INDICATOR_LABELS = {
+  panker: "Kecepatan Kerja (Panker)",
+  tianker: "Ketelitian Kerja (Tianker)",
+  janker: "Keajegan Kerja (Janker)",
+  hanker: "Ketahanan Kerja (Hanker)",
+} as const;
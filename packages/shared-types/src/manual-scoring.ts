@@ -0,0 +1,413 @@
+import { z } from "zod";
+import { QuestionTypeEnum, type QuestionType } from "./question";
+
+// ==================== ENUMS ====================
+
+// Answers of these types are graded by assessors instead of a key
+export const MANUAL_SCORING_QUESTION_TYPES = [
+  "text",
+  "drawing",
+] as const satisfies readonly QuestionType[];
+
+export const ManualScoringStatusEnum = z.enum([
+  "needs_rating", // not graded by the requesting assessor yet
+  "awaiting_rater", // graded by the assessor, another rater still required
+  "scored", // every required rating is in, the answer score is final
+]);
+
+// ==================== BASE SCHEMAS ====================
+
+export const ManualScoringConfigSchema = z.object({
+  required_raters: z
+    .number()
+    .int("Required raters must be an integer")
+    .min(1, "At least one rater is required")
+    .max(2, "At most two raters can be required")
+    .default(1),
+  // Largest difference between two raters on a dimension still counted as agreement
+  agreement_tolerance: z
+    .number()
+    .min(0, "Agreement tolerance cannot be negative")
+    .max(100, "Agreement tolerance cannot exceed 100")
+    .default(1),
+});
+
+// Dimension an assessor scores, from the question scoring_key
+export const ManualScoringDimensionSchema = z.object({
+  dimension: z.string(),
+  max_score: z.number(),
+});
+
+// ==================== REQUEST SCHEMAS ====================
+
+// Path Parameters
+export const ManualScoringAnswerRequestSchema = z.object({
+  answerId: z.string().uuid("Invalid answer ID format"),
+});
+
+export const TestManualScoringByTestIdRequestSchema = z.object({
+  testId: z.string().uuid("Invalid test ID format"),
+});
+
+// Query Parameters
+export const GetManualScoringQueueQuerySchema = z.object({
+  page: z.coerce.number().min(1, "Page must be at least 1").default(1),
+  limit: z.coerce
+    .number()
+    .min(1)
+    .max(100, "Limit must be between 1 and 100")
+    .default(10),
+  status: ManualScoringStatusEnum.default("needs_rating"),
+  test_id: z.string().uuid("Invalid test ID format").optional(),
+  session_id: z.string().uuid("Invalid session ID format").optional(),
+  question_type: z.enum(MANUAL_SCORING_QUESTION_TYPES).optional(),
+  search: z.string().optional(), // participant name or email
+});
+
+export const GetRaterAgreementQuerySchema = z.object({
+  test_id: z.string().uuid("Invalid test ID format").optional(),
+  session_id: z.string().uuid("Invalid session ID format").optional(),
+});
+
+// Body
+export const SubmitAnswerRatingRequestSchema = z.object({
+  dimension_scores: z.record(
+    z.string(),
+    z.number().min(0, "Scores cannot be negative")
+  ),
+  notes: z.string().max(2000, "Notes cannot exceed 2000 characters").optional(),
+});
+
+// Require double rating on a test, or reset to a single rater (null)
+export const UpdateTestManualScoringConfigRequestSchema = z.object({
+  manual_scoring_config: ManualScoringConfigSchema.nullable(),
+});
+
+// ==================== RESPONSE SCHEMAS ====================
+
+export const AnswerRatingSchema = z.object({
+  id: z.string().uuid(),
+  rater: z.object({
+    id: z.string().uuid(),
+    name: z.string(),
+  }),
+  dimension_scores: z.record(z.string(), z.number()),
+  score: z.number(),
+  notes: z.string().nullable(),
+  created_at: z.date(),
+  updated_at: z.date(),
+});
+
+export const AnswerAgreementSchema = z.object({
+  max_difference: z.number(),
+  within_tolerance: z.boolean(),
+});
+
+export const ManualScoringQueueItemSchema = z.object({
+  answer_id: z.string().uuid(),
+  attempt_id: z.string().uuid(),
+  status: ManualScoringStatusEnum,
+  participant: z.object({
+    id: z.string().uuid(),
+    name: z.string(),
+    email: z.string(),
+  }),
+  test: z.object({
+    id: z.string().uuid(),
+    name: z.string(),
+    category: z.string(),
+  }),
+  question: z.object({
+    id: z.string().uuid(),
+    question: z.string(),
+    question_type: QuestionTypeEnum,
+    sequence: z.number(),
+  }),
+  answered_at: z.date(),
+  ratings_count: z.number(),
+  required_raters: z.number(),
+  rated_by_me: z.boolean(),
+});
+
+export const ManualScoringAnswerDataSchema =
+  ManualScoringQueueItemSchema.extend({
+    question: ManualScoringQueueItemSchema.shape.question.extend({
+      image_url: z.string().nullable(),
+    }),
+    answer: z.string().nullable(),
+    answer_data: z.record(z.string(), z.any()).nullable(),
+    dimensions: z.array(ManualScoringDimensionSchema),
+    my_rating: AnswerRatingSchema.nullable(),
+    // Other raters' grades stay hidden until the assessor submitted their own
+    ratings: z.array(AnswerRatingSchema),
+    final_scores: z.record(z.string(), z.number()).nullable(),
+    final_score: z.number().nullable(),
+    agreement: AnswerAgreementSchema.nullable(),
+  });
+
+export const GetManualScoringQueueResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.array(ManualScoringQueueItemSchema),
+  meta: z.object({
+    current_page: z.number(),
+    per_page: z.number(),
+    total: z.number(),
+    total_pages: z.number(),
+    has_next_page: z.boolean(),
+    has_prev_page: z.boolean(),
+  }),
+  summary: z.object({
+    needs_rating: z.number(),
+    awaiting_rater: z.number(),
+    scored: z.number(),
+  }),
+  timestamp: z.string(),
+});
+
+export const ManualScoringAnswerResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: ManualScoringAnswerDataSchema,
+  timestamp: z.string(),
+});
+
+export const SubmitAnswerRatingResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: ManualScoringAnswerDataSchema.extend({
+    result_recalculated: z.boolean(), // every manual item of the attempt graded
+  }),
+  timestamp: z.string(),
+});
+
+export const RaterAgreementSchema = z.object({
+  pairs: z.number(), // dimension scores given by both raters
+  exact_agreement: z.number().nullable(), // percentage
+  tolerance_agreement: z.number().nullable(), // percentage
+  mean_absolute_difference: z.number().nullable(),
+  correlation: z.number().nullable(), // Pearson r between the two raters
+});
+
+export const RaterAgreementReportSchema = z.object({
+  double_rated_answers: z.number(),
+  agreement_tolerance: z.number(),
+  overall: RaterAgreementSchema,
+  dimensions: z.array(
+    RaterAgreementSchema.extend({
+      dimension: z.string(),
+    })
+  ),
+});
+
+export const GetRaterAgreementResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: RaterAgreementReportSchema,
+  timestamp: z.string(),
+});
+
+export const TestManualScoringDataSchema = z.object({
+  test_id: z.string().uuid(),
+  manual_scoring_config: ManualScoringConfigSchema.nullable(),
+  manual_items: z.number(), // questions graded by assessors
+});
+
+export const GetTestManualScoringResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: TestManualScoringDataSchema,
+  timestamp: z.string(),
+});
+
+export const UpdateTestManualScoringResponseSchema =
+  GetTestManualScoringResponseSchema;
+
+export const ManualScoringErrorResponseSchema = z.object({
+  success: z.literal(false),
+  message: z.string(),
+  errors: z
+    .array(
+      z.object({
+        field: z.string().optional(),
+        message: z.string(),
+        code: z.string().optional(),
+      })
+    )
+    .optional(),
+  timestamp: z.string(),
+});
+
+// ==================== TYPE EXPORTS ====================
+export type ManualScoringStatus = z.infer<typeof ManualScoringStatusEnum>;
+export type ManualScoringConfig = z.infer<typeof ManualScoringConfigSchema>;
+export type ManualScoringDimension = z.infer<
+  typeof ManualScoringDimensionSchema
+>;
+export type ManualScoringAnswerRequest = z.infer<
+  typeof ManualScoringAnswerRequestSchema
+>;
+export type TestManualScoringByTestIdRequest = z.infer<
+  typeof TestManualScoringByTestIdRequestSchema
+>;
+export type GetManualScoringQueueQuery = z.infer<
+  typeof GetManualScoringQueueQuerySchema
+>;
+export type GetRaterAgreementQuery = z.infer<
+  typeof GetRaterAgreementQuerySchema
+>;
+export type SubmitAnswerRatingRequest = z.infer<
+  typeof SubmitAnswerRatingRequestSchema
+>;
+export type UpdateTestManualScoringConfigRequest = z.infer<
+  typeof UpdateTestManualScoringConfigRequestSchema
+>;
+export type AnswerRating = z.infer<typeof AnswerRatingSchema>;
+export type AnswerAgreement = z.infer<typeof AnswerAgreementSchema>;
+export type ManualScoringQueueItem = z.infer<
+  typeof ManualScoringQueueItemSchema
+>;
+export type ManualScoringAnswerData = z.infer<
+  typeof ManualScoringAnswerDataSchema
+>;
+export type GetManualScoringQueueResponse = z.infer<
+  typeof GetManualScoringQueueResponseSchema
+>;
+export type ManualScoringAnswerResponse = z.infer<
+  typeof ManualScoringAnswerResponseSchema
+>;
+export type SubmitAnswerRatingResponse = z.infer<
+  typeof SubmitAnswerRatingResponseSchema
+>;
+export type RaterAgreement = z.infer<typeof RaterAgreementSchema>;
+export type RaterAgreementReport = z.infer<typeof RaterAgreementReportSchema>;
+export type GetRaterAgreementResponse = z.infer<
+  typeof GetRaterAgreementResponseSchema
+>;
+export type TestManualScoringData = z.infer<typeof TestManualScoringDataSchema>;
+export type GetTestManualScoringResponse = z.infer<
+  typeof GetTestManualScoringResponseSchema
+>;
+export type UpdateTestManualScoringResponse = z.infer<
+  typeof UpdateTestManualScoringResponseSchema
+>;
+export type ManualScoringErrorResponse = z.infer<
+  typeof ManualScoringErrorResponseSchema
+>;
+
+// ==================== UTILITY FUNCTIONS ====================
+
+export function requiresManualScoring(questionType: string): boolean {
+  return (MANUAL_SCORING_QUESTION_TYPES as readonly string[]).includes(
+    questionType
+  );
+}
+
+// Largest per-dimension difference between any two raters of an answer
+export function calculateAnswerAgreement(
+  ratings: Array<Record<string, number>>,
+  tolerance: number
+): AnswerAgreement | null {
+  if (ratings.length < 2) return null;
+
+  let maxDifference = 0;
+  const dimensions = new Set(ratings.flatMap((rating) => Object.keys(rating)));
+  for (const dimension of dimensions) {
+    const scores = ratings.map((rating) => rating[dimension] ?? 0);
+    maxDifference = Math.max(
+      maxDifference,
+      Math.max(...scores) - Math.min(...scores)
+    );
+  }
+
+  return {
+    max_difference: maxDifference,
+    within_tolerance: maxDifference <= tolerance,
+  };
+}
+
+/**
+ * Agreement between a first and a second rater over paired scores:
+ * exact and within-tolerance agreement, mean absolute difference and
+ * the Pearson correlation (null below three pairs or without variance)
+ */
+export function calculateRaterAgreement(
+  pairs: Array<[number, number]>,
+  tolerance: number
+): RaterAgreement {
+  if (pairs.length === 0) {
+    return {
+      pairs: 0,
+      exact_agreement: null,
+      tolerance_agreement: null,
+      mean_absolute_difference: null,
+      correlation: null,
+    };
+  }
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  const differences = pairs.map(([first, second]) => Math.abs(first - second));
+  const exact = differences.filter((difference) => difference === 0).length;
+  const withinTolerance = differences.filter(
+    (difference) => difference <= tolerance
+  ).length;
+
+  let correlation: number | null = null;
+  if (pairs.length >= 3) {
+    const meanFirst =
+      pairs.reduce((sum, [first]) => sum + first, 0) / pairs.length;
+    const meanSecond =
+      pairs.reduce((sum, [, second]) => sum + second, 0) / pairs.length;
+    let covariance = 0;
+    let varianceFirst = 0;
+    let varianceSecond = 0;
+    for (const [first, second] of pairs) {
+      covariance += (first - meanFirst) * (second - meanSecond);
+      varianceFirst += Math.pow(first - meanFirst, 2);
+      varianceSecond += Math.pow(second - meanSecond, 2);
+    }
+    if (varianceFirst > 0 && varianceSecond > 0) {
+      correlation = round(
+        covariance / Math.sqrt(varianceFirst * varianceSecond)
+      );
+    }
+  }
+
+  return {
+    pairs: pairs.length,
+    exact_agreement: round((exact / pairs.length) * 100),
+    tolerance_agreement: round((withinTolerance / pairs.length) * 100),
+    mean_absolute_difference: round(
+      differences.reduce((sum, difference) => sum + difference, 0) /
+        pairs.length
+    ),
+    correlation,
+  };
+}
+
+// ==================== CONSTANTS ====================
+
+export const DEFAULT_MANUAL_SCORING_CONFIG: ManualScoringConfig = {
+  required_raters: 1,
+  agreement_tolerance: 1,
+};
+
+// Dimension used when a manually graded question has no scoring_key
+export const DEFAULT_MANUAL_SCORING_DIMENSION: ManualScoringDimension = {
+  dimension: "score",
+  max_score: 1,
+};
+
+export const MANUAL_SCORING_STATUS_LABELS: Record<ManualScoringStatus, string> =
+  {
+    needs_rating: "Perlu Dinilai",
+    awaiting_rater: "Menunggu Penilai Kedua",
+    scored: "Sudah Dinilai",
+  };
+
+export const MANUAL_SCORING_STATUS_COLORS: Record<ManualScoringStatus, string> =
+  {
+    needs_rating: "bg-yellow-100 text-yellow-800",
+    awaiting_rater: "bg-blue-100 text-blue-800",
+    scored: "bg-green-100 text-green-800",
+  };
@@ -0,0 +1,278 @@
+import { z } from "zod";
+import { findProvince, getProvinceByCode } from "./region";
+
+// ==================== ENUMS ====================
+
+// Profile fields a NIK encodes and can be checked against
+export const NikProfileFieldEnum = z.enum(["birth_date", "gender", "province"]);
+
+// ==================== BASE SCHEMAS ====================
+
+/**
+ * Data encoded in a 16 digit NIK (Nomor Induk Kependudukan):
+ * PP KK CC DDMMYY SSSS - province, regency and district code, birth date
+ * (day + 40 for women) and a serial number
+ */
+export const NikInfoSchema = z.object({
+  nik: z.string(),
+  province_code: z.string(), // "32"
+  regency_code: z.string(), // "3273", province code included
+  district_code: z.string(), // "327301", regency code included
+  province: z.string(),
+  birth_date: z.string(), // YYYY-MM-DD, century inferred from the two digit year
+  gender: z.enum(["male", "female"]),
+  serial: z.string(),
+});
+
+// A supplied profile value that disagrees with the NIK
+export const NikMismatchSchema = z.object({
+  field: NikProfileFieldEnum,
+  message: z.string(),
+  code: z.string(),
+  nik_value: z.string(),
+  supplied_value: z.string(),
+});
+
+// A well-formed NIK, for request schemas
+export const NikSchema = z.string().superRefine((nik, ctx) => {
+  const result = parseNik(nik);
+  if (!result.valid) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.message });
+  }
+});
+
+// ==================== TYPE EXPORTS ====================
+export type NikProfileField = z.infer<typeof NikProfileFieldEnum>;
+export type NikInfo = z.infer<typeof NikInfoSchema>;
+export type NikMismatch = z.infer<typeof NikMismatchSchema>;
+
+// ==================== UTILITY TYPES ====================
+
+export type NikParseResult =
+  | { valid: true; info: NikInfo }
+  | { valid: false; message: string; code: NikErrorCode };
+
+// Profile values as they come from requests, import rows or the users table
+export interface NikProfile {
+  birth_date?: string | Date | null;
+  gender?: string | null;
+  province?: string | null;
+}
+
+export interface NikProfileDefaults {
+  birth_date?: string; // YYYY-MM-DD
+  gender?: NikInfo["gender"];
+  province?: string;
+}
+
+// ==================== UTILITY FUNCTIONS ====================
+
+/**
+ * Decode a NIK, rejecting anything that is not 16 digits with a known
+ * province, non-zero regency, district and serial, and a real birth date
+ * that is not in the future
+ */
+export function parseNik(
+  nik: string,
+  today: Date = new Date()
+): NikParseResult {
+  if (!/^\d{16}$/.test(nik)) {
+    return {
+      valid: false,
+      message: "NIK must be exactly 16 digits",
+      code: NIK_ERROR_CODES.INVALID_FORMAT,
+    };
+  }
+
+  const provinceCode = nik.substring(0, 2);
+  const province = getProvinceByCode(provinceCode);
+  if (!province) {
+    return {
+      valid: false,
+      message: `NIK province code ${provinceCode} is not a known province`,
+      code: NIK_ERROR_CODES.INVALID_REGION,
+    };
+  }
+
+  if (nik.substring(2, 4) === "00" || nik.substring(4, 6) === "00") {
+    return {
+      valid: false,
+      message: "NIK regency and district codes cannot be 00",
+      code: NIK_ERROR_CODES.INVALID_REGION,
+    };
+  }
+
+  const encodedDay = Number(nik.substring(6, 8));
+  const month = Number(nik.substring(8, 10));
+  const shortYear = Number(nik.substring(10, 12));
+  const gender = encodedDay > 40 ? "female" : "male";
+  const day = gender === "female" ? encodedDay - 40 : encodedDay;
+
+  // A two digit year that would put the birth date in the future is 19xx
+  let birthDate = toNikDate(2000 + shortYear, month, day);
+  if (birthDate && birthDate > formatNikDate(today)) {
+    birthDate = toNikDate(1900 + shortYear, month, day);
+  }
+  if (!birthDate) {
+    return {
+      valid: false,
+      message: "NIK does not encode a valid birth date",
+      code: NIK_ERROR_CODES.INVALID_BIRTH_DATE,
+    };
+  }
+
+  const serial = nik.substring(12, 16);
+  if (serial === "0000") {
+    return {
+      valid: false,
+      message: "NIK serial number cannot be 0000",
+      code: NIK_ERROR_CODES.INVALID_SERIAL,
+    };
+  }
+
+  return {
+    valid: true,
+    info: {
+      nik,
+      province_code: provinceCode,
+      regency_code: nik.substring(0, 4),
+      district_code: nik.substring(0, 6),
+      province: province.name,
+      birth_date: birthDate,
+      gender,
+      serial,
+    },
+  };
+}
+
+export function isValidNik(nik: string): boolean {
+  return parseNik(nik).valid;
+}
+
+/**
+ * Supplied profile values that disagree with the NIK. Birth years compare by
+ * their last two digits since the NIK does not encode the century, and a
+ * gender of "other" is never flagged.
+ */
+export function getNikMismatches(
+  info: NikInfo,
+  profile: NikProfile
+): NikMismatch[] {
+  const mismatches: NikMismatch[] = [];
+
+  const birthDate = toProfileDate(profile.birth_date);
+  if (birthDate && birthDate.substring(2) !== info.birth_date.substring(2)) {
+    mismatches.push({
+      field: "birth_date",
+      message: `Birth date ${birthDate} does not match the NIK (${info.birth_date})`,
+      code: NIK_ERROR_CODES.BIRTH_DATE_MISMATCH,
+      nik_value: info.birth_date,
+      supplied_value: birthDate,
+    });
+  }
+
+  if (
+    (profile.gender === "male" || profile.gender === "female") &&
+    profile.gender !== info.gender
+  ) {
+    mismatches.push({
+      field: "gender",
+      message: `Gender ${profile.gender} does not match the NIK (${info.gender})`,
+      code: NIK_ERROR_CODES.GENDER_MISMATCH,
+      nik_value: info.gender,
+      supplied_value: profile.gender,
+    });
+  }
+
+  if (
+    profile.province?.trim() &&
+    !isNikProvinceMatch(info.province_code, profile.province)
+  ) {
+    mismatches.push({
+      field: "province",
+      message: `Province ${profile.province.trim()} does not match the NIK (${info.province})`,
+      code: NIK_ERROR_CODES.PROVINCE_MISMATCH,
+      nik_value: info.province,
+      supplied_value: profile.province.trim(),
+    });
+  }
+
+  return mismatches;
+}
+
+// Values from the NIK for the profile fields that are still empty
+export function getNikProfileDefaults(
+  info: NikInfo,
+  profile: NikProfile
+): NikProfileDefaults {
+  const defaults: NikProfileDefaults = {};
+  if (!toProfileDate(profile.birth_date)) defaults.birth_date = info.birth_date;
+  if (!profile.gender) defaults.gender = info.gender;
+  if (!profile.province?.trim()) defaults.province = info.province;
+  return defaults;
+}
+
+/**
+ * Whether a free-text province name is the province of a NIK province code.
+ * NIKs keep the code they were issued with, so codes 91 and 92 also accept
+ * the provinces split off Papua and Papua Barat in 2022.
+ */
+export function isNikProvinceMatch(
+  provinceCode: string,
+  province: string
+): boolean {
+  const supplied = findProvince(province);
+  if (!supplied) return false;
+  return (
+    supplied.code === provinceCode ||
+    (NIK_SPLIT_PROVINCES[provinceCode] || []).includes(supplied.code)
+  );
+}
+
+function toNikDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return formatNikDate(date);
+}
+
+function formatNikDate(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+// Dates are compared by the calendar day as written: a string keeps its own
+// date part, a Date from the database is read in UTC
+function toProfileDate(value: NikProfile["birth_date"]): string | null {
+  if (!value) return null;
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : formatNikDate(value);
+  }
+  const match = /^\d{4}-\d{2}-\d{2}/.exec(value.trim());
+  return match ? match[0] : null;
+}
+
+// ==================== CONSTANTS ====================
+
+// Provinces formed in 2022 out of the province of the older NIK code
+const NIK_SPLIT_PROVINCES: Record<string, string[]> = {
+  "91": ["93", "94", "95"],
+  "92": ["96"],
+};
+
+export const NIK_ERROR_CODES = {
+  INVALID_FORMAT: "INVALID_NIK_FORMAT",
+  INVALID_REGION: "INVALID_NIK_REGION",
+  INVALID_BIRTH_DATE: "INVALID_NIK_BIRTH_DATE",
+  INVALID_SERIAL: "INVALID_NIK_SERIAL",
+  BIRTH_DATE_MISMATCH: "NIK_BIRTH_DATE_MISMATCH",
+  GENDER_MISMATCH: "NIK_GENDER_MISMATCH",
+  PROVINCE_MISMATCH: "NIK_PROVINCE_MISMATCH",
+} as const;
+
+export type NikErrorCode =
+  (typeof NIK_ERROR_CODES)[keyof typeof NIK_ERROR_CODES];
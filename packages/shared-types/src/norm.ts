@@ -0,0 +1,423 @@
+import { z } from "zod";
+import { GenderEnum, EducationEnum } from "./user";
+
+// ==================== ENUMS ====================
+export const NormSourceEnum = z.enum(["manual", "computed"]);
+
+export const NormSplitByEnum = z.enum(["education", "gender", "age_band"]);
+
+// Default scale normed for a test (test_results.scaled_score)
+export const DEFAULT_NORM_SCALE = "scaled_score";
+
+// ==================== BASE SCHEMAS ====================
+
+// Empirical lookup point: raw score -> percentile rank
+export const NormPercentilePointSchema = z.object({
+  score: z.number(),
+  percentile: z.number().min(0).max(100),
+});
+
+export const AgeBandSchema = z
+  .object({
+    min: z.number().int().min(0).max(120),
+    max: z.number().int().min(0).max(120),
+  })
+  .refine((band) => band.min <= band.max, {
+    message: "Age band minimum must not exceed maximum",
+    path: ["min"],
+  });
+
+// ==================== REQUEST SCHEMAS ====================
+
+// Path Parameters
+export const GetNormTablesByTestIdRequestSchema = z.object({
+  testId: z.string().uuid("Invalid test ID format"),
+});
+
+export const NormTableByIdRequestSchema = z.object({
+  testId: z.string().uuid("Invalid test ID format"),
+  normId: z.string().uuid("Invalid norm table ID format"),
+});
+
+// Create Norm Table Request Schema (manual entry)
+export const CreateNormTableRequestSchema = z
+  .object({
+    name: z.string().min(1, "Norm name is required").max(255),
+    description: z.string().optional(),
+    scale: z.string().min(1).max(100).default(DEFAULT_NORM_SCALE),
+    education: EducationEnum.optional(),
+    gender: GenderEnum.optional(),
+    age_min: z.number().int().min(0).max(120).optional(),
+    age_max: z.number().int().min(0).max(120).optional(),
+    mean: z.number(),
+    std_dev: z.number().positive("Standard deviation must be positive"),
+    sample_size: z.number().int().min(0).default(0),
+    percentile_points: z.array(NormPercentilePointSchema).optional(),
+    is_active: z.boolean().default(true),
+  })
+  .refine(
+    (data) =>
+      data.age_min === undefined ||
+      data.age_max === undefined ||
+      data.age_min <= data.age_max,
+    {
+      message: "age_min must not exceed age_max",
+      path: ["age_min"],
+    }
+  );
+
+// Update Norm Table Request Schema
+export const UpdateNormTableRequestSchema = z
+  .object({
+    name: z.string().min(1).max(255).optional(),
+    description: z.string().nullable().optional(),
+    education: EducationEnum.nullable().optional(),
+    gender: GenderEnum.nullable().optional(),
+    age_min: z.number().int().min(0).max(120).nullable().optional(),
+    age_max: z.number().int().min(0).max(120).nullable().optional(),
+    mean: z.number().optional(),
+    std_dev: z.number().positive().optional(),
+    sample_size: z.number().int().min(0).optional(),
+    percentile_points: z.array(NormPercentilePointSchema).nullable().optional(),
+    is_active: z.boolean().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one field must be provided for update",
+    path: ["root"],
+  });
+
+// Compute Norm Tables from existing test_results
+export const ComputeNormTablesRequestSchema = z.object({
+  name: z.string().max(200).optional(),
+  scale: z.string().min(1).max(100).default(DEFAULT_NORM_SCALE),
+  split_by: z.array(NormSplitByEnum).default([]),
+  age_bands: z.array(AgeBandSchema).optional(),
+  min_sample_size: z.number().int().min(2).default(30),
+  date_from: z.string().datetime().optional(),
+  date_to: z.string().datetime().optional(),
+  replace_existing: z.boolean().default(false),
+});
+
+// Get Norm Tables Query Schema
+export const GetNormTablesQuerySchema = z.object({
+  scale: z.string().optional(),
+  include_inactive: z.coerce.boolean().default(false),
+});
+
+// ==================== RESPONSE SCHEMAS ====================
+
+export const NormTableDataSchema = z.object({
+  id: z.string().uuid(),
+  test_id: z.string().uuid(),
+  name: z.string(),
+  description: z.string().nullable(),
+  scale: z.string(),
+  education: z.string().nullable(),
+  gender: z.string().nullable(),
+  age_min: z.number().nullable(),
+  age_max: z.number().nullable(),
+  mean: z.number(),
+  std_dev: z.number(),
+  sample_size: z.number(),
+  percentile_points: z.array(NormPercentilePointSchema).nullable(),
+  source: NormSourceEnum,
+  is_active: z.boolean(),
+  created_at: z.date(),
+  updated_at: z.date(),
+});
+
+// Norm-referenced interpretation of a single score
+export const NormReferencedScoreSchema = z.object({
+  norm_table_id: z.string().uuid(),
+  norm_name: z.string(),
+  z_score: z.number(),
+  t_score: z.number(),
+  percentile: z.number(),
+  stanine: z.number(),
+});
+
+export const GetNormTablesResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.array(NormTableDataSchema),
+  timestamp: z.string(),
+});
+
+export const NormTableResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: NormTableDataSchema,
+  timestamp: z.string(),
+});
+
+export const ComputeNormTablesResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.object({
+    created: z.array(NormTableDataSchema),
+    skipped_groups: z.array(
+      z.object({
+        group: z.string(),
+        sample_size: z.number(),
+        reason: z.string(),
+      })
+    ),
+    total_results_used: z.number(),
+  }),
+  timestamp: z.string(),
+});
+
+export const NormErrorDetailSchema = z.object({
+  field: z.string().optional(),
+  message: z.string(),
+  code: z.string().optional(),
+});
+
+export const NormErrorResponseSchema = z.object({
+  success: z.literal(false),
+  message: z.string(),
+  errors: z.array(NormErrorDetailSchema).optional(),
+  timestamp: z.string(),
+});
+
+// ==================== TYPE EXPORTS ====================
+export type NormSource = z.infer<typeof NormSourceEnum>;
+export type NormSplitBy = z.infer<typeof NormSplitByEnum>;
+export type NormPercentilePoint = z.infer<typeof NormPercentilePointSchema>;
+export type AgeBand = z.infer<typeof AgeBandSchema>;
+
+export type GetNormTablesByTestIdRequest = z.infer<
+  typeof GetNormTablesByTestIdRequestSchema
+>;
+export type NormTableByIdRequest = z.infer<typeof NormTableByIdRequestSchema>;
+export type CreateNormTableRequest = z.infer<
+  typeof CreateNormTableRequestSchema
+>;
+export type UpdateNormTableRequest = z.infer<
+  typeof UpdateNormTableRequestSchema
+>;
+export type ComputeNormTablesRequest = z.infer<
+  typeof ComputeNormTablesRequestSchema
+>;
+export type GetNormTablesQuery = z.infer<typeof GetNormTablesQuerySchema>;
+
+export type NormTableData = z.infer<typeof NormTableDataSchema>;
+export type NormReferencedScore = z.infer<typeof NormReferencedScoreSchema>;
+export type GetNormTablesResponse = z.infer<typeof GetNormTablesResponseSchema>;
+export type NormTableResponse = z.infer<typeof NormTableResponseSchema>;
+export type ComputeNormTablesResponse = z.infer<
+  typeof ComputeNormTablesResponseSchema
+>;
+export type NormErrorResponse = z.infer<typeof NormErrorResponseSchema>;
+
+// Profile fields used to select a norm group
+export type NormProfile = {
+  education?: string | null;
+  gender?: string | null;
+  age?: number | null;
+};
+
+// Minimal norm definition needed for scoring
+export type NormDefinition = {
+  id: string;
+  name: string;
+  scale: string;
+  education: string | null;
+  gender: string | null;
+  age_min: number | null;
+  age_max: number | null;
+  mean: number;
+  std_dev: number;
+  percentile_points: NormPercentilePoint[] | null;
+};
+
+// ==================== UTILITY FUNCTIONS ====================
+
+// Standard normal cumulative distribution (Abramowitz-Stegun 7.1.26)
+export function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z / Math.SQRT2));
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Linear interpolation over an empirical percentile table
+export function percentileFromPoints(
+  points: NormPercentilePoint[],
+  score: number
+): number {
+  const sorted = [...points].sort((a, b) => a.score - b.score);
+  if (sorted.length === 0) return 50;
+  if (score <= sorted[0].score) return sorted[0].percentile;
+  if (score >= sorted[sorted.length - 1].score) {
+    return sorted[sorted.length - 1].percentile;
+  }
+
+  for (let i = 1; i < sorted.length; i++) {
+    const upper = sorted[i];
+    const lower = sorted[i - 1];
+    if (score <= upper.score) {
+      const span = upper.score - lower.score;
+      const ratio = span === 0 ? 1 : (score - lower.score) / span;
+      return lower.percentile + ratio * (upper.percentile - lower.percentile);
+    }
+  }
+
+  return 50;
+}
+
+// Stanine from percentile rank (4-7-12-17-20-17-12-7-4 distribution)
+export function percentileToStanine(percentile: number): number {
+  const upperBounds = [4, 11, 23, 40, 60, 77, 89, 96];
+  const index = upperBounds.findIndex((bound) => percentile < bound);
+  return index === -1 ? 9 : index + 1;
+}
+
+// T-score (mean 50, SD 10) from a z-score
+export function zToTScore(z: number): number {
+  return 50 + 10 * z;
+}
+
+// Convert a score using a norm definition
+export function applyNormTable(
+  norm: NormDefinition,
+  score: number
+): NormReferencedScore {
+  const zScore = norm.std_dev > 0 ? (score - norm.mean) / norm.std_dev : 0;
+
+  const percentile =
+    norm.percentile_points && norm.percentile_points.length >= 2
+      ? percentileFromPoints(norm.percentile_points, score)
+      : normalCdf(zScore) * 100;
+  const boundedPercentile = Math.max(0.1, Math.min(99.9, percentile));
+
+  return {
+    norm_table_id: norm.id,
+    norm_name: norm.name,
+    z_score: Math.round(zScore * 100) / 100,
+    t_score: Math.round(zToTScore(zScore) * 10) / 10,
+    percentile: Math.round(boundedPercentile * 10) / 10,
+    stanine: percentileToStanine(boundedPercentile),
+  };
+}
+
+// Whether a norm group applies to the given profile
+export function normMatchesProfile(
+  norm: NormDefinition,
+  profile: NormProfile
+): boolean {
+  if (norm.education && norm.education !== profile.education) return false;
+  if (norm.gender && norm.gender !== profile.gender) return false;
+  if (norm.age_min !== null || norm.age_max !== null) {
+    if (profile.age === null || profile.age === undefined) return false;
+    if (norm.age_min !== null && profile.age < norm.age_min) return false;
+    if (norm.age_max !== null && profile.age > norm.age_max) return false;
+  }
+  return true;
+}
+
+// Pick the most specific matching norm for a scale (most group criteria wins)
+export function selectNormForProfile<T extends NormDefinition>(
+  norms: T[],
+  scale: string,
+  profile: NormProfile
+): T | null {
+  const specificity = (norm: NormDefinition) =>
+    (norm.education ? 1 : 0) +
+    (norm.gender ? 1 : 0) +
+    (norm.age_min !== null || norm.age_max !== null ? 1 : 0);
+
+  const candidates = norms
+    .filter((norm) => norm.scale === scale)
+    .filter((norm) => normMatchesProfile(norm, profile))
+    .sort((a, b) => specificity(b) - specificity(a));
+
+  return candidates[0] || null;
+}
+
+// Descriptive statistics and percentile lookup for a norm sample
+export function buildNormStatistics(scores: number[]): {
+  mean: number;
+  std_dev: number;
+  percentile_points: NormPercentilePoint[];
+} {
+  const sorted = [...scores].sort((a, b) => a - b);
+  const n = sorted.length;
+  if (n === 0) return { mean: 0, std_dev: 0, percentile_points: [] };
+
+  const mean = sorted.reduce((sum, score) => sum + score, 0) / n;
+  const variance =
+    n > 1
+      ? sorted.reduce((sum, score) => sum + Math.pow(score - mean, 2), 0) /
+        (n - 1)
+      : 0;
+
+  // Score at each reported percentile (linear interpolation between ranks)
+  const pointsByScore = new Map<number, number>();
+  for (const percentile of NORM_PERCENTILE_STEPS) {
+    const rank = (percentile / 100) * (n - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    const score =
+      sorted[lower] + (rank - lower) * (sorted[upper] - sorted[lower]);
+    const rounded = Math.round(score * 100) / 100;
+    // Tied scores keep the highest percentile they reach
+    pointsByScore.set(rounded, percentile);
+  }
+
+  return {
+    mean: Math.round(mean * 100) / 100,
+    std_dev: Math.round(Math.sqrt(variance) * 100) / 100,
+    percentile_points: Array.from(pointsByScore.entries()).map(
+      ([score, percentile]) => ({ score, percentile })
+    ),
+  };
+}
+
+// Age in whole years at a reference date
+export function calculateAgeAt(
+  birthDate: Date | string | null | undefined,
+  referenceDate: Date = new Date()
+): number | null {
+  if (!birthDate) return null;
+  const birth = new Date(birthDate);
+  if (isNaN(birth.getTime())) return null;
+
+  let age = referenceDate.getFullYear() - birth.getFullYear();
+  const monthDiff = referenceDate.getMonth() - birth.getMonth();
+  if (
+    monthDiff < 0 ||
+    (monthDiff === 0 && referenceDate.getDate() < birth.getDate())
+  ) {
+    age--;
+  }
+  return age;
+}
+
+// ==================== CONSTANTS ====================
+export const NORM_SOURCE_LABELS: Record<NormSource, string> = {
+  manual: "Input Manual",
+  computed: "Dihitung dari Data Hasil",
+};
+
+export const STANINE_LABELS: Record<number, string> = {
+  1: "Sangat Rendah",
+  2: "Rendah",
+  3: "Di Bawah Rata-rata",
+  4: "Rata-rata Bawah",
+  5: "Rata-rata",
+  6: "Rata-rata Atas",
+  7: "Di Atas Rata-rata",
+  8: "Tinggi",
+  9: "Sangat Tinggi",
+};
+
+// Percentiles reported in computed norm tables
+export const NORM_PERCENTILE_STEPS = [
+  1, 5, 10, 15, 20, 25, 30, 40, 50, 60, 70, 75, 80, 85, 90, 95, 99,
+];
@@ -0,0 +1,243 @@
+import { z } from "zod";
+
+// ==================== ENUMS ====================
+export const SEQUENCE_SCORING_METHODS = [
+  "exact",
+  "position",
+  "pairwise",
+] as const;
+
+export const MATRIX_SCORING_METHODS = ["exact", "per_cell"] as const;
+
+export const ScoringMethodEnum = z.enum([
+  "exact",
+  "position",
+  "pairwise",
+  "per_cell",
+]);
+
+// ==================== BASE SCHEMAS ====================
+
+// Partial-credit rule of an automatically scored sequence or matrix item
+export const ScoringRuleSchema = z.object({
+  method: ScoringMethodEnum,
+});
+
+// ==================== TYPE EXPORTS ====================
+export type ScoringMethod = z.infer<typeof ScoringMethodEnum>;
+export type ScoringRule = z.infer<typeof ScoringRuleSchema>;
+
+// ==================== UTILITY TYPES ====================
+
+// Cell id -> expected option value, e.g. { "r3c3": "D" }
+export type MatrixKey = string | Record<string, string>;
+
+type KeyedOption = { value: string; label: string; score?: number };
+
+// ==================== UTILITY FUNCTIONS ====================
+
+// Scoring methods an author can pick for the question type
+export function getScoringMethodsForQuestionType(
+  questionType: string
+): readonly ScoringMethod[] {
+  if (questionType === "sequence") return SEQUENCE_SCORING_METHODS;
+  if (questionType === "matrix") return MATRIX_SCORING_METHODS;
+  return [];
+}
+
+export function isScoringMethodAllowed(
+  questionType: string,
+  method: ScoringMethod
+): boolean {
+  return getScoringMethodsForQuestionType(questionType).includes(method);
+}
+
+/**
+ * Correct order of a sequence item. correct_answer holds the option values
+ * comma separated or as a JSON array; without a usable key the authored
+ * option order is the answer.
+ */
+export function parseSequenceKey(
+  correctAnswer: string | null | undefined,
+  options?: KeyedOption[] | null
+): string[] {
+  const optionValues = (options || []).map((option) => option.value);
+  const parsed = parseStringList(correctAnswer);
+
+  const isUsable =
+    parsed.length >= 2 &&
+    new Set(parsed).size === parsed.length &&
+    (optionValues.length === 0 ||
+      parsed.every((value) => optionValues.includes(value)));
+
+  return isUsable ? parsed : optionValues;
+}
+
+/**
+ * Key of a matrix item. A JSON object in correct_answer keys each cell of a
+ * grid, any other value is the single correct cell (Raven-style choice).
+ */
+export function parseMatrixKey(
+  correctAnswer: string | null | undefined
+): MatrixKey | null {
+  const trimmed = correctAnswer?.trim();
+  if (!trimmed) return null;
+
+  if (trimmed.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        const cells = Object.entries(parsed).filter(
+          ([, value]) => typeof value === "string" || typeof value === "number"
+        );
+        if (cells.length > 0) {
+          return Object.fromEntries(
+            cells.map(([cell, value]) => [cell, String(value)])
+          );
+        }
+      }
+    } catch {
+      // Not JSON, treat it as a single cell value
+    }
+  }
+
+  return trimmed;
+}
+
+/**
+ * Credit (0-1) for an ordering answer:
+ * - exact: all items in the keyed order
+ * - position: share of items placed at their keyed position
+ * - pairwise: share of item pairs kept in the keyed relative order
+ */
+export function scoreSequenceAnswer(
+  sequence: unknown,
+  key: string[],
+  method: ScoringMethod = "exact"
+): number {
+  if (!Array.isArray(sequence) || key.length === 0) return 0;
+  const answer = sequence.map(String);
+
+  switch (method) {
+    case "position": {
+      const placed = key.filter((value, index) => answer[index] === value);
+      return placed.length / key.length;
+    }
+
+    case "pairwise": {
+      if (key.length < 2) return isSameOrder(answer, key) ? 1 : 0;
+      const positions = new Map<string, number>();
+      answer.forEach((value, index) => {
+        if (!positions.has(value)) positions.set(value, index);
+      });
+
+      let pairs = 0;
+      let ordered = 0;
+      for (let i = 0; i < key.length; i++) {
+        for (let j = i + 1; j < key.length; j++) {
+          pairs++;
+          const first = positions.get(key[i]);
+          const second = positions.get(key[j]);
+          if (first !== undefined && second !== undefined && first < second) {
+            ordered++;
+          }
+        }
+      }
+      return ordered / pairs;
+    }
+
+    default:
+      return isSameOrder(answer, key) ? 1 : 0;
+  }
+}
+
+/**
+ * Credit (0-1) for a matrix answer. Grid answers map cell ids to option
+ * values; per_cell gives the share of keyed cells filled correctly. For a
+ * single cell choice, per_cell falls back to the chosen option's score so
+ * near-miss distractors can earn part of the credit.
+ */
+export function scoreMatrixAnswer(
+  selection: unknown,
+  key: MatrixKey | null,
+  method: ScoringMethod = "exact",
+  options?: KeyedOption[] | null
+): number {
+  if (key === null || selection === null || selection === undefined) return 0;
+
+  if (typeof key === "string") {
+    if (typeof selection !== "string" && typeof selection !== "number") {
+      return 0;
+    }
+    const chosen = String(selection);
+    if (chosen === key) return 1;
+    if (method !== "per_cell") return 0;
+
+    const optionScore = options?.find(
+      (option) => option.value === chosen
+    )?.score;
+    return typeof optionScore === "number"
+      ? Math.max(0, Math.min(1, optionScore))
+      : 0;
+  }
+
+  if (typeof selection !== "object" || Array.isArray(selection)) return 0;
+  const answer = selection as Record<string, unknown>;
+  const cells = Object.entries(key);
+  const matched = cells.filter(
+    ([cell, value]) =>
+      answer[cell] !== undefined &&
+      answer[cell] !== null &&
+      String(answer[cell]) === value
+  ).length;
+
+  if (method === "per_cell") return matched / cells.length;
+  return matched === cells.length ? 1 : 0;
+}
+
+function parseStringList(value: string | null | undefined): string[] {
+  const trimmed = value?.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) {
+        return parsed.map((item) => String(item).trim()).filter(Boolean);
+      }
+    } catch {
+      // Fall through to the comma separated form
+    }
+  }
+
+  return trimmed
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function isSameOrder(answer: string[], key: string[]): boolean {
+  return (
+    answer.length === key.length &&
+    key.every((value, index) => answer[index] === value)
+  );
+}
+
+// ==================== CONSTANTS ====================
+export const DEFAULT_SCORING_RULE: ScoringRule = { method: "exact" };
+
+export const SCORING_METHOD_LABELS: Record<ScoringMethod, string> = {
+  exact: "Semua atau tidak sama sekali",
+  position: "Per posisi yang tepat",
+  pairwise: "Per pasangan urutan yang tepat",
+  per_cell: "Per sel yang tepat",
+};
+
+export const SCORING_METHOD_DESCRIPTIONS: Record<ScoringMethod, string> = {
+  exact: "Nilai penuh hanya jika seluruh jawaban sesuai kunci",
+  position: "Nilai sebanding dengan jumlah item di posisi yang benar",
+  pairwise:
+    "Nilai sebanding dengan jumlah pasangan item yang urutan relatifnya benar",
+  per_cell:
+    "Nilai sebanding dengan jumlah sel yang benar, atau skor pilihan untuk jawaban satu sel",
+};
@@ -0,0 +1,230 @@
+import { z } from "zod";
+import { QuestionTypeEnum } from "./question";
+import { createSeededRandom } from "./random";
+
+// ==================== ENUMS ====================
+
+// unopened: timed question whose clock has not started, content withheld
+// open: can be answered, answered: has a saved answer, expired: time is up
+export const DeliveredQuestionStateEnum = z.enum([
+  "unopened",
+  "open",
+  "answered",
+  "expired",
+]);
+
+// ==================== REQUEST SCHEMAS ====================
+
+// Path Parameters
+export const AttemptQuestionsRequestSchema = z.object({
+  attemptId: z.string().uuid("Invalid attempt ID format"),
+});
+
+export const AttemptQuestionRequestSchema = z.object({
+  attemptId: z.string().uuid("Invalid attempt ID format"),
+  questionId: z.string().uuid("Invalid question ID format"),
+});
+
+// ==================== RESPONSE SCHEMAS ====================
+
+// Option as shown to participants (no per-option scores)
+export const DeliveredQuestionOptionSchema = z.object({
+  value: z.string(),
+  label: z.string(),
+});
+
+// Answer the participant saved earlier, without any scoring
+export const DeliveredQuestionAnswerSchema = z.object({
+  answer: z.string().nullable(),
+  answer_data: z.record(z.any()).nullable(),
+  time_taken: z.number().nullable(),
+  answered_at: z.string().datetime(),
+});
+
+// Question as delivered to a participant: never includes correct_answer
+// or scoring_key
+export const DeliveredQuestionSchema = z.object({
+  id: z.string().uuid(),
+  sequence: z.number(),
+  question_type: QuestionTypeEnum,
+  question: z.string().nullable(), // null while unopened
+  options: z.array(DeliveredQuestionOptionSchema).nullable(),
+  image_url: z.string().nullable(),
+  audio_url: z.string().nullable(),
+  is_required: z.boolean(),
+  time_limit: z.number().nullable(), // seconds, per question
+  state: DeliveredQuestionStateEnum,
+  delivered_at: z.string().datetime().nullable(),
+  deadline: z.string().datetime().nullable(),
+  time_remaining: z.number().nullable(), // seconds until deadline
+  saved_answer: DeliveredQuestionAnswerSchema.nullable(),
+});
+
+// Attempt context shared by the delivery responses
+const DeliveryAttemptSchema = z.object({
+  attempt_id: z.string().uuid(),
+  test_id: z.string().uuid(),
+  attempt_status: z.string(),
+  end_time: z.string().datetime().nullable(),
+  time_remaining: z.number().nullable(), // seconds until the attempt ends
+  total_questions: z.number(),
+  answered_questions: z.number(),
+  // Adaptive attempts list only the items given so far; the next one is
+  // chosen after each submitted answer
+  is_adaptive: z.boolean(),
+});
+
+// Get Attempt Questions Response
+export const GetAttemptQuestionsResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: DeliveryAttemptSchema.extend({
+    questions: z.array(DeliveredQuestionSchema),
+  }),
+  timestamp: z.string(),
+});
+
+// Get Next / Specific Attempt Question Response
+export const GetAttemptQuestionResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: DeliveryAttemptSchema.extend({
+    question: DeliveredQuestionSchema.nullable(), // null when nothing is left
+  }),
+  timestamp: z.string(),
+});
+
+// Question as it was presented in an attempt, for reviewers
+export const AttemptPresentationQuestionSchema = z.object({
+  id: z.string().uuid(),
+  sequence: z.number(), // order in the question bank
+  position: z.number(), // order shown to the participant, from 1
+  question_type: QuestionTypeEnum,
+  option_order: z.array(z.string()).nullable(), // option values as shown
+});
+
+// Get Attempt Presentation Response
+export const GetAttemptPresentationResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.object({
+    attempt_id: z.string().uuid(),
+    form_label: z.string().nullable(), // parallel form from the test blueprint
+    is_adaptive: z.boolean(),
+    shuffle_seed: z.string().nullable(),
+    shuffle_questions: z.boolean(),
+    shuffle_options: z.boolean(),
+    questions: z.array(AttemptPresentationQuestionSchema),
+  }),
+  timestamp: z.string(),
+});
+
+// ==================== TYPE EXPORTS ====================
+export type DeliveredQuestionState = z.infer<typeof DeliveredQuestionStateEnum>;
+export type AttemptQuestionsRequest = z.infer<
+  typeof AttemptQuestionsRequestSchema
+>;
+export type AttemptQuestionRequest = z.infer<
+  typeof AttemptQuestionRequestSchema
+>;
+export type DeliveredQuestionOption = z.infer<
+  typeof DeliveredQuestionOptionSchema
+>;
+export type DeliveredQuestionAnswer = z.infer<
+  typeof DeliveredQuestionAnswerSchema
+>;
+export type DeliveredQuestion = z.infer<typeof DeliveredQuestionSchema>;
+export type GetAttemptQuestionsResponse = z.infer<
+  typeof GetAttemptQuestionsResponseSchema
+>;
+export type GetAttemptQuestionResponse = z.infer<
+  typeof GetAttemptQuestionResponseSchema
+>;
+
+export type AttemptPresentationQuestion = z.infer<
+  typeof AttemptPresentationQuestionSchema
+>;
+export type GetAttemptPresentationResponse = z.infer<
+  typeof GetAttemptPresentationResponseSchema
+>;
+
+// ==================== UTILITY FUNCTIONS ====================
+
+// Deadline of a timed question, counted from its first delivery
+export function getQuestionDeadline(
+  deliveredAt: Date,
+  timeLimit: number | null
+): Date | null {
+  if (!timeLimit || timeLimit <= 0) return null;
+  return new Date(deliveredAt.getTime() + timeLimit * 1000);
+}
+
+// Delivery state of a question for the participant
+export function getDeliveredQuestionState(
+  question: {
+    time_limit: number | null;
+    delivered_at: Date | null;
+    deadline: Date | null;
+    is_answered: boolean;
+  },
+  now: Date = new Date()
+): DeliveredQuestionState {
+  const isTimed = Boolean(question.time_limit && question.time_limit > 0);
+
+  if (isTimed && !question.delivered_at) return "unopened";
+  if (question.deadline && now > question.deadline) return "expired";
+  if (question.is_answered) return "answered";
+  return "open";
+}
+
+// Sort key of an item for a seed. Each item gets its own key, so adding or
+// removing questions later never reshuffles the rest of the order
+function getShuffleKey(seed: string, itemKey: string): number {
+  return createSeededRandom(`${seed}:${itemKey}`)();
+}
+
+// Question order an attempt with this seed is shown
+export function shuffleQuestionsForAttempt<T extends { id: string }>(
+  questions: T[],
+  seed: string
+): T[] {
+  return [...questions].sort(
+    (a, b) => getShuffleKey(seed, a.id) - getShuffleKey(seed, b.id)
+  );
+}
+
+// Option order of one question for an attempt. Scales and true/false keep
+// their natural order; answers are always stored by option value
+export function shuffleOptionsForAttempt<T extends { value: string }>(
+  options: T[],
+  seed: string,
+  questionId: string,
+  questionType: string
+): T[] {
+  if (!SHUFFLEABLE_OPTION_QUESTION_TYPES.includes(questionType)) {
+    return options;
+  }
+
+  return [...options].sort(
+    (a, b) =>
+      getShuffleKey(seed, `${questionId}:${a.value}`) -
+      getShuffleKey(seed, `${questionId}:${b.value}`)
+  );
+}
+
+// ==================== CONSTANTS ====================
+
+// Answers arriving this many seconds after a question deadline are still
+// accepted, to absorb network latency
+export const QUESTION_TIME_LIMIT_GRACE_SECONDS = 5;
+
+// Question types whose options may be shown in a shuffled order
+export const SHUFFLEABLE_OPTION_QUESTION_TYPES: string[] = [
+  "multiple_choice",
+  "sequence",
+  "matrix",
+];
+
+// Question types whose options are always shown shuffled, whatever the test
+// settings: their options are stored in answer key order
+export const ALWAYS_SHUFFLED_OPTION_QUESTION_TYPES: string[] = ["sequence"];
@@ -1,4 +1,9 @@
 import { z } from "zod";
+import {
+  ScoringRuleSchema,
+  isScoringMethodAllowed,
+  type ScoringRule,
+} from "./partial-credit";
 
 // ==================== ENUMS ====================
 export const QuestionTypeEnum = z.enum([
@@ -11,6 +16,9 @@ export const QuestionTypeEnum = z.enum([
   "matrix",
 ]);
 
+// Item bank difficulty tag
+export const QuestionDifficultyEnum = z.enum(["easy", "medium", "hard"]);
+
 // ==================== REQUEST SCHEMAS ====================
 
 // Option Schema for multiple choice and rating scale questions
@@ -23,6 +31,13 @@ export const QuestionOptionSchema = z.object({
 // Scoring Key Schema for complex scoring
 export const ScoringKeySchema = z.record(z.string(), z.number());
 
+// Item bank dimension tag, e.g. "verbal" or "numerical"
+export const QuestionDimensionSchema = z
+  .string()
+  .trim()
+  .min(1, "Dimension cannot be empty")
+  .max(100, "Dimension is too long");
+
 // Create Question Request Schema
 export const CreateQuestionRequestSchema = z
   .object({
@@ -54,6 +69,9 @@ export const CreateQuestionRequestSchema = z
       .max(500, "Audio URL is too long")
       .optional(),
     scoring_key: ScoringKeySchema.optional(),
+    scoring_rule: ScoringRuleSchema.optional(),
+    dimension: QuestionDimensionSchema.optional(),
+    difficulty: QuestionDifficultyEnum.optional(),
     is_required: z.boolean().default(true),
   })
   .refine(
@@ -73,6 +91,15 @@ export const CreateQuestionRequestSchema = z
       message: "Options are required for this question type",
       path: ["options"],
     }
+  )
+  .refine(
+    (data) =>
+      !data.scoring_rule ||
+      isScoringMethodAllowed(data.question_type, data.scoring_rule.method),
+    {
+      message: "Scoring method is not available for this question type",
+      path: ["scoring_rule", "method"],
+    }
   );
 
 // Create Question By Test ID Request Schema (Path Parameters)
@@ -112,6 +139,9 @@ export const UpdateQuestionRequestSchema = z
       .max(500, "Audio URL is too long")
       .optional(),
     scoring_key: ScoringKeySchema.optional(),
+    scoring_rule: ScoringRuleSchema.nullable().optional(),
+    dimension: QuestionDimensionSchema.nullable().optional(),
+    difficulty: QuestionDifficultyEnum.nullable().optional(),
     is_required: z.boolean().optional(),
   })
   .refine(
@@ -158,6 +188,8 @@ export const GetQuestionsRequestSchema = z.object({
   has_image: z.coerce.boolean().optional(),
   has_audio: z.coerce.boolean().optional(),
   is_required: z.coerce.boolean().optional(),
+  dimension: z.string().optional(),
+  difficulty: QuestionDifficultyEnum.optional(),
 
   // Time limit range filters
   time_limit_min: z.coerce
@@ -207,6 +239,9 @@ export const QuestionDataSchema = z.object({
   image_url: z.string().nullable(),
   audio_url: z.string().nullable(),
   scoring_key: ScoringKeySchema.nullable(),
+  scoring_rule: ScoringRuleSchema.nullable(),
+  dimension: z.string().nullable(),
+  difficulty: QuestionDifficultyEnum.nullable(),
   is_required: z.boolean(),
   created_at: z.date(),
   updated_at: z.date(),
@@ -451,6 +486,9 @@ export const BulkQuestionSchema = z.object({
   scoring_key: z
     .record(z.string(), z.union([z.number(), z.string()]))
     .optional(),
+  scoring_rule: ScoringRuleSchema.optional(),
+  dimension: QuestionDimensionSchema.optional(),
+  difficulty: QuestionDifficultyEnum.optional(),
   is_required: z.boolean().default(true),
 });
 
@@ -513,11 +551,15 @@ export const CreateQuestionDBSchema = z.object({
     .record(z.string(), z.union([z.number(), z.string()]))
     .nullable()
     .optional(),
+  scoring_rule: ScoringRuleSchema.nullable().optional(),
+  dimension: z.string().nullable().optional(),
+  difficulty: QuestionDifficultyEnum.nullable().optional(),
   is_required: z.boolean().default(true),
 });
 
 // ==================== TYPE EXPORTS ====================
 export type QuestionType = z.infer<typeof QuestionTypeEnum>;
+export type QuestionDifficulty = z.infer<typeof QuestionDifficultyEnum>;
 export type QuestionOption = z.infer<typeof QuestionOptionSchema>;
 export type ScoringKey = z.infer<typeof ScoringKeySchema>;
 
@@ -603,6 +645,9 @@ export type CreateQuestionDB = {
   image_url: string | null;
   audio_url: string | null;
   scoring_key: ScoringKey | null;
+  scoring_rule: ScoringRule | null;
+  dimension: string | null;
+  difficulty: QuestionDifficulty | null;
   is_required: boolean;
 };
 
@@ -616,6 +661,9 @@ export type UpdateQuestionDB = {
   image_url?: string | null;
   audio_url?: string | null;
   scoring_key?: ScoringKey | null;
+  scoring_rule?: ScoringRule | null;
+  dimension?: string | null;
+  difficulty?: QuestionDifficulty | null;
   is_required?: boolean;
   updated_at: Date;
 };
@@ -680,6 +728,12 @@ export const QUESTION_TYPE_DESCRIPTIONS: Record<QuestionType, string> = {
   matrix: "Pattern recognition or matrix reasoning",
 };
 
+export const QUESTION_DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+};
+
 // Default question time limits by type (in seconds)
 export const DEFAULT_QUESTION_TIME_LIMITS: Record<QuestionType, number> = {
   multiple_choice: 60,
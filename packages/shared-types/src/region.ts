@@ -0,0 +1,213 @@
+import { z } from "zod";
+
+// ==================== ENUMS ====================
+export const RegencyTypeEnum = z.enum(["kabupaten", "kota"]);
+
+// ==================== BASE SCHEMAS ====================
+
+// Province per Kemendagri, code is the first two digits of a NIK
+export const ProvinceSchema = z.object({
+  code: z.string(), // "32"
+  name: z.string(), // "Jawa Barat"
+});
+
+// Regency (kabupaten) or city (kota), code is the first four digits of a NIK
+export const RegencySchema = z.object({
+  code: z.string(), // "3273"
+  name: z.string(), // "Kota Bandung"
+  type: RegencyTypeEnum,
+  province_code: z.string(),
+});
+
+// ==================== REQUEST SCHEMAS ====================
+export const GetRegenciesRequestSchema = z.object({
+  provinceCode: z.string().regex(/^\d{2}$/, "Province code must be 2 digits"),
+});
+
+export const GetRegenciesQuerySchema = z.object({
+  search: z.string().optional(),
+});
+
+export const NormalizeUserRegionsRequestSchema = z.object({
+  dry_run: z.boolean().default(true), // report the changes without writing them
+});
+
+// ==================== RESPONSE SCHEMAS ====================
+export const GetProvincesResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.array(ProvinceSchema),
+  timestamp: z.string(),
+});
+
+export const GetRegenciesResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.object({
+    province: ProvinceSchema,
+    regencies: z.array(RegencySchema),
+  }),
+  timestamp: z.string(),
+});
+
+// Address value of a user that could not be matched to the reference data
+export const UnresolvedUserRegionSchema = z.object({
+  user_id: z.string().uuid(),
+  name: z.string(),
+  field: z.string(),
+  value: z.string(),
+  message: z.string(),
+  code: z.string(),
+});
+
+export const UserRegionChangeSchema = z.object({
+  field: z.string(),
+  old_value: z.string().nullable(),
+  new_value: z.string(),
+});
+
+export const NormalizedUserRegionSchema = z.object({
+  user_id: z.string().uuid(),
+  name: z.string(),
+  changes: z.array(UserRegionChangeSchema),
+});
+
+export const NormalizeUserRegionsResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.object({
+    dry_run: z.boolean(),
+    total_users: z.number(),
+    normalized_users: z.number(), // users whose address changes (or would)
+    unresolved_users: z.number(),
+    changes: z.array(NormalizedUserRegionSchema),
+    unresolved: z.array(UnresolvedUserRegionSchema),
+  }),
+  timestamp: z.string(),
+});
+
+// ==================== TYPE EXPORTS ====================
+export type RegencyType = z.infer<typeof RegencyTypeEnum>;
+export type Province = z.infer<typeof ProvinceSchema>;
+export type Regency = z.infer<typeof RegencySchema>;
+export type GetRegenciesRequest = z.infer<typeof GetRegenciesRequestSchema>;
+export type GetRegenciesQuery = z.infer<typeof GetRegenciesQuerySchema>;
+export type NormalizeUserRegionsRequest = z.infer<
+  typeof NormalizeUserRegionsRequestSchema
+>;
+export type GetProvincesResponse = z.infer<typeof GetProvincesResponseSchema>;
+export type GetRegenciesResponse = z.infer<typeof GetRegenciesResponseSchema>;
+export type UserRegionChange = z.infer<typeof UserRegionChangeSchema>;
+export type UnresolvedUserRegion = z.infer<typeof UnresolvedUserRegionSchema>;
+export type NormalizedUserRegion = z.infer<typeof NormalizedUserRegionSchema>;
+export type NormalizeUserRegionsResponse = z.infer<
+  typeof NormalizeUserRegionsResponseSchema
+>;
+
+// ==================== UTILITY FUNCTIONS ====================
+
+/**
+ * Comparable form of a region name: case, punctuation and the "Provinsi"
+ * prefix are dropped and the long forms of DKI / DI are shortened, so
+ * "Prov. D.I. Yogyakarta" and "DI YOGYAKARTA" compare equal
+ */
+export function normalizeRegionName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\./g, "")
+    .replace(/[^a-z\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^(provinsi|prov)\s+/, "")
+    .replace(/^daerah khusus ibu ?kota\s+/, "dki ")
+    .replace(/^daerah khusus\s+/, "dki ")
+    .replace(/^daerah istimewa\s+/, "di ")
+    .replace(/\bsumatra\b/, "sumatera");
+}
+
+export function getProvinceByCode(code: string): Province | null {
+  const province = REGION_PROVINCES.find((item) => item.code === code);
+  return province ? { code: province.code, name: province.name } : null;
+}
+
+// Province of a free-text name, abbreviation ("JABAR") or code ("32")
+export function findProvince(
+  value: string | null | undefined
+): Province | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  if (/^\d{2}$/.test(trimmed)) return getProvinceByCode(trimmed);
+
+  const name = normalizeRegionName(trimmed);
+  const province = REGION_PROVINCES.find((item) =>
+    [item.name, ...item.aliases].some(
+      (alias) => normalizeRegionName(alias) === name
+    )
+  );
+  return province ? { code: province.code, name: province.name } : null;
+}
+
+// ==================== CONSTANTS ====================
+
+// Provinces per Kemendagri with the spellings and abbreviations in common use
+export const REGION_PROVINCES: readonly {
+  code: string;
+  name: string;
+  aliases: string[];
+}[] = [
+  { code: "11", name: "Aceh", aliases: ["Nanggroe Aceh Darussalam", "NAD"] },
+  { code: "12", name: "Sumatera Utara", aliases: ["Sumut"] },
+  { code: "13", name: "Sumatera Barat", aliases: ["Sumbar"] },
+  { code: "14", name: "Riau", aliases: [] },
+  { code: "15", name: "Jambi", aliases: [] },
+  { code: "16", name: "Sumatera Selatan", aliases: ["Sumsel"] },
+  { code: "17", name: "Bengkulu", aliases: [] },
+  { code: "18", name: "Lampung", aliases: [] },
+  {
+    code: "19",
+    name: "Kepulauan Bangka Belitung",
+    aliases: ["Bangka Belitung", "Babel"],
+  },
+  { code: "21", name: "Kepulauan Riau", aliases: ["Kepri"] },
+  { code: "31", name: "DKI Jakarta", aliases: ["Jakarta", "DKI"] },
+  { code: "32", name: "Jawa Barat", aliases: ["Jabar"] },
+  { code: "33", name: "Jawa Tengah", aliases: ["Jateng"] },
+  {
+    code: "34",
+    name: "DI Yogyakarta",
+    aliases: ["Yogyakarta", "Jogjakarta", "Jogja", "DIY"],
+  },
+  { code: "35", name: "Jawa Timur", aliases: ["Jatim"] },
+  { code: "36", name: "Banten", aliases: [] },
+  { code: "51", name: "Bali", aliases: [] },
+  { code: "52", name: "Nusa Tenggara Barat", aliases: ["NTB"] },
+  { code: "53", name: "Nusa Tenggara Timur", aliases: ["NTT"] },
+  { code: "61", name: "Kalimantan Barat", aliases: ["Kalbar"] },
+  { code: "62", name: "Kalimantan Tengah", aliases: ["Kalteng"] },
+  { code: "63", name: "Kalimantan Selatan", aliases: ["Kalsel"] },
+  { code: "64", name: "Kalimantan Timur", aliases: ["Kaltim"] },
+  { code: "65", name: "Kalimantan Utara", aliases: ["Kaltara"] },
+  { code: "71", name: "Sulawesi Utara", aliases: ["Sulut"] },
+  { code: "72", name: "Sulawesi Tengah", aliases: ["Sulteng"] },
+  { code: "73", name: "Sulawesi Selatan", aliases: ["Sulsel"] },
+  { code: "74", name: "Sulawesi Tenggara", aliases: ["Sultra"] },
+  { code: "75", name: "Gorontalo", aliases: [] },
+  { code: "76", name: "Sulawesi Barat", aliases: ["Sulbar"] },
+  { code: "81", name: "Maluku", aliases: [] },
+  { code: "82", name: "Maluku Utara", aliases: ["Malut"] },
+  { code: "91", name: "Papua", aliases: ["Irian Jaya"] },
+  { code: "92", name: "Papua Barat", aliases: ["Pabar", "Irian Jaya Barat"] },
+  { code: "93", name: "Papua Selatan", aliases: [] },
+  { code: "94", name: "Papua Tengah", aliases: [] },
+  { code: "95", name: "Papua Pegunungan", aliases: [] },
+  { code: "96", name: "Papua Barat Daya", aliases: [] },
+];
+
+export const REGION_ERROR_CODES = {
+  PROVINCE_NOT_FOUND: "PROVINCE_NOT_FOUND",
+  INVALID_PROVINCE: "INVALID_PROVINCE",
+  INVALID_REGENCY: "INVALID_REGENCY",
+  AMBIGUOUS_REGENCY: "AMBIGUOUS_REGENCY",
+  REGENCY_PROVINCE_MISMATCH: "REGENCY_PROVINCE_MISMATCH",
+  INVALID_POSTAL_CODE: "INVALID_POSTAL_CODE",
+} as const;
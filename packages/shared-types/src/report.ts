@@ -54,6 +54,9 @@ export const TraitScoreSchema = z.object({
   raw_score: z.number(),
   scaled_score: z.number(),
   percentile: z.number().nullable(),
+  t_score: z.number().nullable().optional(),
+  stanine: z.number().nullable().optional(),
+  norm_group: z.string().nullable().optional(),
   interpretation: z.string(),
   description: z.string(),
   strength_level: z.enum(["very_low", "low", "average", "high", "very_high"]),
@@ -69,6 +72,9 @@ export const TestPerformanceSchema = z.object({
   raw_score: z.number().nullable(),
   scaled_score: z.number().nullable(),
   percentile: z.number().nullable(),
+  t_score: z.number().nullable().optional(),
+  stanine: z.number().nullable().optional(),
+  norm_group: z.string().nullable().optional(),
   grade: z.string().nullable(),
   completion_rate: z.number(),
   time_spent_minutes: z.number(),
@@ -102,6 +108,24 @@ export const RecommendationSchema = z.object({
   supporting_evidence: z.array(z.string()),
 });
 
+// Report Sign-off Schema (psychologist review of the session results)
+export const ReportSignOffSchema = z.object({
+  status: z.enum(["draft", "final"]),
+  finalized_results: z.number(),
+  total_results: z.number(),
+  signatures: z.array(
+    z.object({
+      session_id: z.string().uuid(),
+      session_name: z.string(),
+      user_id: z.string().uuid(),
+      participant_name: z.string(),
+      signed_by_id: z.string().uuid(),
+      signed_by_name: z.string(),
+      signed_at: z.string().datetime(),
+    })
+  ),
+});
+
 // ==================== REQUEST SCHEMAS ====================
 
 // Individual Report Request
@@ -247,6 +271,7 @@ export const IndividualReportDataSchema = z.object({
     report_version: z.string(),
     data_sources: z.array(z.string()),
     reliability_notes: z.array(z.string()),
+    sign_off: ReportSignOffSchema,
   }),
 });
 
@@ -265,6 +290,9 @@ export const SessionSummaryReportDataSchema = z.object({
     proctor_name: z.string().nullable(),
   }),
 
+  // Psychologist Sign-off
+  sign_off: ReportSignOffSchema,
+
   // Participation Statistics
   participation_stats: z.object({
     total_invited: z.number(),
@@ -557,9 +585,17 @@ export const BatchReportDataSchema = z.object({
         response_pattern_validity: z.number(),
         time_efficiency: z.number(),
       }),
+
+      // Psychologist Sign-off
+      review_status: z.enum(["pending", "reviewed", "finalized"]),
+      signed_by: z.string().nullable(),
+      signed_at: z.string().datetime().nullable(),
     })
   ),
 
+  // Psychologist Sign-off
+  sign_off: ReportSignOffSchema,
+
   // Summary Statistics
   summary_statistics: z.object({
     total_completed: z.number(),
@@ -667,6 +703,7 @@ export type ComparisonMetric = z.infer<typeof ComparisonMetricEnum>;
 // Component Types
 export type ChartData = z.infer<typeof ChartDataSchema>;
 export type TraitScore = z.infer<typeof TraitScoreSchema>;
+export type ReportSignOff = z.infer<typeof ReportSignOffSchema>;
 export type TestPerformance = z.infer<typeof TestPerformanceSchema>;
 export type PsychologicalProfile = z.infer<typeof PsychologicalProfileSchema>;
 export type Recommendation = z.infer<typeof RecommendationSchema>;
@@ -747,7 +784,14 @@ export function generateReportFileName(
     csv: "csv",
   };
 
-  return `${typeMap[reportType]}_${identifier}_${dateStr}.${formatExt[format]}`;
+  // Identifiers can be participant names, keep the file name header-safe
+  const safeIdentifier =
+    identifier
+      .normalize("NFKD")
+      .replace(/[^A-Za-z0-9-]+/g, "_")
+      .replace(/^_+|_+$/g, "") || "Report";
+
+  return `${typeMap[reportType]}_${safeIdentifier}_${dateStr}.${formatExt[format]}`;
 }
 
 /**
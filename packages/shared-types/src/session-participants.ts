@@ -1,5 +1,14 @@
 import { z } from "zod";
 import { SessionPaginationMetaSchema, SessionStatusEnum } from "./session";
+import { BulkConflictPolicyEnum } from "./user-bulk";
+import {
+  ImportColumnMappingSchema,
+  ImportColumnSuggestionSchema,
+  ImportFieldEnum,
+  ImportRowResultSchema,
+  UserImportRequestSchema,
+  UserImportResponseSchema,
+} from "./user-import";
 
 // ==================== PARTICIPANT STATUS ENUM ====================
 export const ParticipantStatusEnum = z.enum([
@@ -8,6 +17,7 @@ export const ParticipantStatusEnum = z.enum([
   "started",
   "completed",
   "no_show",
+  "cancelled", // session was cancelled before the participant completed it
 ]);
 
 // ==================== SESSION PARTICIPANT REQUEST SCHEMAS ====================
@@ -109,6 +119,26 @@ export const GetSessionParticipantsRequestSchema = z.object({
   sort_order: z.enum(["asc", "desc"]).default("desc"),
 });
 
+/**
+ * Import a CSV or XLSX file straight into a session. Registered users are
+ * matched by NIK (or email), the rest are created, and every user is
+ * enrolled with its own access link.
+ */
+export const ImportSessionParticipantsRequestSchema =
+  UserImportRequestSchema.omit({ options: true }).extend({
+    conflict_policy: BulkConflictPolicyEnum.default("skip"), // how data of matched users is refreshed
+    link_expires_hours: z
+      .number()
+      .min(1, "Link expiry must be at least 1 hour")
+      .max(168, "Link expiry cannot exceed 7 days")
+      .optional(), // links expire with the session if omitted
+  });
+
+// Get Session Roster Request Schema (Query Parameters)
+export const GetSessionRosterRequestSchema = z.object({
+  format: z.enum(["csv", "excel"]).default("csv"),
+});
+
 // ==================== RESPONSE SCHEMAS ====================
 
 // Session Participant Data Schema
@@ -229,6 +259,52 @@ export const UpdateParticipantStatusResponseSchema = z.object({
   timestamp: z.string(),
 });
 
+export const SessionEnrollmentStatusEnum = z.enum([
+  "enrolled",
+  "already_enrolled", // keeps the existing access link
+  "pending", // would be enrolled (dry run)
+  "not_enrolled",
+]);
+
+export const ImportSessionParticipantRowSchema = ImportRowResultSchema.extend({
+  enrollment: SessionEnrollmentStatusEnum,
+  enrollment_error: z.string().optional(),
+  participant_id: z.string().uuid().optional(),
+  unique_link: z.string().nullable().optional(),
+  link_expires_at: z.date().nullable().optional(),
+  access_url: z.string().optional(),
+});
+
+// Import Session Participants Response Schema
+export const ImportSessionParticipantsResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    dry_run: z.boolean(),
+    session_info: z.object({
+      id: z.string().uuid(),
+      session_name: z.string(),
+      session_code: z.string(),
+      max_participants: z.number().nullable(),
+      current_participants: z.number(),
+      available_slots: z.number().nullable(), // null when unlimited
+    }),
+    file_info: UserImportResponseSchema.shape.data.shape.file_info,
+    profile_id: z.string().uuid().nullable(),
+    column_mapping: ImportColumnMappingSchema,
+    suggestions: z.array(ImportColumnSuggestionSchema),
+    missing_required_fields: z.array(ImportFieldEnum),
+    summary: UserImportResponseSchema.shape.data.shape.summary.extend({
+      enrolled: z.number(),
+      already_enrolled: z.number(),
+      pending: z.number(),
+      not_enrolled: z.number(),
+    }),
+    rows: z.array(ImportSessionParticipantRowSchema),
+  }),
+  timestamp: z.string(),
+});
+
 // ==================== TYPE EXPORTS ====================
 export type ParticipantStatus = z.infer<typeof ParticipantStatusEnum>;
 export type SessionParticipantData = z.infer<
@@ -269,6 +345,21 @@ export type GetSessionParticipantsResponse = z.infer<
 export type UpdateParticipantStatusRequest = z.infer<
   typeof UpdateParticipantStatusRequestSchema
 >;
+export type ImportSessionParticipantsRequest = z.infer<
+  typeof ImportSessionParticipantsRequestSchema
+>;
+export type GetSessionRosterRequest = z.infer<
+  typeof GetSessionRosterRequestSchema
+>;
+export type SessionEnrollmentStatus = z.infer<
+  typeof SessionEnrollmentStatusEnum
+>;
+export type ImportSessionParticipantRow = z.infer<
+  typeof ImportSessionParticipantRowSchema
+>;
+export type ImportSessionParticipantsResponse = z.infer<
+  typeof ImportSessionParticipantsResponseSchema
+>;
 export type UpdateParticipantStatusResponse = z.infer<
   typeof UpdateParticipantStatusResponseSchema
 >;
@@ -336,6 +427,7 @@ export const PARTICIPANT_STATUS_LABELS: Record<ParticipantStatus, string> = {
   started: "Started",
   completed: "Completed",
   no_show: "No Show",
+  cancelled: "Cancelled",
 };
 
 export const PARTICIPANT_STATUS_COLORS: Record<ParticipantStatus, string> = {
@@ -344,6 +436,17 @@ export const PARTICIPANT_STATUS_COLORS: Record<ParticipantStatus, string> = {
   started: "bg-yellow-100 text-yellow-800",
   completed: "bg-emerald-100 text-emerald-800",
   no_show: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-800",
+};
+
+export const SESSION_ENROLLMENT_STATUS_LABELS: Record<
+  SessionEnrollmentStatus,
+  string
+> = {
+  enrolled: "Enrolled",
+  already_enrolled: "Already Enrolled",
+  pending: "Pending",
+  not_enrolled: "Not Enrolled",
 };
 
 // Default link expiry options (in hours)
@@ -0,0 +1,275 @@
+import { z } from "zod";
+
+// ==================== ENUMS ====================
+
+// pending: not looked at, reviewed: narrative edited, finalized: signed off
+export const SessionResultReviewStatusEnum = z.enum([
+  "pending",
+  "reviewed",
+  "finalized",
+]);
+
+// ==================== REQUEST SCHEMAS ====================
+
+// Recompute Session Results Request Schema (path params)
+export const RecomputeSessionResultsRequestSchema = z.object({
+  sessionId: z.string().uuid("Invalid session ID format"),
+});
+
+// Recompute Session Results Body Schema
+export const RecomputeSessionResultsBodySchema = z.object({
+  user_id: z.string().uuid("Invalid user ID format").optional(), // only this participant
+});
+
+// Session Result Review Queue Query Schema
+export const GetSessionResultReviewQueueQuerySchema = z.object({
+  page: z.coerce.number().min(1, "Page must be at least 1").default(1),
+  limit: z.coerce
+    .number()
+    .min(1)
+    .max(100, "Limit must be between 1 and 100")
+    .default(10),
+  session_id: z.string().uuid("Invalid session ID format").optional(),
+  // Without a status the queue lists everything not finalized yet
+  status: SessionResultReviewStatusEnum.optional(),
+  search: z.string().optional(), // participant name or email
+  sort_order: z.enum(["asc", "desc"]).default("asc"), // by completion time
+});
+
+// Session Result By ID Request Schema (path params)
+export const GetSessionResultByIdRequestSchema = z.object({
+  sessionResultId: z.string().uuid("Invalid session result ID format"),
+});
+
+// Update Session Result Review Request Schema (narrative fields)
+export const UpdateSessionResultReviewRequestSchema = z
+  .object({
+    personality_summary: z
+      .string()
+      .max(5000, "Personality summary must be at most 5000 characters")
+      .nullable()
+      .optional(),
+    summary_description: z
+      .string()
+      .max(5000, "Summary description must be at most 5000 characters")
+      .nullable()
+      .optional(),
+    strengths: z
+      .array(
+        z
+          .string()
+          .min(1, "Strength cannot be empty")
+          .max(255, "Strength must be at most 255 characters")
+      )
+      .max(20, "At most 20 strengths are allowed")
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      data.personality_summary !== undefined ||
+      data.summary_description !== undefined ||
+      data.strengths !== undefined,
+    { message: "At least one narrative field must be provided" }
+  );
+
+// ==================== RESPONSE SCHEMAS ====================
+
+// Recommended Position Schema
+export const SessionResultPositionSchema = z.object({
+  position: z.string(),
+  compatibility_score: z.number(),
+  confidence: z.enum(["high", "medium", "low"]),
+  reasons: z.array(z.string()),
+});
+
+// Session Result Data Schema
+export const SessionResultDataSchema = z.object({
+  id: z.string().uuid(),
+  session_id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  total_score: z.number().nullable(),
+  weighted_score: z.number().nullable(),
+  overall_percentile: z.number().nullable(),
+  overall_grade: z.string().nullable(),
+  recommended_positions: z.array(SessionResultPositionSchema),
+  primary_traits: z.array(z.string()),
+  strengths: z.array(z.string()),
+  areas_for_development: z.array(z.string()),
+  completion_rate: z.number().nullable(),
+  time_efficiency: z.number().nullable(),
+  consistency_score: z.number().nullable(),
+  personality_summary: z.string().nullable(),
+  summary_description: z.string().nullable(),
+  is_final: z.boolean(),
+  review_status: SessionResultReviewStatusEnum,
+  reviewed_by: z
+    .object({
+      id: z.string().uuid(),
+      name: z.string(),
+      email: z.string(),
+    })
+    .nullable(),
+  reviewed_at: z.string().datetime().nullable(),
+  completed_at: z.string().datetime().nullable(),
+  test_result_ids: z.array(z.string().uuid()),
+  updated_at: z.string().datetime(),
+});
+
+// Session Result Review Item Schema (queue row / detail)
+export const SessionResultReviewItemSchema = SessionResultDataSchema.extend({
+  participant: z.object({
+    id: z.string().uuid(),
+    name: z.string(),
+    email: z.string(),
+    nik: z.string(),
+  }),
+  session: z.object({
+    id: z.string().uuid(),
+    session_name: z.string(),
+    session_code: z.string(),
+    target_position: z.string().nullable(),
+  }),
+});
+
+// Recompute Session Results Response Schema
+export const RecomputeSessionResultsResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.object({
+    session_id: z.string().uuid(),
+    results_updated: z.number(),
+    results: z.array(SessionResultDataSchema),
+  }),
+  timestamp: z.string(),
+});
+
+// Session Result Review Queue Response Schema
+export const GetSessionResultReviewQueueResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.array(SessionResultReviewItemSchema),
+  meta: z.object({
+    current_page: z.number(),
+    per_page: z.number(),
+    total: z.number(),
+    total_pages: z.number(),
+    has_next_page: z.boolean(),
+    has_prev_page: z.boolean(),
+  }),
+  summary: z.object({
+    pending: z.number(),
+    reviewed: z.number(),
+    finalized: z.number(),
+  }),
+  timestamp: z.string(),
+});
+
+// Session Result Review Response Schema (get / update / finalize)
+export const SessionResultReviewResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: SessionResultReviewItemSchema,
+  timestamp: z.string(),
+});
+
+// ==================== TYPE EXPORTS ====================
+export type RecomputeSessionResultsRequest = z.infer<
+  typeof RecomputeSessionResultsRequestSchema
+>;
+export type RecomputeSessionResultsBody = z.infer<
+  typeof RecomputeSessionResultsBodySchema
+>;
+export type SessionResultReviewStatus = z.infer<
+  typeof SessionResultReviewStatusEnum
+>;
+export type GetSessionResultReviewQueueQuery = z.infer<
+  typeof GetSessionResultReviewQueueQuerySchema
+>;
+export type GetSessionResultByIdRequest = z.infer<
+  typeof GetSessionResultByIdRequestSchema
+>;
+export type UpdateSessionResultReviewRequest = z.infer<
+  typeof UpdateSessionResultReviewRequestSchema
+>;
+export type SessionResultPosition = z.infer<typeof SessionResultPositionSchema>;
+export type SessionResultData = z.infer<typeof SessionResultDataSchema>;
+export type RecomputeSessionResultsResponse = z.infer<
+  typeof RecomputeSessionResultsResponseSchema
+>;
+export type SessionResultReviewItem = z.infer<
+  typeof SessionResultReviewItemSchema
+>;
+export type GetSessionResultReviewQueueResponse = z.infer<
+  typeof GetSessionResultReviewQueueResponseSchema
+>;
+export type SessionResultReviewResponse = z.infer<
+  typeof SessionResultReviewResponseSchema
+>;
+
+// ==================== UTILITY FUNCTIONS ====================
+
+// Weighted mean of module scores; modules with a zero weight do not count
+export function calculateWeightedScore(
+  entries: { score: number; weight: number }[]
+): number | null {
+  const weighted = entries.filter((entry) => entry.weight > 0);
+  const totalWeight = weighted.reduce((sum, entry) => sum + entry.weight, 0);
+  if (totalWeight === 0) return null;
+
+  return (
+    weighted.reduce((sum, entry) => sum + entry.score * entry.weight, 0) /
+    totalWeight
+  );
+}
+
+// How evenly a participant performed across modules: 100 minus the standard
+// deviation of the module scores, so identical scores give 100
+export function calculateConsistencyScore(scores: number[]): number | null {
+  if (scores.length < 2) return null;
+
+  const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const variance =
+    scores.reduce((sum, score) => sum + Math.pow(score - mean, 2), 0) /
+    scores.length;
+
+  return Math.max(0, Math.min(100, 100 - Math.sqrt(variance)));
+}
+
+// Review status of a session result row
+export function getSessionResultReviewStatus(result: {
+  is_final: boolean | null;
+  reviewed_at: Date | string | null;
+}): SessionResultReviewStatus {
+  if (result.is_final) return "finalized";
+  if (result.reviewed_at) return "reviewed";
+  return "pending";
+}
+
+// ==================== CONSTANTS ====================
+
+export const SESSION_RESULT_REVIEW_STATUS_LABELS: Record<
+  SessionResultReviewStatus,
+  string
+> = {
+  pending: "Menunggu Review",
+  reviewed: "Sudah Direview",
+  finalized: "Final (Ditandatangani)",
+};
+
+export const SESSION_RESULT_REVIEW_STATUS_COLORS: Record<
+  SessionResultReviewStatus,
+  string
+> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  reviewed: "bg-blue-100 text-blue-800",
+  finalized: "bg-green-100 text-green-800",
+};
+
+// Module or trait scores at or above this are listed as strengths
+export const SESSION_RESULT_STRENGTH_THRESHOLD = 70;
+
+// Module or trait scores below this are listed as areas for development
+export const SESSION_RESULT_DEVELOPMENT_THRESHOLD = 50;
+
+// Maximum number of items kept in strengths, development areas and traits
+export const SESSION_RESULT_MAX_HIGHLIGHTS = 5;
@@ -9,6 +9,9 @@ export const SessionStatusEnum = z.enum([
   "cancelled",
 ]);
 
+export const SchedulerTriggerEnum = z.enum(["cron", "manual", "dev"]);
+export const SchedulerRunStatusEnum = z.enum(["success", "partial", "failed"]);
+
 // ==================== SESSION REQUEST SCHEMAS ====================
 
 // Session Module Schema (for tests in a session)
@@ -51,6 +54,9 @@ export const CreateSessionRequestSchema = z
     proctor_id: z.string().uuid("Invalid proctor ID format").optional(),
     auto_expire: z.boolean().default(true),
     allow_late_entry: z.boolean().default(false),
+    // Shuffle every module for this session, on top of the test settings
+    shuffle_questions: z.boolean().default(false),
+    shuffle_options: z.boolean().default(false),
     session_modules: z
       .array(SessionModuleSchema)
       .min(1, "At least one test module is required")
@@ -128,6 +134,8 @@ export const UpdateSessionRequestSchema = z
     proctor_id: z.string().uuid("Invalid proctor ID format").optional(),
     auto_expire: z.boolean().optional(),
     allow_late_entry: z.boolean().optional(),
+    shuffle_questions: z.boolean().optional(),
+    shuffle_options: z.boolean().optional(),
     status: SessionStatusEnum.optional(),
     session_modules: z
       .array(SessionModuleSchema)
@@ -248,6 +256,8 @@ export const SessionDataSchema = z.object({
   proctor_id: z.string().uuid().nullable(),
   auto_expire: z.boolean(),
   allow_late_entry: z.boolean(),
+  shuffle_questions: z.boolean(),
+  shuffle_options: z.boolean(),
   created_at: z.date(),
   updated_at: z.date(),
   created_by: z.string().uuid().nullable(),
@@ -300,6 +310,69 @@ export const DeleteSessionResponseSchema = z.object({
   timestamp: z.string(),
 });
 
+// Session Status Transition Response Schema (activate / cancel / complete)
+export const SessionStatusTransitionResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.object({
+    id: z.string().uuid(),
+    session_name: z.string(),
+    session_code: z.string(),
+    previous_status: SessionStatusEnum,
+    status: SessionStatusEnum,
+    changed_at: z.string().datetime(),
+    side_effects: z.object({
+      attempts_expired: z.number(),
+      participants_updated: z.number(),
+      session_results_updated: z.number(),
+    }),
+  }),
+  timestamp: z.string(),
+});
+
+// Scheduler Run Schema (outcome of one run of the scheduled jobs)
+export const SchedulerRunSchema = z.object({
+  id: z.string().uuid(),
+  trigger: SchedulerTriggerEnum,
+  status: SchedulerRunStatusEnum,
+  started_at: z.string().datetime(),
+  finished_at: z.string().datetime(),
+  duration_ms: z.number(),
+  sessions_activated: z.number(),
+  sessions_expired: z.number(),
+  attempts_expired: z.number(),
+  answers_finalized: z.number(),
+  auth_sessions_cleaned: z.number(),
+  items_calibrated: z.number(),
+  errors: z.array(
+    z.object({
+      job: z.string(),
+      message: z.string(),
+    })
+  ),
+  triggered_by: z.string().uuid().nullable(),
+});
+
+// Trigger Session Status Update Response Schema
+export const TriggerSessionStatusUpdateResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: SchedulerRunSchema,
+  timestamp: z.string(),
+});
+
+// Get Session Status Update Runs Response Schema
+export const GetSessionStatusUpdateResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.object({
+    last_run: SchedulerRunSchema.nullable(),
+    last_successful_run: SchedulerRunSchema.nullable(),
+    recent_runs: z.array(SchedulerRunSchema),
+  }),
+  timestamp: z.string(),
+});
+
 // Get Session By ID Response Schema
 export const GetSessionByIdResponseSchema = z.object({
   success: z.literal(true),
@@ -417,6 +490,15 @@ export const SessionErrorResponseSchema = z.object({
 
 // ==================== TYPE EXPORTS ====================
 export type SessionStatus = z.infer<typeof SessionStatusEnum>;
+export type SchedulerTrigger = z.infer<typeof SchedulerTriggerEnum>;
+export type SchedulerRunStatus = z.infer<typeof SchedulerRunStatusEnum>;
+export type SchedulerRunData = z.infer<typeof SchedulerRunSchema>;
+export type TriggerSessionStatusUpdateResponse = z.infer<
+  typeof TriggerSessionStatusUpdateResponseSchema
+>;
+export type GetSessionStatusUpdateResponse = z.infer<
+  typeof GetSessionStatusUpdateResponseSchema
+>;
 export type SessionModule = z.infer<typeof SessionModuleSchema>;
 export type SessionModuleData = z.infer<typeof SessionModuleDataSchema>;
 
@@ -431,6 +513,9 @@ export type DeleteSessionByIdRequest = z.infer<
   typeof DeleteSessionByIdRequestSchema
 >;
 export type DeleteSessionResponse = z.infer<typeof DeleteSessionResponseSchema>;
+export type SessionStatusTransitionResponse = z.infer<
+  typeof SessionStatusTransitionResponseSchema
+>;
 export type GetSessionsRequest = z.infer<typeof GetSessionsRequestSchema>;
 export type GetSessionsResponse = z.infer<typeof GetSessionsResponseSchema>;
 export type GetSessionByIdRequest = z.infer<typeof GetSessionByIdRequestSchema>;
@@ -465,6 +550,8 @@ export type CreateSessionDB = {
   proctor_id: string | null;
   auto_expire: boolean;
   allow_late_entry: boolean;
+  shuffle_questions: boolean;
+  shuffle_options: boolean;
   status: SessionStatus;
   created_by: string | null;
   updated_by: string | null;
@@ -481,6 +568,8 @@ export type UpdateSessionDB = {
   proctor_id?: string | null;
   auto_expire?: boolean;
   allow_late_entry?: boolean;
+  shuffle_questions?: boolean;
+  shuffle_options?: boolean;
   status?: SessionStatus;
   updated_at: Date;
   updated_by?: string | null;
@@ -583,6 +672,14 @@ export function isSessionExpired(session: {
   );
 }
 
+// Check if a session may move from one status to another
+export function canTransitionSessionStatus(
+  from: SessionStatus,
+  to: SessionStatus
+): boolean {
+  return SESSION_STATUS_TRANSITIONS[from].includes(to);
+}
+
 // Calculate time remaining in minutes
 export function getTimeRemaining(endTime: Date): number {
   const now = new Date();
@@ -607,6 +704,19 @@ export const SESSION_STATUS_LABELS: Record<SessionStatus, string> = {
   cancelled: "Cancelled",
 };
 
+// Allowed status changes, completed and cancelled sessions are final.
+// An expired session can be reopened after its end time is extended.
+export const SESSION_STATUS_TRANSITIONS: Record<
+  SessionStatus,
+  SessionStatus[]
+> = {
+  draft: ["active", "cancelled"],
+  active: ["expired", "completed", "cancelled"],
+  expired: ["active", "completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
 export const SESSION_STATUS_COLORS: Record<SessionStatus, string> = {
   draft: "bg-gray-100 text-gray-800",
   active: "bg-green-100 text-green-800",
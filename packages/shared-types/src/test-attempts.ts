@@ -9,6 +9,21 @@ export const AttemptStatusEnum = z.enum([
   "expired",
 ]);
 
+// Why a test cannot be started yet: a test-level prerequisite, or an earlier
+// required module of the same session
+export const AttemptRequirementTypeEnum = z.enum([
+  "prerequisite",
+  "session_module",
+]);
+
+// Module state shown to participants on the dashboard
+export const ModuleAccessStatusEnum = z.enum([
+  "locked",
+  "available",
+  "in_progress",
+  "completed",
+]);
+
 // ==================== NEW REQUEST SCHEMAS ====================
 
 // Get User Attempts Request Schema (Path Parameters)
@@ -391,8 +406,44 @@ export const AttemptErrorResponseSchema = z.object({
   timestamp: z.string(),
 });
 
+// Test that must be completed before another one can start
+export const MissingAttemptRequirementSchema = z.object({
+  type: AttemptRequirementTypeEnum,
+  test_id: z.string().uuid(),
+  test_name: z.string(),
+  sequence: z.number().nullable(), // module order, for session modules
+});
+
+// Start refused because requirements are not met
+export const AttemptRequirementsErrorResponseSchema =
+  AttemptErrorResponseSchema.extend({
+    missing_requirements: z.array(MissingAttemptRequirementSchema),
+  });
+
+// Session module with the participant's access state
+export const SessionModuleAccessSchema = z.object({
+  test_id: z.string().uuid(),
+  test_name: z.string(),
+  category: z.string(),
+  sequence: z.number(),
+  is_required: z.boolean(),
+  time_limit: z.number(),
+  status: ModuleAccessStatusEnum,
+  attempt_id: z.string().uuid().nullable(), // running or completed attempt
+  missing_requirements: z.array(MissingAttemptRequirementSchema),
+});
+
 // ==================== TYPE EXPORTS ====================
 export type AttemptStatus = z.infer<typeof AttemptStatusEnum>;
+export type AttemptRequirementType = z.infer<typeof AttemptRequirementTypeEnum>;
+export type ModuleAccessStatus = z.infer<typeof ModuleAccessStatusEnum>;
+export type MissingAttemptRequirement = z.infer<
+  typeof MissingAttemptRequirementSchema
+>;
+export type AttemptRequirementsErrorResponse = z.infer<
+  typeof AttemptRequirementsErrorResponseSchema
+>;
+export type SessionModuleAccess = z.infer<typeof SessionModuleAccessSchema>;
 
 // NEW TYPES
 export type GetUserAttemptsRequest = z.infer<
@@ -615,6 +666,13 @@ export const ATTEMPT_STATUS_COLORS: Record<AttemptStatus, string> = {
   expired: "bg-red-100 text-red-800",
 };
 
+export const MODULE_ACCESS_STATUS_LABELS: Record<ModuleAccessStatus, string> = {
+  locked: "Terkunci",
+  available: "Tersedia",
+  in_progress: "Sedang Dikerjakan",
+  completed: "Selesai",
+};
+
 // Maximum attempts allowed per test (configurable)
 export const MAX_ATTEMPTS_PER_TEST = 3;
 
@@ -169,6 +169,17 @@ export const GetResultCertificateQuerySchema = z.object({
   watermark: z.coerce.boolean().default(false),
 });
 
+// Verify Certificate Request Schema (Path Parameters, public)
+export const VerifyCertificateRequestSchema = z.object({
+  verificationCode: z
+    .string()
+    .trim()
+    .regex(
+      /^[A-Za-z0-9]{4}-?[A-Za-z0-9]{4}-?[A-Za-z0-9]{4}$/,
+      "Invalid verification code format"
+    ),
+});
+
 // ==================== RESPONSE SCHEMAS ====================
 
 // Test Result Trait Schema
@@ -412,6 +423,28 @@ export const GetResultCertificateResponseSchema = z.object({
   timestamp: z.string(),
 });
 
+// Certificate Verification Data Schema (public, no result details)
+export const CertificateVerificationDataSchema = z.object({
+  is_valid: z.boolean(),
+  certificate_number: z.string(),
+  verification_code: z.string(),
+  recipient_name: z.string(),
+  test_name: z.string(),
+  grade: z.string().nullable(),
+  grade_label: z.string().nullable(),
+  completion_date: z.string(),
+  issued_at: z.string(),
+  issuer: z.string(),
+});
+
+// Verify Certificate Response Schema
+export const VerifyCertificateResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: CertificateVerificationDataSchema,
+  timestamp: z.string(),
+});
+
 // Error response schema
 export const TestResultErrorDetailSchema = z.object({
   field: z.string().optional(),
@@ -481,6 +514,15 @@ export type TestResultReportData = z.infer<typeof TestResultReportDataSchema>;
 export type TestResultCertificateData = z.infer<
   typeof TestResultCertificateDataSchema
 >;
+export type VerifyCertificateRequest = z.infer<
+  typeof VerifyCertificateRequestSchema
+>;
+export type CertificateVerificationData = z.infer<
+  typeof CertificateVerificationDataSchema
+>;
+export type VerifyCertificateResponse = z.infer<
+  typeof VerifyCertificateResponseSchema
+>;
 export type TestResultErrorResponse = z.infer<
   typeof TestResultErrorResponseSchema
 >;
@@ -620,6 +662,37 @@ export function generateResultSummary(result: TestResultData): string {
   return `Hasil: ${grade} | Skor: ${score ? Math.round(score) : "N/A"} | Status: ${status}`;
 }
 
+// Normalize a verification code typed by a third party to the stored XXXX-XXXX-XXXX form
+export function normalizeVerificationCode(code: string): string {
+  const compact = code.replace(/[^A-Za-z0-9]/g, "").toUpperCase();
+  return compact.match(/.{1,4}/g)?.join("-") ?? compact;
+}
+
+// Certificate download file name, e.g. Certificate_Budi_Santoso_0A1B2C3D.pdf
+export function generateCertificateFileName(
+  recipientName: string,
+  certificateNumber: string,
+  format: CertificateFormat
+): string {
+  const name = recipientName
+    .normalize("NFKD")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  const suffix = certificateNumber.split("/").pop();
+
+  return `Certificate_${name || "Participant"}_${suffix}.${format}`;
+}
+
+// Build a certificate number such as SYN/2025/06/0A1B2C3D
+export function formatCertificateNumber(
+  issuedAt: Date,
+  uniquePart: string
+): string {
+  const year = issuedAt.getFullYear();
+  const month = String(issuedAt.getMonth() + 1).padStart(2, "0");
+  return `${CERTIFICATE_NUMBER_PREFIX}/${year}/${month}/${uniquePart.toUpperCase()}`;
+}
+
 // ==================== CONSTANTS ====================
 export const GRADE_LABELS: Record<string, string> = {
   A: "Sangat Baik",
@@ -651,6 +724,12 @@ export const CERTIFICATE_TEMPLATES_LABELS: Record<CertificateTemplate, string> =
     simple: "Simple Certificate",
   };
 
+export const CERTIFICATE_NUMBER_PREFIX = "SYN";
+
+// Unambiguous characters (no 0/O, 1/I/L) for codes read off printed certificates
+export const CERTIFICATE_VERIFICATION_ALPHABET =
+  "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
 // Score interpretation ranges
 export const SCORE_INTERPRETATIONS = {
   excellent: { min: 90, max: 100, label: "Excellent", color: "green" },
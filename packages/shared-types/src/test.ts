@@ -71,6 +71,8 @@ export const CreateTestRequestSchema = z.object({
     .optional(),
   status: TestStatusEnum.optional(),
   instructions: z.string().optional(),
+  shuffle_questions: z.boolean().optional(),
+  shuffle_options: z.boolean().optional(),
 });
 
 // Update Test Request Schema
@@ -116,6 +118,8 @@ export const UpdateTestRequestSchema = z
       .optional(),
     status: TestStatusEnum.optional(),
     instructions: z.string().optional(),
+    shuffle_questions: z.boolean().optional(),
+    shuffle_options: z.boolean().optional(),
   })
   .refine(
     (data) => {
@@ -222,6 +226,8 @@ export const TestDataSchema = z.object({
   passing_score: z.number().nullable(),
   status: TestStatusEnum,
   instructions: z.string().nullable(),
+  shuffle_questions: z.boolean(), // per-attempt question order
+  shuffle_options: z.boolean(), // per-attempt option order
   created_at: z.date(),
   updated_at: z.date(),
   created_by: z.string().uuid().nullable(),
@@ -490,6 +496,8 @@ export type CreateTestDB = {
   passing_score: string | null;
   status: TestStatus;
   instructions: string | null;
+  shuffle_questions: boolean;
+  shuffle_options: boolean;
   created_by: string | null;
   updated_by: string | null;
 };
@@ -509,6 +517,8 @@ export type UpdateTestDB = {
   passing_score?: string | null;
   status?: TestStatus;
   instructions?: string | null;
+  shuffle_questions?: boolean;
+  shuffle_options?: boolean;
   updated_at: Date;
   updated_by?: string | null;
 };
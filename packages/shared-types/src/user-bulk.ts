@@ -6,15 +6,30 @@ import {
   EducationEnum,
   UserResponseSchema,
 } from "./user";
+import { NikSchema } from "./nik";
 
 // ==================== BULK USER CREATION SCHEMAS ====================
 
+// create rejects rows of registered users, upsert updates them field by field
+export const BulkImportModeEnum = z.enum(["create", "upsert"]);
+
+// How upsert treats a field that differs from the registered value
+export const BulkConflictPolicyEnum = z.enum([
+  "overwrite", // take the imported value
+  "fill_empty", // only fill fields that are still empty
+  "skip", // leave registered users untouched
+]);
+
+// One field of a registered user changed by an upsert
+export const BulkFieldChangeSchema = z.object({
+  field: z.string(),
+  old_value: z.string().nullable(),
+  new_value: z.string(),
+});
+
 // Single user data from CSV
 export const BulkUserDataSchema = z.object({
-  nik: z
-    .string()
-    .min(16, "NIK must be exactly 16 characters")
-    .max(16, "NIK must be exactly 16 characters"),
+  nik: NikSchema,
   name: z.string().min(1, "Name is required").max(255, "Name is too long"),
   role: RoleEnum.default("participant"),
   email: z.string().email("Invalid email format").max(255, "Email is too long"),
@@ -50,6 +65,8 @@ export const BulkCreateUsersRequestSchema = z.object({
       skip_duplicates: z.boolean().default(false), // Skip users with duplicate NIK/email
       validate_only: z.boolean().default(false), // Only validate, don't insert
       default_role: RoleEnum.default("participant"),
+      mode: BulkImportModeEnum.default("create"),
+      conflict_policy: BulkConflictPolicyEnum.default("fill_empty"),
     })
     .optional(),
 });
@@ -80,6 +97,8 @@ export const CSVUploadRequestSchema = z.object({
       skip_duplicates: z.boolean().default(false),
       validate_only: z.boolean().default(false),
       default_role: RoleEnum.default("participant"),
+      mode: BulkImportModeEnum.default("create"),
+      conflict_policy: BulkConflictPolicyEnum.default("fill_empty"),
     })
     .optional(),
 });
@@ -94,6 +113,8 @@ export const BulkUserResultSchema = z.object({
   email: z.string(),
   status: z.enum(["success", "error", "skipped"]),
   user_data: UserResponseSchema.optional(), // Only present if status is success
+  action: z.enum(["created", "updated", "unchanged"]).optional(), // upsert only
+  changes: z.array(BulkFieldChangeSchema).optional(), // upsert only
   error: z
     .object({
       field: z.string().optional(),
@@ -196,6 +217,9 @@ export const EducationMappingSchema = z.object({
 });
 
 // ==================== TYPE EXPORTS ====================
+export type BulkImportMode = z.infer<typeof BulkImportModeEnum>;
+export type BulkConflictPolicy = z.infer<typeof BulkConflictPolicyEnum>;
+export type BulkFieldChange = z.infer<typeof BulkFieldChangeSchema>;
 export type BulkUserData = z.infer<typeof BulkUserDataSchema>;
 export type BulkCreateUsersRequest = z.infer<
   typeof BulkCreateUsersRequestSchema
@@ -217,6 +241,7 @@ export const BULK_CONSTANTS = {
   MAX_USERS_PER_BATCH: 1000,
   MAX_FILE_SIZE: 10 * 1024 * 1024, // 10MB
   SUPPORTED_CSV_FORMATS: [".csv"] as const,
+  SUPPORTED_IMPORT_FORMATS: [".csv", ".xlsx"] as const,
   DEFAULT_SHEET_INDEX: 0,
   PREVIEW_ROWS: 10,
   SAMPLE_ROWS: 5,
@@ -227,10 +252,15 @@ export const BULK_ERROR_CODES = {
   FILE_TOO_LARGE: "FILE_TOO_LARGE",
   INVALID_FILE_FORMAT: "INVALID_FILE_FORMAT",
   CSV_PARSE_ERROR: "CSV_PARSE_ERROR",
+  XLSX_PARSE_ERROR: "XLSX_PARSE_ERROR",
+  SHEET_NOT_FOUND: "SHEET_NOT_FOUND",
   MISSING_REQUIRED_COLUMNS: "MISSING_REQUIRED_COLUMNS",
   DUPLICATE_NIK: "DUPLICATE_NIK",
   DUPLICATE_EMAIL: "DUPLICATE_EMAIL",
+  MATCH_CONFLICT: "MATCH_CONFLICT",
   VALIDATION_FAILED: "VALIDATION_FAILED",
+  INVALID_DATE: "INVALID_DATE",
   BATCH_SIZE_EXCEEDED: "BATCH_SIZE_EXCEEDED",
   DATABASE_BATCH_ERROR: "DATABASE_BATCH_ERROR",
+  DATABASE_UPDATE_ERROR: "DATABASE_UPDATE_ERROR",
 } as const;
@@ -0,0 +1,468 @@
+import { z } from "zod";
+import { RoleEnum } from "./user";
+import {
+  BulkConflictPolicyEnum,
+  BulkFieldChangeSchema,
+  BulkImportModeEnum,
+  BulkUserDataSchema,
+  type BulkConflictPolicy,
+  type BulkImportMode,
+} from "./user-bulk";
+import { NikMismatchSchema, NikProfileFieldEnum } from "./nik";
+
+// ==================== ENUMS ====================
+
+// BulkUserData fields a spreadsheet column can be mapped to
+export const IMPORT_FIELDS = [
+  "nik",
+  "name",
+  "email",
+  "gender",
+  "phone",
+  "birth_place",
+  "birth_date",
+  "religion",
+  "education",
+  "address",
+  "province",
+  "regency",
+  "district",
+  "village",
+  "postal_code",
+] as const;
+
+export const REQUIRED_IMPORT_FIELDS = ["nik", "name", "email"] as const;
+
+export const ImportFieldEnum = z.enum(IMPORT_FIELDS);
+export const ImportFileFormatEnum = z.enum(["csv", "xlsx"]);
+export const ImportRowStatusEnum = z.enum([
+  "valid", // would be created
+  "invalid", // failed validation
+  "duplicate", // NIK or email repeated earlier in the file
+  "exists", // NIK or email already registered
+  "update", // registered user whose fields would change (upsert)
+  "unchanged", // registered user already up to date (upsert)
+  "created",
+  "updated",
+  "skipped",
+  "failed", // database error while creating or updating
+]);
+
+// ==================== BASE SCHEMAS ====================
+
+// Import field -> spreadsheet header
+export const ImportColumnMappingSchema = z.object({
+  nik: z.string().min(1).optional(),
+  name: z.string().min(1).optional(),
+  email: z.string().min(1).optional(),
+  gender: z.string().min(1).optional(),
+  phone: z.string().min(1).optional(),
+  birth_place: z.string().min(1).optional(),
+  birth_date: z.string().min(1).optional(),
+  religion: z.string().min(1).optional(),
+  education: z.string().min(1).optional(),
+  address: z.string().min(1).optional(),
+  province: z.string().min(1).optional(),
+  regency: z.string().min(1).optional(),
+  district: z.string().min(1).optional(),
+  village: z.string().min(1).optional(),
+  postal_code: z.string().min(1).optional(),
+});
+
+// ==================== REQUEST SCHEMAS ====================
+
+export const ImportProfileByIdRequestSchema = z.object({
+  profileId: z.string().uuid("Invalid profile ID format"),
+});
+
+export const CreateImportProfileRequestSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100, "Name is too long"),
+  description: z.string().max(500, "Description is too long").optional(),
+  column_mapping: ImportColumnMappingSchema.refine(
+    (mapping) => REQUIRED_IMPORT_FIELDS.every((field) => mapping[field]),
+    { message: "NIK, name and email columns must be mapped" }
+  ),
+  sheet_name: z.string().max(100).optional(), // xlsx only, first sheet if omitted
+  header_row: z.number().int().min(1).max(50).optional(), // detected if omitted
+});
+
+export const UpdateImportProfileRequestSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(100, "Name is too long")
+    .optional(),
+  description: z
+    .string()
+    .max(500, "Description is too long")
+    .nullable()
+    .optional(),
+  column_mapping: ImportColumnMappingSchema.refine(
+    (mapping) => REQUIRED_IMPORT_FIELDS.every((field) => mapping[field]),
+    { message: "NIK, name and email columns must be mapped" }
+  ).optional(),
+  sheet_name: z.string().max(100).nullable().optional(),
+  header_row: z.number().int().min(1).max(50).nullable().optional(),
+});
+
+/**
+ * Import of a CSV or XLSX file. file_content is the CSV text, or the workbook
+ * encoded as base64. The column mapping comes from the request, else from
+ * the profile, else from header suggestions.
+ */
+export const UserImportRequestSchema = z.object({
+  file_name: z.string().min(1, "File name is required"),
+  file_content: z.string().min(1, "File content is required"),
+  format: ImportFileFormatEnum.optional(), // taken from the file extension if omitted
+  profile_id: z.string().uuid("Invalid profile ID format").optional(),
+  column_mapping: ImportColumnMappingSchema.optional(),
+  sheet_name: z.string().max(100).optional(),
+  header_row: z.number().int().min(1).max(50).optional(),
+  dry_run: z.boolean().default(false), // preview every row without creating users
+  options: z
+    .object({
+      skip_duplicates: z.boolean().default(false), // skip registered users instead of failing them
+      default_role: RoleEnum.default("participant"),
+      mode: BulkImportModeEnum.default("create"),
+      conflict_policy: BulkConflictPolicyEnum.default("fill_empty"), // upsert only
+    })
+    .optional(),
+});
+
+// ==================== RESPONSE SCHEMAS ====================
+
+export const ImportProfileDataSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  description: z.string().nullable(),
+  column_mapping: ImportColumnMappingSchema,
+  sheet_name: z.string().nullable(),
+  header_row: z.number().nullable(),
+  created_at: z.date(),
+  updated_at: z.date(),
+  created_by: z.string().uuid().nullable(),
+});
+
+export const GetImportProfilesResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.array(ImportProfileDataSchema),
+  timestamp: z.string(),
+});
+
+export const ImportProfileResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: ImportProfileDataSchema,
+  timestamp: z.string(),
+});
+
+export const ImportColumnSuggestionSchema = z.object({
+  field: ImportFieldEnum,
+  header: z.string().nullable(), // best unclaimed header, null when none is close enough
+  score: z.number(), // 0-1 similarity of the suggested header
+  candidates: z.array(z.object({ header: z.string(), score: z.number() })),
+});
+
+export const ImportRowErrorSchema = z.object({
+  field: z.string().optional(),
+  message: z.string(),
+  code: z.string().optional(),
+});
+
+export const ImportRowResultSchema = z.object({
+  row_number: z.number(), // row in the file, header included
+  status: ImportRowStatusEnum,
+  nik: z.string(),
+  name: z.string(),
+  email: z.string(),
+  data: BulkUserDataSchema.partial().optional(), // normalized values
+  errors: z.array(ImportRowErrorSchema),
+  changes: z.array(BulkFieldChangeSchema).optional(), // upsert diff against the registered user
+  warnings: z.array(NikMismatchSchema).optional(), // row values the NIK disagrees with
+  prefilled: z.array(NikProfileFieldEnum).optional(), // empty cells filled from the NIK
+  user_id: z.string().uuid().optional(), // created or matched user
+});
+
+export const UserImportResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.object({
+    dry_run: z.boolean(),
+    file_info: z.object({
+      file_name: z.string(),
+      format: ImportFileFormatEnum,
+      sheet_name: z.string().nullable(),
+      sheet_names: z.array(z.string()),
+      header_row: z.number(),
+      data_rows: z.number(),
+      headers: z.array(z.string()),
+    }),
+    profile_id: z.string().uuid().nullable(),
+    column_mapping: ImportColumnMappingSchema,
+    suggestions: z.array(ImportColumnSuggestionSchema),
+    missing_required_fields: z.array(ImportFieldEnum),
+    summary: z.object({
+      total_rows: z.number(),
+      valid_rows: z.number(),
+      invalid_rows: z.number(),
+      duplicate_rows: z.number(),
+      existing_rows: z.number(),
+      update_rows: z.number(),
+      unchanged_rows: z.number(),
+      created: z.number(),
+      updated: z.number(),
+      skipped: z.number(),
+      failed: z.number(),
+    }),
+    rows: z.array(ImportRowResultSchema),
+  }),
+  timestamp: z.string(),
+});
+
+// ==================== TYPE EXPORTS ====================
+export type ImportField = z.infer<typeof ImportFieldEnum>;
+export type ImportFileFormat = z.infer<typeof ImportFileFormatEnum>;
+export type ImportRowStatus = z.infer<typeof ImportRowStatusEnum>;
+export type ImportColumnMapping = z.infer<typeof ImportColumnMappingSchema>;
+export type ImportProfileByIdRequest = z.infer<
+  typeof ImportProfileByIdRequestSchema
+>;
+export type CreateImportProfileRequest = z.infer<
+  typeof CreateImportProfileRequestSchema
+>;
+export type UpdateImportProfileRequest = z.infer<
+  typeof UpdateImportProfileRequestSchema
+>;
+export type UserImportRequest = z.infer<typeof UserImportRequestSchema>;
+export type ImportProfileData = z.infer<typeof ImportProfileDataSchema>;
+export type GetImportProfilesResponse = z.infer<
+  typeof GetImportProfilesResponseSchema
+>;
+export type ImportProfileResponse = z.infer<typeof ImportProfileResponseSchema>;
+export type ImportColumnSuggestion = z.infer<
+  typeof ImportColumnSuggestionSchema
+>;
+export type ImportRowError = z.infer<typeof ImportRowErrorSchema>;
+export type ImportRowResult = z.infer<typeof ImportRowResultSchema>;
+export type UserImportResponse = z.infer<typeof UserImportResponseSchema>;
+
+// ==================== UTILITY FUNCTIONS ====================
+
+// Lowercase words only, so "E-MAIL", "e_mail" and "Email " compare equal
+export function normalizeImportHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function bigrams(value: string): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) {
+    grams.push(value.substring(i, i + 2));
+  }
+  return grams;
+}
+
+// Dice coefficient over character bigrams
+function diceSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const gramsA = bigrams(a);
+  const remaining = bigrams(b);
+  let shared = 0;
+  for (const gram of gramsA) {
+    const index = remaining.indexOf(gram);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (gramsA.length + bigrams(b).length);
+}
+
+/**
+ * Similarity (0-1) of a spreadsheet header to an import field, the best
+ * match over the field's known aliases. A header containing every word of an
+ * alias ("Alamat KTP Lengkap" for "Alamat KTP") counts as a near match.
+ */
+export function scoreImportHeader(header: string, field: ImportField): number {
+  const normalized = normalizeImportHeader(header);
+  if (!normalized) return 0;
+  const compact = normalized.replace(/ /g, "");
+  const words = normalized.split(" ");
+
+  let best = 0;
+  for (const alias of IMPORT_FIELD_ALIASES[field]) {
+    const aliasNormalized = normalizeImportHeader(alias);
+    const aliasCompact = aliasNormalized.replace(/ /g, "");
+    if (compact === aliasCompact) return 1;
+
+    const aliasWords = aliasNormalized.split(" ");
+    const score = aliasWords.every((word) => words.includes(word))
+      ? 0.9
+      : diceSimilarity(compact, aliasCompact);
+    best = Math.max(best, score);
+  }
+  return Math.round(best * 100) / 100;
+}
+
+/**
+ * Suggest a header for every import field. Pairs are assigned best score
+ * first so each header is used once; fields already mapped keep their header.
+ */
+export function suggestColumnMapping(
+  headers: string[],
+  currentMapping: ImportColumnMapping = {}
+): { mapping: ImportColumnMapping; suggestions: ImportColumnSuggestion[] } {
+  const usableHeaders = headers.filter((header) => header.trim() !== "");
+  const mapping: ImportColumnMapping = {};
+  const usedHeaders = new Set<string>();
+
+  for (const field of IMPORT_FIELDS) {
+    const header = currentMapping[field];
+    if (header && usableHeaders.includes(header)) {
+      mapping[field] = header;
+      usedHeaders.add(header);
+    }
+  }
+
+  const candidatesByField = new Map<
+    ImportField,
+    { header: string; score: number }[]
+  >();
+  const pairs: { field: ImportField; header: string; score: number }[] = [];
+
+  for (const field of IMPORT_FIELDS) {
+    const candidates = usableHeaders
+      .map((header) => ({ header, score: scoreImportHeader(header, field) }))
+      .filter((candidate) => candidate.score >= IMPORT_SUGGESTION_THRESHOLD)
+      .sort((a, b) => b.score - a.score);
+    candidatesByField.set(field, candidates.slice(0, 3));
+    pairs.push(...candidates.map((candidate) => ({ field, ...candidate })));
+  }
+
+  pairs.sort((a, b) => b.score - a.score);
+  for (const pair of pairs) {
+    if (mapping[pair.field] || usedHeaders.has(pair.header)) continue;
+    mapping[pair.field] = pair.header;
+    usedHeaders.add(pair.header);
+  }
+
+  const suggestions = IMPORT_FIELDS.map((field) => {
+    const header = mapping[field] || null;
+    return {
+      field,
+      header,
+      score: header ? scoreImportHeader(header, field) : 0,
+      candidates: candidatesByField.get(field) || [],
+    };
+  });
+
+  return { mapping, suggestions };
+}
+
+export function getMissingImportFields(
+  mapping: ImportColumnMapping
+): ImportField[] {
+  return REQUIRED_IMPORT_FIELDS.filter((field) => !mapping[field]);
+}
+
+export function getImportFileFormat(fileName: string): ImportFileFormat | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".xlsx")) return "xlsx";
+  if (lower.endsWith(".csv") || lower.endsWith(".txt")) return "csv";
+  return null;
+}
+
+// ==================== CONSTANTS ====================
+
+// Minimum similarity for a header to be suggested
+export const IMPORT_SUGGESTION_THRESHOLD = 0.6;
+
+// Rows scanned for the header row when the profile does not fix it
+export const IMPORT_HEADER_SCAN_ROWS = 10;
+
+// Header spellings seen in client spreadsheets, Syntegra's own format first
+export const IMPORT_FIELD_ALIASES: Record<ImportField, string[]> = {
+  nik: ["NIK KTP", "NIK", "No KTP", "Nomor KTP", "Nomor Induk Kependudukan"],
+  name: ["NAMA", "Name", "Full Name"],
+  email: ["E-MAIL", "Alamat Email", "Email Address", "Surel"],
+  gender: ["SEX", "Jenis Kelamin", "Gender", "JK", "L/P"],
+  phone: [
+    "NOMOR HP",
+    "No HP",
+    "Nomor Telepon",
+    "No Telp",
+    "Telepon",
+    "Phone",
+    "WhatsApp",
+    "No WA",
+  ],
+  birth_place: ["TEMPAT LAHIR", "Birth Place", "Place of Birth"],
+  birth_date: [
+    "TANGGAL LAHIR",
+    "Tgl Lahir",
+    "Birth Date",
+    "Date of Birth",
+    "DOB",
+  ],
+  religion: ["AGAMA", "Religion"],
+  education: [
+    "PENDIDIKAN TERAKHIR",
+    "Pendidikan",
+    "Jenjang Pendidikan",
+    "Education",
+  ],
+  address: ["ALAMAT KTP", "Alamat", "Alamat Domisili", "Address"],
+  province: ["Provinsi", "Province"],
+  regency: ["Kabupaten/Kota", "Kabupaten", "Kota", "Regency", "City"],
+  district: ["Kecamatan", "District"],
+  village: ["Kelurahan/Desa", "Kelurahan", "Desa", "Village"],
+  postal_code: ["Kode Pos", "Postal Code", "Zip Code"],
+};
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  nik: "NIK",
+  name: "Nama",
+  email: "Email",
+  gender: "Jenis Kelamin",
+  phone: "Nomor HP",
+  birth_place: "Tempat Lahir",
+  birth_date: "Tanggal Lahir",
+  religion: "Agama",
+  education: "Pendidikan",
+  address: "Alamat",
+  province: "Provinsi",
+  regency: "Kabupaten/Kota",
+  district: "Kecamatan",
+  village: "Kelurahan/Desa",
+  postal_code: "Kode Pos",
+};
+
+export const IMPORT_ROW_STATUS_LABELS: Record<ImportRowStatus, string> = {
+  valid: "Siap diimpor",
+  invalid: "Tidak valid",
+  duplicate: "Duplikat di file",
+  exists: "Sudah terdaftar",
+  update: "Akan diperbarui",
+  unchanged: "Tidak berubah",
+  created: "Berhasil dibuat",
+  updated: "Berhasil diperbarui",
+  skipped: "Dilewati",
+  failed: "Gagal",
+};
+
+export const IMPORT_MODE_LABELS: Record<BulkImportMode, string> = {
+  create: "Hanya tambah peserta baru",
+  upsert: "Tambah baru & perbarui yang terdaftar",
+};
+
+export const IMPORT_CONFLICT_POLICY_LABELS: Record<BulkConflictPolicy, string> =
+  {
+    overwrite: "Timpa dengan data file",
+    fill_empty: "Isi kolom yang masih kosong",
+    skip: "Lewati peserta terdaftar",
+  };
@@ -1,6 +1,7 @@
 // packages/shared-types/src/user.ts
 
 import { z } from "zod";
+import { NikMismatchSchema } from "./nik";
 
 // ==================== ENUMS ====================
 export const RoleEnum = z.enum(["admin", "participant"]);
@@ -163,6 +164,7 @@ export const CreateUserResponseSchema = z.object({
   success: z.boolean(),
   message: z.string(),
   data: UserResponseSchema,
+  warnings: z.array(NikMismatchSchema).optional(), // profile values the NIK disagrees with
   timestamp: z.string(),
 });
 
@@ -342,6 +344,7 @@ export const UpdateUserResponseSchema = z.object({
   success: z.literal(true),
   message: z.string(),
   data: UserResponseSchema,
+  warnings: z.array(NikMismatchSchema).optional(), // profile values the NIK disagrees with
   timestamp: z.string(),
 });
 